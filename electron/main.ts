@@ -1,5 +1,9 @@
-import { app, BrowserWindow, ipcMain, Notification, Tray, Menu, nativeImage, shell } from 'electron'
+import { app, BrowserWindow, ipcMain, Notification, Tray, Menu, nativeImage, shell, dialog } from 'electron'
 import path from 'path'
+import fs from 'fs/promises'
+import { sendSmtpMail, assertSecureLogin, SMTP_SECURITY, type SmtpConfig, type SmtpEnvelope } from './smtp'
+import { sendTwilioMessage, type TwilioMessage } from './twilio'
+import { getSecret, hasSecret, setSecret, isSecretName, getSmtpAccount, setSmtpAccount } from './secrets'
 
 // Handle uncaught exceptions
 process.on('uncaughtException', (error) => {
@@ -15,6 +19,10 @@ const isDev = process.env.NODE_ENV === 'development' || !app.isPackaged
 
 let mainWindow: BrowserWindow | null = null
 let tray: Tray | null = null
+let reminderTimer: NodeJS.Timeout | null = null
+
+// Appointment reminders: check every 5 minutes, even while the window is hidden in the tray
+const REMINDER_INTERVAL_MS = 5 * 60 * 1000
 
 function createWindow() {
   console.log('Creating main window...')
@@ -100,6 +108,22 @@ function createTray() {
   })
 }
 
+// Reminder timer - the renderer owns the Supabase session and Google token,
+// so the main process only tells it when to run a reminder pass
+function startReminderTimer() {
+  if (reminderTimer) return
+  reminderTimer = setInterval(() => {
+    mainWindow?.webContents.send('run-reminders')
+  }, REMINDER_INTERVAL_MS)
+}
+
+function stopReminderTimer() {
+  if (reminderTimer) {
+    clearInterval(reminderTimer)
+    reminderTimer = null
+  }
+}
+
 // IPC Handlers
 ipcMain.handle('get-app-version', () => {
   return app.getVersion()
@@ -118,6 +142,72 @@ ipcMain.handle('show-notification', async (_event, { title, body }: { title: str
   return false
 })
 
+// Render an HTML document (invoice) to PDF in a hidden window and ask where to save it
+ipcMain.handle('save-pdf', async (_event, { html, fileName }: { html: string; fileName: string }) => {
+  const pdfWindow = new BrowserWindow({ show: false, webPreferences: { javascript: false } })
+  try {
+    await pdfWindow.loadURL(`data:text/html;charset=utf-8,${encodeURIComponent(html)}`)
+    const pdf = await pdfWindow.webContents.printToPDF({ printBackground: true, pageSize: 'A4' })
+    const { canceled, filePath } = await dialog.showSaveDialog(mainWindow!, {
+      defaultPath: fileName,
+      filters: [{ name: 'PDF', extensions: ['pdf'] }]
+    })
+    if (canceled || !filePath) return false
+    await fs.writeFile(filePath, pdf)
+    return true
+  } finally {
+    pdfWindow.destroy()
+  }
+})
+
+// Deliver an email (the renderer builds the message) through the SMTP account stored in this
+// computer's keychain - the renderer cannot choose the server the password goes to
+ipcMain.handle('send-smtp-mail', async (_event, { envelope, raw }: { envelope: SmtpEnvelope; raw: string }) => {
+  const account = await getSmtpAccount()
+  if (!account) throw new Error('SMTP is not set up on this computer')
+  await sendSmtpMail(account, envelope, raw)
+})
+
+// This computer's SMTP account without the password
+ipcMain.handle('get-smtp-account', async () => {
+  const account = await getSmtpAccount()
+  if (!account) return null
+  const { password, ...server } = account
+  return { ...server, hasPassword: !!password }
+})
+
+// An empty password keeps the stored one only while the server and login stay the same
+ipcMain.handle('set-smtp-account', async (_event, account: SmtpConfig) => {
+  const host = String(account.host ?? '').trim()
+  const port = Number(account.port)
+  const user = String(account.user ?? '').trim()
+  if (host && (!Number.isInteger(port) || port < 1 || port > 65535)) throw new Error('Invalid SMTP port')
+  if (!SMTP_SECURITY.includes(account.security)) throw new Error('Invalid SMTP security')
+  assertSecureLogin({ security: account.security, user })
+  const stored = await getSmtpAccount()
+  const samePassword = stored && stored.host === host && stored.port === port && stored.user === user
+  const password = account.password || (samePassword ? stored.password : '')
+  await setSmtpAccount({ host, port, security: account.security, user, password })
+})
+
+// SMS / WhatsApp through Twilio with the auth token from this computer's keychain
+ipcMain.handle('send-twilio-message', async (_event, message: TwilioMessage) => {
+  if (message.channel !== 'sms' && message.channel !== 'whatsapp') throw new Error('Unknown channel')
+  const authToken = await getSecret(`twilio_auth_token:${message.channel}`)
+  if (!authToken) throw new Error('The Twilio auth token is not set on this computer')
+  return sendTwilioMessage(message, authToken)
+})
+
+// Provider credentials: the renderer can store, clear or check them, never read them back
+ipcMain.handle('set-secret', async (_event, { name, value }: { name: string; value: string }) => {
+  if (!isSecretName(name)) throw new Error('Unknown secret')
+  await setSecret(name, value)
+})
+
+ipcMain.handle('has-secret', async (_event, name: string) => {
+  return isSecretName(name) && hasSecret(name)
+})
+
 ipcMain.handle('minimize-window', () => {
   mainWindow?.minimize()
 })
@@ -143,6 +233,7 @@ app.whenReady().then(() => {
   console.log('App is ready, creating window...')
   createWindow()
   createTray()
+  startReminderTimer()
 
   app.on('activate', () => {
     if (BrowserWindow.getAllWindows().length === 0) {
@@ -160,6 +251,7 @@ app.on('window-all-closed', () => {
 })
 
 app.on('before-quit', () => {
+  stopReminderTimer()
   if (tray) {
     tray.destroy()
   }
@@ -1,4 +1,6 @@
 import { contextBridge, ipcRenderer } from 'electron'
+import type { SmtpConfig, SmtpEnvelope } from './smtp'
+import type { TwilioMessage, TwilioResponse } from './twilio'
 
 // Expose protected methods to renderer process
 contextBridge.exposeInMainWorld('electronAPI', {
@@ -14,6 +16,25 @@ contextBridge.exposeInMainWorld('electronAPI', {
   // Notifications
   showNotification: (title: string, body: string) => 
     ipcRenderer.invoke('show-notification', { title, body }),
+
+  // Save an HTML document as PDF (returns false if the user cancels)
+  savePdf: (html: string, fileName: string) =>
+    ipcRenderer.invoke('save-pdf', { html, fileName }),
+
+  // Send a raw email through this computer's SMTP account (mail transport "smtp")
+  sendSmtpMail: (envelope: SmtpEnvelope, raw: string) =>
+    ipcRenderer.invoke('send-smtp-mail', { envelope, raw }),
+
+  // SMTP account in the OS keychain (the password can be set, never read back)
+  getSmtpAccount: () => ipcRenderer.invoke('get-smtp-account'),
+  setSmtpAccount: (account: SmtpConfig) => ipcRenderer.invoke('set-smtp-account', account),
+
+  // SMS / WhatsApp through Twilio (the main process adds the auth token)
+  sendTwilioMessage: (message: TwilioMessage) => ipcRenderer.invoke('send-twilio-message', message),
+
+  // Provider credentials in the OS keychain (write-only for the renderer)
+  setSecret: (name: string, value: string) => ipcRenderer.invoke('set-secret', { name, value }),
+  hasSecret: (name: string) => ipcRenderer.invoke('has-secret', name),
   
   // Platform info
   platform: process.platform,
@@ -23,6 +44,13 @@ contextBridge.exposeInMainWorld('electronAPI', {
     const handler = (_event: Electron.IpcRendererEvent, isMaximized: boolean) => callback(isMaximized)
     ipcRenderer.on('maximize-change', handler)
     return () => ipcRenderer.removeListener('maximize-change', handler)
+  },
+
+  // Appointment reminders (timer runs in the main process)
+  onRunReminders: (callback: () => void) => {
+    const handler = () => callback()
+    ipcRenderer.on('run-reminders', handler)
+    return () => ipcRenderer.removeListener('run-reminders', handler)
   }
 })
 
@@ -36,8 +64,16 @@ declare global {
       closeWindow: () => Promise<void>
       isMaximized: () => Promise<boolean>
       showNotification: (title: string, body: string) => Promise<boolean>
+      savePdf: (html: string, fileName: string) => Promise<boolean>
+      sendSmtpMail: (envelope: SmtpEnvelope, raw: string) => Promise<void>
+      getSmtpAccount: () => Promise<(Omit<SmtpConfig, 'password'> & { hasPassword: boolean }) | null>
+      setSmtpAccount: (account: SmtpConfig) => Promise<void>
+      sendTwilioMessage: (message: TwilioMessage) => Promise<TwilioResponse>
+      setSecret: (name: string, value: string) => Promise<void>
+      hasSecret: (name: string) => Promise<boolean>
       platform: NodeJS.Platform
       onMaximizeChange: (callback: (isMaximized: boolean) => void) => () => void
+      onRunReminders: (callback: () => void) => () => void
     }
   }
 }
@@ -0,0 +1,60 @@
+// Provider credentials kept on this computer, encrypted with the OS keychain (Electron safeStorage).
+// The renderer can store or clear them but never read them back: the main process uses them itself
+// to call the provider (Twilio messages, SMTP delivery), so they are not in the clinic's shared settings.
+
+import { app, safeStorage } from 'electron'
+import path from 'path'
+import fs from 'fs/promises'
+import type { SmtpConfig } from './smtp'
+
+// Secrets the renderer may set by name
+export const SECRET_NAMES = ['twilio_auth_token:sms', 'twilio_auth_token:whatsapp'] as const
+
+// The SMTP account (server, login and password) is stored as one entry, so the password
+// can only ever be sent to the server it was entered for
+const SMTP_ACCOUNT = 'smtp_account'
+
+export type SecretName = typeof SECRET_NAMES[number] | typeof SMTP_ACCOUNT
+
+export const isSecretName = (name: unknown): name is SecretName =>
+  SECRET_NAMES.includes(name as typeof SECRET_NAMES[number])
+
+const secretsFile = () => path.join(app.getPath('userData'), 'secrets.json')
+
+// Encrypted values (base64) by name
+async function readSecrets(): Promise<Partial<Record<SecretName, string>>> {
+  try {
+    return JSON.parse(await fs.readFile(secretsFile(), 'utf8'))
+  } catch {
+    return {}
+  }
+}
+
+export async function getSecret(name: SecretName): Promise<string | undefined> {
+  const encrypted = (await readSecrets())[name]
+  if (!encrypted) return undefined
+  return safeStorage.decryptString(Buffer.from(encrypted, 'base64'))
+}
+
+export async function hasSecret(name: SecretName): Promise<boolean> {
+  return !!(await readSecrets())[name]
+}
+
+// An empty value removes the secret
+export async function setSecret(name: SecretName, value: string): Promise<void> {
+  if (value && !safeStorage.isEncryptionAvailable()) throw new Error('The system keychain is not available')
+  const secrets = await readSecrets()
+  if (value) secrets[name] = safeStorage.encryptString(value).toString('base64')
+  else delete secrets[name]
+  await fs.writeFile(secretsFile(), JSON.stringify(secrets), { mode: 0o600 })
+}
+
+export async function getSmtpAccount(): Promise<SmtpConfig | undefined> {
+  const stored = await getSecret(SMTP_ACCOUNT)
+  return stored ? JSON.parse(stored) as SmtpConfig : undefined
+}
+
+// Without a host the account is removed
+export async function setSmtpAccount(account: SmtpConfig): Promise<void> {
+  await setSecret(SMTP_ACCOUNT, account.host ? JSON.stringify(account) : '')
+}
@@ -0,0 +1,178 @@
+// Minimal SMTP client for the "smtp" mail transport - the renderer builds the MIME message,
+// this only delivers it (EHLO, STARTTLS, AUTH PLAIN/LOGIN, MAIL/RCPT/DATA)
+
+import net from 'net'
+import tls from 'tls'
+import os from 'os'
+
+export interface SmtpConfig {
+  host: string
+  port: number
+  security: 'tls' | 'starttls' | 'none'
+  user: string
+  password: string
+}
+
+export const SMTP_SECURITY: SmtpConfig['security'][] = ['tls', 'starttls', 'none']
+
+// The login (AUTH PLAIN/LOGIN) sends the password as plain base64, so only over TLS
+export const assertSecureLogin = (config: Pick<SmtpConfig, 'security' | 'user'>) => {
+  if (config.user && config.security === 'none') {
+    throw new Error('SMTP login needs an encrypted connection (SSL/TLS or STARTTLS)')
+  }
+}
+
+export interface SmtpEnvelope {
+  from: string
+  to: string[]
+}
+
+interface SmtpReply {
+  code: number
+  text: string
+}
+
+const TIMEOUT_MS = 30000
+
+// Reads replies from a socket; multi-line replies ("250-...") end at the line with a space after the code
+function createReader(socket: net.Socket) {
+  let buffer = ''
+  let lines: string[] = []
+  const replies: SmtpReply[] = []
+  let waiting: { resolve: (reply: SmtpReply) => void; reject: (error: Error) => void } | null = null
+  let failure: Error | null = null
+
+  const flush = () => {
+    if (!waiting) return
+    if (replies.length) {
+      const w = waiting
+      waiting = null
+      w.resolve(replies.shift()!)
+    } else if (failure) {
+      const w = waiting
+      waiting = null
+      w.reject(failure)
+    }
+  }
+
+  const onData = (chunk: Buffer) => {
+    buffer += chunk.toString('utf8')
+    let index: number
+    while ((index = buffer.indexOf('\n')) >= 0) {
+      const line = buffer.slice(0, index).replace(/\r$/, '')
+      buffer = buffer.slice(index + 1)
+      lines.push(line)
+      if (/^\d{3}(?: |$)/.test(line)) {
+        replies.push({ code: parseInt(line.slice(0, 3), 10), text: lines.join('\n') })
+        lines = []
+      }
+    }
+    flush()
+  }
+  const onError = (error: Error) => {
+    failure = error
+    flush()
+  }
+  const onClose = () => onError(new Error('SMTP connection closed'))
+
+  socket.on('data', onData)
+  socket.on('error', onError)
+  socket.on('close', onClose)
+
+  return {
+    read: () => new Promise<SmtpReply>((resolve, reject) => {
+      waiting = { resolve, reject }
+      flush()
+    }),
+    detach: () => {
+      socket.off('data', onData)
+      socket.off('error', onError)
+      socket.off('close', onClose)
+    }
+  }
+}
+
+function connect(config: SmtpConfig): Promise<net.Socket> {
+  return new Promise((resolve, reject) => {
+    const socket = config.security === 'tls'
+      ? tls.connect({ host: config.host, port: config.port, servername: config.host }, () => resolve(socket))
+      : net.connect({ host: config.host, port: config.port }, () => resolve(socket))
+    socket.setTimeout(TIMEOUT_MS, () => socket.destroy(new Error('SMTP server timed out')))
+    socket.once('error', reject)
+  })
+}
+
+function upgradeToTls(socket: net.Socket, host: string): Promise<tls.TLSSocket> {
+  return new Promise((resolve, reject) => {
+    const secure = tls.connect({ socket, servername: host }, () => resolve(secure))
+    secure.setTimeout(TIMEOUT_MS, () => secure.destroy(new Error('SMTP server timed out')))
+    secure.once('error', reject)
+  })
+}
+
+// Address part of "Name <address>"
+const bareAddress = (address: string) => address.match(/<([^>]+)>/)?.[1] ?? address.trim()
+
+/**
+ * Deliver a raw RFC 822 message through an SMTP server
+ */
+export async function sendSmtpMail(config: SmtpConfig, envelope: SmtpEnvelope, raw: string): Promise<void> {
+  if (!config.host) throw new Error('SMTP server is not configured')
+  if (envelope.to.length === 0) throw new Error('No recipients')
+  assertSecureLogin(config)
+
+  let socket = await connect(config)
+  let reader = createReader(socket)
+
+  const expect = async (codes: number[]) => {
+    const reply = await reader.read()
+    if (!codes.includes(reply.code)) throw new Error(`SMTP error: ${reply.text}`)
+    return reply
+  }
+  const command = async (line: string, codes: number[]) => {
+    socket.write(`${line}\r\n`)
+    return expect(codes)
+  }
+
+  try {
+    await expect([220])
+    const hostname = os.hostname() || 'localhost'
+    let capabilities = (await command(`EHLO ${hostname}`, [250])).text
+
+    if (config.security === 'starttls') {
+      if (!/STARTTLS/i.test(capabilities)) throw new Error('SMTP server does not support STARTTLS')
+      await command('STARTTLS', [220])
+      reader.detach()
+      socket = await upgradeToTls(socket, config.host)
+      reader = createReader(socket)
+      capabilities = (await command(`EHLO ${hostname}`, [250])).text
+    }
+
+    if (config.user) {
+      if (!(socket instanceof tls.TLSSocket)) throw new Error('SMTP login needs an encrypted connection')
+      const authLine = capabilities.split('\n').find(line => /^\d{3}[ -]AUTH[ =]/i.test(line)) ?? ''
+      if (/\bPLAIN\b/i.test(authLine) || !/\bLOGIN\b/i.test(authLine)) {
+        const token = Buffer.from(`\0${config.user}\0${config.password}`).toString('base64')
+        await command(`AUTH PLAIN ${token}`, [235])
+      } else {
+        await command('AUTH LOGIN', [334])
+        await command(Buffer.from(config.user).toString('base64'), [334])
+        await command(Buffer.from(config.password).toString('base64'), [235])
+      }
+    }
+
+    await command(`MAIL FROM:<${bareAddress(envelope.from)}>`, [250])
+    for (const recipient of envelope.to) {
+      await command(`RCPT TO:<${bareAddress(recipient)}>`, [250, 251])
+    }
+    await command('DATA', [354])
+
+    // Dot-stuffing: lines starting with "." get a second one; "." alone ends the message
+    const body = raw.replace(/\r?\n/g, '\r\n').replace(/^\./gm, '..')
+    await command(`${body}\r\n.`, [250])
+    await command('QUIT', [221]).catch(() => undefined)
+  } finally {
+    reader.detach()
+    socket.destroy()
+  }
+}
@@ -0,0 +1,36 @@
+// Twilio Messaging API call made by the main process: the auth token stays in this computer's
+// keychain and the request can only go to Twilio (provider APIs reject browser/CORS calls anyway)
+
+export interface TwilioMessage {
+  channel: 'sms' | 'whatsapp'
+  accountSid: string
+  from: string // E.164
+  to: string // E.164
+  body: string
+}
+
+export interface TwilioResponse {
+  ok: boolean
+  status: number
+  body: string
+}
+
+export async function sendTwilioMessage(message: TwilioMessage, authToken: string): Promise<TwilioResponse> {
+  const prefix = message.channel === 'whatsapp' ? 'whatsapp:' : ''
+  const response = await fetch(
+    `https://api.twilio.com/2010-04-01/Accounts/${encodeURIComponent(message.accountSid)}/Messages.json`,
+    {
+      method: 'POST',
+      headers: {
+        Authorization: `Basic ${Buffer.from(`${message.accountSid}:${authToken}`).toString('base64')}`,
+        'Content-Type': 'application/x-www-form-urlencoded'
+      },
+      body: new URLSearchParams({
+        To: `${prefix}${message.to}`,
+        From: `${prefix}${message.from}`,
+        Body: message.body
+      }).toString()
+    }
+  )
+  return { ok: response.ok, status: response.status, body: await response.text() }
+}
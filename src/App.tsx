@@ -10,6 +10,12 @@ import Pets from './pages/Pets'
 import Settings from './pages/Settings'
 import Inventory from './pages/Inventory'
 import Reports from './pages/Reports'
+import Invoices from './pages/Invoices'
+import Waitlist from './pages/Waitlist'
+import Recalls from './pages/Recalls'
+import ClaimOffer from './pages/ClaimOffer'
+import Book from './pages/Book'
+import AppointmentAction from './pages/AppointmentAction'
 import Login from './pages/Login'
 import AuthCallback from './pages/AuthCallback'
 
@@ -67,6 +73,9 @@ function App() {
       {/* Public routes */}
       <Route path="/login" element={<Login />} />
       <Route path="/auth/callback" element={<AuthCallback />} />
+      <Route path="/claim/:token" element={<ClaimOffer />} />
+      <Route path="/book" element={<Book />} />
+      <Route path="/appointment/:token" element={<AppointmentAction />} />
       
       {/* Protected routes */}
       <Route
@@ -79,11 +88,14 @@ function App() {
                 <Route path="/dashboard" element={<Dashboard />} />
                 <Route path="/appointments" element={<Appointments />} />
                 <Route path="/calendar" element={<Calendar />} />
+                <Route path="/waitlist" element={<Waitlist />} />
                 <Route path="/clients" element={<Clients />} />
                 <Route path="/pets" element={<Pets />} />
+                <Route path="/recalls" element={<Recalls />} />
                 <Route path="/settings" element={<Settings />} />
                 <Route path="/inventory" element={<Inventory />} />
                 <Route path="/reports" element={<Reports />} />
+                <Route path="/invoices" element={<Invoices />} />
               </Routes>
             </Layout>
           </ProtectedRoute>
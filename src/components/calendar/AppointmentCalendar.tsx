@@ -7,6 +7,10 @@ import { Appointment } from '../../stores/appointmentStore'
 import { Pet } from '../../stores/petStore'
 import { Client } from '../../stores/clientStore'
 import { CalendarEvent } from './CalendarEvent'
+import { VetResourceView } from './VetResourceView'
+import { checkSlot, slotFromDate } from '../../services/scheduling'
+import { toDateString } from '../../services/dates'
+import type { Veterinarian } from '../../db/types'
 import { Modal } from '../ui/Modal'
 import { Button } from '../ui/Button'
 
@@ -14,6 +18,7 @@ export interface AppointmentCalendarProps {
   appointments: Appointment[]
   pets: Pet[]
   clients: Client[]
+  veterinarians?: Veterinarian[] // enables the per-vet resource view
   onDateSelect?: (start: Date, end: Date) => void
   onEventClick?: (appointment: Appointment) => void
   onEventDrop?: (appointment: Appointment, newStart: Date, newEnd: Date) => void
@@ -24,6 +29,7 @@ export const AppointmentCalendar: React.FC<AppointmentCalendarProps> = ({
   appointments,
   pets,
   clients,
+  veterinarians = [],
   onDateSelect,
   onEventClick,
   onEventDrop,
@@ -31,6 +37,8 @@ export const AppointmentCalendar: React.FC<AppointmentCalendarProps> = ({
 }) => {
   const [selectedAppointment, setSelectedAppointment] = useState<Appointment | null>(null)
   const [showModal, setShowModal] = useState(false)
+  const [view, setView] = useState<'calendar' | 'vets'>('calendar')
+  const [vetViewDate, setVetViewDate] = useState(() => toDateString(new Date()))
 
   const getPetById = (petId: string) => pets.find(p => p.id === petId)
   const getClientById = (clientId: string) => clients.find(c => c.id === clientId)
@@ -98,11 +106,23 @@ export const AppointmentCalendar: React.FC<AppointmentCalendarProps> = ({
     }
   }
 
-  const handleEventDrop = (info: any) => {
+  const handleEventDrop = async (info: any) => {
     const appointment = info.event.extendedProps.appointment as Appointment
     const newStart = info.event.start
     const newEnd = info.event.end
     
+    // Check the new slot (overlaps, clinic hours, vet availability) before accepting the drop
+    const duration = newEnd ? Math.round((newEnd.getTime() - newStart.getTime()) / 60000) : appointment.duration
+    const issues = await checkSlot(
+      { ...appointment, ...slotFromDate(newStart), duration, excludeId: appointment.id },
+      appointments,
+      veterinarians
+    ).catch(() => [])
+    if (issues.length > 0 && !confirm(`${issues.map(i => i.message).join('\n')}\n\n¿Mover la cita de todos modos?`)) {
+      info.revert()
+      return
+    }
+    
     if (onEventDrop) {
       onEventDrop(appointment, newStart, newEnd)
     }
@@ -137,53 +157,80 @@ export const AppointmentCalendar: React.FC<AppointmentCalendarProps> = ({
 
   return (
     <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-4">
-      <FullCalendar
-        plugins={[dayGridPlugin, timeGridPlugin, interactionPlugin]}
-        initialView="dayGridMonth"
-        headerToolbar={{
-          left: 'prev,next today',
-          center: 'title',
-          right: 'dayGridMonth,timeGridWeek,timeGridDay'
-        }}
-        events={events}
-        selectable={true}
-        selectMirror={true}
-        dayMaxEvents={3}
-        weekends={true}
-        slotMinTime="07:00:00"
-        slotMaxTime="21:00:00"
-        allDaySlot={false}
-        select={handleDateSelect}
-        eventClick={handleEventClick}
-        eventDrop={handleEventDrop}
-        eventTimeFormat={{
-          hour: 'numeric',
-          minute: '2-digit',
-          meridiem: 'short'
-        }}
-        height="auto"
-        eventContent={(eventInfo) => {
-          const apt = eventInfo.event.extendedProps.appointment as Appointment
-          const pet = eventInfo.event.extendedProps.pet as Pet
-          return (
-            <CalendarEvent
-              appointment={apt}
-              pet={pet}
-            />
-          )
-        }}
-        eventClassNames={(eventInfo) => {
-          const apt = eventInfo.event.extendedProps.appointment as Appointment
-          if (apt.status === 'cancelled' || apt.status === 'no-show') {
-            return ['opacity-50']
-          }
-          return []
-        }}
-        dayHeaderClassNames="text-gray-600 font-medium text-sm"
-        titleFormat={{ year: 'numeric', month: 'long', day: 'numeric' }}
-        nowIndicatorClassName="bg-vet-teal"
-        eventInteractive={true}
-      />
+      {veterinarians.length > 0 && (
+        <div className="flex gap-2 mb-4">
+          <Button size="sm" variant={view === 'calendar' ? 'primary' : 'secondary'} onClick={() => setView('calendar')}>
+            Calendar
+          </Button>
+          <Button size="sm" variant={view === 'vets' ? 'primary' : 'secondary'} onClick={() => setView('vets')}>
+            By veterinarian
+          </Button>
+        </div>
+      )}
+
+      {view === 'vets' && veterinarians.length > 0 ? (
+        <VetResourceView
+          date={vetViewDate}
+          onDateChange={setVetViewDate}
+          veterinarians={veterinarians}
+          appointments={appointments}
+          pets={pets}
+          onAppointmentClick={(apt) => {
+            setSelectedAppointment(apt)
+            setShowModal(true)
+            onEventClick?.(apt)
+          }}
+          onSlotClick={(_vet, date, time) => onAppointmentCreate?.(date, time)}
+        />
+      ) : (
+        <FullCalendar
+          plugins={[dayGridPlugin, timeGridPlugin, interactionPlugin]}
+          initialView="dayGridMonth"
+          headerToolbar={{
+            left: 'prev,next today',
+            center: 'title',
+            right: 'dayGridMonth,timeGridWeek,timeGridDay'
+          }}
+          events={events}
+          selectable={true}
+          selectMirror={true}
+          dayMaxEvents={3}
+          weekends={true}
+          slotMinTime="07:00:00"
+          slotMaxTime="21:00:00"
+          allDaySlot={false}
+          select={handleDateSelect}
+          eventClick={handleEventClick}
+          eventDrop={handleEventDrop}
+          eventTimeFormat={{
+            hour: 'numeric',
+            minute: '2-digit',
+            meridiem: 'short'
+          }}
+          height="auto"
+          eventContent={(eventInfo) => {
+            const apt = eventInfo.event.extendedProps.appointment as Appointment
+            const pet = eventInfo.event.extendedProps.pet as Pet
+            return (
+              <CalendarEvent
+                appointment={apt}
+                pet={pet}
+              />
+            )
+          }}
+          eventClassNames={(eventInfo) => {
+            const apt = eventInfo.event.extendedProps.appointment as Appointment
+            if (apt.status === 'cancelled' || apt.status === 'no-show') {
+              return ['opacity-50']
+            }
+            return []
+          }}
+          dayHeaderClassNames="text-gray-600 font-medium text-sm"
+          titleFormat={{ year: 'numeric', month: 'long', day: 'numeric' }}
+          nowIndicatorClassName="bg-vet-teal"
+          eventInteractive={true}
+        />
+      )}
 
       {/* Appointment Detail Modal */}
       <Modal
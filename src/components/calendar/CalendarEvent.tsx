@@ -1,7 +1,10 @@
 import React from 'react'
+import { AlertTriangle } from 'lucide-react'
 import { Appointment } from '../../stores/appointmentStore'
 import { Pet } from '../../stores/petStore'
 import { Client } from '../../stores/clientStore'
+import PetAlertBadges from '../medical/PetAlertBadges'
+import { describeAlert, sortAlerts } from '../../services/petAlerts'
 
 export interface CalendarEventProps {
   appointment: Appointment
@@ -73,9 +76,12 @@ export const CalendarEvent: React.FC<CalendarEventProps> = ({
         
         <div className="flex-1 min-w-0">
           <div className="flex items-center justify-between gap-1">
-            <p className="font-medium text-sm text-gray-900 truncate">
-              {pet?.name || 'Unknown Pet'}
-            </p>
+            <div className="flex items-center gap-1 min-w-0">
+              <p className="font-medium text-sm text-gray-900 truncate">
+                {pet?.name || 'Unknown Pet'}
+              </p>
+              <PetAlertBadges alerts={pet?.alerts} compact className="flex-shrink-0" />
+            </div>
             <span className="text-xs text-gray-500 flex-shrink-0">
               {formatTime(appointment.time)}
             </span>
@@ -137,6 +143,8 @@ export const CompactCalendarEvent: React.FC<CompactCalendarEventProps> = ({
     return `${displayHour}:${minutes} ${ampm}`
   }
 
+  const alerts = sortAlerts(pet?.alerts)
+
   return (
     <div
       onClick={onClick}
@@ -145,8 +153,9 @@ export const CompactCalendarEvent: React.FC<CompactCalendarEventProps> = ({
         transition-all duration-200 hover:opacity-80
         ${typeColors[appointment.type]}
       `}
-      title={`${pet?.name || 'Unknown'} - ${formatTime(appointment.time)}`}
+      title={[`${pet?.name || 'Unknown'} - ${formatTime(appointment.time)}`, ...alerts.map(describeAlert)].join('\n')}
     >
+      {alerts.length > 0 && <AlertTriangle className="w-3 h-3 inline mr-1" />}
       {formatTime(appointment.time)} {pet?.name || 'Unknown'}
     </div>
   )
@@ -0,0 +1,167 @@
+// Resource day view - one column per veterinarian, working hours shaded, appointments placed by time
+
+import React, { useMemo } from 'react'
+import { ChevronLeft, ChevronRight } from 'lucide-react'
+import { getWorkingHours, isSameVet } from '../../services/vetSchedule'
+import { addDays, minutesToTime, toDateString, toMinutes } from '../../services/dates'
+import type { Appointment, Pet, Veterinarian } from '../../db/types'
+
+export interface VetResourceViewProps {
+  date: string // YYYY-MM-DD
+  onDateChange: (date: string) => void
+  veterinarians: Veterinarian[]
+  appointments: Appointment[]
+  pets: Pet[]
+  onAppointmentClick?: (appointment: Appointment) => void
+  onSlotClick?: (vet: Veterinarian, date: string, time: string) => void
+}
+
+const DAY_START = 7 * 60
+const DAY_END = 21 * 60
+const PX_PER_MINUTE = 1
+const SLOT_MINUTES = 30
+
+// Top offset and height (px) of a time range inside a column
+const placement = (start: number, end: number) => ({
+  top: (Math.max(start, DAY_START) - DAY_START) * PX_PER_MINUTE,
+  height: Math.max((Math.min(end, DAY_END) - Math.max(start, DAY_START)) * PX_PER_MINUTE, 0)
+})
+
+export const VetResourceView: React.FC<VetResourceViewProps> = ({
+  date,
+  onDateChange,
+  veterinarians,
+  appointments,
+  pets,
+  onAppointmentClick,
+  onSlotClick
+}) => {
+  const vets = veterinarians.filter(v => v.active)
+  const dayAppointments = useMemo(
+    () => appointments.filter(a => a.date === date && a.status !== 'cancelled'),
+    [appointments, date]
+  )
+  // Appointments with a free-text vet that matches no roster entry
+  const unassigned = dayAppointments.filter(a => !vets.some(v => isSameVet(a, v)))
+  const hours = Array.from({ length: (DAY_END - DAY_START) / 60 }, (_, i) => DAY_START + i * 60)
+  const columnHeight = (DAY_END - DAY_START) * PX_PER_MINUTE
+
+  const handleColumnClick = (vet: Veterinarian, e: React.MouseEvent<HTMLDivElement>) => {
+    if (!onSlotClick) return
+    const offset = e.clientY - e.currentTarget.getBoundingClientRect().top
+    const minutes = DAY_START + Math.floor(offset / PX_PER_MINUTE / SLOT_MINUTES) * SLOT_MINUTES
+    onSlotClick(vet, date, minutesToTime(minutes))
+  }
+
+  const renderAppointment = (apt: Appointment, color: string) => {
+    const start = toMinutes(apt.time)
+    const pet = pets.find(p => p.id === apt.petId)
+    return (
+      <button
+        key={apt.id}
+        type="button"
+        onClick={(e) => {
+          e.stopPropagation()
+          onAppointmentClick?.(apt)
+        }}
+        className={`absolute left-1 right-1 rounded px-2 py-1 text-left text-xs text-white overflow-hidden ${
+          apt.status === 'no-show' ? 'opacity-50' : ''
+        }`}
+        style={{ ...placement(start, start + (apt.duration || 30)), backgroundColor: color }}
+      >
+        <span className="font-medium">{apt.time}</span> {pet?.name ?? 'Pet'}
+        <span className="block capitalize opacity-90">{apt.type}</span>
+      </button>
+    )
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <button onClick={() => onDateChange(addDays(date, -1))} className="p-2 rounded-lg hover:bg-gray-100">
+            <ChevronLeft className="w-4 h-4" />
+          </button>
+          <button onClick={() => onDateChange(toDateString(new Date()))} className="px-3 py-1.5 text-sm rounded-lg border border-gray-200 hover:bg-gray-50">
+            Hoy
+          </button>
+          <button onClick={() => onDateChange(addDays(date, 1))} className="p-2 rounded-lg hover:bg-gray-100">
+            <ChevronRight className="w-4 h-4" />
+          </button>
+        </div>
+        <input
+          type="date"
+          value={date}
+          onChange={(e) => e.target.value && onDateChange(e.target.value)}
+          className="px-3 py-1.5 border border-gray-200 rounded-lg text-sm"
+        />
+      </div>
+
+      {vets.length === 0 ? (
+        <p className="text-sm text-gray-500 py-8 text-center">
+          No hay veterinarios registrados. Agrégalos en Settings → Veterinarians.
+        </p>
+      ) : (
+        <div className="overflow-x-auto">
+          <div className="flex min-w-max">
+            {/* Hour labels */}
+            <div className="w-14 shrink-0">
+              <div className="h-10" />
+              <div className="relative" style={{ height: columnHeight }}>
+                {hours.map(h => (
+                  <span key={h} className="absolute right-2 -translate-y-1/2 text-xs text-gray-400" style={{ top: (h - DAY_START) * PX_PER_MINUTE }}>
+                    {minutesToTime(h)}
+                  </span>
+                ))}
+              </div>
+            </div>
+
+            {vets.map(vet => {
+              const working = getWorkingHours(vet, date)
+              return (
+                <div key={vet.id} className="w-48 shrink-0 border-l border-gray-100">
+                  <div className="h-10 px-2 flex items-center gap-2 border-b border-gray-100">
+                    <span className="w-2.5 h-2.5 rounded-full shrink-0" style={{ backgroundColor: vet.color }} />
+                    <span className="text-sm font-medium text-gray-800 truncate">{vet.name}</span>
+                  </div>
+                  <div
+                    className="relative bg-gray-100 cursor-pointer"
+                    style={{ height: columnHeight }}
+                    onClick={(e) => handleColumnClick(vet, e)}
+                  >
+                    {working && (
+                      <div
+                        className="absolute inset-x-0 bg-white"
+                        style={placement(toMinutes(working.start), toMinutes(working.end))}
+                      />
+                    )}
+                    {hours.map(h => (
+                      <div key={h} className="absolute inset-x-0 border-t border-gray-100" style={{ top: (h - DAY_START) * PX_PER_MINUTE }} />
+                    ))}
+                    {!working && (
+                      <span className="absolute inset-x-0 top-2 text-center text-xs text-gray-400">No disponible</span>
+                    )}
+                    {dayAppointments.filter(a => isSameVet(a, vet)).map(a => renderAppointment(a, vet.color))}
+                  </div>
+                </div>
+              )
+            })}
+
+            {unassigned.length > 0 && (
+              <div className="w-48 shrink-0 border-l border-gray-100">
+                <div className="h-10 px-2 flex items-center border-b border-gray-100">
+                  <span className="text-sm font-medium text-gray-500">Sin asignar</span>
+                </div>
+                <div className="relative bg-gray-50" style={{ height: columnHeight }}>
+                  {unassigned.map(a => renderAppointment(a, '#6B7280'))}
+                </div>
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default VetResourceView
@@ -4,6 +4,7 @@ import { Pet } from '../../stores/petStore'
 import { Client } from '../../stores/clientStore'
 import { Card, CardHeader, CardTitle } from '../ui/Card'
 import { Button } from '../ui/Button'
+import PetAlertBadges from '../medical/PetAlertBadges'
 
 export interface UpcomingAppointmentsProps {
   appointments: Appointment[]
@@ -132,6 +133,7 @@ export const UpcomingAppointments: React.FC<UpcomingAppointmentsProps> = ({
                         {typeLabels[appointment.type]}
                       </span>
                     </div>
+                    <PetAlertBadges alerts={pet?.alerts} className="mb-1" />
                     
                     <p className="text-sm text-gray-500 truncate">
                       {client ? `${client.firstName} ${client.lastName}` : 'Unknown Client'}
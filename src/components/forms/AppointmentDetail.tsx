@@ -2,8 +2,15 @@
 
 import { useState, useRef } from 'react'
 import Modal from '../ui/Modal'
-import { CalendarDays, FileText, Pill, DollarSign, Paperclip, Trash2, ExternalLink } from 'lucide-react'
-import type { Appointment, Pet, Client, MedicalRecord, SaleItem, InventoryItem, AppointmentAttachment } from '../../db/types'
+import SoapNoteView from '../medical/SoapNoteView'
+import Prescriptions from '../medical/Prescriptions'
+import PetAlertBadges from '../medical/PetAlertBadges'
+import LabResults from '../medical/LabResults'
+import { useAuthStore } from '../../stores/authStore'
+import { can } from '../../services/permissions'
+import { CalendarDays, AlertTriangle, FileText, Pill, DollarSign, Paperclip, Trash2, ExternalLink, Receipt, Repeat } from 'lucide-react'
+import { formatInvoiceNumber } from '../../services/invoices'
+import type { Appointment, Pet, Client, MedicalRecord, SaleItem, InventoryItem, AppointmentAttachment, Invoice } from '../../db/types'
 
 interface AppointmentDetailProps {
   isOpen: boolean
@@ -15,7 +22,12 @@ interface AppointmentDetailProps {
   saleItems?: SaleItem[]
   attachments?: AppointmentAttachment[]
   inventoryItems?: InventoryItem[]
+  invoice?: Invoice | null
+  showClinical?: boolean // false hides medical record and attachments (roles without clinical access)
   onEdit?: () => void
+  onCreateInvoice?: () => Promise<void>
+  onViewInvoice?: () => void
+  onCancelSeries?: () => Promise<void> // shown for sessions of a recurring series
   onAttachmentUpload?: (file: File) => Promise<void>
   onAttachmentDelete?: (id: number) => Promise<void>
 }
@@ -30,12 +42,20 @@ export default function AppointmentDetail({
   saleItems = [],
   attachments = [],
   inventoryItems = [],
+  invoice,
+  showClinical = true,
   onEdit,
+  onCreateInvoice,
+  onViewInvoice,
+  onCancelSeries,
   onAttachmentUpload,
   onAttachmentDelete
 }: AppointmentDetailProps) {
   const [uploading, setUploading] = useState(false)
+  const [invoicing, setInvoicing] = useState(false)
+  const [cancellingSeries, setCancellingSeries] = useState(false)
   const fileInputRef = useRef<HTMLInputElement>(null)
+  const canEditRecords = can(useAuthStore((s) => s.role), 'medical_records:edit')
   if (!appointment) return null
 
   const total = appointment.totalAmount ?? 0
@@ -57,6 +77,19 @@ export default function AppointmentDetail({
     }
   }
 
+  const handleCreateInvoice = async () => {
+    if (!onCreateInvoice) return
+    setInvoicing(true)
+    try {
+      await onCreateInvoice()
+    } catch (err) {
+      console.error('Invoice failed:', err)
+      alert(err instanceof Error ? err.message : 'Error al generar la factura')
+    } finally {
+      setInvoicing(false)
+    }
+  }
+
   const isImage = (type?: string, name?: string) => {
     const t = (type || '').toLowerCase()
     const n = (name || '').toLowerCase()
@@ -76,14 +109,36 @@ export default function AppointmentDetail({
       title={`Appointment - ${appointment.date} ${appointment.time}`}
       size="lg"
       footer={
-        onEdit && (
-          <div className="flex justify-end">
-            <button
-              onClick={onEdit}
-              className="px-4 py-2 bg-teal-600 text-white rounded-lg hover:bg-teal-700"
-            >
-              Edit Appointment
-            </button>
+        (onEdit || onCancelSeries) && (
+          <div className="flex justify-end gap-2">
+            {appointment.seriesId && onCancelSeries && (
+              <button
+                onClick={async () => {
+                  if (!confirm('¿Cancelar todas las citas pendientes de esta serie?')) return
+                  setCancellingSeries(true)
+                  try {
+                    await onCancelSeries()
+                  } catch (err) {
+                    alert(err instanceof Error ? err.message : 'Error al cancelar la serie')
+                  } finally {
+                    setCancellingSeries(false)
+                  }
+                }}
+                disabled={cancellingSeries}
+                className="flex items-center gap-2 px-4 py-2 border border-red-200 text-red-600 rounded-lg hover:bg-red-50 disabled:opacity-50"
+              >
+                <Repeat className="w-4 h-4" />
+                {cancellingSeries ? 'Cancelando...' : 'Cancelar serie'}
+              </button>
+            )}
+            {onEdit && (
+              <button
+                onClick={onEdit}
+                className="px-4 py-2 bg-teal-600 text-white rounded-lg hover:bg-teal-700"
+              >
+                Edit Appointment
+              </button>
+            )}
           </div>
         )
       }
@@ -108,6 +163,16 @@ export default function AppointmentDetail({
           </div>
         </div>
 
+        {/* Patient alerts - visible to every role (aggressive / DNR matter at the front desk too) */}
+        {pet?.alerts && pet.alerts.length > 0 && (
+          <div className="p-3 bg-red-50 border border-red-200 rounded-lg">
+            <p className="text-sm font-medium text-red-700 mb-2 flex items-center gap-2">
+              <AlertTriangle className="w-4 h-4" /> Alertas del paciente
+            </p>
+            <PetAlertBadges alerts={pet.alerts} />
+          </div>
+        )}
+
         {/* Payment */}
         <div className="border-t pt-4">
           <h4 className="font-medium text-gray-800 mb-3 flex items-center gap-2">
@@ -129,6 +194,24 @@ export default function AppointmentDetail({
               </p>
             </div>
           </div>
+          {invoice ? (
+            <button
+              type="button"
+              onClick={onViewInvoice}
+              className="mt-3 flex items-center gap-2 px-3 py-2 text-sm bg-teal-50 text-teal-700 rounded-lg hover:bg-teal-100"
+            >
+              <Receipt className="w-4 h-4" /> Factura {formatInvoiceNumber(invoice.number)}
+            </button>
+          ) : onCreateInvoice && (
+            <button
+              type="button"
+              onClick={handleCreateInvoice}
+              disabled={invoicing}
+              className="mt-3 flex items-center gap-2 px-3 py-2 text-sm bg-teal-50 text-teal-700 rounded-lg hover:bg-teal-100 disabled:opacity-50"
+            >
+              <Receipt className="w-4 h-4" /> {invoicing ? 'Generando...' : 'Generar factura'}
+            </button>
+          )}
         </div>
 
         {/* Medications sold */}
@@ -149,96 +232,83 @@ export default function AppointmentDetail({
         )}
 
         {/* Medical record (historial médico) */}
-        {medicalRecord && (
+        {showClinical && medicalRecord && (
           <div className="border-t pt-4">
             <h4 className="font-medium text-gray-800 mb-3 flex items-center gap-2">
               <FileText className="w-4 h-4" /> Medical Record
             </h4>
-            <div className="space-y-3 text-sm">
-              {medicalRecord.symptoms && (
-                <div>
-                  <p className="text-gray-500">Symptoms</p>
-                  <p className="text-gray-800">{medicalRecord.symptoms}</p>
-                </div>
-              )}
-              {medicalRecord.diagnosis && (
-                <div>
-                  <p className="text-gray-500">Diagnosis</p>
-                  <p className="text-gray-800">{medicalRecord.diagnosis}</p>
-                </div>
-              )}
-              {medicalRecord.treatment && (
-                <div>
-                  <p className="text-gray-500">Treatment</p>
-                  <p className="text-gray-800">{medicalRecord.treatment}</p>
-                </div>
-              )}
-              {medicalRecord.notes && (
-                <div>
-                  <p className="text-gray-500">Notes</p>
-                  <p className="text-gray-800">{medicalRecord.notes}</p>
-                </div>
-              )}
-            </div>
+            <SoapNoteView record={medicalRecord} />
           </div>
         )}
 
+        {/* Prescriptions (recetas) */}
+        {showClinical && pet && (
+          <Prescriptions pet={pet} client={client} appointment={appointment} canEdit={canEditRecords} />
+        )}
+
         {/* Attachments (PDFs, images - estudios médicos, rayos X) */}
-        <div className="border-t pt-4">
-          <h4 className="font-medium text-gray-800 mb-3 flex items-center gap-2">
-            <Paperclip className="w-4 h-4" /> Adjuntos
-          </h4>
-          {onAttachmentUpload && (
-            <div className="mb-3">
-              <input
-                ref={fileInputRef}
-                type="file"
-                accept=".pdf,image/*"
-                onChange={handleFileSelect}
-                className="hidden"
-              />
-              <button
-                type="button"
-                onClick={() => fileInputRef.current?.click()}
-                disabled={uploading}
-                className="px-3 py-2 text-sm bg-teal-50 text-teal-700 rounded-lg hover:bg-teal-100 disabled:opacity-50"
-              >
-                {uploading ? 'Subiendo...' : '+ Subir PDF o imagen'}
-              </button>
-            </div>
-          )}
-          {attachments.length === 0 ? (
-            <p className="text-sm text-gray-500">No hay adjuntos</p>
-          ) : (
-            <div className="space-y-2">
-              {attachments.map((att) => (
-                <div key={att.id} className="flex items-center gap-2 p-2 bg-gray-50 rounded-lg">
-                  {isImage(att.fileType, att.fileName) ? (
-                    <a href={att.fileUrl} target="_blank" rel="noopener noreferrer" className="flex-1 flex items-center gap-2 min-w-0">
-                      <img src={att.fileUrl} alt={att.fileName} className="w-12 h-12 object-cover rounded" />
-                      <span className="text-sm truncate">{att.fileName}</span>
-                      <ExternalLink className="w-4 h-4 shrink-0 text-teal-600" />
-                    </a>
-                  ) : (
-                    <a href={att.fileUrl} target="_blank" rel="noopener noreferrer" className="flex-1 flex items-center gap-2 text-sm text-teal-600 hover:underline truncate">
-                      {att.fileName}
-                      <ExternalLink className="w-4 h-4 shrink-0" />
-                    </a>
-                  )}
-                  {onAttachmentDelete && att.id && (
-                    <button
-                      type="button"
-                      onClick={() => onAttachmentDelete(att.id!)}
-                      className="p-1 text-red-600 hover:bg-red-50 rounded"
-                    >
-                      <Trash2 className="w-4 h-4" />
-                    </button>
-                  )}
-                </div>
-              ))}
-            </div>
-          )}
-        </div>
+        {showClinical && (
+          <div className="border-t pt-4">
+            <h4 className="font-medium text-gray-800 mb-3 flex items-center gap-2">
+              <Paperclip className="w-4 h-4" /> Adjuntos
+            </h4>
+            {onAttachmentUpload && (
+              <div className="mb-3">
+                <input
+                  ref={fileInputRef}
+                  type="file"
+                  accept=".pdf,image/*"
+                  onChange={handleFileSelect}
+                  className="hidden"
+                />
+                <button
+                  type="button"
+                  onClick={() => fileInputRef.current?.click()}
+                  disabled={uploading}
+                  className="px-3 py-2 text-sm bg-teal-50 text-teal-700 rounded-lg hover:bg-teal-100 disabled:opacity-50"
+                >
+                  {uploading ? 'Subiendo...' : '+ Subir PDF o imagen'}
+                </button>
+              </div>
+            )}
+            {attachments.length === 0 ? (
+              <p className="text-sm text-gray-500">No hay adjuntos</p>
+            ) : (
+              <div className="space-y-2">
+                {attachments.map((att) => (
+                  <div key={att.id} className="flex items-center gap-2 p-2 bg-gray-50 rounded-lg">
+                    {isImage(att.fileType, att.fileName) ? (
+                      <a href={att.fileUrl} target="_blank" rel="noopener noreferrer" className="flex-1 flex items-center gap-2 min-w-0">
+                        <img src={att.fileUrl} alt={att.fileName} className="w-12 h-12 object-cover rounded" />
+                        <span className="text-sm truncate">{att.fileName}</span>
+                        <ExternalLink className="w-4 h-4 shrink-0 text-teal-600" />
+                      </a>
+                    ) : (
+                      <a href={att.fileUrl} target="_blank" rel="noopener noreferrer" className="flex-1 flex items-center gap-2 text-sm text-teal-600 hover:underline truncate">
+                        {att.fileName}
+                        <ExternalLink className="w-4 h-4 shrink-0" />
+                      </a>
+                    )}
+                    {onAttachmentDelete && att.id && (
+                      <button
+                        type="button"
+                        onClick={() => onAttachmentDelete(att.id!)}
+                        className="p-1 text-red-600 hover:bg-red-50 rounded"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+
+        {/* Lab results (analíticas), linked to the report uploaded above */}
+        {showClinical && pet && (
+          <LabResults pet={pet} appointment={appointment} attachments={attachments} canEdit={canEditRecords} />
+        )}
 
         {appointment.notes && (
           <div className="border-t pt-4">
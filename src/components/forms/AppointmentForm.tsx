@@ -1,11 +1,18 @@
 // Appointment form modal - Create/Edit appointment with pet/client selection
-// Includes medical record, medication sales, and default pricing from settings
+// Includes medical record (SOAP note + vitals), medication sales, and default pricing from settings
 
-import { useState, useEffect } from 'react'
+import { useState, useEffect, useMemo } from 'react'
 import Modal from '../ui/Modal'
-import { Trash2 } from 'lucide-react'
-import { getSettingValue } from '../../db/supabase'
-import type { Appointment, Pet, Client, InventoryItem } from '../../db/types'
+import { Trash2, AlertTriangle, Repeat } from 'lucide-react'
+import { getSettingValue, getMedicalRecordsByAppointment, getSaleItemsByAppointment } from '../../db/supabase'
+import { getAvailableVeterinarians } from '../../services/vetSchedule'
+import { loadSchedulingRules, validateSlot, validateSeries, suggestFreeSlots, type SchedulingRules } from '../../services/scheduling'
+import { expandRecurrence, describeRecurrence, MAX_OCCURRENCES } from '../../services/recurrence'
+import { SOAP_SECTIONS, VITAL_FIELDS, validateVitals } from '../../services/vitals'
+import { checkDose, requiresOverride, isOverrideWarning } from '../../services/dosing'
+import { blockingAlerts, blockedSaleMessage } from '../../services/petAlerts'
+import PetAlertBadges from '../medical/PetAlertBadges'
+import type { Appointment, Pet, Client, InventoryItem, Veterinarian, RecurrenceRule, Vitals } from '../../db/types'
 
 interface AppointmentFormProps {
   isOpen: boolean
@@ -15,20 +22,28 @@ interface AppointmentFormProps {
   pets: Pet[]
   clients: Client[]
   inventoryItems?: InventoryItem[]
+  veterinarians?: Veterinarian[]
+  appointments?: Appointment[] // existing appointments, to offer only vets free at the chosen slot
+  showMedicalRecord?: boolean // false for roles without access to medical records
 }
 
-// Sale item for medications sold during appointment
+// Sale item for medications sold during appointment (id set for lines already saved)
 export interface SaleItemInput {
+  id?: number
   inventoryId: number
   quantity: number
   unitPrice: number
+  doseOverrideReason?: string // required when the dose check warns (overdose, species, allergy)
 }
 
-// Medical record for this appointment
+// Medical record for this appointment (id set when editing an existing record)
 export interface MedicalRecordInput {
-  symptoms: string
-  diagnosis: string
-  treatment: string
+  id?: number
+  subjective: string
+  objective: string
+  assessment: string
+  plan: string
+  vitals: Vitals
   notes: string
 }
 
@@ -41,11 +56,15 @@ export interface AppointmentFormData {
   type: Appointment['type']
   status: Appointment['status']
   veterinarian: string
+  veterinarianId?: number
   notes: string
   totalAmount: number
   amountPaid: number
   saleItems: SaleItemInput[]
   medicalRecord: MedicalRecordInput
+  allowConflicts?: boolean // save despite scheduling warnings
+  recurrence?: RecurrenceRule // new appointments only: create a series
+  applyToSeries?: boolean // editing a series session: apply to all pending sessions
 }
 
 const APPOINTMENT_TYPES: Appointment['type'][] = [
@@ -65,10 +84,20 @@ const PRICE_KEYS: Record<Appointment['type'], string> = {
   'follow-up': 'price_follow-up'
 }
 
+const DEFAULT_RECURRENCE: RecurrenceRule = { frequency: 'weekly', interval: 1, count: 6 }
+
+const RECURRENCE_UNITS: Record<RecurrenceRule['frequency'], string> = {
+  daily: 'día(s)',
+  weekly: 'semana(s)',
+  monthly: 'mes(es)'
+}
+
 const emptyMedicalRecord: MedicalRecordInput = {
-  symptoms: '',
-  diagnosis: '',
-  treatment: '',
+  subjective: '',
+  objective: '',
+  assessment: '',
+  plan: '',
+  vitals: {},
   notes: ''
 }
 
@@ -79,7 +108,10 @@ export default function AppointmentForm({
   appointment,
   pets,
   clients,
-  inventoryItems = []
+  inventoryItems = [],
+  veterinarians = [],
+  appointments = [],
+  showMedicalRecord = true
 }: AppointmentFormProps) {
   const [formData, setFormData] = useState<AppointmentFormData>({
     petId: 0,
@@ -105,6 +137,54 @@ export default function AppointmentForm({
     ? pets.filter(p => p.clientId === formData.clientId)
     : []
 
+  // Vet picker: only vets working and free at the chosen slot (the current vet stays selectable when editing)
+  const activeVets = veterinarians.filter(v => v.active)
+  const availableVets = useMemo(
+    () => getAvailableVeterinarians(activeVets, appointments, formData.date, formData.time, formData.duration, appointment?.id),
+    [veterinarians, appointments, formData.date, formData.time, formData.duration, appointment?.id]
+  )
+  const selectedVetUnavailable = formData.veterinarianId != null &&
+    !availableVets.some(v => v.id === formData.veterinarianId)
+
+  // Scheduling validator: overlaps, clinic hours/holidays and vet availability for the chosen slot
+  const [schedulingRules, setSchedulingRules] = useState<SchedulingRules | null>(null)
+  useEffect(() => {
+    if (!isOpen) return
+    loadSchedulingRules().then(setSchedulingRules).catch(() => setSchedulingRules(null))
+  }, [isOpen])
+
+  const slotRequest = {
+    date: formData.date,
+    time: formData.time,
+    duration: formData.duration,
+    petId: formData.petId,
+    type: formData.type,
+    veterinarianId: formData.veterinarianId,
+    veterinarian: formData.veterinarian,
+    excludeId: appointment?.id
+  }
+  const checkSlot = schedulingRules &&
+    formData.status !== 'cancelled' && formData.status !== 'no-show' && formData.status !== 'completed'
+  // Session dates when creating a series (checked one by one)
+  const seriesDates = useMemo(
+    () => (formData.recurrence ? expandRecurrence(formData.date, formData.recurrence) : []),
+    [formData.date, formData.recurrence]
+  )
+  const schedulingIssues = useMemo(
+    () => (!checkSlot ? []
+      : seriesDates.length > 0
+        ? validateSeries(seriesDates.map(date => ({ ...slotRequest, date })), appointments, veterinarians, schedulingRules)
+        : validateSlot(slotRequest, appointments, veterinarians, schedulingRules)),
+    [checkSlot, schedulingRules, appointments, veterinarians, formData.date, formData.time, formData.duration,
+      formData.petId, formData.type, formData.veterinarianId, formData.veterinarian, appointment?.id, seriesDates]
+  )
+  const suggestedSlots = useMemo(
+    () => (schedulingIssues.length > 0 && schedulingRules
+      ? suggestFreeSlots(slotRequest, appointments, veterinarians, schedulingRules)
+      : []),
+    [schedulingIssues, schedulingRules]
+  )
+
   // When pet is selected, auto-fill client
   useEffect(() => {
     if (formData.petId && selectByPet) {
@@ -124,10 +204,11 @@ export default function AppointmentForm({
     }
   }, [appointment, formData.clientId, formData.petId, pets])
 
-  // Load default price from settings when type changes (for new appointments)
-  // Keeps medications total when changing type
+  // Load default price from settings when type changes
+  // Keeps medications total when changing type; when editing, only if the type was changed
   useEffect(() => {
-    if (!appointment && formData.type) {
+    if (appointment && formData.type === appointment.type) return
+    if (formData.type) {
       const key = PRICE_KEYS[formData.type]
       getSettingValue(key).then(val => {
         const basePrice = val ? parseFloat(val) : 0
@@ -141,6 +222,7 @@ export default function AppointmentForm({
 
 
   useEffect(() => {
+    let cancelled = false
     if (appointment) {
       setFormData({
         petId: appointment.petId,
@@ -151,12 +233,46 @@ export default function AppointmentForm({
         type: appointment.type,
         status: appointment.status,
         veterinarian: appointment.veterinarian || '',
+        veterinarianId: appointment.veterinarianId,
         notes: appointment.notes || '',
         totalAmount: appointment.totalAmount || 0,
         amountPaid: appointment.amountPaid || 0,
         saleItems: [],
         medicalRecord: { ...emptyMedicalRecord }
       })
+      // Load the saved medical record and medication lines so they can be edited
+      if (appointment.id) {
+        Promise.all([
+          showMedicalRecord ? getMedicalRecordsByAppointment(appointment.id) : Promise.resolve([]),
+          getSaleItemsByAppointment(appointment.id)
+        ]).then(([records, saleItems]) => {
+          if (cancelled) return
+          const record = records[0]
+          setFormData(prev => ({
+            ...prev,
+            saleItems: saleItems.map(s => ({
+              id: s.id,
+              inventoryId: s.inventoryId,
+              quantity: s.quantity,
+              unitPrice: s.unitPrice,
+              doseOverrideReason: s.doseOverrideReason
+            })),
+            medicalRecord: record
+              ? {
+                  id: record.id,
+                  subjective: record.subjective || '',
+                  objective: record.objective || '',
+                  assessment: record.assessment || '',
+                  plan: record.plan || '',
+                  vitals: record.vitals,
+                  notes: record.notes || ''
+                }
+              : { ...emptyMedicalRecord }
+          }))
+        }).catch(err => {
+          if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load medical record')
+        })
+      }
     } else if (pets.length > 0) {
       const firstPet = pets[0]
       setFormData(prev => ({
@@ -164,10 +280,38 @@ export default function AppointmentForm({
         petId: firstPet.id ?? 0,
         clientId: firstPet.clientId,
         saleItems: [],
-        medicalRecord: { ...emptyMedicalRecord }
+        medicalRecord: { ...emptyMedicalRecord },
+        allowConflicts: false,
+        recurrence: undefined
       }))
     }
-  }, [appointment, pets])
+    return () => { cancelled = true }
+  }, [appointment, pets, showMedicalRecord])
+
+  const selectedPet = pets.find(p => p.id === formData.petId)
+  // Dosing weight: measured at this visit, else the pet's profile weight
+  const dosingWeight = formData.medicalRecord.vitals.weight ?? (selectedPet?.weight || undefined)
+  const doseChecks = formData.saleItems.map(line => {
+    const inv = inventoryItems.find(i => i.id === line.inventoryId)
+    return inv && selectedPet ? checkDose(inv, selectedPet, dosingWeight, line.quantity) : undefined
+  })
+  // Drug allergy alerts block new sales of a matching medication (lines already saved are left alone)
+  const blockedLines = formData.saleItems.map(line => {
+    const inv = inventoryItems.find(i => i.id === line.inventoryId)
+    return inv && !line.id ? blockingAlerts(selectedPet, inv) : []
+  })
+
+  const setLineQuantity = (idx: number, qty: number) => {
+    const prev = formData.saleItems[idx]
+    const diff = (qty - prev.quantity) * prev.unitPrice
+    setFormData(prevF => ({
+      ...prevF,
+      saleItems: prevF.saleItems.map((s, i) =>
+        i === idx ? { ...s, quantity: qty } : s
+      ),
+      totalAmount: Math.max(0, (prevF.totalAmount || 0) + diff)
+    }))
+  }
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
@@ -179,6 +323,36 @@ export default function AppointmentForm({
       setError('Please select a pet and client')
       return
     }
+    if (formData.recurrence && !formData.recurrence.count && !formData.recurrence.until) {
+      setError('Indica cuántas sesiones o hasta qué fecha se repite la cita')
+      return
+    }
+    if (formData.recurrence && seriesDates.length < 2) {
+      setError('La serie debe tener al menos dos sesiones')
+      return
+    }
+    if (schedulingIssues.length > 0 && !formData.allowConflicts) {
+      setError('Hay conflictos de horario. Elige otro horario o marca "Agendar de todos modos".')
+      return
+    }
+    const blockedIdx = blockedLines.findIndex(alerts => alerts.length > 0)
+    if (blockedIdx >= 0) {
+      const inv = inventoryItems.find(i => i.id === formData.saleItems[blockedIdx].inventoryId)
+      setError(blockedSaleMessage(inv ?? { name: 'El medicamento' }, blockedLines[blockedIdx]))
+      return
+    }
+    const missingOverride = doseChecks.some((check, idx) =>
+      check && requiresOverride(check) && !formData.saleItems[idx].doseOverrideReason?.trim()
+    )
+    if (missingOverride) {
+      setError('Indica el motivo para dar los medicamentos con advertencias de dosis, especie o alergia')
+      return
+    }
+    const vitalsErrors = showMedicalRecord ? validateVitals(formData.medicalRecord.vitals) : []
+    if (vitalsErrors.length > 0) {
+      setError(vitalsErrors.join('. '))
+      return
+    }
     setLoading(true)
     try {
       const dataToSubmit = { ...formData, petId, clientId }
@@ -195,7 +369,6 @@ export default function AppointmentForm({
   }
 
   const selectedClient = clients.find(c => c.id === formData.clientId)
-  const selectedPet = pets.find(p => p.id === formData.petId)
   const amountDue = (formData.totalAmount || 0) - (formData.amountPaid || 0)
 
   return (
@@ -317,6 +490,10 @@ export default function AppointmentForm({
             </>
           )}
 
+          {selectedPet?.alerts && selectedPet.alerts.length > 0 && (
+            <PetAlertBadges alerts={selectedPet.alerts} className="md:col-span-2" />
+          )}
+
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-1">Date *</label>
             <input
@@ -373,15 +550,205 @@ export default function AppointmentForm({
           </div>
           <div className="md:col-span-2">
             <label className="block text-sm font-medium text-gray-700 mb-1">Veterinarian</label>
-            <input
-              type="text"
-              value={formData.veterinarian}
-              onChange={(e) => setFormData({ ...formData, veterinarian: e.target.value })}
-              className="w-full px-4 py-2 border border-gray-200 rounded-lg focus:ring-2 focus:ring-teal-500"
-              placeholder="Dr. Name"
-            />
+            {activeVets.length > 0 ? (
+              <>
+                <select
+                  value={formData.veterinarianId ?? ''}
+                  onChange={(e) => {
+                    const vet = activeVets.find(v => v.id === Number(e.target.value))
+                    setFormData({ ...formData, veterinarianId: vet?.id, veterinarian: vet?.name ?? '' })
+                  }}
+                  className="w-full px-4 py-2 border border-gray-200 rounded-lg focus:ring-2 focus:ring-teal-500"
+                >
+                  <option value="">Sin asignar</option>
+                  {availableVets.map((v) => (
+                    <option key={v.id} value={v.id}>
+                      {v.name}{v.specialties.length > 0 ? ` (${v.specialties.join(', ')})` : ''}
+                    </option>
+                  ))}
+                  {selectedVetUnavailable && (
+                    <option value={formData.veterinarianId}>{formData.veterinarian} (no disponible)</option>
+                  )}
+                </select>
+                {availableVets.length < activeVets.length && (
+                  <p className="mt-1 text-xs text-gray-500">
+                    {activeVets.length - availableVets.length} veterinario(s) no disponible(s) en este horario
+                  </p>
+                )}
+              </>
+            ) : (
+              <input
+                type="text"
+                value={formData.veterinarian}
+                onChange={(e) => setFormData({ ...formData, veterinarian: e.target.value })}
+                className="w-full px-4 py-2 border border-gray-200 rounded-lg focus:ring-2 focus:ring-teal-500"
+                placeholder="Dr. Name"
+              />
+            )}
           </div>
 
+          {/* Recurrence: new series, or which sessions an edit applies to */}
+          {!appointment ? (
+            <div className="md:col-span-2 space-y-2">
+              <label className="flex items-center gap-2 text-sm font-medium text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={!!formData.recurrence}
+                  onChange={(e) => setFormData(prev => ({
+                    ...prev,
+                    recurrence: e.target.checked ? { ...DEFAULT_RECURRENCE } : undefined
+                  }))}
+                />
+                <Repeat className="w-4 h-4" /> Repetir (serie de tratamiento)
+              </label>
+              {formData.recurrence && (
+                <div className="p-3 bg-gray-50 rounded-lg space-y-3 text-sm">
+                  <div className="flex flex-wrap items-center gap-2">
+                    <span>Cada</span>
+                    <input
+                      type="number"
+                      min={1}
+                      value={formData.recurrence.interval}
+                      onChange={(e) => setFormData(prev => ({
+                        ...prev,
+                        recurrence: { ...prev.recurrence!, interval: Math.max(1, parseInt(e.target.value) || 1) }
+                      }))}
+                      className="w-16 px-2 py-1.5 border border-gray-200 rounded-lg"
+                    />
+                    <select
+                      value={formData.recurrence.frequency}
+                      onChange={(e) => setFormData(prev => ({
+                        ...prev,
+                        recurrence: { ...prev.recurrence!, frequency: e.target.value as RecurrenceRule['frequency'] }
+                      }))}
+                      className="px-2 py-1.5 border border-gray-200 rounded-lg"
+                    >
+                      {(Object.keys(RECURRENCE_UNITS) as RecurrenceRule['frequency'][]).map(f => (
+                        <option key={f} value={f}>{RECURRENCE_UNITS[f]}</option>
+                      ))}
+                    </select>
+                  </div>
+                  <div className="flex flex-wrap items-center gap-4">
+                    <label className="flex items-center gap-2">
+                      <input
+                        type="radio"
+                        checked={formData.recurrence.count != null}
+                        onChange={() => setFormData(prev => ({
+                          ...prev,
+                          recurrence: { ...prev.recurrence!, count: DEFAULT_RECURRENCE.count, until: undefined }
+                        }))}
+                      />
+                      <input
+                        type="number"
+                        min={2}
+                        max={MAX_OCCURRENCES}
+                        value={formData.recurrence.count ?? ''}
+                        disabled={formData.recurrence.count == null}
+                        onChange={(e) => setFormData(prev => ({
+                          ...prev,
+                          recurrence: { ...prev.recurrence!, count: Math.min(MAX_OCCURRENCES, parseInt(e.target.value) || 2) }
+                        }))}
+                        className="w-16 px-2 py-1.5 border border-gray-200 rounded-lg disabled:bg-gray-100"
+                      />
+                      sesiones
+                    </label>
+                    <label className="flex items-center gap-2">
+                      <input
+                        type="radio"
+                        checked={formData.recurrence.count == null}
+                        onChange={() => setFormData(prev => ({
+                          ...prev,
+                          recurrence: { ...prev.recurrence!, count: undefined, until: prev.recurrence!.until ?? prev.date }
+                        }))}
+                      />
+                      hasta
+                      <input
+                        type="date"
+                        value={formData.recurrence.until ?? ''}
+                        min={formData.date}
+                        disabled={formData.recurrence.count != null}
+                        onChange={(e) => setFormData(prev => ({
+                          ...prev,
+                          recurrence: { ...prev.recurrence!, until: e.target.value || undefined }
+                        }))}
+                        className="px-2 py-1.5 border border-gray-200 rounded-lg disabled:bg-gray-100"
+                      />
+                    </label>
+                  </div>
+                  <p className="text-gray-500">
+                    {describeRecurrence(formData.recurrence)} · {seriesDates.length} citas
+                    {seriesDates.length > 0 && `: ${seriesDates.slice(0, 6).join(', ')}${seriesDates.length > 6 ? '…' : ''}`}
+                  </p>
+                </div>
+              )}
+            </div>
+          ) : appointment.seriesId ? (
+            <div className="md:col-span-2 p-3 bg-gray-50 rounded-lg text-sm space-y-2">
+              <p className="flex items-center gap-2 font-medium text-gray-700">
+                <Repeat className="w-4 h-4" /> Esta cita es parte de una serie
+              </p>
+              <div className="flex flex-wrap gap-4">
+                <label className="flex items-center gap-2">
+                  <input
+                    type="radio"
+                    checked={!formData.applyToSeries}
+                    onChange={() => setFormData(prev => ({ ...prev, applyToSeries: false }))}
+                  />
+                  Solo esta cita
+                </label>
+                <label className="flex items-center gap-2">
+                  <input
+                    type="radio"
+                    checked={!!formData.applyToSeries}
+                    onChange={() => setFormData(prev => ({ ...prev, applyToSeries: true }))}
+                  />
+                  Todas las citas pendientes de la serie
+                </label>
+              </div>
+              {formData.applyToSeries && (
+                <p className="text-gray-500">
+                  Un cambio de fecha mueve todas las sesiones los mismos días. Pago, medicamentos y registro médico solo se guardan en esta cita.
+                </p>
+              )}
+            </div>
+          ) : null}
+
+          {/* Scheduling conflicts and nearest free slots */}
+          {schedulingIssues.length > 0 && (
+            <div className="md:col-span-2 p-3 bg-amber-50 border border-amber-200 rounded-lg text-sm text-amber-800 space-y-2">
+              <ul className="space-y-1">
+                {schedulingIssues.map((issue, idx) => (
+                  <li key={idx} className="flex items-start gap-2">
+                    <AlertTriangle className="w-4 h-4 shrink-0 mt-0.5" /> {issue.message}
+                  </li>
+                ))}
+              </ul>
+              {suggestedSlots.length > 0 && (
+                <div className="flex flex-wrap items-center gap-2">
+                  <span>Horarios libres:</span>
+                  {suggestedSlots.map(slot => (
+                    <button
+                      key={`${slot.date}-${slot.time}`}
+                      type="button"
+                      onClick={() => setFormData(prev => ({ ...prev, date: slot.date, time: slot.time }))}
+                      className="px-2 py-1 bg-white border border-amber-300 rounded hover:bg-amber-100"
+                    >
+                      {slot.date === formData.date ? slot.time : `${slot.date} ${slot.time}`}
+                    </button>
+                  ))}
+                </div>
+              )}
+              <label className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={!!formData.allowConflicts}
+                  onChange={(e) => setFormData(prev => ({ ...prev, allowConflicts: e.target.checked }))}
+                />
+                Agendar de todos modos
+              </label>
+            </div>
+          )}
+
           {/* Medications sold (cobrar medicamentos en consulta) */}
           {inventoryItems.length > 0 && (
             <div className="md:col-span-2 border-t pt-4 mt-4">
@@ -389,60 +756,92 @@ export default function AppointmentForm({
               <div className="space-y-2">
                 {formData.saleItems.map((item, idx) => {
                   const inv = inventoryItems.find(i => i.id === item.inventoryId)
+                  const check = doseChecks[idx]
                   return (
-                    <div key={idx} className="flex items-center gap-2 p-2 bg-gray-50 rounded-lg">
-                      <span className="flex-1 text-sm">{inv?.name ?? 'Item'}</span>
-                      <input
-                        type="number"
-                        min={1}
-                        value={item.quantity}
-                        onChange={(e) => {
-                          const qty = parseInt(e.target.value) || 1
-                          const prev = formData.saleItems[idx]
-                          const diff = (qty - prev.quantity) * prev.unitPrice
-                          setFormData(prevF => ({
-                            ...prevF,
-                            saleItems: prevF.saleItems.map((s, i) =>
-                              i === idx ? { ...s, quantity: qty } : s
-                            ),
-                            totalAmount: Math.max(0, (prevF.totalAmount || 0) + diff)
-                          }))
-                        }}
-                        className="w-16 px-2 py-1 border rounded text-sm"
-                      />
-                      <input
-                        type="number"
-                        step="0.01"
-                        value={item.unitPrice}
-                        onChange={(e) => {
-                          const price = parseFloat(e.target.value) || 0
-                          const prev = formData.saleItems[idx]
-                          const diff = prev.quantity * (price - prev.unitPrice)
-                          setFormData(prevF => ({
-                            ...prevF,
-                            saleItems: prevF.saleItems.map((s, i) =>
-                              i === idx ? { ...s, unitPrice: price } : s
-                            ),
-                            totalAmount: Math.max(0, (prevF.totalAmount || 0) + diff)
-                          }))
-                        }}
-                        className="w-20 px-2 py-1 border rounded text-sm"
-                      />
-                      <button
-                        type="button"
-                        onClick={() => {
-                          const removed = formData.saleItems[idx]
-                          const sub = removed.quantity * removed.unitPrice
-                          setFormData(prev => ({
+                    <div key={item.id ?? `new-${idx}`} className="p-2 bg-gray-50 rounded-lg space-y-1">
+                      <div className="flex items-center gap-2">
+                        <span className="flex-1 text-sm">{inv?.name ?? 'Item'}</span>
+                        <input
+                          type="number"
+                          min={1}
+                          value={item.quantity}
+                          onChange={(e) => setLineQuantity(idx, parseInt(e.target.value) || 1)}
+                          className="w-16 px-2 py-1 border rounded text-sm"
+                        />
+                        <input
+                          type="number"
+                          step="0.01"
+                          value={item.unitPrice}
+                          onChange={(e) => {
+                            const price = parseFloat(e.target.value) || 0
+                            const prev = formData.saleItems[idx]
+                            const diff = prev.quantity * (price - prev.unitPrice)
+                            setFormData(prevF => ({
+                              ...prevF,
+                              saleItems: prevF.saleItems.map((s, i) =>
+                                i === idx ? { ...s, unitPrice: price } : s
+                              ),
+                              totalAmount: Math.max(0, (prevF.totalAmount || 0) + diff)
+                            }))
+                          }}
+                          className="w-20 px-2 py-1 border rounded text-sm"
+                        />
+                        <button
+                          type="button"
+                          onClick={() => {
+                            const removed = formData.saleItems[idx]
+                            const sub = removed.quantity * removed.unitPrice
+                            setFormData(prev => ({
+                              ...prev,
+                              saleItems: prev.saleItems.filter((_, i) => i !== idx),
+                              totalAmount: Math.max(0, (prev.totalAmount || 0) - sub)
+                            }))
+                          }}
+                          className="p-1 text-red-600 hover:bg-red-50 rounded"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      </div>
+                      {/* Weight-based dose calculator */}
+                      {check?.range && check.weight && (
+                        <p className="text-xs text-gray-500">
+                          {check.mgPerKg !== undefined && `${check.mgPerKg} mg/kg · `}
+                          rango {check.range.minMgPerKg}-{check.range.maxMgPerKg} mg/kg · {check.weight} kg
+                          {check.suggestedQuantity !== undefined && check.suggestedQuantity !== item.quantity && (
+                            <button
+                              type="button"
+                              onClick={() => setLineQuantity(idx, check.suggestedQuantity!)}
+                              className="ml-2 text-teal-600 hover:text-teal-700"
+                            >
+                              Usar sugerida ({check.suggestedQuantity})
+                            </button>
+                          )}
+                        </p>
+                      )}
+                      {blockedLines[idx].length > 0 && inv && (
+                        <p className="text-xs font-medium text-red-700">
+                          <AlertTriangle className="w-3 h-3 inline mr-1" />{blockedSaleMessage(inv, blockedLines[idx])}
+                        </p>
+                      )}
+                      {check?.warnings.map(w => (
+                        <p key={w.kind} className={`text-xs ${isOverrideWarning(w) ? 'text-red-600' : 'text-amber-700'}`}>
+                          <AlertTriangle className="w-3 h-3 inline mr-1" />{w.message}
+                        </p>
+                      ))}
+                      {check && requiresOverride(check) && (
+                        <input
+                          type="text"
+                          value={item.doseOverrideReason ?? ''}
+                          onChange={(e) => setFormData(prev => ({
                             ...prev,
-                            saleItems: prev.saleItems.filter((_, i) => i !== idx),
-                            totalAmount: Math.max(0, (prev.totalAmount || 0) - sub)
-                          }))
-                        }}
-                        className="p-1 text-red-600 hover:bg-red-50 rounded"
-                      >
-                        <Trash2 className="w-4 h-4" />
-                      </button>
+                            saleItems: prev.saleItems.map((s, i) =>
+                              i === idx ? { ...s, doseOverrideReason: e.target.value } : s
+                            )
+                          }))}
+                          className="w-full px-2 py-1 border border-red-200 rounded text-sm"
+                          placeholder="Motivo para darlo pese a la advertencia *"
+                        />
+                      )}
                     </div>
                   )
                 })}
@@ -453,82 +852,92 @@ export default function AppointmentForm({
                     if (!id) return
                     const inv = inventoryItems.find(i => i.id === id)
                     if (!inv) return
+                    // Start from the suggested dose for the pet's weight when the medication has dose ranges
+                    const quantity = (selectedPet && checkDose(inv, selectedPet, dosingWeight, 1).suggestedQuantity) || 1
                     setFormData(prev => ({
                       ...prev,
-                      saleItems: [...prev.saleItems, { inventoryId: id, quantity: 1, unitPrice: inv.price }],
-                      totalAmount: (prev.totalAmount || 0) + inv.price
+                      saleItems: [...prev.saleItems, { inventoryId: id, quantity, unitPrice: inv.price }],
+                      totalAmount: (prev.totalAmount || 0) + inv.price * quantity
                     }))
                     e.target.value = ''
                   }}
                   className="w-full px-3 py-2 border border-gray-200 rounded-lg text-sm"
                 >
                   <option value="">Add medication...</option>
-                  {inventoryItems.filter(i => i.type === 'medication').map(inv => (
-                    <option key={inv.id} value={inv.id}>{inv.name} (${inv.price})</option>
-                  ))}
+                  {inventoryItems.filter(i => i.type === 'medication').map(inv => {
+                    const blocked = blockingAlerts(selectedPet, inv).length > 0
+                    return (
+                      <option key={inv.id} value={inv.id} disabled={blocked}>
+                        {inv.name} (${inv.price}){blocked ? ' - alergia registrada' : ''}
+                      </option>
+                    )
+                  })}
                 </select>
               </div>
             </div>
           )}
 
           {/* Medical record (historial médico por cita) */}
-          <div className="md:col-span-2 border-t pt-4 mt-4">
-            <h4 className="font-medium text-gray-800 mb-3">Medical Record</h4>
-            <div className="grid grid-cols-1 gap-3">
-              <div>
-                <label className="block text-sm text-gray-600 mb-1">Symptoms</label>
-                <input
-                  type="text"
-                  value={formData.medicalRecord.symptoms}
-                  onChange={(e) => setFormData(prev => ({
-                    ...prev,
-                    medicalRecord: { ...prev.medicalRecord, symptoms: e.target.value }
-                  }))}
-                  className="w-full px-3 py-2 border rounded-lg text-sm"
-                  placeholder="Symptoms observed"
-                />
-              </div>
-              <div>
-                <label className="block text-sm text-gray-600 mb-1">Diagnosis</label>
-                <input
-                  type="text"
-                  value={formData.medicalRecord.diagnosis}
-                  onChange={(e) => setFormData(prev => ({
-                    ...prev,
-                    medicalRecord: { ...prev.medicalRecord, diagnosis: e.target.value }
-                  }))}
-                  className="w-full px-3 py-2 border rounded-lg text-sm"
-                  placeholder="Diagnosis"
-                />
-              </div>
-              <div>
-                <label className="block text-sm text-gray-600 mb-1">Treatment</label>
-                <input
-                  type="text"
-                  value={formData.medicalRecord.treatment}
-                  onChange={(e) => setFormData(prev => ({
-                    ...prev,
-                    medicalRecord: { ...prev.medicalRecord, treatment: e.target.value }
-                  }))}
-                  className="w-full px-3 py-2 border rounded-lg text-sm"
-                  placeholder="Treatment prescribed"
-                />
+          {showMedicalRecord && (
+            <div className="md:col-span-2 border-t pt-4 mt-4">
+              <h4 className="font-medium text-gray-800 mb-3">Medical Record (SOAP)</h4>
+              <div className="grid grid-cols-2 md:grid-cols-3 gap-3 mb-3">
+                {VITAL_FIELDS.map(field => (
+                  <div key={field.key}>
+                    <label className="block text-sm text-gray-600 mb-1">{field.label} ({field.unit.startsWith('/') ? `${field.min}-${field.max}` : field.unit})</label>
+                    <input
+                      type="number"
+                      min={field.min}
+                      max={field.max}
+                      step={field.step}
+                      value={formData.medicalRecord.vitals[field.key] ?? ''}
+                      onChange={(e) => setFormData(prev => ({
+                        ...prev,
+                        medicalRecord: {
+                          ...prev.medicalRecord,
+                          vitals: {
+                            ...prev.medicalRecord.vitals,
+                            [field.key]: e.target.value === '' ? undefined : Number(e.target.value)
+                          }
+                        }
+                      }))}
+                      className="w-full px-3 py-2 border rounded-lg text-sm"
+                    />
+                  </div>
+                ))}
               </div>
-              <div>
-                <label className="block text-sm text-gray-600 mb-1">Notes</label>
-                <textarea
-                  value={formData.medicalRecord.notes}
-                  onChange={(e) => setFormData(prev => ({
-                    ...prev,
-                    medicalRecord: { ...prev.medicalRecord, notes: e.target.value }
-                  }))}
-                  className="w-full px-3 py-2 border rounded-lg text-sm"
-                  rows={2}
-                  placeholder="Additional notes"
-                />
+              <div className="grid grid-cols-1 gap-3">
+                {SOAP_SECTIONS.map(section => (
+                  <div key={section.key}>
+                    <label className="block text-sm text-gray-600 mb-1">{section.label}</label>
+                    <textarea
+                      value={formData.medicalRecord[section.key]}
+                      onChange={(e) => setFormData(prev => ({
+                        ...prev,
+                        medicalRecord: { ...prev.medicalRecord, [section.key]: e.target.value }
+                      }))}
+                      className="w-full px-3 py-2 border rounded-lg text-sm"
+                      rows={2}
+                      placeholder={section.placeholder}
+                    />
+                  </div>
+                ))}
+                <div>
+                  <label className="block text-sm text-gray-600 mb-1">Notes</label>
+                  <textarea
+                    value={formData.medicalRecord.notes}
+                    onChange={(e) => setFormData(prev => ({
+                      ...prev,
+                      medicalRecord: { ...prev.medicalRecord, notes: e.target.value }
+                    }))}
+                    className="w-full px-3 py-2 border rounded-lg text-sm"
+                    rows={2}
+                    placeholder="Additional notes"
+                  />
+                </div>
               </div>
             </div>
-          </div>
+          )}
 
           {/* Payment */}
           <div className="md:col-span-2 border-t pt-4 mt-4">
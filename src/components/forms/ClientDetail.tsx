@@ -1,8 +1,12 @@
-// Client detail modal - View client info and their pets
+// Client detail modal - View client info, their pets and account ledger
 
+import { useState, useEffect, useMemo } from 'react'
 import Modal from '../ui/Modal'
-import { Phone, Mail, MapPin, PawPrint } from 'lucide-react'
-import type { Client } from '../../db/types'
+import { Phone, Mail, MapPin, PawPrint, Wallet } from 'lucide-react'
+import { useAppointmentStore } from '../../stores/appointmentStore'
+import { getPaymentsByClient } from '../../db/supabase'
+import { buildClientLedger } from '../../services/ledger'
+import type { Client, Payment } from '../../db/types'
 import type { Pet } from '../../db/types'
 
 interface ClientDetailProps {
@@ -14,9 +18,27 @@ interface ClientDetailProps {
 }
 
 export default function ClientDetail({ isOpen, onClose, client, pets, onEdit }: ClientDetailProps) {
+  const { appointments } = useAppointmentStore()
+  const [payments, setPayments] = useState<Payment[]>([])
+
+  // Payments are online only - without them the ledger falls back to amountPaid per appointment
+  useEffect(() => {
+    if (!isOpen || !client?.id) {
+      setPayments([])
+      return
+    }
+    getPaymentsByClient(client.id).then(setPayments).catch(() => setPayments([]))
+  }, [isOpen, client?.id])
+
+  const ledger = useMemo(
+    () => client ? buildClientLedger(appointments.filter(a => a.clientId === client.id), payments) : [],
+    [appointments, payments, client]
+  )
+
   if (!client) return null
 
   const clientPets = pets.filter(p => p.clientId === client.id)
+  const balance = ledger.length > 0 ? ledger[ledger.length - 1].balance : 0
 
   return (
     <Modal
@@ -92,6 +114,49 @@ export default function ClientDetail({ isOpen, onClose, client, pets, onEdit }:
             </div>
           )}
         </div>
+
+        {/* Account ledger */}
+        <div className="border-t pt-4">
+          <div className="flex items-center justify-between mb-3">
+            <h4 className="font-medium text-gray-800 flex items-center gap-2">
+              <Wallet className="w-5 h-5" />
+              Cuenta
+            </h4>
+            <span className={`text-sm font-medium ${balance > 0 ? 'text-red-600' : 'text-gray-600'}`}>
+              Saldo: ${balance.toFixed(2)}
+            </span>
+          </div>
+          {ledger.length === 0 ? (
+            <p className="text-gray-500 text-sm">Sin movimientos</p>
+          ) : (
+            <div className="max-h-64 overflow-y-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b border-gray-200">
+                    <th className="text-left py-2 text-gray-500">Fecha</th>
+                    <th className="text-left py-2 text-gray-500">Concepto</th>
+                    <th className="text-right py-2 text-gray-500">Cargo</th>
+                    <th className="text-right py-2 text-gray-500">Abono</th>
+                    <th className="text-right py-2 text-gray-500">Saldo</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {ledger.map((entry, idx) => (
+                    <tr key={idx} className="border-b border-gray-100">
+                      <td className="py-2">{entry.date}</td>
+                      <td className="py-2 capitalize">{entry.description}</td>
+                      <td className="py-2 text-right">{entry.amount > 0 ? `$${entry.amount.toFixed(2)}` : ''}</td>
+                      <td className="py-2 text-right text-green-600">{entry.amount < 0 ? `$${(-entry.amount).toFixed(2)}` : ''}</td>
+                      <td className={`py-2 text-right ${entry.balance > 0 ? 'text-red-600' : 'text-gray-600'}`}>
+                        ${entry.balance.toFixed(2)}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
       </div>
     </Modal>
   )
@@ -2,7 +2,10 @@
 
 import { useState, useEffect } from 'react'
 import Modal from '../ui/Modal'
-import type { Client } from '../../db/types'
+import { useAuthStore } from '../../stores/authStore'
+import { EMAIL_LANGUAGES } from '../../services/emailTemplates'
+import { CHANNEL_LABELS } from '../../services/messaging'
+import type { ChannelConsent, Client, EmailLanguage, NotificationChannel } from '../../db/types'
 
 interface ClientFormProps {
   isOpen: boolean
@@ -21,8 +24,13 @@ export interface ClientFormData {
   state: string
   zipCode: string
   notes: string
+  language: EmailLanguage | ''
+  notificationChannels: NotificationChannel[]
+  channelConsent: Partial<Record<NotificationChannel, ChannelConsent>>
 }
 
+const CHANNELS: NotificationChannel[] = ['email', 'sms', 'whatsapp']
+
 export default function ClientForm({ isOpen, onClose, onSubmit, client }: ClientFormProps) {
   const [formData, setFormData] = useState<ClientFormData>({
     firstName: '',
@@ -33,8 +41,12 @@ export default function ClientForm({ isOpen, onClose, onSubmit, client }: Client
     city: '',
     state: '',
     zipCode: '',
-    notes: ''
+    notes: '',
+    language: '',
+    notificationChannels: ['email'],
+    channelConsent: {}
   })
+  const userEmail = useAuthStore((s) => s.user?.email)
   const [loading, setLoading] = useState(false)
   const [error, setError] = useState('')
 
@@ -53,7 +65,10 @@ export default function ClientForm({ isOpen, onClose, onSubmit, client }: Client
         city: client.city || '',
         state: client.state || '',
         zipCode: client.zipCode || '',
-        notes: client.notes || ''
+        notes: client.notes || '',
+        language: client.language || '',
+        notificationChannels: client.notificationChannels?.length ? client.notificationChannels : ['email'],
+        channelConsent: client.channelConsent ?? {}
       })
     } else {
       setFormData({
@@ -65,11 +80,33 @@ export default function ClientForm({ isOpen, onClose, onSubmit, client }: Client
         city: '',
         state: '',
         zipCode: '',
-        notes: ''
+        notes: '',
+        language: '',
+        notificationChannels: ['email'],
+        channelConsent: {}
       })
     }
   }, [client, isOpen])
 
+  const toggleChannel = (channel: NotificationChannel, checked: boolean) => {
+    setFormData(prev => ({
+      ...prev,
+      notificationChannels: checked
+        ? CHANNELS.filter(c => c === channel || prev.notificationChannels.includes(c))
+        : prev.notificationChannels.filter(c => c !== channel)
+    }))
+  }
+
+  // Consent changes are stamped with the time and the staff member who recorded them
+  const setConsent = (channel: NotificationChannel, status: ChannelConsent['status'] | '') => {
+    setFormData(prev => {
+      const channelConsent = { ...prev.channelConsent }
+      if (status) channelConsent[channel] = { status, at: new Date().toISOString(), source: `staff:${userEmail ?? 'unknown'}` }
+      else delete channelConsent[channel]
+      return { ...prev, channelConsent }
+    })
+  }
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
     setError('')
@@ -81,6 +118,10 @@ export default function ClientForm({ isOpen, onClose, onSubmit, client }: Client
       setError('Email is required')
       return
     }
+    if (formData.notificationChannels.length === 0) {
+      setError('Choose at least one notification channel')
+      return
+    }
     setLoading(true)
     try {
       // Timeout after 15 seconds to prevent infinite loading
@@ -205,6 +246,58 @@ export default function ClientForm({ isOpen, onClose, onSubmit, client }: Client
               className="w-full px-4 py-2 border border-gray-200 rounded-lg focus:ring-2 focus:ring-teal-500"
             />
           </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Idioma de emails</label>
+            <select
+              value={formData.language}
+              onChange={(e) => setFormData({ ...formData, language: e.target.value as ClientFormData['language'] })}
+              className="w-full px-4 py-2 border border-gray-200 rounded-lg focus:ring-2 focus:ring-teal-500"
+            >
+              <option value="">Predeterminado de la clínica</option>
+              {EMAIL_LANGUAGES.map(l => (
+                <option key={l.code} value={l.code}>{l.label}</option>
+              ))}
+            </select>
+          </div>
+          <div className="md:col-span-2">
+            <label className="block text-sm font-medium text-gray-700 mb-1">Notificaciones</label>
+            <div className="space-y-2">
+              {CHANNELS.map(channel => {
+                const consent = formData.channelConsent[channel]
+                return (
+                  <div key={channel} className="flex flex-wrap items-center gap-3 text-sm">
+                    <label className="flex items-center gap-2 w-28 text-gray-700">
+                      <input
+                        type="checkbox"
+                        checked={formData.notificationChannels.includes(channel)}
+                        onChange={(e) => toggleChannel(channel, e.target.checked)}
+                      />
+                      {CHANNEL_LABELS[channel]}
+                    </label>
+                    {channel !== 'email' && (
+                      <>
+                        <select
+                          value={consent?.status ?? ''}
+                          onChange={(e) => setConsent(channel, e.target.value as ChannelConsent['status'] | '')}
+                          className="px-3 py-1.5 border border-gray-200 rounded-lg"
+                        >
+                          <option value="">Sin consentimiento</option>
+                          <option value="opted_in">Aceptó (opt-in)</option>
+                          <option value="opted_out">Rechazó (opt-out)</option>
+                        </select>
+                        {consent && (
+                          <span className="text-xs text-gray-500">{new Date(consent.at).toLocaleString()}</span>
+                        )}
+                        {formData.notificationChannels.includes(channel) && consent?.status !== 'opted_in' && (
+                          <span className="text-xs text-amber-600">Solo se usa con opt-in</span>
+                        )}
+                      </>
+                    )}
+                  </div>
+                )
+              })}
+            </div>
+          </div>
           <div className="md:col-span-2">
             <label className="block text-sm font-medium text-gray-700 mb-1">Notes</label>
             <textarea
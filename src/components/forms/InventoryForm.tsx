@@ -2,7 +2,12 @@
 
 import { useState, useEffect } from 'react'
 import Modal from '../ui/Modal'
-import type { InventoryItem } from '../../db/types'
+import { Plus, Trash2 } from 'lucide-react'
+import { EMPTY_DOSING } from '../../services/dosing'
+import { SPECIES_LABELS } from '../../services/vaccineProtocols'
+import type { InventoryItem, MedicationDosing, Pet } from '../../db/types'
+
+const SPECIES = Object.keys(SPECIES_LABELS) as Pet['species'][]
 
 interface InventoryFormProps {
   isOpen: boolean
@@ -20,6 +25,7 @@ export interface InventoryFormData {
   price: number
   photoUrl: string
   sku: string
+  dosing?: MedicationDosing // medications only
 }
 
 export default function InventoryForm({ isOpen, onClose, onSubmit, item }: InventoryFormProps) {
@@ -33,6 +39,8 @@ export default function InventoryForm({ isOpen, onClose, onSubmit, item }: Inven
     photoUrl: '',
     sku: ''
   })
+  const [dosing, setDosing] = useState<MedicationDosing>(EMPTY_DOSING)
+  const [allergyKeywords, setAllergyKeywords] = useState('') // comma separated, parsed on submit
   const [loading, setLoading] = useState(false)
   const [error, setError] = useState('')
 
@@ -48,6 +56,8 @@ export default function InventoryForm({ isOpen, onClose, onSubmit, item }: Inven
         photoUrl: item.photoUrl || '',
         sku: item.sku || ''
       })
+      setDosing(item.dosing ?? EMPTY_DOSING)
+      setAllergyKeywords(item.dosing?.allergyKeywords.join(', ') ?? '')
     } else {
       setFormData({
         name: '',
@@ -59,9 +69,22 @@ export default function InventoryForm({ isOpen, onClose, onSubmit, item }: Inven
         photoUrl: '',
         sku: ''
       })
+      setDosing(EMPTY_DOSING)
+      setAllergyKeywords('')
     }
   }, [item, isOpen])
 
+  const updateRange = (idx: number, updates: Partial<MedicationDosing['doseRanges'][number]>) =>
+    setDosing(d => ({ ...d, doseRanges: d.doseRanges.map((r, i) => i === idx ? { ...r, ...updates } : r) }))
+
+  const toggleContraindicated = (species: Pet['species']) =>
+    setDosing(d => ({
+      ...d,
+      contraindicatedSpecies: d.contraindicatedSpecies.includes(species)
+        ? d.contraindicatedSpecies.filter(s => s !== species)
+        : [...d.contraindicatedSpecies, species]
+    }))
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
     setError('')
@@ -69,12 +92,32 @@ export default function InventoryForm({ isOpen, onClose, onSubmit, item }: Inven
       setError('Name is required')
       return
     }
+    if (formData.type === 'medication' && dosing.doseRanges.length > 0) {
+      if (!(dosing.mgPerUnit > 0)) {
+        setError('Set the mg per unit to use the dose ranges')
+        return
+      }
+      if (dosing.doseRanges.some(r => !(r.minMgPerKg > 0) || r.maxMgPerKg < r.minMgPerKg)) {
+        setError('Each dose range needs a minimum above 0 and a maximum not below the minimum')
+        return
+      }
+      if (new Set(dosing.doseRanges.map(r => r.species)).size < dosing.doseRanges.length) {
+        setError('Only one dose range per species')
+        return
+      }
+    }
+    const data: InventoryFormData = {
+      ...formData,
+      dosing: formData.type === 'medication'
+        ? { ...dosing, allergyKeywords: allergyKeywords.split(',').map(k => k.trim()).filter(Boolean) }
+        : undefined
+    }
     setLoading(true)
     try {
       const timeoutPromise = new Promise<never>((_, reject) =>
         setTimeout(() => reject(new Error('Request timed out. Run migration 002 in Supabase for inventory.')), 30000)
       )
-      await Promise.race([onSubmit(formData), timeoutPromise])
+      await Promise.race([onSubmit(data), timeoutPromise])
       onClose()
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to save')
@@ -188,6 +231,102 @@ export default function InventoryForm({ isOpen, onClose, onSubmit, item }: Inven
             />
           </div>
         </div>
+
+        {/* Weight-based dosing (used by the dose calculator in appointments) */}
+        {formData.type === 'medication' && (
+          <div className="border-t pt-4 space-y-3">
+            <h4 className="font-medium text-gray-800">Dosificación por peso</h4>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">mg por {formData.unit || 'unit'}</label>
+                <input
+                  type="number"
+                  step="0.01"
+                  min={0}
+                  value={dosing.mgPerUnit || ''}
+                  onChange={(e) => setDosing(d => ({ ...d, mgPerUnit: parseFloat(e.target.value) || 0 }))}
+                  className="w-full px-4 py-2 border border-gray-200 rounded-lg focus:ring-2 focus:ring-teal-500"
+                  placeholder="250"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Alergias relacionadas (separadas por comas)</label>
+                <input
+                  type="text"
+                  value={allergyKeywords}
+                  onChange={(e) => setAllergyKeywords(e.target.value)}
+                  className="w-full px-4 py-2 border border-gray-200 rounded-lg focus:ring-2 focus:ring-teal-500"
+                  placeholder="Penicilina, betalactámicos"
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <p className="text-sm font-medium text-gray-700">Rango de dosis (mg/kg)</p>
+              {dosing.doseRanges.map((range, idx) => (
+                <div key={idx} className="flex items-center gap-2">
+                  <select
+                    value={range.species}
+                    onChange={(e) => updateRange(idx, { species: e.target.value as Pet['species'] })}
+                    className="px-3 py-2 border border-gray-200 rounded-lg text-sm"
+                  >
+                    {SPECIES.map(s => <option key={s} value={s}>{SPECIES_LABELS[s]}</option>)}
+                  </select>
+                  <input
+                    type="number"
+                    step="0.01"
+                    min={0}
+                    value={range.minMgPerKg || ''}
+                    onChange={(e) => updateRange(idx, { minMgPerKg: parseFloat(e.target.value) || 0 })}
+                    className="w-24 px-3 py-2 border border-gray-200 rounded-lg text-sm"
+                    placeholder="Mín"
+                  />
+                  <span className="text-gray-400">-</span>
+                  <input
+                    type="number"
+                    step="0.01"
+                    min={0}
+                    value={range.maxMgPerKg || ''}
+                    onChange={(e) => updateRange(idx, { maxMgPerKg: parseFloat(e.target.value) || 0 })}
+                    className="w-24 px-3 py-2 border border-gray-200 rounded-lg text-sm"
+                    placeholder="Máx"
+                  />
+                  <button
+                    type="button"
+                    onClick={() => setDosing(d => ({ ...d, doseRanges: d.doseRanges.filter((_, i) => i !== idx) }))}
+                    className="p-1 text-red-600 hover:bg-red-50 rounded"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              ))}
+              <button
+                type="button"
+                onClick={() => setDosing(d => ({
+                  ...d,
+                  doseRanges: [...d.doseRanges, { species: 'dog', minMgPerKg: 0, maxMgPerKg: 0 }]
+                }))}
+                className="flex items-center gap-1 text-teal-600 hover:text-teal-700 text-sm font-medium"
+              >
+                <Plus className="w-4 h-4" /> Añadir especie
+              </button>
+            </div>
+            <div>
+              <p className="text-sm font-medium text-gray-700 mb-1">Contraindicado en</p>
+              <div className="flex flex-wrap gap-3">
+                {SPECIES.map(species => (
+                  <label key={species} className="flex items-center gap-1 text-sm text-gray-700">
+                    <input
+                      type="checkbox"
+                      checked={dosing.contraindicatedSpecies.includes(species)}
+                      onChange={() => toggleContraindicated(species)}
+                    />
+                    {SPECIES_LABELS[species]}
+                  </label>
+                ))}
+              </div>
+            </div>
+          </div>
+        )}
       </form>
     </Modal>
   )
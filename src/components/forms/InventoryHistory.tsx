@@ -0,0 +1,74 @@
+// Inventory history modal - stock movement ledger for one item
+
+import { useEffect } from 'react'
+import Modal from '../ui/Modal'
+import { useInventoryStore } from '../../stores/inventoryStore'
+import type { InventoryItem, InventoryMovementType } from '../../db/types'
+
+interface InventoryHistoryProps {
+  isOpen: boolean
+  onClose: () => void
+  item: InventoryItem | null
+}
+
+const TYPE_LABELS: Record<InventoryMovementType, { label: string; className: string }> = {
+  sale: { label: 'Sale', className: 'bg-blue-100 text-blue-700' },
+  restock: { label: 'Restock', className: 'bg-green-100 text-green-700' },
+  adjustment: { label: 'Adjustment', className: 'bg-gray-100 text-gray-700' },
+  expiry: { label: 'Expiry', className: 'bg-red-100 text-red-700' },
+  return: { label: 'Return', className: 'bg-amber-100 text-amber-700' }
+}
+
+export default function InventoryHistory({ isOpen, onClose, item }: InventoryHistoryProps) {
+  const { movements, fetchMovements } = useInventoryStore()
+
+  useEffect(() => {
+    if (isOpen && item?.id) fetchMovements(item.id)
+  }, [isOpen, item?.id, fetchMovements])
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title={item ? `Stock history - ${item.name}` : 'Stock history'} size="xl">
+      {movements.length === 0 ? (
+        <p className="text-center py-8 text-gray-500">No stock movements yet</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-500 border-b border-gray-200">
+                <th className="py-2 pr-4 font-medium">Date</th>
+                <th className="py-2 pr-4 font-medium">Type</th>
+                <th className="py-2 pr-4 font-medium text-right">Qty</th>
+                <th className="py-2 pr-4 font-medium text-right">Stock</th>
+                <th className="py-2 pr-4 font-medium">Reference</th>
+                <th className="py-2 font-medium">Notes</th>
+              </tr>
+            </thead>
+            <tbody>
+              {movements.map((m) => (
+                <tr key={m.id} className="border-b border-gray-100">
+                  <td className="py-2 pr-4 whitespace-nowrap text-gray-600">
+                    {m.createdAt ? new Date(m.createdAt).toLocaleString() : '-'}
+                  </td>
+                  <td className="py-2 pr-4">
+                    <span className={`px-2 py-0.5 rounded text-xs font-medium ${TYPE_LABELS[m.type].className}`}>
+                      {TYPE_LABELS[m.type].label}
+                    </span>
+                  </td>
+                  <td className={`py-2 pr-4 text-right font-medium ${m.quantity < 0 ? 'text-red-600' : 'text-green-600'}`}>
+                    {m.quantity > 0 ? `+${m.quantity}` : m.quantity}
+                  </td>
+                  <td className="py-2 pr-4 text-right">{m.quantityAfter}</td>
+                  <td className="py-2 pr-4 text-gray-600">
+                    {m.reference || (m.appointmentId ? `Cita #${m.appointmentId}` : '-')}
+                    {m.unitCost !== undefined && <span className="block text-xs text-gray-400">Cost ${m.unitCost.toFixed(2)}</span>}
+                  </td>
+                  <td className="py-2 text-gray-600">{m.notes || '-'}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </Modal>
+  )
+}
@@ -0,0 +1,268 @@
+// Invoice detail modal - line items, totals, payments/refunds and PDF export
+
+import { useState, useEffect } from 'react'
+import Modal from '../ui/Modal'
+import { Receipt, Printer, RotateCcw } from 'lucide-react'
+import { useInvoiceStore } from '../../stores/invoiceStore'
+import {
+  PAYMENT_METHODS,
+  formatInvoiceNumber,
+  getInvoiceSettings,
+  renderInvoiceHtml,
+  printInvoice
+} from '../../services/invoices'
+import type { Invoice, Client, Pet, PaymentMethod } from '../../db/types'
+
+interface InvoiceDetailProps {
+  isOpen: boolean
+  onClose: () => void
+  invoice: Invoice | null
+  client?: Client | null
+  pet?: Pet | null
+  onChange?: (invoice: Invoice) => void
+}
+
+const STATUS_LABELS: Record<Invoice['status'], { label: string; className: string }> = {
+  issued: { label: 'Emitida', className: 'bg-blue-100 text-blue-700' },
+  partial: { label: 'Pago parcial', className: 'bg-amber-100 text-amber-700' },
+  paid: { label: 'Pagada', className: 'bg-green-100 text-green-700' },
+  refunded: { label: 'Reembolsada', className: 'bg-gray-100 text-gray-700' }
+}
+
+export default function InvoiceDetail({ isOpen, onClose, invoice, client, pet, onChange }: InvoiceDetailProps) {
+  const { payments, fetchPayments, recordPayment } = useInvoiceStore()
+  const [type, setType] = useState<'payment' | 'refund'>('payment')
+  const [amount, setAmount] = useState('')
+  const [method, setMethod] = useState<PaymentMethod>('cash')
+  const [reference, setReference] = useState('')
+  const [paidAt, setPaidAt] = useState(new Date().toISOString().split('T')[0])
+  const [saving, setSaving] = useState(false)
+  const [printing, setPrinting] = useState(false)
+  const [formError, setFormError] = useState<string | null>(null)
+
+  const due = invoice ? Math.max(0, invoice.total - invoice.amountPaid) : 0
+
+  useEffect(() => {
+    if (!isOpen || !invoice?.id) return
+    fetchPayments(invoice.id)
+    setType('payment')
+    setAmount(due > 0 ? due.toFixed(2) : '')
+    setReference('')
+    setFormError(null)
+  }, [isOpen, invoice?.id])
+
+  if (!invoice) return null
+
+  const status = STATUS_LABELS[invoice.status]
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    const value = parseFloat(amount)
+    if (!value || value <= 0) {
+      setFormError('Introduce un importe mayor que 0')
+      return
+    }
+    setSaving(true)
+    setFormError(null)
+    try {
+      const updated = await recordPayment({
+        invoiceId: invoice.id!,
+        type,
+        method,
+        amount: value,
+        reference,
+        paidAt: new Date(`${paidAt}T12:00:00`).toISOString()
+      })
+      onChange?.(updated)
+      setAmount('')
+      setReference('')
+    } catch (err) {
+      setFormError(err instanceof Error ? err.message : 'Error al registrar el pago')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handlePrint = async () => {
+    setPrinting(true)
+    try {
+      const settings = await getInvoiceSettings()
+      const html = renderInvoiceHtml({ invoice, payments, client, pet, settings })
+      await printInvoice(html, `${formatInvoiceNumber(invoice.number)}.pdf`)
+    } catch (err) {
+      console.error('Failed to print invoice:', err)
+      alert(err instanceof Error ? err.message : 'Error al generar el PDF')
+    } finally {
+      setPrinting(false)
+    }
+  }
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title={`Factura ${formatInvoiceNumber(invoice.number)}`}
+      size="lg"
+      footer={
+        <div className="flex justify-end">
+          <button
+            onClick={handlePrint}
+            disabled={printing}
+            className="flex items-center gap-2 px-4 py-2 bg-teal-600 text-white rounded-lg hover:bg-teal-700 disabled:opacity-50"
+          >
+            <Printer className="w-4 h-4" />
+            {printing ? 'Generando...' : 'Imprimir / PDF'}
+          </button>
+        </div>
+      }
+    >
+      <div className="space-y-6">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <div className="w-10 h-10 bg-teal-100 rounded-full flex items-center justify-center">
+              <Receipt className="w-5 h-5 text-teal-600" />
+            </div>
+            <div>
+              <p className="font-medium text-gray-800">
+                {client ? `${client.firstName} ${client.lastName}` : `Client #${invoice.clientId}`}
+                {pet && <span className="text-gray-500"> · {pet.name}</span>}
+              </p>
+              <p className="text-sm text-gray-500">Fecha: {invoice.issueDate}</p>
+            </div>
+          </div>
+          <span className={`px-2 py-1 rounded-full text-xs font-medium ${status.className}`}>{status.label}</span>
+        </div>
+
+        {/* Line items */}
+        <table className="w-full text-sm">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Concepto</th>
+              <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Cant.</th>
+              <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Precio</th>
+              <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Imp.</th>
+              <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Importe</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {invoice.items.map((line, idx) => (
+              <tr key={idx}>
+                <td className="px-3 py-2 text-gray-800">{line.description}</td>
+                <td className="px-3 py-2 text-right">{line.quantity}</td>
+                <td className="px-3 py-2 text-right">${line.unitPrice.toFixed(2)}</td>
+                <td className="px-3 py-2 text-right text-gray-500">{line.taxRate}%</td>
+                <td className="px-3 py-2 text-right">${line.total.toFixed(2)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+
+        <div className="ml-auto w-64 space-y-1 text-sm">
+          <div className="flex justify-between"><span className="text-gray-500">Subtotal</span><span>${invoice.subtotal.toFixed(2)}</span></div>
+          <div className="flex justify-between"><span className="text-gray-500">Impuestos</span><span>${invoice.taxAmount.toFixed(2)}</span></div>
+          <div className="flex justify-between font-semibold border-t pt-1"><span>Total</span><span>${invoice.total.toFixed(2)}</span></div>
+          <div className="flex justify-between text-green-600"><span>Pagado</span><span>${invoice.amountPaid.toFixed(2)}</span></div>
+          <div className={`flex justify-between ${due > 0 ? 'text-red-600' : 'text-gray-600'}`}><span>Pendiente</span><span>${due.toFixed(2)}</span></div>
+        </div>
+
+        {/* Payment history */}
+        <div className="border-t pt-4">
+          <h4 className="font-medium text-gray-800 mb-3">Pagos</h4>
+          {payments.length === 0 ? (
+            <p className="text-sm text-gray-500">Sin pagos registrados</p>
+          ) : (
+            <ul className="space-y-2">
+              {payments.map((p) => (
+                <li key={p.id} className="flex justify-between text-sm">
+                  <span>
+                    {new Date(p.paidAt).toLocaleDateString()} · {p.type === 'refund' ? 'Reembolso' : 'Pago'} ·{' '}
+                    {PAYMENT_METHODS.find(m => m.value === p.method)?.label ?? p.method}
+                    {p.reference && <span className="text-gray-500"> ({p.reference})</span>}
+                  </span>
+                  <span className={p.type === 'refund' ? 'text-red-600' : 'text-green-600'}>
+                    {p.type === 'refund' ? '-' : ''}${p.amount.toFixed(2)}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        {/* New payment / refund */}
+        <form onSubmit={handleSubmit} className="border-t pt-4 space-y-3">
+          <div className="flex items-center gap-2">
+            <button
+              type="button"
+              onClick={() => { setType('payment'); setAmount(due > 0 ? due.toFixed(2) : '') }}
+              className={`px-3 py-1.5 text-sm rounded-lg ${type === 'payment' ? 'bg-teal-600 text-white' : 'bg-gray-100 text-gray-700'}`}
+            >
+              Registrar pago
+            </button>
+            <button
+              type="button"
+              onClick={() => { setType('refund'); setAmount('') }}
+              disabled={invoice.amountPaid <= 0}
+              className={`flex items-center gap-1 px-3 py-1.5 text-sm rounded-lg disabled:opacity-50 ${type === 'refund' ? 'bg-red-600 text-white' : 'bg-gray-100 text-gray-700'}`}
+            >
+              <RotateCcw className="w-3 h-3" /> Reembolso
+            </button>
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Importe</label>
+              <input
+                type="number"
+                min="0"
+                step="0.01"
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-teal-500"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Método</label>
+              <select
+                value={method}
+                onChange={(e) => setMethod(e.target.value as PaymentMethod)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-teal-500"
+              >
+                {PAYMENT_METHODS.map(m => (
+                  <option key={m.value} value={m.value}>{m.label}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Fecha</label>
+              <input
+                type="date"
+                value={paidAt}
+                onChange={(e) => setPaidAt(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-teal-500"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Referencia</label>
+              <input
+                type="text"
+                value={reference}
+                onChange={(e) => setReference(e.target.value)}
+                placeholder="Nº de operación, últimos dígitos..."
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-teal-500"
+              />
+            </div>
+          </div>
+          {formError && <p className="text-sm text-red-600">{formError}</p>}
+          <div className="flex justify-end">
+            <button
+              type="submit"
+              disabled={saving}
+              className="px-4 py-2 bg-teal-600 text-white rounded-lg hover:bg-teal-700 disabled:opacity-50"
+            >
+              {saving ? 'Guardando...' : type === 'refund' ? 'Registrar reembolso' : 'Registrar pago'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </Modal>
+  )
+}
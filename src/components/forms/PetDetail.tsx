@@ -1,9 +1,18 @@
 // Pet detail modal - View full pet information, medical history, vaccines
 
-import { useState, useEffect } from 'react'
+import { useState, useEffect, useMemo } from 'react'
 import Modal from '../ui/Modal'
-import { PawPrint, FileText, Syringe, Plus, ChevronRight } from 'lucide-react'
-import { getMedicalRecordsByPet, getVaccinesByPet, addVaccine } from '../../db/supabase'
+import { PawPrint, FileText, Syringe, Plus, ChevronRight, Activity } from 'lucide-react'
+import { getMedicalRecordsByPet, getVaccinesByPet, addVaccine, getAllSettings } from '../../db/supabase'
+import { useAuthStore } from '../../stores/authStore'
+import { can } from '../../services/permissions'
+import { planNewVaccine, vaccineProtocolsFromSettings, type VaccineProtocol } from '../../services/vaccineProtocols'
+import { latestDoses } from '../../services/vaccineRecalls'
+import SoapNoteView from '../medical/SoapNoteView'
+import VitalsChart from '../medical/VitalsChart'
+import PetAlertBadges from '../medical/PetAlertBadges'
+import Prescriptions from '../medical/Prescriptions'
+import LabResults from '../medical/LabResults'
 import type { Pet, Client, MedicalRecord, Vaccine } from '../../db/types'
 
 interface PetDetailProps {
@@ -31,13 +40,28 @@ export default function PetDetail({ isOpen, onClose, pet, client, onEdit }: PetD
   const [showAddVaccine, setShowAddVaccine] = useState(false)
   const [newVaccine, setNewVaccine] = useState({ name: '', dateAdministered: '', nextDueDate: '', notes: '' })
   const [selectedRecord, setSelectedRecord] = useState<MedicalRecord | null>(null)
+  const [protocols, setProtocols] = useState<VaccineProtocol[]>([])
+  const role = useAuthStore((s) => s.role)
+  const canViewRecords = can(role, 'medical_records:view')
 
   // Load medical history and vaccines when pet is shown
   useEffect(() => {
     if (!pet?.id || !isOpen) return
-    getMedicalRecordsByPet(pet.id).then(setMedicalRecords)
+    if (canViewRecords) getMedicalRecordsByPet(pet.id).then(setMedicalRecords)
     getVaccinesByPet(pet.id).then(setVaccines)
-  }, [pet?.id, isOpen])
+    getAllSettings()
+      .then(settings => setProtocols(vaccineProtocolsFromSettings(settings)))
+      .catch(err => console.error('Failed to load vaccine protocols:', err))
+  }, [pet?.id, isOpen, canViewRecords])
+
+  // Preview of what addVaccine computes from the protocol (used when Next due is left empty)
+  const vaccinePlan = useMemo(() => {
+    if (!pet || !newVaccine.name.trim() || !newVaccine.dateAdministered) return undefined
+    return planNewVaccine(newVaccine, pet, vaccines, protocols)
+  }, [pet, newVaccine, vaccines, protocols])
+
+  // Only the latest dose of each vaccine has a current plan - earlier ones were superseded
+  const currentDoseIds = useMemo(() => new Set(latestDoses(vaccines).map(v => v.id)), [vaccines])
 
   const handleAddVaccine = async (e: React.FormEvent) => {
     e.preventDefault()
@@ -107,6 +131,7 @@ export default function PetDetail({ isOpen, onClose, pet, client, onEdit }: PetD
                 {pet.gender}
               </span>
             </div>
+            <PetAlertBadges alerts={pet.alerts} className="mt-2" />
           </div>
         </div>
 
@@ -173,33 +198,55 @@ export default function PetDetail({ isOpen, onClose, pet, client, onEdit }: PetD
         )}
 
         {/* Medical history (historial médico por cita) */}
-        <div className="border-t pt-4">
-          <h4 className="font-medium text-gray-800 mb-3 flex items-center gap-2">
-            <FileText className="w-4 h-4" /> Medical History
-          </h4>
-          {medicalRecords.length === 0 ? (
-            <p className="text-sm text-gray-500">No medical records yet</p>
-          ) : (
-            <div className="space-y-3 max-h-48 overflow-y-auto">
-              {medicalRecords.map((rec) => (
-                <button
-                  key={rec.id}
-                  type="button"
-                  onClick={() => setSelectedRecord(rec)}
-                  className="w-full text-left p-3 bg-gray-50 rounded-lg text-sm hover:bg-gray-100 transition-colors flex items-center justify-between group"
-                >
-                  <div>
-                    <p className="text-gray-500 text-xs">{rec.createdAt?.split('T')[0]}</p>
-                    {rec.diagnosis && <p><span className="text-gray-500">Diagnosis:</span> {rec.diagnosis}</p>}
-                    {rec.treatment && <p><span className="text-gray-500">Treatment:</span> {rec.treatment}</p>}
-                    {rec.notes && <p><span className="text-gray-500">Notes:</span> {rec.notes}</p>}
-                  </div>
-                  <ChevronRight className="w-4 h-4 text-gray-400 group-hover:text-teal-600 shrink-0 ml-2" />
-                </button>
-              ))}
-            </div>
-          )}
-        </div>
+        {canViewRecords && (
+          <div className="border-t pt-4">
+            <h4 className="font-medium text-gray-800 mb-3 flex items-center gap-2">
+              <FileText className="w-4 h-4" /> Medical History
+            </h4>
+            {medicalRecords.length === 0 ? (
+              <p className="text-sm text-gray-500">No medical records yet</p>
+            ) : (
+              <div className="space-y-3 max-h-48 overflow-y-auto">
+                {medicalRecords.map((rec) => (
+                  <button
+                    key={rec.id}
+                    type="button"
+                    onClick={() => setSelectedRecord(rec)}
+                    className="w-full text-left p-3 bg-gray-50 rounded-lg text-sm hover:bg-gray-100 transition-colors flex items-center justify-between group"
+                  >
+                    <div>
+                      <p className="text-gray-500 text-xs">{rec.createdAt?.split('T')[0]}</p>
+                      {rec.assessment && <p><span className="text-gray-500">Assessment:</span> {rec.assessment}</p>}
+                      {rec.plan && <p><span className="text-gray-500">Plan:</span> {rec.plan}</p>}
+                      {rec.notes && <p><span className="text-gray-500">Notes:</span> {rec.notes}</p>}
+                    </div>
+                    <ChevronRight className="w-4 h-4 text-gray-400 group-hover:text-teal-600 shrink-0 ml-2" />
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+
+        {/* Weight and vitals over time (from the medical records) */}
+        {canViewRecords && medicalRecords.length > 0 && (
+          <div className="border-t pt-4">
+            <h4 className="font-medium text-gray-800 mb-3 flex items-center gap-2">
+              <Activity className="w-4 h-4" /> Vitals
+            </h4>
+            <VitalsChart records={medicalRecords} />
+          </div>
+        )}
+
+        {/* Lab results and their trends across visits */}
+        {canViewRecords && (
+          <LabResults pet={pet} canEdit={can(role, 'medical_records:edit')} />
+        )}
+
+        {/* Prescriptions and refills (recetas) */}
+        {canViewRecords && (
+          <Prescriptions pet={pet} client={client} canEdit={can(role, 'medical_records:edit')} />
+        )}
 
         {/* Vaccine tracking (control de vacunas) */}
         <div className="border-t pt-4">
@@ -216,8 +263,14 @@ export default function PetDetail({ isOpen, onClose, pet, client, onEdit }: PetD
                   <p className="font-medium">{v.name}</p>
                   <p className="text-gray-500 text-xs">
                     {v.dateAdministered}
+                    {v.doseNumber && ` • Dosis ${v.doseNumber}`}
                     {v.nextDueDate && ` • Next: ${v.nextDueDate}`}
                   </p>
+                  {currentDoseIds.has(v.id) && (v.plannedDoses?.length ?? 0) > 1 && (
+                    <p className="text-gray-500 text-xs">
+                      {v.plannedDoses!.map(d => `${d.label}: ${d.dueDate}`).join(' → ')}
+                    </p>
+                  )}
                 </div>
               </div>
             ))}
@@ -230,8 +283,12 @@ export default function PetDetail({ isOpen, onClose, pet, client, onEdit }: PetD
                 value={newVaccine.name}
                 onChange={(e) => setNewVaccine(prev => ({ ...prev, name: e.target.value }))}
                 className="w-full px-3 py-2 border rounded text-sm"
+                list="vaccine-protocols"
                 required
               />
+              <datalist id="vaccine-protocols">
+                {protocols.filter(p => p.species.includes(pet.species)).map(p => <option key={p.id} value={p.name} />)}
+              </datalist>
               <div className="grid grid-cols-2 gap-2">
                 <input
                   type="date"
@@ -247,8 +304,25 @@ export default function PetDetail({ isOpen, onClose, pet, client, onEdit }: PetD
                   value={newVaccine.nextDueDate}
                   onChange={(e) => setNewVaccine(prev => ({ ...prev, nextDueDate: e.target.value }))}
                   className="px-3 py-2 border rounded text-sm"
+                  title="Leave empty to use the vaccine protocol"
                 />
               </div>
+              {vaccinePlan && (
+                <div className="p-2 bg-teal-50 rounded text-xs text-teal-800 space-y-1">
+                  <p>
+                    Protocolo {vaccinePlan.protocol.name} · dosis {vaccinePlan.doseNumber}
+                    {!newVaccine.nextDueDate && vaccinePlan.nextDueDate && ` · próxima el ${vaccinePlan.nextDueDate}`}
+                  </p>
+                  {vaccinePlan.boosters.length > 0 && (
+                    <p className="text-teal-700">
+                      {vaccinePlan.boosters.map(b => `${b.label}: ${b.dueDate}`).join(' → ')}
+                    </p>
+                  )}
+                  {vaccinePlan.warnings.map(w => (
+                    <p key={w} className="text-amber-700">⚠ {w}</p>
+                  ))}
+                </div>
+              )}
               <input
                 type="text"
                 placeholder="Notes"
@@ -293,30 +367,7 @@ export default function PetDetail({ isOpen, onClose, pet, client, onEdit }: PetD
             <p className="text-sm text-gray-500">
               Fecha: {selectedRecord.createdAt?.split('T')[0]}
             </p>
-            {selectedRecord.symptoms && (
-              <div>
-                <p className="text-sm font-medium text-gray-600">Síntomas</p>
-                <p className="text-gray-800">{selectedRecord.symptoms}</p>
-              </div>
-            )}
-            {selectedRecord.diagnosis && (
-              <div>
-                <p className="text-sm font-medium text-gray-600">Diagnóstico</p>
-                <p className="text-gray-800">{selectedRecord.diagnosis}</p>
-              </div>
-            )}
-            {selectedRecord.treatment && (
-              <div>
-                <p className="text-sm font-medium text-gray-600">Tratamiento</p>
-                <p className="text-gray-800">{selectedRecord.treatment}</p>
-              </div>
-            )}
-            {selectedRecord.notes && (
-              <div>
-                <p className="text-sm font-medium text-gray-600">Notas</p>
-                <p className="text-gray-800">{selectedRecord.notes}</p>
-              </div>
-            )}
+            <SoapNoteView record={selectedRecord} />
           </div>
         )}
       </Modal>
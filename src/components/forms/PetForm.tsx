@@ -1,8 +1,10 @@
 // Pet form modal - Add/Edit pet with full care information
 
 import { useState, useEffect } from 'react'
+import { Plus, Trash2 } from 'lucide-react'
 import Modal from '../ui/Modal'
-import type { Pet, Client } from '../../db/types'
+import { ALERT_KIND_LABELS, ALERT_SEVERITY_LABELS, cleanAlerts } from '../../services/petAlerts'
+import type { Pet, Client, PetAlert, PetAlertKind, PetAlertSeverity } from '../../db/types'
 
 interface PetFormProps {
   isOpen: boolean
@@ -28,10 +30,13 @@ export interface PetFormData {
   lastSurgery: string
   allergies: string
   medicalNotes: string
+  alerts: PetAlert[]
   notes: string
 }
 
 const SPECIES_OPTIONS: Pet['species'][] = ['dog', 'cat', 'bird', 'rabbit', 'hamster', 'fish', 'reptile', 'other']
+const ALERT_KINDS = Object.keys(ALERT_KIND_LABELS) as PetAlertKind[]
+const ALERT_SEVERITIES = Object.keys(ALERT_SEVERITY_LABELS) as PetAlertSeverity[]
 
 export default function PetForm({ isOpen, onClose, onSubmit, pet, clients }: PetFormProps) {
   const [formData, setFormData] = useState<PetFormData>({
@@ -50,6 +55,7 @@ export default function PetForm({ isOpen, onClose, onSubmit, pet, clients }: Pet
     lastSurgery: '',
     allergies: '',
     medicalNotes: '',
+    alerts: [],
     notes: ''
   })
   const [loading, setLoading] = useState(false)
@@ -78,6 +84,7 @@ export default function PetForm({ isOpen, onClose, onSubmit, pet, clients }: Pet
         lastSurgery: pet.lastSurgery || '',
         allergies: pet.allergies || '',
         medicalNotes: pet.medicalNotes || '',
+        alerts: pet.alerts ?? [],
         notes: pet.notes || ''
       })
     } else if (clients.length > 0) {
@@ -88,6 +95,12 @@ export default function PetForm({ isOpen, onClose, onSubmit, pet, clients }: Pet
     }
   }, [pet, clients])
 
+  const updateAlert = (idx: number, changes: Partial<PetAlert>) =>
+    setFormData(prev => ({
+      ...prev,
+      alerts: prev.alerts.map((a, i) => (i === idx ? { ...a, ...changes } : a))
+    }))
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
     setError('')
@@ -99,13 +112,17 @@ export default function PetForm({ isOpen, onClose, onSubmit, pet, clients }: Pet
       setError('Please select an owner')
       return
     }
+    if (formData.alerts.some(a => a.kind === 'drug_allergy' && !a.label.trim())) {
+      setError('Indica el fármaco de cada alergia')
+      return
+    }
     setLoading(true)
     try {
       // Timeout after 15 seconds to prevent infinite loading
       const timeoutPromise = new Promise<never>((_, reject) =>
         setTimeout(() => reject(new Error('Request timed out. Verify migration 002 and 003 are run in Supabase.')), 30000)
       )
-      await Promise.race([onSubmit(formData), timeoutPromise])
+      await Promise.race([onSubmit({ ...formData, alerts: cleanAlerts(formData.alerts) }), timeoutPromise])
       onClose()
     } catch (err) {
       const msg = err instanceof Error ? err.message : 'Failed to save'
@@ -295,6 +312,75 @@ export default function PetForm({ isOpen, onClose, onSubmit, pet, clients }: Pet
             />
           </div>
 
+          {/* Patient alerts */}
+          <div className="md:col-span-2">
+            <div className="flex items-center justify-between mb-1">
+              <label className="block text-sm font-medium text-gray-700">Alertas del paciente</label>
+              <button
+                type="button"
+                onClick={() => setFormData(prev => ({
+                  ...prev,
+                  alerts: [...prev.alerts, { kind: 'drug_allergy', severity: 'high', label: '' }]
+                }))}
+                className="flex items-center gap-1 text-sm text-teal-600 hover:text-teal-700"
+              >
+                <Plus className="w-4 h-4" />
+                Añadir alerta
+              </button>
+            </div>
+            {formData.alerts.length === 0 ? (
+              <p className="text-xs text-gray-500">
+                Sin alertas. Las alergias a fármacos bloquean la venta del medicamento; agresividad y DNR se muestran en agenda y citas.
+              </p>
+            ) : (
+              <div className="space-y-2">
+                {formData.alerts.map((alert, idx) => (
+                  <div key={idx} className="flex flex-wrap items-center gap-2 p-2 bg-gray-50 rounded-lg">
+                    <select
+                      value={alert.kind}
+                      onChange={(e) => updateAlert(idx, { kind: e.target.value as PetAlertKind })}
+                      className="px-2 py-1 border border-gray-200 rounded text-sm"
+                    >
+                      {ALERT_KINDS.map(k => (
+                        <option key={k} value={k}>{ALERT_KIND_LABELS[k]}</option>
+                      ))}
+                    </select>
+                    <select
+                      value={alert.severity}
+                      onChange={(e) => updateAlert(idx, { severity: e.target.value as PetAlertSeverity })}
+                      className="px-2 py-1 border border-gray-200 rounded text-sm"
+                    >
+                      {ALERT_SEVERITIES.map(s => (
+                        <option key={s} value={s}>{ALERT_SEVERITY_LABELS[s]}</option>
+                      ))}
+                    </select>
+                    <input
+                      type="text"
+                      value={alert.label}
+                      onChange={(e) => updateAlert(idx, { label: e.target.value })}
+                      className="flex-1 min-w-[8rem] px-2 py-1 border border-gray-200 rounded text-sm"
+                      placeholder={alert.kind === 'drug_allergy' ? 'Fármaco o grupo (p. ej. Penicilina) *' : 'Descripción'}
+                    />
+                    <input
+                      type="text"
+                      value={alert.notes ?? ''}
+                      onChange={(e) => updateAlert(idx, { notes: e.target.value })}
+                      className="flex-1 min-w-[8rem] px-2 py-1 border border-gray-200 rounded text-sm"
+                      placeholder="Notas (opcional)"
+                    />
+                    <button
+                      type="button"
+                      onClick={() => setFormData(prev => ({ ...prev, alerts: prev.alerts.filter((_, i) => i !== idx) }))}
+                      className="p-1 text-red-600 hover:bg-red-50 rounded"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
           {/* Treatment */}
           <div className="md:col-span-2">
             <label className="block text-sm font-medium text-gray-700 mb-1">Current Treatment</label>
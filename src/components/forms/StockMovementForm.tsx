@@ -0,0 +1,169 @@
+// Stock movement form modal - Receive stock, write off expired units, register returns or manual adjustments
+
+import { useState, useEffect } from 'react'
+import Modal from '../ui/Modal'
+import type { InventoryItem, InventoryMovementType, CreateInventoryMovementInput } from '../../db/types'
+
+type ManualMovementType = Exclude<InventoryMovementType, 'sale'>
+
+interface StockMovementFormProps {
+  isOpen: boolean
+  onClose: () => void
+  onSubmit: (movement: CreateInventoryMovementInput) => Promise<void>
+  item: InventoryItem | null
+  defaultType?: ManualMovementType
+}
+
+const MOVEMENT_OPTIONS: { value: ManualMovementType; label: string; hint: string }[] = [
+  { value: 'restock', label: 'Receive stock', hint: 'Units received from a supplier' },
+  { value: 'return', label: 'Return', hint: 'Units returned by a client' },
+  { value: 'expiry', label: 'Expiry write-off', hint: 'Expired or damaged units removed from stock' },
+  { value: 'adjustment', label: 'Adjustment', hint: 'Stock count correction (use a negative number to subtract)' }
+]
+
+export default function StockMovementForm({ isOpen, onClose, onSubmit, item, defaultType = 'restock' }: StockMovementFormProps) {
+  const [type, setType] = useState<ManualMovementType>(defaultType)
+  const [quantity, setQuantity] = useState(0)
+  const [unitCost, setUnitCost] = useState('')
+  const [reference, setReference] = useState('')
+  const [notes, setNotes] = useState('')
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState('')
+
+  useEffect(() => {
+    setType(defaultType)
+    setQuantity(0)
+    setUnitCost('')
+    setReference('')
+    setNotes('')
+    setError('')
+  }, [item, isOpen, defaultType])
+
+  // Write-offs always take stock out; adjustments keep the sign the user typed
+  const signedQuantity = type === 'expiry' ? -Math.abs(quantity) : type === 'adjustment' ? quantity : Math.abs(quantity)
+  const quantityAfter = (item?.quantity ?? 0) + signedQuantity
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setError('')
+    if (!item?.id) return
+    if (!quantity) {
+      setError('Quantity is required')
+      return
+    }
+    if (quantityAfter < 0) {
+      setError(`Only ${item.quantity} ${item.unit || 'unit'} in stock`)
+      return
+    }
+    setLoading(true)
+    try {
+      await onSubmit({
+        inventoryId: item.id,
+        type,
+        quantity: signedQuantity,
+        unitCost: type === 'restock' && unitCost ? parseFloat(unitCost) : undefined,
+        reference: reference.trim() || undefined,
+        notes: notes.trim() || undefined
+      })
+      onClose()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const selected = MOVEMENT_OPTIONS.find(o => o.value === type)
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title={item ? `${selected?.label ?? 'Stock movement'} - ${item.name}` : 'Stock movement'}
+      size="md"
+      footer={
+        <div className="flex justify-end gap-2">
+          <button type="button" onClick={onClose} className="px-4 py-2 border border-gray-200 rounded-lg hover:bg-gray-50">
+            Cancel
+          </button>
+          <button
+            type="submit"
+            form="stock-movement-form"
+            disabled={loading}
+            className="px-4 py-2 bg-teal-600 text-white rounded-lg hover:bg-teal-700 disabled:opacity-50"
+          >
+            {loading ? 'Saving...' : 'Save'}
+          </button>
+        </div>
+      }
+    >
+      <form id="stock-movement-form" onSubmit={handleSubmit} className="space-y-4">
+        {error && <div className="p-3 bg-red-50 text-red-700 rounded-lg text-sm">{error}</div>}
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Movement</label>
+          <select
+            value={type}
+            onChange={(e) => setType(e.target.value as ManualMovementType)}
+            className="w-full px-4 py-2 border border-gray-200 rounded-lg focus:ring-2 focus:ring-teal-500"
+          >
+            {MOVEMENT_OPTIONS.map(o => (
+              <option key={o.value} value={o.value}>{o.label}</option>
+            ))}
+          </select>
+          {selected && <p className="mt-1 text-xs text-gray-500">{selected.hint}</p>}
+        </div>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Quantity *</label>
+            <input
+              type="number"
+              value={quantity || ''}
+              onChange={(e) => setQuantity(parseFloat(e.target.value) || 0)}
+              className="w-full px-4 py-2 border border-gray-200 rounded-lg focus:ring-2 focus:ring-teal-500"
+              min={type === 'adjustment' ? undefined : 0}
+              step="any"
+              required
+            />
+          </div>
+          {type === 'restock' && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Unit cost</label>
+              <input
+                type="number"
+                step="0.01"
+                value={unitCost}
+                onChange={(e) => setUnitCost(e.target.value)}
+                className="w-full px-4 py-2 border border-gray-200 rounded-lg focus:ring-2 focus:ring-teal-500"
+                min={0}
+              />
+            </div>
+          )}
+          <div className={type === 'restock' ? 'md:col-span-2' : ''}>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Reference</label>
+            <input
+              type="text"
+              value={reference}
+              onChange={(e) => setReference(e.target.value)}
+              className="w-full px-4 py-2 border border-gray-200 rounded-lg focus:ring-2 focus:ring-teal-500"
+              placeholder="Supplier invoice, lot number..."
+            />
+          </div>
+          <div className="md:col-span-2">
+            <label className="block text-sm font-medium text-gray-700 mb-1">Notes</label>
+            <textarea
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              className="w-full px-4 py-2 border border-gray-200 rounded-lg focus:ring-2 focus:ring-teal-500"
+              rows={2}
+            />
+          </div>
+        </div>
+        {item && (
+          <p className="text-sm text-gray-600">
+            Stock: {item.quantity} → <span className={quantityAfter < 0 ? 'text-red-600 font-medium' : 'font-medium'}>{quantityAfter}</span> {item.unit || 'unit'}
+          </p>
+        )}
+      </form>
+    </Modal>
+  )
+}
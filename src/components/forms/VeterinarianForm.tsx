@@ -0,0 +1,255 @@
+// Veterinarian form modal - Name, contact, specialties, weekly working hours and days off
+
+import { useState, useEffect } from 'react'
+import Modal from '../ui/Modal'
+import { X } from 'lucide-react'
+import { WEEKDAY_LABELS } from '../../services/vetSchedule'
+import type { Veterinarian, CreateVeterinarianInput, WorkingHours } from '../../db/types'
+
+interface VeterinarianFormProps {
+  isOpen: boolean
+  onClose: () => void
+  onSubmit: (vet: CreateVeterinarianInput) => Promise<void>
+  veterinarian?: Veterinarian | null
+}
+
+const DEFAULT_HOURS: WorkingHours = { start: '09:00', end: '18:00' }
+
+const emptyVet = (): CreateVeterinarianInput => ({
+  name: '',
+  email: '',
+  phone: '',
+  color: '#0D9488',
+  specialties: [],
+  // Monday to Friday by default
+  workingHours: { 1: DEFAULT_HOURS, 2: DEFAULT_HOURS, 3: DEFAULT_HOURS, 4: DEFAULT_HOURS, 5: DEFAULT_HOURS },
+  daysOff: [],
+  active: true
+})
+
+export default function VeterinarianForm({ isOpen, onClose, onSubmit, veterinarian }: VeterinarianFormProps) {
+  const [formData, setFormData] = useState<CreateVeterinarianInput>(emptyVet())
+  const [specialties, setSpecialties] = useState('')
+  const [newDayOff, setNewDayOff] = useState('')
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState('')
+
+  useEffect(() => {
+    if (veterinarian) {
+      const { id: _id, createdAt: _c, updatedAt: _u, ...rest } = veterinarian
+      setFormData(rest)
+      setSpecialties(veterinarian.specialties.join(', '))
+    } else {
+      setFormData(emptyVet())
+      setSpecialties('')
+    }
+    setNewDayOff('')
+    setError('')
+  }, [veterinarian, isOpen])
+
+  const setDayHours = (day: number, hours: WorkingHours | undefined) => {
+    setFormData(prev => {
+      const workingHours = { ...prev.workingHours }
+      if (hours) workingHours[day] = hours
+      else delete workingHours[day]
+      return { ...prev, workingHours }
+    })
+  }
+
+  const addDayOff = () => {
+    if (!newDayOff || formData.daysOff.includes(newDayOff)) return
+    setFormData(prev => ({ ...prev, daysOff: [...prev.daysOff, newDayOff].sort() }))
+    setNewDayOff('')
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setError('')
+    if (!formData.name.trim()) {
+      setError('Name is required')
+      return
+    }
+    const invalidDay = Object.entries(formData.workingHours)
+      .find(([, h]) => h && h.start >= h.end)
+    if (invalidDay) {
+      setError(`${WEEKDAY_LABELS[Number(invalidDay[0])]}: end time must be after start time`)
+      return
+    }
+    setLoading(true)
+    try {
+      await onSubmit({
+        ...formData,
+        name: formData.name.trim(),
+        specialties: specialties.split(',').map(s => s.trim()).filter(Boolean)
+      })
+      onClose()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title={veterinarian ? 'Edit Veterinarian' : 'New Veterinarian'}
+      size="lg"
+      footer={
+        <div className="flex justify-end gap-2">
+          <button type="button" onClick={onClose} className="px-4 py-2 border border-gray-200 rounded-lg hover:bg-gray-50">
+            Cancel
+          </button>
+          <button
+            type="submit"
+            form="veterinarian-form"
+            disabled={loading}
+            className="px-4 py-2 bg-teal-600 text-white rounded-lg hover:bg-teal-700 disabled:opacity-50"
+          >
+            {loading ? 'Saving...' : 'Save'}
+          </button>
+        </div>
+      }
+    >
+      <form id="veterinarian-form" onSubmit={handleSubmit} className="space-y-4">
+        {error && <div className="p-3 bg-red-50 text-red-700 rounded-lg text-sm">{error}</div>}
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Name *</label>
+            <input
+              type="text"
+              value={formData.name}
+              onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+              className="w-full px-4 py-2 border border-gray-200 rounded-lg focus:ring-2 focus:ring-teal-500"
+              placeholder="Dr. Name"
+              required
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Specialties</label>
+            <input
+              type="text"
+              value={specialties}
+              onChange={(e) => setSpecialties(e.target.value)}
+              className="w-full px-4 py-2 border border-gray-200 rounded-lg focus:ring-2 focus:ring-teal-500"
+              placeholder="Cirugía, Dermatología..."
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Email</label>
+            <input
+              type="email"
+              value={formData.email}
+              onChange={(e) => setFormData({ ...formData, email: e.target.value })}
+              className="w-full px-4 py-2 border border-gray-200 rounded-lg focus:ring-2 focus:ring-teal-500"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Phone</label>
+            <input
+              type="tel"
+              value={formData.phone}
+              onChange={(e) => setFormData({ ...formData, phone: e.target.value })}
+              className="w-full px-4 py-2 border border-gray-200 rounded-lg focus:ring-2 focus:ring-teal-500"
+            />
+          </div>
+          <div className="flex items-center gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Color</label>
+              <input
+                type="color"
+                value={formData.color}
+                onChange={(e) => setFormData({ ...formData, color: e.target.value })}
+                className="h-10 w-16 border border-gray-200 rounded-lg"
+              />
+            </div>
+            <label className="flex items-center gap-2 text-sm text-gray-700 mt-6">
+              <input
+                type="checkbox"
+                checked={formData.active}
+                onChange={(e) => setFormData({ ...formData, active: e.target.checked })}
+              />
+              Active
+            </label>
+          </div>
+        </div>
+
+        {/* Weekly working hours */}
+        <div className="border-t pt-4">
+          <h4 className="font-medium text-gray-800 mb-3">Working hours</h4>
+          <div className="space-y-2">
+            {WEEKDAY_LABELS.map((label, day) => {
+              const hours = formData.workingHours[day]
+              return (
+                <div key={day} className="flex items-center gap-3 text-sm">
+                  <label className="flex items-center gap-2 w-32">
+                    <input
+                      type="checkbox"
+                      checked={!!hours}
+                      onChange={(e) => setDayHours(day, e.target.checked ? DEFAULT_HOURS : undefined)}
+                    />
+                    {label}
+                  </label>
+                  {hours ? (
+                    <>
+                      <input
+                        type="time"
+                        value={hours.start}
+                        onChange={(e) => setDayHours(day, { ...hours, start: e.target.value })}
+                        className="px-3 py-1.5 border border-gray-200 rounded-lg"
+                      />
+                      <span className="text-gray-400">—</span>
+                      <input
+                        type="time"
+                        value={hours.end}
+                        onChange={(e) => setDayHours(day, { ...hours, end: e.target.value })}
+                        className="px-3 py-1.5 border border-gray-200 rounded-lg"
+                      />
+                    </>
+                  ) : (
+                    <span className="text-gray-400">No trabaja</span>
+                  )}
+                </div>
+              )
+            })}
+          </div>
+        </div>
+
+        {/* Days off (vacations, leave) */}
+        <div className="border-t pt-4">
+          <h4 className="font-medium text-gray-800 mb-3">Days off</h4>
+          <div className="flex gap-2 mb-2">
+            <input
+              type="date"
+              value={newDayOff}
+              onChange={(e) => setNewDayOff(e.target.value)}
+              className="px-3 py-1.5 border border-gray-200 rounded-lg text-sm"
+            />
+            <button
+              type="button"
+              onClick={addDayOff}
+              className="px-3 py-1.5 text-sm bg-teal-50 text-teal-700 rounded-lg hover:bg-teal-100"
+            >
+              Add
+            </button>
+          </div>
+          <div className="flex flex-wrap gap-2">
+            {formData.daysOff.map(d => (
+              <span key={d} className="flex items-center gap-1 px-2 py-1 bg-gray-100 rounded-full text-xs text-gray-700">
+                {d}
+                <button
+                  type="button"
+                  onClick={() => setFormData(prev => ({ ...prev, daysOff: prev.daysOff.filter(x => x !== d) }))}
+                  className="text-gray-400 hover:text-red-600"
+                >
+                  <X className="w-3 h-3" />
+                </button>
+              </span>
+            ))}
+          </div>
+        </div>
+      </form>
+    </Modal>
+  )
+}
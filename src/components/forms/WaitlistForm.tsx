@@ -0,0 +1,217 @@
+// Waitlist form modal - Pet, appointment type, preferred vet, date range and time window
+
+import { useState, useEffect } from 'react'
+import Modal from '../ui/Modal'
+import type { Appointment, Client, Pet, Veterinarian, WaitlistEntry, CreateWaitlistEntryInput } from '../../db/types'
+
+interface WaitlistFormProps {
+  isOpen: boolean
+  onClose: () => void
+  onSubmit: (entry: CreateWaitlistEntryInput) => Promise<void>
+  entry?: WaitlistEntry | null
+  pets: Pet[]
+  clients: Client[]
+  veterinarians?: Veterinarian[]
+}
+
+const APPOINTMENT_TYPES: Appointment['type'][] = [
+  'consultation', 'vaccination', 'surgery', 'grooming', 'emergency', 'follow-up'
+]
+
+const today = () => new Date().toISOString().split('T')[0]
+
+const emptyEntry = (): CreateWaitlistEntryInput => ({
+  clientId: 0,
+  petId: 0,
+  type: 'consultation',
+  dateFrom: today(),
+  dateTo: today(),
+  timeFrom: '08:00',
+  timeTo: '20:00',
+  duration: 30,
+  notes: '',
+  status: 'waiting'
+})
+
+export default function WaitlistForm({ isOpen, onClose, onSubmit, entry, pets, clients, veterinarians = [] }: WaitlistFormProps) {
+  const [formData, setFormData] = useState<CreateWaitlistEntryInput>(emptyEntry())
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState('')
+
+  useEffect(() => {
+    if (entry) {
+      const { id: _id, createdAt: _c, updatedAt: _u, ...rest } = entry
+      setFormData(rest)
+    } else {
+      setFormData(emptyEntry())
+    }
+    setError('')
+  }, [entry, isOpen])
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setError('')
+    if (!formData.petId) {
+      setError('Please select a pet')
+      return
+    }
+    if (formData.dateTo < formData.dateFrom) {
+      setError('La fecha final debe ser posterior a la inicial')
+      return
+    }
+    if (formData.timeTo <= formData.timeFrom) {
+      setError('La hora final debe ser posterior a la inicial')
+      return
+    }
+    setLoading(true)
+    try {
+      await onSubmit(formData)
+      onClose()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const inputClass = 'w-full px-4 py-2 border border-gray-200 rounded-lg focus:ring-2 focus:ring-teal-500'
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title={entry ? 'Editar lista de espera' : 'Agregar a lista de espera'}
+      size="lg"
+      footer={
+        <div className="flex justify-end gap-2">
+          <button type="button" onClick={onClose} className="px-4 py-2 border border-gray-200 rounded-lg hover:bg-gray-50">
+            Cancel
+          </button>
+          <button
+            type="submit"
+            form="waitlist-form"
+            disabled={loading}
+            className="px-4 py-2 bg-teal-600 text-white rounded-lg hover:bg-teal-700 disabled:opacity-50"
+          >
+            {loading ? 'Saving...' : 'Save'}
+          </button>
+        </div>
+      }
+    >
+      <form id="waitlist-form" onSubmit={handleSubmit} className="space-y-4">
+        {error && <div className="p-3 bg-red-50 text-red-700 rounded-lg text-sm">{error}</div>}
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="md:col-span-2">
+            <label className="block text-sm font-medium text-gray-700 mb-1">Pet *</label>
+            <select
+              value={formData.petId}
+              onChange={(e) => {
+                const pet = pets.find(p => p.id === Number(e.target.value))
+                setFormData({ ...formData, petId: pet?.id ?? 0, clientId: pet?.clientId ?? 0 })
+              }}
+              className={inputClass}
+              required
+            >
+              <option value={0}>Select pet...</option>
+              {pets.map((p) => {
+                const owner = clients.find(c => c.id === p.clientId)
+                return (
+                  <option key={p.id} value={p.id}>
+                    {p.name} ({p.breed}) - {owner?.firstName} {owner?.lastName}
+                  </option>
+                )
+              })}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Type</label>
+            <select
+              value={formData.type}
+              onChange={(e) => setFormData({ ...formData, type: e.target.value as Appointment['type'] })}
+              className={inputClass}
+            >
+              {APPOINTMENT_TYPES.map((t) => (
+                <option key={t} value={t}>{t}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Duration (min)</label>
+            <input
+              type="number"
+              min={5}
+              value={formData.duration}
+              onChange={(e) => setFormData({ ...formData, duration: parseInt(e.target.value) || 30 })}
+              className={inputClass}
+            />
+          </div>
+          {veterinarians.length > 0 && (
+            <div className="md:col-span-2">
+              <label className="block text-sm font-medium text-gray-700 mb-1">Veterinario preferido</label>
+              <select
+                value={formData.veterinarianId ?? ''}
+                onChange={(e) => setFormData({ ...formData, veterinarianId: e.target.value ? Number(e.target.value) : undefined })}
+                className={inputClass}
+              >
+                <option value="">Cualquiera</option>
+                {veterinarians.filter(v => v.active).map(v => (
+                  <option key={v.id} value={v.id}>{v.name}</option>
+                ))}
+              </select>
+            </div>
+          )}
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Desde (fecha)</label>
+            <input
+              type="date"
+              value={formData.dateFrom}
+              onChange={(e) => setFormData({ ...formData, dateFrom: e.target.value })}
+              className={inputClass}
+              required
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Hasta (fecha)</label>
+            <input
+              type="date"
+              value={formData.dateTo}
+              min={formData.dateFrom}
+              onChange={(e) => setFormData({ ...formData, dateTo: e.target.value })}
+              className={inputClass}
+              required
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Desde (hora)</label>
+            <input
+              type="time"
+              value={formData.timeFrom}
+              onChange={(e) => setFormData({ ...formData, timeFrom: e.target.value })}
+              className={inputClass}
+              required
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Hasta (hora)</label>
+            <input
+              type="time"
+              value={formData.timeTo}
+              onChange={(e) => setFormData({ ...formData, timeTo: e.target.value })}
+              className={inputClass}
+              required
+            />
+          </div>
+          <div className="md:col-span-2">
+            <label className="block text-sm font-medium text-gray-700 mb-1">Notes</label>
+            <textarea
+              value={formData.notes}
+              onChange={(e) => setFormData({ ...formData, notes: e.target.value })}
+              className={inputClass}
+              rows={2}
+            />
+          </div>
+        </div>
+      </form>
+    </Modal>
+  )
+}
@@ -0,0 +1,165 @@
+// Waitlist offer modal - opens after a cancellation when waitlisted clients fit the freed slot
+// Sends each selected client a claim link; the first one to claim books the slot
+
+import { useState, useEffect } from 'react'
+import Modal from '../ui/Modal'
+import { Copy, Check } from 'lucide-react'
+import { useWaitlistStore, type OfferResult } from '../../stores/waitlistStore'
+import { useClientStore } from '../../stores/clientStore'
+import { usePetStore } from '../../stores/petStore'
+import { isEmailEnabled } from '../../services/mail'
+import { getClaimUrl, DEFAULT_OFFER_HOURS } from '../../services/waitlist'
+
+export default function WaitlistOfferModal() {
+  const { freedSlot, matches, offerSlot, dismissFreedSlot } = useWaitlistStore()
+  const { clients } = useClientStore()
+  const { pets } = usePetStore()
+  const [emailEnabled, setEmailEnabled] = useState(false)
+  const [selected, setSelected] = useState<number[]>([])
+  const [hours, setHours] = useState(DEFAULT_OFFER_HOURS)
+  const [result, setResult] = useState<OfferResult | null>(null)
+  const [copied, setCopied] = useState<string | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState('')
+
+  useEffect(() => {
+    if (freedSlot) isEmailEnabled().then(setEmailEnabled).catch(() => setEmailEnabled(false))
+  }, [freedSlot])
+
+  useEffect(() => {
+    setSelected(matches.map(m => m.id!))
+    setResult(null)
+    setError('')
+  }, [freedSlot, matches])
+
+  if (!freedSlot) return null
+
+  const clientName = (clientId: number) => {
+    const c = clients.find(x => x.id === clientId)
+    return c ? `${c.firstName} ${c.lastName}` : `Client #${clientId}`
+  }
+  const petName = (petId: number) => pets.find(p => p.id === petId)?.name ?? `Pet #${petId}`
+
+  const handleSend = async () => {
+    if (selected.length === 0) return
+    setLoading(true)
+    setError('')
+    try {
+      setResult(await offerSlot(selected, hours))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create offers')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const copyLink = async (token: string) => {
+    await navigator.clipboard.writeText(getClaimUrl(token))
+    setCopied(token)
+  }
+
+  return (
+    <Modal
+      isOpen={!!freedSlot}
+      onClose={dismissFreedSlot}
+      title="Horario liberado - Lista de espera"
+      size="lg"
+      footer={
+        <div className="flex justify-end gap-2">
+          <button type="button" onClick={dismissFreedSlot} className="px-4 py-2 border border-gray-200 rounded-lg hover:bg-gray-50">
+            {result ? 'Close' : 'No ofrecer'}
+          </button>
+          {!result && (
+            <button
+              type="button"
+              onClick={handleSend}
+              disabled={loading || selected.length === 0}
+              className="px-4 py-2 bg-teal-600 text-white rounded-lg hover:bg-teal-700 disabled:opacity-50"
+            >
+              {loading ? 'Enviando...' : emailEnabled ? 'Enviar oferta por email' : 'Crear enlaces'}
+            </button>
+          )}
+        </div>
+      }
+    >
+      <div className="space-y-4 text-sm">
+        {error && <div className="p-3 bg-red-50 text-red-700 rounded-lg text-sm">{error}</div>}
+
+        <p className="text-gray-700">
+          Se liberó el <strong>{freedSlot.date}</strong> a las <strong>{freedSlot.time}</strong> ({freedSlot.duration} min,{' '}
+          <span className="capitalize">{freedSlot.type}</span>{freedSlot.veterinarian ? `, ${freedSlot.veterinarian}` : ''}).
+          {' '}Estos clientes de la lista de espera pueden tomarlo:
+        </p>
+
+        {!result ? (
+          <>
+            <div className="divide-y divide-gray-100 border border-gray-100 rounded-lg">
+              {matches.map(entry => (
+                <label key={entry.id} className="flex items-center gap-3 p-3 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={selected.includes(entry.id!)}
+                    onChange={(e) => setSelected(prev =>
+                      e.target.checked ? [...prev, entry.id!] : prev.filter(id => id !== entry.id)
+                    )}
+                  />
+                  <span className="flex-1">
+                    <span className="font-medium text-gray-800">{clientName(entry.clientId)}</span>
+                    <span className="text-gray-500"> · {petName(entry.petId)}</span>
+                    <span className="block text-xs text-gray-500">
+                      En espera desde {entry.createdAt.slice(0, 10)} · {entry.dateFrom} a {entry.dateTo}, {entry.timeFrom}-{entry.timeTo}
+                    </span>
+                  </span>
+                  {entry.status === 'offered' && <span className="text-xs text-amber-600">Ya recibió otra oferta</span>}
+                </label>
+              ))}
+            </div>
+            <div className="flex items-center gap-2">
+              <span className="text-gray-700">La oferta vence en</span>
+              <select
+                value={hours}
+                onChange={(e) => setHours(Number(e.target.value))}
+                className="px-3 py-1.5 border border-gray-200 rounded-lg"
+              >
+                {[2, 6, 12, 24, 48].map(h => <option key={h} value={h}>{h} horas</option>)}
+              </select>
+            </div>
+            {!emailEnabled && (
+              <p className="text-gray-500">
+                El envío de emails no está configurado: se crearán los enlaces para que los compartas tú.
+              </p>
+            )}
+          </>
+        ) : (
+          <div className="space-y-2">
+            <p className="text-gray-700">
+              {result.emailed.length} de {result.offers.length} oferta(s) enviadas por email. El primero en reservar se queda con el horario.
+            </p>
+            <div className="divide-y divide-gray-100 border border-gray-100 rounded-lg">
+              {result.offers.map(offer => {
+                const entry = matches.find(m => m.id === offer.entryId)
+                return (
+                  <div key={offer.id} className="flex items-center gap-3 p-3">
+                    <span className="flex-1 text-gray-800">
+                      {entry ? clientName(entry.clientId) : `#${offer.entryId}`}
+                      <span className="text-xs text-gray-500 ml-2">
+                        {result.emailed.includes(offer.entryId) ? 'Email enviado' : 'Sin email - comparte el enlace'}
+                      </span>
+                    </span>
+                    <button
+                      type="button"
+                      onClick={() => copyLink(offer.token)}
+                      className="flex items-center gap-1 text-teal-600 hover:text-teal-700"
+                    >
+                      {copied === offer.token ? <Check className="w-4 h-4" /> : <Copy className="w-4 h-4" />} Copiar enlace
+                    </button>
+                  </div>
+                )
+              })}
+            </div>
+          </div>
+        )}
+      </div>
+    </Modal>
+  )
+}
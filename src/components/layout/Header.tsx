@@ -1,4 +1,4 @@
-import { Bell, Search, LogOut, RefreshCw, Moon, Sun } from 'lucide-react'
+import { Search, LogOut, RefreshCw, Moon, Sun } from 'lucide-react'
 import { useNavigate } from 'react-router-dom'
 import { useAuthStore } from '../../stores/authStore'
 import { useUIStore } from '../../stores/uiStore'
@@ -6,6 +6,9 @@ import { useClientStore } from '../../stores/clientStore'
 import { usePetStore } from '../../stores/petStore'
 import { useAppointmentStore } from '../../stores/appointmentStore'
 import { useInventoryStore } from '../../stores/inventoryStore'
+import { useVeterinarianStore } from '../../stores/veterinarianStore'
+import SyncStatus from './SyncStatus'
+import NotificationCenter from './NotificationCenter'
 
 export default function Header() {
   const navigate = useNavigate()
@@ -15,12 +18,14 @@ export default function Header() {
   const { fetchPets } = usePetStore()
   const { fetchAppointments } = useAppointmentStore()
   const { fetchItems } = useInventoryStore()
+  const { fetchVeterinarians } = useVeterinarianStore()
 
   const handleRefresh = () => {
     fetchClients()
     fetchPets()
     fetchAppointments()
     fetchItems()
+    fetchVeterinarians()
   }
 
   return (
@@ -39,6 +44,8 @@ export default function Header() {
 
       {/* Right side */}
       <div className="flex items-center gap-4">
+        {/* Offline / pending sync */}
+        <SyncStatus />
         {/* Theme toggle */}
         <button
           onClick={() => setTheme(theme === 'dark' ? 'light' : 'dark')}
@@ -56,10 +63,7 @@ export default function Header() {
           <RefreshCw className="w-5 h-5" />
         </button>
         {/* Notifications */}
-        <button className="relative p-2 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700 text-gray-600 dark:text-gray-300">
-          <Bell className="w-5 h-5" />
-          <span className="absolute top-1 right-1 w-2 h-2 bg-red-500 rounded-full"></span>
-        </button>
+        <NotificationCenter />
 
         {/* User menu */}
         <div className="flex items-center gap-3 pl-4 border-l border-gray-200 dark:border-gray-600">
@@ -1,12 +1,18 @@
 import { ReactNode, useEffect } from 'react'
 import Sidebar from './Sidebar'
 import Header from './Header'
+import WaitlistOfferModal from '../forms/WaitlistOfferModal'
 import { useUIStore } from '../../stores/uiStore'
 import { useAuthStore } from '../../stores/authStore'
 import { useClientStore } from '../../stores/clientStore'
 import { usePetStore } from '../../stores/petStore'
-import { useAppointmentStore } from '../../stores/appointmentStore'
+import { useAppointmentStore, startClientActionProcessor } from '../../stores/appointmentStore'
 import { useInventoryStore } from '../../stores/inventoryStore'
+import { useVeterinarianStore } from '../../stores/veterinarianStore'
+import { startBackgroundSync } from '../../stores/syncStore'
+import { startNotificationChecker, useNotificationStore } from '../../stores/notificationStore'
+import { startReminderScheduler } from '../../services/reminders'
+import { messageFailedNotification } from '../../services/staffNotifications'
 
 interface LayoutProps {
   children: ReactNode
@@ -19,6 +25,7 @@ export default function Layout({ children }: LayoutProps) {
   const { fetchPets, error: petError } = usePetStore()
   const { fetchAppointments, error: appointmentError } = useAppointmentStore()
   const { fetchItems, error: inventoryError } = useInventoryStore()
+  const { fetchVeterinarians } = useVeterinarianStore()
 
   const dataError = clientError || petError || appointmentError || inventoryError
 
@@ -29,7 +36,46 @@ export default function Layout({ children }: LayoutProps) {
     fetchPets()
     fetchAppointments()
     fetchItems()
-  }, [user?.id, fetchClients, fetchPets, fetchAppointments, fetchItems])
+    fetchVeterinarians()
+  }, [user?.id, fetchClients, fetchPets, fetchAppointments, fetchItems, fetchVeterinarians])
+
+  // Replay changes made offline once the connection is back
+  useEffect(() => {
+    if (!user?.id) return
+    return startBackgroundSync()
+  }, [user?.id])
+
+  // Email appointment reminders N hours ahead (per type, see Settings → Notifications)
+  useEffect(() => {
+    if (!user?.id) return
+    return startReminderScheduler((result) => {
+      useAppointmentStore.getState().fetchAppointments()
+      useNotificationStore.getState().notify(result.errors.map(e =>
+        messageFailedNotification('reminder', e.appointment, `${e.client.firstName} ${e.client.lastName}`.trim(), e.message)
+      ))
+      window.electronAPI?.showNotification(
+        'Recordatorios de citas',
+        `${result.sent} enviado(s)${result.failed ? `, ${result.failed} con error` : ''}`
+      )
+    })
+  }, [user?.id])
+
+  // Staff notification feed (header bell): upcoming appointments, due vaccines, low stock, failures
+  useEffect(() => {
+    if (!user?.id) return
+    return startNotificationChecker()
+  }, [user?.id])
+
+  // Apply confirm / cancel / reschedule choices owners made from the links in their emails
+  useEffect(() => {
+    if (!user?.id) return
+    return startClientActionProcessor((result) => {
+      window.electronAPI?.showNotification(
+        'Respuestas de clientes',
+        `${result.applied.length} cita(s) actualizada(s)${result.failed.length ? `, ${result.failed.length} sin aplicar (${result.failed[0].error})` : ''}`
+      )
+    })
+  }, [user?.id])
 
   // Retry all data fetches when user clicks retry
   const handleRetryData = () => {
@@ -68,6 +114,7 @@ export default function Layout({ children }: LayoutProps) {
           {children}
         </main>
       </div>
+      <WaitlistOfferModal />
     </div>
   )
 }
@@ -0,0 +1,116 @@
+// Notification center for the header - bell with unread count and the signed-in user's feed
+import { useState, useRef, useEffect } from 'react'
+import { useNavigate } from 'react-router-dom'
+import { Bell, CalendarClock, Syringe, Package, Globe, CloudOff, MailWarning, CheckCheck } from 'lucide-react'
+import { useNotificationStore, selectUnreadCount } from '../../stores/notificationStore'
+import type { StaffNotification, StaffNotificationKind } from '../../db/types'
+
+const KIND_ICONS: Record<StaffNotificationKind, { icon: typeof Bell; className: string }> = {
+  appointment_soon: { icon: CalendarClock, className: 'text-teal-600 bg-teal-50' },
+  vaccine_due: { icon: Syringe, className: 'text-blue-600 bg-blue-50' },
+  low_stock: { icon: Package, className: 'text-amber-600 bg-amber-50' },
+  online_booking: { icon: Globe, className: 'text-purple-600 bg-purple-50' },
+  sync_failed: { icon: CloudOff, className: 'text-red-600 bg-red-50' },
+  email_failed: { icon: MailWarning, className: 'text-red-600 bg-red-50' }
+}
+
+const timeAgo = (iso: string): string => {
+  const minutes = Math.floor((Date.now() - new Date(iso).getTime()) / 60000)
+  if (minutes < 1) return 'ahora'
+  if (minutes < 60) return `hace ${minutes} min`
+  const hours = Math.floor(minutes / 60)
+  if (hours < 24) return `hace ${hours} h`
+  return new Date(iso).toLocaleDateString()
+}
+
+export default function NotificationCenter() {
+  const navigate = useNavigate()
+  const { notifications, markRead, markAllRead } = useNotificationStore()
+  const unreadCount = useNotificationStore(selectUnreadCount)
+  const [isOpen, setIsOpen] = useState(false)
+  const containerRef = useRef<HTMLDivElement>(null)
+
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(event.target as Node)) {
+        setIsOpen(false)
+      }
+    }
+
+    document.addEventListener('mousedown', handleClickOutside)
+    return () => document.removeEventListener('mousedown', handleClickOutside)
+  }, [])
+
+  const handleOpen = (notification: StaffNotification) => {
+    if (!notification.readAt) markRead(notification.id)
+    if (notification.link) {
+      setIsOpen(false)
+      navigate(notification.link)
+    }
+  }
+
+  return (
+    <div className="relative" ref={containerRef}>
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="relative p-2 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700 text-gray-600 dark:text-gray-300"
+        title="Notificaciones"
+      >
+        <Bell className="w-5 h-5" />
+        {unreadCount > 0 && (
+          <span className="absolute -top-0.5 -right-0.5 min-w-[1.125rem] h-[1.125rem] px-1 bg-red-500 text-white text-[10px] font-semibold rounded-full flex items-center justify-center">
+            {unreadCount > 99 ? '99+' : unreadCount}
+          </span>
+        )}
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 mt-2 w-96 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg shadow-lg z-50">
+          <div className="flex items-center justify-between px-4 py-3 border-b border-gray-200 dark:border-gray-700">
+            <p className="font-medium text-gray-800 dark:text-gray-100">Notificaciones</p>
+            {unreadCount > 0 && (
+              <button
+                onClick={() => markAllRead()}
+                className="flex items-center gap-1 text-sm text-teal-600 hover:text-teal-700"
+              >
+                <CheckCheck className="w-4 h-4" /> Marcar todo como leído
+              </button>
+            )}
+          </div>
+          {notifications.length === 0 ? (
+            <p className="px-4 py-8 text-sm text-center text-gray-500 dark:text-gray-400">No hay notificaciones</p>
+          ) : (
+            <div className="max-h-96 overflow-y-auto divide-y divide-gray-100 dark:divide-gray-700">
+              {notifications.map(notification => {
+                const { icon: Icon, className } = KIND_ICONS[notification.kind] ?? KIND_ICONS.appointment_soon
+                return (
+                  <button
+                    key={notification.id}
+                    onClick={() => handleOpen(notification)}
+                    className={`w-full flex items-start gap-3 px-4 py-3 text-left hover:bg-gray-50 dark:hover:bg-gray-700 ${
+                      notification.readAt ? '' : 'bg-teal-50/40 dark:bg-teal-900/10'
+                    }`}
+                  >
+                    <span className={`p-1.5 rounded-lg shrink-0 ${className}`}>
+                      <Icon className="w-4 h-4" />
+                    </span>
+                    <div className="min-w-0 flex-1">
+                      <p className={`text-sm text-gray-800 dark:text-gray-100 ${notification.readAt ? '' : 'font-semibold'}`}>
+                        {notification.title}
+                      </p>
+                      {notification.body && (
+                        <p className="text-sm text-gray-500 dark:text-gray-400 break-words">{notification.body}</p>
+                      )}
+                      <p className="text-xs text-gray-400 mt-0.5">{timeAgo(notification.createdAt)}</p>
+                    </div>
+                    {!notification.readAt && <span className="w-2 h-2 mt-1.5 bg-teal-500 rounded-full shrink-0" />}
+                  </button>
+                )
+              })}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
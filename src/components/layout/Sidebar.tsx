@@ -8,7 +8,10 @@ import {
   CalendarDays,
   Menu,
   Package,
-  BarChart3
+  BarChart3,
+  Receipt,
+  Hourglass,
+  Syringe
 } from 'lucide-react'
 import { useUIStore } from '../../stores/uiStore'
 
@@ -16,9 +19,12 @@ const navItems = [
   { path: '/dashboard', label: 'Dashboard', icon: LayoutDashboard },
   { path: '/appointments', label: 'Appointments', icon: CalendarDays },
   { path: '/calendar', label: 'Calendar', icon: Calendar },
+  { path: '/waitlist', label: 'Lista de espera', icon: Hourglass },
   { path: '/clients', label: 'Clients', icon: Users },
   { path: '/pets', label: 'Pets', icon: PawPrint },
+  { path: '/recalls', label: 'Vacunas', icon: Syringe },
   { path: '/inventory', label: 'Inventory', icon: Package },
+  { path: '/invoices', label: 'Facturas', icon: Receipt },
   { path: '/reports', label: 'Reportes', icon: BarChart3 },
   { path: '/settings', label: 'Settings', icon: Settings },
 ]
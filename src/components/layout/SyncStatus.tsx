@@ -0,0 +1,121 @@
+// Sync status indicator for the header - offline badge, pending changes and conflict resolution
+import { useState } from 'react'
+import { CloudOff, UploadCloud, AlertTriangle } from 'lucide-react'
+import { Modal } from '../ui/Modal'
+import { Button } from '../ui/Button'
+import { useSyncStore } from '../../stores/syncStore'
+
+const TABLE_LABELS: Record<string, string> = {
+  clients: 'Cliente',
+  pets: 'Mascota',
+  appointments: 'Cita',
+  inventory: 'Inventario',
+  medical_records: 'Historial médico',
+  vaccines: 'Vacuna',
+  sale_items: 'Venta',
+  inventory_movements: 'Movimiento de stock'
+}
+
+export default function SyncStatus() {
+  const { isOnline, isSyncing, pendingCount, conflicts, syncNow, resolveConflict } = useSyncStore()
+  const [showConflicts, setShowConflicts] = useState(false)
+
+  if (isOnline && pendingCount === 0 && conflicts.length === 0) return null
+
+  return (
+    <>
+      {conflicts.length > 0 ? (
+        <button
+          onClick={() => setShowConflicts(true)}
+          className="flex items-center gap-2 px-3 py-1.5 rounded-lg bg-amber-50 text-amber-700 text-sm font-medium hover:bg-amber-100"
+          title="Cambios sin sincronizar que requieren revisión"
+        >
+          <AlertTriangle className="w-4 h-4" />
+          {conflicts.length} conflicto{conflicts.length === 1 ? '' : 's'}
+        </button>
+      ) : !isOnline ? (
+        <span
+          className="flex items-center gap-2 px-3 py-1.5 rounded-lg bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-300 text-sm"
+          title="Sin conexión - los cambios se guardan localmente"
+        >
+          <CloudOff className="w-4 h-4" />
+          Sin conexión{pendingCount > 0 ? ` · ${pendingCount} pendiente${pendingCount === 1 ? '' : 's'}` : ''}
+        </span>
+      ) : (
+        <button
+          onClick={() => syncNow()}
+          disabled={isSyncing}
+          className="flex items-center gap-2 px-3 py-1.5 rounded-lg bg-teal-50 text-teal-700 text-sm hover:bg-teal-100 disabled:opacity-60"
+          title="Sincronizar ahora"
+        >
+          <UploadCloud className={`w-4 h-4 ${isSyncing ? 'animate-pulse' : ''}`} />
+          {pendingCount} pendiente{pendingCount === 1 ? '' : 's'}
+        </button>
+      )}
+
+      <Modal
+        isOpen={showConflicts}
+        onClose={() => setShowConflicts(false)}
+        title="Conflictos de sincronización"
+        size="lg"
+      >
+        <p className="text-sm text-gray-600 mb-4">
+          Estos cambios se hicieron sin conexión, pero el registro también cambió en el servidor
+          (o el servidor los rechazó). Elige qué versión conservar.
+        </p>
+        {conflicts.length === 0 ? (
+          <p className="text-sm text-gray-500">No hay conflictos pendientes.</p>
+        ) : (
+          <div className="space-y-3">
+            {conflicts.map((m) => (
+              <div key={m.seq} className="p-3 border border-gray-200 rounded-lg">
+                <div className="flex items-center justify-between gap-4">
+                  <div>
+                    <p className="font-medium text-gray-800">
+                      {TABLE_LABELS[m.table] ?? m.table} #{m.recordId > 0 ? m.recordId : 'nuevo'}
+                      <span className="ml-2 text-xs text-gray-500">
+                        {m.op === 'insert' ? 'creación' : m.op === 'update' ? 'edición' : m.op === 'rpc' ? 'movimiento de stock' : 'eliminación'} ·{' '}
+                        {new Date(m.createdAt).toLocaleString()}
+                      </span>
+                    </p>
+                    {m.status === 'failed' ? (
+                      <p className="text-xs text-red-600 mt-1">Error: {m.error}</p>
+                    ) : m.remoteRow === null ? (
+                      <p className="text-xs text-amber-700 mt-1">El registro fue eliminado en el servidor.</p>
+                    ) : (
+                      <p className="text-xs text-amber-700 mt-1">
+                        Modificado en el servidor: {m.remoteRow?.updated_at ? new Date(String(m.remoteRow.updated_at)).toLocaleString() : '-'}
+                      </p>
+                    )}
+                  </div>
+                  <div className="flex gap-2 shrink-0">
+                    <Button size="sm" variant="secondary" onClick={() => resolveConflict(m.seq!, 'server')}>
+                      Usar servidor
+                    </Button>
+                    <Button size="sm" onClick={() => resolveConflict(m.seq!, 'local')}>
+                      Mantener mío
+                    </Button>
+                  </div>
+                </div>
+                {m.op !== 'delete' && (
+                  <div className="mt-2 text-xs text-gray-600 grid grid-cols-2 gap-x-4 gap-y-1">
+                    {Object.entries(m.payload)
+                      .filter(([key]) => key !== 'user_id' && key !== 'updated_at' && key !== 'created_at')
+                      .map(([key, value]) => (
+                        <div key={key} className="truncate">
+                          <span className="text-gray-400">{key}:</span> {String(value ?? '')}
+                          {m.remoteRow && m.remoteRow[key] !== undefined && m.remoteRow[key] !== value && (
+                            <span className="text-amber-700"> (servidor: {String(m.remoteRow[key] ?? '')})</span>
+                          )}
+                        </div>
+                      ))}
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </Modal>
+    </>
+  )
+}
@@ -5,6 +5,7 @@ import { Card } from '../ui/Card'
 import { Input } from '../ui/Input'
 import { Select } from '../ui/Select'
 import { Button } from '../ui/Button'
+import PetAlertBadges from '../medical/PetAlertBadges'
 
 export interface PetListProps {
   pets: Pet[]
@@ -254,6 +255,7 @@ export const PetList: React.FC<PetListProps> = ({
                         </span>
                       )}
                     </div>
+                    <PetAlertBadges alerts={pet.alerts} className="mt-2" />
                     {owner && (
                       <p className="text-xs text-gray-400 mt-2">
                         Owner: {owner.firstName} {owner.lastName}
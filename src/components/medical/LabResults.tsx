@@ -0,0 +1,363 @@
+// Lab results section - panels of an appointment (with the form to enter one from the lab report)
+// or all of a pet's, with out-of-range flags, a link to the source attachment and trends across visits
+
+import { useState, useEffect } from 'react'
+import { FlaskConical, ExternalLink, Trash2, Plus, TrendingUp } from 'lucide-react'
+import { useLabResultStore } from '../../stores/labResultStore'
+import {
+  LAB_PANEL_LABELS,
+  LAB_FLAG_LABELS,
+  analyteCode,
+  formatReferenceRange,
+  isOutOfRange,
+  labFlag,
+  panelTemplate
+} from '../../services/labResults'
+import LabTrendsChart from './LabTrendsChart'
+import { toDateString } from '../../services/dates'
+import type { Appointment, AppointmentAttachment, LabPanel, LabValue, Pet } from '../../db/types'
+
+interface LabResultsProps {
+  pet: Pet
+  appointment?: Appointment // results of this appointment; otherwise all of the pet's, with trends
+  attachments?: AppointmentAttachment[] // of the appointment, to link the lab report
+  canEdit: boolean
+}
+
+// Form row - numbers kept as typed until the result is saved
+interface ValueRow {
+  code: string
+  name: string
+  unit: string
+  value: string
+  refMin: string
+  refMax: string
+}
+
+const PANELS = Object.keys(LAB_PANEL_LABELS) as LabPanel[]
+
+const emptyRow: ValueRow = { code: '', name: '', unit: '', value: '', refMin: '', refMax: '' }
+
+const rowsForPanel = (panel: LabPanel, species: Pet['species']): ValueRow[] => {
+  const template = panelTemplate(panel, species)
+  if (template.length === 0) return [{ ...emptyRow }]
+  return template.map(v => ({
+    code: v.code,
+    name: v.name,
+    unit: v.unit,
+    value: '',
+    refMin: v.refMin?.toString() ?? '',
+    refMax: v.refMax?.toString() ?? ''
+  }))
+}
+
+// Lab reports often use a decimal comma
+const parseNumber = (text: string): number | undefined => {
+  if (!text.trim()) return undefined
+  const n = Number(text.trim().replace(',', '.'))
+  return Number.isFinite(n) ? n : NaN
+}
+
+const flagStyles = (value: LabValue) =>
+  isOutOfRange(value) ? 'bg-red-100 text-red-700' : 'bg-green-100 text-green-700'
+
+export default function LabResults({ pet, appointment, attachments = [], canEdit }: LabResultsProps) {
+  const { results, error, fetchResults, addResult, deleteResult } = useLabResultStore()
+  const [showForm, setShowForm] = useState(false)
+  const [panel, setPanel] = useState<LabPanel>('cbc')
+  const [rows, setRows] = useState<ValueRow[]>(() => rowsForPanel('cbc', pet.species))
+  const [collectedAt, setCollectedAt] = useState('')
+  const [attachmentId, setAttachmentId] = useState(0)
+  const [notes, setNotes] = useState('')
+  const [formError, setFormError] = useState('')
+  const [busy, setBusy] = useState(false)
+
+  useEffect(() => {
+    if (appointment?.id) fetchResults({ appointmentId: appointment.id })
+    else if (pet.id) fetchResults({ petId: pet.id })
+  }, [appointment?.id, pet.id, fetchResults])
+
+  const openForm = () => {
+    setPanel('cbc')
+    setRows(rowsForPanel('cbc', pet.species))
+    setCollectedAt(appointment?.date ?? toDateString(new Date()))
+    setAttachmentId(0)
+    setNotes('')
+    setFormError('')
+    setShowForm(true)
+  }
+
+  const changePanel = (next: LabPanel) => {
+    setPanel(next)
+    setRows(rowsForPanel(next, pet.species))
+  }
+
+  const updateRow = (idx: number, changes: Partial<ValueRow>) =>
+    setRows(prev => prev.map((r, i) => (i === idx ? { ...r, ...changes } : r)))
+
+  const handleSubmit = async () => {
+    setFormError('')
+    if (!appointment?.id) return
+    const values: LabValue[] = []
+    for (const row of rows) {
+      const value = parseNumber(row.value)
+      if (value === undefined) continue
+      const refMin = parseNumber(row.refMin)
+      const refMax = parseNumber(row.refMax)
+      if (!row.name.trim()) {
+        setFormError('Each analyte needs a name')
+        return
+      }
+      if ([value, refMin, refMax].some(n => Number.isNaN(n))) {
+        setFormError(`${row.name}: the value and the reference range must be numbers`)
+        return
+      }
+      if (refMin !== undefined && refMax !== undefined && refMin > refMax) {
+        setFormError(`${row.name}: the reference minimum is above the maximum`)
+        return
+      }
+      values.push({
+        code: row.code || analyteCode(row.name),
+        name: row.name.trim(),
+        value,
+        unit: row.unit.trim(),
+        refMin,
+        refMax
+      })
+    }
+    if (values.length === 0) {
+      setFormError('Enter at least one value')
+      return
+    }
+    setBusy(true)
+    try {
+      await addResult({
+        appointmentId: appointment.id,
+        petId: pet.id!,
+        panel,
+        attachmentId: attachmentId || undefined,
+        collectedAt,
+        values,
+        notes: notes.trim() || undefined
+      })
+      setShowForm(false)
+    } catch {
+      // error shown from the store
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const handleDelete = async (id: number) => {
+    if (!confirm('Delete this lab result?')) return
+    await deleteResult(id)
+  }
+
+  return (
+    <div className="border-t pt-4">
+      <h4 className="font-medium text-gray-800 mb-3 flex items-center gap-2">
+        <FlaskConical className="w-4 h-4" /> Laboratorio
+      </h4>
+
+      {error && <div className="p-3 mb-2 bg-red-50 text-red-700 rounded-lg text-sm">{error}</div>}
+
+      {results.length === 0 && !showForm && (
+        <p className="text-sm text-gray-500 mb-2">No lab results</p>
+      )}
+
+      <div className="space-y-2 max-h-72 overflow-y-auto">
+        {results.map(result => {
+          const outOfRange = result.values.filter(isOutOfRange).length
+          return (
+            <div key={result.id} className="p-3 bg-gray-50 rounded-lg text-sm space-y-2">
+              <div className="flex items-start justify-between gap-2">
+                <div>
+                  <p className="font-medium text-gray-800">{LAB_PANEL_LABELS[result.panel]}</p>
+                  <p className="text-xs text-gray-500">
+                    {result.collectedAt}
+                    {outOfRange > 0 && <span className="text-red-600"> · {outOfRange} fuera de rango</span>}
+                  </p>
+                </div>
+                <div className="flex items-center gap-1">
+                  {result.attachment && (
+                    <a
+                      href={result.attachment.fileUrl}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      title={result.attachment.fileName}
+                      className="flex items-center gap-1 px-2 py-1 text-xs text-teal-600 hover:bg-teal-50 rounded"
+                    >
+                      Informe <ExternalLink className="w-3 h-3" />
+                    </a>
+                  )}
+                  {canEdit && (
+                    <button
+                      type="button"
+                      onClick={() => handleDelete(result.id)}
+                      className="p-1 text-red-600 hover:bg-red-50 rounded"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  )}
+                </div>
+              </div>
+              <table className="w-full text-xs">
+                <tbody>
+                  {result.values.map((v, idx) => {
+                    const flag = labFlag(v)
+                    return (
+                      <tr key={idx} className="border-t border-gray-100">
+                        <td className="py-1 pr-2 text-gray-600">{v.name}</td>
+                        <td className={`py-1 pr-2 font-medium ${isOutOfRange(v) ? 'text-red-700' : 'text-gray-800'}`}>
+                          {v.value}{v.unit ? ` ${v.unit}` : ''}
+                        </td>
+                        <td className="py-1 pr-2 text-gray-400">{formatReferenceRange(v)}</td>
+                        <td className="py-1 text-right">
+                          {flag && (
+                            <span className={`px-1.5 py-0.5 rounded ${flagStyles(v)}`}>{LAB_FLAG_LABELS[flag]}</span>
+                          )}
+                        </td>
+                      </tr>
+                    )
+                  })}
+                </tbody>
+              </table>
+              {result.notes && <p className="text-xs text-gray-600">{result.notes}</p>}
+            </div>
+          )
+        })}
+      </div>
+
+      {/* Trends across visits (pet history) */}
+      {!appointment && results.length > 0 && (
+        <div className="mt-3">
+          <p className="text-sm font-medium text-gray-700 mb-2 flex items-center gap-2">
+            <TrendingUp className="w-4 h-4" /> Tendencias
+          </p>
+          <LabTrendsChart results={results} />
+        </div>
+      )}
+
+      {canEdit && appointment?.id && (showForm ? (
+        <div className="mt-3 p-3 border border-gray-200 rounded-lg space-y-2">
+          {formError && <div className="p-3 bg-red-50 text-red-700 rounded-lg text-sm">{formError}</div>}
+          <div className="grid grid-cols-2 gap-2">
+            <select
+              value={panel}
+              onChange={(e) => changePanel(e.target.value as LabPanel)}
+              className="px-3 py-2 border rounded text-sm"
+            >
+              {PANELS.map(p => (
+                <option key={p} value={p}>{LAB_PANEL_LABELS[p]}</option>
+              ))}
+            </select>
+            <input
+              type="date"
+              value={collectedAt}
+              onChange={(e) => setCollectedAt(e.target.value)}
+              className="px-3 py-2 border rounded text-sm"
+            />
+          </div>
+          <select
+            value={attachmentId}
+            onChange={(e) => setAttachmentId(parseInt(e.target.value) || 0)}
+            className="w-full px-3 py-2 border rounded text-sm"
+          >
+            <option value={0}>{attachments.length > 0 ? 'Informe del laboratorio (adjunto)...' : 'Sin adjuntos - sube el PDF en Adjuntos'}</option>
+            {attachments.map(att => (
+              <option key={att.id} value={att.id}>{att.fileName}</option>
+            ))}
+          </select>
+          <div className="space-y-1">
+            <div className="grid grid-cols-12 gap-1 text-xs text-gray-500">
+              <span className="col-span-4">Analito</span>
+              <span className="col-span-2">Valor</span>
+              <span className="col-span-2">Unidad</span>
+              <span className="col-span-4">Rango de referencia</span>
+            </div>
+            {rows.map((row, idx) => (
+              <div key={idx} className="grid grid-cols-12 gap-1">
+                <input
+                  type="text"
+                  value={row.name}
+                  onChange={(e) => updateRow(idx, { name: e.target.value })}
+                  readOnly={!!row.code}
+                  placeholder="Nombre"
+                  className={`col-span-4 px-2 py-1 border rounded text-xs ${row.code ? 'bg-gray-50' : ''}`}
+                />
+                <input
+                  type="text"
+                  inputMode="decimal"
+                  value={row.value}
+                  onChange={(e) => updateRow(idx, { value: e.target.value })}
+                  className="col-span-2 px-2 py-1 border rounded text-xs"
+                />
+                <input
+                  type="text"
+                  value={row.unit}
+                  onChange={(e) => updateRow(idx, { unit: e.target.value })}
+                  className="col-span-2 px-2 py-1 border rounded text-xs"
+                />
+                <input
+                  type="text"
+                  inputMode="decimal"
+                  value={row.refMin}
+                  onChange={(e) => updateRow(idx, { refMin: e.target.value })}
+                  placeholder="Mín"
+                  className="col-span-2 px-2 py-1 border rounded text-xs"
+                />
+                <input
+                  type="text"
+                  inputMode="decimal"
+                  value={row.refMax}
+                  onChange={(e) => updateRow(idx, { refMax: e.target.value })}
+                  placeholder="Máx"
+                  className="col-span-2 px-2 py-1 border rounded text-xs"
+                />
+              </div>
+            ))}
+            <button
+              type="button"
+              onClick={() => setRows(prev => [...prev, { ...emptyRow }])}
+              className="flex items-center gap-1 text-teal-600 hover:text-teal-700 text-xs font-medium"
+            >
+              <Plus className="w-3 h-3" /> Añadir analito
+            </button>
+          </div>
+          <textarea
+            placeholder="Observaciones"
+            value={notes}
+            onChange={(e) => setNotes(e.target.value)}
+            rows={2}
+            className="w-full px-3 py-2 border rounded text-sm"
+          />
+          <div className="flex gap-2">
+            <button
+              type="button"
+              onClick={handleSubmit}
+              disabled={busy}
+              className="px-3 py-1.5 bg-teal-600 text-white rounded text-sm hover:bg-teal-700 disabled:opacity-50"
+            >
+              {busy ? 'Saving...' : 'Save'}
+            </button>
+            <button
+              type="button"
+              onClick={() => { setShowForm(false); setFormError('') }}
+              className="px-3 py-1.5 border rounded text-sm"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      ) : (
+        <button
+          type="button"
+          onClick={openForm}
+          className="mt-2 flex items-center gap-1 text-teal-600 hover:text-teal-700 text-sm font-medium"
+        >
+          <Plus className="w-4 h-4" /> Add lab result
+        </button>
+      ))}
+    </div>
+  )
+}
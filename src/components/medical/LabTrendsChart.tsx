@@ -0,0 +1,59 @@
+// Lab trends chart - an analyte of a pet across visits, with its reference range shaded
+
+import { useMemo, useState } from 'react'
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ReferenceArea, ResponsiveContainer } from 'recharts'
+import { LAB_FLAG_LABELS, labTrends } from '../../services/labResults'
+import type { LabResult } from '../../db/types'
+
+interface LabTrendsChartProps {
+  results: LabResult[]
+}
+
+export default function LabTrendsChart({ results }: LabTrendsChartProps) {
+  const trends = useMemo(() => labTrends(results), [results])
+  const [selected, setSelected] = useState('')
+  const trend = trends.find(t => t.code === selected) ?? trends[0]
+
+  if (!trend) return <p className="text-sm text-gray-500">Trends appear once an analyte is measured at two visits</p>
+
+  // The latest range is the one the lab reports today
+  const latest = trend.points[trend.points.length - 1]
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap gap-1">
+        {trends.map(t => (
+          <button
+            key={t.code}
+            type="button"
+            onClick={() => setSelected(t.code)}
+            className={`px-2 py-1 rounded-lg text-xs ${
+              t.code === trend.code ? 'bg-teal-100 text-teal-700' : 'text-gray-600 hover:bg-gray-100'
+            }`}
+          >
+            {t.name}
+          </button>
+        ))}
+      </div>
+      <div className="h-48 w-full">
+        <ResponsiveContainer width="100%" height="100%" minWidth={0} minHeight={160}>
+          <LineChart data={trend.points}>
+            <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
+            <XAxis dataKey="date" stroke="#6b7280" fontSize={11} />
+            <YAxis stroke="#6b7280" fontSize={11} domain={['auto', 'auto']} width={40} />
+            {(latest.refMin !== undefined || latest.refMax !== undefined) && (
+              <ReferenceArea y1={latest.refMin} y2={latest.refMax} fill="#14b8a6" fillOpacity={0.08} />
+            )}
+            <Tooltip
+              formatter={(value: number, _name, item) => {
+                const flag = (item.payload as { flag?: keyof typeof LAB_FLAG_LABELS }).flag
+                return [`${value}${trend.unit ? ` ${trend.unit}` : ''}${flag ? ` (${LAB_FLAG_LABELS[flag]})` : ''}`, trend.name]
+              }}
+            />
+            <Line type="monotone" dataKey="value" stroke="#0d9488" strokeWidth={2} dot={{ r: 3 }} />
+          </LineChart>
+        </ResponsiveContainer>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,51 @@
+// Patient alert badges - drug allergies, aggressive behaviour, chronic conditions and DNR of a pet
+
+import { Pill, ShieldAlert, HeartPulse, Ban, Info } from 'lucide-react'
+import { ALERT_KIND_LABELS, ALERT_SEVERITY_STYLES, describeAlert, sortAlerts } from '../../services/petAlerts'
+import type { PetAlert, PetAlertKind } from '../../db/types'
+
+const KIND_ICONS: Record<PetAlertKind, typeof Pill> = {
+  drug_allergy: Pill,
+  aggressive: ShieldAlert,
+  chronic_condition: HeartPulse,
+  dnr: Ban,
+  other: Info
+}
+
+interface PetAlertBadgesProps {
+  alerts?: PetAlert[]
+  compact?: boolean // icons only (calendar events, tight rows); the text is in the tooltip
+  className?: string
+}
+
+export default function PetAlertBadges({ alerts, compact = false, className = '' }: PetAlertBadgesProps) {
+  const sorted = sortAlerts(alerts)
+  if (sorted.length === 0) return null
+
+  return (
+    <div className={`flex flex-wrap gap-1 ${className}`}>
+      {sorted.map((alert, idx) => {
+        const Icon = KIND_ICONS[alert.kind]
+        const title = alert.notes ? `${describeAlert(alert)} - ${alert.notes}` : describeAlert(alert)
+        return compact ? (
+          <span
+            key={idx}
+            title={title}
+            className={`inline-flex items-center justify-center w-5 h-5 rounded-full border ${ALERT_SEVERITY_STYLES[alert.severity]}`}
+          >
+            <Icon className="w-3 h-3" />
+          </span>
+        ) : (
+          <span
+            key={idx}
+            title={alert.notes || ALERT_KIND_LABELS[alert.kind]}
+            className={`inline-flex items-center gap-1 px-2 py-0.5 rounded-full border text-xs font-medium ${ALERT_SEVERITY_STYLES[alert.severity]}`}
+          >
+            <Icon className="w-3 h-3" />
+            {describeAlert(alert)}
+          </span>
+        )
+      })}
+    </div>
+  )
+}
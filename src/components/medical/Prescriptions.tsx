@@ -0,0 +1,356 @@
+// Prescriptions section - prescriptions of an appointment (with the form to add one) or of a pet,
+// printable label / owner handout, and the refill request -> dispense flow
+
+import { useState, useEffect } from 'react'
+import { ClipboardList, Tag, Printer, RefreshCw, Check, X, Plus } from 'lucide-react'
+import { usePrescriptionStore } from '../../stores/prescriptionStore'
+import { useInventoryStore } from '../../stores/inventoryStore'
+import { getInvoiceSettings, printInvoice } from '../../services/invoices'
+import { blockingAlerts, blockedSaleMessage } from '../../services/petAlerts'
+import {
+  ROUTE_LABELS,
+  FREQUENCY_PRESETS,
+  describeDirections,
+  renderPrescriptionLabelHtml,
+  renderPrescriptionHandoutHtml
+} from '../../services/prescriptions'
+import type { Appointment, Client, Pet, Prescription, PrescriptionRoute } from '../../db/types'
+
+interface PrescriptionsProps {
+  pet: Pet
+  client?: Client | null
+  appointment?: Appointment // prescriptions of this appointment; otherwise all of the pet's
+  canEdit: boolean
+}
+
+const emptyForm = {
+  inventoryId: 0,
+  dose: '',
+  route: 'oral' as PrescriptionRoute,
+  frequency: '',
+  durationDays: '',
+  quantity: 1,
+  refillsAllowed: 0,
+  instructions: '',
+  dispense: true
+}
+
+export default function Prescriptions({ pet, client, appointment, canEdit }: PrescriptionsProps) {
+  const {
+    prescriptions,
+    refills,
+    error,
+    fetchPrescriptions,
+    addPrescription,
+    cancelPrescription,
+    requestRefill,
+    dispenseRefill,
+    rejectRefill
+  } = usePrescriptionStore()
+  const { items } = useInventoryStore()
+  const [showForm, setShowForm] = useState(false)
+  const [form, setForm] = useState(emptyForm)
+  const [formError, setFormError] = useState('')
+  const [busy, setBusy] = useState(false)
+
+  const medications = items.filter(i => i.type === 'medication')
+
+  useEffect(() => {
+    if (appointment?.id) fetchPrescriptions({ appointmentId: appointment.id })
+    else if (pet.id) fetchPrescriptions({ petId: pet.id })
+  }, [appointment?.id, pet.id, fetchPrescriptions])
+
+  const handleSubmit = async () => {
+    setFormError('')
+    if (!appointment?.id) return
+    if (!form.inventoryId || !form.dose.trim() || !form.frequency.trim()) {
+      setFormError('Medication, dose and frequency are required')
+      return
+    }
+    if (form.quantity < 1 || form.refillsAllowed < 0) {
+      setFormError('Quantity must be at least 1 and refills cannot be negative')
+      return
+    }
+    const item = medications.find(m => m.id === form.inventoryId)
+    const alerts = item ? blockingAlerts(pet, item) : []
+    if (item && alerts.length > 0) {
+      setFormError(blockedSaleMessage(item, alerts))
+      return
+    }
+    setBusy(true)
+    try {
+      await addPrescription({
+        appointmentId: appointment.id,
+        petId: pet.id!,
+        inventoryId: form.inventoryId,
+        dose: form.dose.trim(),
+        route: form.route,
+        frequency: form.frequency.trim(),
+        durationDays: parseInt(form.durationDays) || undefined,
+        quantity: form.quantity,
+        refillsAllowed: form.refillsAllowed,
+        instructions: form.instructions.trim(),
+        prescribedBy: appointment.veterinarian
+      }, form.dispense)
+      setForm(emptyForm)
+      setShowForm(false)
+    } catch {
+      // error shown from the store
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const handlePrint = async (prescription: Prescription, kind: 'label' | 'handout') => {
+    try {
+      const settings = await getInvoiceSettings()
+      const doc = { prescription, item: items.find(i => i.id === prescription.inventoryId), pet, client, settings }
+      const html = kind === 'label' ? renderPrescriptionLabelHtml(doc) : renderPrescriptionHandoutHtml(doc)
+      await printInvoice(html, `${kind === 'label' ? 'etiqueta' : 'receta'}-${pet.name}-${prescription.id}.pdf`)
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Error al imprimir')
+    }
+  }
+
+  const run = async (action: () => Promise<void>) => {
+    setBusy(true)
+    await action()
+    setBusy(false)
+  }
+
+  // prompt() returns null when cancelled, which aborts the action
+  const withNote = (message: string, action: (notes?: string) => Promise<void>) => {
+    const notes = prompt(message)
+    if (notes !== null) run(() => action(notes.trim() || undefined))
+  }
+
+  const getItemName = (inventoryId: number) => items.find(i => i.id === inventoryId)?.name ?? `Item #${inventoryId}`
+
+  return (
+    <div className="border-t pt-4">
+      <h4 className="font-medium text-gray-800 mb-3 flex items-center gap-2">
+        <ClipboardList className="w-4 h-4" /> Recetas
+      </h4>
+
+      {error && <div className="p-3 mb-2 bg-red-50 text-red-700 rounded-lg text-sm">{error}</div>}
+
+      {prescriptions.length === 0 && !showForm && (
+        <p className="text-sm text-gray-500 mb-2">No prescriptions</p>
+      )}
+
+      <div className="space-y-2">
+        {prescriptions.map(prescription => {
+          const pending = refills.filter(r => r.prescriptionId === prescription.id && r.status === 'requested')
+          const active = prescription.status === 'active'
+          return (
+            <div key={prescription.id} className="p-3 bg-gray-50 rounded-lg text-sm space-y-1">
+              <div className="flex items-start justify-between gap-2">
+                <div>
+                  <p className={`font-medium ${active ? 'text-gray-800' : 'text-gray-400 line-through'}`}>
+                    {getItemName(prescription.inventoryId)} x {prescription.quantity}
+                  </p>
+                  <p className="text-gray-600">{describeDirections(prescription)}</p>
+                  {prescription.instructions && <p className="text-gray-500">{prescription.instructions}</p>}
+                  <p className="text-xs text-gray-500">
+                    {prescription.createdAt.split('T')[0]}
+                    {prescription.prescribedBy && ` • ${prescription.prescribedBy}`}
+                    {` • Reposiciones: ${prescription.refillsRemaining}/${prescription.refillsAllowed}`}
+                    {prescription.status === 'cancelled' && ' • Anulada'}
+                  </p>
+                </div>
+                <div className="flex shrink-0 gap-1">
+                  <button
+                    type="button"
+                    onClick={() => handlePrint(prescription, 'label')}
+                    className="p-1.5 text-gray-600 hover:bg-gray-200 rounded"
+                    title="Imprimir etiqueta"
+                  >
+                    <Tag className="w-4 h-4" />
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => handlePrint(prescription, 'handout')}
+                    className="p-1.5 text-gray-600 hover:bg-gray-200 rounded"
+                    title="Imprimir indicaciones para el propietario"
+                  >
+                    <Printer className="w-4 h-4" />
+                  </button>
+                  {canEdit && active && (
+                    <button
+                      type="button"
+                      onClick={() => confirm('¿Anular esta receta?') && run(() => cancelPrescription(prescription.id))}
+                      disabled={busy}
+                      className="p-1.5 text-red-600 hover:bg-red-50 rounded disabled:opacity-50"
+                      title="Anular receta"
+                    >
+                      <X className="w-4 h-4" />
+                    </button>
+                  )}
+                </div>
+              </div>
+
+              {pending.map(refill => (
+                <div key={refill.id} className="flex items-center justify-between gap-2 p-2 bg-amber-50 rounded">
+                  <span className="text-amber-800">
+                    Reposición solicitada {new Date(refill.requestedAt).toLocaleDateString()}
+                    {refill.notes && ` - ${refill.notes}`}
+                  </span>
+                  {canEdit && (
+                    <div className="flex gap-1">
+                      <button
+                        type="button"
+                        onClick={() => run(() => dispenseRefill(refill.id))}
+                        disabled={busy}
+                        className="flex items-center gap-1 px-2 py-1 text-xs bg-teal-600 text-white rounded hover:bg-teal-700 disabled:opacity-50"
+                        title="Vender en una cita nueva de hoy y descontar del stock"
+                      >
+                        <Check className="w-3 h-3" /> Dispensar
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => withNote('Motivo del rechazo (opcional)', notes => rejectRefill(refill.id, notes))}
+                        disabled={busy}
+                        className="px-2 py-1 text-xs text-gray-600 hover:bg-gray-200 rounded disabled:opacity-50"
+                      >
+                        Rechazar
+                      </button>
+                    </div>
+                  )}
+                </div>
+              ))}
+
+              {canEdit && active && prescription.refillsRemaining > 0 && pending.length === 0 && (
+                <button
+                  type="button"
+                  onClick={() => withNote('Nota de la solicitud (opcional)', notes => requestRefill(prescription.id, notes))}
+                  disabled={busy}
+                  className="flex items-center gap-1 text-xs text-teal-600 hover:text-teal-700 disabled:opacity-50"
+                >
+                  <RefreshCw className="w-3 h-3" /> Solicitar reposición
+                </button>
+              )}
+            </div>
+          )
+        })}
+      </div>
+
+      {canEdit && appointment?.id && (showForm ? (
+        <div className="mt-3 p-3 border border-gray-200 rounded-lg space-y-2">
+          {formError && <div className="p-3 bg-red-50 text-red-700 rounded-lg text-sm">{formError}</div>}
+          <select
+            value={form.inventoryId}
+            onChange={(e) => setForm(f => ({ ...f, inventoryId: parseInt(e.target.value) || 0 }))}
+            className="w-full px-3 py-2 border rounded text-sm"
+          >
+            <option value={0}>Medication...</option>
+            {medications.map(m => {
+              const blocked = blockingAlerts(pet, m).length > 0
+              return (
+                <option key={m.id} value={m.id} disabled={blocked}>
+                  {m.name} ({m.quantity} en stock){blocked ? ' - alergia registrada' : ''}
+                </option>
+              )
+            })}
+          </select>
+          <div className="grid grid-cols-2 gap-2">
+            <input
+              type="text"
+              placeholder="Dosis (ej. 1 comprimido)"
+              value={form.dose}
+              onChange={(e) => setForm(f => ({ ...f, dose: e.target.value }))}
+              className="px-3 py-2 border rounded text-sm"
+            />
+            <select
+              value={form.route}
+              onChange={(e) => setForm(f => ({ ...f, route: e.target.value as PrescriptionRoute }))}
+              className="px-3 py-2 border rounded text-sm"
+            >
+              {(Object.keys(ROUTE_LABELS) as PrescriptionRoute[]).map(route => (
+                <option key={route} value={route}>{ROUTE_LABELS[route]}</option>
+              ))}
+            </select>
+            <input
+              type="text"
+              placeholder="Frecuencia"
+              list="prescription-frequencies"
+              value={form.frequency}
+              onChange={(e) => setForm(f => ({ ...f, frequency: e.target.value }))}
+              className="px-3 py-2 border rounded text-sm"
+            />
+            <datalist id="prescription-frequencies">
+              {FREQUENCY_PRESETS.map(f => <option key={f} value={f} />)}
+            </datalist>
+            <input
+              type="number"
+              min="1"
+              placeholder="Duración (días)"
+              value={form.durationDays}
+              onChange={(e) => setForm(f => ({ ...f, durationDays: e.target.value }))}
+              className="px-3 py-2 border rounded text-sm"
+            />
+            <label className="text-xs text-gray-600">
+              Cantidad por entrega
+              <input
+                type="number"
+                min="1"
+                value={form.quantity}
+                onChange={(e) => setForm(f => ({ ...f, quantity: parseInt(e.target.value) || 1 }))}
+                className="w-full px-3 py-2 border rounded text-sm"
+              />
+            </label>
+            <label className="text-xs text-gray-600">
+              Reposiciones
+              <input
+                type="number"
+                min="0"
+                value={form.refillsAllowed}
+                onChange={(e) => setForm(f => ({ ...f, refillsAllowed: parseInt(e.target.value) || 0 }))}
+                className="w-full px-3 py-2 border rounded text-sm"
+              />
+            </label>
+          </div>
+          <textarea
+            placeholder="Indicaciones para el propietario (con comida, no interrumpir, ...)"
+            value={form.instructions}
+            onChange={(e) => setForm(f => ({ ...f, instructions: e.target.value }))}
+            className="w-full px-3 py-2 border rounded text-sm"
+            rows={2}
+          />
+          <label className="flex items-center gap-2 text-sm text-gray-600">
+            <input
+              type="checkbox"
+              checked={form.dispense}
+              onChange={(e) => setForm(f => ({ ...f, dispense: e.target.checked }))}
+            />
+            Dispensar ahora (vende la cantidad en esta cita y la descuenta del stock)
+          </label>
+          <div className="flex gap-2">
+            <button
+              type="button"
+              onClick={handleSubmit}
+              disabled={busy}
+              className="px-3 py-1.5 bg-teal-600 text-white rounded text-sm hover:bg-teal-700 disabled:opacity-50"
+            >
+              {busy ? 'Saving...' : 'Save'}
+            </button>
+            <button
+              type="button"
+              onClick={() => { setShowForm(false); setFormError('') }}
+              className="px-3 py-1.5 border rounded text-sm"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      ) : (
+        <button
+          type="button"
+          onClick={() => setShowForm(true)}
+          className="mt-2 flex items-center gap-1 text-teal-600 hover:text-teal-700 text-sm font-medium"
+        >
+          <Plus className="w-4 h-4" /> Add prescription
+        </button>
+      ))}
+    </div>
+  )
+}
@@ -0,0 +1,39 @@
+// SOAP note view - vitals and Subjective / Objective / Assessment / Plan of a medical record
+
+import { SOAP_SECTIONS, VITAL_FIELDS, formatVital } from '../../services/vitals'
+import type { MedicalRecord } from '../../db/types'
+
+interface SoapNoteViewProps {
+  record: MedicalRecord
+}
+
+export default function SoapNoteView({ record }: SoapNoteViewProps) {
+  const vitals = VITAL_FIELDS.filter(f => record.vitals[f.key] !== undefined)
+
+  return (
+    <div className="space-y-3 text-sm">
+      {vitals.length > 0 && (
+        <div className="grid grid-cols-2 md:grid-cols-3 gap-2">
+          {vitals.map(field => (
+            <div key={field.key} className="p-2 bg-gray-50 rounded-lg">
+              <p className="text-xs text-gray-500">{field.label}</p>
+              <p className="font-medium text-gray-800">{formatVital(field, record.vitals[field.key]!)}</p>
+            </div>
+          ))}
+        </div>
+      )}
+      {SOAP_SECTIONS.filter(s => record[s.key]).map(section => (
+        <div key={section.key}>
+          <p className="text-gray-500">{section.label}</p>
+          <p className="text-gray-800 whitespace-pre-line">{record[section.key]}</p>
+        </div>
+      ))}
+      {record.notes && (
+        <div>
+          <p className="text-gray-500">Notes</p>
+          <p className="text-gray-800 whitespace-pre-line">{record.notes}</p>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,51 @@
+// Vitals chart - weight and other vitals of a pet over time, from its medical records
+
+import { useMemo, useState } from 'react'
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts'
+import { VITAL_FIELDS, formatVital, vitalsHistory } from '../../services/vitals'
+import type { MedicalRecord, Vitals } from '../../db/types'
+
+interface VitalsChartProps {
+  records: MedicalRecord[]
+}
+
+export default function VitalsChart({ records }: VitalsChartProps) {
+  const points = useMemo(() => vitalsHistory(records), [records])
+  const fields = VITAL_FIELDS.filter(f => points.some(p => p[f.key] !== undefined))
+  const [selected, setSelected] = useState<keyof Vitals>('weight')
+  const field = fields.find(f => f.key === selected) ?? fields[0]
+
+  if (!field) return <p className="text-sm text-gray-500">No vitals recorded yet</p>
+
+  const data = points.filter(p => p[field.key] !== undefined)
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap gap-1">
+        {fields.map(f => (
+          <button
+            key={f.key}
+            type="button"
+            onClick={() => setSelected(f.key)}
+            className={`px-2 py-1 rounded-lg text-xs ${
+              f.key === field.key ? 'bg-teal-100 text-teal-700' : 'text-gray-600 hover:bg-gray-100'
+            }`}
+          >
+            {f.label}
+          </button>
+        ))}
+      </div>
+      <div className="h-48 w-full">
+        <ResponsiveContainer width="100%" height="100%" minWidth={0} minHeight={160}>
+          <LineChart data={data}>
+            <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
+            <XAxis dataKey="date" stroke="#6b7280" fontSize={11} />
+            <YAxis stroke="#6b7280" fontSize={11} domain={['auto', 'auto']} width={40} />
+            <Tooltip formatter={(value: number) => [formatVital(field, value), field.label]} />
+            <Line type="monotone" dataKey={field.key} stroke={field.color} strokeWidth={2} dot={{ r: 3 }} />
+          </LineChart>
+        </ResponsiveContainer>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,301 @@
+// Email template settings - clinic details / logo shown in emails and the HTML template editor
+// (per appointment email and language) with placeholder chips and a live preview
+
+import { useState, useEffect, useMemo, useRef } from 'react'
+import { RotateCcw } from 'lucide-react'
+import { getAllSettings, setSetting } from '../../db/supabase'
+import {
+  EMAIL_TEMPLATE_KINDS,
+  EMAIL_LANGUAGES,
+  PLACEHOLDERS,
+  DEFAULT_TEMPLATES,
+  EMAIL_LANGUAGE_KEY,
+  CLINIC_LOGO_KEY,
+  emailTemplateKey,
+  brandingFromSettings,
+  templateFromSettings,
+  appointmentValues,
+  samplePreviewData,
+  renderEmail,
+  type EmailTemplate,
+  type EmailTemplateKind
+} from '../../services/emailTemplates'
+import type { EmailLanguage, Setting } from '../../db/types'
+
+const DETAIL_FIELDS: { key: string; label: string; placeholder: string }[] = [
+  { key: 'clinicName', label: 'Clinic name', placeholder: 'VetSoft Clinic' },
+  { key: 'clinicPhone', label: 'Phone', placeholder: '(55) 1234-5678' },
+  { key: 'clinicAddress', label: 'Address', placeholder: 'Calle, número, ciudad' },
+  { key: 'clinicEmail', label: 'Email', placeholder: 'contacto@clinica.com' },
+  { key: CLINIC_LOGO_KEY, label: 'Logo URL', placeholder: 'https://.../logo.png' }
+]
+
+export default function EmailTemplateSettings() {
+  const [settings, setSettings] = useState<Setting[]>([])
+  const [details, setDetails] = useState<Record<string, string>>({})
+  const [defaultLanguage, setDefaultLanguage] = useState<EmailLanguage>('es')
+  const [kind, setKind] = useState<EmailTemplateKind>('confirmation')
+  const [language, setLanguage] = useState<EmailLanguage>('es')
+  const [template, setTemplate] = useState<EmailTemplate>(DEFAULT_TEMPLATES.es.confirmation)
+  const [previewMode, setPreviewMode] = useState<'html' | 'text'>('html')
+  const [isSaving, setIsSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [saved, setSaved] = useState<string | null>(null)
+  const bodyRef = useRef<HTMLTextAreaElement>(null)
+
+  useEffect(() => {
+    getAllSettings()
+      .then(all => {
+        setSettings(all)
+        const map: Record<string, string> = {}
+        for (const { key } of DETAIL_FIELDS) map[key] = all.find(s => s.key === key)?.value ?? ''
+        setDetails(map)
+        setDefaultLanguage(brandingFromSettings(all).language)
+        setTemplate(templateFromSettings(all, 'confirmation', 'es'))
+      })
+      .catch(err => console.error('Failed to load email settings:', err))
+  }, [])
+
+  // Switching kind or language loads the saved (or default) template
+  useEffect(() => {
+    setTemplate(templateFromSettings(settings, kind, language))
+    setSaved(null)
+  }, [kind, language])
+
+  const preview = useMemo(() => {
+    const base = brandingFromSettings(settings)
+    const branding = {
+      ...base,
+      name: details.clinicName || base.name,
+      phone: details.clinicPhone ?? '',
+      address: details.clinicAddress ?? '',
+      email: details.clinicEmail ?? '',
+      logoUrl: details[CLINIC_LOGO_KEY] ?? ''
+    }
+    const data = samplePreviewData(language)
+    return renderEmail(template, appointmentValues(data, branding, language), branding, language, data.links)
+  }, [template, details, settings, language])
+
+  const insertPlaceholder = (name: string) => {
+    const tag = `{{${name}}}`
+    const el = bodyRef.current
+    if (!el) return
+    const start = el.selectionStart
+    const end = el.selectionEnd
+    setTemplate(prev => ({ ...prev, html: prev.html.slice(0, start) + tag + prev.html.slice(end) }))
+    requestAnimationFrame(() => {
+      el.focus()
+      el.setSelectionRange(start + tag.length, start + tag.length)
+    })
+  }
+
+  const handleSaveDetails = async () => {
+    setError(null)
+    setIsSaving(true)
+    try {
+      for (const { key } of DETAIL_FIELDS) await setSetting(key, (details[key] ?? '').trim())
+      await setSetting(EMAIL_LANGUAGE_KEY, defaultLanguage)
+      setSettings(await getAllSettings())
+      setSaved('details')
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleSaveTemplate = async () => {
+    setError(null)
+    if (!template.subject.trim() || !template.html.trim()) {
+      setError('Subject and body are required')
+      return
+    }
+    setIsSaving(true)
+    try {
+      await setSetting(emailTemplateKey(kind, language), JSON.stringify(template))
+      setSettings(await getAllSettings())
+      setSaved('template')
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  // Saving an empty value makes the sender fall back to the built-in template
+  const handleRestoreDefault = async () => {
+    if (!confirm('¿Restaurar la plantilla predeterminada? Se perderán sus cambios.')) return
+    setError(null)
+    try {
+      await setSetting(emailTemplateKey(kind, language), '')
+      setSettings(await getAllSettings())
+      setTemplate(DEFAULT_TEMPLATES[language][kind])
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to restore')
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      <h2 className="text-lg font-semibold text-gray-800">Email Templates</h2>
+      <p className="text-sm text-gray-500">
+        Appointment emails are sent as HTML (with a plain-text copy) in the client's language, or the clinic default.
+      </p>
+
+      {error && <div className="p-3 bg-red-50 text-red-700 rounded-lg text-sm">{error}</div>}
+
+      <div>
+        <h3 className="font-medium text-gray-800 mb-3">Datos de la clínica</h3>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {DETAIL_FIELDS.map(({ key, label, placeholder }) => (
+            <div key={key} className={key === CLINIC_LOGO_KEY ? 'md:col-span-2' : ''}>
+              <label className="block text-sm font-medium text-gray-700 mb-1">{label}</label>
+              <input
+                type="text"
+                value={details[key] ?? ''}
+                placeholder={placeholder}
+                onChange={(e) => {
+                  setDetails(prev => ({ ...prev, [key]: e.target.value }))
+                  setSaved(null)
+                }}
+                className="w-full px-4 py-2 border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-teal-500"
+              />
+            </div>
+          ))}
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Idioma predeterminado</label>
+            <select
+              value={defaultLanguage}
+              onChange={(e) => {
+                setDefaultLanguage(e.target.value as EmailLanguage)
+                setSaved(null)
+              }}
+              className="w-full px-4 py-2 border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-teal-500"
+            >
+              {EMAIL_LANGUAGES.map(l => <option key={l.code} value={l.code}>{l.label}</option>)}
+            </select>
+          </div>
+        </div>
+        <div className="flex items-center gap-3 mt-4">
+          <button
+            onClick={handleSaveDetails}
+            disabled={isSaving}
+            className="px-4 py-2 bg-teal-600 text-white rounded-lg hover:bg-teal-700 disabled:opacity-50"
+          >
+            {isSaving ? 'Saving...' : 'Save Details'}
+          </button>
+          {saved === 'details' && <span className="text-sm text-green-600">Saved</span>}
+        </div>
+      </div>
+
+      <div className="border-t pt-4 space-y-4">
+        <h3 className="font-medium text-gray-800">Plantillas</h3>
+        <div className="flex flex-wrap gap-3">
+          <select
+            value={kind}
+            onChange={(e) => setKind(e.target.value as EmailTemplateKind)}
+            className="px-3 py-1.5 border border-gray-200 rounded-lg text-sm"
+          >
+            {EMAIL_TEMPLATE_KINDS.map(k => <option key={k.kind} value={k.kind}>{k.label}</option>)}
+          </select>
+          <select
+            value={language}
+            onChange={(e) => setLanguage(e.target.value as EmailLanguage)}
+            className="px-3 py-1.5 border border-gray-200 rounded-lg text-sm"
+          >
+            {EMAIL_LANGUAGES.map(l => <option key={l.code} value={l.code}>{l.label}</option>)}
+          </select>
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Asunto</label>
+          <input
+            type="text"
+            value={template.subject}
+            onChange={(e) => {
+              setTemplate(prev => ({ ...prev, subject: e.target.value }))
+              setSaved(null)
+            }}
+            className="w-full px-4 py-2 border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-teal-500"
+          />
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Cuerpo (HTML)</label>
+          <div className="flex flex-wrap gap-1.5 mb-2">
+            {PLACEHOLDERS.map(p => (
+              <button
+                key={p.name}
+                type="button"
+                title={p.description}
+                onClick={() => insertPlaceholder(p.name)}
+                className="px-2 py-0.5 bg-teal-50 text-teal-700 rounded-full text-xs font-mono hover:bg-teal-100"
+              >
+                {`{{${p.name}}}`}
+              </button>
+            ))}
+          </div>
+          <textarea
+            ref={bodyRef}
+            value={template.html}
+            onChange={(e) => {
+              setTemplate(prev => ({ ...prev, html: e.target.value }))
+              setSaved(null)
+            }}
+            rows={14}
+            className="w-full px-4 py-2 border border-gray-200 rounded-lg font-mono text-xs focus:outline-none focus:ring-2 focus:ring-teal-500"
+          />
+        </div>
+
+        <div className="flex items-center gap-3">
+          <button
+            onClick={handleSaveTemplate}
+            disabled={isSaving}
+            className="px-4 py-2 bg-teal-600 text-white rounded-lg hover:bg-teal-700 disabled:opacity-50"
+          >
+            {isSaving ? 'Saving...' : 'Save Template'}
+          </button>
+          <button
+            type="button"
+            onClick={handleRestoreDefault}
+            className="flex items-center gap-1 px-4 py-2 border border-gray-200 rounded-lg hover:bg-gray-50 text-sm text-gray-700"
+          >
+            <RotateCcw className="w-4 h-4" /> Restaurar predeterminada
+          </button>
+          {saved === 'template' && <span className="text-sm text-green-600">Saved</span>}
+        </div>
+      </div>
+
+      <div className="border-t pt-4">
+        <div className="flex items-center justify-between mb-2">
+          <h3 className="font-medium text-gray-800">Vista previa</h3>
+          <div className="flex rounded-lg border border-gray-200 overflow-hidden text-sm">
+            {(['html', 'text'] as const).map(mode => (
+              <button
+                key={mode}
+                type="button"
+                onClick={() => setPreviewMode(mode)}
+                className={`px-3 py-1 ${previewMode === mode ? 'bg-teal-600 text-white' : 'text-gray-700 hover:bg-gray-50'}`}
+              >
+                {mode === 'html' ? 'HTML' : 'Texto'}
+              </button>
+            ))}
+          </div>
+        </div>
+        <p className="text-sm text-gray-700 mb-2"><strong>Asunto:</strong> {preview.subject}</p>
+        {previewMode === 'html' ? (
+          <iframe
+            title="Email preview"
+            srcDoc={preview.html}
+            sandbox=""
+            className="w-full h-[32rem] border border-gray-200 rounded-lg bg-white"
+          />
+        ) : (
+          <pre className="p-4 bg-gray-50 border border-gray-200 rounded-lg text-xs text-gray-700 whitespace-pre-wrap">
+            {preview.text}
+          </pre>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,351 @@
+// Mail transport settings - how emails are delivered (Gmail, SMTP or the local outbox),
+// a test email and the outbox contents
+
+import { useState, useEffect } from 'react'
+import { Download, Trash2, Send } from 'lucide-react'
+import { getAllSettings, setSetting, getOutboxEmails, clearOutboxEmails } from '../../db/supabase'
+import {
+  MAIL_TRANSPORTS,
+  MAIL_TRANSPORT_KEY,
+  SMTP_CONFIG_KEY,
+  DEFAULT_SMTP_CONFIG,
+  DEFAULT_SMTP_ACCOUNT,
+  mailSettingsFromSettings,
+  isSmtpSupported,
+  loadSmtpAccount,
+  sendEmail,
+  type MailTransportKind,
+  type SmtpAccount,
+  type SmtpConfig
+} from '../../services/mail'
+import type { OutboxEmail } from '../../db/types'
+
+const SECURITY_OPTIONS: { value: SmtpAccount['security']; label: string; port: number }[] = [
+  { value: 'starttls', label: 'STARTTLS (587)', port: 587 },
+  { value: 'tls', label: 'SSL/TLS (465)', port: 465 },
+  { value: 'none', label: 'Sin cifrado (25, sin usuario)', port: 25 }
+]
+
+// The SMTP server, login and password are kept in this computer's keychain by the desktop app,
+// never in the clinic settings
+const canStoreAccount = () => !!window.electronAPI?.setSmtpAccount
+
+export default function MailTransportSettings() {
+  const [transport, setTransport] = useState<MailTransportKind>('gmail')
+  const [smtp, setSmtp] = useState<SmtpConfig>(DEFAULT_SMTP_CONFIG)
+  const [account, setAccount] = useState<SmtpAccount>(DEFAULT_SMTP_ACCOUNT)
+  const [outbox, setOutbox] = useState<OutboxEmail[]>([])
+  const [testTo, setTestTo] = useState('')
+  const [isSaving, setIsSaving] = useState(false)
+  const [isTesting, setIsTesting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [notice, setNotice] = useState<string | null>(null)
+  const [password, setPassword] = useState('')
+  const [hasStoredPassword, setHasStoredPassword] = useState(false)
+
+  const loadAccount = async () => {
+    const stored = await loadSmtpAccount()
+    if (!stored) return
+    const { hasPassword, ...server } = stored
+    setAccount(server)
+    setHasStoredPassword(hasPassword)
+  }
+
+  // An empty password field keeps the stored one while the server and username do not change
+  const storeAccount = async () => {
+    await window.electronAPI!.setSmtpAccount!({ ...account, host: account.host.trim(), user: account.user.trim(), password })
+    setPassword('')
+    await loadAccount()
+  }
+
+  const loadOutbox = () =>
+    getOutboxEmails()
+      .then(setOutbox)
+      .catch(err => console.error('Failed to load outbox:', err))
+
+  useEffect(() => {
+    Promise.all([
+      getAllSettings().then(settings => {
+        const mail = mailSettingsFromSettings(settings)
+        setTransport(mail.transport)
+        setSmtp(mail.smtp)
+        setTestTo(mail.senderEmail)
+      }),
+      loadAccount()
+    ])
+      .catch(err => console.error('Failed to load mail settings:', err))
+  }, [])
+
+  useEffect(() => {
+    if (transport === 'outbox') loadOutbox()
+  }, [transport])
+
+  const updateSmtp = (updates: Partial<SmtpConfig>) => {
+    setSmtp(prev => ({ ...prev, ...updates }))
+    setNotice(null)
+  }
+
+  const updateAccount = (updates: Partial<SmtpAccount>) => {
+    setAccount(prev => ({ ...prev, ...updates }))
+    setNotice(null)
+  }
+
+  const handleSave = async () => {
+    setError(null)
+    setNotice(null)
+    if (transport === 'smtp' && canStoreAccount()) {
+      if (!account.host.trim() || !account.port) {
+        setError('SMTP server and port are required')
+        return
+      }
+      if (account.user.trim() && account.security === 'none') {
+        setError('Signing in to the SMTP server needs STARTTLS or SSL/TLS')
+        return
+      }
+    }
+    setIsSaving(true)
+    try {
+      if (transport === 'smtp' && canStoreAccount()) await storeAccount()
+      await setSetting(MAIL_TRANSPORT_KEY, transport)
+      await setSetting(SMTP_CONFIG_KEY, JSON.stringify({ from: smtp.from.trim() }))
+      setNotice('Saved')
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  // Uses the saved settings - save first to test changes
+  const handleTest = async () => {
+    if (!testTo.trim()) return
+    setError(null)
+    setNotice(null)
+    setIsTesting(true)
+    try {
+      await sendEmail({
+        to: testTo.trim(),
+        subject: 'VetSoft - Email de prueba',
+        body: 'Este es un email de prueba enviado desde VetSoft. Si lo recibe, el envío de emails funciona.',
+        html: '<p>Este es un email de prueba enviado desde <strong>VetSoft</strong>.</p><p>Si lo recibe, el envío de emails funciona.</p>'
+      })
+      setNotice(`Email de prueba enviado a ${testTo.trim()}`)
+      if (transport === 'outbox') loadOutbox()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to send test email')
+    } finally {
+      setIsTesting(false)
+    }
+  }
+
+  const downloadEml = (email: OutboxEmail) => {
+    const url = URL.createObjectURL(new Blob([email.raw], { type: 'message/rfc822' }))
+    const link = document.createElement('a')
+    link.href = url
+    link.download = `${email.createdAt.slice(0, 19).replace(/[:T]/g, '-')}-${email.id}.eml`
+    link.click()
+    URL.revokeObjectURL(url)
+  }
+
+  const handleClearOutbox = async () => {
+    if (!confirm('¿Vaciar la bandeja de salida?')) return
+    try {
+      await clearOutboxEmails()
+      setOutbox([])
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to clear outbox')
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      <h2 className="text-lg font-semibold text-gray-800">Email Delivery</h2>
+
+      {error && <div className="p-3 bg-red-50 text-red-700 rounded-lg text-sm">{error}</div>}
+
+      <div className="space-y-2">
+        {MAIL_TRANSPORTS.map(t => (
+          <label
+            key={t.kind}
+            className={`flex items-start gap-3 p-3 border rounded-lg cursor-pointer ${
+              transport === t.kind ? 'border-teal-500 bg-teal-50' : 'border-gray-200 hover:bg-gray-50'
+            }`}
+          >
+            <input
+              type="radio"
+              name="mail-transport"
+              checked={transport === t.kind}
+              onChange={() => {
+                setTransport(t.kind)
+                setNotice(null)
+              }}
+              className="mt-1"
+            />
+            <div>
+              <p className="font-medium text-gray-800">{t.label}</p>
+              <p className="text-sm text-gray-500">{t.description}</p>
+            </div>
+          </label>
+        ))}
+      </div>
+
+      {transport === 'smtp' && (
+        <div className="space-y-4">
+          {!isSmtpSupported() && (
+            <p className="p-3 bg-amber-50 text-amber-700 rounded-lg text-sm">
+              SMTP only works in the VetSoft desktop app. Emails sent from the browser will fail.
+            </p>
+          )}
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Server</label>
+              <input
+                type="text"
+                value={account.host}
+                onChange={(e) => updateAccount({ host: e.target.value })}
+                placeholder="smtp.office365.com"
+                disabled={!canStoreAccount()}
+                className="w-full px-4 py-2 border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-teal-500 disabled:bg-gray-50"
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-2">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Security</label>
+                <select
+                  value={account.security}
+                  onChange={(e) => {
+                    const option = SECURITY_OPTIONS.find(o => o.value === e.target.value)!
+                    updateAccount({ security: option.value, port: option.port })
+                  }}
+                  disabled={!canStoreAccount()}
+                  className="w-full px-3 py-2 border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-teal-500 disabled:bg-gray-50"
+                >
+                  {SECURITY_OPTIONS.map(o => <option key={o.value} value={o.value}>{o.label}</option>)}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Port</label>
+                <input
+                  type="number"
+                  min="1"
+                  value={account.port}
+                  onChange={(e) => updateAccount({ port: Number(e.target.value) })}
+                  disabled={!canStoreAccount()}
+                  className="w-full px-4 py-2 border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-teal-500 disabled:bg-gray-50"
+                />
+              </div>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Username</label>
+              <input
+                type="text"
+                value={account.user}
+                onChange={(e) => updateAccount({ user: e.target.value })}
+                autoComplete="off"
+                disabled={!canStoreAccount()}
+                className="w-full px-4 py-2 border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-teal-500 disabled:bg-gray-50"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Password</label>
+              <input
+                type="password"
+                value={password}
+                onChange={(e) => {
+                  setPassword(e.target.value)
+                  setNotice(null)
+                }}
+                placeholder={hasStoredPassword ? 'Saved on this computer' : ''}
+                autoComplete="new-password"
+                disabled={!canStoreAccount()}
+                className="w-full px-4 py-2 border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-teal-500 disabled:bg-gray-50"
+              />
+            </div>
+            <p className="md:col-span-2 text-xs text-gray-500">
+              Server, username and password are stored encrypted on this computer only; enter them on every computer that sends email.
+            </p>
+            <div className="md:col-span-2">
+              <label className="block text-sm font-medium text-gray-700 mb-1">Sender address</label>
+              <input
+                type="email"
+                value={smtp.from}
+                onChange={(e) => updateSmtp({ from: e.target.value })}
+                placeholder="Clinic email from the details below"
+                className="w-full px-4 py-2 border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-teal-500"
+              />
+            </div>
+          </div>
+        </div>
+      )}
+
+      <div className="flex items-center gap-3">
+        <button
+          onClick={handleSave}
+          disabled={isSaving}
+          className="px-4 py-2 bg-teal-600 text-white rounded-lg hover:bg-teal-700 disabled:opacity-50"
+        >
+          {isSaving ? 'Saving...' : 'Save Delivery'}
+        </button>
+        {notice && <span className="text-sm text-green-600">{notice}</span>}
+      </div>
+
+      <div className="flex items-center gap-2">
+        <input
+          type="email"
+          value={testTo}
+          onChange={(e) => setTestTo(e.target.value)}
+          placeholder="destinatario@ejemplo.com"
+          className="flex-1 px-4 py-2 border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-teal-500"
+        />
+        <button
+          type="button"
+          onClick={handleTest}
+          disabled={isTesting || !testTo.trim()}
+          className="flex items-center gap-1 px-4 py-2 border border-gray-200 rounded-lg hover:bg-gray-50 text-sm text-gray-700 disabled:opacity-50"
+        >
+          <Send className="w-4 h-4" /> {isTesting ? 'Enviando...' : 'Enviar prueba'}
+        </button>
+      </div>
+
+      {transport === 'outbox' && (
+        <div>
+          <div className="flex items-center justify-between mb-2">
+            <h3 className="font-medium text-gray-800">Bandeja de salida</h3>
+            {outbox.length > 0 && (
+              <button
+                type="button"
+                onClick={handleClearOutbox}
+                className="flex items-center gap-1 text-sm text-red-600 hover:text-red-700"
+              >
+                <Trash2 className="w-4 h-4" /> Vaciar
+              </button>
+            )}
+          </div>
+          {outbox.length === 0 ? (
+            <p className="text-sm text-gray-500">No hay emails en la bandeja de salida.</p>
+          ) : (
+            <div className="border border-gray-200 rounded-lg divide-y divide-gray-100">
+              {outbox.map(email => (
+                <div key={email.id} className="flex items-center justify-between gap-3 px-4 py-2 text-sm">
+                  <div className="min-w-0">
+                    <p className="text-gray-800 truncate">{email.subject}</p>
+                    <p className="text-gray-500 text-xs">
+                      {email.to} · {new Date(email.createdAt).toLocaleString()}
+                    </p>
+                  </div>
+                  <button
+                    type="button"
+                    onClick={() => downloadEml(email)}
+                    className="flex items-center gap-1 text-teal-600 hover:text-teal-700 shrink-0"
+                  >
+                    <Download className="w-4 h-4" /> .eml
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,256 @@
+// Messaging settings - SMS and WhatsApp providers for client notifications, with a test message
+
+import { useState, useEffect } from 'react'
+import { Send } from 'lucide-react'
+import { setSetting } from '../../db/supabase'
+import {
+  loadMessagingConfig,
+  sendTextMessage,
+  getMockProvider,
+  twilioTokenSecret,
+  DEFAULT_MESSAGING_CONFIG,
+  MESSAGING_CONFIG_KEY,
+  CHANNEL_LABELS,
+  type ChannelConfig,
+  type MessageChannel,
+  type MessagingConfig,
+  type TextMessage
+} from '../../services/messaging'
+
+const CHANNELS: MessageChannel[] = ['sms', 'whatsapp']
+
+// Auth tokens are kept in this computer's keychain by the desktop app, never in the clinic settings
+const canStoreTokens = () => !!window.electronAPI?.setSecret
+
+export default function MessagingSettings() {
+  const [config, setConfig] = useState<MessagingConfig>(DEFAULT_MESSAGING_CONFIG)
+  const [testPhone, setTestPhone] = useState('')
+  const [isSaving, setIsSaving] = useState(false)
+  const [testing, setTesting] = useState<MessageChannel | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [notice, setNotice] = useState<string | null>(null)
+  const [mockSent, setMockSent] = useState<TextMessage[]>([])
+  const [tokens, setTokens] = useState<Record<MessageChannel, string>>({ sms: '', whatsapp: '' })
+  const [storedTokens, setStoredTokens] = useState<Record<MessageChannel, boolean>>({ sms: false, whatsapp: false })
+
+  const loadStoredTokens = async () => {
+    const hasSecret = window.electronAPI?.hasSecret
+    if (!hasSecret) return
+    const [sms, whatsapp] = await Promise.all(CHANNELS.map(c => hasSecret(twilioTokenSecret(c))))
+    setStoredTokens({ sms, whatsapp })
+  }
+
+  // Typed tokens go to the keychain (on save, or before a test message)
+  const storeTypedTokens = async () => {
+    for (const channel of CHANNELS) {
+      if (tokens[channel]) await window.electronAPI!.setSecret!(twilioTokenSecret(channel), tokens[channel])
+    }
+    setTokens({ sms: '', whatsapp: '' })
+    await loadStoredTokens()
+  }
+
+  // Messages recorded by the mock provider during this session, newest first
+  const loadMockSent = () =>
+    setMockSent([...getMockProvider('sms').sent, ...getMockProvider('whatsapp').sent].reverse())
+
+  useEffect(() => {
+    Promise.all([loadMessagingConfig().then(setConfig), loadStoredTokens()])
+      .catch(err => console.error('Failed to load messaging settings:', err))
+    loadMockSent()
+  }, [])
+
+  const updateChannel = (channel: MessageChannel, updates: Partial<ChannelConfig>) => {
+    setConfig(prev => ({ ...prev, [channel]: { ...prev[channel], ...updates } }))
+    setNotice(null)
+  }
+
+  const handleSave = async () => {
+    setError(null)
+    setNotice(null)
+    const missing = CHANNELS.find(c => {
+      const { enabled, provider, twilio } = config[c]
+      return enabled && provider === 'twilio' &&
+        (!twilio.accountSid || !twilio.from || (canStoreTokens() && !tokens[c] && !storedTokens[c]))
+    })
+    if (missing) {
+      setError(`${CHANNEL_LABELS[missing]}: Twilio account SID, auth token and sender number are required`)
+      return
+    }
+    setIsSaving(true)
+    try {
+      if (canStoreTokens()) await storeTypedTokens()
+      await setSetting(MESSAGING_CONFIG_KEY, JSON.stringify(config))
+      setNotice('Saved')
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  // Uses the settings on screen, saved or not
+  const handleTest = async (channel: MessageChannel) => {
+    if (!testPhone.trim()) return
+    setError(null)
+    setNotice(null)
+    setTesting(channel)
+    try {
+      if (canStoreTokens()) await storeTypedTokens()
+      await sendTextMessage(channel, testPhone, 'VetSoft: mensaje de prueba. Las notificaciones funcionan.', config)
+      setNotice(`${CHANNEL_LABELS[channel]} de prueba enviado`)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to send test message')
+    } finally {
+      setTesting(null)
+      loadMockSent()
+    }
+  }
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <p className="font-medium text-gray-800">SMS &amp; WhatsApp</p>
+        <p className="text-sm text-gray-500">
+          Confirmations and reminders go to each client's preferred channels. Clients must opt in to SMS / WhatsApp in their profile.
+        </p>
+      </div>
+
+      {error && <div className="p-3 bg-red-50 text-red-700 rounded-lg text-sm">{error}</div>}
+
+      {CHANNELS.map(channel => {
+        const channelConfig = config[channel]
+        return (
+          <div key={channel} className="p-4 border border-gray-200 rounded-lg space-y-3">
+            <div className="flex items-center justify-between">
+              <label className="flex items-center gap-2 font-medium text-gray-800">
+                <input
+                  type="checkbox"
+                  checked={channelConfig.enabled}
+                  onChange={(e) => updateChannel(channel, { enabled: e.target.checked })}
+                  className="w-5 h-5 text-teal-600 rounded"
+                />
+                {CHANNEL_LABELS[channel]}
+              </label>
+              <select
+                value={channelConfig.provider}
+                onChange={(e) => updateChannel(channel, { provider: e.target.value as ChannelConfig['provider'] })}
+                className="px-3 py-1.5 border border-gray-200 rounded-lg text-sm"
+              >
+                <option value="twilio">Twilio</option>
+                <option value="mock">Mock (testing, logs to console)</option>
+              </select>
+            </div>
+            {channelConfig.provider === 'twilio' && (
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                <input
+                  type="text"
+                  value={channelConfig.twilio.accountSid}
+                  onChange={(e) => updateChannel(channel, { twilio: { ...channelConfig.twilio, accountSid: e.target.value.trim() } })}
+                  placeholder="Account SID"
+                  className="px-3 py-2 border border-gray-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-teal-500"
+                />
+                <input
+                  type="password"
+                  value={tokens[channel]}
+                  onChange={(e) => {
+                    const token = e.target.value.trim()
+                    setTokens(prev => ({ ...prev, [channel]: token }))
+                    setNotice(null)
+                  }}
+                  placeholder={storedTokens[channel] ? 'Auth token (saved on this computer)' : 'Auth token'}
+                  autoComplete="new-password"
+                  disabled={!canStoreTokens()}
+                  className="px-3 py-2 border border-gray-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-teal-500 disabled:bg-gray-50"
+                />
+                <input
+                  type="tel"
+                  value={channelConfig.twilio.from}
+                  onChange={(e) => updateChannel(channel, { twilio: { ...channelConfig.twilio, from: e.target.value.trim() } })}
+                  placeholder={channel === 'whatsapp' ? 'WhatsApp sender (+1415...)' : 'Sender number (+1415...)'}
+                  className="px-3 py-2 border border-gray-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-teal-500"
+                />
+              </div>
+            )}
+            {channelConfig.provider === 'twilio' && (
+              <p className="text-xs text-gray-500">
+                {canStoreTokens()
+                  ? 'The auth token is stored encrypted on this computer only; enter it on every computer that sends messages.'
+                  : 'Twilio messages are sent from the VetSoft desktop app, where the auth token is entered.'}
+              </p>
+            )}
+            {channel === 'whatsapp' && channelConfig.provider === 'twilio' && (
+              <p className="text-xs text-gray-500">
+                WhatsApp only delivers free-form text within 24 hours of the client's last message; otherwise use approved templates in Twilio.
+              </p>
+            )}
+          </div>
+        )
+      })}
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Default country code</label>
+          <input
+            type="text"
+            value={config.countryCode}
+            onChange={(e) => {
+              setConfig(prev => ({ ...prev, countryCode: e.target.value }))
+              setNotice(null)
+            }}
+            placeholder="+52"
+            className="w-full px-4 py-2 border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-teal-500"
+          />
+          <p className="text-xs text-gray-500 mt-1">Added to client phone numbers without a leading +</p>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Test message</label>
+          <div className="flex gap-2">
+            <input
+              type="tel"
+              value={testPhone}
+              onChange={(e) => setTestPhone(e.target.value)}
+              placeholder="Phone number"
+              className="flex-1 min-w-0 px-4 py-2 border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-teal-500"
+            />
+            {CHANNELS.map(channel => (
+              <button
+                key={channel}
+                type="button"
+                onClick={() => handleTest(channel)}
+                disabled={!!testing || !testPhone.trim()}
+                className="flex items-center gap-1 px-3 py-2 border border-gray-200 rounded-lg hover:bg-gray-50 text-sm text-gray-700 disabled:opacity-50"
+              >
+                <Send className="w-4 h-4" /> {CHANNEL_LABELS[channel]}
+              </button>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      <div className="flex items-center gap-3">
+        <button
+          onClick={handleSave}
+          disabled={isSaving}
+          className="px-4 py-2 bg-teal-600 text-white rounded-lg hover:bg-teal-700 disabled:opacity-50"
+        >
+          {isSaving ? 'Saving...' : 'Save Messaging'}
+        </button>
+        {notice && <span className="text-sm text-green-600">{notice}</span>}
+      </div>
+
+      {mockSent.length > 0 && (
+        <div>
+          <h3 className="font-medium text-gray-800 mb-2">Mensajes simulados</h3>
+          <div className="border border-gray-200 rounded-lg divide-y divide-gray-100 max-h-64 overflow-y-auto">
+            {mockSent.map((message, i) => (
+              <div key={i} className="px-4 py-2 text-sm">
+                <p className="text-gray-500 text-xs">{CHANNEL_LABELS[message.channel]} · {message.to}</p>
+                <p className="text-gray-800">{message.body}</p>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,251 @@
+// Schedule settings - clinic opening hours, holidays and single-room appointment types used by the scheduling validator
+// and by the online booking portal (enabled here too)
+
+import { useState, useEffect } from 'react'
+import { X, Copy, Check } from 'lucide-react'
+import { setSetting, getOnlineBookingSettings, setOnlineBookingEnabled } from '../../db/supabase'
+import { getBookingUrl } from '../../services/booking'
+import { WEEKDAY_LABELS } from '../../services/vetSchedule'
+import {
+  loadSchedulingRules,
+  DEFAULT_CLINIC_HOURS,
+  CLINIC_HOURS_KEY,
+  CLINIC_HOLIDAYS_KEY,
+  SINGLE_ROOM_TYPES_KEY,
+  type SchedulingRules
+} from '../../services/scheduling'
+import type { Appointment, OnlineBookingSettings, WorkingHours } from '../../db/types'
+
+const APPOINTMENT_TYPES: Appointment['type'][] = ['consultation', 'vaccination', 'surgery', 'grooming', 'emergency', 'follow-up']
+const DEFAULT_HOURS: WorkingHours = { start: '08:00', end: '20:00' }
+
+export default function ScheduleSettings() {
+  const [rules, setRules] = useState<SchedulingRules>({
+    clinicHours: DEFAULT_CLINIC_HOURS,
+    holidays: [],
+    singleRoomTypes: ['surgery']
+  })
+  const [newHoliday, setNewHoliday] = useState('')
+  const [isSaving, setIsSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [saved, setSaved] = useState(false)
+  const [booking, setBooking] = useState<OnlineBookingSettings | null>(null)
+  const [copied, setCopied] = useState(false)
+
+  useEffect(() => {
+    loadSchedulingRules()
+      .then(setRules)
+      .catch(err => console.error('Failed to load schedule settings:', err))
+    getOnlineBookingSettings()
+      .then(b => setBooking(b ?? null))
+      .catch(err => console.error('Failed to load online booking settings:', err))
+  }, [])
+
+  const toggleBooking = async (enabled: boolean) => {
+    if (!booking) return
+    setError(null)
+    try {
+      await setOnlineBookingEnabled(enabled)
+      setBooking({ ...booking, enabled })
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update online booking')
+    }
+  }
+
+  const copyBookingUrl = async () => {
+    if (!booking) return
+    await navigator.clipboard.writeText(getBookingUrl(booking.slug))
+    setCopied(true)
+  }
+
+  const setDayHours = (day: number, hours: WorkingHours | undefined) => {
+    setRules(prev => {
+      const clinicHours = { ...prev.clinicHours }
+      if (hours) clinicHours[day] = hours
+      else delete clinicHours[day]
+      return { ...prev, clinicHours }
+    })
+    setSaved(false)
+  }
+
+  const addHoliday = () => {
+    if (!newHoliday || rules.holidays.includes(newHoliday)) return
+    setRules(prev => ({ ...prev, holidays: [...prev.holidays, newHoliday].sort() }))
+    setNewHoliday('')
+    setSaved(false)
+  }
+
+  const toggleRoomType = (type: Appointment['type']) => {
+    setRules(prev => ({
+      ...prev,
+      singleRoomTypes: prev.singleRoomTypes.includes(type)
+        ? prev.singleRoomTypes.filter(t => t !== type)
+        : [...prev.singleRoomTypes, type]
+    }))
+    setSaved(false)
+  }
+
+  const handleSave = async () => {
+    setError(null)
+    const invalidDay = Object.entries(rules.clinicHours).find(([, h]) => h && h.start >= h.end)
+    if (invalidDay) {
+      setError(`${WEEKDAY_LABELS[Number(invalidDay[0])]}: end time must be after start time`)
+      return
+    }
+    setIsSaving(true)
+    try {
+      await Promise.all([
+        setSetting(CLINIC_HOURS_KEY, JSON.stringify(rules.clinicHours)),
+        setSetting(CLINIC_HOLIDAYS_KEY, JSON.stringify(rules.holidays)),
+        setSetting(SINGLE_ROOM_TYPES_KEY, rules.singleRoomTypes.join(','))
+      ])
+      setSaved(true)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      <h2 className="text-lg font-semibold text-gray-800">Clinic Schedule</h2>
+      <p className="text-sm text-gray-500">
+        New and moved appointments are checked against these hours, holidays and room limits.
+      </p>
+
+      {error && <div className="p-3 bg-red-50 text-red-700 rounded-lg text-sm">{error}</div>}
+
+      <div>
+        <h3 className="font-medium text-gray-800 mb-3">Opening hours</h3>
+        <div className="space-y-2">
+          {WEEKDAY_LABELS.map((label, day) => {
+            const hours = rules.clinicHours[day]
+            return (
+              <div key={day} className="flex items-center gap-3 text-sm">
+                <label className="flex items-center gap-2 w-32">
+                  <input
+                    type="checkbox"
+                    checked={!!hours}
+                    onChange={(e) => setDayHours(day, e.target.checked ? DEFAULT_HOURS : undefined)}
+                  />
+                  {label}
+                </label>
+                {hours ? (
+                  <>
+                    <input
+                      type="time"
+                      value={hours.start}
+                      onChange={(e) => setDayHours(day, { ...hours, start: e.target.value })}
+                      className="px-3 py-1.5 border border-gray-200 rounded-lg"
+                    />
+                    <span className="text-gray-400">—</span>
+                    <input
+                      type="time"
+                      value={hours.end}
+                      onChange={(e) => setDayHours(day, { ...hours, end: e.target.value })}
+                      className="px-3 py-1.5 border border-gray-200 rounded-lg"
+                    />
+                  </>
+                ) : (
+                  <span className="text-gray-400">Cerrado</span>
+                )}
+              </div>
+            )
+          })}
+        </div>
+      </div>
+
+      <div className="border-t pt-4">
+        <h3 className="font-medium text-gray-800 mb-3">Holidays</h3>
+        <div className="flex gap-2 mb-2">
+          <input
+            type="date"
+            value={newHoliday}
+            onChange={(e) => setNewHoliday(e.target.value)}
+            className="px-3 py-1.5 border border-gray-200 rounded-lg text-sm"
+          />
+          <button
+            type="button"
+            onClick={addHoliday}
+            className="px-3 py-1.5 text-sm bg-teal-50 text-teal-700 rounded-lg hover:bg-teal-100"
+          >
+            Add
+          </button>
+        </div>
+        <div className="flex flex-wrap gap-2">
+          {rules.holidays.map(d => (
+            <span key={d} className="flex items-center gap-1 px-2 py-1 bg-gray-100 rounded-full text-xs text-gray-700">
+              {d}
+              <button
+                type="button"
+                onClick={() => {
+                  setRules(prev => ({ ...prev, holidays: prev.holidays.filter(x => x !== d) }))
+                  setSaved(false)
+                }}
+                className="text-gray-400 hover:text-red-600"
+              >
+                <X className="w-3 h-3" />
+              </button>
+            </span>
+          ))}
+        </div>
+      </div>
+
+      <div className="border-t pt-4">
+        <h3 className="font-medium text-gray-800 mb-1">Single-room appointment types</h3>
+        <p className="text-sm text-gray-500 mb-3">
+          Only one appointment of these types can run at a time (e.g. one operating room).
+        </p>
+        <div className="flex flex-wrap gap-4">
+          {APPOINTMENT_TYPES.map(type => (
+            <label key={type} className="flex items-center gap-2 text-sm text-gray-700 capitalize">
+              <input
+                type="checkbox"
+                checked={rules.singleRoomTypes.includes(type)}
+                onChange={() => toggleRoomType(type)}
+              />
+              {type}
+            </label>
+          ))}
+        </div>
+      </div>
+
+      {booking && (
+        <div className="border-t pt-4">
+          <h3 className="font-medium text-gray-800 mb-1">Reservas online</h3>
+          <p className="text-sm text-gray-500 mb-3">
+            Pet owners book free slots themselves with the email or phone on file. Bookings arrive as scheduled for staff to confirm.
+          </p>
+          <label className="flex items-center gap-2 text-sm text-gray-700 mb-2">
+            <input type="checkbox" checked={booking.enabled} onChange={(e) => toggleBooking(e.target.checked)} />
+            Accept online bookings
+          </label>
+          {booking.enabled && (
+            <div className="flex items-center gap-2 text-sm">
+              <code className="px-2 py-1 bg-gray-100 rounded text-gray-700 truncate">{getBookingUrl(booking.slug)}</code>
+              <button
+                type="button"
+                onClick={copyBookingUrl}
+                className="flex items-center gap-1 text-teal-600 hover:text-teal-700 shrink-0"
+              >
+                {copied ? <Check className="w-4 h-4" /> : <Copy className="w-4 h-4" />} Copy link
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+
+      <div className="flex items-center gap-3">
+        <button
+          onClick={handleSave}
+          disabled={isSaving}
+          className="px-4 py-2 bg-teal-600 text-white rounded-lg hover:bg-teal-700 disabled:opacity-50"
+        >
+          {isSaving ? 'Saving...' : 'Save Schedule'}
+        </button>
+        {saved && <span className="text-sm text-green-600">Saved</span>}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,253 @@
+// Staff settings - clinic members, roles and pending invitations (admins only)
+
+import { useState, useEffect } from 'react'
+import { Trash2, Mail } from 'lucide-react'
+import { useAuthStore } from '../../stores/authStore'
+import {
+  getClinicMembers,
+  getClinicInvitations,
+  addUser,
+  updateUserRole,
+  deleteUser,
+  deleteClinicInvitation,
+  updateClinicName,
+  getClinicTimeZone,
+  updateClinicTimeZone
+} from '../../db/supabase'
+import { isEmailEnabled, sendClinicInvitation } from '../../services/mail'
+import { ROLE_LABELS } from '../../services/permissions'
+import type { ClinicMember, ClinicInvitation, UserRole } from '../../db/types'
+
+const ROLES = Object.keys(ROLE_LABELS) as UserRole[]
+
+const browserTimeZone = () => Intl.DateTimeFormat().resolvedOptions().timeZone
+
+export default function StaffSettings() {
+  const { user, clinicName, role, setClinic } = useAuthStore()
+  const [members, setMembers] = useState<ClinicMember[]>([])
+  const [invitations, setInvitations] = useState<ClinicInvitation[]>([])
+  const [name, setName] = useState(clinicName ?? '')
+  const [timeZone, setTimeZone] = useState('')
+  const [savedTimeZone, setSavedTimeZone] = useState<string | undefined>()
+  const [inviteEmail, setInviteEmail] = useState('')
+  const [inviteRole, setInviteRole] = useState<UserRole>('veterinarian')
+  const [isSaving, setIsSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [notice, setNotice] = useState<string | null>(null)
+
+  const load = async () => {
+    try {
+      const [m, i] = await Promise.all([getClinicMembers(), getClinicInvitations()])
+      setMembers(m)
+      setInvitations(i)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load staff')
+    }
+  }
+
+  useEffect(() => {
+    load()
+    getClinicTimeZone()
+      .then(zone => {
+        setSavedTimeZone(zone)
+        setTimeZone(zone ?? browserTimeZone())
+      })
+      .catch(err => console.error('Failed to load the clinic time zone:', err))
+  }, [])
+
+  useEffect(() => {
+    setName(clinicName ?? '')
+  }, [clinicName])
+
+  // Run an action, then reload the lists; errors are shown above the lists
+  const run = async (action: () => Promise<void>) => {
+    setIsSaving(true)
+    setError(null)
+    setNotice(null)
+    try {
+      await action()
+      await load()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Action failed')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleInvite = (e: React.FormEvent) => {
+    e.preventDefault()
+    const email = inviteEmail.trim().toLowerCase()
+    if (!email) return
+    run(async () => {
+      await addUser({ email, name: '', role: inviteRole, createdAt: new Date().toISOString() })
+      setInviteEmail('')
+      if (!(await isEmailEnabled())) {
+        setNotice(`Invitación creada. Pide a ${email} que inicie sesión con ese correo.`)
+        return
+      }
+      try {
+        await sendClinicInvitation(email, clinicName || 'VetSoft', ROLE_LABELS[inviteRole])
+        setNotice(`Invitación enviada a ${email}`)
+      } catch (err) {
+        console.error('Failed to send invitation email:', err)
+        setNotice(`Invitación creada, pero no se pudo enviar el correo a ${email}`)
+      }
+    })
+  }
+
+  const handleRemove = (member: ClinicMember) => {
+    if (!member.id || !confirm(`¿Quitar a ${member.name || member.email} de la clínica?`)) return
+    run(() => deleteUser(member.id!))
+  }
+
+  const handleRename = () => {
+    if (!name.trim() || name === clinicName) return
+    run(async () => {
+      await updateClinicName(name.trim())
+      setClinic(role, name.trim())
+    })
+  }
+
+  const handleTimeZone = () => {
+    const zone = timeZone.trim()
+    if (!zone || zone === savedTimeZone) return
+    run(async () => {
+      await updateClinicTimeZone(zone)
+      setSavedTimeZone(zone)
+    })
+  }
+
+  return (
+    <div className="space-y-6">
+      <h2 className="text-lg font-semibold text-gray-800">Clinic & Staff</h2>
+
+      {error && <div className="p-3 bg-red-50 text-red-700 rounded-lg text-sm">{error}</div>}
+      {notice && <div className="p-3 bg-teal-50 text-teal-700 rounded-lg text-sm">{notice}</div>}
+
+      <div className="flex gap-2 items-end">
+        <div className="flex-1">
+          <label className="block text-sm font-medium text-gray-700 mb-1">Clinic Name</label>
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            className="w-full px-4 py-2 border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-teal-500"
+          />
+        </div>
+        <button
+          onClick={handleRename}
+          disabled={isSaving || !name.trim() || name === clinicName}
+          className="px-4 py-2 bg-teal-600 text-white rounded-lg hover:bg-teal-700 disabled:opacity-50"
+        >
+          Save
+        </button>
+      </div>
+
+      <div className="flex gap-2 items-end">
+        <div className="flex-1">
+          <label className="block text-sm font-medium text-gray-700 mb-1">Time Zone</label>
+          <input
+            type="text"
+            value={timeZone}
+            onChange={(e) => setTimeZone(e.target.value)}
+            placeholder="America/Mexico_City"
+            className="w-full px-4 py-2 border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-teal-500"
+          />
+          {!savedTimeZone && (
+            <p className="text-xs text-amber-700 mt-1">
+              Not set yet - the server's clock decides which slots are already past until it is saved.
+            </p>
+          )}
+        </div>
+        <button
+          onClick={handleTimeZone}
+          disabled={isSaving || !timeZone.trim() || timeZone === savedTimeZone}
+          className="px-4 py-2 bg-teal-600 text-white rounded-lg hover:bg-teal-700 disabled:opacity-50"
+        >
+          Save
+        </button>
+      </div>
+
+      <div>
+        <h3 className="font-medium text-gray-800 mb-2">Staff</h3>
+        <div className="divide-y divide-gray-100 border border-gray-100 rounded-lg">
+          {members.map((member) => (
+            <div key={member.id} className="flex items-center gap-3 p-3">
+              <div className="flex-1 min-w-0">
+                <p className="font-medium text-gray-800 truncate">{member.name || member.email}</p>
+                <p className="text-sm text-gray-500 truncate">{member.email}</p>
+              </div>
+              <select
+                value={member.role}
+                onChange={(e) => run(() => updateUserRole(member.id!, e.target.value as UserRole))}
+                disabled={isSaving || member.userId === user?.id}
+                className="px-3 py-2 border border-gray-200 rounded-lg text-sm disabled:bg-gray-50"
+              >
+                {ROLES.map(r => <option key={r} value={r}>{ROLE_LABELS[r]}</option>)}
+              </select>
+              <button
+                onClick={() => handleRemove(member)}
+                disabled={isSaving || member.userId === user?.id}
+                className="p-2 text-red-600 hover:bg-red-50 rounded-lg disabled:opacity-30"
+                title="Remove"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <form onSubmit={handleInvite} className="space-y-2">
+        <h3 className="font-medium text-gray-800">Invite staff</h3>
+        <p className="text-sm text-gray-500">
+          The invitee joins this clinic the first time they sign in with this email.
+        </p>
+        <div className="flex gap-2">
+          <input
+            type="email"
+            value={inviteEmail}
+            onChange={(e) => setInviteEmail(e.target.value)}
+            placeholder="email@clinica.com"
+            className="flex-1 px-4 py-2 border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-teal-500"
+          />
+          <select
+            value={inviteRole}
+            onChange={(e) => setInviteRole(e.target.value as UserRole)}
+            className="px-3 py-2 border border-gray-200 rounded-lg"
+          >
+            {ROLES.map(r => <option key={r} value={r}>{ROLE_LABELS[r]}</option>)}
+          </select>
+          <button
+            type="submit"
+            disabled={isSaving || !inviteEmail.trim()}
+            className="flex items-center gap-2 px-4 py-2 bg-teal-600 text-white rounded-lg hover:bg-teal-700 disabled:opacity-50"
+          >
+            <Mail className="w-4 h-4" /> Invite
+          </button>
+        </div>
+      </form>
+
+      {invitations.length > 0 && (
+        <div>
+          <h3 className="font-medium text-gray-800 mb-2">Pending invitations</h3>
+          <div className="divide-y divide-gray-100 border border-gray-100 rounded-lg">
+            {invitations.map((inv) => (
+              <div key={inv.id} className="flex items-center gap-3 p-3 text-sm">
+                <span className="flex-1 text-gray-800 truncate">{inv.email}</span>
+                <span className="text-gray-500">{ROLE_LABELS[inv.role]}</span>
+                <button
+                  onClick={() => run(() => deleteClinicInvitation(inv.id!))}
+                  disabled={isSaving}
+                  className="text-red-600 hover:underline disabled:opacity-50"
+                >
+                  Cancel
+                </button>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
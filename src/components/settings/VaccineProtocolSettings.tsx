@@ -0,0 +1,243 @@
+// Vaccine protocol settings - per-species schedules used to compute next due dates and boosters
+// when a vaccine is recorded
+
+import { useState, useEffect } from 'react'
+import { Plus, Trash2 } from 'lucide-react'
+import { getAllSettings, setSetting } from '../../db/supabase'
+import {
+  vaccineProtocolsFromSettings,
+  DEFAULT_VACCINE_PROTOCOLS,
+  VACCINE_PROTOCOLS_KEY,
+  SPECIES_LABELS,
+  type VaccineProtocol
+} from '../../services/vaccineProtocols'
+import type { Pet } from '../../db/types'
+
+const SPECIES = Object.keys(SPECIES_LABELS) as Pet['species'][]
+
+const parseNumbers = (value: string) =>
+  value.split(',').map(v => Number(v.trim())).filter(n => Number.isFinite(n) && n > 0)
+
+const newProtocol = (): VaccineProtocol => ({
+  id: `custom-${Date.now()}`,
+  name: '',
+  aliases: [],
+  species: ['dog'],
+  seriesAgesWeeks: [],
+  seriesIntervalWeeks: 4,
+  adultDoses: 1,
+  boosterMonths: 12
+})
+
+export default function VaccineProtocolSettings() {
+  const [protocols, setProtocols] = useState<VaccineProtocol[]>(DEFAULT_VACCINE_PROTOCOLS)
+  // Comma-separated fields are edited as text and parsed on save
+  const [drafts, setDrafts] = useState<Record<string, { aliases: string; series: string }>>({})
+  const [isSaving, setIsSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [saved, setSaved] = useState(false)
+
+  const load = (list: VaccineProtocol[]) => {
+    setProtocols(list)
+    setDrafts(Object.fromEntries(list.map(p => [p.id, { aliases: p.aliases.join(', '), series: p.seriesAgesWeeks.join(', ') }])))
+  }
+
+  useEffect(() => {
+    getAllSettings()
+      .then(settings => load(vaccineProtocolsFromSettings(settings)))
+      .catch(err => console.error('Failed to load vaccine protocols:', err))
+  }, [])
+
+  const update = (id: string, updates: Partial<VaccineProtocol>) => {
+    setProtocols(prev => prev.map(p => p.id === id ? { ...p, ...updates } : p))
+    setSaved(false)
+  }
+
+  const updateDraft = (id: string, field: 'aliases' | 'series', value: string) => {
+    setDrafts(prev => ({ ...prev, [id]: { ...prev[id], [field]: value } }))
+    setSaved(false)
+  }
+
+  const toggleSpecies = (protocol: VaccineProtocol, species: Pet['species']) => {
+    update(protocol.id, {
+      species: protocol.species.includes(species)
+        ? protocol.species.filter(s => s !== species)
+        : [...protocol.species, species]
+    })
+  }
+
+  const addProtocol = () => {
+    const protocol = newProtocol()
+    setProtocols(prev => [...prev, protocol])
+    setDrafts(prev => ({ ...prev, [protocol.id]: { aliases: '', series: '' } }))
+    setSaved(false)
+  }
+
+  const removeProtocol = (protocol: VaccineProtocol) => {
+    if (!confirm(`¿Eliminar el protocolo ${protocol.name || 'sin nombre'}?`)) return
+    setProtocols(prev => prev.filter(p => p.id !== protocol.id))
+    setSaved(false)
+  }
+
+  const handleSave = async () => {
+    setError(null)
+    const result = protocols.map(p => ({
+      ...p,
+      name: p.name.trim(),
+      aliases: (drafts[p.id]?.aliases ?? '').split(',').map(a => a.trim()).filter(Boolean),
+      seriesAgesWeeks: parseNumbers(drafts[p.id]?.series ?? '').sort((a, b) => a - b)
+    }))
+    const invalid = result.find(p => !p.name || p.species.length === 0)
+    if (invalid) {
+      setError('Every protocol needs a name and at least one species')
+      return
+    }
+    setIsSaving(true)
+    try {
+      await setSetting(VACCINE_PROTOCOLS_KEY, JSON.stringify(result))
+      load(result)
+      setSaved(true)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleRestore = () => {
+    if (!confirm('¿Restaurar los protocolos predeterminados? Se perderán los cambios.')) return
+    load(DEFAULT_VACCINE_PROTOCOLS)
+    setSaved(false)
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="text-lg font-semibold text-gray-800">Vaccine Protocols</h2>
+        <p className="text-sm text-gray-500">
+          When a vaccine is recorded without a next due date, the matching protocol (by name or alias and species)
+          sets it from the pet's birth date and earlier doses. Adjust boosters to local regulations (e.g. rabies).
+        </p>
+      </div>
+
+      {error && <div className="p-3 bg-red-50 text-red-700 rounded-lg text-sm">{error}</div>}
+
+      <div className="space-y-4">
+        {protocols.map(protocol => (
+          <div key={protocol.id} className="p-4 border border-gray-200 rounded-lg space-y-3">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Name</label>
+                <input
+                  type="text"
+                  value={protocol.name}
+                  onChange={(e) => update(protocol.id, { name: e.target.value })}
+                  placeholder="DHPP"
+                  className="w-full px-3 py-2 border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-teal-500"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Aliases (comma separated)</label>
+                <input
+                  type="text"
+                  value={drafts[protocol.id]?.aliases ?? ''}
+                  onChange={(e) => updateDraft(protocol.id, 'aliases', e.target.value)}
+                  placeholder="Quíntuple, DA2PP"
+                  className="w-full px-3 py-2 border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-teal-500"
+                />
+              </div>
+            </div>
+            <div className="flex flex-wrap gap-3">
+              {SPECIES.map(species => (
+                <label key={species} className="flex items-center gap-1 text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={protocol.species.includes(species)}
+                    onChange={() => toggleSpecies(protocol, species)}
+                  />
+                  {SPECIES_LABELS[species]}
+                </label>
+              ))}
+            </div>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Serie juvenil (semanas)</label>
+                <input
+                  type="text"
+                  value={drafts[protocol.id]?.series ?? ''}
+                  onChange={(e) => updateDraft(protocol.id, 'series', e.target.value)}
+                  placeholder="8, 12, 16"
+                  className="w-full px-3 py-2 border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-teal-500"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Intervalo (semanas)</label>
+                <input
+                  type="number"
+                  min="1"
+                  value={protocol.seriesIntervalWeeks}
+                  onChange={(e) => update(protocol.id, { seriesIntervalWeeks: Number(e.target.value) })}
+                  className="w-full px-3 py-2 border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-teal-500"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Dosis iniciales (adulto)</label>
+                <input
+                  type="number"
+                  min="1"
+                  value={protocol.adultDoses}
+                  onChange={(e) => update(protocol.id, { adultDoses: Number(e.target.value) })}
+                  className="w-full px-3 py-2 border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-teal-500"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Refuerzo (meses, 0 = no)</label>
+                <input
+                  type="number"
+                  min="0"
+                  value={protocol.boosterMonths}
+                  onChange={(e) => update(protocol.id, { boosterMonths: Number(e.target.value) })}
+                  className="w-full px-3 py-2 border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-teal-500"
+                />
+              </div>
+            </div>
+            <div className="flex justify-end">
+              <button
+                type="button"
+                onClick={() => removeProtocol(protocol)}
+                className="flex items-center gap-1 text-sm text-red-600 hover:text-red-700"
+              >
+                <Trash2 className="w-4 h-4" /> Eliminar
+              </button>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3">
+        <button
+          type="button"
+          onClick={addProtocol}
+          className="flex items-center gap-1 px-4 py-2 border border-gray-200 rounded-lg hover:bg-gray-50 text-gray-700"
+        >
+          <Plus className="w-4 h-4" /> Agregar protocolo
+        </button>
+        <button
+          onClick={handleSave}
+          disabled={isSaving}
+          className="px-4 py-2 bg-teal-600 text-white rounded-lg hover:bg-teal-700 disabled:opacity-50"
+        >
+          {isSaving ? 'Saving...' : 'Save Protocols'}
+        </button>
+        <button
+          type="button"
+          onClick={handleRestore}
+          className="text-sm text-gray-600 hover:text-gray-800"
+        >
+          Restaurar predeterminados
+        </button>
+        {saved && <span className="text-sm text-green-600">Saved</span>}
+      </div>
+    </div>
+  )
+}
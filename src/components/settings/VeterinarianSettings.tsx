@@ -0,0 +1,97 @@
+// Veterinarian settings - roster used by the appointment vet picker and the per-vet calendar view
+
+import { useState } from 'react'
+import { Plus, Pencil, Trash2 } from 'lucide-react'
+import { useVeterinarianStore } from '../../stores/veterinarianStore'
+import VeterinarianForm from '../forms/VeterinarianForm'
+import { WEEKDAY_LABELS } from '../../services/vetSchedule'
+import type { Veterinarian } from '../../db/types'
+
+// "Lun-Vie 09:00-18:00"-style summary of the weekly hours
+const summarizeHours = (vet: Veterinarian) => {
+  const days = Object.keys(vet.workingHours).map(Number).sort()
+  if (days.length === 0) return 'Sin horario'
+  return days
+    .map(d => `${WEEKDAY_LABELS[d].slice(0, 3)} ${vet.workingHours[d]!.start}-${vet.workingHours[d]!.end}`)
+    .join(' · ')
+}
+
+export default function VeterinarianSettings() {
+  const { veterinarians, error, addVeterinarian, updateVeterinarian, deleteVeterinarian } = useVeterinarianStore()
+  const [showForm, setShowForm] = useState(false)
+  const [editing, setEditing] = useState<Veterinarian | null>(null)
+
+  const handleDelete = async (vet: Veterinarian) => {
+    if (!vet.id || !confirm(`¿Eliminar a ${vet.name}? Sus citas conservan el nombre.`)) return
+    await deleteVeterinarian(vet.id).catch(() => {})
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <h2 className="text-lg font-semibold text-gray-800">Veterinarians</h2>
+        <button
+          onClick={() => {
+            setEditing(null)
+            setShowForm(true)
+          }}
+          className="flex items-center gap-2 px-4 py-2 bg-teal-600 text-white rounded-lg hover:bg-teal-700"
+        >
+          <Plus className="w-4 h-4" /> Add
+        </button>
+      </div>
+
+      {error && <div className="p-3 bg-red-50 text-red-700 rounded-lg text-sm">{error}</div>}
+
+      {veterinarians.length === 0 ? (
+        <p className="text-sm text-gray-500">
+          No veterinarians yet. Add them to pick vets by availability when booking appointments.
+        </p>
+      ) : (
+        <div className="divide-y divide-gray-100 border border-gray-100 rounded-lg">
+          {veterinarians.map((vet) => (
+            <div key={vet.id} className={`flex items-center gap-3 p-3 ${vet.active ? '' : 'opacity-50'}`}>
+              <span className="w-3 h-3 rounded-full shrink-0" style={{ backgroundColor: vet.color }} />
+              <div className="flex-1 min-w-0">
+                <p className="font-medium text-gray-800">
+                  {vet.name}
+                  {vet.specialties.length > 0 && (
+                    <span className="ml-2 text-xs text-gray-500">{vet.specialties.join(', ')}</span>
+                  )}
+                </p>
+                <p className="text-xs text-gray-500 truncate">{summarizeHours(vet)}</p>
+              </div>
+              <button
+                onClick={() => {
+                  setEditing(vet)
+                  setShowForm(true)
+                }}
+                className="p-2 text-gray-600 hover:bg-gray-100 rounded-lg"
+                title="Edit"
+              >
+                <Pencil className="w-4 h-4" />
+              </button>
+              <button
+                onClick={() => handleDelete(vet)}
+                className="p-2 text-red-600 hover:bg-red-50 rounded-lg"
+                title="Delete"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <VeterinarianForm
+        isOpen={showForm}
+        onClose={() => setShowForm(false)}
+        veterinarian={editing}
+        onSubmit={async (data) => {
+          if (editing?.id) await updateVeterinarian(editing.id, data)
+          else await addVeterinarian(data)
+        }}
+      />
+    </div>
+  )
+}
@@ -11,6 +11,12 @@ import {
   setSetting
 } from './supabase'
 import { CreateClientInput, CreatePetInput, CreateAppointmentInput } from './types'
+import {
+  CLINIC_HOURS_KEY,
+  CLINIC_HOLIDAYS_KEY,
+  SINGLE_ROOM_TYPES_KEY,
+  DEFAULT_CLINIC_HOURS
+} from '../services/scheduling'
 
 // Initialize default settings for the current user
 async function initializeSettings(): Promise<void> {
@@ -30,7 +36,20 @@ async function initializeSettings(): Promise<void> {
     { key: 'price_surgery', value: '150' },
     { key: 'price_grooming', value: '40' },
     { key: 'price_emergency', value: '100' },
-    { key: 'price_follow-up', value: '30' }
+    { key: 'price_follow-up', value: '30' },
+    { key: 'tax_label', value: 'Tax' },
+    { key: 'tax_rate_services', value: '0' },
+    { key: 'tax_rate_products', value: '0' },
+    { key: 'reminders_enabled', value: 'true' },
+    { key: 'reminder_hours_consultation', value: '24' },
+    { key: 'reminder_hours_vaccination', value: '24' },
+    { key: 'reminder_hours_surgery', value: '48' },
+    { key: 'reminder_hours_grooming', value: '24' },
+    { key: 'reminder_hours_emergency', value: '0' },
+    { key: 'reminder_hours_follow-up', value: '24' },
+    { key: CLINIC_HOURS_KEY, value: JSON.stringify(DEFAULT_CLINIC_HOURS) },
+    { key: CLINIC_HOLIDAYS_KEY, value: '[]' },
+    { key: SINGLE_ROOM_TYPES_KEY, value: 'surgery' }
   ]
 
   for (const setting of defaultSettings) {
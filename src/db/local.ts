@@ -0,0 +1,390 @@
+// Local IndexedDB mirror (Dexie) - offline cache for the Supabase data layer
+// Rows are stored exactly as Supabase returns them (snake_case); supabase.ts maps them on read.
+// Writes made while offline go to pending_mutations and are replayed by sync.ts.
+
+import Dexie, { Table, Collection } from 'dexie'
+
+export type LocalRow = Record<string, unknown> & { id: number }
+
+export type CachedTable =
+  | 'clients'
+  | 'pets'
+  | 'appointments'
+  | 'inventory'
+  | 'medical_records'
+  | 'vaccines'
+  | 'sale_items'
+  | 'inventory_movements'
+  | 'veterinarians'
+  | 'appointment_series'
+
+export const CACHED_TABLES: CachedTable[] = [
+  'clients',
+  'pets',
+  'appointments',
+  'inventory',
+  'medical_records',
+  'vaccines',
+  'sale_items',
+  'inventory_movements',
+  'veterinarians',
+  'appointment_series'
+]
+
+// Foreign key column that points at each table (used to remap temporary ids after sync)
+export const FOREIGN_KEYS: Partial<Record<CachedTable, string>> = {
+  clients: 'client_id',
+  pets: 'pet_id',
+  appointments: 'appointment_id',
+  inventory: 'inventory_id',
+  sale_items: 'sale_item_id',
+  veterinarians: 'veterinarian_id',
+  appointment_series: 'series_id'
+}
+
+// Mutation queued while Supabase was unreachable
+export interface PendingMutation {
+  seq?: number
+  table: CachedTable
+  op: 'insert' | 'update' | 'delete' | 'rpc'
+  recordId: number // negative (temporary) id for rows created offline
+  payload: Record<string, unknown>
+  rpc?: string // Postgres function replayed for op 'rpc' (payload keys are its arguments without the p_ prefix)
+  baseUpdatedAt?: string // updated_at of the cached row when the edit was made (conflict detection)
+  status: 'pending' | 'conflict' | 'failed'
+  remoteRow?: Record<string, unknown> | null // server version when status is 'conflict'
+  error?: string
+  createdAt: string
+}
+
+export class VetSoftLocalDB extends Dexie {
+  clients!: Table<LocalRow, number>
+  pets!: Table<LocalRow, number>
+  appointments!: Table<LocalRow, number>
+  inventory!: Table<LocalRow, number>
+  medical_records!: Table<LocalRow, number>
+  vaccines!: Table<LocalRow, number>
+  sale_items!: Table<LocalRow, number>
+  inventory_movements!: Table<LocalRow, number>
+  veterinarians!: Table<LocalRow, number>
+  appointment_series!: Table<LocalRow, number>
+  pending_mutations!: Table<PendingMutation, number>
+
+  constructor(name: string) {
+    super(name)
+    this.version(1).stores({
+      clients: 'id, email',
+      pets: 'id, client_id',
+      appointments: 'id, client_id, pet_id, date, status',
+      inventory: 'id',
+      medical_records: 'id, appointment_id, pet_id',
+      vaccines: 'id, pet_id',
+      sale_items: 'id, appointment_id, inventory_id',
+      pending_mutations: '++seq, table, recordId, status'
+    })
+    this.version(2).stores({
+      inventory_movements: 'id, inventory_id'
+    })
+    this.version(3).stores({
+      veterinarians: 'id'
+    })
+    this.version(4).stores({
+      appointments: 'id, client_id, pet_id, date, status, series_id',
+      appointment_series: 'id, pet_id'
+    })
+  }
+
+  rows(table: CachedTable): Table<LocalRow, number> {
+    return this.table(table) as Table<LocalRow, number>
+  }
+}
+
+// One database per signed-in user so cached data never leaks between accounts
+const databases = new Map<string, VetSoftLocalDB>()
+
+export function getLocalDb(userId: string): VetSoftLocalDB {
+  let db = databases.get(userId)
+  if (!db) {
+    db = new VetSoftLocalDB(`vetsoft-${userId}`)
+    databases.set(userId, db)
+  }
+  return db
+}
+
+export function isLocalDbAvailable(): boolean {
+  return typeof indexedDB !== 'undefined'
+}
+
+export function isOffline(): boolean {
+  return typeof navigator !== 'undefined' && navigator.onLine === false
+}
+
+// supabase-js reports fetch failures as errors like "TypeError: Failed to fetch" (status 0)
+export function isNetworkError(err: unknown): boolean {
+  if (isOffline()) return true
+  const message = err instanceof Error ? err.message : String(err ?? '')
+  return /Failed to fetch|NetworkError|Load failed|Network request failed|FetchError|AbortError|Auth timeout/i.test(message)
+}
+
+// Temporary ids are negative so they can never collide with bigserial ids from Supabase
+export function nextTempId(): number {
+  return -(Date.now() * 1000 + Math.floor(Math.random() * 1000))
+}
+
+export type LocalScope = (table: Table<LocalRow, number>) => Collection<LocalRow, number>
+
+export interface LocalOrder {
+  column: string
+  ascending: boolean
+}
+
+export function sortRows(rows: LocalRow[], order?: LocalOrder): LocalRow[] {
+  if (!order) return rows
+  const dir = order.ascending ? 1 : -1
+  return [...rows].sort((a, b) => {
+    const av = String(a[order.column] ?? '')
+    const bv = String(b[order.column] ?? '')
+    return av.localeCompare(bv) * dir
+  })
+}
+
+// ==================== QUEUE LISTENERS ====================
+
+type QueueListener = () => void
+const queueListeners = new Set<QueueListener>()
+
+export function onQueueChange(listener: QueueListener): () => void {
+  queueListeners.add(listener)
+  return () => queueListeners.delete(listener)
+}
+
+export function notifyQueueChange(): void {
+  queueListeners.forEach(listener => listener())
+}
+
+// ==================== CACHE ====================
+
+async function pendingRecordIds(db: VetSoftLocalDB, table: CachedTable): Promise<Set<number>> {
+  const mutations = await db.pending_mutations.where('table').equals(table).toArray()
+  return new Set(mutations.map(m => m.recordId))
+}
+
+// Replace the cached rows inside `scope` with fresh rows from Supabase.
+// Rows with queued local changes are kept so offline edits are not overwritten.
+export async function cacheRows(
+  userId: string,
+  table: CachedTable,
+  rows: Record<string, unknown>[],
+  scope: LocalScope
+): Promise<void> {
+  const db = getLocalDb(userId)
+  const t = db.rows(table)
+  await db.transaction('rw', t, db.pending_mutations, async () => {
+    const pending = await pendingRecordIds(db, table)
+    await scope(t).filter(row => row.id > 0 && !pending.has(row.id)).delete()
+    await t.bulkPut(rows.filter(row => !pending.has(row.id as number)) as LocalRow[])
+  })
+}
+
+export async function readCachedRows(
+  userId: string,
+  table: CachedTable,
+  scope: LocalScope,
+  order?: LocalOrder
+): Promise<LocalRow[]> {
+  const db = getLocalDb(userId)
+  const rows = await scope(db.rows(table)).toArray()
+  return sortRows(rows, order)
+}
+
+export async function putCachedRow(userId: string, table: CachedTable, row: LocalRow): Promise<void> {
+  await getLocalDb(userId).rows(table).put(row)
+}
+
+export async function patchCachedRow(
+  userId: string,
+  table: CachedTable,
+  id: number,
+  changes: Record<string, unknown>
+): Promise<void> {
+  await getLocalDb(userId).rows(table).update(id, changes)
+}
+
+export async function deleteCachedRow(userId: string, table: CachedTable, id: number): Promise<void> {
+  await getLocalDb(userId).rows(table).delete(id)
+}
+
+export async function clearLocalCache(userId: string): Promise<void> {
+  const db = getLocalDb(userId)
+  await db.transaction('rw', CACHED_TABLES.map(t => db.rows(t)), async () => {
+    for (const table of CACHED_TABLES) await db.rows(table).clear()
+  })
+}
+
+export async function hasPendingMutation(userId: string, table: CachedTable, id: number): Promise<boolean> {
+  const db = getLocalDb(userId)
+  const count = await db.pending_mutations
+    .where('recordId').equals(id)
+    .filter(m => m.table === table)
+    .count()
+  return count > 0
+}
+
+// True when the row points at a parent that only exists locally (not synced yet)
+export function hasTempReference(row: Record<string, unknown>): boolean {
+  return Object.values(FOREIGN_KEYS).some(column => typeof row[column] === 'number' && (row[column] as number) < 0)
+}
+
+// ==================== QUEUE ====================
+
+// Queue an insert made offline: stores the row under a temporary id and returns it
+export async function queueInsert(
+  userId: string,
+  table: CachedTable,
+  row: Record<string, unknown>
+): Promise<number> {
+  const db = getLocalDb(userId)
+  const tempId = nextTempId()
+  const now = new Date().toISOString()
+  await db.transaction('rw', db.rows(table), db.pending_mutations, async () => {
+    await db.rows(table).put({ created_at: now, ...row, id: tempId })
+    await db.pending_mutations.add({
+      table,
+      op: 'insert',
+      recordId: tempId,
+      payload: row,
+      status: 'pending',
+      createdAt: now
+    })
+  })
+  notifyQueueChange()
+  return tempId
+}
+
+// Queue an update made offline. Edits to rows that were also created offline are folded
+// into the pending insert so only one request is replayed.
+export async function queueUpdate(
+  userId: string,
+  table: CachedTable,
+  id: number,
+  changes: Record<string, unknown>
+): Promise<void> {
+  const db = getLocalDb(userId)
+  await db.transaction('rw', db.rows(table), db.pending_mutations, async () => {
+    const cached = await db.rows(table).get(id)
+    await db.rows(table).update(id, changes)
+    if (id < 0) {
+      const insert = await db.pending_mutations
+        .where('recordId').equals(id)
+        .filter(m => m.table === table && m.op === 'insert')
+        .first()
+      if (insert?.seq) {
+        await db.pending_mutations.update(insert.seq, { payload: { ...insert.payload, ...changes } })
+        return
+      }
+    }
+    await db.pending_mutations.add({
+      table,
+      op: 'update',
+      recordId: id,
+      payload: changes,
+      baseUpdatedAt: cached?.updated_at as string | undefined,
+      status: 'pending',
+      createdAt: new Date().toISOString()
+    })
+  })
+  notifyQueueChange()
+}
+
+// Queue a delete made offline. Deleting a row that never reached Supabase just drops its mutations.
+export async function queueDelete(userId: string, table: CachedTable, id: number): Promise<void> {
+  const db = getLocalDb(userId)
+  await db.transaction('rw', db.rows(table), db.pending_mutations, async () => {
+    await db.rows(table).delete(id)
+    if (id < 0) {
+      await db.pending_mutations
+        .where('recordId').equals(id)
+        .filter(m => m.table === table)
+        .delete()
+      return
+    }
+    await db.pending_mutations.add({
+      table,
+      op: 'delete',
+      recordId: id,
+      payload: {},
+      status: 'pending',
+      createdAt: new Date().toISOString()
+    })
+  })
+  notifyQueueChange()
+}
+
+export async function getPendingMutations(userId: string): Promise<PendingMutation[]> {
+  return getLocalDb(userId).pending_mutations.orderBy('seq').toArray()
+}
+
+// ==================== RPC QUEUE ====================
+
+// Arguments of a queued function call, keyed by column name so temp ids are remapped like any payload
+export function rpcArgs(payload: Record<string, unknown>): Record<string, unknown> {
+  return Object.fromEntries(Object.entries(payload).map(([key, value]) => [`p_${key}`, value]))
+}
+
+// Queue a Postgres function call made offline (stock changes). `apply` mirrors its effect in the
+// cache inside the same transaction; `table` is the row the call creates or changes, stored under
+// `recordId` or a new temporary id that is returned.
+export async function queueRpc(
+  userId: string,
+  rpc: string,
+  table: CachedTable,
+  payload: Record<string, unknown>,
+  apply: (db: VetSoftLocalDB, recordId: number) => Promise<void>,
+  recordId: number = nextTempId()
+): Promise<number> {
+  const db = getLocalDb(userId)
+  await db.transaction('rw', [db.pending_mutations, ...CACHED_TABLES.map(t => db.rows(t))], async () => {
+    await apply(db, recordId)
+    await db.pending_mutations.add({
+      table,
+      op: 'rpc',
+      rpc,
+      recordId,
+      payload,
+      status: 'pending',
+      createdAt: new Date().toISOString()
+    })
+  })
+  notifyQueueChange()
+  return recordId
+}
+
+// Cached stock estimate while a queued movement has not reached Supabase. The ledger row is kept
+// (under `id`) only for plain movements; sale lines show theirs once the call is replayed.
+export async function cacheQueuedMovement(
+  db: VetSoftLocalDB,
+  movement: Record<string, unknown>,
+  id?: number
+): Promise<void> {
+  const inventoryId = movement.inventory_id as number
+  const item = await db.inventory.get(inventoryId)
+  const quantityAfter = Number(item?.quantity ?? 0) + Number(movement.quantity ?? 0)
+  await db.inventory.update(inventoryId, { quantity: quantityAfter })
+  if (id !== undefined) {
+    await db.inventory_movements.put({ created_at: new Date().toISOString(), ...movement, quantity_after: quantityAfter, id })
+  }
+}
+
+// Store the rows a stock function returned; the movement carries the item's new quantity
+export async function cacheRpcResult(db: VetSoftLocalDB, result: Record<string, unknown>): Promise<void> {
+  await db.transaction('rw', CACHED_TABLES.map(t => db.rows(t)), async () => {
+    for (const [table, row] of Object.entries(result)) {
+      if (!CACHED_TABLES.includes(table as CachedTable) || !row) continue
+      await db.rows(table as CachedTable).put(row as LocalRow)
+    }
+    const movement = result.inventory_movements as LocalRow | undefined
+    if (movement) {
+      await db.inventory.update(movement.inventory_id as number, { quantity: movement.quantity_after })
+    }
+  })
+}
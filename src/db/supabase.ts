@@ -1,32 +1,112 @@
-// Supabase database layer - replaces Dexie/IndexedDB
-// Maps snake_case DB columns to camelCase for app types
+// Supabase database layer - Supabase is the source of truth, mirrored in IndexedDB (local.ts)
+// so the app keeps working offline. Maps snake_case DB columns to camelCase for app types
 
 import { supabase, isSupabaseConfigured } from '../lib/supabase'
+import { planNewVaccine, vaccineProtocolsFromSettings } from '../services/vaccineProtocols'
+import { blockingAlerts, blockedSaleMessage } from '../services/petAlerts'
+import { toDateString, toTimeOfDay } from '../services/dates'
+import {
+  isLocalDbAvailable,
+  isOffline,
+  isNetworkError,
+  cacheRows,
+  readCachedRows,
+  putCachedRow,
+  patchCachedRow,
+  deleteCachedRow,
+  clearLocalCache,
+  hasPendingMutation,
+  hasTempReference,
+  queueInsert,
+  queueUpdate,
+  queueDelete,
+  queueRpc,
+  rpcArgs,
+  cacheRpcResult,
+  cacheQueuedMovement,
+  getLocalDb,
+  type VetSoftLocalDB,
+  type CachedTable,
+  type LocalScope,
+  type LocalOrder
+} from './local'
 import type {
+  User,
+  UserRole,
+  ClinicContext,
+  ClinicMember,
+  ClinicInvitation,
   Client,
   Pet,
   Appointment,
+  AppointmentSeries,
+  Veterinarian,
   Setting,
   InventoryItem,
+  InventoryMovement,
   MedicalRecord,
   Vaccine,
   SaleItem,
   AppointmentAttachment,
+  Invoice,
+  InvoiceLineItem,
+  InvoiceStatus,
+  WaitlistEntry,
+  WaitlistOffer,
+  PublicWaitlistOffer,
+  ClaimOfferResult,
+  OnlineBookingSettings,
+  BookingClinic,
+  BookingAvailability,
+  OnlineBookingInput,
+  OnlineBookingResult,
+  AppointmentAction,
+  AppointmentActionRequest,
+  PublicAppointmentAction,
+  AppointmentActionResult,
+  OutboxEmail,
+  StaffNotification,
+  VaccineRecall,
+  CreateVaccineRecallInput,
+  Prescription,
+  PrescriptionRefill,
+  CreatePrescriptionInput,
+  PetAlert,
+  LabResult,
+  LabValue,
+  CreateLabResultInput,
+  CreateStaffNotificationInput,
+  Payment,
+  PaymentMethod,
   CreateClientInput,
   UpdateClientInput,
   CreatePetInput,
   UpdatePetInput,
   CreateAppointmentInput,
   UpdateAppointmentInput,
+  CreateAppointmentSeriesInput,
   CreateUserInput,
+  CreateVeterinarianInput,
+  UpdateVeterinarianInput,
   CreateInventoryInput,
-  UpdateInventoryInput
+  UpdateInventoryInput,
+  CreateInventoryMovementInput,
+  CreateInvoiceInput,
+  CreatePaymentInput,
+  CreateWaitlistEntryInput,
+  UpdateWaitlistEntryInput,
+  CreateWaitlistOfferInput
 } from './types'
 
-// Helper: get current user id (required for all operations)
+// Helper: get the signed-in user's auth id
 // Uses getUser() which validates with server - can hang if Supabase unreachable.
 // Fallback to getSession() (cached) if getUser times out - avoids freeze on correct login.
-async function getUserId(): Promise<string> {
+async function getAuthUserId(): Promise<string> {
+  // Offline: skip the server round-trip (and its timeout) and use the cached session
+  if (isOffline()) {
+    const { data: { session } } = await supabase.auth.getSession()
+    if (session?.user?.id) return session.user.id
+  }
   const timeoutMs = 8000
   const timeoutPromise = new Promise<never>((_, reject) =>
     setTimeout(() => reject(new Error('Auth timeout - Supabase may be unreachable')), timeoutMs))
@@ -47,6 +127,180 @@ async function getUserId(): Promise<string> {
   throw new Error('Not authenticated. Please sign in again.')
 }
 
+// Clinic membership of the signed-in user. Cached in memory and in localStorage (for offline starts).
+const CLINIC_CACHE_KEY = 'vetsoft-clinic'
+let clinicLookup: { authUserId: string; promise: Promise<ClinicContext | null> } | null = null
+
+function readCachedClinic(authUserId: string): ClinicContext | null {
+  try {
+    const cached = JSON.parse(localStorage.getItem(CLINIC_CACHE_KEY) || 'null')
+    return cached?.authUserId === authUserId ? cached.clinic as ClinicContext : null
+  } catch {
+    return null
+  }
+}
+
+async function lookupClinic(authUserId: string): Promise<ClinicContext | null> {
+  if (!isOffline()) {
+    try {
+      // Accepts a pending invitation or creates the user's own clinic on first sign-in
+      const { data, error } = await supabase.rpc('ensure_clinic_membership')
+      if (error) throw new Error(error.message)
+      const row = (data as Record<string, unknown>[] | null)?.[0]
+      if (row) {
+        const clinic: ClinicContext = {
+          clinicId: row.clinic_id as number,
+          clinicName: row.clinic_name as string,
+          ownerId: row.owner_id as string,
+          role: row.role as UserRole
+        }
+        localStorage.setItem(CLINIC_CACHE_KEY, JSON.stringify({ authUserId, clinic }))
+        return clinic
+      }
+    } catch (err) {
+      // Clinics migration (008) not run yet, or network error - fall back to the cached membership
+      console.warn('Clinic lookup failed:', err)
+    }
+  }
+  return readCachedClinic(authUserId)
+}
+
+export async function getClinicContext(): Promise<ClinicContext | null> {
+  const authUserId = await getAuthUserId()
+  if (clinicLookup?.authUserId !== authUserId) {
+    clinicLookup = { authUserId, promise: lookupClinic(authUserId) }
+  }
+  return clinicLookup.promise
+}
+
+// Forget the membership (sign-out, or after the admin changed this user's role)
+export function clearClinicContext(): void {
+  clinicLookup = null
+  localStorage.removeItem(CLINIC_CACHE_KEY)
+}
+
+// Helper: get the data owner id (required for all operations).
+// Rows are keyed by the clinic owner's id so every staff member sees the same clinic data;
+// users without a clinic own their data themselves.
+async function getUserId(): Promise<string> {
+  const authUserId = await getAuthUserId()
+  const clinic = await getClinicContext()
+  return clinic?.ownerId ?? authUserId
+}
+
+async function requireAdmin(action: string): Promise<void> {
+  const clinic = await getClinicContext()
+  if (clinic && clinic.role !== 'admin') throw new Error(`Only clinic admins can ${action}`)
+}
+
+type Row = Record<string, unknown>
+
+// Read through the local IndexedDB mirror: fresh rows from Supabase are cached,
+// and when Supabase is unreachable the cached copy of the same query is returned.
+async function selectCached(
+  table: CachedTable,
+  userId: string,
+  remote: () => Promise<Row[]>,
+  scope: LocalScope,
+  order?: LocalOrder
+): Promise<Row[]> {
+  if (!isLocalDbAvailable()) return remote()
+  if (isOffline()) return readCachedRows(userId, table, scope, order)
+  let rows: Row[]
+  try {
+    rows = await remote()
+  } catch (err) {
+    if (!isNetworkError(err)) throw err
+    return readCachedRows(userId, table, scope, order)
+  }
+  try {
+    await cacheRows(userId, table, rows, scope)
+    // Re-read so rows created or edited offline (still waiting to sync) are included
+    return await readCachedRows(userId, table, scope, order)
+  } catch (err) {
+    console.warn(`[VetSoft] Local cache unavailable for ${table}:`, err)
+    return rows
+  }
+}
+
+// Insert a row; queued locally (temporary negative id) if Supabase is unreachable
+async function insertCached(table: CachedTable, userId: string, row: Row): Promise<number> {
+  const canQueue = isLocalDbAvailable()
+  if (canQueue && (isOffline() || hasTempReference(row))) return queueInsert(userId, table, row)
+  const { data, error } = await supabase.from(table).insert(row).select('*').single()
+  if (error) {
+    if (canQueue && isNetworkError(new Error(error.message))) return queueInsert(userId, table, row)
+    throw new Error(error.message)
+  }
+  if (canQueue && data?.id) {
+    await putCachedRow(userId, table, data).catch(err => console.warn('[VetSoft] Cache write failed:', err))
+  }
+  return data?.id
+}
+
+// Update a row; queued locally if Supabase is unreachable or the row has unsynced changes
+async function updateCached(table: CachedTable, userId: string, id: number, updates: Row): Promise<void> {
+  const canQueue = isLocalDbAvailable()
+  if (canQueue && (isOffline() || id < 0 || await hasPendingMutation(userId, table, id))) {
+    return queueUpdate(userId, table, id, updates)
+  }
+  const { error } = await supabase
+    .from(table)
+    .update(updates)
+    .eq('id', id)
+    .eq('user_id', userId)
+  if (error) {
+    if (canQueue && isNetworkError(new Error(error.message))) return queueUpdate(userId, table, id, updates)
+    throw new Error(error.message)
+  }
+  if (canQueue) {
+    await patchCachedRow(userId, table, id, updates).catch(err => console.warn('[VetSoft] Cache write failed:', err))
+  }
+}
+
+// Delete a row; queued locally if Supabase is unreachable
+async function deleteCached(table: CachedTable, userId: string, id: number): Promise<void> {
+  const canQueue = isLocalDbAvailable()
+  if (canQueue && (isOffline() || id < 0)) return queueDelete(userId, table, id)
+  const { error } = await supabase.from(table).delete().eq('id', id).eq('user_id', userId)
+  if (error) {
+    if (canQueue && isNetworkError(new Error(error.message))) return queueDelete(userId, table, id)
+    throw new Error(error.message)
+  }
+  if (canQueue) {
+    await deleteCachedRow(userId, table, id).catch(err => console.warn('[VetSoft] Cache write failed:', err))
+  }
+}
+
+// Call a stock function (migration 025): the quantity is updated in place and the ledger row and
+// sale line are written in one transaction. Queued with `apply` mirroring it in the cache if
+// Supabase is unreachable. Returns the id of the `table` row the call created or changed.
+async function callStockRpc(
+  userId: string,
+  rpc: string,
+  table: CachedTable,
+  args: Row,
+  apply: (db: VetSoftLocalDB, recordId: number) => Promise<void>,
+  recordId?: number
+): Promise<number | undefined> {
+  const canQueue = isLocalDbAvailable()
+  const queue = () => queueRpc(userId, rpc, table, args, apply, recordId)
+  if (canQueue && (
+    isOffline() || hasTempReference(args) ||
+    (recordId !== undefined && await hasPendingMutation(userId, table, recordId))
+  )) return queue()
+  const { data, error } = await supabase.rpc(rpc, rpcArgs(args))
+  if (error) {
+    if (canQueue && isNetworkError(new Error(error.message))) return queue()
+    throw new Error(error.message)
+  }
+  const result = (data ?? {}) as Row
+  if (canQueue) {
+    await cacheRpcResult(getLocalDb(userId), result).catch(err => console.warn('[VetSoft] Cache write failed:', err))
+  }
+  return ((result[table] as Row | undefined)?.id as number | undefined) ?? recordId
+}
+
 // Helper: map DB row to Client (snake_case -> camelCase)
 function mapClient(row: Record<string, unknown>): Client {
   return {
@@ -60,6 +314,9 @@ function mapClient(row: Record<string, unknown>): Client {
     state: row.state as string,
     zipCode: row.zip_code as string,
     notes: row.notes as string,
+    language: (row.language as Client['language']) || '',
+    notificationChannels: (row.notification_channels as Client['notificationChannels']) ?? ['email'],
+    channelConsent: (row.channel_consent as Client['channelConsent']) ?? {},
     createdAt: (row.created_at as string) || new Date().toISOString(),
     updatedAt: (row.updated_at as string) || new Date().toISOString()
   }
@@ -84,6 +341,7 @@ function mapPet(row: Record<string, unknown>): Pet {
     lastSurgery: row.last_surgery as string | undefined,
     allergies: row.allergies as string | undefined,
     medicalNotes: row.medical_notes as string | undefined,
+    alerts: Array.isArray(row.alerts) ? (row.alerts as PetAlert[]) : [],
     notes: row.notes as string,
     createdAt: (row.created_at as string) || new Date().toISOString(),
     updatedAt: (row.updated_at as string) || new Date().toISOString()
@@ -102,12 +360,16 @@ function mapAppointment(row: Record<string, unknown>): Appointment {
     type: row.type as Appointment['type'],
     status: row.status as Appointment['status'],
     veterinarian: row.veterinarian as string,
+    veterinarianId: (row.veterinarian_id as number | null) ?? undefined,
+    seriesId: (row.series_id as number | null) ?? undefined,
     notes: row.notes as string,
     totalAmount: row.total_amount != null ? Number(row.total_amount) : undefined,
     amountPaid: row.amount_paid != null ? Number(row.amount_paid) : undefined,
     googleCalendarEventId: row.google_calendar_event_id as string | undefined,
+    googleSyncPending: row.google_sync_pending as boolean | undefined,
     emailSent: row.email_sent as boolean | undefined,
     reminderSent: row.reminder_sent as boolean | undefined,
+    reminderSentFor: (row.reminder_sent_for as string | null) ?? undefined,
     createdAt: (row.created_at as string) || new Date().toISOString(),
     updatedAt: (row.updated_at as string) || new Date().toISOString()
   }
@@ -126,41 +388,50 @@ function mapSetting(row: Record<string, unknown>): Setting {
 
 export async function getAllClients(): Promise<Client[]> {
   const userId = await getUserId()
-  const { data, error } = await supabase
-    .from('clients')
-    .select('*')
-    .eq('user_id', userId)
-    .order('created_at', { ascending: false })
+  const rows = await selectCached('clients', userId, async () => {
+    const { data, error } = await supabase
+      .from('clients')
+      .select('*')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false })
 
-  if (error) throw new Error(error.message)
-  return (data || []).map(mapClient)
+    if (error) throw new Error(error.message)
+    return data || []
+  }, t => t.toCollection(), { column: 'created_at', ascending: false })
+  return rows.map(mapClient)
 }
 
 export async function getClientById(id: number): Promise<Client | undefined> {
   const userId = await getUserId()
-  const { data, error } = await supabase
-    .from('clients')
-    .select('*')
-    .eq('id', id)
-    .eq('user_id', userId)
-    .single()
+  const [row] = await selectCached('clients', userId, async () => {
+    const { data, error } = await supabase
+      .from('clients')
+      .select('*')
+      .eq('id', id)
+      .eq('user_id', userId)
+      .single()
 
-  if (error && error.code !== 'PGRST116') throw new Error(error.message)
-  return data ? mapClient(data) : undefined
+    if (error && error.code !== 'PGRST116') throw new Error(error.message)
+    return data ? [data] : []
+  }, t => t.where('id').equals(id))
+  return row ? mapClient(row) : undefined
 }
 
 export async function getClientByEmail(email: string): Promise<Client | undefined> {
   const userId = await getUserId()
-  const { data, error } = await supabase
-    .from('clients')
-    .select('*')
-    .eq('user_id', userId)
-    .eq('email', email)
-    .limit(1)
-    .maybeSingle()
+  const [row] = await selectCached('clients', userId, async () => {
+    const { data, error } = await supabase
+      .from('clients')
+      .select('*')
+      .eq('user_id', userId)
+      .eq('email', email)
+      .limit(1)
+      .maybeSingle()
 
-  if (error) throw new Error(error.message)
-  return data ? mapClient(data) : undefined
+    if (error) throw new Error(error.message)
+    return data ? [data] : []
+  }, t => t.where('email').equals(email))
+  return row ? mapClient(row) : undefined
 }
 
 export async function searchClients(query: string): Promise<Client[]> {
@@ -180,28 +451,26 @@ export async function addClient(client: CreateClientInput): Promise<number> {
   }
   const userId = await getUserId()
   const now = new Date().toISOString()
-  const { data, error } = await supabase
-    .from('clients')
-    .insert({
-      user_id: userId,
-      first_name: client.firstName,
-      last_name: client.lastName,
-      email: client.email,
-      phone: client.phone || '',
-      address: client.address || '',
-      city: client.city || '',
-      state: client.state || '',
-      zip_code: client.zipCode || '',
-      notes: client.notes || '',
-      created_at: now,
-      updated_at: now
-    })
-    .select('id')
-    .single()
+  const id = await insertCached('clients', userId, {
+    user_id: userId,
+    first_name: client.firstName,
+    last_name: client.lastName,
+    email: client.email,
+    phone: client.phone || '',
+    address: client.address || '',
+    city: client.city || '',
+    state: client.state || '',
+    zip_code: client.zipCode || '',
+    notes: client.notes || '',
+    language: client.language || '',
+    notification_channels: client.notificationChannels ?? ['email'],
+    channel_consent: client.channelConsent ?? {},
+    created_at: now,
+    updated_at: now
+  })
 
-  if (error) throw new Error(error.message)
-  if (!data?.id) throw new Error('Failed to create client: no ID returned')
-  return data.id
+  if (!id) throw new Error('Failed to create client: no ID returned')
+  return id
 }
 
 export async function updateClient(id: number, updates: UpdateClientInput): Promise<number> {
@@ -216,21 +485,17 @@ export async function updateClient(id: number, updates: UpdateClientInput): Prom
   if (updates.state !== undefined) updateObj.state = updates.state
   if (updates.zipCode !== undefined) updateObj.zip_code = updates.zipCode
   if (updates.notes !== undefined) updateObj.notes = updates.notes
+  if (updates.language !== undefined) updateObj.language = updates.language
+  if (updates.notificationChannels !== undefined) updateObj.notification_channels = updates.notificationChannels
+  if (updates.channelConsent !== undefined) updateObj.channel_consent = updates.channelConsent
 
-  const { error } = await supabase
-    .from('clients')
-    .update(updateObj)
-    .eq('id', id)
-    .eq('user_id', userId)
-
-  if (error) throw new Error(error.message)
+  await updateCached('clients', userId, id, updateObj)
   return id
 }
 
 export async function deleteClient(id: number): Promise<void> {
   const userId = await getUserId()
-  const { error } = await supabase.from('clients').delete().eq('id', id).eq('user_id', userId)
-  if (error) throw new Error(error.message)
+  await deleteCached('clients', userId, id)
 }
 
 export async function getClientCount(): Promise<number> {
@@ -242,39 +507,48 @@ export async function getClientCount(): Promise<number> {
 
 export async function getAllPets(): Promise<Pet[]> {
   const userId = await getUserId()
-  const { data, error } = await supabase
-    .from('pets')
-    .select('*')
-    .eq('user_id', userId)
-    .order('created_at', { ascending: false })
+  const rows = await selectCached('pets', userId, async () => {
+    const { data, error } = await supabase
+      .from('pets')
+      .select('*')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false })
 
-  if (error) throw new Error(error.message)
-  return (data || []).map(mapPet)
+    if (error) throw new Error(error.message)
+    return data || []
+  }, t => t.toCollection(), { column: 'created_at', ascending: false })
+  return rows.map(mapPet)
 }
 
 export async function getPetById(id: number): Promise<Pet | undefined> {
   const userId = await getUserId()
-  const { data, error } = await supabase
-    .from('pets')
-    .select('*')
-    .eq('id', id)
-    .eq('user_id', userId)
-    .single()
+  const [row] = await selectCached('pets', userId, async () => {
+    const { data, error } = await supabase
+      .from('pets')
+      .select('*')
+      .eq('id', id)
+      .eq('user_id', userId)
+      .single()
 
-  if (error && error.code !== 'PGRST116') throw new Error(error.message)
-  return data ? mapPet(data) : undefined
+    if (error && error.code !== 'PGRST116') throw new Error(error.message)
+    return data ? [data] : []
+  }, t => t.where('id').equals(id))
+  return row ? mapPet(row) : undefined
 }
 
 export async function getPetsByClientId(clientId: number): Promise<Pet[]> {
   const userId = await getUserId()
-  const { data, error } = await supabase
-    .from('pets')
-    .select('*')
-    .eq('user_id', userId)
-    .eq('client_id', clientId)
+  const rows = await selectCached('pets', userId, async () => {
+    const { data, error } = await supabase
+      .from('pets')
+      .select('*')
+      .eq('user_id', userId)
+      .eq('client_id', clientId)
 
-  if (error) throw new Error(error.message)
-  return (data || []).map(mapPet)
+    if (error) throw new Error(error.message)
+    return data || []
+  }, t => t.where('client_id').equals(clientId))
+  return rows.map(mapPet)
 }
 
 export async function searchPets(query: string): Promise<Pet[]> {
@@ -310,15 +584,12 @@ export async function addPet(pet: CreatePetInput): Promise<number> {
     created_at: now,
     updated_at: now
   }
-  const { data, error } = await supabase
-    .from('pets')
-    .insert(insertData)
-    .select('id')
-    .single()
+  // Migration 023 - only sent when set so pets can still be added before it is run
+  if (pet.alerts?.length) insertData.alerts = pet.alerts
+  const id = await insertCached('pets', userId, insertData)
 
-  if (error) throw new Error(error.message)
-  if (!data?.id) throw new Error('Failed to create pet: no ID returned')
-  return data.id
+  if (!id) throw new Error('Failed to create pet: no ID returned')
+  return id
 }
 
 export async function updatePet(id: number, updates: UpdatePetInput): Promise<number> {
@@ -339,22 +610,16 @@ export async function updatePet(id: number, updates: UpdatePetInput): Promise<nu
   if (updates.lastSurgery !== undefined) updateObj.last_surgery = updates.lastSurgery
   if (updates.allergies !== undefined) updateObj.allergies = updates.allergies
   if (updates.medicalNotes !== undefined) updateObj.medical_notes = updates.medicalNotes
+  if (updates.alerts !== undefined) updateObj.alerts = updates.alerts
   if (updates.notes !== undefined) updateObj.notes = updates.notes
 
-  const { error } = await supabase
-    .from('pets')
-    .update(updateObj)
-    .eq('id', id)
-    .eq('user_id', userId)
-
-  if (error) throw new Error(error.message)
+  await updateCached('pets', userId, id, updateObj)
   return id
 }
 
 export async function deletePet(id: number): Promise<void> {
   const userId = await getUserId()
-  const { error } = await supabase.from('pets').delete().eq('id', id).eq('user_id', userId)
-  if (error) throw new Error(error.message)
+  await deleteCached('pets', userId, id)
 }
 
 export async function getPetCount(): Promise<number> {
@@ -366,63 +631,78 @@ export async function getPetCount(): Promise<number> {
 
 export async function getAllAppointments(): Promise<Appointment[]> {
   const userId = await getUserId()
-  const { data, error } = await supabase
-    .from('appointments')
-    .select('*')
-    .eq('user_id', userId)
-    .order('date', { ascending: false })
+  const rows = await selectCached('appointments', userId, async () => {
+    const { data, error } = await supabase
+      .from('appointments')
+      .select('*')
+      .eq('user_id', userId)
+      .order('date', { ascending: false })
 
-  if (error) throw new Error(error.message)
-  return (data || []).map(mapAppointment)
+    if (error) throw new Error(error.message)
+    return data || []
+  }, t => t.toCollection(), { column: 'date', ascending: false })
+  return rows.map(mapAppointment)
 }
 
 export async function getAppointmentById(id: number): Promise<Appointment | undefined> {
   const userId = await getUserId()
-  const { data, error } = await supabase
-    .from('appointments')
-    .select('*')
-    .eq('id', id)
-    .eq('user_id', userId)
-    .single()
+  const [row] = await selectCached('appointments', userId, async () => {
+    const { data, error } = await supabase
+      .from('appointments')
+      .select('*')
+      .eq('id', id)
+      .eq('user_id', userId)
+      .single()
 
-  if (error && error.code !== 'PGRST116') throw new Error(error.message)
-  return data ? mapAppointment(data) : undefined
+    if (error && error.code !== 'PGRST116') throw new Error(error.message)
+    return data ? [data] : []
+  }, t => t.where('id').equals(id))
+  return row ? mapAppointment(row) : undefined
 }
 
 export async function getAppointmentsByClientId(clientId: number): Promise<Appointment[]> {
   const userId = await getUserId()
-  const { data, error } = await supabase
-    .from('appointments')
-    .select('*')
-    .eq('user_id', userId)
-    .eq('client_id', clientId)
+  const rows = await selectCached('appointments', userId, async () => {
+    const { data, error } = await supabase
+      .from('appointments')
+      .select('*')
+      .eq('user_id', userId)
+      .eq('client_id', clientId)
 
-  if (error) throw new Error(error.message)
-  return (data || []).map(mapAppointment)
+    if (error) throw new Error(error.message)
+    return data || []
+  }, t => t.where('client_id').equals(clientId))
+  return rows.map(mapAppointment)
 }
 
 export async function getAppointmentsByPetId(petId: number): Promise<Appointment[]> {
   const userId = await getUserId()
-  const { data, error } = await supabase
-    .from('appointments')
-    .select('*')
-    .eq('user_id', userId)
-    .eq('pet_id', petId)
+  const rows = await selectCached('appointments', userId, async () => {
+    const { data, error } = await supabase
+      .from('appointments')
+      .select('*')
+      .eq('user_id', userId)
+      .eq('pet_id', petId)
 
-  if (error) throw new Error(error.message)
-  return (data || []).map(mapAppointment)
+    if (error) throw new Error(error.message)
+    return data || []
+  }, t => t.where('pet_id').equals(petId))
+  return rows.map(mapAppointment)
 }
 
 export async function getAppointmentsByDate(date: string): Promise<Appointment[]> {
   const userId = await getUserId()
-  const { data, error } = await supabase
-    .from('appointments')
-    .select('*')
-    .eq('user_id', userId)
-    .eq('date', date)
+  const rows = await selectCached('appointments', userId, async () => {
+    const { data, error } = await supabase
+      .from('appointments')
+      .select('*')
+      .eq('user_id', userId)
+      .eq('date', date)
 
-  if (error) throw new Error(error.message)
-  return (data || []).map(mapAppointment)
+    if (error) throw new Error(error.message)
+    return data || []
+  }, t => t.where('date').equals(date))
+  return rows.map(mapAppointment)
 }
 
 export async function getAppointmentsByDateRange(
@@ -430,30 +710,36 @@ export async function getAppointmentsByDateRange(
   endDate: string
 ): Promise<Appointment[]> {
   const userId = await getUserId()
-  const { data, error } = await supabase
-    .from('appointments')
-    .select('*')
-    .eq('user_id', userId)
-    .gte('date', startDate)
-    .lte('date', endDate)
-    .order('date', { ascending: true })
+  const rows = await selectCached('appointments', userId, async () => {
+    const { data, error } = await supabase
+      .from('appointments')
+      .select('*')
+      .eq('user_id', userId)
+      .gte('date', startDate)
+      .lte('date', endDate)
+      .order('date', { ascending: true })
 
-  if (error) throw new Error(error.message)
-  return (data || []).map(mapAppointment)
+    if (error) throw new Error(error.message)
+    return data || []
+  }, t => t.where('date').between(startDate, endDate, true, true), { column: 'date', ascending: true })
+  return rows.map(mapAppointment)
 }
 
 export async function getAppointmentsByStatus(
   status: Appointment['status']
 ): Promise<Appointment[]> {
   const userId = await getUserId()
-  const { data, error } = await supabase
-    .from('appointments')
-    .select('*')
-    .eq('user_id', userId)
-    .eq('status', status)
+  const rows = await selectCached('appointments', userId, async () => {
+    const { data, error } = await supabase
+      .from('appointments')
+      .select('*')
+      .eq('user_id', userId)
+      .eq('status', status)
 
-  if (error) throw new Error(error.message)
-  return (data || []).map(mapAppointment)
+    if (error) throw new Error(error.message)
+    return data || []
+  }, t => t.where('status').equals(status))
+  return rows.map(mapAppointment)
 }
 
 export async function getUpcomingAppointments(limit: number = 10): Promise<Appointment[]> {
@@ -467,34 +753,33 @@ export async function getUpcomingAppointments(limit: number = 10): Promise<Appoi
 export async function addAppointment(appointment: CreateAppointmentInput): Promise<number> {
   const userId = await getUserId()
   const now = new Date().toISOString()
-  const { data, error } = await supabase
-    .from('appointments')
-    .insert({
-      user_id: userId,
-      pet_id: appointment.petId,
-      client_id: appointment.clientId,
-      date: appointment.date,
-      time: appointment.time,
-      duration: appointment.duration ?? 30,
-      type: appointment.type,
-      status: appointment.status,
-      veterinarian: appointment.veterinarian || '',
-      notes: appointment.notes || '',
-      total_amount: appointment.totalAmount ?? 0,
-      amount_paid: appointment.amountPaid ?? 0,
-      google_calendar_event_id: appointment.googleCalendarEventId,
-      email_sent: appointment.emailSent ?? false,
-      reminder_sent: appointment.reminderSent ?? false,
-      created_at: now,
-      updated_at: now
-    })
-    .select('id')
-    .single()
-
-  if (error) throw new Error(error.message)
-  return data.id
+  return insertCached('appointments', userId, {
+    user_id: userId,
+    pet_id: appointment.petId,
+    client_id: appointment.clientId,
+    date: appointment.date,
+    time: appointment.time,
+    duration: appointment.duration ?? 30,
+    type: appointment.type,
+    status: appointment.status,
+    veterinarian: appointment.veterinarian || '',
+    veterinarian_id: appointment.veterinarianId ?? null,
+    series_id: appointment.seriesId ?? null,
+    notes: appointment.notes || '',
+    total_amount: appointment.totalAmount ?? 0,
+    amount_paid: appointment.amountPaid ?? 0,
+    google_calendar_event_id: appointment.googleCalendarEventId,
+    google_sync_pending: appointment.googleSyncPending ?? false,
+    email_sent: appointment.emailSent ?? false,
+    reminder_sent: appointment.reminderSent ?? false,
+    created_at: now,
+    updated_at: now
+  })
 }
 
+// Fields that make up the Google Calendar event of an appointment
+const SCHEDULE_FIELDS = ['date', 'time', 'duration', 'type', 'notes', 'status'] as const
+
 export async function updateAppointment(
   id: number,
   updates: UpdateAppointmentInput
@@ -509,32 +794,83 @@ export async function updateAppointment(
   if (updates.type !== undefined) updateObj.type = updates.type
   if (updates.status !== undefined) updateObj.status = updates.status
   if (updates.veterinarian !== undefined) updateObj.veterinarian = updates.veterinarian
+  if (updates.veterinarianId !== undefined) updateObj.veterinarian_id = updates.veterinarianId
+  if (updates.seriesId !== undefined) updateObj.series_id = updates.seriesId
   if (updates.notes !== undefined) updateObj.notes = updates.notes
   if (updates.googleCalendarEventId !== undefined)
     updateObj.google_calendar_event_id = updates.googleCalendarEventId
+  if (updates.googleSyncPending !== undefined) updateObj.google_sync_pending = updates.googleSyncPending
   if (updates.emailSent !== undefined) updateObj.email_sent = updates.emailSent
   if (updates.reminderSent !== undefined) updateObj.reminder_sent = updates.reminderSent
+  if (updates.reminderSentFor !== undefined) updateObj.reminder_sent_for = updates.reminderSentFor
   if (updates.totalAmount !== undefined) updateObj.total_amount = updates.totalAmount
   if (updates.amountPaid !== undefined) updateObj.amount_paid = updates.amountPaid
 
-  const { error } = await supabase
+  const changed = (keys: readonly (keyof UpdateAppointmentInput)[], current: Appointment) =>
+    keys.some(key => updates[key] !== undefined && updates[key] !== current[key])
+  const touchesSchedule = SCHEDULE_FIELDS.some(key => updates[key] !== undefined)
+  if (touchesSchedule && (updates.reminderSent === undefined || updates.googleSyncPending === undefined)) {
+    const current = await getAppointmentById(id)
+    // A rescheduled appointment gets a new reminder (a trigger does the same in Supabase, migration 028)
+    if (current && updates.reminderSent === undefined && changed(['date', 'time'], current)) {
+      updateObj.reminder_sent = false
+      updateObj.reminder_sent_for = null
+    }
+    // Schedule edits not pushed by the caller are flagged for the next Google Calendar sync
+    if (current?.googleCalendarEventId && updates.googleSyncPending === undefined && changed(SCHEDULE_FIELDS, current)) {
+      updateObj.google_sync_pending = true
+    }
+  }
+
+  await updateCached('appointments', userId, id, updateObj)
+  return id
+}
+
+/**
+ * Mark the reminder for the appointment's current slot as sent before sending it; false when another
+ * device already claimed it or the appointment moved or was cancelled meanwhile. Needs the server
+ * (never queued offline), so two devices cannot both send it.
+ */
+export async function claimAppointmentReminder(appointment: Appointment, slot: string): Promise<boolean> {
+  const userId = await getUserId()
+  const updates = { reminder_sent: true, reminder_sent_for: slot }
+  const { data, error } = await supabase
     .from('appointments')
-    .update(updateObj)
-    .eq('id', id)
+    .update(updates)
+    .eq('id', appointment.id!)
     .eq('user_id', userId)
-
+    .eq('date', appointment.date)
+    .eq('time', appointment.time)
+    .in('status', ['scheduled', 'confirmed'])
+    .or(`reminder_sent.is.false,reminder_sent.is.null,reminder_sent_for.neq."${slot}"`)
+    .select('id')
   if (error) throw new Error(error.message)
-  return id
+  if ((data || []).length === 0) return false
+  if (isLocalDbAvailable()) {
+    await patchCachedRow(userId, 'appointments', appointment.id!, updates).catch(err => console.warn('[VetSoft] Cache write failed:', err))
+  }
+  return true
 }
 
-export async function deleteAppointment(id: number): Promise<void> {
+/** Give back a claimed reminder that could not be sent, so the next pass retries it. */
+export async function releaseAppointmentReminder(appointment: Appointment, slot: string): Promise<void> {
   const userId = await getUserId()
+  const updates = { reminder_sent: false, reminder_sent_for: null }
   const { error } = await supabase
     .from('appointments')
-    .delete()
-    .eq('id', id)
+    .update(updates)
+    .eq('id', appointment.id!)
     .eq('user_id', userId)
+    .eq('reminder_sent_for', slot)
   if (error) throw new Error(error.message)
+  if (isLocalDbAvailable()) {
+    await patchCachedRow(userId, 'appointments', appointment.id!, updates).catch(err => console.warn('[VetSoft] Cache write failed:', err))
+  }
+}
+
+export async function deleteAppointment(id: number): Promise<void> {
+  const userId = await getUserId()
+  await deleteCached('appointments', userId, id)
 }
 
 export async function getAppointmentCount(): Promise<number> {
@@ -547,28 +883,304 @@ export async function getTodayAppointments(): Promise<Appointment[]> {
   return getAppointmentsByDate(today)
 }
 
-// ==================== USERS (Supabase Auth handles users - these are for app profiles if needed) ====================
-// Note: We don't have a separate users table - Supabase auth.users is the source
-// Keeping these for compatibility but they won't be used with Supabase Auth
+// ==================== APPOINTMENT SERIES ====================
 
-export async function getAllUsers(): Promise<never[]> {
-  return []
-}
-
-export async function getUserById(_id: number): Promise<undefined> {
-  return undefined
-}
-
-export async function getUserByEmail(_email: string): Promise<undefined> {
-  return undefined
+function mapAppointmentSeries(row: Record<string, unknown>): AppointmentSeries {
+  return {
+    id: row.id as number,
+    clientId: row.client_id as number,
+    petId: row.pet_id as number,
+    rule: {
+      frequency: row.frequency as AppointmentSeries['rule']['frequency'],
+      interval: Number(row.interval) || 1,
+      count: row.occurrences != null ? Number(row.occurrences) : undefined,
+      until: (row.until_date as string | null) ?? undefined
+    },
+    googleCalendarEventId: (row.google_calendar_event_id as string | null) ?? undefined,
+    createdAt: (row.created_at as string) || new Date().toISOString(),
+    updatedAt: (row.updated_at as string) || new Date().toISOString()
+  }
 }
 
-export async function addUser(_user: CreateUserInput): Promise<number> {
-  throw new Error('Use Supabase Auth for user management')
-}
+export async function getAppointmentSeriesById(id: number): Promise<AppointmentSeries | undefined> {
+  const userId = await getUserId()
+  const [row] = await selectCached('appointment_series', userId, async () => {
+    const { data, error } = await supabase
+      .from('appointment_series')
+      .select('*')
+      .eq('id', id)
+      .eq('user_id', userId)
+      .single()
 
-export async function deleteUser(_id: number): Promise<void> {
-  throw new Error('Use Supabase Auth for user management')
+    if (error && error.code !== 'PGRST116') throw new Error(error.message)
+    return data ? [data] : []
+  }, t => t.where('id').equals(id))
+  return row ? mapAppointmentSeries(row) : undefined
+}
+
+export async function getAppointmentsBySeriesId(seriesId: number): Promise<Appointment[]> {
+  const userId = await getUserId()
+  const rows = await selectCached('appointments', userId, async () => {
+    const { data, error } = await supabase
+      .from('appointments')
+      .select('*')
+      .eq('user_id', userId)
+      .eq('series_id', seriesId)
+      .order('date', { ascending: true })
+
+    if (error) throw new Error(error.message)
+    return data || []
+  }, t => t.where('series_id').equals(seriesId), { column: 'date', ascending: true })
+  return rows.map(mapAppointment)
+}
+
+export async function addAppointmentSeries(series: CreateAppointmentSeriesInput): Promise<number> {
+  const userId = await getUserId()
+  const now = new Date().toISOString()
+  return insertCached('appointment_series', userId, {
+    user_id: userId,
+    client_id: series.clientId,
+    pet_id: series.petId,
+    frequency: series.rule.frequency,
+    interval: series.rule.interval,
+    occurrences: series.rule.count ?? null,
+    until_date: series.rule.until ?? null,
+    google_calendar_event_id: series.googleCalendarEventId ?? null,
+    created_at: now,
+    updated_at: now
+  })
+}
+
+export async function updateAppointmentSeries(
+  id: number,
+  updates: Partial<CreateAppointmentSeriesInput>
+): Promise<number> {
+  const userId = await getUserId()
+  const updateObj: Record<string, unknown> = { updated_at: new Date().toISOString() }
+  if (updates.rule !== undefined) {
+    updateObj.frequency = updates.rule.frequency
+    updateObj.interval = updates.rule.interval
+    updateObj.occurrences = updates.rule.count ?? null
+    updateObj.until_date = updates.rule.until ?? null
+  }
+  if (updates.googleCalendarEventId !== undefined)
+    updateObj.google_calendar_event_id = updates.googleCalendarEventId
+  await updateCached('appointment_series', userId, id, updateObj)
+  return id
+}
+
+// ==================== VETERINARIANS ====================
+
+function mapVeterinarian(row: Record<string, unknown>): Veterinarian {
+  return {
+    id: row.id as number,
+    name: row.name as string,
+    email: row.email as string | undefined,
+    phone: row.phone as string | undefined,
+    color: (row.color as string) || '#0D9488',
+    specialties: (row.specialties as string[]) || [],
+    workingHours: (row.working_hours as Veterinarian['workingHours']) || {},
+    daysOff: (row.days_off as string[]) || [],
+    active: row.active !== false,
+    createdAt: (row.created_at as string) || new Date().toISOString(),
+    updatedAt: (row.updated_at as string) || new Date().toISOString()
+  }
+}
+
+export async function getAllVeterinarians(): Promise<Veterinarian[]> {
+  const userId = await getUserId()
+  const rows = await selectCached('veterinarians', userId, async () => {
+    const { data, error } = await supabase
+      .from('veterinarians')
+      .select('*')
+      .eq('user_id', userId)
+      .order('name', { ascending: true })
+    if (error) throw new Error(error.message)
+    return data || []
+  }, t => t.toCollection(), { column: 'name', ascending: true })
+  return rows.map(mapVeterinarian)
+}
+
+export async function addVeterinarian(vet: CreateVeterinarianInput): Promise<number> {
+  const userId = await getUserId()
+  const now = new Date().toISOString()
+  return insertCached('veterinarians', userId, {
+    user_id: userId,
+    name: vet.name,
+    email: vet.email || '',
+    phone: vet.phone || '',
+    color: vet.color,
+    specialties: vet.specialties,
+    working_hours: vet.workingHours,
+    days_off: vet.daysOff,
+    active: vet.active,
+    created_at: now,
+    updated_at: now
+  })
+}
+
+export async function updateVeterinarian(id: number, updates: UpdateVeterinarianInput): Promise<number> {
+  const userId = await getUserId()
+  const updateObj: Record<string, unknown> = { updated_at: new Date().toISOString() }
+  if (updates.name !== undefined) updateObj.name = updates.name
+  if (updates.email !== undefined) updateObj.email = updates.email
+  if (updates.phone !== undefined) updateObj.phone = updates.phone
+  if (updates.color !== undefined) updateObj.color = updates.color
+  if (updates.specialties !== undefined) updateObj.specialties = updates.specialties
+  if (updates.workingHours !== undefined) updateObj.working_hours = updates.workingHours
+  if (updates.daysOff !== undefined) updateObj.days_off = updates.daysOff
+  if (updates.active !== undefined) updateObj.active = updates.active
+  await updateCached('veterinarians', userId, id, updateObj)
+  return id
+}
+
+export async function deleteVeterinarian(id: number): Promise<void> {
+  const userId = await getUserId()
+  await deleteCached('veterinarians', userId, id)
+}
+
+// ==================== USERS (clinic staff - logins come from Supabase Auth) ====================
+
+function mapClinicMember(row: Record<string, unknown>): ClinicMember {
+  return {
+    id: row.id as number,
+    clinicId: row.clinic_id as number,
+    userId: row.user_id as string,
+    email: row.email as string,
+    name: (row.name as string) || '',
+    role: row.role as UserRole,
+    createdAt: row.created_at as string
+  }
+}
+
+function memberToUser(member: ClinicMember): User {
+  return {
+    id: member.id,
+    email: member.email,
+    name: member.name || member.email,
+    role: member.role,
+    createdAt: member.createdAt
+  }
+}
+
+async function requireClinic(): Promise<ClinicContext> {
+  const clinic = await getClinicContext()
+  if (!clinic) throw new Error('Clinic accounts are not set up (run migration 008_clinics.sql)')
+  return clinic
+}
+
+export async function getClinicMembers(): Promise<ClinicMember[]> {
+  const clinic = await requireClinic()
+  const { data, error } = await supabase
+    .from('clinic_members')
+    .select('*')
+    .eq('clinic_id', clinic.clinicId)
+    .order('created_at', { ascending: true })
+  if (error) throw new Error(error.message)
+  return (data || []).map(mapClinicMember)
+}
+
+export async function getAllUsers(): Promise<User[]> {
+  const members = await getClinicMembers()
+  return members.map(memberToUser)
+}
+
+export async function getUserById(id: number): Promise<User | undefined> {
+  const users = await getAllUsers()
+  return users.find(u => u.id === id)
+}
+
+export async function getUserByEmail(email: string): Promise<User | undefined> {
+  const users = await getAllUsers()
+  return users.find(u => u.email.toLowerCase() === email.toLowerCase())
+}
+
+// Invite a staff member - they join the clinic the first time they sign in with this email
+export async function addUser(user: CreateUserInput): Promise<number> {
+  await requireAdmin('invite staff')
+  const clinic = await requireClinic()
+  const authUserId = await getAuthUserId()
+  const { data, error } = await supabase
+    .from('clinic_invitations')
+    .upsert({
+      clinic_id: clinic.clinicId,
+      email: user.email.trim().toLowerCase(),
+      role: user.role,
+      invited_by: authUserId,
+      accepted_at: null
+    }, { onConflict: 'clinic_id,email' })
+    .select('id')
+    .single()
+  if (error) throw new Error(error.message)
+  return data.id
+}
+
+export async function getClinicInvitations(): Promise<ClinicInvitation[]> {
+  const clinic = await requireClinic()
+  const { data, error } = await supabase
+    .from('clinic_invitations')
+    .select('*')
+    .eq('clinic_id', clinic.clinicId)
+    .is('accepted_at', null)
+    .order('created_at', { ascending: false })
+  if (error) throw new Error(error.message)
+  return (data || []).map((row: Record<string, unknown>) => ({
+    id: row.id as number,
+    clinicId: row.clinic_id as number,
+    email: row.email as string,
+    role: row.role as UserRole,
+    acceptedAt: row.accepted_at as string | undefined,
+    createdAt: row.created_at as string
+  }))
+}
+
+export async function deleteClinicInvitation(id: number): Promise<void> {
+  await requireAdmin('manage invitations')
+  const { error } = await supabase.from('clinic_invitations').delete().eq('id', id)
+  if (error) throw new Error(error.message)
+}
+
+export async function updateUserRole(id: number, role: UserRole): Promise<void> {
+  await requireAdmin('change staff roles')
+  const { error } = await supabase.from('clinic_members').update({ role }).eq('id', id)
+  if (error) throw new Error(error.message)
+}
+
+export async function deleteUser(id: number): Promise<void> {
+  await requireAdmin('remove staff')
+  const authUserId = await getAuthUserId()
+  const { data: member, error: fetchError } = await supabase
+    .from('clinic_members')
+    .select('user_id')
+    .eq('id', id)
+    .single()
+  if (fetchError) throw new Error(fetchError.message)
+  if (member.user_id === authUserId) throw new Error('You cannot remove yourself from the clinic')
+  const { error } = await supabase.from('clinic_members').delete().eq('id', id)
+  if (error) throw new Error(error.message)
+}
+
+export async function updateClinicName(name: string): Promise<void> {
+  await requireAdmin('rename the clinic')
+  const clinic = await requireClinic()
+  const { error } = await supabase.from('clinics').update({ name }).eq('id', clinic.clinicId)
+  if (error) throw new Error(error.message)
+  clearClinicContext()
+}
+
+// IANA time zone of the clinic (migration 032) - the server checks past slots against it
+export async function getClinicTimeZone(): Promise<string | undefined> {
+  const clinic = await requireClinic()
+  const { data, error } = await supabase.from('clinics').select('time_zone').eq('id', clinic.clinicId).single()
+  if (error) throw new Error(error.message)
+  return (data.time_zone as string | null) ?? undefined
+}
+
+export async function updateClinicTimeZone(timeZone: string): Promise<void> {
+  await requireAdmin('change the clinic time zone')
+  const clinic = await requireClinic()
+  const { error } = await supabase.from('clinics').update({ time_zone: timeZone }).eq('id', clinic.clinicId)
+  if (error) throw new Error(error.message)
 }
 
 // ==================== SETTINGS ====================
@@ -623,6 +1235,15 @@ export async function setSetting(key: string, value: string): Promise<number> {
   return data.id
 }
 
+// Settings of the signed-in staff member rather than the clinic (stored under "<key>:<auth user id>")
+export async function getUserSettingValue(key: string): Promise<string | undefined> {
+  return getSettingValue(`${key}:${await getAuthUserId()}`)
+}
+
+export async function setUserSetting(key: string, value: string): Promise<number> {
+  return setSetting(`${key}:${await getAuthUserId()}`, value)
+}
+
 export async function deleteSetting(key: string): Promise<void> {
   const userId = await getUserId()
   const setting = await getSettingByKey(key)
@@ -649,6 +1270,7 @@ function mapInventoryItem(row: Record<string, unknown>): InventoryItem {
     price: Number(row.price) || 0,
     photoUrl: row.photo_url as string | undefined,
     sku: row.sku as string | undefined,
+    dosing: (row.dosing as InventoryItem['dosing'] | null) ?? undefined,
     createdAt: row.created_at as string | undefined,
     updatedAt: row.updated_at as string | undefined
   }
@@ -656,49 +1278,55 @@ function mapInventoryItem(row: Record<string, unknown>): InventoryItem {
 
 export async function getAllInventory(): Promise<InventoryItem[]> {
   const userId = await getUserId()
-  const { data, error } = await supabase
-    .from('inventory')
-    .select('*')
-    .eq('user_id', userId)
-    .order('created_at', { ascending: false })
-  if (error) throw new Error(error.message)
-  return (data || []).map(mapInventoryItem)
+  const rows = await selectCached('inventory', userId, async () => {
+    const { data, error } = await supabase
+      .from('inventory')
+      .select('*')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false })
+    if (error) throw new Error(error.message)
+    return data || []
+  }, t => t.toCollection(), { column: 'created_at', ascending: false })
+  return rows.map(mapInventoryItem)
 }
 
 export async function getInventoryById(id: number): Promise<InventoryItem | undefined> {
   const userId = await getUserId()
-  const { data, error } = await supabase
-    .from('inventory')
-    .select('*')
-    .eq('id', id)
-    .eq('user_id', userId)
-    .single()
-  if (error && error.code !== 'PGRST116') throw new Error(error.message)
-  return data ? mapInventoryItem(data) : undefined
+  const [row] = await selectCached('inventory', userId, async () => {
+    const { data, error } = await supabase
+      .from('inventory')
+      .select('*')
+      .eq('id', id)
+      .eq('user_id', userId)
+      .single()
+    if (error && error.code !== 'PGRST116') throw new Error(error.message)
+    return data ? [data] : []
+  }, t => t.where('id').equals(id))
+  return row ? mapInventoryItem(row) : undefined
 }
 
 export async function addInventoryItem(item: CreateInventoryInput): Promise<number> {
   const userId = await getUserId()
   const now = new Date().toISOString()
-  const { data, error } = await supabase
-    .from('inventory')
-    .insert({
-      user_id: userId,
-      name: item.name,
-      type: item.type,
-      description: item.description || '',
-      quantity: item.quantity ?? 0,
-      unit: item.unit || 'unit',
-      price: item.price ?? 0,
-      photo_url: item.photoUrl || '',
-      sku: item.sku || '',
-      created_at: now,
-      updated_at: now
-    })
-    .select('id')
-    .single()
-  if (error) throw new Error(error.message)
-  return data.id
+  const quantity = item.quantity ?? 0
+  const id = await insertCached('inventory', userId, {
+    user_id: userId,
+    name: item.name,
+    type: item.type,
+    description: item.description || '',
+    quantity,
+    unit: item.unit || 'unit',
+    price: item.price ?? 0,
+    photo_url: item.photoUrl || '',
+    sku: item.sku || '',
+    dosing: item.dosing ?? null,
+    created_at: now,
+    updated_at: now
+  })
+  if (quantity !== 0) {
+    await insertMovement(userId, { inventoryId: id, type: 'restock', quantity, notes: 'Initial stock' }, quantity)
+  }
+  return id
 }
 
 export async function updateInventoryItem(id: number, updates: UpdateInventoryInput): Promise<number> {
@@ -707,100 +1335,206 @@ export async function updateInventoryItem(id: number, updates: UpdateInventoryIn
   if (updates.name !== undefined) updateObj.name = updates.name
   if (updates.type !== undefined) updateObj.type = updates.type
   if (updates.description !== undefined) updateObj.description = updates.description
-  if (updates.quantity !== undefined) updateObj.quantity = updates.quantity
   if (updates.unit !== undefined) updateObj.unit = updates.unit
   if (updates.price !== undefined) updateObj.price = updates.price
   if (updates.photoUrl !== undefined) updateObj.photo_url = updates.photoUrl
   if (updates.sku !== undefined) updateObj.sku = updates.sku
-  const { error } = await supabase
-    .from('inventory')
-    .update(updateObj)
-    .eq('id', id)
-    .eq('user_id', userId)
-  if (error) throw new Error(error.message)
+  if (updates.dosing !== undefined) updateObj.dosing = updates.dosing
+  await updateCached('inventory', userId, id, updateObj)
+  // Quantity is never written directly - a stock count records the difference as an adjustment
+  if (updates.quantity !== undefined) {
+    const count = updates.quantity
+    await callStockRpc(userId, 'record_inventory_movement', 'inventory_movements', {
+      inventory_id: id,
+      type: 'adjustment',
+      count
+    }, async (db, movementId) => {
+      const cached = await db.inventory.get(id)
+      const delta = count - Number(cached?.quantity ?? 0)
+      await cacheQueuedMovement(db, { user_id: userId, inventory_id: id, type: 'adjustment', quantity: delta }, movementId)
+    })
+  }
   return id
 }
 
 export async function deleteInventoryItem(id: number): Promise<void> {
   const userId = await getUserId()
-  const { error } = await supabase.from('inventory').delete().eq('id', id).eq('user_id', userId)
-  if (error) throw new Error(error.message)
+  await deleteCached('inventory', userId, id)
+}
+
+// ==================== INVENTORY MOVEMENTS (stock ledger) ====================
+
+function mapInventoryMovement(row: Record<string, unknown>): InventoryMovement {
+  return {
+    id: row.id as number,
+    inventoryId: row.inventory_id as number,
+    type: row.type as InventoryMovement['type'],
+    quantity: Number(row.quantity) || 0,
+    quantityAfter: Number(row.quantity_after) || 0,
+    appointmentId: (row.appointment_id as number | null) ?? undefined,
+    saleItemId: (row.sale_item_id as number | null) ?? undefined,
+    unitCost: row.unit_cost != null ? Number(row.unit_cost) : undefined,
+    reference: row.reference as string | undefined,
+    notes: row.notes as string | undefined,
+    createdAt: row.created_at as string | undefined
+  }
+}
+
+async function insertMovement(
+  userId: string,
+  movement: CreateInventoryMovementInput,
+  quantityAfter: number
+): Promise<number> {
+  return insertCached('inventory_movements', userId, {
+    user_id: userId,
+    inventory_id: movement.inventoryId,
+    type: movement.type,
+    quantity: movement.quantity,
+    quantity_after: quantityAfter,
+    appointment_id: movement.appointmentId ?? null,
+    sale_item_id: movement.saleItemId ?? null,
+    unit_cost: movement.unitCost ?? null,
+    reference: movement.reference || '',
+    notes: movement.notes || '',
+    created_at: new Date().toISOString()
+  })
+}
+
+export async function getInventoryMovements(inventoryId: number): Promise<InventoryMovement[]> {
+  const userId = await getUserId()
+  const rows = await selectCached('inventory_movements', userId, async () => {
+    const { data, error } = await supabase
+      .from('inventory_movements')
+      .select('*')
+      .eq('user_id', userId)
+      .eq('inventory_id', inventoryId)
+      .order('created_at', { ascending: false })
+    if (error) throw new Error(error.message)
+    return data || []
+  }, t => t.where('inventory_id').equals(inventoryId), { column: 'created_at', ascending: false })
+  return rows.map(mapInventoryMovement)
+}
+
+// Record a stock movement and apply it to inventory.quantity.
+// movement.quantity is signed: sales and write-offs are negative, restocks and returns positive.
+export async function recordInventoryMovement(movement: CreateInventoryMovementInput): Promise<number> {
+  const userId = await getUserId()
+  const args = {
+    inventory_id: movement.inventoryId,
+    type: movement.type,
+    quantity: movement.quantity,
+    appointment_id: movement.appointmentId ?? null,
+    sale_item_id: movement.saleItemId ?? null,
+    unit_cost: movement.unitCost ?? null,
+    reference: movement.reference || '',
+    notes: movement.notes || ''
+  }
+  const id = await callStockRpc(userId, 'record_inventory_movement', 'inventory_movements', args,
+    (db, movementId) => cacheQueuedMovement(db, { user_id: userId, ...args }, movementId))
+  if (id === undefined) throw new Error('Stock movement was not recorded')
+  return id
 }
 
 // ==================== MEDICAL RECORDS ====================
 
+const optionalNumber = (value: unknown) => value != null && value !== '' ? Number(value) : undefined
+
 function mapMedicalRecord(row: Record<string, unknown>): MedicalRecord {
   return {
     id: row.id as number,
     appointmentId: row.appointment_id as number,
     petId: row.pet_id as number,
-    symptoms: row.symptoms as string | undefined,
-    diagnosis: row.diagnosis as string | undefined,
-    treatment: row.treatment as string | undefined,
+    // Rows cached before migration 020 only have the legacy free-text columns
+    subjective: (row.subjective || row.symptoms) as string | undefined,
+    objective: row.objective as string | undefined,
+    assessment: (row.assessment || row.diagnosis) as string | undefined,
+    plan: (row.plan || row.treatment) as string | undefined,
+    vitals: {
+      temperature: optionalNumber(row.temperature),
+      heartRate: optionalNumber(row.heart_rate),
+      respiratoryRate: optionalNumber(row.respiratory_rate),
+      weight: optionalNumber(row.weight),
+      bodyConditionScore: optionalNumber(row.body_condition_score),
+      painScore: optionalNumber(row.pain_score)
+    },
     notes: row.notes as string | undefined,
     createdAt: row.created_at as string | undefined
   }
 }
 
+function vitalsToRow(vitals: MedicalRecord['vitals']): Record<string, unknown> {
+  return {
+    temperature: vitals.temperature ?? null,
+    heart_rate: vitals.heartRate ?? null,
+    respiratory_rate: vitals.respiratoryRate ?? null,
+    weight: vitals.weight ?? null,
+    body_condition_score: vitals.bodyConditionScore ?? null,
+    pain_score: vitals.painScore ?? null
+  }
+}
+
 export async function getMedicalRecordsByAppointment(appointmentId: number): Promise<MedicalRecord[]> {
   const userId = await getUserId()
-  const { data, error } = await supabase
-    .from('medical_records')
-    .select('*')
-    .eq('user_id', userId)
-    .eq('appointment_id', appointmentId)
-  if (error) throw new Error(error.message)
-  return (data || []).map(mapMedicalRecord)
+  const rows = await selectCached('medical_records', userId, async () => {
+    const { data, error } = await supabase
+      .from('medical_records')
+      .select('*')
+      .eq('user_id', userId)
+      .eq('appointment_id', appointmentId)
+    if (error) throw new Error(error.message)
+    return data || []
+  }, t => t.where('appointment_id').equals(appointmentId))
+  return rows.map(mapMedicalRecord)
 }
 
 export async function getMedicalRecordsByPet(petId: number): Promise<MedicalRecord[]> {
   const userId = await getUserId()
-  const { data, error } = await supabase
-    .from('medical_records')
-    .select('*')
-    .eq('user_id', userId)
-    .eq('pet_id', petId)
-    .order('created_at', { ascending: false })
-  if (error) throw new Error(error.message)
-  return (data || []).map(mapMedicalRecord)
+  const rows = await selectCached('medical_records', userId, async () => {
+    const { data, error } = await supabase
+      .from('medical_records')
+      .select('*')
+      .eq('user_id', userId)
+      .eq('pet_id', petId)
+      .order('created_at', { ascending: false })
+    if (error) throw new Error(error.message)
+    return data || []
+  }, t => t.where('pet_id').equals(petId), { column: 'created_at', ascending: false })
+  return rows.map(mapMedicalRecord)
 }
 
 export async function addMedicalRecord(record: Omit<MedicalRecord, 'id' | 'createdAt'>): Promise<number> {
   const userId = await getUserId()
-  const { data, error } = await supabase
-    .from('medical_records')
-    .insert({
-      user_id: userId,
-      appointment_id: record.appointmentId,
-      pet_id: record.petId,
-      symptoms: record.symptoms || '',
-      diagnosis: record.diagnosis || '',
-      treatment: record.treatment || '',
-      notes: record.notes || ''
-    })
-    .select('id')
-    .single()
-  if (error) throw new Error(error.message)
-  return data.id
+  return insertCached('medical_records', userId, {
+    user_id: userId,
+    appointment_id: record.appointmentId,
+    pet_id: record.petId,
+    subjective: record.subjective || '',
+    objective: record.objective || '',
+    assessment: record.assessment || '',
+    plan: record.plan || '',
+    // Mirrored into the legacy columns for app versions before migration 020
+    symptoms: record.subjective || '',
+    diagnosis: record.assessment || '',
+    treatment: record.plan || '',
+    ...vitalsToRow(record.vitals),
+    notes: record.notes || ''
+  })
 }
 
 export async function updateMedicalRecord(
   id: number,
-  updates: Partial<Pick<MedicalRecord, 'symptoms' | 'diagnosis' | 'treatment' | 'notes'>>
+  updates: Partial<Pick<MedicalRecord, 'subjective' | 'objective' | 'assessment' | 'plan' | 'vitals' | 'notes'>>
 ): Promise<void> {
   const userId = await getUserId()
   const updateObj: Record<string, unknown> = {}
-  if (updates.symptoms !== undefined) updateObj.symptoms = updates.symptoms
-  if (updates.diagnosis !== undefined) updateObj.diagnosis = updates.diagnosis
-  if (updates.treatment !== undefined) updateObj.treatment = updates.treatment
+  if (updates.subjective !== undefined) updateObj.subjective = updateObj.symptoms = updates.subjective
+  if (updates.objective !== undefined) updateObj.objective = updates.objective
+  if (updates.assessment !== undefined) updateObj.assessment = updateObj.diagnosis = updates.assessment
+  if (updates.plan !== undefined) updateObj.plan = updateObj.treatment = updates.plan
+  if (updates.vitals !== undefined) Object.assign(updateObj, vitalsToRow(updates.vitals))
   if (updates.notes !== undefined) updateObj.notes = updates.notes
   if (Object.keys(updateObj).length === 0) return
-  const { error } = await supabase
-    .from('medical_records')
-    .update(updateObj)
-    .eq('id', id)
-    .eq('user_id', userId)
-  if (error) throw new Error(error.message)
+  await updateCached('medical_records', userId, id, updateObj)
 }
 
 // ==================== VACCINES ====================
@@ -812,6 +1546,9 @@ function mapVaccine(row: Record<string, unknown>): Vaccine {
     name: row.name as string,
     dateAdministered: row.date_administered as string,
     nextDueDate: row.next_due_date as string | undefined,
+    protocolId: (row.protocol_id as string) || undefined,
+    doseNumber: (row.dose_number as number) ?? undefined,
+    plannedDoses: Array.isArray(row.planned_doses) ? (row.planned_doses as Vaccine['plannedDoses']) : [],
     notes: row.notes as string | undefined,
     createdAt: row.created_at as string | undefined
   }
@@ -819,81 +1556,410 @@ function mapVaccine(row: Record<string, unknown>): Vaccine {
 
 export async function getVaccinesByPet(petId: number): Promise<Vaccine[]> {
   const userId = await getUserId()
-  const { data, error } = await supabase
-    .from('vaccines')
-    .select('*')
-    .eq('user_id', userId)
-    .eq('pet_id', petId)
-    .order('date_administered', { ascending: false })
-  if (error) throw new Error(error.message)
-  return (data || []).map(mapVaccine)
+  const rows = await selectCached('vaccines', userId, async () => {
+    const { data, error } = await supabase
+      .from('vaccines')
+      .select('*')
+      .eq('user_id', userId)
+      .eq('pet_id', petId)
+      .order('date_administered', { ascending: false })
+    if (error) throw new Error(error.message)
+    return data || []
+  }, t => t.where('pet_id').equals(petId), { column: 'date_administered', ascending: false })
+  return rows.map(mapVaccine)
 }
 
+// Matches the vaccine protocol for the pet's species: an empty nextDueDate is filled in with the
+// protocol's next dose or booster, and the rest of the series is kept in planned_doses
+// (see services/vaccineProtocols.ts)
 export async function addVaccine(vaccine: Omit<Vaccine, 'id' | 'createdAt'>): Promise<number> {
   const userId = await getUserId()
-  const { data, error } = await supabase
-    .from('vaccines')
-    .insert({
-      user_id: userId,
-      pet_id: vaccine.petId,
-      name: vaccine.name,
-      date_administered: vaccine.dateAdministered,
-      next_due_date: vaccine.nextDueDate || '',
-      notes: vaccine.notes || ''
-    })
-    .select('id')
-    .single()
-  if (error) throw new Error(error.message)
-  return data.id
-}
-
-export async function deleteVaccine(id: number): Promise<void> {
+  const [pet, history, settings] = await Promise.all([
+    getPetById(vaccine.petId),
+    getVaccinesByPet(vaccine.petId),
+    getAllSettings()
+  ])
+  const plan = pet && planNewVaccine(vaccine, pet, history, vaccineProtocolsFromSettings(settings))
+  return insertCached('vaccines', userId, {
+    user_id: userId,
+    pet_id: vaccine.petId,
+    name: vaccine.name,
+    date_administered: vaccine.dateAdministered,
+    next_due_date: vaccine.nextDueDate || plan?.nextDueDate || '',
+    protocol_id: plan?.protocol.id ?? '',
+    dose_number: plan?.doseNumber ?? null,
+    planned_doses: vaccine.nextDueDate ? [] : plan?.boosters ?? [],
+    notes: vaccine.notes || ''
+  })
+}
+
+// Every vaccine record of the clinic (recalls need the latest dose of each vaccine per pet)
+export async function getAllVaccines(): Promise<Vaccine[]> {
   const userId = await getUserId()
-  const { error } = await supabase.from('vaccines').delete().eq('id', id).eq('user_id', userId)
-  if (error) throw new Error(error.message)
+  const rows = await selectCached('vaccines', userId, async () => {
+    const { data, error } = await supabase
+      .from('vaccines')
+      .select('*')
+      .eq('user_id', userId)
+      .order('date_administered', { ascending: false })
+    if (error) throw new Error(error.message)
+    return data || []
+  }, t => t.toCollection(), { column: 'date_administered', ascending: false })
+  return rows.map(mapVaccine)
 }
 
-// ==================== SALE ITEMS (medications sold in appointment) ====================
+export async function deleteVaccine(id: number): Promise<void> {
+  const userId = await getUserId()
+  await deleteCached('vaccines', userId, id)
+}
 
-export async function getSaleItemsByAppointment(appointmentId: number): Promise<SaleItem[]> {
+// ==================== VACCINE RECALLS ====================
+// Online only (not mirrored in IndexedDB) - log of recall emails, calls and bookings
+
+function mapVaccineRecall(row: Record<string, unknown>): VaccineRecall {
+  return {
+    id: row.id as number,
+    vaccineId: row.vaccine_id as number,
+    petId: row.pet_id as number,
+    clientId: row.client_id as number,
+    method: row.method as VaccineRecall['method'],
+    outcome: row.outcome as VaccineRecall['outcome'],
+    appointmentId: (row.appointment_id as number) ?? undefined,
+    notes: (row.notes as string) || undefined,
+    createdAt: row.created_at as string
+  }
+}
+
+export async function getVaccineRecalls(since?: string): Promise<VaccineRecall[]> {
   const userId = await getUserId()
-  const { data, error } = await supabase
-    .from('sale_items')
+  let query = supabase
+    .from('vaccine_recalls')
     .select('*')
     .eq('user_id', userId)
-    .eq('appointment_id', appointmentId)
+    .order('created_at', { ascending: false })
+  if (since) query = query.gte('created_at', since)
+  const { data, error } = await query
   if (error) throw new Error(error.message)
-  return (data || []).map((row: Record<string, unknown>) => ({
+  return (data || []).map(mapVaccineRecall)
+}
+
+export async function addVaccineRecalls(recalls: CreateVaccineRecallInput[]): Promise<VaccineRecall[]> {
+  if (recalls.length === 0) return []
+  const userId = await getUserId()
+  const { data, error } = await supabase
+    .from('vaccine_recalls')
+    .insert(recalls.map(r => ({
+      user_id: userId,
+      vaccine_id: r.vaccineId,
+      pet_id: r.petId,
+      client_id: r.clientId,
+      method: r.method,
+      outcome: r.outcome,
+      appointment_id: r.appointmentId ?? null,
+      notes: r.notes || ''
+    })))
+    .select('*')
+  if (error) throw new Error(error.message)
+  return (data || []).map(mapVaccineRecall)
+}
+
+// ==================== SALE ITEMS (medications sold in appointment) ====================
+
+function mapSaleItem(row: Record<string, unknown>): SaleItem {
+  return {
     id: row.id as number,
     appointmentId: row.appointment_id as number,
     inventoryId: row.inventory_id as number,
     quantity: Number(row.quantity) || 1,
     unitPrice: Number(row.unit_price) || 0,
+    doseOverrideReason: (row.dose_override_reason as string) || undefined,
     createdAt: row.created_at as string | undefined
-  }))
+  }
 }
 
+export async function getSaleItemsByAppointment(appointmentId: number): Promise<SaleItem[]> {
+  const userId = await getUserId()
+  const rows = await selectCached('sale_items', userId, async () => {
+    const { data, error } = await supabase
+      .from('sale_items')
+      .select('*')
+      .eq('user_id', userId)
+      .eq('appointment_id', appointmentId)
+    if (error) throw new Error(error.message)
+    return data || []
+  }, t => t.where('appointment_id').equals(appointmentId))
+  return rows.map(mapSaleItem)
+}
+
+// Selling an item deducts it from stock through the ledger (sale line and movement in one call)
 export async function addSaleItem(item: Omit<SaleItem, 'id' | 'createdAt'>): Promise<number> {
+  const userId = await getUserId()
+  const [appointment, inventoryItem] = await Promise.all([
+    getAppointmentById(item.appointmentId),
+    getInventoryById(item.inventoryId)
+  ])
+  if (appointment && inventoryItem) {
+    // Drug allergy alerts block the sale (sell_inventory_item checks again on the server)
+    const alerts = blockingAlerts(await getPetById(appointment.petId), inventoryItem)
+    if (alerts.length > 0) throw new Error(blockedSaleMessage(inventoryItem, alerts))
+  }
+  const args = {
+    appointment_id: item.appointmentId,
+    inventory_id: item.inventoryId,
+    quantity: item.quantity,
+    unit_price: item.unitPrice,
+    dose_override_reason: item.doseOverrideReason || ''
+  }
+  const id = await callStockRpc(userId, 'sell_inventory_item', 'sale_items', args, async (db, saleItemId) => {
+    await db.sale_items.put({ ...args, user_id: userId, created_at: new Date().toISOString(), id: saleItemId })
+    await cacheQueuedMovement(db, { inventory_id: item.inventoryId, quantity: -item.quantity })
+  })
+  if (id === undefined) throw new Error('Sale item was not recorded')
+  return id
+}
+
+// Changing a sale line's quantity moves the difference in or out of stock
+export async function updateSaleItem(
+  id: number,
+  updates: Partial<Pick<SaleItem, 'quantity' | 'unitPrice' | 'doseOverrideReason'>>
+): Promise<void> {
+  const userId = await getUserId()
+  const updateObj: Record<string, unknown> = {}
+  if (updates.quantity !== undefined) updateObj.quantity = updates.quantity
+  if (updates.unitPrice !== undefined) updateObj.unit_price = updates.unitPrice
+  if (updates.doseOverrideReason !== undefined) updateObj.dose_override_reason = updates.doseOverrideReason
+  if (Object.keys(updateObj).length === 0) return
+  await callStockRpc(userId, 'update_sale_item', 'sale_items', { sale_item_id: id, ...updateObj }, async db => {
+    const cached = await db.sale_items.get(id)
+    if (!cached) return
+    await db.sale_items.update(id, updateObj)
+    const delta = (updates.quantity ?? Number(cached.quantity)) - Number(cached.quantity)
+    if (delta !== 0) await cacheQueuedMovement(db, { inventory_id: cached.inventory_id, quantity: -delta })
+  }, id)
+}
+
+// Removing a sale line puts its quantity back in stock
+export async function deleteSaleItem(id: number): Promise<void> {
+  const userId = await getUserId()
+  await callStockRpc(userId, 'delete_sale_item', 'sale_items', { sale_item_id: id }, async db => {
+    const cached = await db.sale_items.get(id)
+    if (!cached) return
+    await db.sale_items.delete(id)
+    await cacheQueuedMovement(db, { inventory_id: cached.inventory_id, quantity: Number(cached.quantity) })
+  }, id)
+  if (isLocalDbAvailable()) {
+    await deleteCachedRow(userId, 'sale_items', id).catch(err => console.warn('[VetSoft] Cache write failed:', err))
+  }
+}
+
+// ==================== PRESCRIPTIONS ====================
+// Online only (not mirrored in IndexedDB) - fills are sold by dispense_prescription (migration 026),
+// which claims the refill, uses it up and sells the fill in one transaction. The first fill goes on
+// the prescribing appointment; each refill on an appointment of its own.
+
+function mapPrescription(row: Record<string, unknown>): Prescription {
+  return {
+    id: row.id as number,
+    appointmentId: row.appointment_id as number,
+    petId: row.pet_id as number,
+    inventoryId: row.inventory_id as number,
+    dose: row.dose as string,
+    route: row.route as Prescription['route'],
+    frequency: row.frequency as string,
+    durationDays: row.duration_days != null ? Number(row.duration_days) : undefined,
+    quantity: Number(row.quantity) || 1,
+    refillsAllowed: Number(row.refills_allowed) || 0,
+    refillsRemaining: Number(row.refills_remaining) || 0,
+    instructions: (row.instructions as string) || undefined,
+    prescribedBy: (row.prescribed_by as string) || undefined,
+    status: row.status as Prescription['status'],
+    createdAt: row.created_at as string,
+    updatedAt: row.updated_at as string
+  }
+}
+
+function mapPrescriptionRefill(row: Record<string, unknown>): PrescriptionRefill {
+  return {
+    id: row.id as number,
+    prescriptionId: row.prescription_id as number,
+    status: row.status as PrescriptionRefill['status'],
+    saleItemId: (row.sale_item_id as number | null) ?? undefined,
+    notes: (row.notes as string) || undefined,
+    requestedAt: row.requested_at as string,
+    resolvedAt: (row.resolved_at as string | null) ?? undefined
+  }
+}
+
+async function getPrescriptionsBy(column: 'appointment_id' | 'pet_id', value: number): Promise<Prescription[]> {
+  const userId = await getUserId()
+  const { data, error } = await supabase
+    .from('prescriptions')
+    .select('*')
+    .eq('user_id', userId)
+    .eq(column, value)
+    .order('created_at', { ascending: false })
+  if (error) throw new Error(error.message)
+  return (data || []).map(mapPrescription)
+}
+
+export async function getPrescriptionsByAppointment(appointmentId: number): Promise<Prescription[]> {
+  return getPrescriptionsBy('appointment_id', appointmentId)
+}
+
+export async function getPrescriptionsByPet(petId: number): Promise<Prescription[]> {
+  return getPrescriptionsBy('pet_id', petId)
+}
+
+async function getPrescriptionById(id: number): Promise<Prescription> {
   const userId = await getUserId()
   const { data, error } = await supabase
-    .from('sale_items')
+    .from('prescriptions')
+    .select('*')
+    .eq('id', id)
+    .eq('user_id', userId)
+    .single()
+  if (error) throw new Error(error.message)
+  return mapPrescription(data)
+}
+
+// Sells one fill (the first one, or the given refill) with its stock deduction
+async function dispensePrescription(
+  prescription: Prescription,
+  refillId?: number
+): Promise<{ prescription: Prescription; refill?: PrescriptionRefill }> {
+  const item = await getInventoryById(prescription.inventoryId)
+  if (!item) throw new Error('Medication not found in inventory')
+  // Also covers refills: the alert may have been added after the prescription
+  const alerts = blockingAlerts(await getPetById(prescription.petId), item)
+  if (alerts.length > 0) throw new Error(blockedSaleMessage(item, alerts))
+  const now = new Date()
+  const { data, error } = await supabase.rpc('dispense_prescription', {
+    p_prescription_id: prescription.id,
+    p_refill_id: refillId ?? null,
+    p_date: toDateString(now),
+    p_time: toTimeOfDay(now)
+  })
+  if (error) throw new Error(error.message)
+  return {
+    prescription: mapPrescription(data.prescription),
+    refill: data.refill ? mapPrescriptionRefill(data.refill) : undefined
+  }
+}
+
+/** Creates the prescription; with dispense the first fill is sold right away */
+export async function addPrescription(
+  prescription: CreatePrescriptionInput,
+  options: { dispense?: boolean } = {}
+): Promise<Prescription> {
+  const userId = await getUserId()
+  const now = new Date().toISOString()
+  const { data, error } = await supabase
+    .from('prescriptions')
     .insert({
       user_id: userId,
-      appointment_id: item.appointmentId,
-      inventory_id: item.inventoryId,
-      quantity: item.quantity,
-      unit_price: item.unitPrice
+      appointment_id: prescription.appointmentId,
+      pet_id: prescription.petId,
+      inventory_id: prescription.inventoryId,
+      dose: prescription.dose,
+      route: prescription.route,
+      frequency: prescription.frequency,
+      duration_days: prescription.durationDays ?? null,
+      quantity: prescription.quantity,
+      refills_allowed: prescription.refillsAllowed,
+      refills_remaining: prescription.refillsAllowed,
+      instructions: prescription.instructions || '',
+      prescribed_by: prescription.prescribedBy || '',
+      status: 'active',
+      created_at: now,
+      updated_at: now
     })
-    .select('id')
+    .select()
     .single()
   if (error) throw new Error(error.message)
-  return data.id
+  const created = mapPrescription(data)
+  if (!options.dispense) return created
+  try {
+    await dispensePrescription(created)
+  } catch (err) {
+    // Nothing was sold: don't leave a prescription the staff thinks failed
+    await supabase.from('prescriptions').delete().eq('id', created.id).eq('user_id', userId)
+    throw err
+  }
+  return created
 }
 
-export async function deleteSaleItem(id: number): Promise<void> {
+export async function updatePrescriptionStatus(id: number, status: Prescription['status']): Promise<void> {
+  const userId = await getUserId()
+  const { error } = await supabase
+    .from('prescriptions')
+    .update({ status, updated_at: new Date().toISOString() })
+    .eq('id', id)
+    .eq('user_id', userId)
+  if (error) throw new Error(error.message)
+}
+
+export async function getPrescriptionRefills(prescriptionIds: number[]): Promise<PrescriptionRefill[]> {
+  if (prescriptionIds.length === 0) return []
+  const userId = await getUserId()
+  const { data, error } = await supabase
+    .from('prescription_refills')
+    .select('*')
+    .eq('user_id', userId)
+    .in('prescription_id', prescriptionIds)
+    .order('requested_at', { ascending: false })
+  if (error) throw new Error(error.message)
+  return (data || []).map(mapPrescriptionRefill)
+}
+
+export async function requestPrescriptionRefill(prescriptionId: number, notes?: string): Promise<PrescriptionRefill> {
+  const userId = await getUserId()
+  const prescription = await getPrescriptionById(prescriptionId)
+  if (prescription.status !== 'active') throw new Error('The prescription is no longer active')
+  if (prescription.refillsRemaining <= 0) throw new Error('No refills left on this prescription')
+  const { data, error } = await supabase
+    .from('prescription_refills')
+    .insert({ user_id: userId, prescription_id: prescriptionId, status: 'requested', notes: notes || '' })
+    .select()
+    .single()
+  if (error) throw new Error(error.message)
+  return mapPrescriptionRefill(data)
+}
+
+async function resolvePrescriptionRefill(
+  userId: string,
+  id: number,
+  updates: { status: 'dispensed' | 'rejected'; sale_item_id?: number; notes?: string }
+): Promise<PrescriptionRefill> {
+  const { data, error } = await supabase
+    .from('prescription_refills')
+    .update({ ...updates, resolved_at: new Date().toISOString() })
+    .eq('id', id)
+    .eq('user_id', userId)
+    .eq('status', 'requested')
+    .select()
+    .single()
+  if (error) throw new Error(error.code === 'PGRST116' ? 'The refill request was already handled' : error.message)
+  return mapPrescriptionRefill(data)
+}
+
+/** Sells the refill and uses up one of the prescription's refills */
+export async function dispensePrescriptionRefill(refillId: number): Promise<PrescriptionRefill> {
   const userId = await getUserId()
-  const { error } = await supabase.from('sale_items').delete().eq('id', id).eq('user_id', userId)
+  const { data: row, error } = await supabase
+    .from('prescription_refills')
+    .select('*')
+    .eq('id', refillId)
+    .eq('user_id', userId)
+    .single()
   if (error) throw new Error(error.message)
+  const refill = mapPrescriptionRefill(row)
+  const { refill: dispensed } = await dispensePrescription(await getPrescriptionById(refill.prescriptionId), refillId)
+  return dispensed!
+}
+
+export async function rejectPrescriptionRefill(refillId: number, notes?: string): Promise<PrescriptionRefill> {
+  const userId = await getUserId()
+  return resolvePrescriptionRefill(userId, refillId, { status: 'rejected', ...(notes ? { notes } : {}) })
 }
 
 // ==================== APPOINTMENT ATTACHMENTS ====================
@@ -970,15 +2036,759 @@ export async function uploadAppointmentAttachment(
   return { id, appointmentId, fileUrl: publicUrl, fileName: file.name, fileType: file.type }
 }
 
+// ==================== LAB RESULTS ====================
+// Online only (not mirrored in IndexedDB) - the source report is embedded from appointment_attachments
+
+const LAB_RESULT_SELECT = '*, appointment_attachments(file_url, file_name)'
+
+function mapLabResult(row: Record<string, unknown>): LabResult {
+  const attachment = row.appointment_attachments as { file_url: string; file_name: string } | null
+  return {
+    id: row.id as number,
+    appointmentId: row.appointment_id as number,
+    petId: row.pet_id as number,
+    panel: row.panel as LabResult['panel'],
+    attachmentId: (row.attachment_id as number | null) ?? undefined,
+    attachment: attachment ? { fileUrl: attachment.file_url, fileName: attachment.file_name } : undefined,
+    collectedAt: row.collected_at as string,
+    values: Array.isArray(row.values) ? (row.values as LabValue[]) : [],
+    notes: (row.notes as string) || undefined,
+    createdAt: row.created_at as string
+  }
+}
+
+async function getLabResultsBy(column: 'appointment_id' | 'pet_id', value: number): Promise<LabResult[]> {
+  const userId = await getUserId()
+  const { data, error } = await supabase
+    .from('lab_results')
+    .select(LAB_RESULT_SELECT)
+    .eq('user_id', userId)
+    .eq(column, value)
+    .order('collected_at', { ascending: false })
+    .order('created_at', { ascending: false })
+  if (error) throw new Error(error.message)
+  return (data || []).map(mapLabResult)
+}
+
+export async function getLabResultsByAppointment(appointmentId: number): Promise<LabResult[]> {
+  return getLabResultsBy('appointment_id', appointmentId)
+}
+
+export async function getLabResultsByPet(petId: number): Promise<LabResult[]> {
+  return getLabResultsBy('pet_id', petId)
+}
+
+export async function addLabResult(result: CreateLabResultInput): Promise<LabResult> {
+  const userId = await getUserId()
+  const { data, error } = await supabase
+    .from('lab_results')
+    .insert({
+      user_id: userId,
+      appointment_id: result.appointmentId,
+      pet_id: result.petId,
+      panel: result.panel,
+      attachment_id: result.attachmentId ?? null,
+      collected_at: result.collectedAt,
+      values: result.values,
+      notes: result.notes || ''
+    })
+    .select(LAB_RESULT_SELECT)
+    .single()
+  if (error) throw new Error(error.message)
+  return mapLabResult(data)
+}
+
+export async function deleteLabResult(id: number): Promise<void> {
+  const userId = await getUserId()
+  const { error } = await supabase
+    .from('lab_results')
+    .delete()
+    .eq('id', id)
+    .eq('user_id', userId)
+  if (error) throw new Error(error.message)
+}
+
+// ==================== WAITLIST ====================
+// Online only (not mirrored in IndexedDB) - offers are claimed from a public link on the server
+
+function mapWaitlistEntry(row: Record<string, unknown>): WaitlistEntry {
+  return {
+    id: row.id as number,
+    clientId: row.client_id as number,
+    petId: row.pet_id as number,
+    type: row.type as Appointment['type'],
+    veterinarianId: (row.veterinarian_id as number | null) ?? undefined,
+    dateFrom: row.date_from as string,
+    dateTo: row.date_to as string,
+    timeFrom: String(row.time_from ?? '08:00').slice(0, 5),
+    timeTo: String(row.time_to ?? '20:00').slice(0, 5),
+    duration: Number(row.duration) || 30,
+    notes: (row.notes as string) || '',
+    status: row.status as WaitlistEntry['status'],
+    createdAt: (row.created_at as string) || new Date().toISOString(),
+    updatedAt: (row.updated_at as string) || new Date().toISOString()
+  }
+}
+
+function mapWaitlistOffer(row: Record<string, unknown>): WaitlistOffer {
+  return {
+    id: row.id as number,
+    entryId: row.entry_id as number,
+    cancelledAppointmentId: (row.cancelled_appointment_id as number | null) ?? undefined,
+    date: row.date as string,
+    time: String(row.time).slice(0, 5),
+    duration: Number(row.duration) || 30,
+    type: row.type as Appointment['type'],
+    veterinarian: (row.veterinarian as string) || '',
+    veterinarianId: (row.veterinarian_id as number | null) ?? undefined,
+    token: row.token as string,
+    status: row.status as WaitlistOffer['status'],
+    claimedAppointmentId: (row.claimed_appointment_id as number | null) ?? undefined,
+    expiresAt: row.expires_at as string,
+    createdAt: (row.created_at as string) || new Date().toISOString()
+  }
+}
+
+export async function getWaitlistEntries(): Promise<WaitlistEntry[]> {
+  const userId = await getUserId()
+  const { data, error } = await supabase
+    .from('waitlist_entries')
+    .select('*')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: true })
+  if (error) throw new Error(error.message)
+  return (data || []).map(mapWaitlistEntry)
+}
+
+export async function addWaitlistEntry(entry: CreateWaitlistEntryInput): Promise<number> {
+  const userId = await getUserId()
+  const now = new Date().toISOString()
+  const { data, error } = await supabase
+    .from('waitlist_entries')
+    .insert({
+      user_id: userId,
+      client_id: entry.clientId,
+      pet_id: entry.petId,
+      type: entry.type,
+      veterinarian_id: entry.veterinarianId ?? null,
+      date_from: entry.dateFrom,
+      date_to: entry.dateTo,
+      time_from: entry.timeFrom,
+      time_to: entry.timeTo,
+      duration: entry.duration,
+      notes: entry.notes || '',
+      status: entry.status,
+      created_at: now,
+      updated_at: now
+    })
+    .select('id')
+    .single()
+  if (error) throw new Error(error.message)
+  return data.id as number
+}
+
+export async function updateWaitlistEntry(id: number, updates: UpdateWaitlistEntryInput): Promise<void> {
+  const userId = await getUserId()
+  const updateObj: Record<string, unknown> = { updated_at: new Date().toISOString() }
+  if (updates.clientId !== undefined) updateObj.client_id = updates.clientId
+  if (updates.petId !== undefined) updateObj.pet_id = updates.petId
+  if (updates.type !== undefined) updateObj.type = updates.type
+  if (updates.veterinarianId !== undefined) updateObj.veterinarian_id = updates.veterinarianId ?? null
+  if (updates.dateFrom !== undefined) updateObj.date_from = updates.dateFrom
+  if (updates.dateTo !== undefined) updateObj.date_to = updates.dateTo
+  if (updates.timeFrom !== undefined) updateObj.time_from = updates.timeFrom
+  if (updates.timeTo !== undefined) updateObj.time_to = updates.timeTo
+  if (updates.duration !== undefined) updateObj.duration = updates.duration
+  if (updates.notes !== undefined) updateObj.notes = updates.notes
+  if (updates.status !== undefined) updateObj.status = updates.status
+  const { error } = await supabase
+    .from('waitlist_entries')
+    .update(updateObj)
+    .eq('id', id)
+    .eq('user_id', userId)
+  if (error) throw new Error(error.message)
+}
+
+export async function deleteWaitlistEntry(id: number): Promise<void> {
+  const userId = await getUserId()
+  const { error } = await supabase
+    .from('waitlist_entries')
+    .delete()
+    .eq('id', id)
+    .eq('user_id', userId)
+  if (error) throw new Error(error.message)
+}
+
+export async function getWaitlistOffers(): Promise<WaitlistOffer[]> {
+  const userId = await getUserId()
+  const { data, error } = await supabase
+    .from('waitlist_offers')
+    .select('*')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false })
+  if (error) throw new Error(error.message)
+  return (data || []).map(mapWaitlistOffer)
+}
+
+// One offer per waitlisted client for the same freed slot (each gets its own claim token)
+export async function createWaitlistOffers(offers: CreateWaitlistOfferInput[]): Promise<WaitlistOffer[]> {
+  const userId = await getUserId()
+  const { data, error } = await supabase
+    .from('waitlist_offers')
+    .insert(offers.map(offer => ({
+      user_id: userId,
+      entry_id: offer.entryId,
+      cancelled_appointment_id: offer.cancelledAppointmentId ?? null,
+      date: offer.date,
+      time: offer.time,
+      duration: offer.duration,
+      type: offer.type,
+      veterinarian: offer.veterinarian || '',
+      veterinarian_id: offer.veterinarianId ?? null,
+      expires_at: offer.expiresAt
+    })))
+    .select('*')
+  if (error) throw new Error(error.message)
+  return (data || []).map(mapWaitlistOffer)
+}
+
+// Public claim page (no login): offer details by token
+export async function getPublicWaitlistOffer(token: string): Promise<PublicWaitlistOffer | undefined> {
+  const { data, error } = await supabase.rpc('get_waitlist_offer', { p_token: token })
+  if (error) throw new Error(error.message)
+  const row = (data as Record<string, unknown>[] | null)?.[0]
+  if (!row) return undefined
+  return {
+    status: row.status as WaitlistOffer['status'],
+    date: row.date as string,
+    time: String(row.time).slice(0, 5),
+    duration: Number(row.duration) || 30,
+    type: row.type as Appointment['type'],
+    veterinarian: (row.veterinarian as string) || '',
+    petName: row.pet_name as string,
+    clinicName: row.clinic_name as string,
+    expiresAt: row.expires_at as string
+  }
+}
+
+// Book the offered slot if nobody claimed it first
+export async function claimWaitlistOffer(token: string): Promise<ClaimOfferResult> {
+  const { data, error } = await supabase.rpc('claim_waitlist_offer', { p_token: token })
+  if (error) throw new Error(error.message)
+  return data as ClaimOfferResult
+}
+
+// ==================== ONLINE BOOKING ====================
+// The /book portal runs signed out: it only reads free/busy columns (RLS + column grants, see
+// migration 012) and identifies owners / books through security definer functions.
+
+export async function getOnlineBookingSettings(): Promise<OnlineBookingSettings | undefined> {
+  const clinic = await getClinicContext()
+  if (!clinic) return undefined
+  const { data, error } = await supabase
+    .from('clinics')
+    .select('booking_enabled, booking_slug')
+    .eq('id', clinic.clinicId)
+    .single()
+  if (error) throw new Error(error.message)
+  return { enabled: !!data.booking_enabled, slug: data.booking_slug as string }
+}
+
+export async function setOnlineBookingEnabled(enabled: boolean): Promise<void> {
+  await requireAdmin('change online booking')
+  const clinic = await requireClinic()
+  const { error } = await supabase.from('clinics').update({ booking_enabled: enabled }).eq('id', clinic.clinicId)
+  if (error) throw new Error(error.message)
+}
+
+export async function getBookingClinic(slug: string): Promise<BookingClinic | undefined> {
+  const { data, error } = await supabase.rpc('get_booking_clinic', { p_slug: slug })
+  if (error) throw new Error(error.message)
+  const row = (data as Record<string, unknown>[] | null)?.[0]
+  return row ? { ownerId: row.owner_id as string, name: row.name as string } : undefined
+}
+
+export async function getBookingAvailability(ownerId: string, dateFrom: string, dateTo: string): Promise<BookingAvailability> {
+  const [busy, vets, settings] = await Promise.all([
+    supabase
+      .from('appointments')
+      .select('date, time, duration, type, veterinarian_id')
+      .eq('user_id', ownerId)
+      .gte('date', dateFrom)
+      .lte('date', dateTo),
+    supabase
+      .from('veterinarians')
+      .select('id, working_hours, days_off, active')
+      .eq('user_id', ownerId),
+    supabase
+      .from('settings')
+      .select('key, value')
+      .eq('user_id', ownerId)
+  ])
+  const error = busy.error || vets.error || settings.error
+  if (error) throw new Error(error.message)
+  return {
+    busy: (busy.data || []).map(row => ({
+      date: row.date as string,
+      time: row.time as string,
+      duration: (row.duration as number) || 30,
+      type: row.type as BookingAvailability['busy'][number]['type'],
+      veterinarianId: (row.veterinarian_id as number) ?? undefined
+    })),
+    veterinarians: (vets.data || []).map(row => ({
+      id: row.id as number,
+      workingHours: (row.working_hours as Veterinarian['workingHours']) || {},
+      daysOff: (row.days_off as string[]) || [],
+      active: row.active !== false
+    })),
+    settings: (settings.data || []) as BookingAvailability['settings']
+  }
+}
+
+/** Opaque match token for the owner with this email or phone, undefined when the clinic does not know them. */
+export async function findBookingClient(slug: string, contact: string): Promise<string | undefined> {
+  const { data, error } = await supabase.rpc('find_booking_client', { p_slug: slug, p_contact: contact })
+  if (error) throw new Error(error.message)
+  return (data as string | null) ?? undefined
+}
+
+export async function bookOnlineAppointment(input: OnlineBookingInput): Promise<OnlineBookingResult> {
+  const { data, error } = await supabase.rpc('book_online_appointment', {
+    p_slug: input.slug,
+    p_match: input.match,
+    p_pet_name: input.petName,
+    p_pet_species: input.petSpecies,
+    p_date: input.date,
+    p_time: input.time,
+    p_duration: input.duration,
+    p_type: input.type,
+    p_notes: input.notes
+  })
+  if (error) throw new Error(error.message)
+  return data as OnlineBookingResult
+}
+
+// ==================== APPOINTMENT ACTION LINKS ====================
+// Owners confirm, cancel or reschedule from signed links in emails (public, see migration 013).
+// Their choices are queued as requests that the clinic app applies through the appointment store.
+
+export async function signAppointmentAction(appointmentId: number, expiresAt: string): Promise<string> {
+  const { data, error } = await supabase.rpc('sign_appointment_action', {
+    p_appointment_id: appointmentId,
+    p_expires_at: expiresAt
+  })
+  if (error) throw new Error(error.message)
+  return data as string
+}
+
+export async function getPublicAppointmentAction(token: string): Promise<PublicAppointmentAction | undefined> {
+  const { data, error } = await supabase.rpc('get_appointment_action', { p_token: token })
+  if (error) throw new Error(error.message)
+  const row = (data as Record<string, unknown>[] | null)?.[0]
+  if (!row) return undefined
+  return {
+    expired: !!row.expired,
+    status: row.status as Appointment['status'],
+    date: row.date as string,
+    time: String(row.time).slice(0, 5),
+    duration: Number(row.duration) || 30,
+    type: row.type as Appointment['type'],
+    veterinarian: (row.veterinarian as string) || '',
+    petName: row.pet_name as string,
+    clinicName: row.clinic_name as string,
+    pendingAction: (row.pending_action as AppointmentAction) ?? undefined
+  }
+}
+
+export async function getAppointmentActionAvailability(
+  token: string,
+  dateFrom: string,
+  dateTo: string
+): Promise<BookingAvailability | undefined> {
+  const { data, error } = await supabase.rpc('get_appointment_action_availability', {
+    p_token: token,
+    p_date_from: dateFrom,
+    p_date_to: dateTo
+  })
+  if (error) throw new Error(error.message)
+  if (!data) return undefined
+  const result = data as Record<string, Record<string, unknown>[]>
+  return {
+    busy: result.busy.map(row => ({
+      date: row.date as string,
+      time: row.time as string,
+      duration: (row.duration as number) || 30,
+      type: row.type as Appointment['type'],
+      veterinarianId: (row.veterinarian_id as number) ?? undefined
+    })),
+    veterinarians: result.veterinarians.map(row => ({
+      id: row.id as number,
+      workingHours: (row.working_hours as Veterinarian['workingHours']) || {},
+      daysOff: (row.days_off as string[]) || [],
+      active: row.active !== false
+    })),
+    settings: result.settings as BookingAvailability['settings']
+  }
+}
+
+export async function requestAppointmentAction(
+  token: string,
+  action: AppointmentAction,
+  date?: string,
+  time?: string
+): Promise<AppointmentActionResult> {
+  const { data, error } = await supabase.rpc('request_appointment_action', {
+    p_token: token,
+    p_action: action,
+    p_date: date ?? null,
+    p_time: time ?? null
+  })
+  if (error) throw new Error(error.message)
+  return data as AppointmentActionResult
+}
+
+function mapAppointmentActionRequest(row: Record<string, unknown>): AppointmentActionRequest {
+  return {
+    id: row.id as number,
+    appointmentId: row.appointment_id as number,
+    action: row.action as AppointmentAction,
+    newDate: (row.new_date as string) ?? undefined,
+    newTime: (row.new_time as string) ?? undefined,
+    status: row.status as AppointmentActionRequest['status'],
+    error: (row.error as string) || undefined,
+    createdAt: row.created_at as string,
+    processedAt: (row.processed_at as string) ?? undefined
+  }
+}
+
+export async function getPendingAppointmentActions(): Promise<AppointmentActionRequest[]> {
+  const userId = await getUserId()
+  const { data, error } = await supabase
+    .from('appointment_action_requests')
+    .select('*')
+    .eq('user_id', userId)
+    .eq('status', 'pending')
+    .order('created_at')
+  if (error) throw new Error(error.message)
+  return (data || []).map(mapAppointmentActionRequest)
+}
+
+/** Take a pending request for processing; false when another device already took it. */
+export async function claimAppointmentAction(id: number): Promise<boolean> {
+  const { data, error } = await supabase
+    .from('appointment_action_requests')
+    .update({ status: 'processing' })
+    .eq('id', id)
+    .eq('status', 'pending')
+    .select('id')
+  if (error) throw new Error(error.message)
+  return (data || []).length > 0
+}
+
+export async function completeAppointmentAction(id: number, errorMessage?: string): Promise<void> {
+  const { error } = await supabase
+    .from('appointment_action_requests')
+    .update({
+      status: errorMessage ? 'failed' : 'applied',
+      error: errorMessage ?? '',
+      processed_at: new Date().toISOString()
+    })
+    .eq('id', id)
+  if (error) throw new Error(error.message)
+}
+
+// ==================== EMAIL OUTBOX ====================
+// Messages kept instead of sent when the mail transport is "outbox" (testing without a mail account)
+
+function mapOutboxEmail(row: Record<string, unknown>): OutboxEmail {
+  return {
+    id: row.id as number,
+    to: row.to_address as string,
+    subject: row.subject as string,
+    raw: row.raw as string,
+    createdAt: row.created_at as string
+  }
+}
+
+export async function addOutboxEmail(email: Omit<OutboxEmail, 'id' | 'createdAt'>): Promise<number> {
+  const userId = await getUserId()
+  const { data, error } = await supabase
+    .from('email_outbox')
+    .insert({ user_id: userId, to_address: email.to, subject: email.subject, raw: email.raw })
+    .select('id')
+    .single()
+  if (error) throw new Error(error.message)
+  return data.id as number
+}
+
+export async function getOutboxEmails(limit = 50): Promise<OutboxEmail[]> {
+  const userId = await getUserId()
+  const { data, error } = await supabase
+    .from('email_outbox')
+    .select('*')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false })
+    .limit(limit)
+  if (error) throw new Error(error.message)
+  return (data || []).map(mapOutboxEmail)
+}
+
+export async function clearOutboxEmails(): Promise<void> {
+  const userId = await getUserId()
+  const { error } = await supabase.from('email_outbox').delete().eq('user_id', userId)
+  if (error) throw new Error(error.message)
+}
+
+// ==================== STAFF NOTIFICATIONS ====================
+// Online only - each staff member has their own feed and read state (rows keyed by the auth user)
+
+function mapStaffNotification(row: Record<string, unknown>): StaffNotification {
+  return {
+    id: row.id as number,
+    kind: row.kind as StaffNotification['kind'],
+    key: row.dedupe_key as string,
+    title: row.title as string,
+    body: row.body as string,
+    link: (row.link as string) || undefined,
+    readAt: (row.read_at as string) || undefined,
+    createdAt: row.created_at as string
+  }
+}
+
+export async function getStaffNotifications(limit = 50): Promise<StaffNotification[]> {
+  const userId = await getUserId()
+  const recipientId = await getAuthUserId()
+  const { data, error } = await supabase
+    .from('staff_notifications')
+    .select('*')
+    .eq('user_id', userId)
+    .eq('recipient_id', recipientId)
+    .order('created_at', { ascending: false })
+    .limit(limit)
+  if (error) throw new Error(error.message)
+  return (data || []).map(mapStaffNotification)
+}
+
+// Keys already in the feed are skipped, so callers can re-submit the same notifications
+// on every check. Returns only the rows that were new.
+export async function addStaffNotifications(notifications: CreateStaffNotificationInput[]): Promise<StaffNotification[]> {
+  if (notifications.length === 0) return []
+  const userId = await getUserId()
+  const recipientId = await getAuthUserId()
+  const { data, error } = await supabase
+    .from('staff_notifications')
+    .upsert(
+      notifications.map(n => ({
+        user_id: userId,
+        recipient_id: recipientId,
+        kind: n.kind,
+        dedupe_key: n.key,
+        title: n.title,
+        body: n.body,
+        link: n.link || ''
+      })),
+      { onConflict: 'recipient_id,dedupe_key', ignoreDuplicates: true }
+    )
+    .select('*')
+  if (error) throw new Error(error.message)
+  return (data || []).map(mapStaffNotification)
+}
+
+// ids omitted: mark the whole feed as read
+export async function markStaffNotificationsRead(ids?: number[]): Promise<void> {
+  const recipientId = await getAuthUserId()
+  let query = supabase
+    .from('staff_notifications')
+    .update({ read_at: new Date().toISOString() })
+    .eq('recipient_id', recipientId)
+    .is('read_at', null)
+  if (ids) query = query.in('id', ids)
+  const { error } = await query
+  if (error) throw new Error(error.message)
+}
+
+// ==================== INVOICES & PAYMENTS ====================
+// Online only (not mirrored in IndexedDB) - invoice numbers are assigned from the server
+
+function mapInvoice(row: Record<string, unknown>): Invoice {
+  return {
+    id: row.id as number,
+    number: row.number as number,
+    appointmentId: row.appointment_id as number,
+    clientId: row.client_id as number,
+    issueDate: row.issue_date as string,
+    items: (row.items as InvoiceLineItem[] | null) ?? [],
+    subtotal: Number(row.subtotal) || 0,
+    taxAmount: Number(row.tax_amount) || 0,
+    total: Number(row.total) || 0,
+    amountPaid: Number(row.amount_paid) || 0,
+    status: row.status as InvoiceStatus,
+    notes: row.notes as string | undefined,
+    createdAt: row.created_at as string | undefined,
+    updatedAt: row.updated_at as string | undefined
+  }
+}
+
+function mapPayment(row: Record<string, unknown>): Payment {
+  return {
+    id: row.id as number,
+    invoiceId: row.invoice_id as number,
+    appointmentId: row.appointment_id as number,
+    clientId: row.client_id as number,
+    type: row.type as Payment['type'],
+    method: row.method as PaymentMethod,
+    amount: Number(row.amount) || 0,
+    reference: row.reference as string | undefined,
+    notes: row.notes as string | undefined,
+    paidAt: row.paid_at as string,
+    createdAt: row.created_at as string | undefined
+  }
+}
+
+export async function getAllInvoices(): Promise<Invoice[]> {
+  const userId = await getUserId()
+  const { data, error } = await supabase
+    .from('invoices')
+    .select('*')
+    .eq('user_id', userId)
+    .order('number', { ascending: false })
+  if (error) throw new Error(error.message)
+  return (data || []).map(mapInvoice)
+}
+
+export async function getInvoiceById(id: number): Promise<Invoice | undefined> {
+  const userId = await getUserId()
+  const { data, error } = await supabase
+    .from('invoices')
+    .select('*')
+    .eq('id', id)
+    .eq('user_id', userId)
+    .single()
+  if (error && error.code !== 'PGRST116') throw new Error(error.message)
+  return data ? mapInvoice(data) : undefined
+}
+
+export async function getInvoicesByAppointment(appointmentId: number): Promise<Invoice[]> {
+  const userId = await getUserId()
+  const { data, error } = await supabase
+    .from('invoices')
+    .select('*')
+    .eq('user_id', userId)
+    .eq('appointment_id', appointmentId)
+    .order('number', { ascending: false })
+  if (error) throw new Error(error.message)
+  return (data || []).map(mapInvoice)
+}
+
+export async function getInvoicesByClient(clientId: number): Promise<Invoice[]> {
+  const userId = await getUserId()
+  const { data, error } = await supabase
+    .from('invoices')
+    .select('*')
+    .eq('user_id', userId)
+    .eq('client_id', clientId)
+    .order('number', { ascending: false })
+  if (error) throw new Error(error.message)
+  return (data || []).map(mapInvoice)
+}
+
+// Issue an invoice with the next number. Retries once if another device took the same number.
+export async function createInvoice(invoice: CreateInvoiceInput): Promise<Invoice> {
+  const userId = await getUserId()
+  for (let attempt = 0; attempt < 2; attempt++) {
+    const { data: last, error: lastError } = await supabase
+      .from('invoices')
+      .select('number')
+      .eq('user_id', userId)
+      .order('number', { ascending: false })
+      .limit(1)
+    if (lastError) throw new Error(lastError.message)
+    const number = ((last?.[0]?.number as number | undefined) ?? 0) + 1
+    const now = new Date().toISOString()
+    const { data, error } = await supabase
+      .from('invoices')
+      .insert({
+        user_id: userId,
+        number,
+        appointment_id: invoice.appointmentId,
+        client_id: invoice.clientId,
+        issue_date: invoice.issueDate,
+        items: invoice.items,
+        subtotal: invoice.subtotal,
+        tax_amount: invoice.taxAmount,
+        total: invoice.total,
+        amount_paid: 0,
+        status: 'issued',
+        notes: invoice.notes || '',
+        created_at: now,
+        updated_at: now
+      })
+      .select()
+      .single()
+    if (error?.code === '23505' && attempt === 0) continue // unique (user_id, number)
+    if (error) throw new Error(error.message)
+    return mapInvoice(data)
+  }
+  throw new Error('Could not assign an invoice number')
+}
+
+export async function getPaymentsByInvoice(invoiceId: number): Promise<Payment[]> {
+  const userId = await getUserId()
+  const { data, error } = await supabase
+    .from('payments')
+    .select('*')
+    .eq('user_id', userId)
+    .eq('invoice_id', invoiceId)
+    .order('paid_at', { ascending: true })
+  if (error) throw new Error(error.message)
+  return (data || []).map(mapPayment)
+}
+
+export async function getPaymentsByClient(clientId: number): Promise<Payment[]> {
+  const userId = await getUserId()
+  const { data, error } = await supabase
+    .from('payments')
+    .select('*')
+    .eq('user_id', userId)
+    .eq('client_id', clientId)
+    .order('paid_at', { ascending: true })
+  if (error) throw new Error(error.message)
+  return (data || []).map(mapPayment)
+}
+
+// Record a payment or refund; the invoice balance/status and the appointment's amountPaid are updated
+// in the same transaction (record_payment, migration 037)
+export async function recordPayment(payment: CreatePaymentInput): Promise<Invoice> {
+  const userId = await getUserId()
+  if (payment.amount <= 0) throw new Error('Amount must be greater than zero')
+  const { data, error } = await supabase.rpc('record_payment', {
+    p_invoice_id: payment.invoiceId,
+    p_type: payment.type,
+    p_method: payment.method,
+    p_amount: payment.amount,
+    p_reference: payment.reference || '',
+    p_notes: payment.notes || '',
+    p_paid_at: payment.paidAt
+  })
+  if (error) throw new Error(error.message)
+
+  const invoice = mapInvoice(data.invoice)
+  if (invoice.appointmentId && data.appointment_amount_paid != null && isLocalDbAvailable()) {
+    await patchCachedRow(userId, 'appointments', invoice.appointmentId, { amount_paid: data.appointment_amount_paid })
+      .catch(err => console.warn('[VetSoft] Cache write failed:', err))
+  }
+  return invoice
+}
+
 // ==================== UTILITY ====================
 
 export async function clearAllData(): Promise<void> {
+  await requireAdmin('delete all clinic data')
   const userId = await getUserId()
-  await supabase.from('appointments').delete().eq('user_id', userId)
-  await supabase.from('pets').delete().eq('user_id', userId)
-  await supabase.from('clients').delete().eq('user_id', userId)
-  await supabase.from('inventory').delete().eq('user_id', userId)
-  await supabase.from('settings').delete().eq('user_id', userId)
+  // The server checks the role again (clear_clinic_data, 029)
+  const { error } = await supabase.rpc('clear_clinic_data')
+  if (error) throw new Error(error.message)
+  if (isLocalDbAvailable()) await clearLocalCache(userId)
 }
 
 export async function getDatabaseInfo(): Promise<{
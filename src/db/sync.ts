@@ -0,0 +1,202 @@
+// Background sync - replays mutations queued in the local IndexedDB mirror against Supabase
+// Conflicts are detected with updated_at: if the server row changed after the offline edit
+// was made, the mutation is parked as 'conflict' until someone chooses which version wins.
+
+import { supabase } from '../lib/supabase'
+import {
+  getLocalDb,
+  isNetworkError,
+  hasTempReference,
+  notifyQueueChange,
+  FOREIGN_KEYS,
+  CACHED_TABLES,
+  rpcArgs,
+  cacheRpcResult,
+  type PendingMutation,
+  type VetSoftLocalDB,
+  type LocalRow
+} from './local'
+
+export interface SyncResult {
+  synced: number
+  conflicts: number
+  failed: number
+  offline: boolean
+}
+
+function isNewer(remoteUpdatedAt: unknown, baseUpdatedAt: string): boolean {
+  if (!remoteUpdatedAt) return false
+  return new Date(remoteUpdatedAt as string).getTime() > new Date(baseUpdatedAt).getTime()
+}
+
+// After an offline insert reaches Supabase, swap its temporary id for the real one
+// in the cache and in every queued mutation that still references it.
+async function remapTempId(
+  db: VetSoftLocalDB,
+  mutation: PendingMutation,
+  realId: number
+): Promise<void> {
+  const tempId = mutation.recordId
+  const fkColumn = FOREIGN_KEYS[mutation.table]
+  await db.transaction('rw', [db.pending_mutations, ...CACHED_TABLES.map(t => db.rows(t))], async () => {
+    const cached = await db.rows(mutation.table).get(tempId)
+    await db.rows(mutation.table).delete(tempId)
+    await db.rows(mutation.table).put({ ...(cached ?? mutation.payload), id: realId })
+
+    const others = await db.pending_mutations.toArray()
+    for (const other of others) {
+      if (other.seq === mutation.seq) continue
+      const changes: Partial<PendingMutation> = {}
+      if (other.table === mutation.table && other.recordId === tempId) changes.recordId = realId
+      if (fkColumn && other.payload[fkColumn] === tempId) {
+        changes.payload = { ...other.payload, [fkColumn]: realId }
+      }
+      if (Object.keys(changes).length > 0) await db.pending_mutations.update(other.seq!, changes)
+    }
+
+    if (fkColumn) {
+      for (const table of CACHED_TABLES) {
+        await db.rows(table)
+          .filter(row => row[fkColumn] === tempId)
+          .modify(row => { row[fkColumn] = realId })
+      }
+    }
+  })
+}
+
+async function replayInsert(db: VetSoftLocalDB, mutation: PendingMutation): Promise<void> {
+  const { data, error } = await supabase
+    .from(mutation.table)
+    .insert(mutation.payload)
+    .select('*')
+    .single()
+  if (error) throw new Error(error.message)
+  await remapTempId(db, mutation, data.id as number)
+  await db.rows(mutation.table).put(data as LocalRow)
+}
+
+// Returns false when the mutation was parked as a conflict
+async function replayUpdate(db: VetSoftLocalDB, mutation: PendingMutation, userId: string): Promise<boolean> {
+  if (mutation.baseUpdatedAt) {
+    const { data: remote, error } = await supabase
+      .from(mutation.table)
+      .select('*')
+      .eq('id', mutation.recordId)
+      .eq('user_id', userId)
+      .maybeSingle()
+    if (error) throw new Error(error.message)
+    if (!remote || isNewer(remote.updated_at, mutation.baseUpdatedAt)) {
+      await db.pending_mutations.update(mutation.seq!, { status: 'conflict', remoteRow: remote ?? null })
+      return false
+    }
+  }
+  const { data, error } = await supabase
+    .from(mutation.table)
+    .update(mutation.payload)
+    .eq('id', mutation.recordId)
+    .eq('user_id', userId)
+    .select('*')
+    .maybeSingle()
+  if (error) throw new Error(error.message)
+  if (data) await db.rows(mutation.table).put(data as LocalRow)
+  return true
+}
+
+async function replayDelete(mutation: PendingMutation, userId: string): Promise<void> {
+  const { error } = await supabase
+    .from(mutation.table)
+    .delete()
+    .eq('id', mutation.recordId)
+    .eq('user_id', userId)
+  if (error) throw new Error(error.message)
+}
+
+// Stock functions return the rows they wrote keyed by table; the queued row is the one under `table`
+// (missing when the call deleted it or had nothing to record)
+async function replayRpc(db: VetSoftLocalDB, mutation: PendingMutation): Promise<void> {
+  const { data, error } = await supabase.rpc(mutation.rpc!, rpcArgs(mutation.payload))
+  if (error) throw new Error(error.message)
+  const result = (data ?? {}) as Record<string, LocalRow | undefined>
+  const row = result[mutation.table]
+  if (!row) await db.rows(mutation.table).delete(mutation.recordId)
+  else if (mutation.recordId < 0) await remapTempId(db, mutation, row.id)
+  await cacheRpcResult(db, result)
+}
+
+// Replay pending mutations in the order they were made. Stops at the first network error
+// so the remaining queue keeps its order for the next attempt.
+export async function flushPendingMutations(userId: string): Promise<SyncResult> {
+  const db = getLocalDb(userId)
+  const result: SyncResult = { synced: 0, conflicts: 0, failed: 0, offline: false }
+  const queue = await db.pending_mutations.where('status').equals('pending').sortBy('seq')
+
+  for (const queued of queue) {
+    // Re-read: earlier replays may have remapped ids in this mutation
+    const mutation = await db.pending_mutations.get(queued.seq!)
+    if (!mutation || mutation.status !== 'pending') continue
+    // Parent row still only exists locally (its insert failed or is in conflict) - try later
+    const needsRealId = mutation.op === 'update' || mutation.op === 'delete'
+    if (hasTempReference(mutation.payload) || (needsRealId && mutation.recordId < 0)) continue
+
+    try {
+      if (mutation.op === 'insert') {
+        await replayInsert(db, mutation)
+      } else if (mutation.op === 'update') {
+        const applied = await replayUpdate(db, mutation, userId)
+        if (!applied) {
+          result.conflicts++
+          continue
+        }
+      } else if (mutation.op === 'rpc') {
+        await replayRpc(db, mutation)
+      } else {
+        await replayDelete(mutation, userId)
+      }
+      await db.pending_mutations.delete(mutation.seq!)
+      result.synced++
+    } catch (err) {
+      if (isNetworkError(err)) {
+        result.offline = true
+        break
+      }
+      console.error(`Sync failed for ${mutation.op} on ${mutation.table}:`, err)
+      await db.pending_mutations.update(mutation.seq!, {
+        status: 'failed',
+        error: err instanceof Error ? err.message : String(err)
+      })
+      result.failed++
+    }
+  }
+
+  notifyQueueChange()
+  return result
+}
+
+// Resolve a conflicting (or failed) mutation.
+// 'local' re-queues the offline edit over the current server version; 'server' discards it.
+export async function resolveMutation(
+  userId: string,
+  seq: number,
+  keep: 'local' | 'server'
+): Promise<void> {
+  const db = getLocalDb(userId)
+  const mutation = await db.pending_mutations.get(seq)
+  if (!mutation) return
+
+  if (keep === 'local') {
+    await db.pending_mutations.update(seq, {
+      status: 'pending',
+      baseUpdatedAt: (mutation.remoteRow?.updated_at as string | undefined) ?? mutation.baseUpdatedAt,
+      remoteRow: undefined,
+      error: undefined
+    })
+  } else {
+    await db.pending_mutations.delete(seq)
+    if (mutation.remoteRow) {
+      await db.rows(mutation.table).put(mutation.remoteRow as LocalRow)
+    } else if (mutation.op === 'insert' || mutation.op === 'update' || mutation.recordId < 0) {
+      await db.rows(mutation.table).delete(mutation.recordId)
+    }
+  }
+  notifyQueueChange()
+}
@@ -10,6 +10,37 @@ export interface User {
   createdAt: string
 }
 
+export type UserRole = User['role']
+
+// Clinic the signed-in user works for. Clinic data is stored under the owner's user id.
+export interface ClinicContext {
+  clinicId: number
+  clinicName: string
+  ownerId: string
+  role: UserRole
+}
+
+// Staff member of a clinic (a Supabase Auth login)
+export interface ClinicMember {
+  id?: number
+  clinicId: number
+  userId: string
+  email: string
+  name: string
+  role: UserRole
+  createdAt: string
+}
+
+// Pending staff invitation - accepted when someone signs in with that email
+export interface ClinicInvitation {
+  id?: number
+  clinicId: number
+  email: string
+  role: UserRole
+  acceptedAt?: string
+  createdAt: string
+}
+
 // Client Model
 export interface Client {
   id?: number // Auto-incremented by Dexie
@@ -22,10 +53,25 @@ export interface Client {
   state: string
   zipCode: string
   notes: string
+  language?: EmailLanguage | '' // email language; empty = clinic default
+  notificationChannels?: NotificationChannel[] // where appointment messages go; default email only
+  channelConsent?: Partial<Record<NotificationChannel, ChannelConsent>>
   createdAt: string
   updatedAt: string
 }
 
+// Languages available for client emails
+export type EmailLanguage = 'es' | 'en'
+
+// Channels for client messages (see migration 016). SMS and WhatsApp need the client's opt-in.
+export type NotificationChannel = 'email' | 'sms' | 'whatsapp'
+
+export interface ChannelConsent {
+  status: 'opted_in' | 'opted_out'
+  at: string // ISO timestamp of the change
+  source: string // who recorded it, e.g. "staff:ana@clinic.com"
+}
+
 // Pet Model
 export interface Pet {
   id?: number
@@ -44,11 +90,23 @@ export interface Pet {
   lastSurgery?: string
   allergies?: string
   medicalNotes?: string
+  alerts?: PetAlert[]
   notes: string
   createdAt: string
   updatedAt: string
 }
 
+// Patient alert shown as a badge wherever the pet appears (stored as jsonb in pets.alerts)
+export type PetAlertKind = 'drug_allergy' | 'aggressive' | 'chronic_condition' | 'dnr' | 'other'
+export type PetAlertSeverity = 'low' | 'medium' | 'high'
+
+export interface PetAlert {
+  kind: PetAlertKind
+  severity: PetAlertSeverity
+  label: string // drug or drug class for drug allergies (e.g. "Penicilina"), condition otherwise
+  notes?: string
+}
+
 // Appointment Model
 export interface Appointment {
   id?: number
@@ -59,18 +117,228 @@ export interface Appointment {
   duration: number
   type: 'consultation' | 'vaccination' | 'surgery' | 'grooming' | 'emergency' | 'follow-up'
   status: 'scheduled' | 'confirmed' | 'in-progress' | 'completed' | 'cancelled' | 'no-show'
-  veterinarian: string
+  veterinarian: string // vet name (free text for appointments made before the roster)
+  veterinarianId?: number
+  seriesId?: number // set for sessions of a recurring series
   notes: string
   totalAmount?: number
   amountPaid?: number
   googleCalendarEventId?: string
+  googleSyncPending?: boolean // local change not yet pushed to Google Calendar
   emailSent?: boolean
   reminderSent?: boolean
+  reminderSentFor?: string // "YYYY-MM-DD HH:mm" slot the reminder was sent for
+  createdAt: string
+  updatedAt: string
+}
+
+// Recurring appointments: every N days/weeks/months, for a number of sessions or until a date
+export interface RecurrenceRule {
+  frequency: 'daily' | 'weekly' | 'monthly'
+  interval: number
+  count?: number // number of sessions
+  until?: string // YYYY-MM-DD, inclusive
+}
+
+export interface AppointmentSeries {
+  id?: number
+  clientId: number
+  petId: number
+  rule: RecurrenceRule
+  googleCalendarEventId?: string // recurring Google event; sessions store their instance ids
+  createdAt: string
+  updatedAt: string
+}
+
+// Waitlist: clients waiting for a slot in a date range and time window
+export interface WaitlistEntry {
+  id?: number
+  clientId: number
+  petId: number
+  type: Appointment['type']
+  veterinarianId?: number // preferred vet (any vet when unset)
+  dateFrom: string // YYYY-MM-DD
+  dateTo: string
+  timeFrom: string // HH:mm
+  timeTo: string
+  duration: number
+  notes: string
+  status: 'waiting' | 'offered' | 'booked' | 'removed'
+  createdAt: string
+  updatedAt: string
+}
+
+// Freed slot offered to a waitlisted client; the first client to claim it books it
+export interface WaitlistOffer {
+  id?: number
+  entryId: number
+  cancelledAppointmentId?: number
+  date: string
+  time: string
+  duration: number
+  type: Appointment['type']
+  veterinarian: string
+  veterinarianId?: number
+  token: string // claim link token
+  status: 'open' | 'claimed' | 'expired'
+  claimedAppointmentId?: number
+  expiresAt: string
+  createdAt: string
+}
+
+// What the public claim page can see of an offer
+export interface PublicWaitlistOffer {
+  status: WaitlistOffer['status']
+  date: string
+  time: string
+  duration: number
+  type: Appointment['type']
+  veterinarian: string
+  petName: string
+  clinicName: string
+  expiresAt: string
+}
+
+export type ClaimOfferResult = 'claimed' | 'taken' | 'expired' | 'not_found'
+
+// Online self-booking portal (/book) - anonymous visitors only see free/busy data
+export interface OnlineBookingSettings {
+  enabled: boolean
+  slug: string // public id of the clinic in the booking link
+}
+
+export interface BookingClinic {
+  ownerId: string
+  name: string
+}
+
+export interface BusySlot {
+  date: string
+  time: string
+  duration: number
+  type: Appointment['type']
+  veterinarianId?: number
+}
+
+export type BookingVetSchedule = Pick<Veterinarian, 'id' | 'workingHours' | 'daysOff' | 'active'>
+
+export interface BookingAvailability {
+  busy: BusySlot[]
+  veterinarians: BookingVetSchedule[]
+  settings: Pick<Setting, 'key' | 'value'>[]
+}
+
+export interface OnlineBookingInput {
+  slug: string
+  match: string // opaque token from findBookingClient (the owner's data never reaches the portal)
+  petName: string // matched among the owner's pets, registered when new
+  petSpecies: Pet['species']
+  date: string
+  time: string
+  duration: number
+  type: Appointment['type']
+  notes: string
+}
+
+export type OnlineBookingResult = 'booked' | 'taken' | 'unavailable' | 'not_found'
+
+// Confirm / cancel / reschedule links in appointment emails (signed tokens, see migration 013)
+export type AppointmentAction = 'confirm' | 'cancel' | 'reschedule'
+
+export interface AppointmentActionRequest {
+  id: number
+  appointmentId: number
+  action: AppointmentAction
+  newDate?: string
+  newTime?: string
+  status: 'pending' | 'processing' | 'applied' | 'failed'
+  error?: string
+  createdAt: string
+  processedAt?: string
+}
+
+export interface PublicAppointmentAction {
+  expired: boolean
+  status: Appointment['status']
+  date: string
+  time: string
+  duration: number
+  type: Appointment['type']
+  veterinarian: string
+  petName: string
+  clinicName: string
+  pendingAction?: AppointmentAction
+}
+
+export type AppointmentActionResult = 'requested' | 'taken' | 'unavailable' | 'closed' | 'expired' | 'invalid'
+
+// Email written to the local outbox instead of being delivered (mail transport "outbox", see migration 015)
+export interface OutboxEmail {
+  id: number
+  to: string
+  subject: string
+  raw: string // full RFC 822 message, saved as .eml
+  createdAt: string
+}
+
+// Staff notification center (Header bell), stored per signed-in user (see migration 017)
+export type StaffNotificationKind =
+  | 'appointment_soon'
+  | 'vaccine_due'
+  | 'low_stock'
+  | 'online_booking'
+  | 'sync_failed'
+  | 'email_failed'
+
+export interface StaffNotification {
+  id: number
+  kind: StaffNotificationKind
+  key: string // one notification per key and user, e.g. "low_stock:12"
+  title: string
+  body: string
+  link?: string // app route opened from the notification
+  readAt?: string
+  createdAt: string
+}
+
+export type CreateStaffNotificationInput = Omit<StaffNotification, 'id' | 'readAt' | 'createdAt'>
+
+// Veterinarian roster
+export interface WorkingHours {
+  start: string // HH:mm
+  end: string // HH:mm
+}
+
+export interface Veterinarian {
+  id?: number
+  name: string
+  email?: string
+  phone?: string
+  color: string // column/event color in the calendar
+  specialties: string[]
+  workingHours: Partial<Record<number, WorkingHours>> // by weekday, 0 = Sunday; missing day = not working
+  daysOff: string[] // YYYY-MM-DD
+  active: boolean
   createdAt: string
   updatedAt: string
 }
 
 // Inventory Model (medications and clinic items)
+// Dose range of a medication for one species
+export interface DoseRange {
+  species: Pet['species']
+  minMgPerKg: number
+  maxMgPerKg: number
+}
+
+// Weight-based dosing of a medication (see migration 022 and services/dosing.ts)
+export interface MedicationDosing {
+  mgPerUnit: number // strength of one inventory unit (tablet, ml, ...)
+  doseRanges: DoseRange[]
+  contraindicatedSpecies: Pet['species'][]
+  allergyKeywords: string[] // active ingredient / drug class, checked against Pet.allergies
+}
+
 export interface InventoryItem {
   id?: number
   name: string
@@ -81,10 +349,28 @@ export interface InventoryItem {
   price: number
   photoUrl?: string
   sku?: string
+  dosing?: MedicationDosing // medications only
   createdAt?: string
   updatedAt?: string
 }
 
+// Inventory movement - stock ledger entry. quantity is signed (negative = stock out)
+export type InventoryMovementType = 'sale' | 'restock' | 'adjustment' | 'expiry' | 'return'
+
+export interface InventoryMovement {
+  id?: number
+  inventoryId: number
+  type: InventoryMovementType
+  quantity: number
+  quantityAfter: number
+  appointmentId?: number
+  saleItemId?: number
+  unitCost?: number
+  reference?: string // supplier invoice / lot number
+  notes?: string
+  createdAt?: string
+}
+
 // Appointment attachment (PDFs, images - medical studies, X-rays)
 export interface AppointmentAttachment {
   id?: number
@@ -102,17 +388,30 @@ export interface SaleItem {
   inventoryId: number
   quantity: number
   unitPrice: number
+  doseOverrideReason?: string // given despite a dose, species or allergy warning
   createdAt?: string
 }
 
-// Medical record - historial por cita
+// Vitals taken during the exam (see services/vitals.ts for units and valid ranges)
+export interface Vitals {
+  temperature?: number // °C
+  heartRate?: number // beats/min
+  respiratoryRate?: number // breaths/min
+  weight?: number // kg
+  bodyConditionScore?: number // 1-9
+  painScore?: number // 0-10
+}
+
+// Medical record - historial por cita, as a SOAP note (see migration 020)
 export interface MedicalRecord {
   id?: number
   appointmentId: number
   petId: number
-  symptoms?: string
-  diagnosis?: string
-  treatment?: string
+  subjective?: string // history and owner's complaint (formerly "symptoms")
+  objective?: string // exam findings
+  assessment?: string // diagnosis
+  plan?: string // treatment and follow-up
+  vitals: Vitals
   notes?: string
   createdAt?: string
 }
@@ -123,8 +422,147 @@ export interface Vaccine {
   petId: number
   name: string
   dateAdministered: string
-  nextDueDate?: string
+  nextDueDate?: string // computed from the vaccine protocol when left empty
+  protocolId?: string // vaccine protocol the name matched (services/vaccineProtocols.ts)
+  doseNumber?: number // dose of that protocol, counting the pet's earlier doses
+  plannedDoses?: { label: string; dueDate: string }[] // rest of the protocol series, next dose first
+  notes?: string
+  createdAt?: string
+}
+
+// Vaccine recall attempt (see migration 018) - owners of pets with vaccines due are emailed, called
+// or booked straight away from the Recalls page
+export interface VaccineRecall {
+  id: number
+  vaccineId: number
+  petId: number
+  clientId: number
+  method: 'email' | 'phone' | 'booking'
+  outcome: 'sent' | 'failed' | 'booked' | 'no_answer' | 'declined'
+  appointmentId?: number
+  notes?: string
+  createdAt: string
+}
+
+export type CreateVaccineRecallInput = Omit<VaccineRecall, 'id' | 'createdAt'>
+
+export type PrescriptionRoute =
+  | 'oral'
+  | 'topical'
+  | 'ophthalmic'
+  | 'otic'
+  | 'subcutaneous'
+  | 'intramuscular'
+  | 'intravenous'
+  | 'inhaled'
+  | 'other'
+
+// Prescription (see migration 021) - a medication from inventory prescribed at an appointment.
+// Every fill is sold on that appointment as a sale item, which deducts the stock.
+export interface Prescription {
+  id: number
+  appointmentId: number
+  petId: number
+  inventoryId: number
+  dose: string // per administration, e.g. "1 comprimido", "0.5 ml"
+  route: PrescriptionRoute
+  frequency: string // e.g. "cada 12 horas"
+  durationDays?: number
+  quantity: number // dispensed per fill, in the inventory item's unit
+  refillsAllowed: number
+  refillsRemaining: number
+  instructions?: string
+  prescribedBy?: string
+  status: 'active' | 'completed' | 'cancelled'
+  createdAt: string
+  updatedAt: string
+}
+
+// Refill request for a prescription - dispensed (sold from stock) or rejected
+export interface PrescriptionRefill {
+  id: number
+  prescriptionId: number
+  status: 'requested' | 'dispensed' | 'rejected'
+  saleItemId?: number
+  notes?: string
+  requestedAt: string
+  resolvedAt?: string
+}
+
+export type CreatePrescriptionInput = Omit<Prescription, 'id' | 'refillsRemaining' | 'status' | 'createdAt' | 'updatedAt'>
+
+// Lab result - one panel run for a pet at an appointment, optionally linked to the report attachment
+export type LabPanel = 'cbc' | 'chemistry' | 'urinalysis' | 'other'
+
+export interface LabValue {
+  code: string // analyte key used to follow it across visits, e.g. "hct"
+  name: string
+  value: number
+  unit: string
+  refMin?: number // reference range for the pet's species when the result was entered
+  refMax?: number
+}
+
+export interface LabResult {
+  id: number
+  appointmentId: number
+  petId: number
+  panel: LabPanel
+  attachmentId?: number
+  attachment?: Pick<AppointmentAttachment, 'fileUrl' | 'fileName'> // source report, when linked
+  collectedAt: string // YYYY-MM-DD
+  values: LabValue[]
+  notes?: string
+  createdAt: string
+}
+
+export type CreateLabResultInput = Omit<LabResult, 'id' | 'attachment' | 'createdAt'>
+
+// Invoice line - generated from the appointment type price and its sale items
+export interface InvoiceLineItem {
+  description: string
+  kind: 'service' | 'product'
+  inventoryId?: number
+  quantity: number
+  unitPrice: number
+  taxRate: number // percent
+  total: number // quantity * unitPrice, before tax
+}
+
+export type InvoiceStatus = 'issued' | 'partial' | 'paid' | 'refunded'
+
+// Invoice - numbered document issued for an appointment
+export interface Invoice {
+  id?: number
+  number: number
+  appointmentId: number
+  clientId: number
+  issueDate: string
+  items: InvoiceLineItem[]
+  subtotal: number
+  taxAmount: number
+  total: number
+  amountPaid: number // payments minus refunds
+  status: InvoiceStatus
+  notes?: string
+  createdAt?: string
+  updatedAt?: string
+}
+
+export type PaymentMethod = 'cash' | 'card' | 'transfer'
+
+// Payment or refund against an invoice (amount is always positive)
+export interface Payment {
+  id?: number
+  invoiceId: number
+  appointmentId: number
+  clientId: number
+  type: 'payment' | 'refund'
+  method: PaymentMethod
+  amount: number
+  reference?: string
   notes?: string
+  paidAt: string
   createdAt?: string
 }
 
@@ -159,5 +597,21 @@ export type CreateUserInput = Omit<User, 'id'>
 // Type for creating a new setting (without id)
 export type CreateSettingInput = Omit<Setting, 'id'>
 
+export type CreateAppointmentSeriesInput = Omit<AppointmentSeries, 'id' | 'createdAt' | 'updatedAt'>
+
+export type CreateWaitlistEntryInput = Omit<WaitlistEntry, 'id' | 'createdAt' | 'updatedAt'>
+export type UpdateWaitlistEntryInput = Partial<CreateWaitlistEntryInput>
+
+export type CreateWaitlistOfferInput = Omit<WaitlistOffer, 'id' | 'token' | 'status' | 'claimedAppointmentId' | 'createdAt'>
+
+export type CreateVeterinarianInput = Omit<Veterinarian, 'id' | 'createdAt' | 'updatedAt'>
+export type UpdateVeterinarianInput = Partial<CreateVeterinarianInput>
+
 export type CreateInventoryInput = Omit<InventoryItem, 'id' | 'createdAt' | 'updatedAt'>
 export type UpdateInventoryInput = Partial<CreateInventoryInput>
+
+export type CreateInventoryMovementInput = Omit<InventoryMovement, 'id' | 'quantityAfter' | 'createdAt'>
+
+export type CreateInvoiceInput = Omit<Invoice, 'id' | 'number' | 'amountPaid' | 'status' | 'createdAt' | 'updatedAt'>
+
+export type CreatePaymentInput = Omit<Payment, 'id' | 'appointmentId' | 'clientId' | 'createdAt'>
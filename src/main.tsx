@@ -9,6 +9,7 @@ import { useAuthStore } from './stores/authStore'
 import { useUIStore } from './stores/uiStore'
 import { supabase } from './lib/supabase'
 import { initializeDatabase } from './db/hooks'
+import { getClinicContext, clearClinicContext } from './db'
 
 // Check initial session on app load (fallback if onAuthStateChange doesn't fire)
 useAuthStore.getState().checkSession().then(() => {
@@ -36,8 +37,13 @@ supabase.auth.onAuthStateChange(async (event, session) => {
     // Initialize database in background - do NOT await to avoid blocking UI / freezing login
     if (event === 'SIGNED_IN' || event === 'INITIAL_SESSION') {
       initializeDatabase().catch(err => console.error('Database init failed:', err))
+      // Clinic membership decides whose data is shown and what the user's role allows
+      getClinicContext()
+        .then(clinic => useAuthStore.getState().setClinic(clinic?.role ?? null, clinic?.clinicName ?? null))
+        .catch(err => console.error('Clinic lookup failed:', err))
     }
   } else if (event === 'SIGNED_OUT') {
+    clearClinicContext()
     logout()
   } else if (event === 'INITIAL_SESSION' && !session) {
     // No session on load (expired/invalid) - clear auth and loading
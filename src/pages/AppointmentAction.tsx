@@ -0,0 +1,208 @@
+// Public appointment page - opened from the confirm / cancel / reschedule links in appointment emails
+// The owner's choice is queued and applied by the clinic app (status, Google Calendar, waitlist)
+
+import { useState, useEffect, useMemo } from 'react'
+import { useParams, useSearchParams } from 'react-router-dom'
+import { CalendarCheck, CalendarX } from 'lucide-react'
+import { getPublicAppointmentAction, getAppointmentActionAvailability, requestAppointmentAction } from '../db'
+import { rulesFromSettings } from '../services/scheduling'
+import { addDays, toDateString } from '../services/dates'
+import { getFreeSlots, BOOKING_DAYS } from '../services/booking'
+import type { AppointmentAction as Action, AppointmentActionResult, BookingAvailability, PublicAppointmentAction } from '../db/types'
+
+const TYPE_LABELS: Record<string, string> = {
+  consultation: 'Consulta',
+  vaccination: 'Vacunación',
+  surgery: 'Cirugía',
+  grooming: 'Estética',
+  emergency: 'Emergencia',
+  'follow-up': 'Seguimiento'
+}
+
+const DONE_MESSAGES: Record<Action, string> = {
+  confirm: '¡Gracias! Su asistencia quedó confirmada.',
+  cancel: 'Su cita fue cancelada. Puede reservar otra cuando lo necesite.',
+  reschedule: 'Recibimos el cambio de horario. Le enviaremos la confirmación por email.'
+}
+
+const RESULT_MESSAGES: Record<Exclude<AppointmentActionResult, 'requested'>, string> = {
+  taken: 'Ese horario se acaba de ocupar. Elija otro.',
+  unavailable: 'La clínica o su veterinario no atienden en ese horario. Elija otro.',
+  closed: 'Esta cita ya no se puede modificar en línea. Contacte a la clínica.',
+  expired: 'Este enlace ya venció.',
+  invalid: 'El enlace no es válido.'
+}
+
+const daysFromToday = (days: number) => addDays(toDateString(new Date()), days)
+
+export default function AppointmentAction() {
+  const { token = '' } = useParams<{ token: string }>()
+  const [searchParams] = useSearchParams()
+  const [appointment, setAppointment] = useState<PublicAppointmentAction | null>(null)
+  const [action, setAction] = useState<Action | null>(searchParams.get('action') as Action | null)
+  const [availability, setAvailability] = useState<BookingAvailability | null>(null)
+  const [date, setDate] = useState(daysFromToday(1))
+  const [time, setTime] = useState('')
+  const [done, setDone] = useState<Action | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [submitting, setSubmitting] = useState(false)
+  const [error, setError] = useState('')
+
+  useEffect(() => {
+    getPublicAppointmentAction(token)
+      .then((a) => {
+        setAppointment(a ?? null)
+        if (!a) setError(RESULT_MESSAGES.invalid)
+        else if (a.expired) setError(RESULT_MESSAGES.expired)
+        else if (a.status !== 'scheduled' && a.status !== 'confirmed') setError(RESULT_MESSAGES.closed)
+      })
+      .catch((err) => setError(err instanceof Error ? err.message : 'Error al cargar la cita'))
+      .finally(() => setLoading(false))
+  }, [token])
+
+  const loadAvailability = async () => {
+    setAvailability((await getAppointmentActionAvailability(token, daysFromToday(0), daysFromToday(BOOKING_DAYS))) ?? null)
+  }
+
+  useEffect(() => {
+    if (action === 'reschedule' && !availability && appointment && !appointment.expired) {
+      loadAvailability().catch((err) => setError(err instanceof Error ? err.message : 'Error al cargar horarios'))
+    }
+  }, [action, appointment])
+
+  const slots = useMemo(() => {
+    if (!availability || !appointment) return []
+    return getFreeSlots(date, appointment.duration, appointment.type, availability.busy, availability.veterinarians,
+      rulesFromSettings(availability.settings))
+  }, [availability, appointment, date])
+
+  const submit = async (chosen: Action) => {
+    if (chosen === 'reschedule' && !time) return
+    setSubmitting(true)
+    setError('')
+    try {
+      const result = chosen === 'reschedule'
+        ? await requestAppointmentAction(token, chosen, date, time)
+        : await requestAppointmentAction(token, chosen)
+      if (result === 'requested') {
+        setDone(chosen)
+      } else {
+        setError(RESULT_MESSAGES[result])
+        if (result === 'taken') await loadAvailability()
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Error al enviar su respuesta')
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-50">
+        <div className="w-12 h-12 border-4 border-teal-600 border-t-transparent rounded-full animate-spin" />
+      </div>
+    )
+  }
+
+  const canAct = appointment && !appointment.expired && (appointment.status === 'scheduled' || appointment.status === 'confirmed')
+
+  return (
+    <div className="min-h-screen bg-gray-50 flex justify-center p-4">
+      <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-8 max-w-md w-full space-y-4 self-start mt-8">
+        {appointment?.clinicName && <p className="text-sm font-medium text-teal-600">{appointment.clinicName}</p>}
+        <h1 className="text-2xl font-bold text-gray-800">Su cita</h1>
+
+        {appointment && (
+          <div className="p-4 bg-gray-50 rounded-lg text-gray-700 space-y-1">
+            <p><strong>{appointment.petName}</strong> · {TYPE_LABELS[appointment.type] ?? appointment.type}</p>
+            <p>{appointment.date} a las {appointment.time} ({appointment.duration} min)</p>
+            {appointment.veterinarian && <p>Con {appointment.veterinarian}</p>}
+            {appointment.pendingAction && !done && (
+              <p className="text-xs text-amber-600">Ya recibimos una respuesta suya; la clínica la está procesando.</p>
+            )}
+          </div>
+        )}
+
+        {error && <div className="p-3 bg-red-50 text-red-700 rounded-lg text-sm">{error}</div>}
+
+        {done ? (
+          <div className={`flex items-start gap-3 p-4 rounded-lg text-sm ${done === 'cancel' ? 'bg-amber-50 text-amber-700' : 'bg-green-50 text-green-700'}`}>
+            {done === 'cancel' ? <CalendarX className="w-5 h-5 shrink-0" /> : <CalendarCheck className="w-5 h-5 shrink-0" />}
+            <p>{DONE_MESSAGES[done]}{done === 'reschedule' && ` Nuevo horario: ${date} a las ${time}.`}</p>
+          </div>
+        ) : canAct && (
+          <>
+            <div className="grid grid-cols-3 gap-2">
+              {(['confirm', 'reschedule', 'cancel'] as Action[]).map(a => (
+                <button
+                  key={a}
+                  type="button"
+                  onClick={() => setAction(a)}
+                  className={`px-3 py-2 text-sm rounded-lg border ${
+                    action === a ? 'bg-teal-600 text-white border-teal-600' : 'border-gray-200 text-gray-700 hover:bg-gray-50'
+                  }`}
+                >
+                  {a === 'confirm' ? 'Confirmar' : a === 'reschedule' ? 'Reprogramar' : 'Cancelar'}
+                </button>
+              ))}
+            </div>
+
+            {action === 'reschedule' && (
+              <div className="space-y-3">
+                <input
+                  type="date"
+                  value={date}
+                  min={daysFromToday(0)}
+                  max={daysFromToday(BOOKING_DAYS)}
+                  onChange={(e) => {
+                    setDate(e.target.value)
+                    setTime('')
+                  }}
+                  className="w-full px-4 py-2 border border-gray-200 rounded-lg focus:ring-2 focus:ring-teal-500"
+                />
+                {slots.length === 0 ? (
+                  <p className="text-sm text-gray-500">No hay horarios libres ese día. Pruebe con otra fecha.</p>
+                ) : (
+                  <div className="grid grid-cols-4 gap-2">
+                    {slots.map(slot => (
+                      <button
+                        key={slot}
+                        type="button"
+                        onClick={() => setTime(slot)}
+                        className={`px-2 py-1.5 text-sm rounded-lg border ${
+                          time === slot ? 'bg-teal-600 text-white border-teal-600' : 'border-gray-200 text-gray-700 hover:bg-gray-50'
+                        }`}
+                      >
+                        {slot}
+                      </button>
+                    ))}
+                  </div>
+                )}
+              </div>
+            )}
+
+            {action && (
+              <button
+                type="button"
+                onClick={() => submit(action)}
+                disabled={submitting || (action === 'reschedule' && !time)}
+                className={`w-full px-4 py-3 text-white rounded-lg disabled:opacity-50 font-medium ${
+                  action === 'cancel' ? 'bg-red-600 hover:bg-red-700' : 'bg-teal-600 hover:bg-teal-700'
+                }`}
+              >
+                {submitting
+                  ? 'Enviando...'
+                  : action === 'confirm'
+                    ? 'Confirmar asistencia'
+                    : action === 'cancel'
+                      ? 'Cancelar la cita'
+                      : time ? `Cambiar a ${date} ${time}` : 'Elija un horario'}
+              </button>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -1,31 +1,52 @@
 import { useState, useEffect } from 'react'
-import { Plus, Search, Eye } from 'lucide-react'
+import { Plus, Search, Eye, Repeat } from 'lucide-react'
 import { useAppointmentStore } from '../stores/appointmentStore'
 import { useClientStore } from '../stores/clientStore'
 import { usePetStore } from '../stores/petStore'
 import { useInventoryStore } from '../stores/inventoryStore'
+import { useVeterinarianStore } from '../stores/veterinarianStore'
 import AppointmentForm from '../components/forms/AppointmentForm'
 import AppointmentDetail from '../components/forms/AppointmentDetail'
+import InvoiceDetail from '../components/forms/InvoiceDetail'
+import { useInvoiceStore } from '../stores/invoiceStore'
+import { useAuthStore } from '../stores/authStore'
+import { can } from '../services/permissions'
+import { isSameVet } from '../services/vetSchedule'
+import { hasSoapContent } from '../services/vitals'
 import {
   getMedicalRecordsByAppointment,
   getSaleItemsByAppointment,
   getAppointmentAttachments,
   addMedicalRecord,
+  updateMedicalRecord,
   addSaleItem,
+  updateSaleItem,
+  deleteSaleItem,
   uploadAppointmentAttachment,
   deleteAppointmentAttachment
 } from '../db/supabase'
-import type { Appointment } from '../db/types'
+import type { Appointment, Invoice } from '../db/types'
 import type { AppointmentFormData } from '../components/forms/AppointmentForm'
 
 export default function Appointments() {
-  const { appointments, addAppointment, updateAppointment, fetchAppointments } = useAppointmentStore()
+  const {
+    appointments,
+    addAppointment,
+    addAppointmentSeries,
+    updateAppointment,
+    updateAppointmentSeries,
+    cancelAppointmentSeries,
+    fetchAppointments
+  } = useAppointmentStore()
   const { clients } = useClientStore()
   const { pets } = usePetStore()
-  const { items: inventoryItems } = useInventoryStore()
+  const { items: inventoryItems, fetchItems: fetchInventory } = useInventoryStore()
+  const { veterinarians } = useVeterinarianStore()
+  const { getAppointmentInvoice, createInvoiceForAppointment } = useInvoiceStore()
   const [searchTerm, setSearchTerm] = useState('')
   const [filterStatus, setFilterStatus] = useState<string>('')
   const [filterType, setFilterType] = useState<string>('')
+  const [filterVet, setFilterVet] = useState<string>('')
   const [filterDateFrom, setFilterDateFrom] = useState('')
   const [filterDateTo, setFilterDateTo] = useState('')
   const [showForm, setShowForm] = useState(false)
@@ -34,6 +55,10 @@ export default function Appointments() {
   const [viewMedicalRecord, setViewMedicalRecord] = useState<Awaited<ReturnType<typeof getMedicalRecordsByAppointment>>[0] | null>(null)
   const [viewSaleItems, setViewSaleItems] = useState<Awaited<ReturnType<typeof getSaleItemsByAppointment>>>([])
   const [viewAttachments, setViewAttachments] = useState<Awaited<ReturnType<typeof getAppointmentAttachments>>>([])
+  const [viewInvoice, setViewInvoice] = useState<Invoice | null>(null)
+  const [showInvoice, setShowInvoice] = useState(false)
+  const role = useAuthStore((s) => s.role)
+  const canViewRecords = can(role, 'medical_records:view')
 
   // Load medical record, sale items, attachments when viewing appointment
   useEffect(() => {
@@ -41,12 +66,17 @@ export default function Appointments() {
       setViewMedicalRecord(null)
       setViewSaleItems([])
       setViewAttachments([])
+      setViewInvoice(null)
       return
     }
-    getMedicalRecordsByAppointment(viewingAppointment.id).then(recs => setViewMedicalRecord(recs[0] ?? null))
+    // Medical records and attachments are hidden from roles without clinical access (RLS blocks them too)
+    if (canViewRecords) {
+      getMedicalRecordsByAppointment(viewingAppointment.id).then(recs => setViewMedicalRecord(recs[0] ?? null))
+      getAppointmentAttachments(viewingAppointment.id).then(setViewAttachments)
+    }
     getSaleItemsByAppointment(viewingAppointment.id).then(setViewSaleItems)
-    getAppointmentAttachments(viewingAppointment.id).then(setViewAttachments)
-  }, [viewingAppointment?.id])
+    getAppointmentInvoice(viewingAppointment.id).then(inv => setViewInvoice(inv ?? null))
+  }, [viewingAppointment?.id, canViewRecords])
 
   // Helper to get client/pet names by ID
   const getClientName = (clientId: number) => {
@@ -72,6 +102,7 @@ export default function Appointments() {
       type: data.type,
       status: data.status,
       veterinarian: data.veterinarian,
+      veterinarianId: data.veterinarianId,
       notes: data.notes,
       totalAmount: data.totalAmount,
       amountPaid: data.amountPaid,
@@ -81,7 +112,7 @@ export default function Appointments() {
 
     let appointmentId: number
     if (editingAppointment?.id) {
-      await updateAppointment(editingAppointment.id, {
+      const updates = {
         petId: data.petId,
         clientId: data.clientId,
         date: data.date,
@@ -90,38 +121,70 @@ export default function Appointments() {
         type: data.type,
         status: data.status,
         veterinarian: data.veterinarian,
+        veterinarianId: data.veterinarianId ?? null,
         notes: data.notes,
         totalAmount: data.totalAmount,
         amountPaid: data.amountPaid
-      }, client, pet)
+      }
+      const options = { allowConflicts: data.allowConflicts }
+      if (editingAppointment.seriesId && data.applyToSeries) {
+        await updateAppointmentSeries(editingAppointment.seriesId, editingAppointment.id, updates, client, pet, options)
+      } else {
+        await updateAppointment(editingAppointment.id, updates, client, pet, options)
+      }
       appointmentId = editingAppointment.id
+    } else if (data.recurrence) {
+      appointmentId = await addAppointmentSeries(appointmentData, data.recurrence, client, pet, { allowConflicts: data.allowConflicts })
     } else {
-      appointmentId = await addAppointment(appointmentData, client, pet)
+      appointmentId = await addAppointment(appointmentData, client, pet, { allowConflicts: data.allowConflicts })
     }
 
-    // Save medical record and sale items only when creating (not editing)
-    if (!editingAppointment) {
-      const hasMedicalRecord = data.medicalRecord.symptoms || data.medicalRecord.diagnosis ||
-        data.medicalRecord.treatment || data.medicalRecord.notes
-      if (hasMedicalRecord && appointmentId) {
-        await addMedicalRecord({
-          appointmentId,
-          petId: data.petId,
-          symptoms: data.medicalRecord.symptoms,
-          diagnosis: data.medicalRecord.diagnosis,
-          treatment: data.medicalRecord.treatment,
-          notes: data.medicalRecord.notes
-        })
-      }
-      for (const item of data.saleItems) {
+    // Medical record: update the existing one, or create it once there is something to record
+    // (skipped for roles without access to medical records - the form doesn't show them)
+    const record = data.medicalRecord
+    const soap = {
+      subjective: record.subjective,
+      objective: record.objective,
+      assessment: record.assessment,
+      plan: record.plan,
+      vitals: record.vitals,
+      notes: record.notes
+    }
+    if (canViewRecords && record.id) {
+      await updateMedicalRecord(record.id, soap)
+    } else if (canViewRecords && hasSoapContent(record) && appointmentId) {
+      await addMedicalRecord({ appointmentId, petId: data.petId, ...soap })
+    }
+
+    // Sale items: diff form lines against saved lines (stock is adjusted by the db layer)
+    const savedItems = editingAppointment?.id ? await getSaleItemsByAppointment(appointmentId) : []
+    const keptIds = new Set(data.saleItems.filter(i => i.id).map(i => i.id))
+    for (const saved of savedItems) {
+      if (saved.id && !keptIds.has(saved.id)) await deleteSaleItem(saved.id)
+    }
+    for (const item of data.saleItems) {
+      const saved = item.id ? savedItems.find(s => s.id === item.id) : undefined
+      if (!saved) {
         await addSaleItem({
           appointmentId,
           inventoryId: item.inventoryId,
           quantity: item.quantity,
-          unitPrice: item.unitPrice
+          unitPrice: item.unitPrice,
+          doseOverrideReason: item.doseOverrideReason
+        })
+      } else if (
+        saved.quantity !== item.quantity ||
+        saved.unitPrice !== item.unitPrice ||
+        (saved.doseOverrideReason ?? '') !== (item.doseOverrideReason ?? '')
+      ) {
+        await updateSaleItem(saved.id!, {
+          quantity: item.quantity,
+          unitPrice: item.unitPrice,
+          doseOverrideReason: item.doseOverrideReason ?? ''
         })
       }
     }
+    if (data.saleItems.length > 0 || savedItems.length > 0) fetchInventory()
 
     setShowForm(false)
     setEditingAppointment(null)
@@ -135,9 +198,11 @@ export default function Appointments() {
       apt.type.toLowerCase().includes(searchTerm.toLowerCase())
     const matchesStatus = !filterStatus || apt.status === filterStatus
     const matchesType = !filterType || apt.type === filterType
+    const vet = veterinarians.find(v => String(v.id) === filterVet)
+    const matchesVet = !filterVet || (vet ? isSameVet(apt, vet) : false)
     const matchesDateFrom = !filterDateFrom || apt.date >= filterDateFrom
     const matchesDateTo = !filterDateTo || apt.date <= filterDateTo
-    return matchesSearch && matchesStatus && matchesType && matchesDateFrom && matchesDateTo
+    return matchesSearch && matchesStatus && matchesType && matchesVet && matchesDateFrom && matchesDateTo
   })
 
   return (
@@ -197,6 +262,18 @@ export default function Appointments() {
           <option value="emergency">Emergency</option>
           <option value="follow-up">Follow-up</option>
         </select>
+        {veterinarians.length > 0 && (
+          <select
+            value={filterVet}
+            onChange={(e) => setFilterVet(e.target.value)}
+            className="px-4 py-2 border border-gray-200 rounded-lg focus:ring-2 focus:ring-teal-500"
+          >
+            <option value="">Todos los veterinarios</option>
+            {veterinarians.map(v => (
+              <option key={v.id} value={v.id}>{v.name}</option>
+            ))}
+          </select>
+        )}
         <div className="flex gap-2 items-center">
           <input
             type="date"
@@ -251,7 +328,12 @@ export default function Appointments() {
                     </td>
                     <td className="px-6 py-4 text-gray-600">{getClientName(apt.clientId)}</td>
                     <td className="px-6 py-4 text-gray-600">{getPetName(apt.petId)}</td>
-                    <td className="px-6 py-4 text-gray-600 capitalize">{apt.type}</td>
+                    <td className="px-6 py-4 text-gray-600 capitalize">
+                      <span className="flex items-center gap-1">
+                        {apt.type}
+                        {apt.seriesId && <Repeat className="w-3.5 h-3.5 text-gray-400" aria-label="Serie" />}
+                      </span>
+                    </td>
                     <td className="px-6 py-4">
                       <div className="text-sm">
                         <span className="text-gray-600">Total: ${total.toFixed(2)}</span>
@@ -309,6 +391,9 @@ export default function Appointments() {
         pets={pets}
         clients={clients}
         inventoryItems={inventoryItems}
+        veterinarians={veterinarians}
+        appointments={appointments}
+        showMedicalRecord={canViewRecords}
       />
 
       <AppointmentDetail
@@ -321,6 +406,23 @@ export default function Appointments() {
         saleItems={viewSaleItems}
         attachments={viewAttachments}
         inventoryItems={inventoryItems}
+        invoice={viewInvoice}
+        onCreateInvoice={async () => {
+          if (!viewingAppointment) return
+          const invoice = await createInvoiceForAppointment(viewingAppointment, inventoryItems)
+          setViewInvoice(invoice)
+          setShowInvoice(true)
+        }}
+        onViewInvoice={() => setShowInvoice(true)}
+        onCancelSeries={async () => {
+          if (!viewingAppointment?.seriesId) return
+          await cancelAppointmentSeries(
+            viewingAppointment.seriesId,
+            clients.find(c => c.id === viewingAppointment.clientId),
+            pets.find(p => p.id === viewingAppointment.petId)
+          )
+          setViewingAppointment(null)
+        }}
         onEdit={() => {
           if (viewingAppointment) {
             setViewingAppointment(null)
@@ -328,6 +430,7 @@ export default function Appointments() {
             setShowForm(true)
           }
         }}
+        showClinical={canViewRecords}
         onAttachmentUpload={async (file) => {
           if (!viewingAppointment?.id) return
           const att = await uploadAppointmentAttachment(viewingAppointment.id, file)
@@ -338,6 +441,18 @@ export default function Appointments() {
           setViewAttachments(prev => prev.filter(a => a.id !== id))
         }}
       />
+
+      <InvoiceDetail
+        isOpen={showInvoice && !!viewInvoice}
+        onClose={() => setShowInvoice(false)}
+        invoice={viewInvoice}
+        client={viewingAppointment ? clients.find(c => c.id === viewingAppointment.clientId) : null}
+        pet={viewingAppointment ? pets.find(p => p.id === viewingAppointment.petId) : null}
+        onChange={(invoice) => {
+          setViewInvoice(invoice)
+          setViewingAppointment(prev => prev && { ...prev, amountPaid: invoice.amountPaid })
+        }}
+      />
     </div>
   )
 }
@@ -0,0 +1,278 @@
+// Public self-booking portal - pet owners book with the email or phone the clinic has on file
+// Only free/busy data is loaded; bookings land as 'scheduled' until the clinic confirms them
+
+import { useState, useEffect, useMemo } from 'react'
+import { useSearchParams } from 'react-router-dom'
+import { CalendarCheck } from 'lucide-react'
+import { getBookingClinic, getBookingAvailability, findBookingClient, bookOnlineAppointment } from '../db'
+import { rulesFromSettings } from '../services/scheduling'
+import { addDays, toDateString } from '../services/dates'
+import { getFreeSlots, BOOKABLE_TYPES, BOOKING_DURATIONS, BOOKING_DAYS } from '../services/booking'
+import type { Appointment, Pet, BookingClinic, BookingAvailability } from '../db/types'
+
+const TYPE_LABELS: Partial<Record<Appointment['type'], string>> = {
+  consultation: 'Consulta',
+  vaccination: 'Vacunación',
+  grooming: 'Peluquería',
+  'follow-up': 'Control'
+}
+
+const SPECIES_LABELS: Record<Pet['species'], string> = {
+  dog: 'Perro',
+  cat: 'Gato',
+  bird: 'Ave',
+  rabbit: 'Conejo',
+  hamster: 'Hámster',
+  fish: 'Pez',
+  reptile: 'Reptil',
+  other: 'Otro'
+}
+
+const daysFromToday = (days: number) => addDays(toDateString(new Date()), days)
+
+export default function Book() {
+  const [searchParams] = useSearchParams()
+  const slug = searchParams.get('clinic') || ''
+  const [clinic, setClinic] = useState<BookingClinic | null>(null)
+  const [availability, setAvailability] = useState<BookingAvailability | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [contact, setContact] = useState('')
+  const [match, setMatch] = useState<string | null>(null)
+  const [notFound, setNotFound] = useState(false)
+  const [pet, setPet] = useState<{ name: string; species: Pet['species'] }>({ name: '', species: 'dog' })
+  const [type, setType] = useState<Appointment['type']>('consultation')
+  const [date, setDate] = useState(daysFromToday(0))
+  const [time, setTime] = useState('')
+  const [notes, setNotes] = useState('')
+  const [submitting, setSubmitting] = useState(false)
+  const [booked, setBooked] = useState(false)
+  const [error, setError] = useState('')
+
+  const loadAvailability = async (ownerId: string) => {
+    setAvailability(await getBookingAvailability(ownerId, daysFromToday(0), daysFromToday(BOOKING_DAYS)))
+  }
+
+  useEffect(() => {
+    if (!slug) {
+      setLoading(false)
+      return
+    }
+    getBookingClinic(slug)
+      .then(async (c) => {
+        setClinic(c ?? null)
+        if (c) await loadAvailability(c.ownerId)
+      })
+      .catch((err) => setError(err instanceof Error ? err.message : 'Error al cargar la clínica'))
+      .finally(() => setLoading(false))
+  }, [slug])
+
+  const duration = BOOKING_DURATIONS[type] ?? 30
+  const slots = useMemo(() => {
+    if (!availability) return []
+    return getFreeSlots(date, duration, type, availability.busy, availability.veterinarians, rulesFromSettings(availability.settings))
+  }, [availability, date, duration, type])
+
+  useEffect(() => {
+    setTime('')
+  }, [date, type])
+
+  const handleIdentify = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setError('')
+    setNotFound(false)
+    setSubmitting(true)
+    try {
+      const found = await findBookingClient(slug, contact.trim())
+      setMatch(found ?? null)
+      setNotFound(!found)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Error al buscar tus datos')
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  const handleBook = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!clinic || !match || !time) return
+    if (!pet.name.trim()) {
+      setError('Escribe el nombre de tu mascota')
+      return
+    }
+    setError('')
+    setSubmitting(true)
+    try {
+      const result = await bookOnlineAppointment({
+        slug,
+        match,
+        petName: pet.name.trim(),
+        petSpecies: pet.species,
+        date,
+        time,
+        duration,
+        type,
+        notes: notes.trim()
+      })
+      if (result === 'booked') {
+        setBooked(true)
+      } else if (result === 'taken' || result === 'unavailable') {
+        setError(result === 'taken'
+          ? 'Ese horario se acaba de ocupar. Elige otro.'
+          : 'Ese horario ya no está disponible. Elige otro.')
+        await loadAvailability(clinic.ownerId)
+      } else {
+        // The match expired (or the clinic stopped taking bookings): identify again
+        setMatch(null)
+        setError('No pudimos registrar la reserva. Vuelve a introducir tu email o teléfono o contacta a la clínica.')
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Error al reservar')
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  const inputClass = 'w-full px-4 py-2 border border-gray-200 rounded-lg focus:ring-2 focus:ring-teal-500'
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-50">
+        <div className="w-12 h-12 border-4 border-teal-600 border-t-transparent rounded-full animate-spin" />
+      </div>
+    )
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50 flex justify-center p-4">
+      <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-8 max-w-lg w-full space-y-6 self-start mt-8">
+        {clinic && <p className="text-sm font-medium text-teal-600">{clinic.name}</p>}
+        <h1 className="text-2xl font-bold text-gray-800">Reservar cita</h1>
+
+        {error && <div className="p-3 bg-red-50 text-red-700 rounded-lg text-sm">{error}</div>}
+
+        {!clinic ? (
+          <p className="text-gray-600">Este enlace de reservas no es válido o la clínica no acepta reservas online.</p>
+        ) : booked ? (
+          <div className="flex items-start gap-3 p-4 rounded-lg text-sm bg-green-50 text-green-700">
+            <CalendarCheck className="w-5 h-5 shrink-0" />
+            <p>
+              ¡Reserva recibida! {TYPE_LABELS[type]} el {date} a las {time}. La clínica te contactará para confirmarla.
+            </p>
+          </div>
+        ) : !match ? (
+          <form onSubmit={handleIdentify} className="space-y-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Tu email o teléfono</label>
+              <input
+                type="text"
+                value={contact}
+                onChange={(e) => setContact(e.target.value)}
+                className={inputClass}
+                placeholder="El que registraste en la clínica"
+                required
+              />
+            </div>
+            {notFound && (
+              <p className="text-sm text-amber-700">
+                No encontramos ese email o teléfono. Si eres un cliente nuevo, contacta a la clínica para registrarte.
+              </p>
+            )}
+            <button
+              type="submit"
+              disabled={submitting}
+              className="w-full px-4 py-3 bg-teal-600 text-white rounded-lg hover:bg-teal-700 disabled:opacity-50 font-medium"
+            >
+              {submitting ? 'Buscando...' : 'Continuar'}
+            </button>
+          </form>
+        ) : (
+          <form onSubmit={handleBook} className="space-y-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Tu mascota</label>
+              <div className="grid grid-cols-2 gap-2">
+                <input
+                  type="text"
+                  value={pet.name}
+                  onChange={(e) => setPet({ ...pet, name: e.target.value })}
+                  className={inputClass}
+                  placeholder="Nombre"
+                  required
+                />
+                <select
+                  value={pet.species}
+                  onChange={(e) => setPet({ ...pet, species: e.target.value as Pet['species'] })}
+                  className={inputClass}
+                >
+                  {Object.entries(SPECIES_LABELS).map(([value, label]) => (
+                    <option key={value} value={value}>{label}</option>
+                  ))}
+                </select>
+              </div>
+              <p className="text-xs text-gray-500 mt-1">
+                Escríbelo como lo tiene registrado la clínica. Si es una mascota nueva, la registraremos.
+              </p>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Motivo</label>
+                <select value={type} onChange={(e) => setType(e.target.value as Appointment['type'])} className={inputClass}>
+                  {BOOKABLE_TYPES.map(t => (
+                    <option key={t} value={t}>{TYPE_LABELS[t]}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Fecha</label>
+                <input
+                  type="date"
+                  value={date}
+                  min={daysFromToday(0)}
+                  max={daysFromToday(BOOKING_DAYS)}
+                  onChange={(e) => setDate(e.target.value)}
+                  className={inputClass}
+                  required
+                />
+              </div>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Horarios disponibles</label>
+              {slots.length === 0 ? (
+                <p className="text-sm text-gray-500">No hay horarios libres ese día. Prueba con otra fecha.</p>
+              ) : (
+                <div className="grid grid-cols-4 gap-2">
+                  {slots.map(slot => (
+                    <button
+                      key={slot}
+                      type="button"
+                      onClick={() => setTime(slot)}
+                      className={`px-2 py-1.5 text-sm rounded-lg border ${
+                        time === slot ? 'bg-teal-600 text-white border-teal-600' : 'border-gray-200 text-gray-700 hover:bg-gray-50'
+                      }`}
+                    >
+                      {slot}
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Comentarios (opcional)</label>
+              <textarea value={notes} onChange={(e) => setNotes(e.target.value)} className={inputClass} rows={2} />
+            </div>
+
+            <button
+              type="submit"
+              disabled={submitting || !time}
+              className="w-full px-4 py-3 bg-teal-600 text-white rounded-lg hover:bg-teal-700 disabled:opacity-50 font-medium"
+            >
+              {submitting ? 'Reservando...' : time ? `Reservar ${date} a las ${time}` : 'Elige un horario'}
+            </button>
+          </form>
+        )}
+      </div>
+    </div>
+  )
+}
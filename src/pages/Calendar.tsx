@@ -1,12 +1,46 @@
-import { useMemo } from 'react'
+import { useEffect, useMemo, useState } from 'react'
 import FullCalendar from '@fullcalendar/react'
 import dayGridPlugin from '@fullcalendar/daygrid'
 import timeGridPlugin from '@fullcalendar/timegrid'
 import interactionPlugin from '@fullcalendar/interaction'
+import type { EventDropArg } from '@fullcalendar/core'
+import { RefreshCw, AlertTriangle } from 'lucide-react'
 import { useAppointmentStore } from '../stores/appointmentStore'
+import { usePetStore } from '../stores/petStore'
+import { useClientStore } from '../stores/clientStore'
+import { useVeterinarianStore } from '../stores/veterinarianStore'
+import { VetResourceView } from '../components/calendar/VetResourceView'
+import { Modal } from '../components/ui/Modal'
+import { Button } from '../components/ui/Button'
+import { SchedulingConflictError, slotFromDate } from '../services/scheduling'
+import { toDateString } from '../services/dates'
+import type { RemoteSchedule } from '../services/google/calendarSync'
+
+const formatSchedule = (schedule: RemoteSchedule) =>
+  schedule.cancelled ? 'Cancelada' : `${schedule.date} ${schedule.time} (${schedule.duration} min)`
 
 export default function Calendar() {
-  const { appointments } = useAppointmentStore()
+  const {
+    appointments,
+    calendarSyncEnabled,
+    isCalendarSyncing,
+    lastSyncTime,
+    calendarConflicts,
+    updateAppointment,
+    syncWithGoogleCalendar,
+    loadCalendarSyncStatus,
+    resolveCalendarConflict
+  } = useAppointmentStore()
+  const { pets } = usePetStore()
+  const { clients } = useClientStore()
+  const { veterinarians } = useVeterinarianStore()
+  const [showConflicts, setShowConflicts] = useState(false)
+  const [view, setView] = useState<'calendar' | 'vets'>('calendar')
+  const [vetViewDate, setVetViewDate] = useState(() => toDateString(new Date()))
+
+  useEffect(() => {
+    if (calendarSyncEnabled) loadCalendarSyncStatus()
+  }, [calendarSyncEnabled, loadCalendarSyncStatus])
 
   // Map appointments to FullCalendar event format
   const events = useMemo(() => {
@@ -23,30 +57,143 @@ export default function Calendar() {
     })
   }, [appointments])
 
+  // Drag-and-drop reschedule: the store validates the new slot; on conflicts ask before saving anyway
+  const handleEventDrop = async (info: EventDropArg) => {
+    const appointment = appointments.find(a => String(a.id) === info.event.id)
+    if (!appointment?.id || !info.event.start) return info.revert()
+    const start = info.event.start
+    const end = info.event.end
+    const updates = {
+      ...slotFromDate(start),
+      duration: end ? Math.round((end.getTime() - start.getTime()) / 60000) : appointment.duration
+    }
+    const client = clients.find(c => c.id === appointment.clientId)
+    const pet = pets.find(p => p.id === appointment.petId)
+    try {
+      await updateAppointment(appointment.id, updates, client, pet)
+    } catch (err) {
+      if (err instanceof SchedulingConflictError && confirm(`${err.message}\n\n¿Mover la cita de todos modos?`)) {
+        await updateAppointment(appointment.id, updates, client, pet, { allowConflicts: true }).catch(() => info.revert())
+      } else {
+        info.revert()
+      }
+    }
+  }
+
   return (
     <div className="space-y-6">
-      <div>
-        <h1 className="text-2xl font-bold text-gray-800">Calendar</h1>
-        <p className="text-gray-500">View and manage your schedule</p>
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-800">Calendar</h1>
+          <p className="text-gray-500">View and manage your schedule</p>
+        </div>
+        {calendarSyncEnabled && (
+          <div className="flex items-center gap-3">
+            <span className="text-sm text-gray-500">
+              {lastSyncTime ? `Última sincronización: ${new Date(lastSyncTime).toLocaleString()}` : 'Sin sincronizar'}
+            </span>
+            <Button variant="secondary" onClick={() => syncWithGoogleCalendar()} disabled={isCalendarSyncing}>
+              <RefreshCw className={`w-4 h-4 mr-2 ${isCalendarSyncing ? 'animate-spin' : ''}`} />
+              Sincronizar con Google
+            </Button>
+          </div>
+        )}
+      </div>
+
+      {calendarConflicts.length > 0 && (
+        <button
+          onClick={() => setShowConflicts(true)}
+          className="w-full flex items-center gap-2 p-3 rounded-lg bg-amber-50 border border-amber-200 text-amber-800 text-sm text-left hover:bg-amber-100"
+        >
+          <AlertTriangle className="w-4 h-4 shrink-0" />
+          {calendarConflicts.length} cita{calendarConflicts.length === 1 ? '' : 's'} cambiada{calendarConflicts.length === 1 ? '' : 's'} en
+          VetSoft y en Google Calendar. Revisar conflictos
+        </button>
+      )}
+
+      <div className="flex gap-2">
+        <Button size="sm" variant={view === 'calendar' ? 'primary' : 'secondary'} onClick={() => setView('calendar')}>
+          Calendario
+        </Button>
+        <Button size="sm" variant={view === 'vets' ? 'primary' : 'secondary'} onClick={() => setView('vets')}>
+          Por veterinario
+        </Button>
       </div>
 
       <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-6">
-        <FullCalendar
-          plugins={[dayGridPlugin, timeGridPlugin, interactionPlugin]}
-          initialView="dayGridMonth"
-          headerToolbar={{
-            left: 'prev,next today',
-            center: 'title',
-            right: 'dayGridMonth,timeGridWeek,timeGridDay'
-          }}
-          events={events}
-          editable={true}
-          selectable={true}
-          selectMirror={true}
-          dayMaxEvents={true}
-          height="auto"
-        />
+        {view === 'vets' ? (
+          <VetResourceView
+            date={vetViewDate}
+            onDateChange={setVetViewDate}
+            veterinarians={veterinarians}
+            appointments={appointments}
+            pets={pets}
+          />
+        ) : (
+          <FullCalendar
+            plugins={[dayGridPlugin, timeGridPlugin, interactionPlugin]}
+            initialView="dayGridMonth"
+            headerToolbar={{
+              left: 'prev,next today',
+              center: 'title',
+              right: 'dayGridMonth,timeGridWeek,timeGridDay'
+            }}
+            events={events}
+            editable={true}
+            selectable={true}
+            selectMirror={true}
+            dayMaxEvents={true}
+            eventDrop={handleEventDrop}
+            height="auto"
+          />
+        )}
       </div>
+
+      <Modal
+        isOpen={showConflicts}
+        onClose={() => setShowConflicts(false)}
+        title="Conflictos con Google Calendar"
+        size="lg"
+      >
+        <p className="text-sm text-gray-600 mb-4">
+          Estas citas se modificaron en VetSoft y en Google Calendar desde la última sincronización.
+          Elige qué versión conservar.
+        </p>
+        {calendarConflicts.length === 0 ? (
+          <p className="text-sm text-gray-500">No hay conflictos pendientes.</p>
+        ) : (
+          <div className="space-y-3">
+            {calendarConflicts.map((conflict) => {
+              const appointment = appointments.find(a => a.id === conflict.appointmentId)
+              return (
+                <div key={conflict.eventId} className="p-3 border border-gray-200 rounded-lg">
+                  <div className="flex items-center justify-between gap-4">
+                    <div>
+                      <p className="font-medium text-gray-800">
+                        Cita #{conflict.appointmentId}
+                        {appointment && <span className="ml-2 text-xs text-gray-500">{appointment.type} · {appointment.veterinarian}</span>}
+                      </p>
+                      <p className="text-xs text-gray-600 mt-1">VetSoft: {formatSchedule(conflict.local)}</p>
+                      <p className="text-xs text-amber-700">
+                        Google: {formatSchedule(conflict.remote)}
+                        {conflict.remoteUpdated && ` · modificado ${new Date(conflict.remoteUpdated).toLocaleString()}`}
+                      </p>
+                    </div>
+                    <div className="flex gap-2 shrink-0">
+                      <Button size="sm" variant="secondary" onClick={() => resolveCalendarConflict(conflict, 'google').catch(() => {})}>
+                        Mantener Google
+                      </Button>
+                      <Button size="sm" onClick={() => resolveCalendarConflict(conflict, 'local').catch(() => {})}>
+                        Mantener VetSoft
+                      </Button>
+                    </div>
+                  </div>
+                </div>
+              )
+            })}
+          </div>
+        )}
+      </Modal>
     </div>
   )
 }
@@ -0,0 +1,100 @@
+// Public waitlist claim page - opened from the offer email, no sign-in required
+// The first client to confirm books the freed slot; later clicks see it as taken
+
+import { useState, useEffect } from 'react'
+import { useParams } from 'react-router-dom'
+import { CalendarCheck, CalendarX } from 'lucide-react'
+import { getPublicWaitlistOffer, claimWaitlistOffer } from '../db'
+import type { PublicWaitlistOffer, ClaimOfferResult } from '../db/types'
+
+const RESULT_MESSAGES: Record<ClaimOfferResult, string> = {
+  claimed: '¡Listo! Tu cita quedó reservada. La clínica te contactará para confirmar.',
+  taken: 'Lo sentimos, otro cliente reservó este horario primero. Sigues en la lista de espera.',
+  expired: 'Esta oferta ya venció. Sigues en la lista de espera.',
+  not_found: 'El enlace no es válido.'
+}
+
+export default function ClaimOffer() {
+  const { token } = useParams<{ token: string }>()
+  const [offer, setOffer] = useState<PublicWaitlistOffer | null>(null)
+  const [result, setResult] = useState<ClaimOfferResult | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [claiming, setClaiming] = useState(false)
+  const [error, setError] = useState('')
+
+  useEffect(() => {
+    if (!token) return
+    getPublicWaitlistOffer(token)
+      .then((o) => {
+        if (!o) setResult('not_found')
+        else if (o.status === 'claimed') setResult('taken')
+        else if (o.status === 'expired') setResult('expired')
+        setOffer(o ?? null)
+      })
+      .catch((err) => setError(err instanceof Error ? err.message : 'Error al cargar la oferta'))
+      .finally(() => setLoading(false))
+  }, [token])
+
+  const handleClaim = async () => {
+    if (!token) return
+    setClaiming(true)
+    setError('')
+    try {
+      setResult(await claimWaitlistOffer(token))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Error al reservar')
+    } finally {
+      setClaiming(false)
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-50">
+        <div className="w-12 h-12 border-4 border-teal-600 border-t-transparent rounded-full animate-spin" />
+      </div>
+    )
+  }
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 p-4">
+      <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-8 max-w-md w-full space-y-4">
+        {offer?.clinicName && <p className="text-sm font-medium text-teal-600">{offer.clinicName}</p>}
+        <h1 className="text-2xl font-bold text-gray-800">Horario disponible</h1>
+
+        {offer && (
+          <div className="p-4 bg-gray-50 rounded-lg text-gray-700 space-y-1">
+            <p><strong>{offer.petName}</strong> · <span className="capitalize">{offer.type}</span></p>
+            <p>{offer.date} a las {offer.time} ({offer.duration} min)</p>
+            {offer.veterinarian && <p>Con {offer.veterinarian}</p>}
+            {!result && (
+              <p className="text-xs text-gray-500">Disponible hasta {new Date(offer.expiresAt).toLocaleString()}</p>
+            )}
+          </div>
+        )}
+
+        {error && <div className="p-3 bg-red-50 text-red-700 rounded-lg text-sm">{error}</div>}
+
+        {result ? (
+          <div className={`flex items-start gap-3 p-4 rounded-lg text-sm ${result === 'claimed' ? 'bg-green-50 text-green-700' : 'bg-amber-50 text-amber-700'}`}>
+            {result === 'claimed' ? <CalendarCheck className="w-5 h-5 shrink-0" /> : <CalendarX className="w-5 h-5 shrink-0" />}
+            <p>{RESULT_MESSAGES[result]}</p>
+          </div>
+        ) : (
+          <>
+            <p className="text-sm text-gray-600">
+              Se liberó este horario y estás en la lista de espera. El primero en confirmar se queda con la cita.
+            </p>
+            <button
+              onClick={handleClaim}
+              disabled={claiming}
+              className="w-full px-4 py-3 bg-teal-600 text-white rounded-lg hover:bg-teal-700 disabled:opacity-50 font-medium"
+            >
+              {claiming ? 'Reservando...' : 'Reservar'}
+            </button>
+          </>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -3,6 +3,7 @@ import { CalendarDays, Users, PawPrint, TrendingUp, DollarSign } from 'lucide-re
 import { useAppointmentStore } from '../stores/appointmentStore'
 import { useClientStore } from '../stores/clientStore'
 import { usePetStore } from '../stores/petStore'
+import PetAlertBadges from '../components/medical/PetAlertBadges'
 import {
   BarChart,
   Bar,
@@ -174,6 +175,7 @@ export default function Dashboard() {
                       <p className="text-sm text-gray-500">
                         {pet?.name || 'Pet'} - {client ? `${client.firstName} ${client.lastName}` : 'Client'}
                       </p>
+                      <PetAlertBadges alerts={pet?.alerts} className="mt-1" />
                     </div>
                   </div>
                   <span className={`px-3 py-1 rounded-full text-xs font-medium ${
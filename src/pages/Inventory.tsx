@@ -1,15 +1,19 @@
 import { useState, useEffect } from 'react'
-import { Plus, Search, Pencil, Trash2, Package, Minus } from 'lucide-react'
+import { Plus, Search, Pencil, Trash2, Package, Minus, PackagePlus, History } from 'lucide-react'
 import { useInventoryStore } from '../stores/inventoryStore'
 import InventoryForm from '../components/forms/InventoryForm'
+import StockMovementForm from '../components/forms/StockMovementForm'
+import InventoryHistory from '../components/forms/InventoryHistory'
 import type { InventoryItem } from '../db/types'
 import type { InventoryFormData } from '../components/forms/InventoryForm'
 
 export default function Inventory() {
-  const { items, fetchItems, addItem, updateItem, deleteItem } = useInventoryStore()
+  const { items, fetchItems, addItem, updateItem, deleteItem, recordMovement } = useInventoryStore()
   const [searchTerm, setSearchTerm] = useState('')
   const [showForm, setShowForm] = useState(false)
   const [editingItem, setEditingItem] = useState<InventoryItem | null>(null)
+  const [stockItem, setStockItem] = useState<InventoryItem | null>(null)
+  const [historyItem, setHistoryItem] = useState<InventoryItem | null>(null)
 
   useEffect(() => {
     fetchItems()
@@ -39,8 +43,8 @@ export default function Inventory() {
   const handleAdjustQuantity = async (id: number, delta: number) => {
     const item = items.find(i => i.id === id)
     if (!item) return
-    const newQty = Math.max(0, (item.quantity ?? 0) + delta)
-    await updateItem(id, { quantity: newQty })
+    if ((item.quantity ?? 0) + delta < 0) return
+    await recordMovement({ inventoryId: id, type: 'adjustment', quantity: delta })
   }
 
   return (
@@ -129,6 +133,20 @@ export default function Inventory() {
                     <Plus className="w-4 h-4" />
                   </button>
                 </div>
+                <button
+                  onClick={() => setStockItem(item)}
+                  className="p-2 text-green-600 border border-green-200 rounded-lg hover:bg-green-50"
+                  title="Receive stock"
+                >
+                  <PackagePlus className="w-4 h-4" />
+                </button>
+                <button
+                  onClick={() => setHistoryItem(item)}
+                  className="p-2 text-gray-600 border border-gray-200 rounded-lg hover:bg-gray-50"
+                  title="Historial de stock"
+                >
+                  <History className="w-4 h-4" />
+                </button>
                 <button
                   onClick={() => {
                     setEditingItem(item)
@@ -161,6 +179,19 @@ export default function Inventory() {
         onSubmit={handleSubmit}
         item={editingItem}
       />
+
+      <StockMovementForm
+        isOpen={!!stockItem}
+        onClose={() => setStockItem(null)}
+        onSubmit={recordMovement}
+        item={stockItem}
+      />
+
+      <InventoryHistory
+        isOpen={!!historyItem}
+        onClose={() => setHistoryItem(null)}
+        item={historyItem}
+      />
     </div>
   )
 }
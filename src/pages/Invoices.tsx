@@ -0,0 +1,182 @@
+import { useState, useEffect } from 'react'
+import { Search, Eye } from 'lucide-react'
+import { useInvoiceStore } from '../stores/invoiceStore'
+import { useClientStore } from '../stores/clientStore'
+import { usePetStore } from '../stores/petStore'
+import { useAppointmentStore } from '../stores/appointmentStore'
+import InvoiceDetail from '../components/forms/InvoiceDetail'
+import { formatInvoiceNumber } from '../services/invoices'
+import type { Invoice } from '../db/types'
+
+export default function Invoices() {
+  const { invoices, isLoading, error, fetchInvoices } = useInvoiceStore()
+  const { clients } = useClientStore()
+  const { pets } = usePetStore()
+  const { appointments } = useAppointmentStore()
+  const [searchTerm, setSearchTerm] = useState('')
+  const [filterStatus, setFilterStatus] = useState<string>('')
+  const [filterDateFrom, setFilterDateFrom] = useState('')
+  const [filterDateTo, setFilterDateTo] = useState('')
+  const [viewingInvoice, setViewingInvoice] = useState<Invoice | null>(null)
+
+  useEffect(() => {
+    fetchInvoices()
+  }, [fetchInvoices])
+
+  const getClientName = (clientId: number) => {
+    const c = clients.find(x => x.id === clientId)
+    return c ? `${c.firstName} ${c.lastName}` : `Client #${clientId}`
+  }
+
+  const filteredInvoices = invoices.filter(inv => {
+    const matchesSearch = !searchTerm ||
+      formatInvoiceNumber(inv.number).toLowerCase().includes(searchTerm.toLowerCase()) ||
+      getClientName(inv.clientId).toLowerCase().includes(searchTerm.toLowerCase())
+    const matchesStatus = !filterStatus || inv.status === filterStatus
+    const matchesDateFrom = !filterDateFrom || inv.issueDate >= filterDateFrom
+    const matchesDateTo = !filterDateTo || inv.issueDate <= filterDateTo
+    return matchesSearch && matchesStatus && matchesDateFrom && matchesDateTo
+  })
+
+  const totals = filteredInvoices.reduce(
+    (acc, inv) => ({
+      billed: acc.billed + inv.total,
+      paid: acc.paid + inv.amountPaid
+    }),
+    { billed: 0, paid: 0 }
+  )
+
+  const viewingAppointment = viewingInvoice
+    ? appointments.find(a => a.id === viewingInvoice.appointmentId)
+    : undefined
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold text-gray-800">Facturas</h1>
+        <p className="text-gray-500">Invoices, payments and refunds</p>
+      </div>
+
+      {error && (
+        <div className="p-3 bg-red-50 text-red-700 rounded-lg text-sm">{error}</div>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-4">
+          <p className="text-sm text-gray-500">Facturado</p>
+          <p className="text-xl font-semibold text-gray-800">${totals.billed.toFixed(2)}</p>
+        </div>
+        <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-4">
+          <p className="text-sm text-gray-500">Cobrado</p>
+          <p className="text-xl font-semibold text-green-600">${totals.paid.toFixed(2)}</p>
+        </div>
+        <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-4">
+          <p className="text-sm text-gray-500">Pendiente</p>
+          <p className="text-xl font-semibold text-red-600">${Math.max(0, totals.billed - totals.paid).toFixed(2)}</p>
+        </div>
+      </div>
+
+      {/* Search and filters */}
+      <div className="flex flex-wrap gap-4 items-end">
+        <div className="relative flex-1 min-w-[200px]">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-5 h-5 text-gray-400" />
+          <input
+            type="text"
+            placeholder="Buscar por número o cliente..."
+            value={searchTerm}
+            onChange={(e) => setSearchTerm(e.target.value)}
+            className="w-full pl-10 pr-4 py-2 border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-teal-500"
+          />
+        </div>
+        <select
+          value={filterStatus}
+          onChange={(e) => setFilterStatus(e.target.value)}
+          className="px-4 py-2 border border-gray-200 rounded-lg focus:ring-2 focus:ring-teal-500"
+        >
+          <option value="">Todos los estados</option>
+          <option value="issued">Emitida</option>
+          <option value="partial">Pago parcial</option>
+          <option value="paid">Pagada</option>
+          <option value="refunded">Reembolsada</option>
+        </select>
+        <div className="flex gap-2 items-center">
+          <input
+            type="date"
+            value={filterDateFrom}
+            onChange={(e) => setFilterDateFrom(e.target.value)}
+            className="px-4 py-2 border border-gray-200 rounded-lg focus:ring-2 focus:ring-teal-500"
+          />
+          <span className="text-gray-400">—</span>
+          <input
+            type="date"
+            value={filterDateTo}
+            onChange={(e) => setFilterDateTo(e.target.value)}
+            className="px-4 py-2 border border-gray-200 rounded-lg focus:ring-2 focus:ring-teal-500"
+          />
+        </div>
+      </div>
+
+      <div className="bg-white rounded-xl shadow-sm border border-gray-100 overflow-hidden">
+        <table className="w-full">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Número</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Fecha</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Cliente</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Total</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Pagado</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Estado</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Actions</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200">
+            {filteredInvoices.length === 0 ? (
+              <tr>
+                <td colSpan={7} className="px-6 py-12 text-center text-gray-500">
+                  {isLoading ? 'Cargando...' : 'No hay facturas. Genera una desde el detalle de una cita.'}
+                </td>
+              </tr>
+            ) : (
+              filteredInvoices.map((inv) => (
+                <tr key={inv.id} className="hover:bg-gray-50">
+                  <td className="px-6 py-4 font-medium text-gray-800">{formatInvoiceNumber(inv.number)}</td>
+                  <td className="px-6 py-4 text-gray-600">{inv.issueDate}</td>
+                  <td className="px-6 py-4 text-gray-600">{getClientName(inv.clientId)}</td>
+                  <td className="px-6 py-4 text-gray-600">${inv.total.toFixed(2)}</td>
+                  <td className="px-6 py-4 text-gray-600">${inv.amountPaid.toFixed(2)}</td>
+                  <td className="px-6 py-4">
+                    <span className={`px-2 py-1 rounded-full text-xs font-medium ${
+                      inv.status === 'paid' ? 'bg-green-100 text-green-700' :
+                      inv.status === 'partial' ? 'bg-amber-100 text-amber-700' :
+                      inv.status === 'issued' ? 'bg-blue-100 text-blue-700' :
+                      'bg-gray-100 text-gray-700'
+                    }`}>
+                      {inv.status}
+                    </span>
+                  </td>
+                  <td className="px-6 py-4">
+                    <button
+                      onClick={() => setViewingInvoice(inv)}
+                      className="flex items-center gap-1 text-teal-600 hover:text-teal-700 font-medium text-sm"
+                    >
+                      <Eye className="w-4 h-4" /> View
+                    </button>
+                  </td>
+                </tr>
+              ))
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      <InvoiceDetail
+        isOpen={!!viewingInvoice}
+        onClose={() => setViewingInvoice(null)}
+        invoice={viewingInvoice}
+        client={viewingInvoice ? clients.find(c => c.id === viewingInvoice.clientId) : null}
+        pet={viewingAppointment ? pets.find(p => p.id === viewingAppointment.petId) : null}
+        onChange={setViewingInvoice}
+      />
+    </div>
+  )
+}
@@ -4,6 +4,7 @@ import { usePetStore } from '../stores/petStore'
 import { useClientStore } from '../stores/clientStore'
 import PetForm from '../components/forms/PetForm'
 import PetDetail from '../components/forms/PetDetail'
+import PetAlertBadges from '../components/medical/PetAlertBadges'
 import type { Pet } from '../db/types'
 import type { PetFormData } from '../components/forms/PetForm'
 
@@ -144,6 +145,7 @@ export default function Pets() {
                     </span>
                   )}
                 </div>
+                <PetAlertBadges alerts={pet.alerts} className="mt-2" />
 
                 <button
                   onClick={() => handleViewDetails(pet)}
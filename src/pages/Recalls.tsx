@@ -0,0 +1,297 @@
+import { useState, useEffect, useMemo } from 'react'
+import { Send, CalendarPlus, PhoneOff, Mail, Phone } from 'lucide-react'
+import { useRecallStore } from '../stores/recallStore'
+import { useClientStore } from '../stores/clientStore'
+import { usePetStore } from '../stores/petStore'
+import { useAppointmentStore } from '../stores/appointmentStore'
+import { findRecalls, recallWindow, type DueVaccine, type RecallGroup } from '../services/vaccineRecalls'
+import type { VaccineRecall } from '../db/types'
+
+const WINDOWS = [
+  { id: 'overdue', label: 'Vencidas (90 días)', past: 90, future: 0 },
+  { id: 'upcoming', label: 'Próximos 30 días', past: 0, future: 30 },
+  { id: 'all', label: 'Vencidas + próximos 30 días', past: 90, future: 30 }
+]
+
+const RECALL_LABELS: Record<VaccineRecall['outcome'], string> = {
+  sent: 'Email enviado',
+  failed: 'Email con error',
+  booked: 'Cita agendada',
+  no_answer: 'Llamada sin respuesta',
+  declined: 'Rechazó'
+}
+
+const dueBadge = (item: DueVaccine) => {
+  if (item.daysOverdue > 0) return { label: `Vencida hace ${item.daysOverdue} d`, className: 'bg-red-100 text-red-700' }
+  if (item.daysOverdue === 0) return { label: 'Vence hoy', className: 'bg-amber-100 text-amber-700' }
+  return { label: `En ${-item.daysOverdue} d`, className: 'bg-blue-100 text-blue-700' }
+}
+
+export default function Recalls() {
+  const { vaccines, recalls, isLoading, error, fetchRecallData, sendRecallEmails, bookVaccination, logCall } = useRecallStore()
+  const { clients } = useClientStore()
+  const { pets } = usePetStore()
+  const { appointments } = useAppointmentStore()
+  const [windowId, setWindowId] = useState('all')
+  const [range, setRange] = useState(() => recallWindow(90, 30))
+  const [hideBooked, setHideBooked] = useState(true)
+  const [selected, setSelected] = useState<Set<number>>(new Set())
+  const [busyKey, setBusyKey] = useState<string | null>(null)
+  const [notice, setNotice] = useState<string | null>(null)
+
+  useEffect(() => {
+    fetchRecallData()
+  }, [fetchRecallData])
+
+  const groups = useMemo(() => {
+    const all = findRecalls({ vaccines, pets, clients, appointments, recalls, from: range.from, to: range.to })
+    if (!hideBooked) return all
+    return all
+      .map(g => ({ ...g, items: g.items.filter(i => !i.appointment) }))
+      .filter(g => g.items.length > 0)
+  }, [vaccines, pets, clients, appointments, recalls, range, hideBooked])
+
+  const selectedGroups = groups.filter(g => selected.has(g.client.id!))
+  const recentRecalls = recalls.slice(0, 20)
+
+  const chooseWindow = (id: string) => {
+    const preset = WINDOWS.find(w => w.id === id)
+    setWindowId(id)
+    if (preset) setRange(recallWindow(preset.past, preset.future))
+  }
+
+  const toggleGroup = (clientId: number) => {
+    setSelected(prev => {
+      const next = new Set(prev)
+      if (next.has(clientId)) next.delete(clientId)
+      else next.add(clientId)
+      return next
+    })
+  }
+
+  const handleSendEmails = async () => {
+    if (selectedGroups.length === 0) return
+    if (!confirm(`¿Enviar recordatorios de vacunas a ${selectedGroups.length} cliente(s)?`)) return
+    setNotice(null)
+    const result = await sendRecallEmails(selectedGroups)
+    if (result.sent + result.failed + result.skipped === 0) return
+    setNotice(
+      `${result.sent} email(s) enviado(s)` +
+      (result.failed ? `, ${result.failed} con error` : '') +
+      (result.skipped ? `, ${result.skipped} sin email` : '')
+    )
+    setSelected(new Set())
+  }
+
+  const handleBook = async (group: RecallGroup, item: DueVaccine) => {
+    setNotice(null)
+    setBusyKey(`book:${item.vaccine.id}`)
+    try {
+      const slot = await bookVaccination(group, item)
+      setNotice(
+        `Cita de ${item.pet.name} agendada el ${slot.date} a las ${slot.time}` +
+        (slot.veterinarian ? ` con ${slot.veterinarian.name}` : '')
+      )
+    } catch {
+      // error shown from the store
+    } finally {
+      setBusyKey(null)
+    }
+  }
+
+  const handleCall = async (group: RecallGroup, item: DueVaccine, outcome: 'no_answer' | 'declined') => {
+    setBusyKey(`call:${item.vaccine.id}`)
+    await logCall(group, item, outcome)
+    setBusyKey(null)
+  }
+
+  const getClientName = (clientId: number) => {
+    const c = clients.find(x => x.id === clientId)
+    return c ? `${c.firstName} ${c.lastName}` : `Client #${clientId}`
+  }
+  const getPetName = (petId: number) => pets.find(p => p.id === petId)?.name ?? `Pet #${petId}`
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-800">Recordatorios de vacunas</h1>
+          <p className="text-gray-500">Pets with vaccines due or overdue - email the owners, call them or book the vaccination</p>
+        </div>
+        <button
+          onClick={handleSendEmails}
+          disabled={isLoading || selectedGroups.length === 0}
+          className="flex items-center gap-2 px-4 py-2 bg-teal-600 text-white rounded-lg hover:bg-teal-700 disabled:opacity-50"
+        >
+          <Send className="w-5 h-5" />
+          Enviar emails ({selectedGroups.length})
+        </button>
+      </div>
+
+      {error && <div className="p-3 bg-red-50 text-red-700 rounded-lg text-sm">{error}</div>}
+      {notice && <div className="p-3 bg-green-50 text-green-700 rounded-lg text-sm">{notice}</div>}
+
+      <div className="flex flex-wrap items-end gap-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Periodo</label>
+          <select
+            value={windowId}
+            onChange={(e) => chooseWindow(e.target.value)}
+            className="px-3 py-2 border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-teal-500"
+          >
+            {WINDOWS.map(w => <option key={w.id} value={w.id}>{w.label}</option>)}
+            <option value="custom">Personalizado</option>
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Desde</label>
+          <input
+            type="date"
+            value={range.from}
+            onChange={(e) => {
+              setWindowId('custom')
+              setRange(r => ({ ...r, from: e.target.value }))
+            }}
+            className="px-3 py-2 border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-teal-500"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Hasta</label>
+          <input
+            type="date"
+            value={range.to}
+            onChange={(e) => {
+              setWindowId('custom')
+              setRange(r => ({ ...r, to: e.target.value }))
+            }}
+            className="px-3 py-2 border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-teal-500"
+          />
+        </div>
+        <label className="flex items-center gap-2 text-sm text-gray-600 pb-2">
+          <input type="checkbox" checked={hideBooked} onChange={(e) => setHideBooked(e.target.checked)} />
+          Ocultar mascotas con cita de vacunación
+        </label>
+        {groups.length > 0 && (
+          <button
+            onClick={() => setSelected(
+              selectedGroups.length === groups.length ? new Set() : new Set(groups.map(g => g.client.id!))
+            )}
+            className="pb-2 text-sm text-teal-600 hover:text-teal-700"
+          >
+            {selectedGroups.length === groups.length ? 'Quitar selección' : 'Seleccionar todos'}
+          </button>
+        )}
+      </div>
+
+      <div className="space-y-4">
+        {groups.length === 0 ? (
+          <div className="bg-white rounded-xl shadow-sm border border-gray-100 px-6 py-12 text-center text-gray-500">
+            {isLoading ? 'Cargando...' : 'No hay vacunas pendientes en este periodo.'}
+          </div>
+        ) : (
+          groups.map(group => (
+            <div key={group.client.id} className="bg-white rounded-xl shadow-sm border border-gray-100 overflow-hidden">
+              <label className="flex items-center gap-3 px-6 py-3 bg-gray-50 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={selected.has(group.client.id!)}
+                  onChange={() => toggleGroup(group.client.id!)}
+                />
+                <span className="font-medium text-gray-800">{group.client.firstName} {group.client.lastName}</span>
+                <span className="flex items-center gap-1 text-sm text-gray-500">
+                  <Mail className="w-4 h-4" /> {group.client.email || 'sin email'}
+                </span>
+                {group.client.phone && (
+                  <span className="flex items-center gap-1 text-sm text-gray-500">
+                    <Phone className="w-4 h-4" /> {group.client.phone}
+                  </span>
+                )}
+              </label>
+              <table className="w-full">
+                <tbody className="divide-y divide-gray-100">
+                  {group.items.map(item => {
+                    const badge = dueBadge(item)
+                    return (
+                      <tr key={item.vaccine.id} className="hover:bg-gray-50">
+                        <td className="px-6 py-3 w-1/4">
+                          <p className="font-medium text-gray-800">{item.pet.name}</p>
+                          <p className="text-sm text-gray-500">{item.vaccine.name}</p>
+                        </td>
+                        <td className="px-6 py-3 text-sm text-gray-600">
+                          {item.vaccine.nextDueDate}
+                          <span className={`ml-2 px-2 py-0.5 rounded-full text-xs font-medium ${badge.className}`}>{badge.label}</span>
+                        </td>
+                        <td className="px-6 py-3 text-sm text-gray-500">
+                          {item.appointment ? (
+                            <span className="text-green-700">Cita {item.appointment.date} {item.appointment.time}</span>
+                          ) : item.lastRecall ? (
+                            <>
+                              {RECALL_LABELS[item.lastRecall.outcome]}
+                              <span className="block text-xs">{new Date(item.lastRecall.createdAt).toLocaleDateString()}</span>
+                            </>
+                          ) : (
+                            'Sin contactar'
+                          )}
+                        </td>
+                        <td className="px-6 py-3">
+                          <div className="flex justify-end gap-1">
+                            {!item.appointment && (
+                              <button
+                                onClick={() => handleBook(group, item)}
+                                disabled={!!busyKey}
+                                className="flex items-center gap-1 px-3 py-1.5 text-sm text-teal-700 bg-teal-50 hover:bg-teal-100 rounded-lg disabled:opacity-50"
+                                title="Agendar en el primer horario libre"
+                              >
+                                <CalendarPlus className="w-4 h-4" />
+                                {busyKey === `book:${item.vaccine.id}` ? 'Agendando...' : 'Agendar'}
+                              </button>
+                            )}
+                            <button
+                              onClick={() => handleCall(group, item, 'no_answer')}
+                              disabled={!!busyKey}
+                              className="p-2 text-gray-600 hover:bg-gray-100 rounded-lg disabled:opacity-50"
+                              title="Registrar llamada sin respuesta"
+                            >
+                              <PhoneOff className="w-4 h-4" />
+                            </button>
+                            <button
+                              onClick={() => handleCall(group, item, 'declined')}
+                              disabled={!!busyKey}
+                              className="px-2 py-1.5 text-sm text-gray-600 hover:bg-gray-100 rounded-lg disabled:opacity-50"
+                              title="El cliente no quiere vacunar por ahora"
+                            >
+                              Rechazó
+                            </button>
+                          </div>
+                        </td>
+                      </tr>
+                    )
+                  })}
+                </tbody>
+              </table>
+            </div>
+          ))
+        )}
+      </div>
+
+      {recentRecalls.length > 0 && (
+        <div>
+          <h2 className="text-lg font-semibold text-gray-800 mb-2">Historial de recordatorios</h2>
+          <div className="bg-white rounded-xl shadow-sm border border-gray-100 divide-y divide-gray-100">
+            {recentRecalls.map(recall => (
+              <div key={recall.id} className="flex items-center justify-between gap-4 px-6 py-2 text-sm">
+                <span className="text-gray-800">
+                  {getClientName(recall.clientId)} · {getPetName(recall.petId)}
+                </span>
+                <span className="text-gray-500">
+                  {RECALL_LABELS[recall.outcome]}
+                  {recall.notes && ` - ${recall.notes}`} · {new Date(recall.createdAt).toLocaleString()}
+                </span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -1,17 +1,22 @@
-// Reports page - Basic reports: inventory, clients, upcoming appointments
+// Reports page - Basic reports: inventory, clients, upcoming appointments, accounts receivable, per-vet workload
 
-import { useMemo } from 'react'
-import { Package, Users, CalendarDays, TrendingUp, AlertTriangle } from 'lucide-react'
+import { Fragment, useMemo, useState } from 'react'
+import { Package, Users, CalendarDays, TrendingUp, AlertTriangle, Wallet, Stethoscope } from 'lucide-react'
 import { useInventoryStore } from '../stores/inventoryStore'
 import { useClientStore } from '../stores/clientStore'
 import { useAppointmentStore } from '../stores/appointmentStore'
 import { usePetStore } from '../stores/petStore'
+import { useVeterinarianStore } from '../stores/veterinarianStore'
+import { isSameVet } from '../services/vetSchedule'
+import { AGING_BUCKETS, buildAgingReport, type AgingBucket } from '../services/ledger'
 
 export default function Reports() {
   const { items } = useInventoryStore()
   const { clients } = useClientStore()
   const { appointments } = useAppointmentStore()
   const { pets } = usePetStore()
+  const { veterinarians } = useVeterinarianStore()
+  const [drillDown, setDrillDown] = useState<{ clientId: number; bucket?: AgingBucket } | null>(null)
 
   const today = new Date().toISOString().split('T')[0]
   const nextWeek = new Date()
@@ -58,6 +63,33 @@ export default function Reports() {
     return Object.entries(counts).map(([type, count]) => ({ type, count }))
   }, [appointments])
 
+  // Appointments and billed amount per veterinarian (free-text vets that match no roster entry are grouped by name)
+  const vetBreakdown = useMemo(() => {
+    const rows = new Map<string, { name: string; count: number; completed: number; billed: number }>()
+    appointments
+      .filter(apt => apt.status !== 'cancelled')
+      .forEach(apt => {
+        const vet = veterinarians.find(v => isSameVet(apt, v))
+        const name = vet?.name ?? (apt.veterinarian || 'Sin asignar')
+        const key = vet ? `id:${vet.id}` : `name:${name}`
+        const row = rows.get(key) ?? { name, count: 0, completed: 0, billed: 0 }
+        row.count += 1
+        if (apt.status === 'completed') row.completed += 1
+        row.billed += apt.totalAmount ?? 0
+        rows.set(key, row)
+      })
+    return [...rows.values()].sort((a, b) => b.count - a.count)
+  }, [appointments, veterinarians])
+
+  // Accounts receivable aging (days since the appointment)
+  const agingReport = useMemo(() => buildAgingReport(appointments), [appointments])
+
+  const toggleDrillDown = (clientId: number, bucket?: AgingBucket) => {
+    setDrillDown(prev =>
+      prev && prev.clientId === clientId && prev.bucket === bucket ? null : { clientId, bucket }
+    )
+  }
+
   const getClientName = (clientId: number) => {
     const c = clients.find(x => x.id === clientId)
     return c ? `${c.firstName} ${c.lastName}` : `#${clientId}`
@@ -71,7 +103,7 @@ export default function Reports() {
     <div className="space-y-6">
       <div>
         <h1 className="text-2xl font-bold text-gray-800">Reportes</h1>
-        <p className="text-gray-500">Resumen de inventario, clientes y citas próximas</p>
+        <p className="text-gray-500">Resumen de inventario, clientes, cuentas por cobrar y citas próximas</p>
       </div>
 
       {/* Inventory report */}
@@ -123,6 +155,104 @@ export default function Reports() {
         </div>
       </div>
 
+      {/* Accounts receivable aging */}
+      <div className="bg-white rounded-xl p-6 shadow-sm border border-gray-100">
+        <h2 className="text-lg font-semibold text-gray-800 mb-4 flex items-center gap-2">
+          <Wallet className="w-5 h-5" /> Cuentas por cobrar
+        </h2>
+        {agingReport.clients.length === 0 ? (
+          <p className="text-gray-500 text-center py-8">No hay saldos pendientes</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b border-gray-200">
+                  <th className="text-left py-2 text-gray-500">Cliente</th>
+                  {AGING_BUCKETS.map(bucket => (
+                    <th key={bucket} className="text-right py-2 text-gray-500">{bucket} días</th>
+                  ))}
+                  <th className="text-right py-2 text-gray-500">Total</th>
+                </tr>
+              </thead>
+              <tbody>
+                {agingReport.clients.map(row => (
+                  <Fragment key={row.clientId}>
+                    <tr className="border-b border-gray-100 hover:bg-gray-50">
+                      <td className="py-2">
+                        <button
+                          onClick={() => toggleDrillDown(row.clientId)}
+                          className="text-teal-600 hover:underline"
+                        >
+                          {getClientName(row.clientId)}
+                        </button>
+                      </td>
+                      {AGING_BUCKETS.map(bucket => (
+                        <td key={bucket} className="py-2 text-right">
+                          {row.buckets[bucket] > 0 ? (
+                            <button
+                              onClick={() => toggleDrillDown(row.clientId, bucket)}
+                              className={`hover:underline ${bucket === '90+' || bucket === '61-90' ? 'text-red-600' : 'text-gray-800'}`}
+                            >
+                              ${row.buckets[bucket].toFixed(2)}
+                            </button>
+                          ) : (
+                            <span className="text-gray-300">-</span>
+                          )}
+                        </td>
+                      ))}
+                      <td className="py-2 text-right font-medium">${row.total.toFixed(2)}</td>
+                    </tr>
+                    {drillDown?.clientId === row.clientId && (
+                      <tr className="bg-gray-50">
+                        <td colSpan={AGING_BUCKETS.length + 2} className="px-4 py-3">
+                          <table className="w-full text-xs">
+                            <thead>
+                              <tr className="text-gray-500">
+                                <th className="text-left py-1">Fecha</th>
+                                <th className="text-left py-1">Mascota</th>
+                                <th className="text-left py-1">Tipo</th>
+                                <th className="text-right py-1">Total</th>
+                                <th className="text-right py-1">Pagado</th>
+                                <th className="text-right py-1">Pendiente</th>
+                                <th className="text-right py-1">Días</th>
+                              </tr>
+                            </thead>
+                            <tbody>
+                              {row.items
+                                .filter(item => !drillDown.bucket || item.bucket === drillDown.bucket)
+                                .map(item => (
+                                  <tr key={item.appointment.id} className="border-t border-gray-200">
+                                    <td className="py-1">{item.appointment.date}</td>
+                                    <td className="py-1">{getPetName(item.appointment.petId)}</td>
+                                    <td className="py-1 capitalize">{item.appointment.type}</td>
+                                    <td className="py-1 text-right">${(item.appointment.totalAmount ?? 0).toFixed(2)}</td>
+                                    <td className="py-1 text-right">${(item.appointment.amountPaid ?? 0).toFixed(2)}</td>
+                                    <td className="py-1 text-right text-red-600">${item.due.toFixed(2)}</td>
+                                    <td className="py-1 text-right">{item.days}</td>
+                                  </tr>
+                                ))}
+                            </tbody>
+                          </table>
+                        </td>
+                      </tr>
+                    )}
+                  </Fragment>
+                ))}
+              </tbody>
+              <tfoot>
+                <tr className="border-t-2 border-gray-200 font-semibold">
+                  <td className="py-2">Total</td>
+                  {AGING_BUCKETS.map(bucket => (
+                    <td key={bucket} className="py-2 text-right">${agingReport.totals[bucket].toFixed(2)}</td>
+                  ))}
+                  <td className="py-2 text-right">${agingReport.total.toFixed(2)}</td>
+                </tr>
+              </tfoot>
+            </table>
+          </div>
+        )}
+      </div>
+
       {/* Upcoming appointments */}
       <div className="bg-white rounded-xl p-6 shadow-sm border border-gray-100">
         <h2 className="text-lg font-semibold text-gray-800 mb-4 flex items-center gap-2">
@@ -168,6 +298,39 @@ export default function Reports() {
         )}
       </div>
 
+      {/* Per-vet workload */}
+      <div className="bg-white rounded-xl p-6 shadow-sm border border-gray-100">
+        <h2 className="text-lg font-semibold text-gray-800 mb-4 flex items-center gap-2">
+          <Stethoscope className="w-5 h-5" /> Citas por veterinario
+        </h2>
+        {vetBreakdown.length === 0 ? (
+          <p className="text-gray-500 text-center py-8">Sin datos</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b border-gray-200">
+                  <th className="text-left py-2 text-gray-500">Veterinario</th>
+                  <th className="text-right py-2 text-gray-500">Citas</th>
+                  <th className="text-right py-2 text-gray-500">Completadas</th>
+                  <th className="text-right py-2 text-gray-500">Facturado</th>
+                </tr>
+              </thead>
+              <tbody>
+                {vetBreakdown.map(row => (
+                  <tr key={row.name} className="border-b border-gray-100 hover:bg-gray-50">
+                    <td className="py-2">{row.name}</td>
+                    <td className="py-2 text-right">{row.count}</td>
+                    <td className="py-2 text-right">{row.completed}</td>
+                    <td className="py-2 text-right">${row.billed.toFixed(2)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
       {/* Appointment type breakdown */}
       <div className="bg-white rounded-xl p-6 shadow-sm border border-gray-100">
         <h2 className="text-lg font-semibold text-gray-800 mb-4 flex items-center gap-2">
@@ -1,8 +1,18 @@
 import { useState, useEffect } from 'react'
-import { User, Bell, Link, Palette, DollarSign, Database } from 'lucide-react'
+import { User, Bell, Link, Palette, DollarSign, Database, Users, Stethoscope, Clock, Mail, Syringe } from 'lucide-react'
 import { useAuthStore } from '../stores/authStore'
 import { useUIStore } from '../stores/uiStore'
 import { getAllSettings, setSetting } from '../db/supabase'
+import { reminderHoursKey, DEFAULT_REMINDER_HOURS } from '../services/reminders'
+import { can } from '../services/permissions'
+import { canNotifyClients } from '../services/messaging'
+import StaffSettings from '../components/settings/StaffSettings'
+import VeterinarianSettings from '../components/settings/VeterinarianSettings'
+import ScheduleSettings from '../components/settings/ScheduleSettings'
+import EmailTemplateSettings from '../components/settings/EmailTemplateSettings'
+import MailTransportSettings from '../components/settings/MailTransportSettings'
+import MessagingSettings from '../components/settings/MessagingSettings'
+import VaccineProtocolSettings from '../components/settings/VaccineProtocolSettings'
 
 // Default prices for appointment types (used in Settings and when creating appointments)
 const PRICE_KEYS = [
@@ -14,29 +24,62 @@ const PRICE_KEYS = [
   { key: 'price_follow-up', label: 'Follow-up' }
 ] as const
 
+// Tax applied to invoice lines (percent) and the label printed on invoices
+const TAX_KEYS = [
+  { key: 'tax_rate_services', label: 'Services tax rate (%)', type: 'number' },
+  { key: 'tax_rate_products', label: 'Medications/items tax rate (%)', type: 'number' },
+  { key: 'tax_label', label: 'Tax label on invoices', type: 'text' }
+] as const
+
+// Reminder lead time per appointment type (hours before the appointment, 0 = no reminder)
+const REMINDER_TYPES = [
+  { type: 'consultation', label: 'Consultation' },
+  { type: 'vaccination', label: 'Vaccination' },
+  { type: 'surgery', label: 'Surgery' },
+  { type: 'grooming', label: 'Grooming' },
+  { type: 'emergency', label: 'Emergency' },
+  { type: 'follow-up', label: 'Follow-up' }
+] as const
+
 export default function Settings() {
   const [activeTab, setActiveTab] = useState('profile')
   const [prices, setPrices] = useState<Record<string, string>>({})
   const [pricesSaving, setPricesSaving] = useState(false)
+  const [remindersEnabled, setRemindersEnabled] = useState(true)
+  const [reminderHours, setReminderHours] = useState<Record<string, string>>({})
+  const [remindersSaving, setRemindersSaving] = useState(false)
+  const [canNotify, setCanNotify] = useState(true)
 
-  // Load settings when Pricing tab is active
+  // Load settings when the Pricing or Notifications tab is active
   useEffect(() => {
     if (activeTab === 'pricing') {
       getAllSettings().then(settings => {
         const map: Record<string, string> = {}
-        for (const p of PRICE_KEYS) {
+        for (const p of [...PRICE_KEYS, ...TAX_KEYS]) {
           const s = settings.find(x => x.key === p.key)
           map[p.key] = s?.value ?? ''
         }
         setPrices(map)
       }).catch(() => {})
     }
+    if (activeTab === 'notifications') {
+      getAllSettings().then(settings => {
+        const map: Record<string, string> = {}
+        for (const { type } of REMINDER_TYPES) {
+          const s = settings.find(x => x.key === reminderHoursKey(type))
+          map[type] = s?.value ?? String(DEFAULT_REMINDER_HOURS)
+        }
+        setReminderHours(map)
+        setRemindersEnabled(settings.find(x => x.key === 'reminders_enabled')?.value !== 'false')
+      }).catch(() => {})
+      canNotifyClients().then(setCanNotify).catch(() => {})
+    }
   }, [activeTab])
 
   const handleSavePrices = async () => {
     setPricesSaving(true)
     try {
-      for (const { key } of PRICE_KEYS) {
+      for (const { key } of [...PRICE_KEYS, ...TAX_KEYS]) {
         const val = prices[key]
         if (val !== undefined && val !== '') await setSetting(key, val)
       }
@@ -45,10 +88,45 @@ export default function Settings() {
     }
   }
 
-  const { user } = useAuthStore()
+  const handleSaveReminders = async () => {
+    setRemindersSaving(true)
+    try {
+      await setSetting('reminders_enabled', String(remindersEnabled))
+      for (const { type } of REMINDER_TYPES) {
+        const val = reminderHours[type]
+        if (val !== undefined && val !== '') await setSetting(reminderHoursKey(type), val)
+      }
+    } finally {
+      setRemindersSaving(false)
+    }
+  }
+
+  const { user, role } = useAuthStore()
   const { theme, setTheme } = useUIStore()
 
   const renderTabContent = () => {
+    if (activeTab === 'staff') {
+      return <StaffSettings />
+    }
+    if (activeTab === 'veterinarians') {
+      return <VeterinarianSettings />
+    }
+    if (activeTab === 'schedule') {
+      return <ScheduleSettings />
+    }
+    if (activeTab === 'vaccines') {
+      return <VaccineProtocolSettings />
+    }
+    if (activeTab === 'emails') {
+      return (
+        <div className="space-y-8">
+          <MailTransportSettings />
+          <div className="border-t pt-6">
+            <EmailTemplateSettings />
+          </div>
+        </div>
+      )
+    }
     if (activeTab === 'pricing') {
       return (
         <div className="space-y-6">
@@ -72,6 +150,26 @@ export default function Settings() {
               </div>
             ))}
           </div>
+          <h2 className="text-lg font-semibold text-gray-800 pt-2">Taxes</h2>
+          <p className="text-sm text-gray-500">
+            Applied to new invoices. Existing invoices keep the rates they were issued with.
+          </p>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            {TAX_KEYS.map(({ key, label, type }) => (
+              <div key={key}>
+                <label className="block text-sm font-medium text-gray-700 mb-1">{label}</label>
+                <input
+                  type={type}
+                  step="0.01"
+                  min="0"
+                  value={prices[key] ?? ''}
+                  onChange={(e) => setPrices(prev => ({ ...prev, [key]: e.target.value }))}
+                  className="w-full px-4 py-2 border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-teal-500"
+                  placeholder={type === 'number' ? '0' : 'Tax'}
+                />
+              </div>
+            ))}
+          </div>
           <button
             onClick={handleSavePrices}
             disabled={pricesSaving}
@@ -157,13 +255,56 @@ UPDATE vaccines SET user_id = 'YOUR_USER_ID'::uuid;`}
               </div>
               <input type="checkbox" className="w-5 h-5 text-teal-600 rounded" />
             </div>
+          </div>
+
+          <div className="border-t pt-6">
+            <MessagingSettings />
+          </div>
+
+          <div className="border-t pt-6 space-y-4">
             <div className="flex items-center justify-between">
               <div>
-                <p className="font-medium text-gray-800">SMS Notifications</p>
-                <p className="text-sm text-gray-500">Send SMS reminders to clients</p>
+                <p className="font-medium text-gray-800">Appointment Reminders</p>
+                <p className="text-sm text-gray-500">
+                  Remind clients automatically before their appointment. Set 0 hours to skip a type.
+                </p>
               </div>
-              <input type="checkbox" className="w-5 h-5 text-teal-600 rounded" />
+              <input
+                type="checkbox"
+                checked={remindersEnabled}
+                onChange={(e) => setRemindersEnabled(e.target.checked)}
+                className="w-5 h-5 text-teal-600 rounded"
+              />
+            </div>
+            {!canNotify && (
+              <p className="p-3 bg-amber-50 text-amber-700 rounded-lg text-sm">
+                No delivery channel is set up. Reminders are sent once email (Emails tab) or SMS / WhatsApp (below) is configured.
+              </p>
+            )}
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              {REMINDER_TYPES.map(({ type, label }) => (
+                <div key={type}>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">{label} (hours before)</label>
+                  <input
+                    type="number"
+                    min="0"
+                    step="1"
+                    value={reminderHours[type] ?? ''}
+                    onChange={(e) => setReminderHours(prev => ({ ...prev, [type]: e.target.value }))}
+                    disabled={!remindersEnabled}
+                    className="w-full px-4 py-2 border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-teal-500 disabled:bg-gray-50"
+                    placeholder={String(DEFAULT_REMINDER_HOURS)}
+                  />
+                </div>
+              ))}
             </div>
+            <button
+              onClick={handleSaveReminders}
+              disabled={remindersSaving}
+              className="px-4 py-2 bg-teal-600 text-white rounded-lg hover:bg-teal-700 disabled:opacity-50"
+            >
+              {remindersSaving ? 'Saving...' : 'Save Reminders'}
+            </button>
           </div>
         </div>
       )
@@ -249,10 +390,16 @@ UPDATE vaccines SET user_id = 'YOUR_USER_ID'::uuid;`}
   const tabs = [
     { id: 'profile', label: 'Profile', icon: User },
     { id: 'pricing', label: 'Pricing', icon: DollarSign },
+    { id: 'veterinarians', label: 'Veterinarians', icon: Stethoscope },
+    { id: 'schedule', label: 'Schedule', icon: Clock },
+    { id: 'vaccines', label: 'Vacunas', icon: Syringe },
     { id: 'data', label: 'Data', icon: Database },
     { id: 'notifications', label: 'Notifications', icon: Bell },
+    { id: 'emails', label: 'Emails', icon: Mail },
     { id: 'integrations', label: 'Integrations', icon: Link },
     { id: 'appearance', label: 'Appearance', icon: Palette },
+    // Staff management needs clinic accounts (migration 008) and the admin role
+    ...(role && can(role, 'staff:manage') ? [{ id: 'staff', label: 'Staff', icon: Users }] : []),
   ]
 
   return (
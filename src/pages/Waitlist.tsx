@@ -0,0 +1,168 @@
+import { useState, useEffect } from 'react'
+import { Plus, Pencil, Trash2 } from 'lucide-react'
+import { useWaitlistStore } from '../stores/waitlistStore'
+import { useClientStore } from '../stores/clientStore'
+import { usePetStore } from '../stores/petStore'
+import { useVeterinarianStore } from '../stores/veterinarianStore'
+import WaitlistForm from '../components/forms/WaitlistForm'
+import type { WaitlistEntry } from '../db/types'
+
+const STATUS_LABELS: Record<WaitlistEntry['status'], string> = {
+  waiting: 'En espera',
+  offered: 'Oferta enviada',
+  booked: 'Agendado',
+  removed: 'Retirado'
+}
+
+const STATUS_CLASSES: Record<WaitlistEntry['status'], string> = {
+  waiting: 'bg-blue-100 text-blue-700',
+  offered: 'bg-amber-100 text-amber-700',
+  booked: 'bg-green-100 text-green-700',
+  removed: 'bg-gray-100 text-gray-700'
+}
+
+export default function Waitlist() {
+  const { entries, offers, error, fetchEntries, fetchOffers, addEntry, updateEntry, deleteEntry } = useWaitlistStore()
+  const { clients } = useClientStore()
+  const { pets } = usePetStore()
+  const { veterinarians } = useVeterinarianStore()
+  const [showForm, setShowForm] = useState(false)
+  const [editing, setEditing] = useState<WaitlistEntry | null>(null)
+  const [showClosed, setShowClosed] = useState(false)
+
+  useEffect(() => {
+    fetchEntries()
+    fetchOffers()
+  }, [fetchEntries, fetchOffers])
+
+  const getClientName = (clientId: number) => {
+    const c = clients.find(x => x.id === clientId)
+    return c ? `${c.firstName} ${c.lastName}` : `Client #${clientId}`
+  }
+  const getPetName = (petId: number) => pets.find(p => p.id === petId)?.name ?? `Pet #${petId}`
+
+  const visibleEntries = entries.filter(e => showClosed || e.status === 'waiting' || e.status === 'offered')
+
+  const handleDelete = async (entry: WaitlistEntry) => {
+    if (!entry.id || !confirm(`¿Quitar a ${getPetName(entry.petId)} de la lista de espera?`)) return
+    await deleteEntry(entry.id).catch(() => {})
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-800">Lista de espera</h1>
+          <p className="text-gray-500">Clients waiting for an earlier slot - offered automatically when an appointment is cancelled</p>
+        </div>
+        <button
+          onClick={() => {
+            setEditing(null)
+            setShowForm(true)
+          }}
+          className="flex items-center gap-2 px-4 py-2 bg-teal-600 text-white rounded-lg hover:bg-teal-700"
+        >
+          <Plus className="w-5 h-5" />
+          Agregar
+        </button>
+      </div>
+
+      {error && <div className="p-3 bg-red-50 text-red-700 rounded-lg text-sm">{error}</div>}
+
+      <label className="flex items-center gap-2 text-sm text-gray-600">
+        <input type="checkbox" checked={showClosed} onChange={(e) => setShowClosed(e.target.checked)} />
+        Mostrar agendados y retirados
+      </label>
+
+      <div className="bg-white rounded-xl shadow-sm border border-gray-100 overflow-hidden">
+        <table className="w-full">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Client / Pet</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Type</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Fechas</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Horario</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Status</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Actions</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200">
+            {visibleEntries.length === 0 ? (
+              <tr>
+                <td colSpan={6} className="px-6 py-12 text-center text-gray-500">
+                  Nadie en la lista de espera.
+                </td>
+              </tr>
+            ) : (
+              visibleEntries.map((entry) => {
+                const vet = veterinarians.find(v => v.id === entry.veterinarianId)
+                const entryOffers = offers.filter(o => o.entryId === entry.id)
+                return (
+                  <tr key={entry.id} className="hover:bg-gray-50">
+                    <td className="px-6 py-4">
+                      <p className="font-medium text-gray-800">{getClientName(entry.clientId)}</p>
+                      <p className="text-sm text-gray-500">{getPetName(entry.petId)}</p>
+                    </td>
+                    <td className="px-6 py-4 text-gray-600">
+                      <span className="capitalize">{entry.type}</span>
+                      {vet && <span className="block text-xs text-gray-500">{vet.name}</span>}
+                    </td>
+                    <td className="px-6 py-4 text-sm text-gray-600">{entry.dateFrom} — {entry.dateTo}</td>
+                    <td className="px-6 py-4 text-sm text-gray-600">
+                      {entry.timeFrom}-{entry.timeTo} · {entry.duration} min
+                    </td>
+                    <td className="px-6 py-4">
+                      <span className={`px-2 py-1 rounded-full text-xs font-medium ${STATUS_CLASSES[entry.status]}`}>
+                        {STATUS_LABELS[entry.status]}
+                      </span>
+                      {entryOffers.length > 0 && (
+                        <span className="block mt-1 text-xs text-gray-500">
+                          {entryOffers.length} oferta(s), última {entryOffers[0].date} {entryOffers[0].time}
+                          {entryOffers[0].status === 'claimed' ? ' (reservada)' : entryOffers[0].status === 'expired' ? ' (vencida)' : ''}
+                        </span>
+                      )}
+                    </td>
+                    <td className="px-6 py-4">
+                      <div className="flex gap-1">
+                        <button
+                          onClick={() => {
+                            setEditing(entry)
+                            setShowForm(true)
+                          }}
+                          className="p-2 text-gray-600 hover:bg-gray-100 rounded-lg"
+                          title="Edit"
+                        >
+                          <Pencil className="w-4 h-4" />
+                        </button>
+                        <button
+                          onClick={() => handleDelete(entry)}
+                          className="p-2 text-red-600 hover:bg-red-50 rounded-lg"
+                          title="Delete"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      </div>
+                    </td>
+                  </tr>
+                )
+              })
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      <WaitlistForm
+        isOpen={showForm}
+        onClose={() => setShowForm(false)}
+        entry={editing}
+        pets={pets}
+        clients={clients}
+        veterinarians={veterinarians}
+        onSubmit={async (data) => {
+          if (editing?.id) await updateEntry(editing.id, data)
+          else await addEntry(data)
+        }}
+      />
+    </div>
+  )
+}
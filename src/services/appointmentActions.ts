@@ -0,0 +1,30 @@
+// Appointment action links - signed confirm / cancel / reschedule links added to appointment emails
+
+import { signAppointmentAction } from '../db/supabase'
+import { PUBLIC_APP_URL } from './waitlist'
+import type { Appointment, AppointmentAction } from '../db/types'
+
+export type AppointmentActionLinks = Record<AppointmentAction, string>
+
+export const getAppointmentActionUrl = (token: string, action: AppointmentAction): string =>
+  `${PUBLIC_APP_URL.replace(/\/$/, '')}/appointment/${token}?action=${action}`
+
+/**
+ * Links for an appointment email, valid until the appointment starts. Undefined for appointments
+ * not saved online yet (temporary negative ids) or when signing fails - the email goes out without them.
+ */
+export const getAppointmentActionLinks = async (appointment: Appointment): Promise<AppointmentActionLinks | undefined> => {
+  if (!appointment.id || appointment.id < 0) return undefined
+  try {
+    const expiresAt = new Date(`${appointment.date}T${appointment.time.slice(0, 5)}`).toISOString()
+    const token = await signAppointmentAction(appointment.id, expiresAt)
+    return {
+      confirm: getAppointmentActionUrl(token, 'confirm'),
+      cancel: getAppointmentActionUrl(token, 'cancel'),
+      reschedule: getAppointmentActionUrl(token, 'reschedule')
+    }
+  } catch (error) {
+    console.error('Failed to sign appointment links:', error)
+    return undefined
+  }
+}
@@ -0,0 +1,81 @@
+// Online booking - free slots for the public /book portal from clinic hours, vet schedules and busy times
+
+import { getWorkingHours } from './vetSchedule'
+import { getWeekday, minutesToTime, toDateString, toMinutes } from './dates'
+import { PUBLIC_APP_URL } from './waitlist'
+import type { SchedulingRules } from './scheduling'
+import type { Appointment, BookingVetSchedule, BusySlot } from '../db/types'
+
+// Types owners can book themselves (surgery and emergencies go through the clinic)
+export const BOOKABLE_TYPES: Appointment['type'][] = ['consultation', 'vaccination', 'grooming', 'follow-up']
+
+export const BOOKING_DURATIONS: Partial<Record<Appointment['type'], number>> = {
+  consultation: 30,
+  vaccination: 15,
+  grooming: 60,
+  'follow-up': 20
+}
+
+// How far ahead owners can book
+export const BOOKING_DAYS = 30
+
+// book_online_appointment (migration 012) starts the appointment notes with this
+export const ONLINE_BOOKING_NOTE = 'Reservada online.'
+
+export const isOnlineBooking = (appointment: Pick<Appointment, 'notes'>): boolean =>
+  (appointment.notes || '').startsWith(ONLINE_BOOKING_NOTE)
+
+const SLOT_STEP = 15
+
+/** Link to share with owners (website, emails, social media). */
+export const getBookingUrl = (slug: string): string =>
+  `${PUBLIC_APP_URL.replace(/\/$/, '')}/book?clinic=${slug}`
+
+/**
+ * Start times still free on a date. With a vet roster, a slot is free when some vet works the whole
+ * slot and is not busy (appointments without a vet take one of the working vets); without a roster,
+ * when nothing else overlaps. Single-room types also need the room free. Past times are skipped.
+ */
+export const getFreeSlots = (
+  date: string,
+  duration: number,
+  type: Appointment['type'],
+  busy: BusySlot[],
+  veterinarians: BookingVetSchedule[],
+  rules: SchedulingRules,
+  now: Date = new Date()
+): string[] => {
+  const hours = rules.clinicHours[getWeekday(date)]
+  if (!hours || rules.holidays.includes(date)) return []
+
+  const today = toDateString(now)
+  if (date < today) return []
+  const earliest = date === today ? now.getHours() * 60 + now.getMinutes() : 0
+
+  const vets = veterinarians.filter(v => v.active)
+  const dayBusy = busy.filter(b => b.date === date)
+  const slots: string[] = []
+
+  for (let start = toMinutes(hours.start); start + duration <= toMinutes(hours.end); start += SLOT_STEP) {
+    if (start < earliest) continue
+    const end = start + duration
+    const overlapping = dayBusy.filter(b => toMinutes(b.time) < end && toMinutes(b.time) + (b.duration || 30) > start)
+
+    if (rules.singleRoomTypes.includes(type) && overlapping.some(b => b.type === type)) continue
+
+    if (vets.length === 0) {
+      if (overlapping.length === 0) slots.push(minutesToTime(start))
+      continue
+    }
+
+    const freeVets = vets.filter(vet => {
+      const vetHours = getWorkingHours(vet, date)
+      return vetHours &&
+        start >= toMinutes(vetHours.start) && end <= toMinutes(vetHours.end) &&
+        !overlapping.some(b => b.veterinarianId === vet.id)
+    })
+    const unassigned = overlapping.filter(b => b.veterinarianId == null || !vets.some(v => v.id === b.veterinarianId))
+    if (freeVets.length > unassigned.length) slots.push(minutesToTime(start))
+  }
+  return slots
+}
@@ -0,0 +1,49 @@
+// Date helpers - calendar dates are YYYY-MM-DD and times HH:mm in the clinic's local time,
+// as appointments, vaccines, schedules and settings store them
+
+const pad = (n: number): string => String(n).padStart(2, '0')
+
+/** Local YYYY-MM-DD of a Date */
+export const toDateString = (date: Date): string =>
+  `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`
+
+/** Local HH:mm of a Date */
+export const toTimeOfDay = (date: Date): string => `${pad(date.getHours())}:${pad(date.getMinutes())}`
+
+/** Local midnight of a YYYY-MM-DD date */
+export const parseDate = (date: string): Date => {
+  const [y, m, d] = date.split('-').map(Number)
+  return new Date(y, m - 1, d)
+}
+
+export const addDays = (date: string, days: number): string => {
+  const d = parseDate(date)
+  d.setDate(d.getDate() + days)
+  return toDateString(d)
+}
+
+export const addMonths = (date: string, months: number): string => {
+  const d = parseDate(date)
+  d.setMonth(d.getMonth() + months)
+  return toDateString(d)
+}
+
+/** Calendar days from one date to another (negative when `to` is earlier) */
+export const daysBetween = (from: string, to: string): number =>
+  Math.round((parseDate(to).getTime() - parseDate(from).getTime()) / (24 * 60 * 60 * 1000))
+
+// Weekday of a YYYY-MM-DD date (0 = Sunday)
+export const getWeekday = (date: string): number => parseDate(date).getDay()
+
+export const toMinutes = (time: string): number => {
+  const [h, m] = time.split(':').map(Number)
+  return h * 60 + (m || 0)
+}
+
+/** HH:mm of a number of minutes after midnight */
+export const minutesToTime = (minutes: number): string => `${pad(Math.floor(minutes / 60))}:${pad(minutes % 60)}`
+
+/** Compact UTC timestamp (RFC 5545), e.g. 20250301T143000Z */
+export const toUtcStamp = (date: Date): string =>
+  `${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}T` +
+  `${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}${pad(date.getUTCSeconds())}Z`
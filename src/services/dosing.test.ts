@@ -0,0 +1,123 @@
+import { describe, it, expect } from 'vitest'
+import { allergyConflicts, checkDose, requiresOverride, suggestQuantity } from './dosing'
+import type { DoseRange, InventoryItem, MedicationDosing } from '../db/types'
+
+const DOG_RANGE: DoseRange = { species: 'dog', minMgPerKg: 5, maxMgPerKg: 10 }
+
+const dosing = (overrides: Partial<MedicationDosing> = {}): MedicationDosing => ({
+  mgPerUnit: 50,
+  doseRanges: [DOG_RANGE],
+  contraindicatedSpecies: [],
+  allergyKeywords: [],
+  ...overrides
+})
+
+const medication = (overrides: Partial<MedicationDosing> = {}, name = 'Carprofeno 50 mg'): Pick<InventoryItem, 'name' | 'type' | 'dosing'> => ({
+  name,
+  type: 'medication',
+  dosing: dosing(overrides)
+})
+
+const dog = { species: 'dog' as const, allergies: '' }
+
+describe('suggestQuantity', () => {
+  it('suggests the smallest whole quantity within the range', () => {
+    expect(suggestQuantity(dosing(), DOG_RANGE, 20)).toBe(2) // 2-4 units
+    expect(suggestQuantity(dosing(), DOG_RANGE, 12)).toBe(2) // 1.2-2.4 units, rounded up
+  })
+
+  it('falls back to the nearest whole quantity when none fits the range', () => {
+    const narrow: DoseRange = { species: 'dog', minMgPerKg: 5, maxMgPerKg: 6 }
+    expect(suggestQuantity(dosing({ mgPerUnit: 100 }), narrow, 30)).toBe(2) // 1.5-1.8 units
+    expect(suggestQuantity(dosing({ mgPerUnit: 100 }), narrow, 44)).toBe(2) // 2.2-2.64 units
+  })
+
+  it('never suggests less than one unit', () => {
+    expect(suggestQuantity(dosing(), DOG_RANGE, 2)).toBe(1) // 0.2-0.4 units
+  })
+
+  it('has no suggestion without a strength or a weight', () => {
+    expect(suggestQuantity(dosing({ mgPerUnit: 0 }), DOG_RANGE, 20)).toBeUndefined()
+    expect(suggestQuantity(dosing(), DOG_RANGE, 0)).toBeUndefined()
+  })
+})
+
+describe('checkDose', () => {
+  it('flags an overdose above the species maximum and requires an override', () => {
+    const check = checkDose(medication(), dog, 20, 5)
+    expect(check.mgPerKg).toBe(12.5)
+    expect(check.warnings.map(w => w.kind)).toEqual(['overdose'])
+    expect(requiresOverride(check)).toBe(true)
+  })
+
+  it('accepts a dose on the range limits', () => {
+    expect(checkDose(medication(), dog, 20, 4).warnings).toEqual([])
+    expect(checkDose(medication(), dog, 20, 2).warnings).toEqual([])
+  })
+
+  it('flags an underdose without requiring an override', () => {
+    const check = checkDose(medication(), dog, 20, 1)
+    expect(check.warnings.map(w => w.kind)).toEqual(['underdose'])
+    expect(requiresOverride(check)).toBe(false)
+  })
+
+  it('rounds mg/kg to two decimals and returns the suggested quantity', () => {
+    const check = checkDose(medication({ mgPerUnit: 10, doseRanges: [{ species: 'dog', minMgPerKg: 1, maxMgPerKg: 5 }] }), dog, 3, 1)
+    expect(check.mgPerKg).toBe(3.33)
+    expect(check.suggestedQuantity).toBe(1)
+  })
+
+  it('warns when the pet has no weight or the species has no range', () => {
+    expect(checkDose(medication(), dog, undefined, 1).warnings.map(w => w.kind)).toEqual(['no_weight'])
+    expect(checkDose(medication(), { species: 'cat', allergies: '' }, 4, 1).warnings.map(w => w.kind)).toEqual(['no_range'])
+  })
+
+  it('flags contraindicated species', () => {
+    const check = checkDose(medication({ contraindicatedSpecies: ['dog'] }), dog, 20, 3)
+    expect(check.warnings.map(w => w.kind)).toEqual(['contraindicated'])
+    expect(requiresOverride(check)).toBe(true)
+  })
+
+  it('only checks allergies for items that are not medications', () => {
+    const item = { name: 'Champú de avena', type: 'item' as const }
+    expect(checkDose(item, { species: 'dog', allergies: 'avena' }, 20, 1).warnings.map(w => w.kind)).toEqual(['allergy'])
+    expect(checkDose(item, dog, 20, 1)).toEqual({ warnings: [] })
+  })
+})
+
+describe('allergyConflicts', () => {
+  const amoxicillin = { name: 'Amoxicilina 250 mg', dosing: dosing({ allergyKeywords: ['Penicilina', 'betalactámicos'] }) }
+
+  it('matches the medication name regardless of case and accents', () => {
+    expect(allergyConflicts(amoxicillin, 'AMOXICILINA')).toEqual(['AMOXICILINA'])
+    expect(allergyConflicts(amoxicillin, 'Betalactamicos')).toEqual(['Betalactamicos'])
+  })
+
+  it('matches the allergy keywords, also inside a longer allergy entry', () => {
+    expect(allergyConflicts(amoxicillin, 'alergia a penicilinas')).toEqual(['alergia a penicilinas'])
+  })
+
+  it('matches a fragment that starts a word of the name or a keyword', () => {
+    expect(allergyConflicts({ name: 'Trimetoprim-sulfametoxazol' }, 'sulfa')).toEqual(['sulfa'])
+    expect(allergyConflicts(amoxicillin, 'amo')).toEqual(['amo'])
+    expect(allergyConflicts(amoxicillin, 'penicil')).toEqual(['penicil'])
+  })
+
+  it('does not match a fragment from the middle of a word', () => {
+    expect(allergyConflicts(amoxicillin, 'ina')).toEqual([])
+    expect(allergyConflicts(amoxicillin, 'cilina')).toEqual([])
+    expect(allergyConflicts({ name: 'Meloxicam' }, 'oxi')).toEqual([])
+  })
+
+  it('ignores fragments shorter than three characters and "no allergies" entries', () => {
+    expect(allergyConflicts(amoxicillin, 'am')).toEqual([])
+    expect(allergyConflicts(amoxicillin, 'Ninguna')).toEqual([])
+    expect(allergyConflicts(amoxicillin, 'n/a')).toEqual([])
+    expect(allergyConflicts(amoxicillin, '')).toEqual([])
+  })
+
+  it('checks every entry of a list', () => {
+    expect(allergyConflicts(amoxicillin, 'polen, pollo y penicilina; ácaros')).toEqual(['penicilina'])
+    expect(allergyConflicts(amoxicillin, 'polen\nAmoxicilina')).toEqual(['Amoxicilina'])
+  })
+})
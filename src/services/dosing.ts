@@ -0,0 +1,128 @@
+// Weight-based dosing - suggested quantity of a medication for a pet and the safety checks
+// (overdose / underdose, contraindicated species, allergies) shown in the appointment form.
+// The quantity sold is checked as a single administration.
+
+import { SPECIES_LABELS } from './vaccineProtocols'
+import type { DoseRange, InventoryItem, MedicationDosing, Pet } from '../db/types'
+
+export type DoseWarningKind = 'overdose' | 'underdose' | 'contraindicated' | 'allergy' | 'no_range' | 'no_weight'
+
+export interface DoseWarning {
+  kind: DoseWarningKind
+  message: string
+}
+
+export interface DoseCheck {
+  range?: DoseRange // for the pet's species
+  weight?: number
+  mgPerKg?: number // of the quantity being given
+  suggestedQuantity?: number
+  warnings: DoseWarning[]
+}
+
+// These can only be given with a written reason
+const OVERRIDE_KINDS: DoseWarningKind[] = ['overdose', 'contraindicated', 'allergy']
+
+export const EMPTY_DOSING: MedicationDosing = {
+  mgPerUnit: 0,
+  doseRanges: [],
+  contraindicatedSpecies: [],
+  allergyKeywords: []
+}
+
+const normalize = (text: string) =>
+  text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').trim().toLowerCase()
+
+// Entries such as "ninguna" in the allergies field are not allergies
+const NO_ALLERGY = ['ninguna', 'ninguno', 'none', 'no', 'n/a', 'no conocidas', 'desconocidas']
+
+const round = (n: number, decimals = 2) => Math.round(n * 10 ** decimals) / 10 ** decimals
+
+// Whether `fragment` starts a word of `text` ("sulfa" in "sulfametoxazol", not "ina" in "amoxicilina")
+const startsWord = (text: string, fragment: string) =>
+  new RegExp(`(^|[^a-z0-9])${fragment.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}`).test(text)
+
+/**
+ * Allergies listed for the pet that match the medication name or its allergy keywords: the allergy
+ * starts a word of the name / keyword (a drug or class written in part), or contains one of them
+ */
+export const allergyConflicts = (item: Pick<InventoryItem, 'name' | 'dosing'>, allergies?: string): string[] => {
+  if (!allergies?.trim()) return []
+  const terms = [item.name, ...(item.dosing?.allergyKeywords ?? [])].map(normalize).filter(t => t.length >= 3)
+  return allergies
+    .split(/[,;\n/]+|\s+y\s+|\s+and\s+/i)
+    .map(a => a.trim())
+    .filter(a => a.length >= 3 && !NO_ALLERGY.includes(normalize(a)))
+    .filter(a => {
+      const allergy = normalize(a)
+      return terms.some(term => startsWord(term, allergy) || startsWord(allergy, term))
+    })
+}
+
+/**
+ * Smallest whole quantity within the species range, or the nearest one when no whole
+ * quantity fits (e.g. half tablets)
+ */
+export const suggestQuantity = (dosing: MedicationDosing, range: DoseRange, weight: number): number | undefined => {
+  if (dosing.mgPerUnit <= 0 || weight <= 0) return undefined
+  const minUnits = range.minMgPerKg * weight / dosing.mgPerUnit
+  const maxUnits = range.maxMgPerKg * weight / dosing.mgPerUnit
+  const fits = Math.max(1, Math.ceil(minUnits))
+  if (fits <= maxUnits) return fits
+  return Math.max(1, Math.round((minUnits + maxUnits) / 2))
+}
+
+/** Dose and safety checks for giving `quantity` units of a medication to the pet */
+export const checkDose = (
+  item: Pick<InventoryItem, 'name' | 'type' | 'dosing'>,
+  pet: Pick<Pet, 'species' | 'allergies'>,
+  weight: number | undefined,
+  quantity: number
+): DoseCheck => {
+  const warnings: DoseWarning[] = []
+  const dosing = item.dosing
+  const species = SPECIES_LABELS[pet.species].toLowerCase()
+
+  const allergies = allergyConflicts(item, pet.allergies)
+  if (allergies.length > 0) {
+    warnings.push({ kind: 'allergy', message: `Alergia registrada: ${allergies.join(', ')}` })
+  }
+  if (item.type !== 'medication' || !dosing) return { warnings }
+
+  if (dosing.contraindicatedSpecies.includes(pet.species)) {
+    warnings.push({ kind: 'contraindicated', message: `${item.name} está contraindicado en ${species}` })
+  }
+
+  const range = dosing.doseRanges.find(r => r.species === pet.species)
+  if (!range) {
+    if (dosing.doseRanges.length > 0) {
+      warnings.push({ kind: 'no_range', message: `Sin rango de dosis para ${species}` })
+    }
+    return { weight, warnings }
+  }
+  if (!weight || weight <= 0) {
+    warnings.push({ kind: 'no_weight', message: 'Sin peso registrado: no se puede calcular la dosis' })
+    return { range, warnings }
+  }
+  if (dosing.mgPerUnit <= 0) return { range, weight, warnings }
+
+  const mgPerKg = round(quantity * dosing.mgPerUnit / weight)
+  if (mgPerKg > range.maxMgPerKg) {
+    warnings.push({
+      kind: 'overdose',
+      message: `Sobredosis: ${mgPerKg} mg/kg supera el máximo de ${range.maxMgPerKg} mg/kg`
+    })
+  } else if (mgPerKg < range.minMgPerKg) {
+    warnings.push({
+      kind: 'underdose',
+      message: `Dosis baja: ${mgPerKg} mg/kg por debajo de ${range.minMgPerKg} mg/kg`
+    })
+  }
+
+  return { range, weight, mgPerKg, suggestedQuantity: suggestQuantity(dosing, range, weight), warnings }
+}
+
+export const isOverrideWarning = (warning: DoseWarning) => OVERRIDE_KINDS.includes(warning.kind)
+
+/** Whether the line needs an override reason before it can be saved */
+export const requiresOverride = (check: DoseCheck) => check.warnings.some(isOverrideWarning)
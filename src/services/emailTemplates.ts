@@ -0,0 +1,463 @@
+// Email templates - editable HTML templates (per language) for appointment emails, rendered to
+// multipart HTML + plain text with the clinic logo and contact details from settings.
+// Placeholders are written as {{name}}; unknown ones are left as typed so mistakes show in the preview.
+
+import { getAllSettings } from '../db/supabase'
+import { useAuthStore } from '../stores/authStore'
+import { toDateString } from './dates'
+import type { AppointmentActionLinks } from './appointmentActions'
+import type { Appointment, Client, EmailLanguage, Pet, Setting } from '../db/types'
+
+export type EmailTemplateKind = 'confirmation' | 'reminder' | 'cancellation' | 'rescheduled'
+
+export interface EmailTemplate {
+  subject: string
+  html: string
+}
+
+export interface RenderedEmail {
+  subject: string
+  html: string
+  text: string
+}
+
+export interface EmailBranding {
+  name: string
+  phone: string
+  address: string
+  email: string
+  logoUrl: string
+  language: EmailLanguage // clinic default; clients can override it
+}
+
+export const EMAIL_TEMPLATE_KINDS: { kind: EmailTemplateKind; label: string }[] = [
+  { kind: 'confirmation', label: 'Confirmación' },
+  { kind: 'reminder', label: 'Recordatorio' },
+  { kind: 'cancellation', label: 'Cancelación' },
+  { kind: 'rescheduled', label: 'Reprogramación' }
+]
+
+export const EMAIL_LANGUAGES: { code: EmailLanguage; label: string }[] = [
+  { code: 'es', label: 'Español' },
+  { code: 'en', label: 'English' }
+]
+
+export const PLACEHOLDERS: { name: string; description: string }[] = [
+  { name: 'clientName', description: 'Nombre completo del cliente' },
+  { name: 'clientFirstName', description: 'Nombre del cliente' },
+  { name: 'petName', description: 'Mascota' },
+  { name: 'appointmentType', description: 'Tipo de cita' },
+  { name: 'date', description: 'Fecha' },
+  { name: 'time', description: 'Hora' },
+  { name: 'duration', description: 'Duración (min)' },
+  { name: 'vet', description: 'Veterinario/a' },
+  { name: 'notes', description: 'Notas de la cita' },
+  { name: 'clinicName', description: 'Clínica' },
+  { name: 'clinicPhone', description: 'Teléfono' },
+  { name: 'clinicAddress', description: 'Dirección' },
+  { name: 'clinicEmail', description: 'Email de la clínica' },
+  { name: 'actionLinks', description: 'Botones confirmar / reprogramar / cancelar' },
+  { name: 'confirmUrl', description: 'Enlace para confirmar' },
+  { name: 'rescheduleUrl', description: 'Enlace para reprogramar' },
+  { name: 'cancelUrl', description: 'Enlace para cancelar' }
+]
+
+export const EMAIL_LANGUAGE_KEY = 'email_language'
+export const CLINIC_LOGO_KEY = 'clinicLogoUrl'
+
+// Settings key holding a customized template (JSON EmailTemplate)
+export const emailTemplateKey = (kind: EmailTemplateKind, language: EmailLanguage): string =>
+  `email_template_${kind}_${language}`
+
+const DETAILS_ES = [
+  '<ul>',
+  '  <li><strong>Mascota:</strong> {{petName}}</li>',
+  '  <li><strong>Tipo de cita:</strong> {{appointmentType}}</li>',
+  '  <li><strong>Fecha:</strong> {{date}}</li>',
+  '  <li><strong>Hora:</strong> {{time}}</li>',
+  '  <li><strong>Duración:</strong> {{duration}} minutos</li>',
+  '  <li><strong>Veterinario/a:</strong> {{vet}}</li>',
+  '</ul>'
+].join('\n')
+
+const DETAILS_EN = [
+  '<ul>',
+  '  <li><strong>Pet:</strong> {{petName}}</li>',
+  '  <li><strong>Appointment:</strong> {{appointmentType}}</li>',
+  '  <li><strong>Date:</strong> {{date}}</li>',
+  '  <li><strong>Time:</strong> {{time}}</li>',
+  '  <li><strong>Duration:</strong> {{duration}} minutes</li>',
+  '  <li><strong>Veterinarian:</strong> {{vet}}</li>',
+  '</ul>'
+].join('\n')
+
+export const DEFAULT_TEMPLATES: Record<EmailLanguage, Record<EmailTemplateKind, EmailTemplate>> = {
+  es: {
+    confirmation: {
+      subject: 'Confirmación de Cita - {{petName}} - {{date}}',
+      html: [
+        '<p>Estimado/a {{clientName}},</p>',
+        '<p>¡Gracias por confiar en nosotros! Le confirmamos la cita de su mascota.</p>',
+        '<h3>Detalles de la cita</h3>',
+        DETAILS_ES,
+        '<p><strong>Notas:</strong> {{notes}}</p>',
+        '{{actionLinks}}',
+        '<p>Por favor llegue 10-15 minutos antes de su cita y traiga el historial médico de {{petName}} si es su primera visita. Si necesita cancelar o reprogramar, avísenos con al menos 24 horas de anticipación.</p>',
+        '<p>Atentamente,<br>El equipo de {{clinicName}}</p>'
+      ].join('\n')
+    },
+    reminder: {
+      subject: 'Recordatorio de Cita - {{petName}} - {{date}}',
+      html: [
+        '<p>Estimado/a {{clientName}},</p>',
+        '<p>Este es un recordatorio de la próxima cita de {{petName}}.</p>',
+        '<h3>Detalles de la cita</h3>',
+        DETAILS_ES,
+        '{{actionLinks}}',
+        '<p>Por favor llegue 10-15 minutos antes de su cita y traiga el historial médico de {{petName}}. Si no puede asistir, avísenos lo antes posible.</p>',
+        '<p>Atentamente,<br>El equipo de {{clinicName}}</p>'
+      ].join('\n')
+    },
+    cancellation: {
+      subject: 'Cita Cancelada - {{petName}} - {{date}}',
+      html: [
+        '<p>Estimado/a {{clientName}},</p>',
+        '<p>Le informamos que su cita ha sido cancelada.</p>',
+        '<h3>Cita cancelada</h3>',
+        DETAILS_ES,
+        '<p>Lamentamos cualquier inconveniente. Si desea reprogramar su cita, contáctenos al {{clinicPhone}} o a {{clinicEmail}}.</p>',
+        '<p>Atentamente,<br>El equipo de {{clinicName}}</p>'
+      ].join('\n')
+    },
+    rescheduled: {
+      subject: 'Cita Reprogramada - {{petName}} - {{date}}',
+      html: [
+        '<p>Estimado/a {{clientName}},</p>',
+        '<p>Le informamos que su cita ha sido reprogramada.</p>',
+        '<h3>Nuevos detalles de la cita</h3>',
+        DETAILS_ES,
+        '<p>Si tiene alguna pregunta o necesita hacer cambios, no dude en contactarnos.</p>',
+        '<p>Atentamente,<br>El equipo de {{clinicName}}</p>'
+      ].join('\n')
+    }
+  },
+  en: {
+    confirmation: {
+      subject: 'Appointment Confirmation - {{petName}} - {{date}}',
+      html: [
+        '<p>Dear {{clientName}},</p>',
+        '<p>Thank you for trusting us! Your pet\'s appointment is confirmed.</p>',
+        '<h3>Appointment details</h3>',
+        DETAILS_EN,
+        '<p><strong>Notes:</strong> {{notes}}</p>',
+        '{{actionLinks}}',
+        '<p>Please arrive 10-15 minutes early and bring {{petName}}\'s medical history if this is your first visit. If you need to cancel or reschedule, let us know at least 24 hours in advance.</p>',
+        '<p>Kind regards,<br>The {{clinicName}} team</p>'
+      ].join('\n')
+    },
+    reminder: {
+      subject: 'Appointment Reminder - {{petName}} - {{date}}',
+      html: [
+        '<p>Dear {{clientName}},</p>',
+        '<p>This is a reminder of {{petName}}\'s upcoming appointment.</p>',
+        '<h3>Appointment details</h3>',
+        DETAILS_EN,
+        '{{actionLinks}}',
+        '<p>Please arrive 10-15 minutes early and bring {{petName}}\'s medical history. If you cannot make it, let us know as soon as possible.</p>',
+        '<p>Kind regards,<br>The {{clinicName}} team</p>'
+      ].join('\n')
+    },
+    cancellation: {
+      subject: 'Appointment Cancelled - {{petName}} - {{date}}',
+      html: [
+        '<p>Dear {{clientName}},</p>',
+        '<p>Your appointment has been cancelled.</p>',
+        '<h3>Cancelled appointment</h3>',
+        DETAILS_EN,
+        '<p>We are sorry for any inconvenience. To book a new appointment, call us at {{clinicPhone}} or write to {{clinicEmail}}.</p>',
+        '<p>Kind regards,<br>The {{clinicName}} team</p>'
+      ].join('\n')
+    },
+    rescheduled: {
+      subject: 'Appointment Rescheduled - {{petName}} - {{date}}',
+      html: [
+        '<p>Dear {{clientName}},</p>',
+        '<p>Your appointment has been rescheduled.</p>',
+        '<h3>New appointment details</h3>',
+        DETAILS_EN,
+        '<p>If you have any questions or need to make changes, please contact us.</p>',
+        '<p>Kind regards,<br>The {{clinicName}} team</p>'
+      ].join('\n')
+    }
+  }
+}
+
+const LOCALES: Record<EmailLanguage, string> = { es: 'es-MX', en: 'en-US' }
+
+const TYPE_LABELS: Record<EmailLanguage, Record<Appointment['type'], string>> = {
+  es: {
+    'consultation': 'Consulta',
+    'vaccination': 'Vacunación',
+    'surgery': 'Cirugía',
+    'grooming': 'Estética',
+    'emergency': 'Emergencia',
+    'follow-up': 'Seguimiento'
+  },
+  en: {
+    'consultation': 'Consultation',
+    'vaccination': 'Vaccination',
+    'surgery': 'Surgery',
+    'grooming': 'Grooming',
+    'emergency': 'Emergency',
+    'follow-up': 'Follow-up'
+  }
+}
+
+const ACTION_LABELS: Record<EmailLanguage, AppointmentActionLinks> = {
+  es: { confirm: 'Confirmar asistencia', reschedule: 'Reprogramar', cancel: 'Cancelar' },
+  en: { confirm: 'Confirm attendance', reschedule: 'Reschedule', cancel: 'Cancel' }
+}
+
+export const getAppointmentTypeLabel = (type: Appointment['type'], language: EmailLanguage = 'es'): string =>
+  TYPE_LABELS[language][type] || type
+
+export const formatEmailDate = (dateString: string, language: EmailLanguage = 'es'): string => {
+  const [y, m, d] = dateString.split('-').map(Number)
+  return new Date(y, m - 1, d).toLocaleDateString(LOCALES[language], {
+    weekday: 'long',
+    year: 'numeric',
+    month: 'long',
+    day: 'numeric'
+  })
+}
+
+export const formatEmailTime = (timeString: string, language: EmailLanguage = 'es'): string => {
+  const [hours, minutes] = timeString.split(':')
+  const date = new Date()
+  date.setHours(parseInt(hours, 10), parseInt(minutes, 10))
+  return date.toLocaleTimeString(LOCALES[language], {
+    hour: '2-digit',
+    minute: '2-digit',
+    hour12: true
+  })
+}
+
+const escapeHtml = (value: string): string =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+
+const decodeEntities = (value: string): string =>
+  value
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, '&')
+
+/** Plain-text version of an HTML body: paragraphs and list items on their own lines, links as "label: url". */
+export const htmlToText = (html: string): string =>
+  decodeEntities(
+    html
+      .replace(/\s*\n\s*/g, ' ')
+      .replace(/<br\s*\/?>/gi, '\n')
+      .replace(/<li[^>]*>/gi, '• ')
+      .replace(/<h[1-6][^>]*>/gi, '\n')
+      .replace(/<\/(p|div|h[1-6]|li|ul|ol|tr|table)>/gi, '\n')
+      .replace(/<a[^>]*href="([^"]*)"[^>]*>(.*?)<\/a>/gi, (_, href: string, label: string) =>
+        label === href ? href : `${label}: ${href}`)
+      .replace(/<[^>]+>/g, '')
+  )
+    .split('\n')
+    .map(line => line.trim())
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim()
+
+/** Replace {{name}} placeholders; unknown names are kept as typed. */
+export const fillPlaceholders = (template: string, values: Record<string, string>): string =>
+  template.replace(/\{\{\s*(\w+)\s*\}\}/g, (match, name: string) => values[name] ?? match)
+
+const actionLinksHtml = (links: AppointmentActionLinks | undefined, language: EmailLanguage): string => {
+  if (!links) return ''
+  const labels = ACTION_LABELS[language]
+  const button = (href: string, label: string, color: string) =>
+    `<a href="${escapeHtml(href)}" style="display:inline-block;padding:10px 16px;margin:0 8px 8px 0;background:${color};color:#ffffff;border-radius:8px;text-decoration:none;font-weight:bold">${escapeHtml(label)}</a>`
+  return `<p style="margin:24px 0">${button(links.confirm, labels.confirm, '#0d9488')}${button(links.reschedule, labels.reschedule, '#4b5563')}${button(links.cancel, labels.cancel, '#dc2626')}</p>`
+}
+
+const actionLinksText = (links: AppointmentActionLinks | undefined, language: EmailLanguage): string => {
+  if (!links) return ''
+  const labels = ACTION_LABELS[language]
+  return `\n${labels.confirm}: ${links.confirm}\n${labels.reschedule}: ${links.reschedule}\n${labels.cancel}: ${links.cancel}\n`
+}
+
+const wrapHtml = (body: string, branding: EmailBranding): string => {
+  const header = branding.logoUrl
+    ? `<img src="${escapeHtml(branding.logoUrl)}" alt="${escapeHtml(branding.name)}" style="max-height:56px;max-width:240px">`
+    : `<span style="font-size:20px;font-weight:bold">${escapeHtml(branding.name)}</span>`
+  const footer = [branding.name, branding.phone, branding.address, branding.email].filter(Boolean).map(escapeHtml).join(' · ')
+  return `<!DOCTYPE html>
+<html><head><meta charset="UTF-8"></head>
+<body style="margin:0;padding:0;background:#f3f4f6;font-family:Arial,Helvetica,sans-serif;color:#1f2937">
+<table role="presentation" width="100%" cellpadding="0" cellspacing="0"><tr><td align="center" style="padding:24px">
+<table role="presentation" width="600" cellpadding="0" cellspacing="0" style="max-width:600px;background:#ffffff;border-radius:12px;overflow:hidden">
+<tr><td style="background:${branding.logoUrl ? '#ffffff' : '#0d9488'};color:#ffffff;padding:20px 24px;border-bottom:1px solid #e5e7eb">${header}</td></tr>
+<tr><td style="padding:24px;font-size:15px;line-height:1.6">
+${body}
+</td></tr>
+<tr><td style="padding:16px 24px;background:#f9fafb;font-size:12px;color:#6b7280">${footer}</td></tr>
+</table>
+</td></tr></table>
+</body></html>`
+}
+
+/**
+ * Fill a template: HTML with escaped values inside the branded layout, plain text from the same
+ * template, subject as text. Values are plain text; {{actionLinks}} becomes buttons / a link list.
+ */
+export const renderEmail = (
+  template: EmailTemplate,
+  values: Record<string, string>,
+  branding: EmailBranding,
+  language: EmailLanguage,
+  links?: AppointmentActionLinks
+): RenderedEmail => {
+  const htmlValues: Record<string, string> = { actionLinks: actionLinksHtml(links, language) }
+  const textValues: Record<string, string> = { actionLinks: actionLinksText(links, language) }
+  for (const [name, value] of Object.entries(values)) {
+    if (name === 'actionLinks') continue
+    htmlValues[name] = escapeHtml(value).replace(/\n/g, '<br>')
+    textValues[name] = value
+  }
+  const footer = [branding.name, branding.phone, branding.address, branding.email].filter(Boolean).join(' · ')
+  return {
+    subject: fillPlaceholders(template.subject, textValues).replace(/\s+/g, ' ').trim(),
+    html: wrapHtml(fillPlaceholders(template.html, htmlValues), branding),
+    text: `${fillPlaceholders(htmlToText(template.html), textValues).replace(/\n{3,}/g, '\n\n')}\n\n---\n${footer}`
+  }
+}
+
+export interface AppointmentTemplateData {
+  appointment: Appointment
+  client: Client
+  pet: Pet
+  veterinarianName?: string
+  links?: AppointmentActionLinks
+}
+
+export const appointmentValues = (
+  data: AppointmentTemplateData,
+  branding: EmailBranding,
+  language: EmailLanguage
+): Record<string, string> => {
+  const { appointment, client, pet, links } = data
+  const none = language === 'es' ? 'No hay notas adicionales.' : 'No additional notes.'
+  return {
+    clientName: `${client.firstName} ${client.lastName}`.trim(),
+    clientFirstName: client.firstName,
+    petName: pet.name,
+    appointmentType: getAppointmentTypeLabel(appointment.type, language),
+    date: formatEmailDate(appointment.date, language),
+    time: formatEmailTime(appointment.time, language),
+    duration: String(appointment.duration || 30),
+    vet: data.veterinarianName || appointment.veterinarian || '-',
+    notes: appointment.notes || none,
+    clinicName: branding.name,
+    clinicPhone: branding.phone,
+    clinicAddress: branding.address,
+    clinicEmail: branding.email,
+    confirmUrl: links?.confirm ?? '',
+    rescheduleUrl: links?.reschedule ?? '',
+    cancelUrl: links?.cancel ?? ''
+  }
+}
+
+const isLanguage = (value: string | undefined): value is EmailLanguage =>
+  EMAIL_LANGUAGES.some(l => l.code === value)
+
+/** Clinic details for emails from settings (name falls back to the clinic account). */
+export const brandingFromSettings = (settings: Pick<Setting, 'key' | 'value'>[]): EmailBranding => {
+  const value = (key: string) => settings.find(s => s.key === key)?.value ?? ''
+  const language = value(EMAIL_LANGUAGE_KEY)
+  return {
+    name: value('clinicName') || useAuthStore.getState().clinicName || 'VetSoft - Clínica Veterinaria',
+    phone: value('clinicPhone'),
+    address: value('clinicAddress'),
+    email: value('clinicEmail'),
+    logoUrl: value(CLINIC_LOGO_KEY),
+    language: isLanguage(language) ? language : 'es'
+  }
+}
+
+/** Saved template for a kind and language, or the built-in default. */
+export const templateFromSettings = (
+  settings: Pick<Setting, 'key' | 'value'>[],
+  kind: EmailTemplateKind,
+  language: EmailLanguage
+): EmailTemplate => {
+  const raw = settings.find(s => s.key === emailTemplateKey(kind, language))?.value
+  if (raw) {
+    try {
+      const saved = JSON.parse(raw) as Partial<EmailTemplate>
+      if (saved.subject && saved.html) return { subject: saved.subject, html: saved.html }
+    } catch {
+      // fall through to the default
+    }
+  }
+  return DEFAULT_TEMPLATES[language][kind]
+}
+
+export const loadEmailBranding = async (): Promise<EmailBranding> =>
+  brandingFromSettings(await getAllSettings())
+
+/**
+ * Appointment email in the client's language (or the clinic default) from the saved template.
+ * Clinic overrides (e.g. from the reminder engine) replace the settings values.
+ */
+export const renderAppointmentEmail = async (
+  kind: EmailTemplateKind,
+  data: AppointmentTemplateData,
+  overrides: Partial<Pick<EmailBranding, 'name' | 'phone' | 'address'>> = {}
+): Promise<RenderedEmail> => {
+  const settings = await getAllSettings()
+  const base = brandingFromSettings(settings)
+  const branding: EmailBranding = {
+    ...base,
+    name: overrides.name || base.name,
+    phone: overrides.phone || base.phone,
+    address: overrides.address || base.address
+  }
+  const language = isLanguage(data.client.language) ? data.client.language : branding.language
+  const template = templateFromSettings(settings, kind, language)
+  return renderEmail(template, appointmentValues(data, branding, language), branding, language, data.links)
+}
+
+/** Sample appointment for the template editor preview. */
+export const samplePreviewData = (language: EmailLanguage): AppointmentTemplateData => {
+  const now = new Date().toISOString()
+  const date = new Date(Date.now() + 24 * 60 * 60 * 1000)
+  const base = `${window.location.origin}/appointment/preview?action=`
+  return {
+    appointment: {
+      id: 0,
+      petId: 0,
+      clientId: 0,
+      date: toDateString(date),
+      time: '10:30',
+      duration: 30,
+      type: 'vaccination',
+      status: 'scheduled',
+      veterinarian: 'Dra. Ana López',
+      notes: language === 'es' ? 'Traer cartilla de vacunación.' : 'Bring the vaccination card.',
+      createdAt: now,
+      updatedAt: now
+    } as Appointment,
+    client: { firstName: 'María', lastName: 'García', email: 'maria@example.com' } as Client,
+    pet: { name: 'Luna' } as Pet,
+    links: { confirm: `${base}confirm`, reschedule: `${base}reschedule`, cancel: `${base}cancel` }
+  }
+}
@@ -32,6 +32,8 @@ export interface CalendarEvent {
     }>
   }
   colorId?: string
+  recurrence?: string[] // RRULE lines (recurring events)
+  recurringEventId?: string // set on occurrences of a recurring event
   status?: 'confirmed' | 'tentative' | 'cancelled'
   htmlLink?: string
   created?: string
@@ -107,13 +109,15 @@ export const getPrimaryCalendar = async (): Promise<CalendarListEntry> => {
 }
 
 /**
- * Create a Google Calendar event from an appointment
+ * Create a Google Calendar event from an appointment.
+ * With recurrence (RRULE lines) the event repeats from the appointment's date - used for treatment series.
  */
 export const createCalendarEvent = async (
   appointment: Appointment,
   client: Client,
   pet: Pet,
-  calendarId: string = 'primary'
+  calendarId: string = 'primary',
+  recurrence?: string[]
 ): Promise<CalendarEvent> => {
   const accessToken = await getCalendarAccessToken()
 
@@ -159,7 +163,8 @@ export const createCalendarEvent = async (
         { method: 'popup', minutes: 60 }       // 1 hour before
       ]
     },
-    colorId: colorMap[appointment.type] || '1'
+    colorId: colorMap[appointment.type] || '1',
+    ...(recurrence && { recurrence })
   }
 
   const response = await fetch(
@@ -309,6 +314,63 @@ export const fetchCalendarEvents = async (
   return data.items || []
 }
 
+export interface CalendarChanges {
+  events: CalendarEvent[]
+  nextSyncToken?: string
+  // The stored sync token expired (HTTP 410) - discard it and run a full sync
+  fullSyncRequired: boolean
+}
+
+/**
+ * Fetch events changed since the last sync (incremental sync).
+ * Without a sync token this is the initial full sync from startDate; the returned
+ * nextSyncToken is then used for every later call. Cancelled events are included.
+ */
+export const fetchCalendarEventChanges = async (
+  syncToken: string | undefined,
+  startDate: Date,
+  calendarId: string = 'primary'
+): Promise<CalendarChanges> => {
+  const accessToken = await getCalendarAccessToken()
+  const events: CalendarEvent[] = []
+  let pageToken: string | undefined
+  let nextSyncToken: string | undefined
+
+  do {
+    // timeMin may only be sent on the initial sync - Google rejects it together with syncToken
+    const params = new URLSearchParams(
+      syncToken
+        ? { syncToken, showDeleted: 'true', singleEvents: 'true' }
+        : { timeMin: startDate.toISOString(), showDeleted: 'true', singleEvents: 'true' }
+    )
+    if (pageToken) params.set('pageToken', pageToken)
+
+    const response = await fetch(
+      `${GOOGLE_CALENDAR_API}/calendars/${calendarId}/events?${params.toString()}`,
+      {
+        headers: {
+          Authorization: `Bearer ${accessToken}`
+        }
+      }
+    )
+
+    if (response.status === 410) {
+      return { events: [], fullSyncRequired: true }
+    }
+    if (!response.ok) {
+      const error: GoogleCalendarError = await response.json()
+      throw new Error(error.error.message || 'Failed to fetch calendar changes')
+    }
+
+    const data = await response.json()
+    events.push(...(data.items || []))
+    pageToken = data.nextPageToken
+    nextSyncToken = data.nextSyncToken
+  } while (pageToken)
+
+  return { events, nextSyncToken, fullSyncRequired: false }
+}
+
 /**
  * Get a single calendar event by ID
  */
@@ -0,0 +1,281 @@
+import {
+  getAllAppointments,
+  getClientById,
+  getPetById,
+  getUserSettingValue,
+  setUserSetting,
+  updateAppointment
+} from '../../db/supabase'
+import {
+  createCalendarEvent,
+  updateCalendarEvent,
+  deleteCalendarEvent,
+  fetchCalendarEventChanges,
+  type CalendarEvent
+} from './calendar'
+import { toDateString, toTimeOfDay } from '../dates'
+import type { Appointment } from '../../db/types'
+
+// Settings key holding the sync state (JSON) - survives restarts and is shared by the user's devices.
+// Kept per staff member: each one syncs their own Google account and sync token.
+const SYNC_STATE_KEY = 'googleCalendarSync'
+
+// How far back the first (full) sync looks
+const INITIAL_SYNC_DAYS = 30
+
+/**
+ * Date, time and duration of a Google event in VetSoft terms
+ */
+export interface RemoteSchedule {
+  date: string
+  time: string
+  duration: number
+  cancelled: boolean
+}
+
+/**
+ * Appointment changed both in VetSoft and in Google Calendar since the last sync
+ */
+export interface CalendarConflict {
+  appointmentId: number
+  eventId: string
+  local: RemoteSchedule
+  remote: RemoteSchedule
+  remoteUpdated?: string
+}
+
+export interface CalendarSyncState {
+  calendarId: string
+  syncToken?: string
+  lastSyncTime?: string
+  // Events whose deletion failed (appointment already gone locally)
+  pendingDeletes: string[]
+  conflicts: CalendarConflict[]
+}
+
+export interface CalendarSyncResult {
+  imported: number
+  cancelled: number
+  pushed: number
+  failed: number
+  conflicts: CalendarConflict[]
+  lastSyncTime: string
+}
+
+const emptyState = (calendarId: string): CalendarSyncState => ({
+  calendarId,
+  pendingDeletes: [],
+  conflicts: []
+})
+
+/**
+ * Load the stored sync state. Switching calendars starts over with a full sync.
+ */
+export const loadCalendarSyncState = async (calendarId: string): Promise<CalendarSyncState> => {
+  const raw = await getUserSettingValue(SYNC_STATE_KEY)
+  if (!raw) return emptyState(calendarId)
+  try {
+    const state = JSON.parse(raw) as CalendarSyncState
+    if (state.calendarId !== calendarId) return emptyState(calendarId)
+    return { ...emptyState(calendarId), ...state }
+  } catch {
+    return emptyState(calendarId)
+  }
+}
+
+const saveCalendarSyncState = async (state: CalendarSyncState): Promise<void> => {
+  await setUserSetting(SYNC_STATE_KEY, JSON.stringify(state))
+}
+
+/**
+ * Remember an event that could not be deleted so the next sync retries it
+ */
+export const queueCalendarEventDelete = async (eventId: string, calendarId: string): Promise<void> => {
+  const state = await loadCalendarSyncState(calendarId)
+  if (!state.pendingDeletes.includes(eventId)) state.pendingDeletes.push(eventId)
+  await saveCalendarSyncState(state)
+}
+
+/**
+ * Convert a Google event to VetSoft date/time/duration (local time)
+ */
+export const eventToSchedule = (event: CalendarEvent): RemoteSchedule | null => {
+  if (event.status === 'cancelled') {
+    return { date: '', time: '', duration: 0, cancelled: true }
+  }
+  if (!event.start?.dateTime || !event.end?.dateTime) return null // all-day events are not appointments
+  const start = new Date(event.start.dateTime)
+  const end = new Date(event.end.dateTime)
+  return {
+    date: toDateString(start),
+    time: toTimeOfDay(start),
+    duration: Math.max(5, Math.round((end.getTime() - start.getTime()) / 60000)),
+    cancelled: false
+  }
+}
+
+const appointmentSchedule = (appointment: Appointment): RemoteSchedule => ({
+  date: appointment.date,
+  time: appointment.time.slice(0, 5),
+  duration: appointment.duration || 30,
+  cancelled: appointment.status === 'cancelled'
+})
+
+const sameSchedule = (a: RemoteSchedule, b: RemoteSchedule): boolean => {
+  if (a.cancelled || b.cancelled) return a.cancelled === b.cancelled
+  return a.date === b.date && a.time === b.time && a.duration === b.duration
+}
+
+/**
+ * Apply the Google version of an event to its appointment
+ */
+const applyRemote = async (appointment: Appointment, remote: RemoteSchedule): Promise<void> => {
+  if (remote.cancelled) {
+    await updateAppointment(appointment.id!, { status: 'cancelled', googleSyncPending: false })
+    return
+  }
+  await updateAppointment(appointment.id!, {
+    date: remote.date,
+    time: remote.time,
+    duration: remote.duration,
+    googleSyncPending: false
+  })
+}
+
+/**
+ * Push the VetSoft version of an appointment to Google (re-creating the event if it was deleted there)
+ */
+const pushLocal = async (appointment: Appointment, calendarId: string, recreate = false): Promise<void> => {
+  const [client, pet] = await Promise.all([
+    getClientById(appointment.clientId),
+    getPetById(appointment.petId)
+  ])
+  if (!client || !pet) throw new Error('Client or pet not found')
+  if (appointment.googleCalendarEventId && !recreate) {
+    await updateCalendarEvent(appointment.googleCalendarEventId, appointment, client, pet, calendarId)
+    await updateAppointment(appointment.id!, { googleSyncPending: false })
+  } else {
+    const event = await createCalendarEvent(appointment, client, pet, calendarId)
+    await updateAppointment(appointment.id!, { googleCalendarEventId: event.id, googleSyncPending: false })
+  }
+}
+
+/**
+ * Two-way sync:
+ * 1. Pull events changed in Google since the last sync (sync token; full sync the first time)
+ * 2. Apply time changes and cancellations to their appointments, or record a conflict when the
+ *    appointment's schedule was also edited in VetSoft and not pushed yet (googleSyncPending)
+ * 3. Push appointments whose earlier Calendar update failed, and retry failed event deletions
+ */
+export const syncCalendar = async (calendarId: string, startDate?: Date): Promise<CalendarSyncResult> => {
+  const state = await loadCalendarSyncState(calendarId)
+  const result: CalendarSyncResult = {
+    imported: 0,
+    cancelled: 0,
+    pushed: 0,
+    failed: 0,
+    conflicts: [],
+    lastSyncTime: state.lastSyncTime ?? ''
+  }
+
+  const initialStart = startDate ?? new Date(Date.now() - INITIAL_SYNC_DAYS * 24 * 60 * 60 * 1000)
+  let changes = await fetchCalendarEventChanges(state.syncToken, initialStart, calendarId)
+  if (changes.fullSyncRequired) {
+    state.syncToken = undefined
+    changes = await fetchCalendarEventChanges(undefined, initialStart, calendarId)
+  }
+
+  const appointments = await getAllAppointments()
+  const byEventId = new Map(
+    appointments.filter(a => a.googleCalendarEventId).map(a => [a.googleCalendarEventId!, a])
+  )
+  const conflicts = new Map(state.conflicts.map(c => [c.eventId, c]))
+
+  for (const event of changes.events) {
+    if (!event.id) continue
+    const appointment = byEventId.get(event.id)
+    if (!appointment?.id) continue // not a VetSoft appointment
+    const remote = eventToSchedule(event)
+    if (!remote) continue
+    const local = appointmentSchedule(appointment)
+    if (sameSchedule(local, remote)) {
+      conflicts.delete(event.id)
+      continue
+    }
+
+    // Only unpushed schedule edits count: updatedAt also moves for payments, reminders and emails
+    if (appointment.googleSyncPending) {
+      conflicts.set(event.id, {
+        appointmentId: appointment.id,
+        eventId: event.id,
+        local,
+        remote,
+        remoteUpdated: event.updated
+      })
+      continue
+    }
+
+    await applyRemote(appointment, remote)
+    conflicts.delete(event.id)
+    if (remote.cancelled) result.cancelled++
+    else result.imported++
+  }
+
+  // Push local changes that failed earlier (skipping anything waiting on a conflict decision)
+  for (const appointment of appointments) {
+    if (!appointment.googleSyncPending || !appointment.id) continue
+    if (appointment.googleCalendarEventId && conflicts.has(appointment.googleCalendarEventId)) continue
+    try {
+      await pushLocal(appointment, calendarId)
+      result.pushed++
+    } catch (error) {
+      console.error(`Failed to push appointment ${appointment.id} to Google Calendar:`, error)
+      result.failed++
+    }
+  }
+
+  const stillPending: string[] = []
+  for (const eventId of state.pendingDeletes) {
+    try {
+      await deleteCalendarEvent(eventId, calendarId)
+    } catch (error) {
+      console.error(`Failed to delete Google Calendar event ${eventId}:`, error)
+      stillPending.push(eventId)
+    }
+  }
+
+  result.lastSyncTime = new Date().toISOString()
+  result.conflicts = [...conflicts.values()]
+  await saveCalendarSyncState({
+    calendarId,
+    syncToken: changes.nextSyncToken ?? state.syncToken,
+    lastSyncTime: result.lastSyncTime,
+    pendingDeletes: stillPending,
+    conflicts: result.conflicts
+  })
+
+  return result
+}
+
+/**
+ * Resolve a conflict by keeping the VetSoft ('local') or the Google ('google') version
+ */
+export const resolveCalendarConflict = async (
+  conflict: CalendarConflict,
+  keep: 'local' | 'google',
+  calendarId: string
+): Promise<void> => {
+  const appointments = await getAllAppointments()
+  const appointment = appointments.find(a => a.id === conflict.appointmentId)
+  if (appointment) {
+    if (keep === 'google') {
+      await applyRemote(appointment, conflict.remote)
+    } else {
+      // A cancelled Google event can't be edited - create a new one
+      await pushLocal(appointment, calendarId, conflict.remote.cancelled)
+    }
+  }
+  const state = await loadCalendarSyncState(calendarId)
+  state.conflicts = state.conflicts.filter(c => c.eventId !== conflict.eventId)
+  await saveCalendarSyncState(state)
+}
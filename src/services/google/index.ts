@@ -3,6 +3,7 @@ export * from './oauth'
 
 // Google Calendar Service
 export * from './calendar'
+export * from './calendarSync'
 
 // Google Gmail Service
 export * from './gmail'
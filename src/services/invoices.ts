@@ -0,0 +1,249 @@
+// Invoice builder and printable document
+// Lines come from the appointment service (type price) and its sale items; tax rates and the
+// clinic header come from settings.
+
+import { getAllSettings } from '../db/supabase'
+import type {
+  Appointment,
+  Client,
+  Pet,
+  Invoice,
+  InvoiceLineItem,
+  Payment,
+  PaymentMethod,
+  SaleItem,
+  InventoryItem,
+  CreateInvoiceInput
+} from '../db/types'
+
+export const PAYMENT_METHODS: { value: PaymentMethod; label: string }[] = [
+  { value: 'cash', label: 'Efectivo' },
+  { value: 'card', label: 'Tarjeta' },
+  { value: 'transfer', label: 'Transferencia' }
+]
+
+export const TYPE_LABELS: Record<Appointment['type'], string> = {
+  consultation: 'Consultation',
+  vaccination: 'Vaccination',
+  surgery: 'Surgery',
+  grooming: 'Grooming',
+  emergency: 'Emergency',
+  'follow-up': 'Follow-up'
+}
+
+export interface InvoiceSettings {
+  taxRateServices: number
+  taxRateProducts: number
+  taxLabel: string
+  currency: string
+  clinicName: string
+  clinicAddress: string
+  clinicPhone: string
+  clinicEmail: string
+}
+
+/**
+ * Tax rates (percent) and clinic header from settings
+ */
+export const getInvoiceSettings = async (): Promise<InvoiceSettings> => {
+  const settings = await getAllSettings()
+  const value = (key: string) => settings.find(s => s.key === key)?.value ?? ''
+  return {
+    taxRateServices: parseFloat(value('tax_rate_services')) || 0,
+    taxRateProducts: parseFloat(value('tax_rate_products')) || 0,
+    taxLabel: value('tax_label') || 'Tax',
+    currency: value('currency') || 'USD',
+    clinicName: value('clinicName') || 'VetSoft Clinic',
+    clinicAddress: value('clinicAddress'),
+    clinicPhone: value('clinicPhone'),
+    clinicEmail: value('clinicEmail')
+  }
+}
+
+const round = (n: number): number => Math.round(n * 100) / 100
+
+/**
+ * Build the invoice for an appointment. The service line is the appointment total minus the
+ * medications sold (what the form charged), falling back to the type price from settings.
+ */
+export const buildInvoice = (
+  appointment: Appointment,
+  saleItems: SaleItem[],
+  inventoryItems: InventoryItem[],
+  settings: InvoiceSettings,
+  typePrice: number
+): CreateInvoiceInput => {
+  const productsTotal = saleItems.reduce((sum, item) => sum + item.quantity * item.unitPrice, 0)
+  const servicePrice = appointment.totalAmount
+    ? Math.max(0, appointment.totalAmount - productsTotal)
+    : typePrice
+
+  const items: InvoiceLineItem[] = []
+  if (servicePrice > 0) {
+    items.push({
+      description: TYPE_LABELS[appointment.type] ?? appointment.type,
+      kind: 'service',
+      quantity: 1,
+      unitPrice: round(servicePrice),
+      taxRate: settings.taxRateServices,
+      total: round(servicePrice)
+    })
+  }
+  for (const sale of saleItems) {
+    const inv = inventoryItems.find(i => i.id === sale.inventoryId)
+    items.push({
+      description: inv?.name ?? `Item #${sale.inventoryId}`,
+      kind: 'product',
+      inventoryId: sale.inventoryId,
+      quantity: sale.quantity,
+      unitPrice: sale.unitPrice,
+      taxRate: settings.taxRateProducts,
+      total: round(sale.quantity * sale.unitPrice)
+    })
+  }
+
+  const subtotal = round(items.reduce((sum, line) => sum + line.total, 0))
+  const taxAmount = round(items.reduce((sum, line) => sum + line.total * line.taxRate / 100, 0))
+  return {
+    appointmentId: appointment.id!,
+    clientId: appointment.clientId,
+    issueDate: new Date().toISOString().split('T')[0],
+    items,
+    subtotal,
+    taxAmount,
+    total: round(subtotal + taxAmount)
+  }
+}
+
+export const formatInvoiceNumber = (number: number): string => `F-${String(number).padStart(6, '0')}`
+
+const escapeHtml = (text: string): string =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;')
+
+/**
+ * Standalone HTML document for printing / PDF export
+ */
+export const renderInvoiceHtml = ({
+  invoice,
+  payments,
+  client,
+  pet,
+  settings
+}: {
+  invoice: Invoice
+  payments: Payment[]
+  client?: Client | null
+  pet?: Pet | null
+  settings: InvoiceSettings
+}): string => {
+  const money = (n: number) => `${n.toFixed(2)} ${escapeHtml(settings.currency)}`
+  const rows = invoice.items.map(line => `
+      <tr>
+        <td>${escapeHtml(line.description)}</td>
+        <td class="num">${line.quantity}</td>
+        <td class="num">${money(line.unitPrice)}</td>
+        <td class="num">${line.taxRate}%</td>
+        <td class="num">${money(line.total)}</td>
+      </tr>`).join('')
+  const paymentRows = payments.map(p => `
+      <tr>
+        <td>${new Date(p.paidAt).toLocaleDateString()}</td>
+        <td>${p.type === 'refund' ? 'Reembolso' : 'Pago'} - ${escapeHtml(PAYMENT_METHODS.find(m => m.value === p.method)?.label ?? p.method)}</td>
+        <td class="num">${p.type === 'refund' ? '-' : ''}${money(p.amount)}</td>
+      </tr>`).join('')
+  const due = Math.max(0, invoice.total - invoice.amountPaid)
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <title>${formatInvoiceNumber(invoice.number)}</title>
+  <style>
+    body { font-family: Arial, sans-serif; color: #1f2937; margin: 32px; font-size: 13px; }
+    .header { display: flex; justify-content: space-between; border-bottom: 3px solid #0d9488; padding-bottom: 16px; }
+    h1 { color: #0d9488; margin: 0 0 4px; font-size: 22px; }
+    h2 { margin: 0; font-size: 18px; }
+    .muted { color: #6b7280; }
+    .parties { display: flex; justify-content: space-between; margin: 24px 0; }
+    table { width: 100%; border-collapse: collapse; margin-top: 8px; }
+    th { text-align: left; background: #f3f4f6; padding: 8px; }
+    td { padding: 8px; border-bottom: 1px solid #e5e7eb; }
+    .num { text-align: right; }
+    .totals { width: 280px; margin-left: auto; margin-top: 16px; }
+    .totals td { border: none; padding: 4px 8px; }
+    .total td { font-weight: bold; font-size: 15px; border-top: 2px solid #1f2937; }
+  </style>
+</head>
+<body>
+  <div class="header">
+    <div>
+      <h1>${escapeHtml(settings.clinicName)}</h1>
+      ${settings.clinicAddress ? `<div>${escapeHtml(settings.clinicAddress)}</div>` : ''}
+      ${settings.clinicPhone ? `<div>Tel: ${escapeHtml(settings.clinicPhone)}</div>` : ''}
+      ${settings.clinicEmail ? `<div>${escapeHtml(settings.clinicEmail)}</div>` : ''}
+    </div>
+    <div style="text-align: right">
+      <h2>Factura ${formatInvoiceNumber(invoice.number)}</h2>
+      <div class="muted">Fecha: ${escapeHtml(invoice.issueDate)}</div>
+    </div>
+  </div>
+  <div class="parties">
+    <div>
+      <div class="muted">Cliente</div>
+      <strong>${client ? escapeHtml(`${client.firstName} ${client.lastName}`) : '-'}</strong>
+      ${client?.address ? `<div>${escapeHtml([client.address, client.city, client.state, client.zipCode].filter(Boolean).join(', '))}</div>` : ''}
+      ${client?.email ? `<div>${escapeHtml(client.email)}</div>` : ''}
+    </div>
+    ${pet ? `<div style="text-align: right"><div class="muted">Mascota</div><strong>${escapeHtml(pet.name)}</strong></div>` : ''}
+  </div>
+  <table>
+    <thead>
+      <tr><th>Concepto</th><th class="num">Cant.</th><th class="num">Precio</th><th class="num">${escapeHtml(settings.taxLabel)}</th><th class="num">Importe</th></tr>
+    </thead>
+    <tbody>${rows}
+    </tbody>
+  </table>
+  <table class="totals">
+    <tr><td>Subtotal</td><td class="num">${money(invoice.subtotal)}</td></tr>
+    <tr><td>${escapeHtml(settings.taxLabel)}</td><td class="num">${money(invoice.taxAmount)}</td></tr>
+    <tr class="total"><td>Total</td><td class="num">${money(invoice.total)}</td></tr>
+    <tr><td>Pagado</td><td class="num">${money(invoice.amountPaid)}</td></tr>
+    <tr><td>Pendiente</td><td class="num">${money(due)}</td></tr>
+  </table>
+  ${payments.length > 0 ? `
+  <h3>Pagos</h3>
+  <table>
+    <tbody>${paymentRows}
+    </tbody>
+  </table>` : ''}
+  ${invoice.notes ? `<p class="muted">${escapeHtml(invoice.notes)}</p>` : ''}
+</body>
+</html>`
+}
+
+/**
+ * Save as PDF in the desktop app; in the browser open the print dialog (which can also save a PDF)
+ */
+export const printInvoice = async (html: string, fileName: string): Promise<void> => {
+  if (window.electronAPI?.savePdf) {
+    await window.electronAPI.savePdf(html, fileName)
+    return
+  }
+  const frame = document.createElement('iframe')
+  frame.style.position = 'fixed'
+  frame.style.width = '0'
+  frame.style.height = '0'
+  frame.style.border = '0'
+  document.body.appendChild(frame)
+  const doc = frame.contentWindow?.document
+  if (!doc) {
+    frame.remove()
+    throw new Error('Could not open the print preview')
+  }
+  doc.open()
+  doc.write(html)
+  doc.close()
+  frame.contentWindow!.focus()
+  frame.contentWindow!.print()
+  setTimeout(() => frame.remove(), 1000)
+}
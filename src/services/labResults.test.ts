@@ -0,0 +1,94 @@
+import { describe, it, expect } from 'vitest'
+import { analyteCode, formatReferenceRange, isOutOfRange, labFlag, labTrends, panelTemplate } from './labResults'
+import type { LabResult, LabValue } from '../db/types'
+
+const hct = (value: number, refMin?: number, refMax?: number): LabValue =>
+  ({ code: 'hct', name: 'Hematocrito (HCT)', value, unit: '%', refMin, refMax })
+
+const result = (id: number, collectedAt: string, values: LabValue[], createdAt = `${collectedAt}T10:00:00Z`): LabResult =>
+  ({ id, appointmentId: id, petId: 1, panel: 'cbc', collectedAt, values, createdAt })
+
+describe('labFlag', () => {
+  it('has no flag without a reference range', () => {
+    expect(labFlag({ value: 42 })).toBeUndefined()
+  })
+
+  it('flags values below and above the range', () => {
+    expect(labFlag({ value: 30, refMin: 37.3, refMax: 61.7 })).toBe('low')
+    expect(labFlag({ value: 62, refMin: 37.3, refMax: 61.7 })).toBe('high')
+    expect(labFlag({ value: 45, refMin: 37.3, refMax: 61.7 })).toBe('normal')
+  })
+
+  it('treats the range limits as normal', () => {
+    expect(labFlag({ value: 37.3, refMin: 37.3, refMax: 61.7 })).toBe('normal')
+    expect(labFlag({ value: 61.7, refMin: 37.3, refMax: 61.7 })).toBe('normal')
+  })
+
+  it('works with only one limit of the range', () => {
+    expect(labFlag({ value: 0.6, refMax: 0.5 })).toBe('high')
+    expect(labFlag({ value: 0, refMax: 0.5 })).toBe('normal')
+    expect(labFlag({ value: 4, refMin: 5 })).toBe('low')
+    expect(labFlag({ value: 1000, refMin: 5 })).toBe('normal')
+  })
+
+  it('uses a zero lower limit', () => {
+    expect(labFlag({ value: -0.1, refMin: 0, refMax: 0.9 })).toBe('low')
+  })
+
+  it('marks only low and high values as out of range', () => {
+    expect(isOutOfRange(hct(30, 37.3, 61.7))).toBe(true)
+    expect(isOutOfRange(hct(45, 37.3, 61.7))).toBe(false)
+    expect(isOutOfRange(hct(45))).toBe(false)
+  })
+})
+
+describe('formatReferenceRange', () => {
+  it('formats both, one or no limits', () => {
+    expect(formatReferenceRange({ refMin: 5.65, refMax: 8.87, unit: 'x10^12/L' })).toBe('5.65-8.87 x10^12/L')
+    expect(formatReferenceRange({ refMin: 0, refMax: 0.5, unit: '' })).toBe('< 0.5')
+    expect(formatReferenceRange({ refMin: 5, unit: 'U/L' })).toBe('> 5 U/L')
+    expect(formatReferenceRange({ unit: 'U/L' })).toBe('')
+  })
+})
+
+describe('panelTemplate', () => {
+  it('fills the ranges of the species and leaves other species without one', () => {
+    expect(panelTemplate('cbc', 'cat')[1]).toEqual({ code: 'hct', name: 'Hematocrito (HCT)', unit: '%', refMin: 30.3, refMax: 52.3 })
+    expect(panelTemplate('cbc', 'bird')[1]).toMatchObject({ code: 'hct', refMin: undefined, refMax: undefined })
+    expect(panelTemplate('other', 'dog')).toEqual([])
+  })
+})
+
+describe('analyteCode', () => {
+  it('ignores case, accents and punctuation', () => {
+    expect(analyteCode(' Ácido Úrico ')).toBe('acido_urico')
+    expect(analyteCode('T4 (total)')).toBe('t4_total_')
+  })
+})
+
+describe('labTrends', () => {
+  it('follows each analyte measured more than once, oldest first', () => {
+    const glucose: LabValue = { code: 'glu', name: 'Glucosa', value: 90, unit: 'mg/dL', refMin: 74, refMax: 143 }
+    const trends = labTrends([
+      result(2, '2025-03-10', [hct(30, 37.3, 61.7)]),
+      result(1, '2025-01-05', [hct(45, 37.3, 61.7), glucose])
+    ])
+    expect(trends).toEqual([{
+      code: 'hct',
+      name: 'Hematocrito (HCT)',
+      unit: '%',
+      points: [
+        { date: '2025-01-05', value: 45, refMin: 37.3, refMax: 61.7, flag: 'normal' },
+        { date: '2025-03-10', value: 30, refMin: 37.3, refMax: 61.7, flag: 'low' }
+      ]
+    }])
+  })
+
+  it('orders results collected the same day by when they were entered', () => {
+    const trends = labTrends([
+      result(2, '2025-03-10', [hct(50)], '2025-03-10T12:00:00Z'),
+      result(1, '2025-03-10', [hct(40)], '2025-03-10T09:00:00Z')
+    ])
+    expect(trends[0].points.map(p => p.value)).toEqual([40, 50])
+  })
+})
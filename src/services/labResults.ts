@@ -0,0 +1,127 @@
+// Lab results - panel templates (CBC, chemistry, urinalysis) with reference ranges per species,
+// out-of-range flagging and the per-analyte trends shown in the pet's history.
+// Default ranges are typical adult intervals for dogs and cats; the range printed on the lab's own
+// report wins, so it can be edited on every entry (and other species start without one).
+
+import type { LabPanel, LabResult, LabValue, Pet } from '../db/types'
+
+export type LabFlag = 'low' | 'high' | 'normal'
+
+export interface AnalyteDefinition {
+  code: string
+  name: string
+  unit: string
+  ranges: Partial<Record<Pet['species'], [number, number]>>
+}
+
+export interface LabTrendPoint {
+  date: string
+  value: number
+  refMin?: number
+  refMax?: number
+  flag?: LabFlag
+}
+
+export interface LabTrend {
+  code: string
+  name: string
+  unit: string
+  points: LabTrendPoint[] // oldest first
+}
+
+export const LAB_PANEL_LABELS: Record<LabPanel, string> = {
+  cbc: 'Hemograma (CBC)',
+  chemistry: 'Bioquímica',
+  urinalysis: 'Urianálisis',
+  other: 'Otro'
+}
+
+export const LAB_FLAG_LABELS: Record<LabFlag, string> = {
+  low: 'Bajo',
+  high: 'Alto',
+  normal: 'Normal'
+}
+
+export const LAB_PANELS: Record<LabPanel, AnalyteDefinition[]> = {
+  cbc: [
+    { code: 'rbc', name: 'Eritrocitos (RBC)', unit: 'x10^12/L', ranges: { dog: [5.65, 8.87], cat: [6.54, 12.2] } },
+    { code: 'hct', name: 'Hematocrito (HCT)', unit: '%', ranges: { dog: [37.3, 61.7], cat: [30.3, 52.3] } },
+    { code: 'hgb', name: 'Hemoglobina (HGB)', unit: 'g/dL', ranges: { dog: [13.1, 20.5], cat: [9.8, 16.2] } },
+    { code: 'mcv', name: 'VCM (MCV)', unit: 'fL', ranges: { dog: [61.6, 73.5], cat: [35.9, 53.1] } },
+    { code: 'wbc', name: 'Leucocitos (WBC)', unit: 'x10^9/L', ranges: { dog: [5.05, 16.76], cat: [2.87, 17.02] } },
+    { code: 'neu', name: 'Neutrófilos', unit: 'x10^9/L', ranges: { dog: [2.95, 11.64], cat: [2.3, 10.29] } },
+    { code: 'lym', name: 'Linfocitos', unit: 'x10^9/L', ranges: { dog: [1.05, 5.1], cat: [0.92, 6.88] } },
+    { code: 'plt', name: 'Plaquetas (PLT)', unit: 'x10^9/L', ranges: { dog: [148, 484], cat: [151, 600] } }
+  ],
+  chemistry: [
+    { code: 'glu', name: 'Glucosa', unit: 'mg/dL', ranges: { dog: [74, 143], cat: [71, 159] } },
+    { code: 'bun', name: 'Urea (BUN)', unit: 'mg/dL', ranges: { dog: [7, 27], cat: [16, 36] } },
+    { code: 'crea', name: 'Creatinina', unit: 'mg/dL', ranges: { dog: [0.5, 1.8], cat: [0.8, 2.4] } },
+    { code: 'alt', name: 'ALT', unit: 'U/L', ranges: { dog: [10, 125], cat: [12, 130] } },
+    { code: 'alp', name: 'Fosfatasa alcalina (ALP)', unit: 'U/L', ranges: { dog: [23, 212], cat: [14, 111] } },
+    { code: 'tp', name: 'Proteínas totales', unit: 'g/dL', ranges: { dog: [5.2, 8.2], cat: [5.7, 8.9] } },
+    { code: 'alb', name: 'Albúmina', unit: 'g/dL', ranges: { dog: [2.3, 4], cat: [2.2, 4] } },
+    { code: 'tbil', name: 'Bilirrubina total', unit: 'mg/dL', ranges: { dog: [0, 0.9], cat: [0, 0.9] } }
+  ],
+  urinalysis: [
+    { code: 'usg', name: 'Densidad urinaria', unit: '', ranges: { dog: [1.015, 1.045], cat: [1.035, 1.06] } },
+    { code: 'uph', name: 'pH urinario', unit: '', ranges: { dog: [5.5, 7.5], cat: [5.5, 7.5] } },
+    { code: 'upc', name: 'Proteína/creatinina (UPC)', unit: '', ranges: { dog: [0, 0.5], cat: [0, 0.4] } }
+  ],
+  other: []
+}
+
+/** Key for an analyte typed by hand, so the same name is followed across visits */
+export const analyteCode = (name: string) =>
+  name.normalize('NFD').replace(/[\u0300-\u036f]/g, '').trim().toLowerCase().replace(/[^a-z0-9]+/g, '_')
+
+/** Analytes of the panel with the reference range for the species, ready to fill in */
+export const panelTemplate = (panel: LabPanel, species: Pet['species']): Omit<LabValue, 'value'>[] =>
+  LAB_PANELS[panel].map(def => ({
+    code: def.code,
+    name: def.name,
+    unit: def.unit,
+    refMin: def.ranges[species]?.[0],
+    refMax: def.ranges[species]?.[1]
+  }))
+
+export const labFlag = (value: Pick<LabValue, 'value' | 'refMin' | 'refMax'>): LabFlag | undefined => {
+  if (value.refMin === undefined && value.refMax === undefined) return undefined
+  if (value.refMin !== undefined && value.value < value.refMin) return 'low'
+  if (value.refMax !== undefined && value.value > value.refMax) return 'high'
+  return 'normal'
+}
+
+export const isOutOfRange = (value: LabValue) => {
+  const flag = labFlag(value)
+  return flag === 'low' || flag === 'high'
+}
+
+/** "5.65-8.87 x10^12/L", "< 0.5" */
+export const formatReferenceRange = (value: Pick<LabValue, 'refMin' | 'refMax' | 'unit'>): string => {
+  const unit = value.unit ? ` ${value.unit}` : ''
+  if (value.refMin !== undefined && value.refMax !== undefined) {
+    return value.refMin === 0 ? `< ${value.refMax}${unit}` : `${value.refMin}-${value.refMax}${unit}`
+  }
+  if (value.refMin !== undefined) return `> ${value.refMin}${unit}`
+  if (value.refMax !== undefined) return `< ${value.refMax}${unit}`
+  return ''
+}
+
+/**
+ * Every analyte measured more than once, with its values by collection date (oldest first)
+ */
+export const labTrends = (results: LabResult[]): LabTrend[] => {
+  const trends = new Map<string, LabTrend>()
+  const sorted = [...results].sort((a, b) =>
+    a.collectedAt.localeCompare(b.collectedAt) || a.createdAt.localeCompare(b.createdAt)
+  )
+  for (const result of sorted) {
+    for (const v of result.values) {
+      const trend = trends.get(v.code) ?? { code: v.code, name: v.name, unit: v.unit, points: [] }
+      trend.points.push({ date: result.collectedAt, value: v.value, refMin: v.refMin, refMax: v.refMax, flag: labFlag(v) })
+      trends.set(v.code, trend)
+    }
+  }
+  return [...trends.values()].filter(t => t.points.length > 1)
+}
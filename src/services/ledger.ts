@@ -0,0 +1,140 @@
+// Client account ledger and accounts-receivable aging
+// Balances come from appointments (totalAmount - amountPaid); payment dates and methods come from
+// the payments table when the appointment was invoiced.
+
+import { daysBetween, toDateString } from './dates'
+import type { Appointment, Payment } from '../db/types'
+
+export interface LedgerEntry {
+  date: string
+  kind: 'charge' | 'payment' | 'refund'
+  description: string
+  appointmentId?: number
+  amount: number // charges positive, payments negative
+  balance: number // running balance after this entry
+}
+
+export const AGING_BUCKETS = ['0-30', '31-60', '61-90', '90+'] as const
+export type AgingBucket = typeof AGING_BUCKETS[number]
+
+export interface AgingItem {
+  appointment: Appointment
+  due: number
+  days: number
+  bucket: AgingBucket
+}
+
+export interface ClientAging {
+  clientId: number
+  buckets: Record<AgingBucket, number>
+  total: number
+  items: AgingItem[]
+}
+
+export interface AgingReport {
+  clients: ClientAging[]
+  totals: Record<AgingBucket, number>
+  total: number
+}
+
+// Appointments that never produce a charge
+const isBillable = (apt: Appointment): boolean =>
+  apt.status !== 'cancelled' && (apt.totalAmount ?? 0) > 0
+
+const round = (n: number): number => Math.round(n * 100) / 100
+
+const emptyBuckets = (): Record<AgingBucket, number> => ({ '0-30': 0, '31-60': 0, '61-90': 0, '90+': 0 })
+
+/**
+ * Charges and payments for one client in date order with a running balance.
+ * Amounts paid on an appointment without a payment record (entered in the appointment form)
+ * appear as a single payment on the appointment date.
+ */
+export const buildClientLedger = (appointments: Appointment[], payments: Payment[]): LedgerEntry[] => {
+  const entries: Omit<LedgerEntry, 'balance'>[] = []
+
+  for (const apt of appointments.filter(isBillable)) {
+    entries.push({
+      date: apt.date,
+      kind: 'charge',
+      description: `${apt.type} (${apt.date})`,
+      appointmentId: apt.id,
+      amount: apt.totalAmount ?? 0
+    })
+    const recorded = payments
+      .filter(p => p.appointmentId === apt.id)
+      .reduce((sum, p) => sum + (p.type === 'refund' ? -p.amount : p.amount), 0)
+    const unrecorded = round((apt.amountPaid ?? 0) - recorded)
+    if (unrecorded > 0) {
+      entries.push({
+        date: apt.date,
+        kind: 'payment',
+        description: 'Pago registrado en la cita',
+        appointmentId: apt.id,
+        amount: -unrecorded
+      })
+    }
+  }
+
+  for (const p of payments) {
+    entries.push({
+      date: p.paidAt.split('T')[0],
+      kind: p.type,
+      description: `${p.type === 'refund' ? 'Reembolso' : 'Pago'} (${p.method})${p.reference ? ` ${p.reference}` : ''}`,
+      appointmentId: p.appointmentId,
+      amount: p.type === 'refund' ? p.amount : -p.amount
+    })
+  }
+
+  // Same day: charges first so the balance doesn't dip below zero
+  const rank = (kind: LedgerEntry['kind']) => (kind === 'charge' ? 0 : 1)
+  entries.sort((a, b) => a.date.localeCompare(b.date) || rank(a.kind) - rank(b.kind))
+
+  let balance = 0
+  return entries.map(entry => {
+    balance = round(balance + entry.amount)
+    return { ...entry, balance }
+  })
+}
+
+export const getAgingBucket = (days: number): AgingBucket => {
+  if (days <= 30) return '0-30'
+  if (days <= 60) return '31-60'
+  if (days <= 90) return '61-90'
+  return '90+'
+}
+
+/**
+ * Outstanding balances grouped by client and age (days since the appointment).
+ * Future appointments are not receivable yet and are left out.
+ */
+export const buildAgingReport = (appointments: Appointment[], asOf: Date = new Date()): AgingReport => {
+  const byClient = new Map<number, ClientAging>()
+  const totals = emptyBuckets()
+
+  for (const apt of appointments.filter(isBillable)) {
+    const due = round((apt.totalAmount ?? 0) - (apt.amountPaid ?? 0))
+    if (due <= 0) continue
+    const days = daysBetween(apt.date, toDateString(asOf))
+    if (days < 0) continue
+    const bucket = getAgingBucket(days)
+
+    let row = byClient.get(apt.clientId)
+    if (!row) {
+      row = { clientId: apt.clientId, buckets: emptyBuckets(), total: 0, items: [] }
+      byClient.set(apt.clientId, row)
+    }
+    row.buckets[bucket] = round(row.buckets[bucket] + due)
+    row.total = round(row.total + due)
+    row.items.push({ appointment: apt, due, days, bucket })
+    totals[bucket] = round(totals[bucket] + due)
+  }
+
+  const clients = [...byClient.values()].sort((a, b) => b.total - a.total)
+  for (const row of clients) row.items.sort((a, b) => b.days - a.days)
+  return {
+    clients,
+    totals,
+    total: round(AGING_BUCKETS.reduce((sum, b) => sum + totals[b], 0))
+  }
+}
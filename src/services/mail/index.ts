@@ -0,0 +1,6 @@
+// Mail - message building and transports
+export * from './mime'
+export * from './transports'
+
+// Client and staff emails
+export * from './messages'
@@ -0,0 +1,170 @@
+// Client and staff emails - appointment templates, waitlist offers, vaccine recalls and staff invitations,
+// sent through the configured mail transport
+
+import { getAppointmentActionLinks } from '../appointmentActions'
+import {
+  renderAppointmentEmail,
+  loadEmailBranding,
+  formatEmailDate,
+  formatEmailTime,
+  getAppointmentTypeLabel,
+  type EmailTemplateKind
+} from '../emailTemplates'
+import { sendEmail } from './transports'
+import type { Appointment, Client, Pet } from '../../db/types'
+
+export interface AppointmentEmailData {
+  appointment: Appointment
+  client: Client
+  pet: Pet
+  clinicName?: string
+  clinicPhone?: string
+  clinicAddress?: string
+  veterinarianName?: string
+}
+
+/**
+ * Render an appointment template (client language, clinic branding from settings) and send it
+ */
+const sendAppointmentEmail = async (
+  kind: EmailTemplateKind,
+  data: AppointmentEmailData,
+  withLinks = false
+): Promise<void> => {
+  const { appointment, client, pet } = data
+  const links = withLinks ? await getAppointmentActionLinks(appointment) : undefined
+  const email = await renderAppointmentEmail(
+    kind,
+    { appointment, client, pet, veterinarianName: data.veterinarianName, links },
+    { name: data.clinicName, phone: data.clinicPhone, address: data.clinicAddress }
+  )
+
+  await sendEmail({
+    to: client.email,
+    subject: email.subject,
+    body: email.text,
+    html: email.html
+  })
+}
+
+/**
+ * Send appointment confirmation email
+ */
+export const sendAppointmentConfirmation = (data: AppointmentEmailData): Promise<void> =>
+  sendAppointmentEmail('confirmation', data, true)
+
+/**
+ * Send appointment reminder email
+ */
+export const sendAppointmentReminder = (data: AppointmentEmailData): Promise<void> =>
+  sendAppointmentEmail('reminder', data, true)
+
+/**
+ * Send appointment cancellation email
+ */
+export const sendAppointmentCancellation = (data: AppointmentEmailData): Promise<void> =>
+  sendAppointmentEmail('cancellation', data)
+
+/**
+ * Send appointment rescheduled email
+ */
+export const sendAppointmentRescheduled = (data: AppointmentEmailData): Promise<void> =>
+  sendAppointmentEmail('rescheduled', data)
+
+/**
+ * Send a staff invitation - the invitee joins the clinic by signing in with this email
+ */
+export const sendClinicInvitation = async (
+  email: string,
+  clinicName: string,
+  roleLabel: string
+): Promise<void> => {
+  const body = `Hola,
+
+Has sido invitado a unirte a ${clinicName} en VetSoft como ${roleLabel}.
+
+Para aceptar la invitación, inicia sesión o crea tu cuenta en VetSoft con este correo (${email}).
+Al entrar verás los clientes, mascotas y citas de la clínica.
+
+---
+Este correo fue enviado automáticamente desde VetSoft - Sistema de Gestión Veterinaria`
+
+  await sendEmail({
+    to: email,
+    subject: `Invitación a ${clinicName} - VetSoft`,
+    body
+  })
+}
+
+/**
+ * Offer a freed slot to a waitlisted client - the first client to open the link gets it
+ */
+export const sendWaitlistOffer = async (
+  client: Client,
+  pet: Pet,
+  slot: { date: string; time: string; type: Appointment['type'] },
+  claimUrl: string,
+  expiresAt: string,
+  clinicName?: string
+): Promise<void> => {
+  const clinic = clinicName || (await loadEmailBranding()).name
+  const body = `Hola ${client.firstName},
+
+Se liberó un horario en ${clinic} y ${pet.name} está en nuestra lista de espera:
+
+📅 ${formatEmailDate(slot.date)} a las ${formatEmailTime(slot.time)} (${getAppointmentTypeLabel(slot.type)})
+
+Si lo quieres, resérvalo aquí:
+${claimUrl}
+
+El horario se asigna a quien lo reserve primero. El enlace vence el ${new Date(expiresAt).toLocaleString('es-MX')}.
+
+---
+Este correo fue enviado automáticamente desde VetSoft - Sistema de Gestión Veterinaria`
+
+  await sendEmail({
+    to: client.email,
+    subject: `Horario disponible para ${pet.name} - ${formatEmailDate(slot.date)}`,
+    body
+  })
+}
+
+
+/**
+ * Vaccine recall - one email per owner listing every pet and vaccine coming due
+ */
+export const sendVaccineRecall = async (
+  client: Client,
+  items: { pet: Pet; vaccineName: string; dueDate: string }[],
+  options: { bookingUrl?: string; clinicName?: string; clinicPhone?: string } = {}
+): Promise<void> => {
+  const branding = await loadEmailBranding()
+  const clinic = options.clinicName || branding.name
+  const phone = options.clinicPhone || branding.phone
+  const today = new Date().toISOString().split('T')[0]
+  const lines = items
+    .map(item => `💉 ${item.pet.name}: ${item.vaccineName} - ${item.dueDate < today ? 'vencida desde el' : 'vence el'} ${formatEmailDate(item.dueDate)}`)
+    .join('\n')
+  const booking = options.bookingUrl
+    ? `Reserve la cita en línea aquí:\n${options.bookingUrl}${phone ? `\n\no llámenos al ${phone}.` : ''}`
+    : phone ? `Llámenos al ${phone} para agendar la cita.` : 'Responda a este correo para agendar la cita.'
+  const petNames = [...new Set(items.map(item => item.pet.name))]
+
+  const body = `Hola ${client.firstName},
+
+En ${clinic} queremos recordarle que es momento de vacunar:
+
+${lines}
+
+Mantener las vacunas al día protege a su mascota de enfermedades graves.
+${booking}
+
+---
+Este correo fue enviado automáticamente desde VetSoft - Sistema de Gestión Veterinaria`
+
+  await sendEmail({
+    to: client.email,
+    subject: `Vacunas pendientes de ${petNames.join(' y ')} - ${clinic}`,
+    body
+  })
+}
@@ -0,0 +1,84 @@
+// MIME message builder shared by all mail transports
+
+export interface EmailOptions {
+  to: string
+  subject: string
+  body: string // plain text; also the text part when html is set
+  html?: string
+  cc?: string
+  bcc?: string
+  replyTo?: string
+}
+
+/**
+ * UTF-8 string to base64 (btoa only takes latin1)
+ */
+export const toBase64 = (value: string): string =>
+  btoa(encodeURIComponent(value).replace(/%([0-9A-F]{2})/g, (_, p1) => {
+    return String.fromCharCode(parseInt(p1, 16))
+  }))
+
+// Base64 body wrapped at 76 characters - keeps lines within SMTP limits whatever the content
+const encodeBody = (value: string): string =>
+  (toBase64(value.replace(/\r?\n/g, '\r\n')).match(/.{1,76}/g) ?? []).join('\r\n')
+
+/**
+ * All recipient addresses (To, Cc, Bcc) - the SMTP envelope
+ */
+export const getRecipients = (options: EmailOptions): string[] =>
+  [options.to, options.cc, options.bcc]
+    .filter(Boolean)
+    .flatMap(list => list!.split(','))
+    .map(address => address.trim())
+    .filter(Boolean)
+
+/**
+ * Build the raw RFC 822 message (CRLF line endings) - text/plain, or multipart/alternative
+ * (text + HTML) when html is set. Bcc is only kept for Gmail, which strips it on delivery.
+ */
+export const buildMimeMessage = (
+  options: EmailOptions,
+  { from, includeBcc = false }: { from?: string; includeBcc?: boolean } = {}
+): string => {
+  const headers = [
+    from ? `From: ${from}` : '',
+    `To: ${options.to}`,
+    options.cc ? `Cc: ${options.cc}` : '',
+    includeBcc && options.bcc ? `Bcc: ${options.bcc}` : '',
+    options.replyTo ? `Reply-To: ${options.replyTo}` : '',
+    `Subject: =?UTF-8?B?${toBase64(options.subject)}?=`,
+    `Date: ${new Date().toUTCString().replace('GMT', '+0000')}`,
+    'MIME-Version: 1.0'
+  ].filter(Boolean)
+
+  let lines: string[]
+  if (options.html) {
+    const boundary = `vetsoft-${Date.now().toString(36)}${Math.random().toString(36).slice(2)}`
+    lines = [
+      ...headers,
+      `Content-Type: multipart/alternative; boundary="${boundary}"`,
+      '',
+      `--${boundary}`,
+      'Content-Type: text/plain; charset=UTF-8',
+      'Content-Transfer-Encoding: base64',
+      '',
+      encodeBody(options.body),
+      `--${boundary}`,
+      'Content-Type: text/html; charset=UTF-8',
+      'Content-Transfer-Encoding: base64',
+      '',
+      encodeBody(options.html),
+      `--${boundary}--`
+    ]
+  } else {
+    lines = [
+      ...headers,
+      'Content-Type: text/plain; charset=UTF-8',
+      'Content-Transfer-Encoding: base64',
+      '',
+      encodeBody(options.body)
+    ]
+  }
+
+  return lines.join('\r\n')
+}
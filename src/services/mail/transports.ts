@@ -0,0 +1,124 @@
+// Mail transports - Gmail API (Google account), SMTP (desktop app) or the local outbox (testing).
+// The clinic picks one in Settings > Emails; every email in the app goes through sendEmail.
+
+import { getAllSettings, addOutboxEmail } from '../../db/supabase'
+import { useAuthStore } from '../../stores/authStore'
+import { sendGmail } from '../google/gmail'
+import { buildMimeMessage, getRecipients, toBase64, type EmailOptions } from './mime'
+import type { Setting } from '../../db/types'
+
+export type MailTransportKind = 'gmail' | 'smtp' | 'outbox'
+
+// Shared by the clinic's computers
+export interface SmtpConfig {
+  from: string // sender address; empty = clinic email
+}
+
+// Server and login of this computer's SMTP account. They are not in the clinic settings: the
+// desktop app keeps them with the password in the keychain and only connects to that server.
+export interface SmtpAccount {
+  host: string
+  port: number
+  security: 'tls' | 'starttls' | 'none' // tls = implicit TLS (465), starttls = upgrade (587)
+  user: string
+}
+
+export interface MailSettings {
+  transport: MailTransportKind
+  smtp: SmtpConfig
+  senderName: string
+  senderEmail: string
+}
+
+export const MAIL_TRANSPORT_KEY = 'mail_transport'
+export const SMTP_CONFIG_KEY = 'smtp_config'
+
+export const MAIL_TRANSPORTS: { kind: MailTransportKind; label: string; description: string }[] = [
+  { kind: 'gmail', label: 'Gmail', description: 'Sends from the Google account connected in Integrations' },
+  { kind: 'smtp', label: 'SMTP', description: 'Outlook / Microsoft 365 or any hosted SMTP server (desktop app only)' },
+  { kind: 'outbox', label: 'Outbox (testing)', description: 'Emails are stored here instead of sent - download them as .eml' }
+]
+
+export const DEFAULT_SMTP_CONFIG: SmtpConfig = {
+  from: ''
+}
+
+export const DEFAULT_SMTP_ACCOUNT: SmtpAccount = {
+  host: '',
+  port: 587,
+  security: 'starttls',
+  user: ''
+}
+
+export const mailSettingsFromSettings = (settings: Pick<Setting, 'key' | 'value'>[]): MailSettings => {
+  const value = (key: string) => settings.find(s => s.key === key)?.value ?? ''
+  const transport = value(MAIL_TRANSPORT_KEY)
+  let smtp = DEFAULT_SMTP_CONFIG
+  try {
+    if (value(SMTP_CONFIG_KEY)) smtp = { from: JSON.parse(value(SMTP_CONFIG_KEY)).from || '' }
+  } catch {
+    // keep the defaults
+  }
+  return {
+    transport: MAIL_TRANSPORTS.some(t => t.kind === transport) ? transport as MailTransportKind : 'gmail',
+    smtp,
+    senderName: value('clinicName') || useAuthStore.getState().clinicName || 'VetSoft',
+    senderEmail: smtp.from || value('clinicEmail')
+  }
+}
+
+export const loadMailSettings = async (): Promise<MailSettings> =>
+  mailSettingsFromSettings(await getAllSettings())
+
+/** SMTP goes through the Electron main process - browsers cannot open mail server connections. */
+export const isSmtpSupported = (): boolean => !!window.electronAPI?.sendSmtpMail
+
+/** This computer's SMTP account (without the password); undefined when none is set up */
+export const loadSmtpAccount = async (): Promise<(SmtpAccount & { hasPassword: boolean }) | undefined> =>
+  (await window.electronAPI?.getSmtpAccount?.()) ?? undefined
+
+/**
+ * Whether automatic emails can go out: Gmail needs the Google connection on this device,
+ * SMTP a configured server in the desktop app. The outbox always accepts mail.
+ */
+export const isEmailEnabled = async (): Promise<boolean> => {
+  const { transport } = await loadMailSettings()
+  if (transport === 'gmail') return useAuthStore.getState().googleGmailEnabled
+  if (transport === 'smtp') return isSmtpSupported() && !!(await loadSmtpAccount())
+  return true
+}
+
+// "Clinic Name" <clinic@example.com>, with the name encoded when it is not plain ASCII
+const formatSender = (name: string, email: string): string => {
+  if (!name) return email
+  const displayName = /^[\x20-\x7e]*$/.test(name) ? `"${name.replace(/"/g, '')}"` : `=?UTF-8?B?${toBase64(name)}?=`
+  return `${displayName} <${email}>`
+}
+
+/**
+ * Send an email with the configured transport
+ */
+export const sendEmail = async (options: EmailOptions): Promise<void> => {
+  const settings = await loadMailSettings()
+
+  if (settings.transport === 'gmail') {
+    await sendGmail(options)
+    return
+  }
+
+  const from = settings.senderEmail ? formatSender(settings.senderName, settings.senderEmail) : undefined
+  const raw = buildMimeMessage(options, { from })
+
+  if (settings.transport === 'outbox') {
+    await addOutboxEmail({ to: options.to, subject: options.subject, raw })
+    return
+  }
+
+  if (!isSmtpSupported()) {
+    throw new Error('SMTP email needs the VetSoft desktop app')
+  }
+  if (!settings.senderEmail) {
+    throw new Error('SMTP is not configured: set the sender address in Settings > Emails')
+  }
+  await window.electronAPI!.sendSmtpMail!({ from: settings.senderEmail, to: getRecipients(options) }, raw)
+}
@@ -0,0 +1,199 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+
+// Settings, link signing and email delivery are stubbed; SMS / WhatsApp go through the mock provider.
+// appointmentActions reads window.location when loaded, so it gets a bare window, and the Supabase
+// client (created by the auth store) is kept out.
+const { settings, mail } = vi.hoisted(() => {
+  vi.stubGlobal('window', { location: { origin: 'http://localhost' } })
+  return {
+    settings: [] as { key: string; value: string }[],
+    mail: {
+      isEmailEnabled: vi.fn(async () => true),
+      sendAppointmentConfirmation: vi.fn(async () => {}),
+      sendAppointmentReminder: vi.fn(async () => {}),
+      sendAppointmentCancellation: vi.fn(async () => {}),
+      sendAppointmentRescheduled: vi.fn(async () => {})
+    }
+  }
+})
+
+vi.mock('../../lib/supabase', () => ({ supabase: {}, isSupabaseConfigured: () => false }))
+vi.mock('../../db/supabase', () => ({
+  getAllSettings: async () => settings,
+  signAppointmentAction: async () => 'signed-token'
+}))
+vi.mock('../mail', () => mail)
+
+import {
+  DEFAULT_MESSAGING_CONFIG,
+  MESSAGING_CONFIG_KEY,
+  getMessageProvider,
+  getMockProvider,
+  messagingConfigFromSettings,
+  notifyAppointment,
+  routeChannels,
+  sendTextMessage,
+  type MessagingConfig
+} from './channels'
+import type { AppointmentEmailData } from '../mail'
+import type { Appointment, ChannelConsent, Client, Pet } from '../../db/types'
+
+const config = (overrides: Partial<MessagingConfig> = {}): MessagingConfig => ({
+  sms: { enabled: true, provider: 'mock', twilio: { accountSid: '', from: '' } },
+  whatsapp: { enabled: true, provider: 'mock', twilio: { accountSid: '', from: '' } },
+  countryCode: '+52',
+  ...overrides
+})
+
+const optedIn: ChannelConsent = { status: 'opted_in', at: '2025-03-01T10:00:00Z', source: 'staff:ana@clinic.com' }
+
+const client = (overrides: Partial<Client> = {}): Client => ({
+  id: 1,
+  firstName: 'Ana',
+  lastName: 'López',
+  email: 'ana@example.com',
+  phone: '55 1234 5678',
+  notificationChannels: ['sms'],
+  channelConsent: { sms: optedIn, whatsapp: optedIn },
+  ...overrides
+} as Client)
+
+const data = (overrides: Partial<Client> = {}): AppointmentEmailData => ({
+  appointment: {
+    id: 7, petId: 1, clientId: 1, date: '2025-03-10', time: '15:00', duration: 30,
+    type: 'consultation', status: 'scheduled', veterinarian: '', notes: '', createdAt: '', updatedAt: ''
+  } as Appointment,
+  client: client(overrides),
+  pet: { id: 1, name: 'Luna' } as Pet,
+  clinicName: 'Huellitas',
+  clinicPhone: '555 000 1111'
+})
+
+const useSettings = (messaging: MessagingConfig) => {
+  settings.splice(0, settings.length, { key: MESSAGING_CONFIG_KEY, value: JSON.stringify(messaging) })
+}
+
+beforeEach(() => {
+  vi.restoreAllMocks()
+  vi.spyOn(console, 'info').mockImplementation(() => {})
+  getMockProvider('sms').sent.length = 0
+  getMockProvider('whatsapp').sent.length = 0
+  mail.isEmailEnabled.mockResolvedValue(true)
+  mail.sendAppointmentReminder.mockReset()
+  useSettings(config())
+})
+
+describe('messagingConfigFromSettings', () => {
+  it('falls back to the defaults when nothing (or nothing readable) is saved', () => {
+    expect(messagingConfigFromSettings([])).toEqual(DEFAULT_MESSAGING_CONFIG)
+    expect(messagingConfigFromSettings([{ key: MESSAGING_CONFIG_KEY, value: '{oops' }])).toEqual(DEFAULT_MESSAGING_CONFIG)
+  })
+
+  it('fills in what a saved config leaves out', () => {
+    const saved = messagingConfigFromSettings([{ key: MESSAGING_CONFIG_KEY, value: '{"sms":{"enabled":true}}' }])
+    expect(saved.sms).toEqual({ enabled: true, provider: 'twilio', twilio: { accountSid: '', from: '' } })
+    expect(saved.whatsapp.enabled).toBe(false)
+    expect(saved.countryCode).toBe('+52')
+  })
+})
+
+describe('getMessageProvider', () => {
+  it('uses the shared mock provider of the channel', () => {
+    expect(getMessageProvider('sms', config())).toBe(getMockProvider('sms'))
+    expect(getMessageProvider('whatsapp', config())).toBe(getMockProvider('whatsapp'))
+  })
+
+  it('uses Twilio otherwise, which needs an account and the desktop app', async () => {
+    const twilio = config({ sms: { enabled: true, provider: 'twilio', twilio: { accountSid: '', from: '' } } })
+    await expect(getMessageProvider('sms', twilio).send({ channel: 'sms', to: '+525512345678', body: 'Hola' }))
+      .rejects.toThrow('Twilio is not configured')
+
+    const configured = config({ sms: { enabled: true, provider: 'twilio', twilio: { accountSid: 'AC1', from: '+15550001111' } } })
+    await expect(getMessageProvider('sms', configured).send({ channel: 'sms', to: '+525512345678', body: 'Hola' }))
+      .rejects.toThrow('desktop app')
+  })
+})
+
+describe('routeChannels', () => {
+  it('keeps the preferred channels that can deliver', () => {
+    expect(routeChannels(client({ notificationChannels: ['sms', 'whatsapp', 'email'] }), config(), true))
+      .toEqual(['sms', 'whatsapp', 'email'])
+  })
+
+  it('needs the channel turned on, consent and a phone number', () => {
+    const both: Partial<Client> = { notificationChannels: ['sms', 'whatsapp'] }
+    expect(routeChannels(client(both), config({ sms: { ...config().sms, enabled: false } }), false)).toEqual(['whatsapp'])
+    expect(routeChannels(client({ ...both, channelConsent: { sms: optedIn } }), config(), false)).toEqual(['sms'])
+    expect(routeChannels(client({ ...both, phone: '123' }), config(), false)).toEqual([])
+  })
+
+  it('falls back to email when no preferred channel can deliver', () => {
+    expect(routeChannels(client({ channelConsent: {} }), config(), true)).toEqual(['email'])
+    expect(routeChannels(client({ channelConsent: {}, email: '' }), config(), true)).toEqual([])
+    expect(routeChannels(client({ notificationChannels: [] }), config(), false)).toEqual([])
+  })
+})
+
+describe('sendTextMessage', () => {
+  it('sends to the number in E.164 with the clinic country code', async () => {
+    await sendTextMessage('whatsapp', '55 1234 5678', 'Hola', config())
+    expect(getMockProvider('whatsapp').sent).toEqual([{ channel: 'whatsapp', to: '+525512345678', body: 'Hola' }])
+  })
+
+  it('rejects numbers that are too short', async () => {
+    await expect(sendTextMessage('sms', '12-34', 'Hola', config())).rejects.toThrow('Invalid phone number: 12-34')
+  })
+})
+
+describe('notifyAppointment', () => {
+  it('renders the text in the client language with the action links', async () => {
+    const delivered = await notifyAppointment('reminder', data())
+
+    expect(delivered).toEqual(['sms'])
+    const [message] = getMockProvider('sms').sent
+    expect(message.to).toBe('+525512345678')
+    expect(message.body).toMatch(/^Huellitas: recordatorio de la cita de Luna el .+ a las .+\. Confirmar: \S+ Cancelar: \S+$/)
+    expect(message.body).toContain('signed-token')
+  })
+
+  it('leaves the links out of cancellations and uses the clinic phone', async () => {
+    await notifyAppointment('cancellation', data({ language: 'en', notificationChannels: ['whatsapp'] }))
+
+    const [message] = getMockProvider('whatsapp').sent
+    expect(message.body).toMatch(/^Huellitas: Luna's appointment on .+ was cancelled\. Call 555 000 1111 to rebook\.$/)
+  })
+
+  it('sends email through the mail service', async () => {
+    const delivered = await notifyAppointment('reminder', data({ notificationChannels: ['email'] }))
+
+    expect(delivered).toEqual(['email'])
+    expect(mail.sendAppointmentReminder).toHaveBeenCalledWith(expect.objectContaining({ pet: { id: 1, name: 'Luna' } }))
+    expect(getMockProvider('sms').sent).toHaveLength(0)
+  })
+
+  it('returns the channels that delivered when another one fails', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+    vi.spyOn(getMockProvider('sms'), 'send').mockRejectedValueOnce(new Error('Mock provider: delivery failed'))
+
+    const delivered = await notifyAppointment('reminder', data({ notificationChannels: ['sms', 'whatsapp'] }))
+
+    expect(delivered).toEqual(['whatsapp'])
+    expect(getMockProvider('whatsapp').sent).toHaveLength(1)
+  })
+
+  it('throws the first error when every channel fails', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+    vi.spyOn(getMockProvider('sms'), 'send').mockRejectedValueOnce(new Error('Mock provider: delivery failed'))
+    mail.sendAppointmentReminder.mockRejectedValueOnce(new Error('SMTP down'))
+
+    await expect(notifyAppointment('reminder', data({ notificationChannels: ['sms', 'email'] })))
+      .rejects.toThrow('Mock provider: delivery failed')
+  })
+
+  it('sends nothing when no channel can deliver', async () => {
+    mail.isEmailEnabled.mockResolvedValue(false)
+
+    expect(await notifyAppointment('reminder', data({ channelConsent: {} }))).toEqual([])
+    expect(getMockProvider('sms').sent).toHaveLength(0)
+  })
+})
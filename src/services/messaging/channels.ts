@@ -0,0 +1,207 @@
+// Notification channels - routes appointment messages to each client's preferred channels
+// (email, SMS, WhatsApp). SMS and WhatsApp go out only to opted-in clients with a phone number;
+// when none of a client's preferred channels can deliver, email is used as the fallback.
+
+import { getAllSettings } from '../../db/supabase'
+import { getAppointmentActionLinks } from '../appointmentActions'
+import {
+  brandingFromSettings,
+  appointmentValues,
+  fillPlaceholders,
+  type EmailTemplateKind
+} from '../emailTemplates'
+import {
+  isEmailEnabled,
+  sendAppointmentConfirmation,
+  sendAppointmentReminder,
+  sendAppointmentCancellation,
+  sendAppointmentRescheduled,
+  type AppointmentEmailData
+} from '../mail'
+import { createTwilioProvider, createMockProvider, normalizePhone, type MessageChannel, type MessageProvider, type TwilioConfig } from './providers'
+import type { Client, EmailLanguage, NotificationChannel, Setting } from '../../db/types'
+
+export interface ChannelConfig {
+  enabled: boolean
+  provider: 'twilio' | 'mock'
+  twilio: TwilioConfig
+}
+
+export interface MessagingConfig {
+  sms: ChannelConfig
+  whatsapp: ChannelConfig
+  countryCode: string // added to local phone numbers, e.g. +52
+}
+
+export const MESSAGING_CONFIG_KEY = 'messaging_config'
+
+export const CHANNEL_LABELS: Record<NotificationChannel, string> = {
+  email: 'Email',
+  sms: 'SMS',
+  whatsapp: 'WhatsApp'
+}
+
+const DEFAULT_CHANNEL_CONFIG: ChannelConfig = {
+  enabled: false,
+  provider: 'twilio',
+  twilio: { accountSid: '', from: '' }
+}
+
+export const DEFAULT_MESSAGING_CONFIG: MessagingConfig = {
+  sms: DEFAULT_CHANNEL_CONFIG,
+  whatsapp: DEFAULT_CHANNEL_CONFIG,
+  countryCode: '+52'
+}
+
+// Short texts - SMS segments are 160 characters, so only the essentials and the action links
+const TEXTS: Record<EmailLanguage, Record<EmailTemplateKind, string>> = {
+  es: {
+    confirmation: '{{clinicName}}: cita de {{petName}} confirmada para el {{date}} a las {{time}}.',
+    reminder: '{{clinicName}}: recordatorio de la cita de {{petName}} el {{date}} a las {{time}}.',
+    cancellation: '{{clinicName}}: la cita de {{petName}} del {{date}} a las {{time}} fue cancelada. Llámenos al {{clinicPhone}} para reprogramar.',
+    rescheduled: '{{clinicName}}: la cita de {{petName}} se cambió al {{date}} a las {{time}}.'
+  },
+  en: {
+    confirmation: '{{clinicName}}: {{petName}}\'s appointment is confirmed for {{date}} at {{time}}.',
+    reminder: '{{clinicName}}: reminder of {{petName}}\'s appointment on {{date}} at {{time}}.',
+    cancellation: '{{clinicName}}: {{petName}}\'s appointment on {{date}} at {{time}} was cancelled. Call {{clinicPhone}} to rebook.',
+    rescheduled: '{{clinicName}}: {{petName}}\'s appointment was moved to {{date}} at {{time}}.'
+  }
+}
+
+const LINK_TEXTS: Record<EmailLanguage, string> = {
+  es: ' Confirmar: {{confirmUrl}} Cancelar: {{cancelUrl}}',
+  en: ' Confirm: {{confirmUrl}} Cancel: {{cancelUrl}}'
+}
+
+const EMAIL_SENDERS: Record<EmailTemplateKind, (data: AppointmentEmailData) => Promise<void>> = {
+  confirmation: sendAppointmentConfirmation,
+  reminder: sendAppointmentReminder,
+  cancellation: sendAppointmentCancellation,
+  rescheduled: sendAppointmentRescheduled
+}
+
+export const messagingConfigFromSettings = (settings: Pick<Setting, 'key' | 'value'>[]): MessagingConfig => {
+  const raw = settings.find(s => s.key === MESSAGING_CONFIG_KEY)?.value
+  if (!raw) return DEFAULT_MESSAGING_CONFIG
+  try {
+    const saved = JSON.parse(raw) as Partial<MessagingConfig>
+    return {
+      sms: { ...DEFAULT_CHANNEL_CONFIG, ...saved.sms },
+      whatsapp: { ...DEFAULT_CHANNEL_CONFIG, ...saved.whatsapp },
+      countryCode: saved.countryCode || DEFAULT_MESSAGING_CONFIG.countryCode
+    }
+  } catch {
+    return DEFAULT_MESSAGING_CONFIG
+  }
+}
+
+export const loadMessagingConfig = async (): Promise<MessagingConfig> =>
+  messagingConfigFromSettings(await getAllSettings())
+
+// One mock per channel so the recorded messages survive between sends
+const mockProviders: Record<MessageChannel, ReturnType<typeof createMockProvider>> = {
+  sms: createMockProvider(),
+  whatsapp: createMockProvider()
+}
+
+export const getMockProvider = (channel: MessageChannel) => mockProviders[channel]
+
+export const getMessageProvider = (channel: MessageChannel, config: MessagingConfig): MessageProvider => {
+  const channelConfig = config[channel]
+  return channelConfig.provider === 'mock' ? mockProviders[channel] : createTwilioProvider(channelConfig.twilio)
+}
+
+export const hasConsent = (client: Pick<Client, 'channelConsent'>, channel: NotificationChannel): boolean =>
+  client.channelConsent?.[channel]?.status === 'opted_in'
+
+/**
+ * Channels a message to this client goes out on: the preferred channels that can deliver now,
+ * or email when none of them can
+ */
+export const routeChannels = (
+  client: Client,
+  config: MessagingConfig,
+  emailEnabled: boolean
+): NotificationChannel[] => {
+  const preferred: NotificationChannel[] = client.notificationChannels?.length ? client.notificationChannels : ['email']
+  const usable = preferred.filter(channel => {
+    if (channel === 'email') return emailEnabled && !!client.email
+    return config[channel].enabled && hasConsent(client, channel) && !!normalizePhone(client.phone || '', config.countryCode)
+  })
+  if (usable.length === 0 && emailEnabled && client.email) return ['email']
+  return usable
+}
+
+/**
+ * Whether any channel can send automatic client messages (reminders, confirmations)
+ */
+export const canNotifyClients = async (): Promise<boolean> => {
+  const config = await loadMessagingConfig()
+  return config.sms.enabled || config.whatsapp.enabled || await isEmailEnabled()
+}
+
+/**
+ * Send a text message to a client (SMS or WhatsApp) with the configured provider
+ */
+export const sendTextMessage = async (
+  channel: MessageChannel,
+  phone: string,
+  body: string,
+  config?: MessagingConfig
+): Promise<void> => {
+  const messaging = config ?? await loadMessagingConfig()
+  const to = normalizePhone(phone, messaging.countryCode)
+  if (!to) throw new Error(`Invalid phone number: ${phone}`)
+  await getMessageProvider(channel, messaging).send({ channel, to, body })
+}
+
+/**
+ * Send an appointment message on the client's channels. Returns the channels it was delivered on
+ * (empty when no channel is available); throws only when every attempted channel failed.
+ */
+export const notifyAppointment = async (
+  kind: EmailTemplateKind,
+  data: AppointmentEmailData
+): Promise<NotificationChannel[]> => {
+  const settings = await getAllSettings()
+  const config = messagingConfigFromSettings(settings)
+  const channels = routeChannels(data.client, config, await isEmailEnabled())
+  const delivered: NotificationChannel[] = []
+  let firstError: unknown
+
+  let text: string | undefined
+  const getText = async () => {
+    if (text !== undefined) return text
+    const base = brandingFromSettings(settings)
+    const branding = {
+      ...base,
+      name: data.clinicName || base.name,
+      phone: data.clinicPhone || base.phone,
+      address: data.clinicAddress || base.address
+    }
+    const language = data.client.language || branding.language
+    const withLinks = kind === 'confirmation' || kind === 'reminder'
+    const links = withLinks ? await getAppointmentActionLinks(data.appointment) : undefined
+    const values = appointmentValues({ ...data, links }, branding, language)
+    text = fillPlaceholders(TEXTS[language][kind] + (links ? LINK_TEXTS[language] : ''), values)
+    return text
+  }
+
+  for (const channel of channels) {
+    try {
+      if (channel === 'email') {
+        await EMAIL_SENDERS[kind](data)
+      } else {
+        await sendTextMessage(channel, data.client.phone, await getText(), config)
+      }
+      delivered.push(channel)
+    } catch (error) {
+      console.error(`Failed to send ${kind} by ${channel}:`, error)
+      firstError ??= error
+    }
+  }
+
+  if (delivered.length === 0 && firstError) throw firstError
+  return delivered
+}
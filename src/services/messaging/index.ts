@@ -0,0 +1,3 @@
+// Messaging - SMS / WhatsApp providers and channel routing for client notifications
+export * from './providers'
+export * from './channels'
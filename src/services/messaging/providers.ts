@@ -0,0 +1,85 @@
+// Message providers - deliver a text message on the SMS or WhatsApp channel
+
+export type MessageChannel = 'sms' | 'whatsapp'
+
+export interface TextMessage {
+  channel: MessageChannel
+  to: string // E.164, e.g. +5215512345678
+  body: string
+}
+
+export interface MessageProvider {
+  send: (message: TextMessage) => Promise<{ id?: string }>
+}
+
+// The auth token is not part of the clinic settings: it lives in the desktop app's keychain
+// (twilioTokenSecret) and the main process adds it to the request
+export interface TwilioConfig {
+  accountSid: string
+  from: string // sender number (SMS) or WhatsApp-enabled number, E.164
+}
+
+export const twilioTokenSecret = (channel: MessageChannel) => `twilio_auth_token:${channel}`
+
+/**
+ * Twilio Messaging API - SMS, and WhatsApp through a Twilio WhatsApp sender
+ * (outside a 24h conversation WhatsApp only delivers pre-approved templates).
+ * Sent by the desktop main process: Twilio does not allow browser (CORS) calls.
+ */
+export const createTwilioProvider = (config: TwilioConfig): MessageProvider => ({
+  send: async ({ channel, to, body }) => {
+    if (!config.accountSid || !config.from) {
+      throw new Error('Twilio is not configured')
+    }
+    if (!window.electronAPI?.sendTwilioMessage) {
+      throw new Error('SMS and WhatsApp messages are sent from the VetSoft desktop app')
+    }
+    const response = await window.electronAPI.sendTwilioMessage({
+      channel,
+      accountSid: config.accountSid,
+      from: config.from,
+      to,
+      body
+    })
+    let data: { sid?: string; message?: string } = {}
+    try {
+      data = JSON.parse(response.body)
+    } catch {
+      // non-JSON error page
+    }
+    if (!response.ok) {
+      throw new Error(`Twilio ${response.status}: ${data.message || 'Failed to send message'}`)
+    }
+    return { id: data.sid }
+  }
+})
+
+/**
+ * Provider that records messages instead of sending them (development and tests)
+ */
+export const createMockProvider = (options: { failFor?: string[] } = {}): MessageProvider & { sent: TextMessage[] } => {
+  const sent: TextMessage[] = []
+  return {
+    sent,
+    send: async (message) => {
+      if (options.failFor?.includes(message.to)) {
+        throw new Error(`Mock provider: delivery to ${message.to} failed`)
+      }
+      sent.push(message)
+      console.info(`[${message.channel}] to ${message.to}: ${message.body}`)
+      return { id: `mock-${sent.length}` }
+    }
+  }
+}
+
+/**
+ * Phone number in E.164: keeps "+..." and "00..." numbers, otherwise adds the clinic's country code
+ */
+export const normalizePhone = (phone: string, countryCode: string): string | undefined => {
+  const trimmed = phone.trim()
+  const digits = trimmed.replace(/\D/g, '')
+  if (digits.length < 7) return undefined
+  if (trimmed.startsWith('+')) return `+${digits}`
+  if (digits.startsWith('00')) return `+${digits.slice(2)}`
+  return `+${countryCode.replace(/\D/g, '')}${digits}`
+}
@@ -0,0 +1,27 @@
+// Role permissions for clinic staff
+// The database enforces the same rules through RLS (see 008_clinics.sql) and, for clearing all data, clear_clinic_data
+// (029_clear_clinic_data.sql); the UI uses these to hide what a role can't do.
+
+import type { UserRole } from '../db/types'
+
+export type Permission =
+  | 'medical_records:view'
+  | 'medical_records:edit'
+  | 'staff:manage'
+  | 'data:clear'
+
+export const ROLE_LABELS: Record<UserRole, string> = {
+  admin: 'Administrador',
+  veterinarian: 'Veterinario',
+  receptionist: 'Recepción'
+}
+
+const ROLE_PERMISSIONS: Record<UserRole, Permission[]> = {
+  admin: ['medical_records:view', 'medical_records:edit', 'staff:manage', 'data:clear'],
+  veterinarian: ['medical_records:view', 'medical_records:edit'],
+  receptionist: []
+}
+
+/** Whether a role may perform an action. No role (single-user account) means full access. */
+export const can = (role: UserRole | null | undefined, permission: Permission): boolean =>
+  !role || ROLE_PERMISSIONS[role].includes(permission)
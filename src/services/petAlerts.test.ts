@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest'
+import { blockedSaleMessage, blockingAlerts, cleanAlerts, describeAlert, sortAlerts } from './petAlerts'
+import type { PetAlert } from '../db/types'
+
+const amoxicillin = {
+  name: 'Amoxicilina 250 mg',
+  dosing: { mgPerUnit: 250, doseRanges: [], contraindicatedSpecies: [], allergyKeywords: ['penicilina'] }
+}
+
+const penicillinAllergy: PetAlert = { kind: 'drug_allergy', severity: 'high', label: 'Penicilinas' }
+
+describe('blockingAlerts', () => {
+  it('returns the drug allergy alerts that match the medication or its keywords', () => {
+    const byName: PetAlert = { kind: 'drug_allergy', severity: 'medium', label: 'amoxicilina' }
+    const other: PetAlert = { kind: 'drug_allergy', severity: 'high', label: 'Meloxicam' }
+    expect(blockingAlerts({ alerts: [penicillinAllergy, byName, other] }, amoxicillin)).toEqual([penicillinAllergy, byName])
+  })
+
+  it('ignores alerts of other kinds with a matching label', () => {
+    const chronic: PetAlert = { kind: 'chronic_condition', severity: 'high', label: 'Penicilina' }
+    const other: PetAlert = { kind: 'other', severity: 'low', label: 'Amoxicilina' }
+    expect(blockingAlerts({ alerts: [chronic, other] }, amoxicillin)).toEqual([])
+  })
+
+  it('does not block on a fragment from the middle of the drug name', () => {
+    expect(blockingAlerts({ alerts: [{ kind: 'drug_allergy', severity: 'high', label: 'cilina' }] }, amoxicillin)).toEqual([])
+  })
+
+  it('returns nothing without a pet or alerts', () => {
+    expect(blockingAlerts(null, amoxicillin)).toEqual([])
+    expect(blockingAlerts(undefined, amoxicillin)).toEqual([])
+    expect(blockingAlerts({}, amoxicillin)).toEqual([])
+  })
+
+  it('names the allergies in the blocked sale message', () => {
+    expect(blockedSaleMessage(amoxicillin, [penicillinAllergy]))
+      .toBe('Amoxicilina 250 mg no se puede vender: alergia registrada a Penicilinas')
+  })
+})
+
+describe('sortAlerts', () => {
+  it('puts the most severe first and keeps the entry order within a severity', () => {
+    const low: PetAlert = { kind: 'other', severity: 'low', label: 'Muerde el bozal' }
+    const high1: PetAlert = { kind: 'aggressive', severity: 'high', label: '' }
+    const medium: PetAlert = { kind: 'chronic_condition', severity: 'medium', label: 'Diabetes' }
+    const high2: PetAlert = { kind: 'dnr', severity: 'high', label: '' }
+    expect(sortAlerts([low, high1, medium, high2])).toEqual([high1, high2, medium, low])
+    expect(sortAlerts()).toEqual([])
+  })
+})
+
+describe('cleanAlerts', () => {
+  it('trims labels and notes and drops drug allergies without a drug', () => {
+    expect(cleanAlerts([
+      { kind: 'drug_allergy', severity: 'high', label: '  Penicilina ', notes: '  ' },
+      { kind: 'drug_allergy', severity: 'high', label: '   ' },
+      { kind: 'aggressive', severity: 'medium', label: '', notes: ' Usar bozal ' }
+    ])).toEqual([
+      { kind: 'drug_allergy', severity: 'high', label: 'Penicilina', notes: undefined },
+      { kind: 'aggressive', severity: 'medium', label: '', notes: 'Usar bozal' }
+    ])
+  })
+})
+
+describe('describeAlert', () => {
+  it('adds the label to the kind when there is one', () => {
+    expect(describeAlert(penicillinAllergy)).toBe('Alergia a fármaco: Penicilinas')
+    expect(describeAlert({ kind: 'dnr', severity: 'high', label: ' ' })).toBe('No reanimar (DNR)')
+  })
+})
@@ -0,0 +1,54 @@
+// Patient alerts - structured flags on a pet (drug allergies, aggressive behaviour, chronic
+// conditions, DNR) shown as badges wherever the pet appears. A drug allergy alert blocks the
+// sale of medications that match it; the free-text allergies field only warns (see dosing.ts).
+
+import { allergyConflicts } from './dosing'
+import type { InventoryItem, Pet, PetAlert, PetAlertKind, PetAlertSeverity } from '../db/types'
+
+export const ALERT_KIND_LABELS: Record<PetAlertKind, string> = {
+  drug_allergy: 'Alergia a fármaco',
+  aggressive: 'Agresivo',
+  chronic_condition: 'Enfermedad crónica',
+  dnr: 'No reanimar (DNR)',
+  other: 'Otra alerta'
+}
+
+export const ALERT_SEVERITY_LABELS: Record<PetAlertSeverity, string> = {
+  high: 'Alta',
+  medium: 'Media',
+  low: 'Baja'
+}
+
+export const ALERT_SEVERITY_STYLES: Record<PetAlertSeverity, string> = {
+  high: 'bg-red-100 text-red-700 border-red-200',
+  medium: 'bg-amber-100 text-amber-800 border-amber-200',
+  low: 'bg-blue-100 text-blue-700 border-blue-200'
+}
+
+const SEVERITY_ORDER: PetAlertSeverity[] = ['high', 'medium', 'low']
+
+/** Most severe first; same severity keeps the order they were entered in */
+export const sortAlerts = (alerts: PetAlert[] = []): PetAlert[] =>
+  [...alerts].sort((a, b) => SEVERITY_ORDER.indexOf(a.severity) - SEVERITY_ORDER.indexOf(b.severity))
+
+/** "Alergia a fármaco: Penicilina" */
+export const describeAlert = (alert: PetAlert): string =>
+  alert.label.trim() ? `${ALERT_KIND_LABELS[alert.kind]}: ${alert.label.trim()}` : ALERT_KIND_LABELS[alert.kind]
+
+/** Alerts with no label are dropped (a drug allergy needs the drug to match against) */
+export const cleanAlerts = (alerts: PetAlert[]): PetAlert[] =>
+  alerts
+    .map(a => ({ ...a, label: a.label.trim(), notes: a.notes?.trim() || undefined }))
+    .filter(a => a.label || a.kind !== 'drug_allergy')
+
+/**
+ * Drug allergy alerts of the pet that match the medication - its sale is blocked
+ */
+export const blockingAlerts = (
+  pet: Pick<Pet, 'alerts'> | null | undefined,
+  item: Pick<InventoryItem, 'name' | 'dosing'>
+): PetAlert[] =>
+  (pet?.alerts ?? []).filter(a => a.kind === 'drug_allergy' && allergyConflicts(item, a.label).length > 0)
+
+export const blockedSaleMessage = (item: Pick<InventoryItem, 'name'>, alerts: PetAlert[]): string =>
+  `${item.name} no se puede vender: alergia registrada a ${alerts.map(a => a.label).join(', ')}`
@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest'
+import { describeDirections, renderPrescriptionHandoutHtml, renderPrescriptionLabelHtml } from './prescriptions'
+import type { InvoiceSettings } from './invoices'
+import type { Client, InventoryItem, Pet, Prescription } from '../db/types'
+
+const prescription = (overrides: Partial<Prescription> = {}): Prescription => ({
+  id: 1,
+  appointmentId: 1,
+  petId: 1,
+  inventoryId: 7,
+  dose: '1 comprimido',
+  route: 'oral',
+  frequency: 'Cada 12 horas',
+  durationDays: 7,
+  quantity: 14,
+  refillsAllowed: 2,
+  refillsRemaining: 2,
+  status: 'active',
+  createdAt: '2025-03-10T10:00:00Z',
+  updatedAt: '2025-03-10T10:00:00Z',
+  ...overrides
+})
+
+const settings: InvoiceSettings = {
+  taxRateServices: 16,
+  taxRateProducts: 16,
+  taxLabel: 'IVA',
+  currency: 'MXN',
+  clinicName: 'Clínica <Huellitas>',
+  clinicAddress: '',
+  clinicPhone: '555 123 4567',
+  clinicEmail: ''
+}
+
+const item = { id: 7, name: 'Amoxicilina & Clavulánico', type: 'medication', quantity: 100, unit: 'comprimidos', price: 12 } as InventoryItem
+const pet = { id: 1, name: 'Luna "la traviesa"' } as Pet
+const client = { id: 1, firstName: 'Ana', lastName: '<script>' } as Client
+
+describe('describeDirections', () => {
+  it('joins the dose, route, frequency and duration', () => {
+    expect(describeDirections(prescription())).toBe('1 comprimido vía oral, cada 12 horas, durante 7 día(s)')
+  })
+
+  it('leaves out the duration when there is none', () => {
+    expect(describeDirections(prescription({ dose: '2 gotas', route: 'otic', frequency: 'Según necesidad', durationDays: undefined })))
+      .toBe('2 gotas vía ótica, según necesidad')
+  })
+})
+
+describe('renderPrescriptionLabelHtml', () => {
+  it('escapes the clinic, pet, owner and medication names', () => {
+    const html = renderPrescriptionLabelHtml({ prescription: prescription(), item, pet, client, settings })
+    expect(html).toContain('Clínica &lt;Huellitas&gt; · 555 123 4567')
+    expect(html).toContain('Luna &quot;la traviesa&quot; · Ana &lt;script&gt;')
+    expect(html).toContain('Amoxicilina &amp; Clavulánico · 14 comprimidos')
+    expect(html).not.toContain('<script>')
+  })
+
+  it('falls back to the inventory id and dashes when the records are missing', () => {
+    const html = renderPrescriptionLabelHtml({ prescription: prescription(), settings })
+    expect(html).toContain('Item #7 · 14</div>')
+    expect(html).toContain('<div>- · -</div>')
+  })
+})
+
+describe('renderPrescriptionHandoutHtml', () => {
+  it('escapes the instructions and shows the remaining refills', () => {
+    const html = renderPrescriptionHandoutHtml({
+      prescription: prescription({ instructions: 'Dar con comida <no en ayunas>', refillsRemaining: 1 }),
+      item,
+      pet,
+      client,
+      settings
+    })
+    expect(html).toContain('Dar con comida &lt;no en ayunas&gt;')
+    expect(html).toContain('Quedan 1 de 2 reposición(es)')
+  })
+
+  it('says when there are no refills left', () => {
+    const html = renderPrescriptionHandoutHtml({ prescription: prescription({ refillsRemaining: 0 }), item, pet, client, settings })
+    expect(html).toContain('Esta receta no incluye más reposiciones')
+  })
+})
@@ -0,0 +1,143 @@
+// Prescriptions - dosage directions and the printable label / owner handout
+// Printing goes through printInvoice (PDF in the desktop app, print dialog in the browser).
+
+import type { Client, InventoryItem, Pet, Prescription, PrescriptionRoute } from '../db/types'
+import type { InvoiceSettings } from './invoices'
+
+export const ROUTE_LABELS: Record<PrescriptionRoute, string> = {
+  oral: 'Vía oral',
+  topical: 'Uso tópico',
+  ophthalmic: 'Vía oftálmica',
+  otic: 'Vía ótica',
+  subcutaneous: 'Vía subcutánea',
+  intramuscular: 'Vía intramuscular',
+  intravenous: 'Vía intravenosa',
+  inhaled: 'Vía inhalatoria',
+  other: 'Otra vía'
+}
+
+// Suggestions for the frequency field (free text is allowed)
+export const FREQUENCY_PRESETS = [
+  'Una vez al día',
+  'Cada 12 horas',
+  'Cada 8 horas',
+  'Cada 6 horas',
+  'Cada 48 horas',
+  'Una vez por semana',
+  'Según necesidad'
+]
+
+/** "1 comprimido vía oral, cada 12 horas, durante 7 días" */
+export const describeDirections = (prescription: Pick<Prescription, 'dose' | 'route' | 'frequency' | 'durationDays'>): string =>
+  [
+    `${prescription.dose} ${ROUTE_LABELS[prescription.route].toLowerCase()}`,
+    prescription.frequency.toLowerCase(),
+    prescription.durationDays ? `durante ${prescription.durationDays} día(s)` : ''
+  ].filter(Boolean).join(', ')
+
+const escapeHtml = (text: string): string =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;')
+
+interface PrescriptionDocument {
+  prescription: Prescription
+  item?: InventoryItem
+  pet?: Pet | null
+  client?: Client | null
+  settings: InvoiceSettings
+}
+
+const medicationName = ({ prescription, item }: PrescriptionDocument) =>
+  escapeHtml(item?.name ?? `Item #${prescription.inventoryId}`)
+
+const ownerName = (client?: Client | null) => client ? escapeHtml(`${client.firstName} ${client.lastName}`) : '-'
+
+/**
+ * Small label for the medication container (sized for 90 x 50 mm label stock)
+ */
+export const renderPrescriptionLabelHtml = (doc: PrescriptionDocument): string => {
+  const { prescription, item, pet, client, settings } = doc
+  return `<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <title>Etiqueta - ${medicationName(doc)}</title>
+  <style>
+    @page { size: 90mm 50mm; margin: 3mm; }
+    body { font-family: Arial, sans-serif; color: #111827; margin: 0; font-size: 9pt; }
+    .clinic { font-weight: bold; border-bottom: 1px solid #111827; padding-bottom: 1mm; margin-bottom: 1mm; }
+    .drug { font-size: 11pt; font-weight: bold; }
+    .directions { margin: 1mm 0; }
+    .muted { color: #4b5563; font-size: 8pt; }
+  </style>
+</head>
+<body>
+  <div class="clinic">${escapeHtml(settings.clinicName)}${settings.clinicPhone ? ` · ${escapeHtml(settings.clinicPhone)}` : ''}</div>
+  <div>${pet ? escapeHtml(pet.name) : '-'} · ${ownerName(client)}</div>
+  <div class="drug">${medicationName(doc)} · ${prescription.quantity}${item?.unit ? ` ${escapeHtml(item.unit)}` : ''}</div>
+  <div class="directions">${escapeHtml(describeDirections(prescription))}</div>
+  <div class="muted">
+    ${new Date(prescription.createdAt).toLocaleDateString()}
+    ${prescription.prescribedBy ? ` · ${escapeHtml(prescription.prescribedBy)}` : ''}
+    · Reposiciones: ${prescription.refillsRemaining}
+  </div>
+  <div class="muted">Uso veterinario. Mantener fuera del alcance de los niños.</div>
+</body>
+</html>`
+}
+
+/**
+ * Full-page handout for the owner with the directions and refill information
+ */
+export const renderPrescriptionHandoutHtml = (doc: PrescriptionDocument): string => {
+  const { prescription, item, pet, client, settings } = doc
+  return `<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <title>Receta - ${medicationName(doc)}</title>
+  <style>
+    body { font-family: Arial, sans-serif; color: #1f2937; margin: 32px; font-size: 14px; line-height: 1.5; }
+    .header { border-bottom: 3px solid #0d9488; padding-bottom: 16px; margin-bottom: 24px; }
+    h1 { color: #0d9488; margin: 0 0 4px; font-size: 22px; }
+    h2 { font-size: 18px; margin: 24px 0 8px; }
+    .muted { color: #6b7280; }
+    table { border-collapse: collapse; }
+    td { padding: 4px 16px 4px 0; vertical-align: top; }
+    .box { border: 1px solid #e5e7eb; border-radius: 8px; padding: 16px; background: #f9fafb; }
+  </style>
+</head>
+<body>
+  <div class="header">
+    <h1>${escapeHtml(settings.clinicName)}</h1>
+    ${settings.clinicAddress ? `<div>${escapeHtml(settings.clinicAddress)}</div>` : ''}
+    ${settings.clinicPhone ? `<div>Tel: ${escapeHtml(settings.clinicPhone)}</div>` : ''}
+  </div>
+  <table>
+    <tr><td class="muted">Mascota</td><td><strong>${pet ? escapeHtml(pet.name) : '-'}</strong></td></tr>
+    <tr><td class="muted">Propietario</td><td>${ownerName(client)}</td></tr>
+    <tr><td class="muted">Fecha</td><td>${new Date(prescription.createdAt).toLocaleDateString()}</td></tr>
+    ${prescription.prescribedBy ? `<tr><td class="muted">Veterinario</td><td>${escapeHtml(prescription.prescribedBy)}</td></tr>` : ''}
+  </table>
+
+  <h2>${medicationName(doc)}</h2>
+  ${item?.description ? `<p class="muted">${escapeHtml(item.description)}</p>` : ''}
+  <div class="box">
+    <p><strong>Cómo administrarlo:</strong> ${escapeHtml(describeDirections(prescription))}.</p>
+    <p><strong>Cantidad entregada:</strong> ${prescription.quantity}${item?.unit ? ` ${escapeHtml(item.unit)}` : ''}</p>
+    ${prescription.instructions ? `<p><strong>Indicaciones:</strong> ${escapeHtml(prescription.instructions)}</p>` : ''}
+  </div>
+
+  <h2>Reposiciones</h2>
+  <p>
+    ${prescription.refillsRemaining > 0
+      ? `Quedan ${prescription.refillsRemaining} de ${prescription.refillsAllowed} reposición(es). Llame a la clínica para solicitarlas.`
+      : 'Esta receta no incluye más reposiciones. Consulte con su veterinario si necesita continuar el tratamiento.'}
+  </p>
+
+  <p class="muted">
+    Complete el tratamiento aunque su mascota mejore. Si observa vómitos, diarrea, decaimiento u otra reacción,
+    suspenda la medicación y contacte con la clínica.
+  </p>
+</body>
+</html>`
+}
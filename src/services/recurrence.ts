@@ -0,0 +1,68 @@
+// Recurrence rules for treatment series - session dates, Google Calendar RRULE and instance ids
+
+import { toDateString, toUtcStamp } from './dates'
+import type { RecurrenceRule } from '../db/types'
+
+// Upper bound for one series (also caps "until" rules far in the future)
+export const MAX_OCCURRENCES = 104
+
+const FREQUENCY_LABELS: Record<RecurrenceRule['frequency'], [string, string]> = {
+  daily: ['día', 'días'],
+  weekly: ['semana', 'semanas'],
+  monthly: ['mes', 'meses']
+}
+
+/**
+ * Session dates of a series starting on startDate (YYYY-MM-DD), the start date included.
+ * Monthly rules keep the day of month and skip months without it (like Google Calendar).
+ */
+export const expandRecurrence = (startDate: string, rule: RecurrenceRule): string[] => {
+  const [y, m, d] = startDate.split('-').map(Number)
+  const interval = Math.max(1, rule.interval || 1)
+  const limit = Math.min(rule.count ?? MAX_OCCURRENCES, MAX_OCCURRENCES)
+  const dates: string[] = []
+
+  for (let step = 0; dates.length < limit && step < MAX_OCCURRENCES * 2; step++) {
+    const next = rule.frequency === 'daily'
+      ? new Date(y, m - 1, d + step * interval)
+      : rule.frequency === 'weekly'
+        ? new Date(y, m - 1, d + step * interval * 7)
+        : new Date(y, m - 1 + step * interval, d)
+    if (rule.frequency === 'monthly' && next.getDate() !== d) continue // e.g. the 31st in a 30-day month
+    const date = toDateString(next)
+    if (rule.until && date > rule.until) break
+    dates.push(date)
+  }
+  return dates
+}
+
+/** Human-readable rule, e.g. "Cada 3 semanas, 6 sesiones". */
+export const describeRecurrence = (rule: RecurrenceRule): string => {
+  const [one, many] = FREQUENCY_LABELS[rule.frequency]
+  const every = rule.interval > 1 ? `Cada ${rule.interval} ${many}` : `Cada ${one}`
+  if (rule.count) return `${every}, ${rule.count} sesiones`
+  if (rule.until) return `${every} hasta ${rule.until}`
+  return every
+}
+
+/** RFC 5545 recurrence line for a Google Calendar recurring event. */
+export const toRRule = (rule: RecurrenceRule): string => {
+  const parts = [`FREQ=${rule.frequency.toUpperCase()}`, `INTERVAL=${Math.max(1, rule.interval || 1)}`]
+  if (rule.count) {
+    parts.push(`COUNT=${rule.count}`)
+  } else if (rule.until) {
+    // UNTIL must be UTC for timed events - end of the last day in local time
+    const [y, m, d] = rule.until.split('-').map(Number)
+    parts.push(`UNTIL=${toUtcStamp(new Date(y, m - 1, d, 23, 59, 59))}`)
+  } else {
+    parts.push(`COUNT=${MAX_OCCURRENCES}`)
+  }
+  return `RRULE:${parts.join(';')}`
+}
+
+/**
+ * Id of one occurrence of a recurring Google event: "<eventId>_<original start in UTC>".
+ * The id keeps the original start, so it stays valid after the occurrence is moved.
+ */
+export const getInstanceEventId = (eventId: string, date: string, time: string): string =>
+  `${eventId}_${toUtcStamp(new Date(`${date}T${time}`))}`
@@ -0,0 +1,193 @@
+import { describe, it, expect, vi } from 'vitest'
+
+// The engine runs on injected clock, mailer and data. Its modules still read window.location when
+// loaded and create the Supabase client, so give them a bare window and keep the client out.
+vi.hoisted(() => {
+  vi.stubGlobal('window', { location: { origin: 'http://localhost' } })
+})
+vi.mock('../lib/supabase', () => ({ supabase: {}, isSupabaseConfigured: () => false }))
+
+import {
+  APPOINTMENT_TYPES,
+  createMockMailer,
+  findDueReminders,
+  reminderSlot,
+  runReminders,
+  type ReminderDataSource,
+  type ReminderSettings
+} from './reminders'
+import type { Appointment, Client, Pet } from '../db/types'
+
+const NOW = new Date(2025, 2, 10, 9, 0) // 10 Mar 2025, 09:00 local time
+const clock = { now: () => NOW }
+
+const appointment = (overrides: Partial<Appointment> = {}): Appointment => ({
+  id: 1,
+  petId: 1,
+  clientId: 1,
+  date: '2025-03-10',
+  time: '15:00',
+  duration: 30,
+  type: 'consultation',
+  status: 'scheduled',
+  veterinarian: '',
+  notes: '',
+  createdAt: '2025-03-01T10:00:00Z',
+  updatedAt: '2025-03-01T10:00:00Z',
+  ...overrides
+})
+
+const leadHours = (hours = 24) =>
+  Object.fromEntries(APPOINTMENT_TYPES.map(type => [type, hours])) as ReminderSettings['leadHours']
+
+const clients: Client[] = [
+  { id: 1, firstName: 'Ana', lastName: 'López', email: 'ana@example.com', phone: '' } as Client,
+  { id: 2, firstName: 'Luis', lastName: 'Pérez', email: 'luis@example.com', phone: '' } as Client,
+  { id: 3, firstName: 'Sin', lastName: 'Email', email: '', phone: '555 000 1111' } as Client
+]
+const pets: Pet[] = [{ id: 1, clientId: 1, name: 'Luna' } as Pet, { id: 2, clientId: 2, name: 'Toby' } as Pet]
+
+/** In-memory data with the claim semantics of claimAppointmentReminder */
+const createSource = (appointments: Appointment[], settings: Partial<ReminderSettings> = {}) => {
+  const claimed = new Set<string>()
+  const released: number[] = []
+  const source: ReminderDataSource = {
+    getSettings: async () => ({ enabled: true, leadHours: leadHours(), clinicName: 'Huellitas', ...settings }),
+    getAppointments: async (start, end) => appointments.filter(a => a.date >= start && a.date <= end),
+    getClient: async id => clients.find(c => c.id === id),
+    getPet: async id => pets.find(p => p.id === id),
+    claimReminder: async apt => {
+      const key = `${apt.id} ${reminderSlot(apt)}`
+      if (claimed.has(key)) return false
+      claimed.add(key)
+      return true
+    },
+    releaseReminder: async apt => {
+      claimed.delete(`${apt.id} ${reminderSlot(apt)}`)
+      released.push(apt.id!)
+    }
+  }
+  return { source, claimed, released }
+}
+
+describe('findDueReminders', () => {
+  it('picks appointments starting within the lead time of their type', () => {
+    const due = findDueReminders([
+      appointment({ id: 1, time: '15:00' }),
+      appointment({ id: 2, date: '2025-03-11', time: '08:30' }),
+      appointment({ id: 3, date: '2025-03-11', time: '09:30' }),
+      appointment({ id: 4, time: '08:00' })
+    ], leadHours(24), NOW)
+    expect(due.map(a => a.id)).toEqual([1, 2])
+  })
+
+  it('uses the lead time of each type and skips types set to 0', () => {
+    const hours = { ...leadHours(2), surgery: 48, grooming: 0 }
+    const due = findDueReminders([
+      appointment({ id: 1, time: '10:30' }),
+      appointment({ id: 2, time: '12:00' }),
+      appointment({ id: 3, date: '2025-03-11', time: '18:00', type: 'surgery' }),
+      appointment({ id: 4, time: '10:00', type: 'grooming' })
+    ], hours, NOW)
+    expect(due.map(a => a.id)).toEqual([1, 3])
+  })
+
+  it('skips closed appointments and reminders already sent for the current slot', () => {
+    const due = findDueReminders([
+      appointment({ id: 1, status: 'cancelled' }),
+      appointment({ id: 2, status: 'completed' }),
+      appointment({ id: 3, status: 'confirmed' }),
+      appointment({ id: 4, reminderSent: true, reminderSentFor: '2025-03-10 15:00' }),
+      appointment({ id: 5, reminderSent: true }),
+      appointment({ id: 6, reminderSent: true, reminderSentFor: '2025-03-12 10:00' })
+    ], leadHours(24), NOW)
+    expect(due.map(a => a.id)).toEqual([3, 6])
+  })
+})
+
+describe('runReminders', () => {
+  it('sends the due reminders through the mailer and claims them', async () => {
+    const mailer = createMockMailer()
+    const { source, claimed } = createSource([
+      appointment({ id: 1, time: '15:00' }),
+      appointment({ id: 2, date: '2025-03-20', clientId: 2, petId: 2 })
+    ])
+
+    const result = await runReminders({ clock, mailer, source })
+
+    expect(result).toEqual({ sent: 1, failed: 0, skipped: 0, errors: [] })
+    expect(mailer.sent).toHaveLength(1)
+    expect(mailer.sent[0]).toMatchObject({
+      appointment: { id: 1 },
+      client: { email: 'ana@example.com' },
+      pet: { name: 'Luna' },
+      clinicName: 'Huellitas'
+    })
+    expect([...claimed]).toEqual(['1 2025-03-10 15:00'])
+  })
+
+  it('does not send a reminder another device already claimed', async () => {
+    const mailer = createMockMailer()
+    const { source } = createSource([appointment({ id: 1 }), appointment({ id: 2, clientId: 2, petId: 2 })])
+    await source.claimReminder(appointment({ id: 1 }))
+
+    const result = await runReminders({ clock, mailer, source })
+
+    expect(result.sent).toBe(1)
+    expect(mailer.sent.map(data => data.appointment.id)).toEqual([2])
+  })
+
+  it('sends each reminder once across overlapping passes', async () => {
+    const mailer = createMockMailer()
+    const { source } = createSource([appointment({ id: 1 })])
+
+    const results = await Promise.all([
+      runReminders({ clock, mailer, source }),
+      runReminders({ clock, mailer, source })
+    ])
+
+    expect(results.map(r => r.sent).sort()).toEqual([0, 1])
+    expect(mailer.sent).toHaveLength(1)
+  })
+
+  it('reports failed sends and releases their claim for the next pass', async () => {
+    const mailer = createMockMailer({ failFor: ['luis@example.com'] })
+    const { source, claimed, released } = createSource([
+      appointment({ id: 1 }),
+      appointment({ id: 2, clientId: 2, petId: 2 })
+    ])
+    const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {})
+
+    const result = await runReminders({ clock, mailer, source })
+
+    expect(result.sent).toBe(1)
+    expect(result.failed).toBe(1)
+    expect(result.errors).toHaveLength(1)
+    expect(result.errors[0].appointment.id).toBe(2)
+    expect(result.errors[0].message).toContain('luis@example.com')
+    expect(released).toEqual([2])
+    expect([...claimed]).toEqual(['1 2025-03-10 15:00'])
+
+    const retry = await runReminders({ clock, mailer: createMockMailer(), source })
+    expect(retry.sent).toBe(1)
+    consoleError.mockRestore()
+  })
+
+  it('skips clients the mailer cannot reach without claiming them', async () => {
+    const mailer = createMockMailer()
+    const { source, claimed } = createSource([appointment({ id: 1, clientId: 3 }), appointment({ id: 2, petId: 9 })])
+
+    const result = await runReminders({ clock, mailer, source })
+
+    expect(result).toMatchObject({ sent: 0, failed: 0, skipped: 2 })
+    expect(claimed.size).toBe(0)
+  })
+
+  it('does nothing when reminders are turned off', async () => {
+    const mailer = createMockMailer()
+    const { source } = createSource([appointment()], { enabled: false })
+
+    expect(await runReminders({ clock, mailer, source })).toEqual({ sent: 0, failed: 0, skipped: 0, errors: [] })
+    expect(mailer.sent).toHaveLength(0)
+  })
+})
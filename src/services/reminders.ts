@@ -0,0 +1,254 @@
+// Appointment reminder engine
+// Finds appointments starting within the configured lead time for their type, claims each reminder (sets
+// reminderSent) and sends it on the client's channels. Clock, mailer and data access are injectable so the engine can run
+// against fixed dates and a mock mailer.
+
+import {
+  getAppointmentsByDateRange,
+  getClientById,
+  getPetById,
+  getAllSettings,
+  claimAppointmentReminder,
+  releaseAppointmentReminder
+} from '../db/supabase'
+import { isEmailEnabled, sendAppointmentReminder, type AppointmentEmailData } from './mail'
+import { notifyAppointment, canNotifyClients, routeChannels, loadMessagingConfig } from './messaging'
+import { handleGoogleError } from './google'
+import { toDateString } from './dates'
+import { useAuthStore } from '../stores/authStore'
+import type { Appointment, Client, Pet } from '../db/types'
+
+export const APPOINTMENT_TYPES: Appointment['type'][] = [
+  'consultation', 'vaccination', 'surgery', 'grooming', 'emergency', 'follow-up'
+]
+
+export const DEFAULT_REMINDER_HOURS = 24
+
+// Settings key holding the lead time (hours) for each appointment type
+export const reminderHoursKey = (type: Appointment['type']): string => `reminder_hours_${type}`
+
+export interface ReminderClock {
+  now: () => Date
+}
+
+export interface ReminderMailer {
+  send: (data: AppointmentEmailData) => Promise<unknown>
+  // Whether the client can be reached at all; defaults to having an email address
+  canReach?: (client: Client) => Promise<boolean>
+}
+
+export interface ReminderSettings {
+  enabled: boolean
+  leadHours: Record<Appointment['type'], number>
+  clinicName?: string
+  clinicPhone?: string
+  clinicAddress?: string
+}
+
+export interface ReminderDataSource {
+  getSettings: () => Promise<ReminderSettings>
+  getAppointments: (startDate: string, endDate: string) => Promise<Appointment[]>
+  getClient: (id: number) => Promise<Client | undefined>
+  getPet: (id: number) => Promise<Pet | undefined>
+  // Marks the reminder sent unless another device already did; false when it lost the race
+  claimReminder: (appointment: Appointment) => Promise<boolean>
+  // Undoes a claim whose send failed
+  releaseReminder: (appointment: Appointment) => Promise<void>
+}
+
+export interface ReminderRunResult {
+  sent: number
+  failed: number
+  skipped: number
+  errors: { appointment: Appointment; client: Client; message: string }[] // one per failed send
+}
+
+export const systemClock: ReminderClock = {
+  now: () => new Date()
+}
+
+export const gmailMailer: ReminderMailer = {
+  send: (data) => sendAppointmentReminder(data)
+}
+
+/**
+ * Reminders on each client's preferred channels (email, SMS, WhatsApp)
+ */
+export const channelMailer: ReminderMailer = {
+  send: (data) => notifyAppointment('reminder', data),
+  canReach: async (client) => {
+    const [config, emailEnabled] = await Promise.all([loadMessagingConfig(), isEmailEnabled()])
+    return routeChannels(client, config, emailEnabled).length > 0
+  }
+}
+
+/**
+ * Mailer that records messages instead of sending them (development and tests)
+ */
+export const createMockMailer = (options: { failFor?: string[] } = {}): ReminderMailer & { sent: AppointmentEmailData[] } => {
+  const sent: AppointmentEmailData[] = []
+  return {
+    sent,
+    send: async (data) => {
+      if (options.failFor?.includes(data.client.email)) {
+        throw new Error(`Mock mailer: delivery to ${data.client.email} failed`)
+      }
+      sent.push(data)
+      return { id: `mock-${sent.length}` }
+    }
+  }
+}
+
+/**
+ * Reminder data backed by the Supabase data layer and clinic settings
+ */
+export const supabaseReminderSource: ReminderDataSource = {
+  getSettings: async () => {
+    const settings = await getAllSettings()
+    const value = (key: string) => settings.find(s => s.key === key)?.value
+    const leadHours = {} as Record<Appointment['type'], number>
+    for (const type of APPOINTMENT_TYPES) {
+      const hours = parseFloat(value(reminderHoursKey(type)) ?? '')
+      leadHours[type] = Number.isFinite(hours) ? hours : DEFAULT_REMINDER_HOURS
+    }
+    return {
+      enabled: value('reminders_enabled') !== 'false',
+      leadHours,
+      clinicName: value('clinicName') || undefined,
+      clinicPhone: value('clinicPhone') || undefined,
+      clinicAddress: value('clinicAddress') || undefined
+    }
+  },
+  getAppointments: getAppointmentsByDateRange,
+  getClient: getClientById,
+  getPet: getPetById,
+  claimReminder: (appointment) => claimAppointmentReminder(appointment, reminderSlot(appointment)),
+  releaseReminder: (appointment) => releaseAppointmentReminder(appointment, reminderSlot(appointment))
+}
+
+/**
+ * Local start time of an appointment (date YYYY-MM-DD + time HH:mm)
+ */
+export const getAppointmentStart = (appointment: Appointment): Date => {
+  const [year, month, day] = appointment.date.split('-').map(Number)
+  const [hours, minutes] = (appointment.time || '00:00').split(':').map(Number)
+  return new Date(year, month - 1, day, hours || 0, minutes || 0)
+}
+
+/**
+ * Slot a reminder is sent for; a reminder sent for another slot (the appointment moved) doesn't count
+ */
+export const reminderSlot = (appointment: Pick<Appointment, 'date' | 'time'>): string =>
+  `${appointment.date} ${appointment.time}`
+
+export const hasCurrentReminder = (appointment: Appointment): boolean =>
+  !!appointment.reminderSent &&
+  (!appointment.reminderSentFor || appointment.reminderSentFor === reminderSlot(appointment))
+
+/**
+ * Appointments that should get their reminder now: not cancelled or done, not reminded for their
+ * current slot yet, and starting within the lead time for their type. A lead time of 0 disables the type.
+ */
+export const findDueReminders = (
+  appointments: Appointment[],
+  leadHours: Record<Appointment['type'], number>,
+  now: Date
+): Appointment[] => {
+  return appointments.filter(apt => {
+    if (hasCurrentReminder(apt)) return false
+    if (apt.status !== 'scheduled' && apt.status !== 'confirmed') return false
+    const hours = leadHours[apt.type] ?? DEFAULT_REMINDER_HOURS
+    if (hours <= 0) return false
+    const msUntilStart = getAppointmentStart(apt).getTime() - now.getTime()
+    return msUntilStart > 0 && msUntilStart <= hours * 60 * 60 * 1000
+  })
+}
+
+/**
+ * Run one reminder pass. Each reminder is claimed before sending, so when several devices run passes at
+ * the same time only one sends it. Failed sends are released (reminderSent = false) so the next pass
+ * retries them.
+ */
+export const runReminders = async ({
+  clock = systemClock,
+  mailer = channelMailer,
+  source = supabaseReminderSource
+}: {
+  clock?: ReminderClock
+  mailer?: ReminderMailer
+  source?: ReminderDataSource
+} = {}): Promise<ReminderRunResult> => {
+  const result: ReminderRunResult = { sent: 0, failed: 0, skipped: 0, errors: [] }
+  const settings = await source.getSettings()
+  if (!settings.enabled) return result
+
+  const now = clock.now()
+  const maxHours = Math.max(0, ...Object.values(settings.leadHours))
+  if (maxHours <= 0) return result
+  const horizon = new Date(now.getTime() + maxHours * 60 * 60 * 1000)
+  const appointments = await source.getAppointments(toDateString(now), toDateString(horizon))
+
+  for (const appointment of findDueReminders(appointments, settings.leadHours, now)) {
+    const [client, pet] = await Promise.all([
+      source.getClient(appointment.clientId),
+      source.getPet(appointment.petId)
+    ])
+    const reachable = client && (mailer.canReach ? await mailer.canReach(client) : !!client.email)
+    if (!reachable || !pet) {
+      result.skipped++
+      continue
+    }
+    if (!(await source.claimReminder(appointment))) continue // another device sends it
+    try {
+      await mailer.send({
+        appointment,
+        client,
+        pet,
+        clinicName: settings.clinicName,
+        clinicPhone: settings.clinicPhone,
+        clinicAddress: settings.clinicAddress
+      })
+      result.sent++
+    } catch (error) {
+      const googleError = handleGoogleError(error, 'gmail')
+      console.error(`Failed to send reminder for appointment ${appointment.id}:`, googleError)
+      result.failed++
+      result.errors.push({ appointment, client, message: googleError.message })
+      await source.releaseReminder(appointment).catch(err => console.error(`Failed to release reminder for appointment ${appointment.id}:`, err))
+    }
+  }
+
+  return result
+}
+
+const REMINDER_INTERVAL_MS = 5 * 60 * 1000
+
+/**
+ * Run reminders on a timer. In the desktop app the timer lives in the Electron main process,
+ * which asks this window to run a pass (the window owns the Supabase session and Google token).
+ * In the browser a window interval is used instead. Returns a cleanup function.
+ */
+export const startReminderScheduler = (onRun?: (result: ReminderRunResult) => void): (() => void) => {
+  let running = false
+
+  const tick = async () => {
+    if (running || !useAuthStore.getState().isAuthenticated) return
+    running = true
+    try {
+      if (!(await canNotifyClients())) return
+      const result = await runReminders()
+      if (result.sent > 0 || result.failed > 0) onRun?.(result)
+    } catch (error) {
+      console.error('Reminder run failed:', error)
+    } finally {
+      running = false
+    }
+  }
+
+  tick()
+  if (window.electronAPI?.onRunReminders) {
+    return window.electronAPI.onRunReminders(tick)
+  }
+  const interval = window.setInterval(tick, REMINDER_INTERVAL_MS)
+  return () => window.clearInterval(interval)
+}
@@ -0,0 +1,240 @@
+// Scheduling validator - clinic hours, holidays, vet availability and overlapping appointments
+// Used by the appointment form (warnings + suggested slots), the appointment store and calendar drag-and-drop.
+
+import { getAllSettings } from '../db/supabase'
+import { getWorkingHours, isSameVet } from './vetSchedule'
+import { addDays, getWeekday, minutesToTime, toDateString, toMinutes, toTimeOfDay } from './dates'
+import type { Appointment, Setting, Veterinarian, WorkingHours } from '../db/types'
+
+export type SchedulingIssueType =
+  | 'closed'
+  | 'holiday'
+  | 'outside_hours'
+  | 'vet_unavailable'
+  | 'vet_overlap'
+  | 'pet_overlap'
+  | 'room_overlap'
+
+export interface SchedulingIssue {
+  type: SchedulingIssueType
+  message: string
+  appointmentId?: number // the appointment it collides with
+}
+
+export interface SlotRequest {
+  date: string
+  time: string
+  duration: number
+  petId: number
+  type: Appointment['type']
+  veterinarianId?: number
+  veterinarian?: string
+  excludeId?: number // appointment being edited
+}
+
+export interface SchedulingRules {
+  clinicHours: Partial<Record<number, WorkingHours>> // by weekday, 0 = Sunday; missing day = closed
+  holidays: string[] // YYYY-MM-DD
+  singleRoomTypes: Appointment['type'][] // types that share one room (e.g. the operating room)
+}
+
+export interface SuggestedSlot {
+  date: string
+  time: string
+}
+
+export const CLINIC_HOURS_KEY = 'clinic_hours'
+export const CLINIC_HOLIDAYS_KEY = 'clinic_holidays'
+export const SINGLE_ROOM_TYPES_KEY = 'single_room_types'
+
+export const DEFAULT_CLINIC_HOURS: SchedulingRules['clinicHours'] = {
+  1: { start: '08:00', end: '20:00' },
+  2: { start: '08:00', end: '20:00' },
+  3: { start: '08:00', end: '20:00' },
+  4: { start: '08:00', end: '20:00' },
+  5: { start: '08:00', end: '20:00' },
+  6: { start: '09:00', end: '14:00' }
+}
+
+const SLOT_STEP = 15 // minutes between suggested start times
+const SUGGESTION_DAYS = 14
+
+export class SchedulingConflictError extends Error {
+  issues: SchedulingIssue[]
+
+  constructor(issues: SchedulingIssue[]) {
+    super(issues.map(i => i.message).join('\n'))
+    this.name = 'SchedulingConflictError'
+    this.issues = issues
+  }
+}
+
+const parseJson = <T>(value: string | undefined, fallback: T): T => {
+  if (!value) return fallback
+  try {
+    return JSON.parse(value) as T
+  } catch {
+    return fallback
+  }
+}
+
+/** Clinic hours, holidays and single-room types from settings rows (defaults when not configured). */
+export const rulesFromSettings = (settings: Pick<Setting, 'key' | 'value'>[]): SchedulingRules => {
+  const get = (key: string) => settings.find(s => s.key === key)?.value
+  return {
+    clinicHours: parseJson(get(CLINIC_HOURS_KEY), DEFAULT_CLINIC_HOURS),
+    holidays: parseJson<string[]>(get(CLINIC_HOLIDAYS_KEY), []),
+    singleRoomTypes: (get(SINGLE_ROOM_TYPES_KEY) ?? 'surgery')
+      .split(',')
+      .map(t => t.trim())
+      .filter(Boolean) as Appointment['type'][]
+  }
+}
+
+export const loadSchedulingRules = async (): Promise<SchedulingRules> =>
+  rulesFromSettings(await getAllSettings())
+
+// Appointments that still occupy their slot
+const isBlocking = (apt: Appointment): boolean =>
+  apt.status !== 'cancelled' && apt.status !== 'no-show'
+
+const overlaps = (apt: Appointment, date: string, start: number, end: number): boolean =>
+  apt.date === date && toMinutes(apt.time) < end && toMinutes(apt.time) + (apt.duration || 30) > start
+
+const findVet = (request: SlotRequest, veterinarians: Veterinarian[]): Veterinarian | undefined =>
+  request.veterinarianId != null
+    ? veterinarians.find(v => v.id === request.veterinarianId)
+    : request.veterinarian
+      ? veterinarians.find(v => v.name === request.veterinarian)
+      : undefined
+
+/**
+ * Everything wrong with a slot: clinic closed or outside opening hours, holiday, vet off duty,
+ * and overlaps with the same vet, the same pet or another appointment needing the same room.
+ */
+export const validateSlot = (
+  request: SlotRequest,
+  appointments: Appointment[],
+  veterinarians: Veterinarian[],
+  rules: SchedulingRules
+): SchedulingIssue[] => {
+  const issues: SchedulingIssue[] = []
+  const start = toMinutes(request.time)
+  const end = start + (request.duration || 30)
+
+  if (rules.holidays.includes(request.date)) {
+    issues.push({ type: 'holiday', message: `La clínica está cerrada el ${request.date} (feriado)` })
+  } else {
+    const hours = rules.clinicHours[getWeekday(request.date)]
+    if (!hours) {
+      issues.push({ type: 'closed', message: 'La clínica está cerrada ese día' })
+    } else if (start < toMinutes(hours.start) || end > toMinutes(hours.end)) {
+      issues.push({ type: 'outside_hours', message: `Fuera del horario de la clínica (${hours.start}-${hours.end})` })
+    }
+  }
+
+  const vet = findVet(request, veterinarians)
+  if (vet) {
+    const vetHours = getWorkingHours(vet, request.date)
+    if (!vetHours || start < toMinutes(vetHours.start) || end > toMinutes(vetHours.end)) {
+      issues.push({
+        type: 'vet_unavailable',
+        message: vetHours
+          ? `${vet.name} trabaja de ${vetHours.start} a ${vetHours.end} ese día`
+          : `${vet.name} no trabaja ese día`
+      })
+    }
+  }
+
+  const others = appointments.filter(a =>
+    a.id !== request.excludeId && isBlocking(a) && overlaps(a, request.date, start, end)
+  )
+  for (const apt of others) {
+    const sameVet = vet ? isSameVet(apt, vet) : !!request.veterinarian && apt.veterinarian === request.veterinarian
+    if (sameVet) {
+      issues.push({
+        type: 'vet_overlap',
+        message: `${vet?.name ?? request.veterinarian} ya tiene una cita a las ${apt.time} (${apt.duration} min)`,
+        appointmentId: apt.id
+      })
+    }
+    if (apt.petId === request.petId) {
+      issues.push({
+        type: 'pet_overlap',
+        message: `La mascota ya tiene una cita a las ${apt.time}`,
+        appointmentId: apt.id
+      })
+    }
+    if (apt.type === request.type && rules.singleRoomTypes.includes(request.type)) {
+      issues.push({
+        type: 'room_overlap',
+        message: `La sala de ${request.type} está ocupada a las ${apt.time}`,
+        appointmentId: apt.id
+      })
+    }
+  }
+
+  return issues
+}
+
+/** validateSlot for every session of a series; each message starts with the session date. */
+export const validateSeries = (
+  requests: SlotRequest[],
+  appointments: Appointment[],
+  veterinarians: Veterinarian[],
+  rules: SchedulingRules
+): SchedulingIssue[] =>
+  requests.flatMap(request =>
+    validateSlot(request, appointments, veterinarians, rules)
+      .map(issue => ({ ...issue, message: `${request.date}: ${issue.message}` }))
+  )
+
+/** validateSlot with the rules from settings. */
+export const checkSlot = async (
+  request: SlotRequest,
+  appointments: Appointment[],
+  veterinarians: Veterinarian[]
+): Promise<SchedulingIssue[]> =>
+  validateSlot(request, appointments, veterinarians, await loadSchedulingRules())
+
+/** Local date and HH:mm of a calendar Date (drag-and-drop start). */
+export const slotFromDate = (start: Date): SuggestedSlot => ({
+  date: toDateString(start),
+  time: toTimeOfDay(start)
+})
+
+/**
+ * Nearest free slots to the requested one: same day first (closest start time, earlier or later),
+ * then the following days from opening time.
+ */
+export const suggestFreeSlots = (
+  request: SlotRequest,
+  appointments: Appointment[],
+  veterinarians: Veterinarian[],
+  rules: SchedulingRules,
+  count: number = 3
+): SuggestedSlot[] => {
+  const suggestions: SuggestedSlot[] = []
+  const requested = toMinutes(request.time)
+
+  for (let day = 0; day < SUGGESTION_DAYS && suggestions.length < count; day++) {
+    const date = addDays(request.date, day)
+    const hours = rules.clinicHours[getWeekday(date)]
+    if (!hours || rules.holidays.includes(date)) continue
+
+    const candidates: number[] = []
+    for (let t = toMinutes(hours.start); t + request.duration <= toMinutes(hours.end); t += SLOT_STEP) {
+      candidates.push(t)
+    }
+    if (day === 0) candidates.sort((a, b) => Math.abs(a - requested) - Math.abs(b - requested))
+
+    for (const t of candidates) {
+      const slot = { ...request, date, time: minutesToTime(t) }
+      if (validateSlot(slot, appointments, veterinarians, rules).length === 0) {
+        suggestions.push({ date, time: slot.time })
+        if (suggestions.length >= count) break
+      }
+    }
+  }
+  return suggestions
+}
@@ -0,0 +1,128 @@
+// Staff notifications - what the header bell reports: appointments starting soon, vaccines coming due,
+// low stock, online bookings to confirm, and failed Google syncs / client messages
+
+import { isOnlineBooking } from './booking'
+import { toDateString } from './dates'
+import { getAppointmentTypeLabel, type EmailTemplateKind } from './emailTemplates'
+import type { Appointment, CreateStaffNotificationInput, InventoryItem, Vaccine } from '../db/types'
+
+export const UPCOMING_APPOINTMENT_MINUTES = 60
+export const VACCINE_DUE_DAYS = 7
+export const LOW_STOCK_THRESHOLD = 5
+
+export interface NotificationSources {
+  appointments: Appointment[]
+  vaccines: Vaccine[]
+  items: InventoryItem[]
+  clientName: (clientId: number) => string
+  petName: (petId: number) => string
+  now?: Date
+}
+
+const appointmentStart = (appointment: Pick<Appointment, 'date' | 'time'>) =>
+  new Date(`${appointment.date}T${appointment.time}`)
+
+/** Range of dates checked for vaccines coming due, from today */
+export const vaccineDueRange = (now = new Date()): { from: string; to: string } => {
+  const until = new Date(now)
+  until.setDate(until.getDate() + VACCINE_DUE_DAYS)
+  return { from: toDateString(now), to: toDateString(until) }
+}
+
+/**
+ * Notifications for the current state of the clinic. Keys are stable, so running the check again
+ * does not repeat them; a low stock item that is restocked and runs low again (new quantity) does.
+ */
+export const collectStaffNotifications = ({
+  appointments,
+  vaccines,
+  items,
+  clientName,
+  petName,
+  now = new Date()
+}: NotificationSources): CreateStaffNotificationInput[] => {
+  const notifications: CreateStaffNotificationInput[] = []
+  const today = toDateString(now)
+  const soonLimit = now.getTime() + UPCOMING_APPOINTMENT_MINUTES * 60 * 1000
+
+  for (const appointment of appointments) {
+    if (!appointment.id) continue
+    const active = appointment.status === 'scheduled' || appointment.status === 'confirmed'
+    if (!active) continue
+
+    const start = appointmentStart(appointment).getTime()
+    if (start >= now.getTime() && start <= soonLimit) {
+      notifications.push({
+        kind: 'appointment_soon',
+        key: `appointment_soon:${appointment.id}:${appointment.date}T${appointment.time}`,
+        title: `Cita a las ${appointment.time.slice(0, 5)}`,
+        body: `${getAppointmentTypeLabel(appointment.type)} de ${petName(appointment.petId)} (${clientName(appointment.clientId)})`,
+        link: '/appointments'
+      })
+    }
+
+    if (appointment.status === 'scheduled' && appointment.date >= today && isOnlineBooking(appointment)) {
+      notifications.push({
+        kind: 'online_booking',
+        key: `online_booking:${appointment.id}`,
+        title: 'Reserva online por confirmar',
+        body: `${petName(appointment.petId)} (${clientName(appointment.clientId)}) - ${appointment.date} ${appointment.time.slice(0, 5)}`,
+        link: '/appointments'
+      })
+    }
+  }
+
+  for (const vaccine of vaccines) {
+    if (!vaccine.id || !vaccine.nextDueDate) continue
+    notifications.push({
+      kind: 'vaccine_due',
+      key: `vaccine_due:${vaccine.id}:${vaccine.nextDueDate}`,
+      title: `Vacuna próxima: ${vaccine.name}`,
+      body: `${petName(vaccine.petId)} - vence el ${vaccine.nextDueDate}`,
+      link: '/recalls'
+    })
+  }
+
+  for (const item of items) {
+    if (!item.id || (item.quantity ?? 0) >= LOW_STOCK_THRESHOLD) continue
+    notifications.push({
+      kind: 'low_stock',
+      key: `low_stock:${item.id}:${item.quantity ?? 0}`,
+      title: `Stock bajo: ${item.name}`,
+      body: `Quedan ${item.quantity ?? 0}${item.unit ? ` ${item.unit}` : ''}`,
+      link: '/inventory'
+    })
+  }
+
+  return notifications
+}
+
+/** Google Calendar sync failure - at most one per hour */
+export const syncFailedNotification = (message: string, now = new Date()): CreateStaffNotificationInput => ({
+  kind: 'sync_failed',
+  key: `sync_failed:${now.toISOString().slice(0, 13)}`,
+  title: 'Falló la sincronización con Google Calendar',
+  body: message,
+  link: '/settings'
+})
+
+const MESSAGE_LABELS: Record<EmailTemplateKind, string> = {
+  confirmation: 'la confirmación',
+  reminder: 'el recordatorio',
+  cancellation: 'el aviso de cancelación',
+  rescheduled: 'el aviso de cambio'
+}
+
+/** Appointment message to a client that could not be sent on any channel */
+export const messageFailedNotification = (
+  kind: EmailTemplateKind,
+  appointment: Pick<Appointment, 'id' | 'date' | 'time'>,
+  recipient: string,
+  message: string
+): CreateStaffNotificationInput => ({
+  kind: 'email_failed',
+  key: `email_failed:${kind}:${appointment.id}:${appointment.date}T${appointment.time}`,
+  title: `No se pudo enviar ${MESSAGE_LABELS[kind]}`,
+  body: `${recipient} - cita del ${appointment.date} ${appointment.time.slice(0, 5)}: ${message}`,
+  link: '/appointments'
+})
@@ -0,0 +1,222 @@
+// Vaccine protocols - per-species vaccination schedules (juvenile series, adult primary doses, boosters)
+// used to compute the next due date and the remaining boosters when a vaccine is recorded.
+// Kept free of database imports: db/supabase.ts applies it in addVaccine.
+
+import { addDays, addMonths, daysBetween, parseDate } from './dates'
+import type { Pet, Setting } from '../db/types'
+
+export interface VaccineProtocol {
+  id: string
+  name: string
+  aliases: string[] // other names found on records, e.g. "DA2PP", "Quíntuple"
+  species: Pet['species'][]
+  seriesAgesWeeks: number[] // juvenile series, e.g. [8, 12, 16]; empty = no juvenile series
+  seriesIntervalWeeks: number // minimum gap between series doses (juvenile and adult)
+  adultDoses: number // primary doses for animals first vaccinated after the juvenile series
+  boosterMonths: number // after the series is complete; 0 = no booster
+}
+
+export interface PlannedDose {
+  label: string
+  dueDate: string
+}
+
+export interface VaccinePlan {
+  protocol: VaccineProtocol
+  doseNumber: number // of the dose being recorded, counting earlier doses of the same protocol
+  nextDueDate?: string
+  boosters: PlannedDose[] // remaining doses, next one first
+  warnings: string[]
+}
+
+export const VACCINE_PROTOCOLS_KEY = 'vaccine_protocols'
+
+export const SPECIES_LABELS: Record<Pet['species'], string> = {
+  dog: 'Perro',
+  cat: 'Gato',
+  bird: 'Ave',
+  rabbit: 'Conejo',
+  hamster: 'Hámster',
+  fish: 'Pez',
+  reptile: 'Reptil',
+  other: 'Otro'
+}
+
+export const DEFAULT_VACCINE_PROTOCOLS: VaccineProtocol[] = [
+  {
+    id: 'dhpp',
+    name: 'DHPP',
+    aliases: ['DA2PP', 'DHLPP', 'Quíntuple', 'Múltiple', 'Moquillo', 'Parvovirus'],
+    species: ['dog'],
+    seriesAgesWeeks: [8, 12, 16],
+    seriesIntervalWeeks: 4,
+    adultDoses: 2,
+    boosterMonths: 12
+  },
+  {
+    id: 'rabies',
+    name: 'Rabia',
+    aliases: ['Rabies', 'Antirrábica'],
+    species: ['dog', 'cat'],
+    seriesAgesWeeks: [12],
+    seriesIntervalWeeks: 4,
+    adultDoses: 1,
+    boosterMonths: 12
+  },
+  {
+    id: 'leptospirosis',
+    name: 'Leptospirosis',
+    aliases: ['Lepto'],
+    species: ['dog'],
+    seriesAgesWeeks: [12, 16],
+    seriesIntervalWeeks: 4,
+    adultDoses: 2,
+    boosterMonths: 12
+  },
+  {
+    id: 'bordetella',
+    name: 'Bordetella',
+    aliases: ['Tos de las perreras', 'KC'],
+    species: ['dog'],
+    seriesAgesWeeks: [],
+    seriesIntervalWeeks: 4,
+    adultDoses: 1,
+    boosterMonths: 12
+  },
+  {
+    id: 'fvrcp',
+    name: 'FVRCP',
+    aliases: ['Triple felina', 'Trivalente felina'],
+    species: ['cat'],
+    seriesAgesWeeks: [8, 12, 16],
+    seriesIntervalWeeks: 4,
+    adultDoses: 2,
+    boosterMonths: 12
+  },
+  {
+    id: 'felv',
+    name: 'FeLV',
+    aliases: ['Leucemia felina'],
+    species: ['cat'],
+    seriesAgesWeeks: [8, 12],
+    seriesIntervalWeeks: 4,
+    adultDoses: 2,
+    boosterMonths: 12
+  }
+]
+
+export const vaccineProtocolsFromSettings = (settings: Pick<Setting, 'key' | 'value'>[]): VaccineProtocol[] => {
+  const raw = settings.find(s => s.key === VACCINE_PROTOCOLS_KEY)?.value
+  if (!raw) return DEFAULT_VACCINE_PROTOCOLS
+  try {
+    const saved = JSON.parse(raw)
+    return Array.isArray(saved) ? saved : DEFAULT_VACCINE_PROTOCOLS
+  } catch {
+    return DEFAULT_VACCINE_PROTOCOLS
+  }
+}
+
+const normalize = (name: string) =>
+  name.normalize('NFD').replace(/[\u0300-\u036f]/g, '').trim().toLowerCase()
+
+const weeksBetween = (from: string, to: string) => Math.floor(daysBetween(from, to) / 7)
+
+const isValidDate = (date?: string) => !!date && /^\d{4}-\d{2}-\d{2}$/.test(date) && !isNaN(parseDate(date).getTime())
+
+/**
+ * Protocol for a vaccine name (or alias), preferring one for the pet's species.
+ * A protocol for another species is still returned so the mismatch can be reported.
+ */
+export const matchVaccineProtocol = (
+  name: string,
+  species: Pet['species'],
+  protocols: VaccineProtocol[]
+): VaccineProtocol | undefined => {
+  const key = normalize(name)
+  if (!key) return undefined
+  const matches = protocols.filter(p => [p.name, ...p.aliases].some(n => normalize(n) === key))
+  return matches.find(p => p.species.includes(species)) ?? matches[0]
+}
+
+/**
+ * Remaining doses after the given ones (all doses of this protocol for the pet, any order).
+ * Juvenile series: one dose per series age, at least seriesIntervalWeeks apart, until the last age
+ * is reached. Animals first vaccinated past the series (or without a birth date) get adultDoses
+ * doses instead. Then a booster every boosterMonths.
+ */
+export const planVaccine = (
+  protocol: VaccineProtocol,
+  pet: Pick<Pet, 'species' | 'birthDate'>,
+  doseDates: string[]
+): VaccinePlan => {
+  const dates = [...doseDates].sort()
+  const warnings: string[] = []
+  const boosters: PlannedDose[] = []
+  const birth = isValidDate(pet.birthDate) ? pet.birthDate : undefined
+  const series = [...protocol.seriesAgesWeeks].sort((a, b) => a - b)
+  const interval = Math.max(1, protocol.seriesIntervalWeeks || 1) * 7
+
+  if (!protocol.species.includes(pet.species)) {
+    warnings.push(`${protocol.name} no está indicada para ${SPECIES_LABELS[pet.species].toLowerCase()}`)
+  }
+  if (dates.length === 0) {
+    return { protocol, doseNumber: 0, boosters, warnings }
+  }
+
+  const first = dates[0]
+  const last = dates[dates.length - 1]
+  if (birth && series.length > 0) {
+    const age = weeksBetween(birth, last)
+    if (age < 0) warnings.push('La fecha de aplicación es anterior al nacimiento')
+    else if (age < series[0]) warnings.push(`Aplicada a las ${age} semanas; el protocolo empieza a las ${series[0]}`)
+  } else if (!birth && series.length > 0) {
+    warnings.push('Sin fecha de nacimiento: se usa el esquema de adulto')
+  }
+
+  let cursor = last
+  let dose = dates.length
+  const juvenile = !!birth && series.length > 0 && weeksBetween(birth, first) < series[series.length - 1]
+
+  if (juvenile) {
+    for (;;) {
+      const age = weeksBetween(birth!, cursor)
+      const nextAge = series.find(a => a > age)
+      if (nextAge === undefined) break
+      const byAge = addDays(birth!, nextAge * 7)
+      const byInterval = addDays(cursor, interval)
+      cursor = byAge > byInterval ? byAge : byInterval
+      dose++
+      boosters.push({ label: `Dosis ${dose}`, dueDate: cursor })
+    }
+  } else {
+    while (dose < protocol.adultDoses) {
+      cursor = addDays(cursor, interval)
+      dose++
+      boosters.push({ label: `Dosis ${dose}`, dueDate: cursor })
+    }
+  }
+
+  if (protocol.boosterMonths > 0) {
+    boosters.push({ label: 'Refuerzo', dueDate: addMonths(cursor, protocol.boosterMonths) })
+  }
+
+  return { protocol, doseNumber: dates.length, nextDueDate: boosters[0]?.dueDate, boosters, warnings }
+}
+
+/**
+ * Plan for recording a new dose: matches the protocol and counts the pet's earlier doses of it
+ */
+export const planNewVaccine = (
+  vaccine: { name: string; dateAdministered: string },
+  pet: Pick<Pet, 'species' | 'birthDate'>,
+  history: { name: string; dateAdministered: string }[],
+  protocols: VaccineProtocol[]
+): VaccinePlan | undefined => {
+  const protocol = matchVaccineProtocol(vaccine.name, pet.species, protocols)
+  if (!protocol) return undefined
+  const earlier = history
+    .filter(v => matchVaccineProtocol(v.name, pet.species, protocols)?.id === protocol.id)
+    .map(v => v.dateAdministered)
+    .filter(date => date <= vaccine.dateAdministered)
+  return planVaccine(protocol, pet, [...earlier, vaccine.dateAdministered])
+}
@@ -0,0 +1,140 @@
+// Vaccine recalls - pets with vaccines due or overdue in a date window, grouped by owner,
+// and the first free slot to book the vaccination
+
+import { suggestFreeSlots, type SchedulingRules, type SuggestedSlot } from './scheduling'
+import { BOOKING_DURATIONS } from './booking'
+import { daysBetween, toDateString } from './dates'
+import type { Appointment, Client, Pet, Vaccine, VaccineRecall, Veterinarian } from '../db/types'
+
+export const RECALL_APPOINTMENT_DURATION = BOOKING_DURATIONS.vaccination ?? 15
+
+export interface DueVaccine {
+  vaccine: Vaccine
+  pet: Pet
+  daysOverdue: number // negative while still upcoming
+  appointment?: Appointment // vaccination already booked for the pet
+  lastRecall?: VaccineRecall
+}
+
+export interface RecallGroup {
+  client: Client
+  items: DueVaccine[]
+}
+
+export interface RecallSlot extends SuggestedSlot {
+  veterinarian?: Veterinarian
+}
+
+/** Window presets for the Recalls page, relative to today */
+export const recallWindow = (pastDays: number, futureDays: number, now = new Date()): { from: string; to: string } => {
+  const from = new Date(now)
+  from.setDate(from.getDate() - pastDays)
+  const to = new Date(now)
+  to.setDate(to.getDate() + futureDays)
+  return { from: toDateString(from), to: toDateString(to) }
+}
+
+/**
+ * Latest dose of each vaccine per pet - an older record's due date no longer counts once
+ * the pet has been vaccinated again
+ */
+export const latestDoses = (vaccines: Vaccine[]): Vaccine[] => {
+  const latest = new Map<string, Vaccine>()
+  for (const vaccine of vaccines) {
+    const key = `${vaccine.petId}:${vaccine.name.trim().toLowerCase()}`
+    const current = latest.get(key)
+    if (!current || vaccine.dateAdministered > current.dateAdministered) latest.set(key, vaccine)
+  }
+  return [...latest.values()]
+}
+
+/**
+ * Owners to recall: vaccines whose latest dose is due in [from, to], with any vaccination already
+ * booked and the last recall attempt. Groups and their pets are ordered by the earliest due date.
+ */
+export const findRecalls = ({
+  vaccines,
+  pets,
+  clients,
+  appointments,
+  recalls,
+  from,
+  to,
+  now = new Date()
+}: {
+  vaccines: Vaccine[]
+  pets: Pet[]
+  clients: Client[]
+  appointments: Appointment[]
+  recalls: VaccineRecall[]
+  from: string
+  to: string
+  now?: Date
+}): RecallGroup[] => {
+  const today = toDateString(now)
+  const petsById = new Map(pets.map(p => [p.id, p]))
+  const clientsById = new Map(clients.map(c => [c.id, c]))
+  const groups = new Map<number, RecallGroup>()
+
+  const due = latestDoses(vaccines)
+    .filter(v => v.nextDueDate && v.nextDueDate >= from && v.nextDueDate <= to)
+    .sort((a, b) => a.nextDueDate!.localeCompare(b.nextDueDate!))
+
+  for (const vaccine of due) {
+    const pet = petsById.get(vaccine.petId)
+    const client = pet && clientsById.get(pet.clientId)
+    if (!pet || !client) continue
+
+    const appointment = appointments
+      .filter(a =>
+        a.petId === pet.id && a.type === 'vaccination' && a.date >= today &&
+        (a.status === 'scheduled' || a.status === 'confirmed')
+      )
+      .sort((a, b) => `${a.date}T${a.time}`.localeCompare(`${b.date}T${b.time}`))[0]
+
+    const group = groups.get(client.id!) ?? { client, items: [] }
+    group.items.push({
+      vaccine,
+      pet,
+      daysOverdue: daysBetween(vaccine.nextDueDate!, today),
+      appointment,
+      lastRecall: recalls.find(r => r.vaccineId === vaccine.id) // recalls are newest first
+    })
+    groups.set(client.id!, group)
+  }
+
+  return [...groups.values()]
+}
+
+/**
+ * First free vaccination slot on or after the due date (from tomorrow when it is already due),
+ * with the vet who has it when the clinic uses a roster
+ */
+export const findVaccinationSlot = (
+  pet: Pet,
+  dueDate: string,
+  appointments: Appointment[],
+  veterinarians: Veterinarian[],
+  rules: SchedulingRules,
+  now = new Date()
+): RecallSlot | undefined => {
+  const tomorrow = new Date(now)
+  tomorrow.setDate(tomorrow.getDate() + 1)
+  const request = {
+    date: dueDate > toDateString(now) ? dueDate : toDateString(tomorrow),
+    time: '00:00', // earliest opening time first
+    duration: RECALL_APPOINTMENT_DURATION,
+    petId: pet.id!,
+    type: 'vaccination' as const
+  }
+
+  const active = veterinarians.filter(v => v.active)
+  if (active.length === 0) return suggestFreeSlots(request, appointments, veterinarians, rules, 1)[0]
+
+  return active
+    .flatMap((vet): RecallSlot[] => {
+      const [slot] = suggestFreeSlots({ ...request, veterinarianId: vet.id, veterinarian: vet.name }, appointments, veterinarians, rules, 1)
+      return slot ? [{ ...slot, veterinarian: vet }] : []
+    })
+    .sort((a, b) => `${a.date}T${a.time}`.localeCompare(`${b.date}T${b.time}`))[0]
+}
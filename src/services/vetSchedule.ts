@@ -0,0 +1,57 @@
+// Veterinarian availability - working hours, days off and overlapping appointments
+
+import { getWeekday, toMinutes } from './dates'
+import type { Appointment, Veterinarian, WorkingHours } from '../db/types'
+
+export const WEEKDAY_LABELS = ['Domingo', 'Lunes', 'Martes', 'Miércoles', 'Jueves', 'Viernes', 'Sábado']
+
+/** Hours the vet works on a date, or null on days off and non-working weekdays. */
+export const getWorkingHours = (vet: Pick<Veterinarian, 'active' | 'daysOff' | 'workingHours'>, date: string): WorkingHours | null => {
+  if (!vet.active || vet.daysOff.includes(date)) return null
+  return vet.workingHours[getWeekday(date)] ?? null
+}
+
+// Appointments that still occupy the vet's time
+const isBlocking = (apt: Appointment): boolean =>
+  apt.status !== 'cancelled' && apt.status !== 'no-show'
+
+export const isSameVet = (apt: Appointment, vet: Veterinarian): boolean =>
+  apt.veterinarianId != null ? apt.veterinarianId === vet.id : apt.veterinarian === vet.name
+
+/**
+ * Whether the vet works during the whole slot and has no other appointment overlapping it.
+ * excludeAppointmentId skips the appointment being edited.
+ */
+export const isVetAvailable = (
+  vet: Veterinarian,
+  appointments: Appointment[],
+  date: string,
+  time: string,
+  duration: number,
+  excludeAppointmentId?: number
+): boolean => {
+  const hours = getWorkingHours(vet, date)
+  if (!hours) return false
+  const start = toMinutes(time)
+  const end = start + duration
+  if (start < toMinutes(hours.start) || end > toMinutes(hours.end)) return false
+
+  return !appointments.some(apt =>
+    apt.id !== excludeAppointmentId &&
+    apt.date === date &&
+    isBlocking(apt) &&
+    isSameVet(apt, vet) &&
+    toMinutes(apt.time) < end &&
+    toMinutes(apt.time) + (apt.duration || 30) > start
+  )
+}
+
+export const getAvailableVeterinarians = (
+  vets: Veterinarian[],
+  appointments: Appointment[],
+  date: string,
+  time: string,
+  duration: number,
+  excludeAppointmentId?: number
+): Veterinarian[] =>
+  vets.filter(vet => isVetAvailable(vet, appointments, date, time, duration, excludeAppointmentId))
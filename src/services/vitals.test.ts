@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest'
+import { formatVital, hasSoapContent, validateVitals, vitalsHistory, VITAL_FIELDS } from './vitals'
+import type { MedicalRecord, Vitals } from '../db/types'
+
+const record = (id: number, createdAt: string | undefined, vitals: Vitals, soap: Partial<MedicalRecord> = {}): MedicalRecord =>
+  ({ id, appointmentId: id, petId: 1, vitals, createdAt, ...soap })
+
+const field = (key: keyof Vitals) => VITAL_FIELDS.find(f => f.key === key)!
+
+describe('validateVitals', () => {
+  it('accepts empty vitals and values within the ranges, limits included', () => {
+    expect(validateVitals({})).toEqual([])
+    expect(validateVitals({ weight: 0.01, temperature: 45, heartRate: 120, respiratoryRate: 4, bodyConditionScore: 9, painScore: 0 })).toEqual([])
+  })
+
+  it('rejects values outside the ranges', () => {
+    expect(validateVitals({ weight: 0, temperature: 45.1 })).toEqual([
+      'Peso must be between 0.01 and 150',
+      'Temperatura must be between 30 and 45'
+    ])
+    expect(validateVitals({ painScore: 11 })).toEqual(['Dolor must be between 0 and 10'])
+  })
+
+  it('rejects values that are not numbers', () => {
+    expect(validateVitals({ heartRate: NaN })).toEqual(['Frec. cardíaca must be between 10 and 400'])
+    expect(validateVitals({ weight: Infinity })).toEqual(['Peso must be between 0.01 and 150'])
+  })
+
+  it('requires whole numbers for rates and scores only', () => {
+    expect(validateVitals({ bodyConditionScore: 4.5, respiratoryRate: 20.5 })).toEqual([
+      'Frec. respiratoria must be a whole number',
+      'Condición corporal must be a whole number'
+    ])
+    expect(validateVitals({ weight: 12.35, temperature: 38.6 })).toEqual([])
+  })
+})
+
+describe('vitalsHistory', () => {
+  it('returns one point per record with vitals, oldest first', () => {
+    const history = vitalsHistory([
+      record(1, '2025-03-10T09:00:00Z', { weight: 12.4, temperature: 38.5 }),
+      record(2, '2025-01-05T16:30:00Z', { weight: 11.8 }),
+      record(3, '2025-02-01T10:00:00Z', {}, { subjective: 'Cojera' }),
+      record(4, undefined, { weight: 12 })
+    ])
+    expect(history).toEqual([
+      { date: '2025-01-05', weight: 11.8 },
+      { date: '2025-03-10', weight: 12.4, temperature: 38.5 }
+    ])
+  })
+})
+
+describe('hasSoapContent', () => {
+  it('counts SOAP sections, notes and vitals but not blank text', () => {
+    expect(hasSoapContent({ vitals: {} })).toBe(false)
+    expect(hasSoapContent({ subjective: '  ', notes: '\n', vitals: {} })).toBe(false)
+    expect(hasSoapContent({ plan: 'Control en 7 días', vitals: {} })).toBe(true)
+    expect(hasSoapContent({ notes: 'Sin cambios', vitals: {} })).toBe(true)
+    expect(hasSoapContent({ vitals: { painScore: 0 } })).toBe(true)
+  })
+})
+
+describe('formatVital', () => {
+  it('puts a space before units but not before scores', () => {
+    expect(formatVital(field('temperature'), 38.5)).toBe('38.5 °C')
+    expect(formatVital(field('bodyConditionScore'), 5)).toBe('5/9')
+  })
+})
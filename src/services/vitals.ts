@@ -0,0 +1,63 @@
+// Vitals and SOAP sections of a medical record - labels, units and valid ranges shared by the
+// appointment form, the record views and the vitals charts in PetDetail
+
+import type { MedicalRecord, Vitals } from '../db/types'
+
+export type SoapSection = 'subjective' | 'objective' | 'assessment' | 'plan'
+
+export const SOAP_SECTIONS: { key: SoapSection; label: string; placeholder: string }[] = [
+  { key: 'subjective', label: 'S - Subjetivo', placeholder: "Owner's complaint, history, symptoms" },
+  { key: 'objective', label: 'O - Objetivo', placeholder: 'Physical exam findings' },
+  { key: 'assessment', label: 'A - Evaluación', placeholder: 'Diagnosis / differentials' },
+  { key: 'plan', label: 'P - Plan', placeholder: 'Treatment, tests, follow-up' }
+]
+
+export interface VitalField {
+  key: keyof Vitals
+  label: string
+  unit: string
+  min: number
+  max: number
+  step: number
+  color: string // chart line
+}
+
+export const VITAL_FIELDS: VitalField[] = [
+  { key: 'weight', label: 'Peso', unit: 'kg', min: 0.01, max: 150, step: 0.01, color: '#0d9488' },
+  { key: 'temperature', label: 'Temperatura', unit: '°C', min: 30, max: 45, step: 0.1, color: '#ef4444' },
+  { key: 'heartRate', label: 'Frec. cardíaca', unit: 'lpm', min: 10, max: 400, step: 1, color: '#f59e0b' },
+  { key: 'respiratoryRate', label: 'Frec. respiratoria', unit: 'rpm', min: 4, max: 200, step: 1, color: '#3b82f6' },
+  { key: 'bodyConditionScore', label: 'Condición corporal', unit: '/9', min: 1, max: 9, step: 1, color: '#8b5cf6' },
+  { key: 'painScore', label: 'Dolor', unit: '/10', min: 0, max: 10, step: 1, color: '#ec4899' }
+]
+
+export const hasVitals = (vitals: Vitals) => VITAL_FIELDS.some(f => vitals[f.key] !== undefined)
+
+export const hasSoapContent = (record: Pick<MedicalRecord, SoapSection | 'notes' | 'vitals'>) =>
+  SOAP_SECTIONS.some(s => !!record[s.key]?.trim()) || !!record.notes?.trim() || hasVitals(record.vitals)
+
+export const formatVital = (field: VitalField, value: number) =>
+  `${value}${field.unit.startsWith('/') ? '' : ' '}${field.unit}`
+
+/** Values outside the field ranges (scores must also be whole numbers), as messages for the form */
+export const validateVitals = (vitals: Vitals): string[] =>
+  VITAL_FIELDS.flatMap(field => {
+    const value = vitals[field.key]
+    if (value === undefined) return []
+    if (!Number.isFinite(value) || value < field.min || value > field.max) {
+      return [`${field.label} must be between ${field.min} and ${field.max}`]
+    }
+    if (field.step === 1 && !Number.isInteger(value)) return [`${field.label} must be a whole number`]
+    return []
+  })
+
+export interface VitalsPoint extends Vitals {
+  date: string
+}
+
+/** One chart point per record with vitals, oldest first */
+export const vitalsHistory = (records: MedicalRecord[]): VitalsPoint[] =>
+  records
+    .filter(r => r.createdAt && hasVitals(r.vitals))
+    .map(r => ({ date: r.createdAt!.split('T')[0], ...r.vitals }))
+    .sort((a, b) => a.date.localeCompare(b.date))
@@ -0,0 +1,47 @@
+// Waitlist matcher - which waitlisted clients fit a slot freed by a cancellation, and claim links for offers
+
+import { toMinutes } from './dates'
+import type { Appointment, WaitlistEntry } from '../db/types'
+
+// Public URL of the web app (claim and booking links are opened by clients, outside the desktop app)
+export const PUBLIC_APP_URL = import.meta.env.VITE_PUBLIC_APP_URL || window.location.origin
+
+// How long an emailed offer stays claimable
+export const DEFAULT_OFFER_HOURS = 24
+
+export type FreedSlot = Pick<Appointment, 'id' | 'date' | 'time' | 'duration' | 'type' | 'veterinarian' | 'veterinarianId'>
+
+/**
+ * Waitlist entries that fit the freed slot, longest waiting first: same appointment type,
+ * slot inside the preferred date range and time window, enough time for the visit,
+ * preferred vet (if any) matches, and the pet has no other appointment at that time.
+ */
+export const findWaitlistMatches = (
+  slot: FreedSlot,
+  entries: WaitlistEntry[],
+  appointments: Appointment[]
+): WaitlistEntry[] => {
+  const start = toMinutes(slot.time)
+  const length = slot.duration || 30
+  return entries
+    .filter(entry => {
+      if (entry.status !== 'waiting' && entry.status !== 'offered') return false
+      if (entry.type !== slot.type) return false
+      if (slot.date < entry.dateFrom || slot.date > entry.dateTo) return false
+      if (entry.duration > length) return false
+      if (start < toMinutes(entry.timeFrom) || start + entry.duration > toMinutes(entry.timeTo)) return false
+      if (entry.veterinarianId != null && entry.veterinarianId !== slot.veterinarianId) return false
+      return !appointments.some(apt =>
+        apt.petId === entry.petId &&
+        apt.date === slot.date &&
+        apt.status !== 'cancelled' && apt.status !== 'no-show' &&
+        toMinutes(apt.time) < start + entry.duration &&
+        toMinutes(apt.time) + (apt.duration || 30) > start
+      )
+    })
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+}
+
+/** Link the client opens to claim an offer. */
+export const getClaimUrl = (token: string): string =>
+  `${PUBLIC_APP_URL.replace(/\/$/, '')}/claim/${token}`
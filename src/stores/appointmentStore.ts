@@ -2,20 +2,29 @@ import { create } from 'zustand'
 import { Client } from './clientStore'
 import { Pet } from './petStore'
 import { useAuthStore } from './authStore'
+import { useVeterinarianStore } from './veterinarianStore'
+import { useWaitlistStore } from './waitlistStore'
+import { useNotificationStore } from './notificationStore'
+import { checkSlot, loadSchedulingRules, validateSeries, SchedulingConflictError } from '../services/scheduling'
+import { expandRecurrence, toRRule, getInstanceEventId } from '../services/recurrence'
+import { addDays, daysBetween } from '../services/dates'
 import {
   createCalendarEvent,
   updateCalendarEvent,
-  deleteCalendarEvent,
-  fetchCalendarEvents,
-  isCalendarAvailable
+  deleteCalendarEvent
 } from '../services/google/calendar'
 import {
-  sendAppointmentConfirmation,
-  sendAppointmentReminder,
-  sendAppointmentCancellation,
-  sendAppointmentRescheduled
-} from '../services/google/gmail'
+  syncCalendar,
+  loadCalendarSyncState,
+  queueCalendarEventDelete,
+  resolveCalendarConflict as resolveConflict,
+  type CalendarConflict
+} from '../services/google/calendarSync'
+import { sendAppointmentReminder } from '../services/mail'
+import { notifyAppointment } from '../services/messaging'
 import { handleGoogleError } from '../services/google'
+import { messageFailedNotification, syncFailedNotification } from '../services/staffNotifications'
+import type { EmailTemplateKind } from '../services/emailTemplates'
 import {
   getAllAppointments,
   getAppointmentsByDate,
@@ -25,9 +34,96 @@ import {
   getUpcomingAppointments,
   addAppointment as dbAddAppointment,
   updateAppointment as dbUpdateAppointment,
-  deleteAppointment as dbDeleteAppointment
+  deleteAppointment as dbDeleteAppointment,
+  addAppointmentSeries as dbAddAppointmentSeries,
+  getClientById,
+  getPetById,
+  getPendingAppointmentActions,
+  claimAppointmentAction,
+  completeAppointmentAction
 } from '../db'
-import { Appointment, CreateAppointmentInput, UpdateAppointmentInput } from '../db/types'
+import { Appointment, AppointmentActionRequest, CreateAppointmentInput, UpdateAppointmentInput, RecurrenceRule } from '../db/types'
+
+// allowConflicts: save even when the scheduling validator finds problems (user confirmed)
+interface ScheduleOptions {
+  allowConflicts?: boolean
+}
+
+// Statuses whose slot no longer matters (nothing to validate)
+const isInactive = (status: Appointment['status']) =>
+  status === 'cancelled' || status === 'no-show' || status === 'completed'
+
+// A client message that failed on every channel also goes to the staff notification feed
+function reportMessageFailure(
+  kind: EmailTemplateKind,
+  appointment: Pick<Appointment, 'id' | 'date' | 'time'>,
+  client: Client,
+  message: string
+) {
+  useNotificationStore.getState().notify(
+    messageFailedNotification(kind, appointment, `${client.firstName} ${client.lastName}`.trim(), message)
+  )
+}
+
+// Throws SchedulingConflictError when the slot overlaps, is outside clinic hours or the vet is off
+async function assertSlotAvailable(appointment: Appointment | CreateAppointmentInput, appointments: Appointment[], excludeId?: number) {
+  if (isInactive(appointment.status)) return
+  const issues = await checkSlot(
+    { ...appointment, excludeId },
+    appointments,
+    useVeterinarianStore.getState().veterinarians
+  )
+  if (issues.length > 0) throw new SchedulingConflictError(issues)
+}
+
+// Same check for every session of a series (rules loaded once)
+async function assertSeriesAvailable(sessions: (Appointment | CreateAppointmentInput)[], appointments: Appointment[]) {
+  const active = sessions.filter(s => !isInactive(s.status))
+  if (active.length === 0) return
+  const issues = validateSeries(
+    active,
+    appointments,
+    useVeterinarianStore.getState().veterinarians,
+    await loadSchedulingRules()
+  )
+  if (issues.length > 0) throw new SchedulingConflictError(issues)
+}
+
+// Sessions of a series that can still be edited or cancelled together
+const isPendingSession = (apt: Appointment) => apt.status === 'scheduled' || apt.status === 'confirmed'
+
+/**
+ * Push an edited appointment to Google Calendar: update its event (or create one).
+ * A cancelled series session removes its occurrence from the recurring event.
+ * Failures are flagged googleSyncPending and retried by the next sync.
+ */
+async function pushCalendarEvent(appointment: Appointment, client: Client, pet: Pet): Promise<UpdateAppointmentInput> {
+  try {
+    const calendarId = useAuthStore.getState().googleCalendarId
+    if (appointment.googleCalendarEventId && appointment.seriesId && appointment.status === 'cancelled') {
+      await deleteCalendarEvent(appointment.googleCalendarEventId, calendarId)
+      console.log('Google Calendar occurrence cancelled:', appointment.googleCalendarEventId)
+    } else if (appointment.googleCalendarEventId) {
+      const updatedEvent = await updateCalendarEvent(appointment.googleCalendarEventId, appointment, client, pet, calendarId)
+      console.log('Google Calendar event updated:', updatedEvent.id)
+    } else {
+      const event = await createCalendarEvent(appointment, client, pet, calendarId)
+      console.log('Google Calendar event created:', event.id)
+      return { googleCalendarEventId: event.id, googleSyncPending: false }
+    }
+    return { googleSyncPending: false }
+  } catch (error) {
+    const googleError = handleGoogleError(error, 'calendar')
+    console.error('Failed to update calendar event:', googleError)
+    return { googleSyncPending: true }
+  }
+}
+
+// Outcome of applying the confirm / cancel / reschedule choices owners made from email links
+export interface ClientActionsResult {
+  applied: AppointmentActionRequest[]
+  failed: AppointmentActionRequest[]
+}
 
 interface AppointmentState {
   appointments: Appointment[]
@@ -38,6 +134,8 @@ interface AppointmentState {
   calendarSyncEnabled: boolean
   emailNotificationsEnabled: boolean
   lastSyncTime: string | null
+  isCalendarSyncing: boolean
+  calendarConflicts: CalendarConflict[]
   // Actions
   fetchAppointments: () => Promise<void>
   fetchAppointmentsByDate: (date: string) => Promise<void>
@@ -45,15 +143,21 @@ interface AppointmentState {
   fetchAppointmentsByClient: (clientId: number) => Promise<void>
   fetchAppointmentsByPet: (petId: number) => Promise<void>
   fetchUpcomingAppointments: (limit?: number) => Promise<void>
-  addAppointment: (appointment: CreateAppointmentInput, client: Client, pet: Pet) => Promise<number>
-  updateAppointment: (id: number, updates: UpdateAppointmentInput, client?: Client, pet?: Pet) => Promise<void>
+  addAppointment: (appointment: CreateAppointmentInput, client: Client, pet: Pet, options?: ScheduleOptions) => Promise<number>
+  addAppointmentSeries: (appointment: CreateAppointmentInput, rule: RecurrenceRule, client: Client, pet: Pet, options?: ScheduleOptions) => Promise<number>
+  updateAppointment: (id: number, updates: UpdateAppointmentInput, client?: Client, pet?: Pet, options?: ScheduleOptions) => Promise<void>
+  updateAppointmentSeries: (seriesId: number, fromId: number | undefined, updates: UpdateAppointmentInput, client?: Client, pet?: Pet, options?: ScheduleOptions) => Promise<void>
+  cancelAppointmentSeries: (seriesId: number, client?: Client, pet?: Pet) => Promise<void>
   deleteAppointment: (id: number, client?: Client, pet?: Pet) => Promise<void>
   setSelectedAppointment: (appointment: Appointment | null) => void
   setLoading: (isLoading: boolean) => void
   setError: (error: string | null) => void
   setCalendarSyncEnabled: (enabled: boolean) => void
   setEmailNotificationsEnabled: (enabled: boolean) => void
-  syncWithGoogleCalendar: (startDate: Date, endDate: Date) => Promise<void>
+  syncWithGoogleCalendar: (startDate?: Date) => Promise<void>
+  loadCalendarSyncStatus: () => Promise<void>
+  resolveCalendarConflict: (conflict: CalendarConflict, keep: 'local' | 'google') => Promise<void>
+  applyClientActions: () => Promise<ClientActionsResult>
 }
 
 export const useAppointmentStore = create<AppointmentState>((set, get) => ({
@@ -61,9 +165,11 @@ export const useAppointmentStore = create<AppointmentState>((set, get) => ({
   selectedAppointment: null,
   isLoading: false,
   error: null,
-  calendarSyncEnabled: false,
+  calendarSyncEnabled: useAuthStore.getState().googleCalendarEnabled,
   emailNotificationsEnabled: false,
   lastSyncTime: null,
+  isCalendarSyncing: false,
+  calendarConflicts: [],
   
   fetchAppointments: async () => {
     set({ isLoading: true, error: null })
@@ -132,14 +238,16 @@ export const useAppointmentStore = create<AppointmentState>((set, get) => ({
     }
   },
   
-  addAppointment: async (appointmentData: CreateAppointmentInput, client: Client, pet: Pet) => {
-    const { calendarSyncEnabled, emailNotificationsEnabled } = get()
+  addAppointment: async (appointmentData: CreateAppointmentInput, client: Client, pet: Pet, options: ScheduleOptions = {}) => {
+    const { calendarSyncEnabled } = get()
     
     set({ isLoading: true, error: null })
     
     try {
+      if (!options.allowConflicts) await assertSlotAvailable(appointmentData, get().appointments)
+
       let googleCalendarEventId: string | undefined
-      let emailSent = false
+      let googleSyncPending = false
       
       // Create Google Calendar event if enabled
       if (calendarSyncEnabled) {
@@ -160,41 +268,44 @@ export const useAppointmentStore = create<AppointmentState>((set, get) => ({
         } catch (error) {
           const googleError = handleGoogleError(error, 'calendar')
           console.error('Failed to create calendar event:', googleError)
-          // Continue without calendar sync - don't fail the whole operation
-        }
-      }
-      
-      // Send confirmation email if enabled
-      if (emailNotificationsEnabled) {
-        try {
-          await sendAppointmentConfirmation({
-            appointment: {
-              ...appointmentData,
-              clientId: client.id!,
-              petId: pet.id!
-            } as unknown as Appointment,
-            client,
-            pet
-          })
-          emailSent = true
-          console.log('Confirmation email sent')
-        } catch (error) {
-          const googleError = handleGoogleError(error, 'gmail')
-          console.error('Failed to send confirmation email:', googleError)
-          // Continue without email - don't fail the whole operation
+          // Continue without calendar sync - the next sync creates the event
+          googleSyncPending = true
         }
       }
       
-      // Add the appointment with Google Calendar event ID and email status
+      // Add the appointment with Google Calendar event ID
       const newAppointment: CreateAppointmentInput = {
         ...appointmentData,
         googleCalendarEventId,
-        emailSent
+        googleSyncPending
       }
       
       // Save to IndexedDB
       const id = await dbAddAppointment(newAppointment)
       
+      // Send the confirmation on the client's channels (after saving: its confirm/cancel links need the id)
+      try {
+        const channels = await notifyAppointment('confirmation', {
+          appointment: {
+            ...newAppointment,
+            id,
+            clientId: client.id!,
+            petId: pet.id!
+          } as unknown as Appointment,
+          client,
+          pet
+        })
+        if (channels.length > 0) {
+          await dbUpdateAppointment(id, { emailSent: true })
+          console.log(`Confirmation sent (${channels.join(', ')})`)
+        }
+      } catch (error) {
+        const googleError = handleGoogleError(error, 'gmail')
+        console.error('Failed to send confirmation email:', googleError)
+        reportMessageFailure('confirmation', { ...newAppointment, id }, client, googleError.message)
+        // Continue without email - don't fail the whole operation
+      }
+      
       // Fetch updated list
       const appointments = await getAllAppointments()
       set({ appointments, isLoading: false })
@@ -203,78 +314,257 @@ export const useAppointmentStore = create<AppointmentState>((set, get) => ({
       
     } catch (error) {
       console.error('Failed to add appointment:', error)
-      set({ error: 'Failed to add appointment', isLoading: false })
+      // Scheduling conflicts are shown by the caller, not as a data error
+      set({ error: error instanceof SchedulingConflictError ? null : 'Failed to add appointment', isLoading: false })
       throw error
     }
   },
   
-  updateAppointment: async (id: number, updates: UpdateAppointmentInput, client?: Client, pet?: Pet) => {
-    const { calendarSyncEnabled, emailNotificationsEnabled, appointments } = get()
+  // Recurring series: one appointment per session, one recurring Google event. Returns the first session's id.
+  addAppointmentSeries: async (appointmentData: CreateAppointmentInput, rule: RecurrenceRule, client: Client, pet: Pet, options: ScheduleOptions = {}) => {
+    const { calendarSyncEnabled } = get()
     
     set({ isLoading: true, error: null })
     
     try {
-      const existingAppointment = appointments.find(apt => apt.id === id)
-      if (!existingAppointment) {
-        throw new Error('Appointment not found')
-      }
+      const dates = expandRecurrence(appointmentData.date, rule)
+      if (dates.length < 2) throw new Error('La serie debe tener al menos dos sesiones')
+      // Only the first session keeps the amount already paid
+      const sessions: CreateAppointmentInput[] = dates.map((date, i) => ({
+        ...appointmentData,
+        date,
+        amountPaid: i === 0 ? appointmentData.amountPaid : 0
+      }))
+      if (!options.allowConflicts) await assertSeriesAvailable(sessions, get().appointments)
       
-      let googleCalendarEventId = existingAppointment.googleCalendarEventId
+      let googleCalendarEventId: string | undefined
+      let googleSyncPending = false
       
-      // Update Google Calendar event if enabled
-      if (calendarSyncEnabled && googleCalendarEventId && client && pet) {
+      // One recurring Google event; each session is linked to its occurrence
+      if (calendarSyncEnabled) {
         try {
           const calendarId = useAuthStore.getState().googleCalendarId
-          const updatedEvent = await updateCalendarEvent(
-            googleCalendarEventId,
-            { ...existingAppointment, ...updates } as Appointment,
+          const event = await createCalendarEvent(
+            {
+              ...appointmentData,
+              clientId: client.id!,
+              petId: pet.id!
+            } as unknown as Appointment,
             client,
             pet,
-            calendarId
+            calendarId,
+            [toRRule(rule)]
           )
-          console.log('Google Calendar event updated:', updatedEvent.id)
+          googleCalendarEventId = event.id
+          console.log('Google Calendar recurring event created:', event.id)
         } catch (error) {
           const googleError = handleGoogleError(error, 'calendar')
-          console.error('Failed to update calendar event:', googleError)
+          console.error('Failed to create calendar event:', googleError)
+          // The next sync creates one event per session instead
+          googleSyncPending = true
         }
       }
       
+      const seriesId = await dbAddAppointmentSeries({
+        clientId: appointmentData.clientId,
+        petId: appointmentData.petId,
+        rule,
+        googleCalendarEventId
+      })
+      
+      let firstId = 0
+      for (const [i, session] of sessions.entries()) {
+        const id = await dbAddAppointment({
+          ...session,
+          seriesId,
+          googleCalendarEventId: googleCalendarEventId && getInstanceEventId(googleCalendarEventId, session.date, session.time),
+          googleSyncPending
+        })
+        if (i === 0) firstId = id
+      }
+      
+      // Confirmation for the first session
+      try {
+        const channels = await notifyAppointment('confirmation', {
+          appointment: {
+            ...sessions[0],
+            id: firstId,
+            seriesId,
+            clientId: client.id!,
+            petId: pet.id!
+          } as unknown as Appointment,
+          client,
+          pet
+        })
+        if (channels.length > 0) {
+          await dbUpdateAppointment(firstId, { emailSent: true })
+          console.log(`Confirmation sent (${channels.join(', ')})`)
+        }
+      } catch (error) {
+        const googleError = handleGoogleError(error, 'gmail')
+        console.error('Failed to send confirmation email:', googleError)
+        reportMessageFailure('confirmation', { ...sessions[0], id: firstId }, client, googleError.message)
+      }
+      
+      // Fetch updated list
+      const appointments = await getAllAppointments()
+      set({ appointments, isLoading: false })
+      
+      return firstId
+      
+    } catch (error) {
+      console.error('Failed to add appointment series:', error)
+      set({ error: error instanceof SchedulingConflictError ? null : 'Failed to add appointment series', isLoading: false })
+      throw error
+    }
+  },
+  
+  updateAppointment: async (id: number, updates: UpdateAppointmentInput, client?: Client, pet?: Pet, options: ScheduleOptions = {}) => {
+    const { calendarSyncEnabled, appointments } = get()
+    
+    set({ isLoading: true, error: null })
+    
+    try {
+      const existingAppointment = appointments.find(apt => apt.id === id)
+      if (!existingAppointment) {
+        throw new Error('Appointment not found')
+      }
+      
+      // Only re-check the slot when something that affects it changed
+      const slotChanged = (['date', 'time', 'duration', 'petId', 'veterinarian', 'veterinarianId', 'type', 'status'] as const)
+        .some(key => updates[key] !== undefined && updates[key] !== existingAppointment[key])
+      if (slotChanged && !options.allowConflicts) {
+        await assertSlotAvailable({ ...existingAppointment, ...updates }, appointments, id)
+      }
+      
+      let calendarUpdates: UpdateAppointmentInput = {}
+      
+      // Update (or create) the Google Calendar event if enabled
+      if (calendarSyncEnabled && client && pet) {
+        calendarUpdates = await pushCalendarEvent({ ...existingAppointment, ...updates } as Appointment, client, pet)
+      } else if (calendarSyncEnabled) {
+        calendarUpdates.googleSyncPending = true
+      }
+      
       // Check if the appointment was rescheduled
-      if (emailNotificationsEnabled && client && pet) {
-        const wasDateChanged = existingAppointment.date !== updates.date || 
-                              existingAppointment.time !== updates.time
+      if (client && pet) {
+        const wasDateChanged = (updates.date !== undefined && existingAppointment.date !== updates.date) ||
+                              (updates.time !== undefined && existingAppointment.time !== updates.time)
         
         if (wasDateChanged) {
           try {
-            await sendAppointmentRescheduled({
+            await notifyAppointment('rescheduled', {
               appointment: { ...existingAppointment, ...updates } as Appointment,
               client,
               pet
             })
-            console.log('Rescheduled email sent')
+            console.log('Rescheduled notice sent')
           } catch (error) {
             const googleError = handleGoogleError(error, 'gmail')
             console.error('Failed to send rescheduled email:', googleError)
+            reportMessageFailure('rescheduled', { ...existingAppointment, ...updates }, client, googleError.message)
           }
         }
       }
       
       // Update in IndexedDB
-      await dbUpdateAppointment(id, updates)
+      await dbUpdateAppointment(id, { ...updates, ...calendarUpdates })
       
       // Fetch updated list
       const updatedAppointments = await getAllAppointments()
       set({ appointments: updatedAppointments, isLoading: false })
       
+      // A cancelled slot is offered to waitlisted clients that fit it
+      if (updates.status === 'cancelled' && existingAppointment.status !== 'cancelled') {
+        useWaitlistStore.getState().handleCancellation(
+          { ...existingAppointment, ...updates } as Appointment,
+          updatedAppointments
+        )
+      }
+      
     } catch (error) {
       console.error('Failed to update appointment:', error)
-      set({ error: 'Failed to update appointment', isLoading: false })
+      // Scheduling conflicts are shown by the caller, not as a data error
+      set({ error: error instanceof SchedulingConflictError ? null : 'Failed to update appointment', isLoading: false })
       throw error
     }
   },
   
+  // Apply an edit to every pending session of a series. fromId is the session being edited: it gets
+  // all updates; the others get the shared fields, and a date change moves them by the same number of days.
+  updateAppointmentSeries: async (seriesId: number, fromId: number | undefined, updates: UpdateAppointmentInput, client?: Client, pet?: Pet, options: ScheduleOptions = {}) => {
+    const { calendarSyncEnabled, appointments } = get()
+    
+    set({ isLoading: true, error: null })
+    
+    try {
+      const from = appointments.find(apt => apt.id === fromId)
+      const sessions = appointments.filter(apt =>
+        apt.seriesId === seriesId && (apt.id === fromId || isPendingSession(apt))
+      )
+      if (sessions.length === 0) {
+        throw new Error('Series not found')
+      }
+      
+      const { date, amountPaid, ...shared } = updates
+      const dayShift = from && date ? daysBetween(from.date, date) : 0
+      const changes = new Map<number, UpdateAppointmentInput>(sessions.map(apt => [
+        apt.id!,
+        apt.id === fromId ? updates : { ...shared, ...(dayShift !== 0 && { date: addDays(apt.date, dayShift) }) }
+      ]))
+      const updated = sessions.map(apt => ({ ...apt, ...changes.get(apt.id!) }) as Appointment)
+      
+      // Sessions move together, so only check them against the rest of the schedule
+      if (!options.allowConflicts) {
+        await assertSeriesAvailable(updated, appointments.filter(apt => !changes.has(apt.id!)))
+      }
+      
+      for (const apt of updated) {
+        let calendarUpdates: UpdateAppointmentInput = {}
+        if (calendarSyncEnabled && client && pet) {
+          calendarUpdates = await pushCalendarEvent(apt, client, pet)
+        } else if (calendarSyncEnabled) {
+          calendarUpdates.googleSyncPending = true
+        }
+        await dbUpdateAppointment(apt.id!, { ...changes.get(apt.id!), ...calendarUpdates })
+      }
+      
+      // One message for the whole series, about the next session
+      const next = [...updated].sort((a, b) => a.date.localeCompare(b.date))[0]
+      if (client && pet) {
+        try {
+          if (updates.status === 'cancelled') {
+            await notifyAppointment('cancellation', { appointment: next, client, pet })
+            console.log('Cancellation notice sent')
+          } else if (dayShift !== 0 || (updates.time !== undefined && updates.time !== from?.time)) {
+            await notifyAppointment('rescheduled', { appointment: next, client, pet })
+            console.log('Rescheduled notice sent')
+          }
+        } catch (error) {
+          const googleError = handleGoogleError(error, 'gmail')
+          console.error('Failed to send series email:', googleError)
+          reportMessageFailure(updates.status === 'cancelled' ? 'cancellation' : 'rescheduled', next, client, googleError.message)
+        }
+      }
+      
+      // Fetch updated list
+      const updatedAppointments = await getAllAppointments()
+      set({ appointments: updatedAppointments, isLoading: false })
+      
+    } catch (error) {
+      console.error('Failed to update appointment series:', error)
+      set({ error: error instanceof SchedulingConflictError ? null : 'Failed to update appointment series', isLoading: false })
+      throw error
+    }
+  },
+  
+  // Cancel every pending session (completed sessions stay in the history)
+  cancelAppointmentSeries: async (seriesId: number, client?: Client, pet?: Pet) => {
+    await get().updateAppointmentSeries(seriesId, undefined, { status: 'cancelled' }, client, pet)
+  },
+  
   deleteAppointment: async (id: number, client?: Client, pet?: Pet) => {
-    const { calendarSyncEnabled, emailNotificationsEnabled, appointments } = get()
+    const { calendarSyncEnabled, appointments } = get()
     
     set({ isLoading: true, error: null })
     
@@ -293,21 +583,27 @@ export const useAppointmentStore = create<AppointmentState>((set, get) => ({
         } catch (error) {
           const googleError = handleGoogleError(error, 'calendar')
           console.error('Failed to delete calendar event:', googleError)
+          // Retried by the next sync
+          await queueCalendarEventDelete(
+            existingAppointment.googleCalendarEventId,
+            useAuthStore.getState().googleCalendarId
+          ).catch(() => {})
         }
       }
       
-      // Send cancellation email if enabled
-      if (emailNotificationsEnabled && client && pet) {
+      // Send the cancellation on the client's channels
+      if (client && pet) {
         try {
-          await sendAppointmentCancellation({
+          await notifyAppointment('cancellation', {
             appointment: existingAppointment,
             client,
             pet
           })
-          console.log('Cancellation email sent')
+          console.log('Cancellation notice sent')
         } catch (error) {
           const googleError = handleGoogleError(error, 'gmail')
           console.error('Failed to send cancellation email:', googleError)
+          reportMessageFailure('cancellation', existingAppointment, client, googleError.message)
         }
       }
       
@@ -341,51 +637,143 @@ export const useAppointmentStore = create<AppointmentState>((set, get) => ({
     set({ emailNotificationsEnabled: enabled })
   },
   
-  syncWithGoogleCalendar: async (startDate: Date, endDate: Date) => {
-    const { calendarSyncEnabled, appointments } = get()
+  syncWithGoogleCalendar: async (startDate?: Date) => {
+    const { calendarSyncEnabled, isCalendarSyncing } = get()
     
     if (!calendarSyncEnabled) {
       console.log('Calendar sync is not enabled')
       return
     }
+    if (isCalendarSyncing) return
     
-    set({ isLoading: true, error: null })
+    set({ isCalendarSyncing: true, error: null })
     
     try {
       const calendarId = useAuthStore.getState().googleCalendarId
-      const events = await fetchCalendarEvents(startDate, endDate, calendarId)
-      
-      // Map Google Calendar events to appointments
-      const syncedAppointments = appointments.map(apt => {
-        const matchingEvent = events.find(
-          event => event.id === apt.googleCalendarEventId
-        )
-        
-        if (matchingEvent) {
-          return {
-            ...apt,
-            updatedAt: new Date().toISOString()
-          }
-        }
-        
-        return apt
-      })
+      const result = await syncCalendar(calendarId, startDate)
       
+      // Fetch updated list
+      const appointments = await getAllAppointments()
       set({
-        appointments: syncedAppointments,
-        lastSyncTime: new Date().toISOString(),
-        isLoading: false
+        appointments,
+        lastSyncTime: result.lastSyncTime,
+        calendarConflicts: result.conflicts,
+        isCalendarSyncing: false
       })
       
-      console.log(`Synced ${events.length} events from Google Calendar`)
+      console.log(
+        `Google Calendar sync: ${result.imported} updated, ${result.cancelled} cancelled, ` +
+        `${result.pushed} pushed, ${result.conflicts.length} conflicts`
+      )
+      if (result.failed > 0) {
+        useNotificationStore.getState().notify(
+          syncFailedNotification(`${result.failed} cita(s) no se pudieron subir a Google Calendar; se reintentará`)
+        )
+      }
       
     } catch (error) {
       const googleError = handleGoogleError(error, 'calendar')
       console.error('Failed to sync with Google Calendar:', googleError)
+      useNotificationStore.getState().notify(syncFailedNotification(googleError.message))
+      set({ error: googleError.message, isCalendarSyncing: false })
+    }
+  },
+  
+  loadCalendarSyncStatus: async () => {
+    try {
+      const state = await loadCalendarSyncState(useAuthStore.getState().googleCalendarId)
+      set({ lastSyncTime: state.lastSyncTime ?? null, calendarConflicts: state.conflicts })
+    } catch (error) {
+      console.error('Failed to load calendar sync status:', error)
+    }
+  },
+  
+  resolveCalendarConflict: async (conflict: CalendarConflict, keep: 'local' | 'google') => {
+    set({ isLoading: true, error: null })
+    try {
+      await resolveConflict(conflict, keep, useAuthStore.getState().googleCalendarId)
+      const appointments = await getAllAppointments()
+      set({
+        appointments,
+        calendarConflicts: get().calendarConflicts.filter(c => c.eventId !== conflict.eventId),
+        isLoading: false
+      })
+    } catch (error) {
+      const googleError = handleGoogleError(error, 'calendar')
+      console.error('Failed to resolve calendar conflict:', googleError)
       set({ error: googleError.message, isLoading: false })
+      throw error
+    }
+  },
+  
+  // Owners' choices from email links go through updateAppointment like staff edits
+  // (Google Calendar event, rescheduled email, waitlist offers on cancellation)
+  applyClientActions: async () => {
+    const result: ClientActionsResult = { applied: [], failed: [] }
+    const requests = await getPendingAppointmentActions()
+    if (requests.length === 0) return result
+    
+    await get().fetchAppointments()
+    for (const request of requests) {
+      if (!(await claimAppointmentAction(request.id))) continue // another device took it
+      try {
+        const appointment = get().appointments.find(apt => apt.id === request.appointmentId)
+        if (!appointment) throw new Error('Appointment not found')
+        const [client, pet] = await Promise.all([
+          getClientById(appointment.clientId),
+          getPetById(appointment.petId)
+        ])
+        if (request.action === 'confirm') {
+          await get().updateAppointment(appointment.id!, { status: 'confirmed' }, client, pet, { allowConflicts: true })
+        } else if (request.action === 'cancel') {
+          await get().updateAppointment(appointment.id!, { status: 'cancelled' }, client, pet)
+        } else {
+          await get().updateAppointment(
+            appointment.id!,
+            { date: request.newDate, time: request.newTime, status: 'scheduled' },
+            client,
+            pet
+          )
+        }
+        await completeAppointmentAction(request.id)
+        result.applied.push(request)
+      } catch (error) {
+        console.error('Failed to apply appointment action:', error)
+        const message = error instanceof Error ? error.message : 'Failed to apply'
+        await completeAppointmentAction(request.id, message)
+        result.failed.push({ ...request, status: 'failed', error: message })
+      }
     }
+    return result
   }
 }))
 
+const CLIENT_ACTIONS_INTERVAL_MS = 2 * 60 * 1000
+
+/**
+ * Poll for confirm / cancel / reschedule requests from email links while the app is open.
+ * Returns a stop function.
+ */
+export const startClientActionProcessor = (onRun?: (result: ClientActionsResult) => void): (() => void) => {
+  let running = false
+
+  const tick = async () => {
+    if (running || !useAuthStore.getState().isAuthenticated || !navigator.onLine) return
+    running = true
+    try {
+      const result = await useAppointmentStore.getState().applyClientActions()
+      if (result.applied.length > 0 || result.failed.length > 0) onRun?.(result)
+    } catch (error) {
+      console.error('Failed to process appointment actions:', error)
+    } finally {
+      running = false
+    }
+  }
+
+  tick()
+  const interval = window.setInterval(tick, CLIENT_ACTIONS_INTERVAL_MS)
+  return () => window.clearInterval(interval)
+}
+
 // Export Appointment type for use in other files
 export type { Appointment }
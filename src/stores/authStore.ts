@@ -4,6 +4,7 @@
 import { create } from 'zustand'
 import { persist } from 'zustand/middleware'
 import { supabase, isSupabaseConfigured } from '../lib/supabase'
+import type { UserRole } from '../db/types'
 
 export interface User {
   id: string
@@ -16,12 +17,16 @@ interface AuthState {
   isAuthenticated: boolean
   user: User | null
   isLoading: boolean
+  // Clinic membership (null until loaded, or when clinic accounts aren't set up)
+  role: UserRole | null
+  clinicName: string | null
   // Google integration (optional, for Calendar/Gmail)
   googleCalendarEnabled: boolean
   googleGmailEnabled: boolean
   googleCalendarId: string
   // Methods
   setAuth: (user: User) => void
+  setClinic: (role: UserRole | null, clinicName: string | null) => void
   logout: () => void
   setGoogleCalendarEnabled: (enabled: boolean) => void
   setGoogleGmailEnabled: (enabled: boolean) => void
@@ -35,6 +40,8 @@ export const useAuthStore = create<AuthState>()(
       isAuthenticated: false,
       user: null,
       isLoading: true,
+      role: null,
+      clinicName: null,
       googleCalendarEnabled: false,
       googleGmailEnabled: false,
       googleCalendarId: 'primary',
@@ -47,12 +54,16 @@ export const useAuthStore = create<AuthState>()(
         })
       },
 
+      setClinic: (role, clinicName) => set({ role, clinicName }),
+
       logout: async () => {
         // Update state first so UI responds immediately (redirect to login)
         set({
           isAuthenticated: false,
           user: null,
           isLoading: false,
+          role: null,
+          clinicName: null,
           googleCalendarEnabled: false,
           googleGmailEnabled: false,
           googleCalendarId: 'primary'
@@ -116,6 +127,7 @@ export const useAuthStore = create<AuthState>()(
 
 export const selectIsAuthenticated = (state: AuthState) => state.isAuthenticated
 export const selectUser = (state: AuthState) => state.user
+export const selectRole = (state: AuthState) => state.role
 export const selectGoogleCalendarEnabled = (state: AuthState) => state.googleCalendarEnabled
 export const selectGoogleGmailEnabled = (state: AuthState) => state.googleGmailEnabled
 export const selectGoogleCalendarId = (state: AuthState) => state.googleCalendarId
@@ -3,12 +3,21 @@ import {
   getAllInventory,
   addInventoryItem as dbAddItem,
   updateInventoryItem as dbUpdateItem,
-  deleteInventoryItem as dbDeleteItem
+  deleteInventoryItem as dbDeleteItem,
+  getInventoryMovements,
+  recordInventoryMovement
 } from '../db'
-import type { InventoryItem, CreateInventoryInput, UpdateInventoryInput } from '../db/types'
+import type {
+  InventoryItem,
+  InventoryMovement,
+  CreateInventoryInput,
+  UpdateInventoryInput,
+  CreateInventoryMovementInput
+} from '../db/types'
 
 interface InventoryState {
   items: InventoryItem[]
+  movements: InventoryMovement[]
   isLoading: boolean
   error: string | null
   setError: (error: string | null) => void
@@ -16,10 +25,13 @@ interface InventoryState {
   addItem: (item: CreateInventoryInput) => Promise<number>
   updateItem: (id: number, updates: UpdateInventoryInput) => Promise<void>
   deleteItem: (id: number) => Promise<void>
+  fetchMovements: (inventoryId: number) => Promise<void>
+  recordMovement: (movement: CreateInventoryMovementInput) => Promise<void>
 }
 
 export const useInventoryStore = create<InventoryState>((set) => ({
   items: [],
+  movements: [],
   isLoading: false,
   error: null,
 
@@ -77,5 +89,28 @@ export const useInventoryStore = create<InventoryState>((set) => ({
       set({ error: 'Failed to delete item', isLoading: false })
       throw error
     }
+  },
+
+  fetchMovements: async (inventoryId) => {
+    try {
+      const movements = await getInventoryMovements(inventoryId)
+      set({ movements })
+    } catch (error) {
+      console.error('Failed to fetch stock movements:', error)
+      set({ movements: [] })
+    }
+  },
+
+  recordMovement: async (movement) => {
+    set({ isLoading: true, error: null })
+    try {
+      await recordInventoryMovement(movement)
+      const items = await getAllInventory()
+      set({ items, isLoading: false })
+    } catch (error) {
+      console.error('Failed to record stock movement:', error)
+      set({ error: 'Failed to record stock movement', isLoading: false })
+      throw error
+    }
   }
 }))
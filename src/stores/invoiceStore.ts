@@ -0,0 +1,108 @@
+import { create } from 'zustand'
+import {
+  getAllInvoices,
+  getInvoicesByAppointment,
+  getPaymentsByInvoice,
+  getSaleItemsByAppointment,
+  getSettingValue,
+  createInvoice as dbCreateInvoice,
+  recordPayment as dbRecordPayment
+} from '../db'
+import { buildInvoice, getInvoiceSettings } from '../services/invoices'
+import { useAppointmentStore } from './appointmentStore'
+import type { Appointment, Invoice, Payment, InventoryItem, CreatePaymentInput } from '../db/types'
+
+interface InvoiceState {
+  invoices: Invoice[]
+  payments: Payment[]
+  isLoading: boolean
+  error: string | null
+  setError: (error: string | null) => void
+  fetchInvoices: () => Promise<void>
+  fetchPayments: (invoiceId: number) => Promise<void>
+  getAppointmentInvoice: (appointmentId: number) => Promise<Invoice | undefined>
+  createInvoiceForAppointment: (appointment: Appointment, inventoryItems: InventoryItem[]) => Promise<Invoice>
+  recordPayment: (payment: CreatePaymentInput) => Promise<Invoice>
+}
+
+export const useInvoiceStore = create<InvoiceState>((set) => ({
+  invoices: [],
+  payments: [],
+  isLoading: false,
+  error: null,
+
+  setError: (error) => set({ error }),
+
+  fetchInvoices: async () => {
+    set({ isLoading: true, error: null })
+    try {
+      const invoices = await getAllInvoices()
+      set({ invoices, isLoading: false })
+    } catch (error) {
+      const msg = error instanceof Error ? error.message : 'Failed to fetch invoices'
+      console.error('Failed to fetch invoices:', error)
+      set({ error: msg, isLoading: false })
+    }
+  },
+
+  fetchPayments: async (invoiceId) => {
+    try {
+      const payments = await getPaymentsByInvoice(invoiceId)
+      set({ payments })
+    } catch (error) {
+      console.error('Failed to fetch payments:', error)
+      set({ payments: [] })
+    }
+  },
+
+  getAppointmentInvoice: async (appointmentId) => {
+    try {
+      const invoices = await getInvoicesByAppointment(appointmentId)
+      return invoices[0]
+    } catch (error) {
+      console.error('Failed to fetch appointment invoice:', error)
+      return undefined
+    }
+  },
+
+  createInvoiceForAppointment: async (appointment, inventoryItems) => {
+    set({ isLoading: true, error: null })
+    try {
+      const [saleItems, settings, typePrice] = await Promise.all([
+        getSaleItemsByAppointment(appointment.id!),
+        getInvoiceSettings(),
+        getSettingValue(`price_${appointment.type}`)
+      ])
+      const invoice = await dbCreateInvoice(
+        buildInvoice(appointment, saleItems, inventoryItems, settings, parseFloat(typePrice ?? '') || 0)
+      )
+      set((state) => ({ invoices: [invoice, ...state.invoices], isLoading: false }))
+      return invoice
+    } catch (error) {
+      console.error('Failed to create invoice:', error)
+      set({ error: 'Failed to create invoice', isLoading: false })
+      throw error
+    }
+  },
+
+  recordPayment: async (payment) => {
+    set({ isLoading: true, error: null })
+    try {
+      const invoice = await dbRecordPayment(payment)
+      const payments = await getPaymentsByInvoice(payment.invoiceId)
+      set((state) => ({
+        invoices: state.invoices.map(inv => inv.id === invoice.id ? invoice : inv),
+        payments,
+        isLoading: false
+      }))
+      // amountPaid on the appointment changed
+      useAppointmentStore.getState().fetchAppointments()
+      return invoice
+    } catch (error) {
+      const msg = error instanceof Error ? error.message : 'Failed to record payment'
+      console.error('Failed to record payment:', error)
+      set({ error: msg, isLoading: false })
+      throw error
+    }
+  }
+}))
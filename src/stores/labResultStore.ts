@@ -0,0 +1,59 @@
+import { create } from 'zustand'
+import {
+  getLabResultsByAppointment,
+  getLabResultsByPet,
+  addLabResult as dbAddLabResult,
+  deleteLabResult as dbDeleteLabResult
+} from '../db'
+import type { CreateLabResultInput, LabResult } from '../db/types'
+
+interface LabResultState {
+  results: LabResult[] // of the appointment or pet last fetched
+  isLoading: boolean
+  error: string | null
+  fetchResults: (scope: { appointmentId: number } | { petId: number }) => Promise<void>
+  addResult: (result: CreateLabResultInput) => Promise<void>
+  deleteResult: (id: number) => Promise<void>
+}
+
+export const useLabResultStore = create<LabResultState>((set, get) => ({
+  results: [],
+  isLoading: false,
+  error: null,
+
+  fetchResults: async (scope) => {
+    set({ isLoading: true, error: null })
+    try {
+      const results = 'appointmentId' in scope
+        ? await getLabResultsByAppointment(scope.appointmentId)
+        : await getLabResultsByPet(scope.petId)
+      set({ results, isLoading: false })
+    } catch (error) {
+      console.error('Failed to fetch lab results:', error)
+      set({ error: error instanceof Error ? error.message : 'Failed to fetch lab results', isLoading: false })
+    }
+  },
+
+  addResult: async (result) => {
+    set({ error: null })
+    try {
+      const created = await dbAddLabResult(result)
+      set({ results: [created, ...get().results] })
+    } catch (error) {
+      console.error('Failed to add lab result:', error)
+      set({ error: error instanceof Error ? error.message : 'Failed to add lab result' })
+      throw error
+    }
+  },
+
+  deleteResult: async (id) => {
+    set({ error: null })
+    try {
+      await dbDeleteLabResult(id)
+      set({ results: get().results.filter(r => r.id !== id) })
+    } catch (error) {
+      console.error('Failed to delete lab result:', error)
+      set({ error: error instanceof Error ? error.message : 'Failed to delete lab result' })
+    }
+  }
+}))
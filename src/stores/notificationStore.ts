@@ -0,0 +1,144 @@
+import { create } from 'zustand'
+import {
+  getStaffNotifications,
+  addStaffNotifications,
+  markStaffNotificationsRead,
+  getAllVaccines
+} from '../db'
+import { collectStaffNotifications, vaccineDueRange } from '../services/staffNotifications'
+import { latestDoses } from '../services/vaccineRecalls'
+import { useAuthStore } from './authStore'
+import { useClientStore } from './clientStore'
+import { usePetStore } from './petStore'
+import { useAppointmentStore } from './appointmentStore'
+import { useInventoryStore } from './inventoryStore'
+import type { CreateStaffNotificationInput, StaffNotification } from '../db/types'
+
+const CHECK_INTERVAL_MS = 5 * 60 * 1000
+// More new notifications than this at once get a single summary desktop notification
+const MAX_DESKTOP_NOTIFICATIONS = 3
+
+interface NotificationState {
+  notifications: StaffNotification[]
+  isLoading: boolean
+  error: string | null
+  fetchNotifications: () => Promise<void>
+  checkNotifications: () => Promise<void>
+  notify: (notifications: CreateStaffNotificationInput | CreateStaffNotificationInput[]) => Promise<void>
+  markRead: (id: number) => Promise<void>
+  markAllRead: () => Promise<void>
+}
+
+export const selectUnreadCount = (state: NotificationState) =>
+  state.notifications.filter(n => !n.readAt).length
+
+function showDesktopNotifications(added: StaffNotification[]) {
+  if (!window.electronAPI?.showNotification || added.length === 0) return
+  if (added.length > MAX_DESKTOP_NOTIFICATIONS) {
+    window.electronAPI.showNotification('VetSoft', `${added.length} notificaciones nuevas`)
+    return
+  }
+  for (const notification of added) {
+    window.electronAPI.showNotification(notification.title, notification.body)
+  }
+}
+
+export const useNotificationStore = create<NotificationState>((set, get) => ({
+  notifications: [],
+  isLoading: false,
+  error: null,
+
+  fetchNotifications: async () => {
+    set({ isLoading: true, error: null })
+    try {
+      const notifications = await getStaffNotifications()
+      set({ notifications, isLoading: false })
+    } catch (error) {
+      console.error('Failed to fetch notifications:', error)
+      set({ error: error instanceof Error ? error.message : 'Failed to fetch notifications', isLoading: false })
+    }
+  },
+
+  // Derived notifications from the data already loaded in the other stores, plus due vaccines
+  checkNotifications: async () => {
+    const { clients } = useClientStore.getState()
+    const { pets } = usePetStore.getState()
+    const { from, to } = vaccineDueRange()
+    // Latest dose over each pet's whole history (as the recalls do): a dose given since supersedes
+    // the due date of the earlier one, even when the new due date is outside the window
+    const vaccines = latestDoses(await getAllVaccines())
+      .filter(v => v.nextDueDate && v.nextDueDate >= from && v.nextDueDate <= to)
+    const clientNames = new Map(clients.map(c => [c.id, `${c.firstName} ${c.lastName}`.trim()]))
+    const petNames = new Map(pets.map(p => [p.id, p.name]))
+
+    await get().notify(collectStaffNotifications({
+      appointments: useAppointmentStore.getState().appointments,
+      vaccines,
+      items: useInventoryStore.getState().items,
+      clientName: id => clientNames.get(id) || 'Cliente',
+      petName: id => petNames.get(id) || 'Mascota'
+    }))
+  },
+
+  // Already-known keys are ignored by the database, so only new notifications reach the desktop
+  notify: async (input) => {
+    const inputs = Array.isArray(input) ? input : [input]
+    if (inputs.length === 0 || !useAuthStore.getState().isAuthenticated) return
+    try {
+      const added = await addStaffNotifications(inputs)
+      if (added.length === 0) return
+      set({
+        notifications: [...added, ...get().notifications]
+          .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+      })
+      showDesktopNotifications(added)
+    } catch (error) {
+      console.error('Failed to add notifications:', error)
+    }
+  },
+
+  markRead: async (id) => {
+    const readAt = new Date().toISOString()
+    set({ notifications: get().notifications.map(n => n.id === id && !n.readAt ? { ...n, readAt } : n) })
+    try {
+      await markStaffNotificationsRead([id])
+    } catch (error) {
+      console.error('Failed to mark notification as read:', error)
+    }
+  },
+
+  markAllRead: async () => {
+    const readAt = new Date().toISOString()
+    set({ notifications: get().notifications.map(n => n.readAt ? n : { ...n, readAt }) })
+    try {
+      await markStaffNotificationsRead()
+    } catch (error) {
+      console.error('Failed to mark notifications as read:', error)
+      set({ error: error instanceof Error ? error.message : 'Failed to mark notifications as read' })
+    }
+  }
+}))
+
+/**
+ * Load the signed-in user's feed and check for new notifications every few minutes.
+ * Returns a stop function.
+ */
+export const startNotificationChecker = (): (() => void) => {
+  let running = false
+
+  const tick = async () => {
+    if (running || !useAuthStore.getState().isAuthenticated || !navigator.onLine) return
+    running = true
+    try {
+      await useNotificationStore.getState().checkNotifications()
+    } catch (error) {
+      console.error('Notification check failed:', error)
+    } finally {
+      running = false
+    }
+  }
+
+  useNotificationStore.getState().fetchNotifications().then(tick)
+  const interval = window.setInterval(tick, CHECK_INTERVAL_MS)
+  return () => window.clearInterval(interval)
+}
@@ -0,0 +1,117 @@
+import { create } from 'zustand'
+import { useAppointmentStore } from './appointmentStore'
+import { useInventoryStore } from './inventoryStore'
+import {
+  getPrescriptionsByAppointment,
+  getPrescriptionsByPet,
+  getPrescriptionRefills,
+  addPrescription as dbAddPrescription,
+  updatePrescriptionStatus,
+  requestPrescriptionRefill,
+  dispensePrescriptionRefill,
+  rejectPrescriptionRefill
+} from '../db'
+import type { CreatePrescriptionInput, Prescription, PrescriptionRefill } from '../db/types'
+
+interface PrescriptionState {
+  prescriptions: Prescription[] // of the appointment or pet last fetched
+  refills: PrescriptionRefill[]
+  isLoading: boolean
+  error: string | null
+  fetchPrescriptions: (scope: { appointmentId: number } | { petId: number }) => Promise<void>
+  addPrescription: (prescription: CreatePrescriptionInput, dispense: boolean) => Promise<void>
+  cancelPrescription: (id: number) => Promise<void>
+  requestRefill: (prescriptionId: number, notes?: string) => Promise<void>
+  dispenseRefill: (refillId: number) => Promise<void>
+  rejectRefill: (refillId: number, notes?: string) => Promise<void>
+}
+
+// A fill was sold: stock and the appointment total changed
+const refreshAfterSale = () => {
+  useInventoryStore.getState().fetchItems()
+  useAppointmentStore.getState().fetchAppointments()
+}
+
+export const usePrescriptionStore = create<PrescriptionState>((set, get) => ({
+  prescriptions: [],
+  refills: [],
+  isLoading: false,
+  error: null,
+
+  fetchPrescriptions: async (scope) => {
+    set({ isLoading: true, error: null })
+    try {
+      const prescriptions = 'appointmentId' in scope
+        ? await getPrescriptionsByAppointment(scope.appointmentId)
+        : await getPrescriptionsByPet(scope.petId)
+      const refills = await getPrescriptionRefills(prescriptions.map(p => p.id))
+      set({ prescriptions, refills, isLoading: false })
+    } catch (error) {
+      console.error('Failed to fetch prescriptions:', error)
+      set({ error: error instanceof Error ? error.message : 'Failed to fetch prescriptions', isLoading: false })
+    }
+  },
+
+  addPrescription: async (prescription, dispense) => {
+    set({ error: null })
+    try {
+      const created = await dbAddPrescription(prescription, { dispense })
+      set({ prescriptions: [created, ...get().prescriptions] })
+      if (dispense) refreshAfterSale()
+    } catch (error) {
+      console.error('Failed to add prescription:', error)
+      set({ error: error instanceof Error ? error.message : 'Failed to add prescription' })
+      throw error
+    }
+  },
+
+  cancelPrescription: async (id) => {
+    set({ error: null })
+    try {
+      await updatePrescriptionStatus(id, 'cancelled')
+      set({ prescriptions: get().prescriptions.map(p => p.id === id ? { ...p, status: 'cancelled' } : p) })
+    } catch (error) {
+      console.error('Failed to cancel prescription:', error)
+      set({ error: error instanceof Error ? error.message : 'Failed to cancel prescription' })
+    }
+  },
+
+  requestRefill: async (prescriptionId, notes) => {
+    set({ error: null })
+    try {
+      const refill = await requestPrescriptionRefill(prescriptionId, notes)
+      set({ refills: [refill, ...get().refills] })
+    } catch (error) {
+      console.error('Failed to request refill:', error)
+      set({ error: error instanceof Error ? error.message : 'Failed to request refill' })
+    }
+  },
+
+  dispenseRefill: async (refillId) => {
+    set({ error: null })
+    try {
+      const refill = await dispensePrescriptionRefill(refillId)
+      set({
+        refills: get().refills.map(r => r.id === refill.id ? refill : r),
+        prescriptions: get().prescriptions.map(p =>
+          p.id === refill.prescriptionId ? { ...p, refillsRemaining: p.refillsRemaining - 1 } : p
+        )
+      })
+      refreshAfterSale()
+    } catch (error) {
+      console.error('Failed to dispense refill:', error)
+      set({ error: error instanceof Error ? error.message : 'Failed to dispense refill' })
+    }
+  },
+
+  rejectRefill: async (refillId, notes) => {
+    set({ error: null })
+    try {
+      const refill = await rejectPrescriptionRefill(refillId, notes)
+      set({ refills: get().refills.map(r => r.id === refill.id ? refill : r) })
+    } catch (error) {
+      console.error('Failed to reject refill:', error)
+      set({ error: error instanceof Error ? error.message : 'Failed to reject refill' })
+    }
+  }
+}))
@@ -0,0 +1,159 @@
+import { create } from 'zustand'
+import { useAppointmentStore } from './appointmentStore'
+import { useVeterinarianStore } from './veterinarianStore'
+import { findVaccinationSlot, RECALL_APPOINTMENT_DURATION, type DueVaccine, type RecallGroup, type RecallSlot } from '../services/vaccineRecalls'
+import { loadSchedulingRules } from '../services/scheduling'
+import { getBookingUrl } from '../services/booking'
+import { isEmailEnabled, sendVaccineRecall } from '../services/mail'
+import { handleGoogleError } from '../services/google'
+import { getAllVaccines, getVaccineRecalls, addVaccineRecalls, getOnlineBookingSettings } from '../db'
+import type { CreateVaccineRecallInput, Vaccine, VaccineRecall } from '../db/types'
+
+export interface RecallEmailResult {
+  sent: number // owners emailed
+  failed: number
+  skipped: number // owners without an email address
+}
+
+interface RecallState {
+  vaccines: Vaccine[]
+  recalls: VaccineRecall[]
+  isLoading: boolean
+  error: string | null
+  fetchRecallData: () => Promise<void>
+  sendRecallEmails: (groups: RecallGroup[]) => Promise<RecallEmailResult>
+  bookVaccination: (group: RecallGroup, item: DueVaccine) => Promise<RecallSlot>
+  logCall: (group: RecallGroup, item: DueVaccine, outcome: 'no_answer' | 'declined', notes?: string) => Promise<void>
+}
+
+export const useRecallStore = create<RecallState>((set, get) => ({
+  vaccines: [],
+  recalls: [],
+  isLoading: false,
+  error: null,
+
+  fetchRecallData: async () => {
+    set({ isLoading: true, error: null })
+    try {
+      const [vaccines, recalls] = await Promise.all([getAllVaccines(), getVaccineRecalls()])
+      set({ vaccines, recalls, isLoading: false })
+    } catch (error) {
+      const msg = error instanceof Error ? error.message : 'Failed to fetch vaccine recalls'
+      console.error('Failed to fetch vaccine recalls:', error)
+      set({ error: msg, isLoading: false })
+    }
+  },
+
+  // One email per owner with all their pets; every vaccine in it gets a log entry
+  sendRecallEmails: async (groups) => {
+    const result: RecallEmailResult = { sent: 0, failed: 0, skipped: 0 }
+    if (!(await isEmailEnabled())) {
+      set({ error: 'Email delivery is not set up (Settings → Emails)' })
+      return result
+    }
+    set({ isLoading: true, error: null })
+
+    const booking = await getOnlineBookingSettings().catch(() => undefined)
+    const bookingUrl = booking?.enabled && booking.slug ? getBookingUrl(booking.slug) : undefined
+    const log: CreateVaccineRecallInput[] = []
+
+    for (const { client, items } of groups) {
+      if (!client.email) {
+        result.skipped++
+        continue
+      }
+      let outcome: VaccineRecall['outcome'] = 'sent'
+      let notes = ''
+      try {
+        await sendVaccineRecall(
+          client,
+          items.map(item => ({ pet: item.pet, vaccineName: item.vaccine.name, dueDate: item.vaccine.nextDueDate! })),
+          { bookingUrl }
+        )
+        result.sent++
+      } catch (error) {
+        const googleError = handleGoogleError(error, 'gmail')
+        console.error(`Failed to send vaccine recall to client ${client.id}:`, googleError)
+        outcome = 'failed'
+        notes = googleError.message
+        result.failed++
+      }
+      for (const item of items) {
+        log.push({ vaccineId: item.vaccine.id!, petId: item.pet.id!, clientId: client.id!, method: 'email', outcome, notes })
+      }
+    }
+
+    try {
+      const added = await addVaccineRecalls(log)
+      set({ recalls: [...added.reverse(), ...get().recalls], isLoading: false })
+    } catch (error) {
+      console.error('Failed to log vaccine recalls:', error)
+      set({ error: error instanceof Error ? error.message : 'Failed to log vaccine recalls', isLoading: false })
+    }
+    return result
+  },
+
+  // Books the first free vaccination slot (the client gets the usual confirmation)
+  bookVaccination: async (group, item) => {
+    set({ error: null })
+    try {
+      const appointmentStore = useAppointmentStore.getState()
+      const slot = findVaccinationSlot(
+        item.pet,
+        item.vaccine.nextDueDate!,
+        appointmentStore.appointments,
+        useVeterinarianStore.getState().veterinarians,
+        await loadSchedulingRules()
+      )
+      if (!slot) throw new Error('No free vaccination slot in the next two weeks')
+
+      const appointmentId = await appointmentStore.addAppointment({
+        petId: item.pet.id!,
+        clientId: group.client.id!,
+        date: slot.date,
+        time: slot.time,
+        duration: RECALL_APPOINTMENT_DURATION,
+        type: 'vaccination',
+        status: 'scheduled',
+        veterinarian: slot.veterinarian?.name ?? '',
+        veterinarianId: slot.veterinarian?.id,
+        notes: `Recordatorio de vacuna: ${item.vaccine.name}`,
+        createdAt: new Date().toISOString(),
+        updatedAt: new Date().toISOString()
+      }, group.client, item.pet)
+
+      const added = await addVaccineRecalls([{
+        vaccineId: item.vaccine.id!,
+        petId: item.pet.id!,
+        clientId: group.client.id!,
+        method: 'booking',
+        outcome: 'booked',
+        appointmentId
+      }])
+      set({ recalls: [...added, ...get().recalls] })
+      return slot
+    } catch (error) {
+      console.error('Failed to book vaccination:', error)
+      set({ error: error instanceof Error ? error.message : 'Failed to book vaccination' })
+      throw error
+    }
+  },
+
+  logCall: async (group, item, outcome, notes) => {
+    set({ error: null })
+    try {
+      const added = await addVaccineRecalls([{
+        vaccineId: item.vaccine.id!,
+        petId: item.pet.id!,
+        clientId: group.client.id!,
+        method: 'phone',
+        outcome,
+        notes
+      }])
+      set({ recalls: [...added, ...get().recalls] })
+    } catch (error) {
+      console.error('Failed to log recall call:', error)
+      set({ error: error instanceof Error ? error.message : 'Failed to log call' })
+    }
+  }
+}))
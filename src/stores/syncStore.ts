@@ -0,0 +1,121 @@
+import { create } from 'zustand'
+import { getPendingMutations, onQueueChange, isLocalDbAvailable, type PendingMutation } from '../db/local'
+import { flushPendingMutations, resolveMutation } from '../db/sync'
+import { useAuthStore } from './authStore'
+import { useClientStore } from './clientStore'
+import { usePetStore } from './petStore'
+import { useAppointmentStore } from './appointmentStore'
+import { useInventoryStore } from './inventoryStore'
+import { useVeterinarianStore } from './veterinarianStore'
+
+const SYNC_INTERVAL_MS = 60 * 1000
+
+interface SyncState {
+  isOnline: boolean
+  isSyncing: boolean
+  pendingCount: number
+  conflicts: PendingMutation[]
+  lastSyncTime: string | null
+  error: string | null
+  setOnline: (isOnline: boolean) => void
+  refreshQueue: () => Promise<void>
+  syncNow: () => Promise<void>
+  resolveConflict: (seq: number, keep: 'local' | 'server') => Promise<void>
+}
+
+function refetchAll() {
+  useClientStore.getState().fetchClients()
+  usePetStore.getState().fetchPets()
+  useAppointmentStore.getState().fetchAppointments()
+  useInventoryStore.getState().fetchItems()
+  useVeterinarianStore.getState().fetchVeterinarians()
+}
+
+export const useSyncStore = create<SyncState>((set, get) => ({
+  isOnline: typeof navigator === 'undefined' ? true : navigator.onLine,
+  isSyncing: false,
+  pendingCount: 0,
+  conflicts: [],
+  lastSyncTime: null,
+  error: null,
+
+  setOnline: (isOnline) => set({ isOnline }),
+
+  refreshQueue: async () => {
+    const userId = useAuthStore.getState().user?.id
+    if (!userId || !isLocalDbAvailable()) return
+    try {
+      const mutations = await getPendingMutations(userId)
+      set({
+        pendingCount: mutations.filter(m => m.status === 'pending').length,
+        conflicts: mutations.filter(m => m.status !== 'pending')
+      })
+    } catch (error) {
+      console.error('Failed to read sync queue:', error)
+    }
+  },
+
+  syncNow: async () => {
+    const userId = useAuthStore.getState().user?.id
+    if (!userId || !isLocalDbAvailable() || get().isSyncing) return
+    set({ isSyncing: true, error: null })
+    try {
+      const result = await flushPendingMutations(userId)
+      set({
+        isSyncing: false,
+        isOnline: !result.offline,
+        lastSyncTime: result.offline ? get().lastSyncTime : new Date().toISOString()
+      })
+      // Offline-created rows now have real ids; reload so the UI stops using temporary ones
+      if (result.synced > 0) refetchAll()
+    } catch (error) {
+      console.error('Failed to sync pending changes:', error)
+      set({ isSyncing: false, error: error instanceof Error ? error.message : 'Sync failed' })
+    }
+    await get().refreshQueue()
+  },
+
+  resolveConflict: async (seq, keep) => {
+    const userId = useAuthStore.getState().user?.id
+    if (!userId) return
+    try {
+      await resolveMutation(userId, seq, keep)
+      if (keep === 'local') await get().syncNow()
+      else refetchAll()
+    } catch (error) {
+      console.error('Failed to resolve conflict:', error)
+      set({ error: error instanceof Error ? error.message : 'Failed to resolve conflict' })
+    }
+    await get().refreshQueue()
+  }
+}))
+
+// Replays the offline queue when the connection comes back and every minute while online.
+// Returns a cleanup function (call it on logout / unmount).
+export function startBackgroundSync(): () => void {
+  const { setOnline, syncNow, refreshQueue } = useSyncStore.getState()
+
+  const handleOnline = () => {
+    setOnline(true)
+    syncNow().then(refetchAll)
+  }
+  const handleOffline = () => setOnline(false)
+
+  window.addEventListener('online', handleOnline)
+  window.addEventListener('offline', handleOffline)
+  const unsubscribe = onQueueChange(() => { refreshQueue() })
+  const interval = window.setInterval(() => {
+    if (navigator.onLine) syncNow()
+  }, SYNC_INTERVAL_MS)
+
+  refreshQueue().then(() => {
+    if (navigator.onLine) syncNow()
+  })
+
+  return () => {
+    window.removeEventListener('online', handleOnline)
+    window.removeEventListener('offline', handleOffline)
+    unsubscribe()
+    window.clearInterval(interval)
+  }
+}
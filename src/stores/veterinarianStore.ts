@@ -0,0 +1,78 @@
+import { create } from 'zustand'
+import {
+  getAllVeterinarians,
+  addVeterinarian as dbAddVeterinarian,
+  updateVeterinarian as dbUpdateVeterinarian,
+  deleteVeterinarian as dbDeleteVeterinarian
+} from '../db'
+import type { Veterinarian, CreateVeterinarianInput, UpdateVeterinarianInput } from '../db/types'
+
+interface VeterinarianState {
+  veterinarians: Veterinarian[]
+  isLoading: boolean
+  error: string | null
+  fetchVeterinarians: () => Promise<void>
+  addVeterinarian: (vet: CreateVeterinarianInput) => Promise<number>
+  updateVeterinarian: (id: number, updates: UpdateVeterinarianInput) => Promise<void>
+  deleteVeterinarian: (id: number) => Promise<void>
+}
+
+export const useVeterinarianStore = create<VeterinarianState>((set) => ({
+  veterinarians: [],
+  isLoading: false,
+  error: null,
+
+  fetchVeterinarians: async () => {
+    set({ isLoading: true, error: null })
+    try {
+      const veterinarians = await getAllVeterinarians()
+      set({ veterinarians, isLoading: false })
+    } catch (error) {
+      const msg = error instanceof Error ? error.message : 'Failed to fetch veterinarians'
+      console.error('Failed to fetch veterinarians:', error)
+      set({ error: msg, isLoading: false })
+    }
+  },
+
+  addVeterinarian: async (vet) => {
+    set({ isLoading: true, error: null })
+    try {
+      const id = await dbAddVeterinarian(vet)
+      const veterinarians = await getAllVeterinarians()
+      set({ veterinarians, isLoading: false })
+      return id
+    } catch (error) {
+      console.error('Failed to add veterinarian:', error)
+      set({ error: 'Failed to add veterinarian', isLoading: false })
+      throw error
+    }
+  },
+
+  updateVeterinarian: async (id, updates) => {
+    set({ isLoading: true, error: null })
+    try {
+      await dbUpdateVeterinarian(id, updates)
+      const veterinarians = await getAllVeterinarians()
+      set({ veterinarians, isLoading: false })
+    } catch (error) {
+      console.error('Failed to update veterinarian:', error)
+      set({ error: 'Failed to update veterinarian', isLoading: false })
+      throw error
+    }
+  },
+
+  deleteVeterinarian: async (id) => {
+    set({ isLoading: true, error: null })
+    try {
+      await dbDeleteVeterinarian(id)
+      set((state) => ({
+        veterinarians: state.veterinarians.filter(v => v.id !== id),
+        isLoading: false
+      }))
+    } catch (error) {
+      console.error('Failed to delete veterinarian:', error)
+      set({ error: 'Failed to delete veterinarian', isLoading: false })
+      throw error
+    }
+  }
+}))
@@ -0,0 +1,173 @@
+import { create } from 'zustand'
+import { useAuthStore } from './authStore'
+import { useClientStore } from './clientStore'
+import { usePetStore } from './petStore'
+import { findWaitlistMatches, getClaimUrl, DEFAULT_OFFER_HOURS, type FreedSlot } from '../services/waitlist'
+import { isEmailEnabled, sendWaitlistOffer } from '../services/mail'
+import { handleGoogleError } from '../services/google'
+import {
+  getWaitlistEntries,
+  addWaitlistEntry as dbAddWaitlistEntry,
+  updateWaitlistEntry as dbUpdateWaitlistEntry,
+  deleteWaitlistEntry as dbDeleteWaitlistEntry,
+  getWaitlistOffers,
+  createWaitlistOffers
+} from '../db'
+import type {
+  Appointment,
+  WaitlistEntry,
+  WaitlistOffer,
+  CreateWaitlistEntryInput,
+  UpdateWaitlistEntryInput
+} from '../db/types'
+
+export interface OfferResult {
+  offers: WaitlistOffer[]
+  emailed: number[] // entry ids whose offer email was sent
+}
+
+interface WaitlistState {
+  entries: WaitlistEntry[]
+  offers: WaitlistOffer[]
+  isLoading: boolean
+  error: string | null
+  // Slot freed by the last cancellation and the waitlisted clients that fit it
+  freedSlot: FreedSlot | null
+  matches: WaitlistEntry[]
+  fetchEntries: () => Promise<void>
+  fetchOffers: () => Promise<void>
+  addEntry: (entry: CreateWaitlistEntryInput) => Promise<number>
+  updateEntry: (id: number, updates: UpdateWaitlistEntryInput) => Promise<void>
+  deleteEntry: (id: number) => Promise<void>
+  handleCancellation: (appointment: Appointment, appointments: Appointment[]) => Promise<void>
+  offerSlot: (entryIds: number[], hours?: number) => Promise<OfferResult>
+  dismissFreedSlot: () => void
+}
+
+export const useWaitlistStore = create<WaitlistState>((set, get) => ({
+  entries: [],
+  offers: [],
+  isLoading: false,
+  error: null,
+  freedSlot: null,
+  matches: [],
+
+  fetchEntries: async () => {
+    set({ isLoading: true, error: null })
+    try {
+      const entries = await getWaitlistEntries()
+      set({ entries, isLoading: false })
+    } catch (error) {
+      const msg = error instanceof Error ? error.message : 'Failed to fetch waitlist'
+      console.error('Failed to fetch waitlist:', error)
+      set({ error: msg, isLoading: false })
+    }
+  },
+
+  fetchOffers: async () => {
+    try {
+      const offers = await getWaitlistOffers()
+      set({ offers })
+    } catch (error) {
+      console.error('Failed to fetch waitlist offers:', error)
+    }
+  },
+
+  addEntry: async (entry) => {
+    set({ isLoading: true, error: null })
+    try {
+      const id = await dbAddWaitlistEntry(entry)
+      const entries = await getWaitlistEntries()
+      set({ entries, isLoading: false })
+      return id
+    } catch (error) {
+      console.error('Failed to add waitlist entry:', error)
+      set({ error: 'Failed to add waitlist entry', isLoading: false })
+      throw error
+    }
+  },
+
+  updateEntry: async (id, updates) => {
+    set({ isLoading: true, error: null })
+    try {
+      await dbUpdateWaitlistEntry(id, updates)
+      const entries = await getWaitlistEntries()
+      set({ entries, isLoading: false })
+    } catch (error) {
+      console.error('Failed to update waitlist entry:', error)
+      set({ error: 'Failed to update waitlist entry', isLoading: false })
+      throw error
+    }
+  },
+
+  deleteEntry: async (id) => {
+    set({ isLoading: true, error: null })
+    try {
+      await dbDeleteWaitlistEntry(id)
+      set((state) => ({
+        entries: state.entries.filter(e => e.id !== id),
+        isLoading: false
+      }))
+    } catch (error) {
+      console.error('Failed to delete waitlist entry:', error)
+      set({ error: 'Failed to delete waitlist entry', isLoading: false })
+      throw error
+    }
+  },
+
+  // Called by the appointment store when an appointment is cancelled; the offer modal opens when someone fits
+  handleCancellation: async (appointment, appointments) => {
+    try {
+      const entries = await getWaitlistEntries()
+      const matches = findWaitlistMatches(appointment, entries, appointments)
+      set({ entries, freedSlot: matches.length > 0 ? appointment : null, matches })
+    } catch (error) {
+      console.error('Failed to match waitlist:', error)
+    }
+  },
+
+  // Create one claim link per selected client and email it (when Gmail is connected)
+  offerSlot: async (entryIds, hours = DEFAULT_OFFER_HOURS) => {
+    const { freedSlot, entries } = get()
+    if (!freedSlot) throw new Error('No freed slot to offer')
+    const expiresAt = new Date(Date.now() + hours * 60 * 60 * 1000).toISOString()
+
+    const offers = await createWaitlistOffers(entryIds.map(entryId => ({
+      entryId,
+      cancelledAppointmentId: freedSlot.id,
+      date: freedSlot.date,
+      time: freedSlot.time,
+      duration: freedSlot.duration,
+      type: freedSlot.type,
+      veterinarian: freedSlot.veterinarian,
+      veterinarianId: freedSlot.veterinarianId,
+      expiresAt
+    })))
+
+    const emailed: number[] = []
+    const { clinicName } = useAuthStore.getState()
+    const emailEnabled = await isEmailEnabled()
+    const { clients } = useClientStore.getState()
+    const { pets } = usePetStore.getState()
+    for (const offer of offers) {
+      const entry = entries.find(e => e.id === offer.entryId)
+      const client = clients.find(c => c.id === entry?.clientId)
+      const pet = pets.find(p => p.id === entry?.petId)
+      await dbUpdateWaitlistEntry(offer.entryId, { status: 'offered' })
+      if (!emailEnabled || !client?.email || !pet) continue
+      try {
+        await sendWaitlistOffer(client, pet, offer, getClaimUrl(offer.token), offer.expiresAt, clinicName ?? undefined)
+        emailed.push(offer.entryId)
+      } catch (error) {
+        const googleError = handleGoogleError(error, 'gmail')
+        console.error('Failed to send waitlist offer:', googleError)
+      }
+    }
+
+    const [updatedEntries, allOffers] = await Promise.all([getWaitlistEntries(), getWaitlistOffers()])
+    set({ entries: updatedEntries, offers: allOffers })
+    return { offers, emailed }
+  },
+
+  dismissFreedSlot: () => set({ freedSlot: null, matches: [] })
+}))
@@ -4,8 +4,49 @@ interface ImportMetaEnv {
   readonly VITE_GOOGLE_CLIENT_ID: string
   readonly VITE_GOOGLE_CLIENT_SECRET: string
   readonly VITE_GOOGLE_REDIRECT_URI: string
+  readonly VITE_PUBLIC_APP_URL: string
 }
 
 interface ImportMeta {
   readonly env: ImportMetaEnv
 }
+
+// Desktop bridge exposed by electron/preload.ts - undefined when running in the browser
+interface Window {
+  electronAPI?: {
+    getAppVersion: () => Promise<string>
+    minimizeWindow: () => Promise<void>
+    maximizeWindow: () => Promise<void>
+    closeWindow: () => Promise<void>
+    isMaximized: () => Promise<boolean>
+    showNotification: (title: string, body: string) => Promise<boolean>
+    savePdf?: (html: string, fileName: string) => Promise<boolean>
+    sendSmtpMail?: (envelope: { from: string; to: string[] }, raw: string) => Promise<void>
+    getSmtpAccount?: () => Promise<{
+      host: string
+      port: number
+      security: 'tls' | 'starttls' | 'none'
+      user: string
+      hasPassword: boolean
+    } | null>
+    setSmtpAccount?: (account: {
+      host: string
+      port: number
+      security: 'tls' | 'starttls' | 'none'
+      user: string
+      password: string
+    }) => Promise<void>
+    sendTwilioMessage?: (message: {
+      channel: 'sms' | 'whatsapp'
+      accountSid: string
+      from: string
+      to: string
+      body: string
+    }) => Promise<{ ok: boolean; status: number; body: string }>
+    setSecret?: (name: string, value: string) => Promise<void>
+    hasSecret?: (name: string) => Promise<boolean>
+    platform: string
+    onMaximizeChange: (callback: (isMaximized: boolean) => void) => () => void
+    onRunReminders: (callback: () => void) => () => void
+  }
+}
@@ -0,0 +1,33 @@
+-- VetSoft - Inventory movement ledger (sales, restocks, adjustments, expiry write-offs, returns)
+-- Run AFTER 001-004
+-- inventory.quantity is kept equal to the running total of movements by the app
+
+create table if not exists inventory_movements (
+  id bigserial primary key,
+  user_id uuid references auth.users(id) on delete cascade not null,
+  inventory_id bigint references inventory(id) on delete cascade not null,
+  type text not null check (type in ('sale', 'restock', 'adjustment', 'expiry', 'return')),
+  quantity numeric not null,
+  quantity_after numeric not null default 0,
+  appointment_id bigint references appointments(id) on delete set null,
+  sale_item_id bigint references sale_items(id) on delete set null,
+  unit_cost numeric,
+  reference text default '',
+  notes text default '',
+  created_at timestamptz default now()
+);
+
+alter table inventory_movements enable row level security;
+
+create policy "Users can manage own inventory_movements"
+  on inventory_movements for all using (auth.uid() = user_id);
+
+create index inventory_movements_inventory_id_idx on inventory_movements(inventory_id);
+create index inventory_movements_created_at_idx on inventory_movements(created_at);
+
+-- Opening balance for items that already have stock
+insert into inventory_movements (user_id, inventory_id, type, quantity, quantity_after, notes)
+select user_id, id, 'adjustment', quantity, quantity, 'Opening balance'
+from inventory
+where quantity <> 0
+  and not exists (select 1 from inventory_movements m where m.inventory_id = inventory.id);
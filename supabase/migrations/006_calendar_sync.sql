@@ -0,0 +1,8 @@
+-- VetSoft - Two-way Google Calendar sync
+-- Run AFTER 001-005
+-- Appointments whose Calendar event could not be created/updated are flagged and pushed on the next sync.
+-- The sync token and last sync time are stored in settings (key googleCalendarSync).
+
+alter table appointments add column if not exists google_sync_pending boolean default false;
+
+create index if not exists appointments_google_calendar_event_id_idx on appointments(google_calendar_event_id);
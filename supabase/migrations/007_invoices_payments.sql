@@ -0,0 +1,53 @@
+-- VetSoft - Invoices and payments
+-- Run AFTER 001-006
+-- Invoices are numbered per user and store their line items (service + sale items) as jsonb.
+-- payments holds payments and refunds; invoices.amount_paid and appointments.amount_paid are kept
+-- equal to payments minus refunds by the app.
+
+create table if not exists invoices (
+  id bigserial primary key,
+  user_id uuid references auth.users(id) on delete cascade not null,
+  number integer not null,
+  appointment_id bigint references appointments(id) on delete set null,
+  client_id bigint references clients(id) on delete set null,
+  issue_date date not null default current_date,
+  items jsonb not null default '[]',
+  subtotal numeric not null default 0,
+  tax_amount numeric not null default 0,
+  total numeric not null default 0,
+  amount_paid numeric not null default 0,
+  status text not null default 'issued' check (status in ('issued', 'partial', 'paid', 'refunded')),
+  notes text default '',
+  created_at timestamptz default now(),
+  updated_at timestamptz default now(),
+  unique (user_id, number)
+);
+
+create table if not exists payments (
+  id bigserial primary key,
+  user_id uuid references auth.users(id) on delete cascade not null,
+  invoice_id bigint references invoices(id) on delete cascade not null,
+  appointment_id bigint references appointments(id) on delete set null,
+  client_id bigint references clients(id) on delete set null,
+  type text not null default 'payment' check (type in ('payment', 'refund')),
+  method text not null check (method in ('cash', 'card', 'transfer')),
+  amount numeric not null check (amount > 0),
+  reference text default '',
+  notes text default '',
+  paid_at timestamptz not null default now(),
+  created_at timestamptz default now()
+);
+
+alter table invoices enable row level security;
+alter table payments enable row level security;
+
+create policy "Users can manage own invoices"
+  on invoices for all using (auth.uid() = user_id);
+
+create policy "Users can manage own payments"
+  on payments for all using (auth.uid() = user_id);
+
+create index invoices_appointment_id_idx on invoices(appointment_id);
+create index invoices_client_id_idx on invoices(client_id);
+create index payments_invoice_id_idx on payments(invoice_id);
+create index payments_client_id_idx on payments(client_id);
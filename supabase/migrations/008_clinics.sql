@@ -0,0 +1,168 @@
+-- VetSoft - Clinics, staff and roles
+-- Run AFTER 001-007
+-- Every row keeps user_id = the clinic owner's auth id, so all staff of a clinic share one data set.
+-- clinic_owner_id() maps the signed-in user to that owner (or to themselves when not in a clinic)
+-- and every policy below compares user_id against it instead of auth.uid().
+-- Roles: admin (everything), veterinarian (no staff management or data reset), receptionist (also no medical records).
+
+create table if not exists clinics (
+  id bigserial primary key,
+  owner_id uuid references auth.users(id) on delete cascade not null unique,
+  name text not null default 'VetSoft Clinic',
+  created_at timestamptz default now()
+);
+
+create table if not exists clinic_members (
+  id bigserial primary key,
+  clinic_id bigint references clinics(id) on delete cascade not null,
+  user_id uuid references auth.users(id) on delete cascade not null unique, -- one clinic per login
+  email text not null,
+  name text default '',
+  role text not null default 'veterinarian' check (role in ('admin', 'veterinarian', 'receptionist')),
+  created_at timestamptz default now()
+);
+
+create table if not exists clinic_invitations (
+  id bigserial primary key,
+  clinic_id bigint references clinics(id) on delete cascade not null,
+  email text not null,
+  role text not null default 'veterinarian' check (role in ('admin', 'veterinarian', 'receptionist')),
+  invited_by uuid references auth.users(id) on delete set null,
+  accepted_at timestamptz,
+  created_at timestamptz default now(),
+  unique (clinic_id, email)
+);
+
+-- Helpers (security definer so policies can read clinic_members without recursion)
+create or replace function clinic_owner_id() returns uuid
+language sql stable security definer set search_path = public as $$
+  select coalesce(
+    (select c.owner_id from clinic_members m join clinics c on c.id = m.clinic_id where m.user_id = auth.uid()),
+    auth.uid()
+  )
+$$;
+
+create or replace function clinic_role() returns text
+language sql stable security definer set search_path = public as $$
+  select coalesce((select m.role from clinic_members m where m.user_id = auth.uid()), 'admin')
+$$;
+
+create or replace function clinic_id() returns bigint
+language sql stable security definer set search_path = public as $$
+  select m.clinic_id from clinic_members m where m.user_id = auth.uid()
+$$;
+
+-- Called after sign-in: accepts a pending invitation for the user's email, or creates the user's
+-- own clinic (existing single-user accounts become the admin of a clinic with their data).
+create or replace function ensure_clinic_membership()
+returns table (clinic_id bigint, clinic_name text, owner_id uuid, role text)
+language plpgsql security definer set search_path = public as $$
+#variable_conflict use_column
+declare
+  v_email text := lower(coalesce(auth.jwt() ->> 'email', ''));
+  v_invitation clinic_invitations%rowtype;
+  v_clinic_id bigint;
+begin
+  if auth.uid() is null then
+    raise exception 'Not authenticated';
+  end if;
+
+  if not exists (select 1 from clinic_members m where m.user_id = auth.uid()) then
+    select * into v_invitation from clinic_invitations i
+      where lower(i.email) = v_email and i.accepted_at is null
+      order by i.created_at desc limit 1;
+
+    if found then
+      insert into clinic_members (clinic_id, user_id, email, role)
+        values (v_invitation.clinic_id, auth.uid(), v_email, v_invitation.role);
+      update clinic_invitations set accepted_at = now() where id = v_invitation.id;
+    else
+      insert into clinics (owner_id) values (auth.uid())
+        on conflict on constraint clinics_owner_id_key do nothing;
+      select c.id into v_clinic_id from clinics c where c.owner_id = auth.uid();
+      insert into clinic_members (clinic_id, user_id, email, role)
+        values (v_clinic_id, auth.uid(), v_email, 'admin');
+    end if;
+  end if;
+
+  return query
+    select c.id, c.name, c.owner_id, m.role
+    from clinic_members m join clinics c on c.id = m.clinic_id
+    where m.user_id = auth.uid();
+end;
+$$;
+
+alter table clinics enable row level security;
+alter table clinic_members enable row level security;
+alter table clinic_invitations enable row level security;
+
+create policy "Members can view their clinic" on clinics for select using (id = clinic_id());
+create policy "Admins can update their clinic" on clinics for update using (id = clinic_id() and clinic_role() = 'admin');
+
+create policy "Members can view clinic staff" on clinic_members for select using (clinic_id = clinic_id());
+create policy "Admins can manage clinic staff" on clinic_members for all
+  using (clinic_id = clinic_id() and clinic_role() = 'admin')
+  with check (clinic_id = clinic_id() and clinic_role() = 'admin');
+
+create policy "Admins can manage invitations" on clinic_invitations for all
+  using (clinic_id = clinic_id() and clinic_role() = 'admin')
+  with check (clinic_id = clinic_id() and clinic_role() = 'admin');
+
+-- Shared clinic data: replace the per-user policies
+drop policy if exists "Users can view own clients" on clients;
+drop policy if exists "Users can insert own clients" on clients;
+drop policy if exists "Users can update own clients" on clients;
+drop policy if exists "Users can delete own clients" on clients;
+drop policy if exists "Users can view own pets" on pets;
+drop policy if exists "Users can insert own pets" on pets;
+drop policy if exists "Users can update own pets" on pets;
+drop policy if exists "Users can delete own pets" on pets;
+drop policy if exists "Users can view own appointments" on appointments;
+drop policy if exists "Users can insert own appointments" on appointments;
+drop policy if exists "Users can update own appointments" on appointments;
+drop policy if exists "Users can delete own appointments" on appointments;
+drop policy if exists "Users can view own settings" on settings;
+drop policy if exists "Users can insert own settings" on settings;
+drop policy if exists "Users can update own settings" on settings;
+drop policy if exists "Users can delete own settings" on settings;
+drop policy if exists "Users can manage own inventory" on inventory;
+drop policy if exists "Users can manage own sale_items" on sale_items;
+drop policy if exists "Users can manage own medical_records" on medical_records;
+drop policy if exists "Users can manage own vaccines" on vaccines;
+drop policy if exists "Users can manage own appointment_attachments" on appointment_attachments;
+drop policy if exists "Users can manage own inventory_movements" on inventory_movements;
+drop policy if exists "Users can manage own invoices" on invoices;
+drop policy if exists "Users can manage own payments" on payments;
+
+create policy "Clinic staff can manage clients" on clients for all
+  using (user_id = clinic_owner_id()) with check (user_id = clinic_owner_id());
+create policy "Clinic staff can manage pets" on pets for all
+  using (user_id = clinic_owner_id()) with check (user_id = clinic_owner_id());
+create policy "Clinic staff can manage appointments" on appointments for all
+  using (user_id = clinic_owner_id()) with check (user_id = clinic_owner_id());
+create policy "Clinic staff can manage inventory" on inventory for all
+  using (user_id = clinic_owner_id()) with check (user_id = clinic_owner_id());
+create policy "Clinic staff can manage sale_items" on sale_items for all
+  using (user_id = clinic_owner_id()) with check (user_id = clinic_owner_id());
+create policy "Clinic staff can manage vaccines" on vaccines for all
+  using (user_id = clinic_owner_id()) with check (user_id = clinic_owner_id());
+create policy "Clinic staff can manage inventory_movements" on inventory_movements for all
+  using (user_id = clinic_owner_id()) with check (user_id = clinic_owner_id());
+create policy "Clinic staff can manage invoices" on invoices for all
+  using (user_id = clinic_owner_id()) with check (user_id = clinic_owner_id());
+create policy "Clinic staff can manage payments" on payments for all
+  using (user_id = clinic_owner_id()) with check (user_id = clinic_owner_id());
+
+create policy "Clinic staff can manage settings" on settings for all
+  using (user_id = clinic_owner_id()) with check (user_id = clinic_owner_id());
+
+-- Medical records and attachments (studies, X-rays): not for receptionists
+create policy "Clinical staff can manage medical_records" on medical_records for all
+  using (user_id = clinic_owner_id() and clinic_role() <> 'receptionist')
+  with check (user_id = clinic_owner_id() and clinic_role() <> 'receptionist');
+create policy "Clinical staff can manage appointment_attachments" on appointment_attachments for all
+  using (user_id = clinic_owner_id() and clinic_role() <> 'receptionist')
+  with check (user_id = clinic_owner_id() and clinic_role() <> 'receptionist');
+
+create index if not exists clinic_members_clinic_id_idx on clinic_members(clinic_id);
+create index if not exists clinic_invitations_email_idx on clinic_invitations(lower(email));
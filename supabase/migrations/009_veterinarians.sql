@@ -0,0 +1,29 @@
+-- VetSoft - Veterinarian roster and schedules
+-- Run AFTER 001-008
+-- working_hours: { "1": { "start": "09:00", "end": "18:00" }, ... } keyed by weekday (0 = Sunday); missing day = not working.
+-- appointments.veterinarian keeps the vet's name for display and for appointments made before the roster existed.
+
+create table if not exists veterinarians (
+  id bigserial primary key,
+  user_id uuid references auth.users(id) on delete cascade not null,
+  name text not null,
+  email text default '',
+  phone text default '',
+  color text default '#0D9488',
+  specialties text[] default '{}',
+  working_hours jsonb default '{}'::jsonb,
+  days_off date[] default '{}',
+  active boolean default true,
+  created_at timestamptz default now(),
+  updated_at timestamptz default now()
+);
+
+alter table appointments add column if not exists veterinarian_id bigint references veterinarians(id) on delete set null;
+
+alter table veterinarians enable row level security;
+
+create policy "Clinic staff can manage veterinarians" on veterinarians for all
+  using (user_id = clinic_owner_id()) with check (user_id = clinic_owner_id());
+
+create index if not exists veterinarians_user_id_idx on veterinarians(user_id);
+create index if not exists appointments_veterinarian_id_idx on appointments(veterinarian_id);
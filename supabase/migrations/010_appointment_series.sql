@@ -0,0 +1,29 @@
+-- VetSoft - Recurring appointments (treatment series)
+-- Run AFTER 001-009
+-- A series holds the recurrence rule; every session is a regular appointments row with series_id set,
+-- so single sessions can be moved or cancelled on their own.
+-- google_calendar_event_id is the recurring Google event; each session stores its instance id.
+
+create table if not exists appointment_series (
+  id bigserial primary key,
+  user_id uuid references auth.users(id) on delete cascade not null,
+  client_id bigint references clients(id) on delete cascade,
+  pet_id bigint references pets(id) on delete cascade,
+  frequency text not null check (frequency in ('daily', 'weekly', 'monthly')),
+  interval integer not null default 1 check (interval > 0),
+  occurrences integer check (occurrences > 0),
+  until_date date,
+  google_calendar_event_id text,
+  created_at timestamptz default now(),
+  updated_at timestamptz default now()
+);
+
+alter table appointments add column if not exists series_id bigint references appointment_series(id) on delete set null;
+
+alter table appointment_series enable row level security;
+
+create policy "Clinic staff can manage appointment series" on appointment_series for all
+  using (user_id = clinic_owner_id()) with check (user_id = clinic_owner_id());
+
+create index if not exists appointment_series_user_id_idx on appointment_series(user_id);
+create index if not exists appointments_series_id_idx on appointments(series_id);
@@ -0,0 +1,135 @@
+-- VetSoft - Waitlist and slot offers
+-- Run AFTER 001-010
+-- waitlist_entries: clients waiting for an earlier slot (preferred date range and time window).
+-- waitlist_offers: a freed slot offered to waitlisted clients by email. Every offer for the same
+-- cancelled appointment competes for one slot; claim_waitlist_offer() books it for the first
+-- client to open the link and expires the other offers.
+
+create table if not exists waitlist_entries (
+  id bigserial primary key,
+  user_id uuid references auth.users(id) on delete cascade not null,
+  client_id bigint references clients(id) on delete cascade not null,
+  pet_id bigint references pets(id) on delete cascade not null,
+  type text not null default 'consultation',
+  veterinarian_id bigint references veterinarians(id) on delete set null,
+  date_from date not null,
+  date_to date not null,
+  time_from time not null default '08:00',
+  time_to time not null default '20:00',
+  duration integer not null default 30,
+  notes text default '',
+  status text not null default 'waiting' check (status in ('waiting', 'offered', 'booked', 'removed')),
+  created_at timestamptz default now(),
+  updated_at timestamptz default now()
+);
+
+create table if not exists waitlist_offers (
+  id bigserial primary key,
+  user_id uuid references auth.users(id) on delete cascade not null,
+  entry_id bigint references waitlist_entries(id) on delete cascade not null,
+  cancelled_appointment_id bigint references appointments(id) on delete set null,
+  date date not null,
+  time time not null,
+  duration integer not null default 30,
+  type text not null,
+  veterinarian text default '',
+  veterinarian_id bigint references veterinarians(id) on delete set null,
+  token uuid not null unique default gen_random_uuid(),
+  status text not null default 'open' check (status in ('open', 'claimed', 'expired')),
+  claimed_appointment_id bigint references appointments(id) on delete set null,
+  expires_at timestamptz not null,
+  created_at timestamptz default now()
+);
+
+alter table waitlist_entries enable row level security;
+alter table waitlist_offers enable row level security;
+
+create policy "Clinic staff can manage waitlist entries" on waitlist_entries for all
+  using (user_id = clinic_owner_id()) with check (user_id = clinic_owner_id());
+
+create policy "Clinic staff can manage waitlist offers" on waitlist_offers for all
+  using (user_id = clinic_owner_id()) with check (user_id = clinic_owner_id());
+
+create index if not exists waitlist_entries_user_id_idx on waitlist_entries(user_id);
+create index if not exists waitlist_offers_user_id_idx on waitlist_offers(user_id);
+create index if not exists waitlist_offers_cancelled_appointment_id_idx on waitlist_offers(cancelled_appointment_id);
+
+-- Public (anon) view of an offer for the claim page: slot, pet and clinic only
+create or replace function get_waitlist_offer(p_token uuid)
+returns table (status text, date date, "time" time, duration integer, type text, veterinarian text,
+  pet_name text, clinic_name text, expires_at timestamptz)
+language sql stable security definer set search_path = public as $$
+  select
+    case when o.status = 'open' and o.expires_at < now() then 'expired' else o.status end,
+    o.date, o.time, o.duration, o.type, o.veterinarian, p.name,
+    coalesce((select c.name from clinics c where c.owner_id = o.user_id), 'VetSoft'),
+    o.expires_at
+  from waitlist_offers o
+  join waitlist_entries e on e.id = o.entry_id
+  join pets p on p.id = e.pet_id
+  where o.token = p_token
+$$;
+
+-- First come, first served: locks every offer for the same freed slot, books the appointment
+-- for this client and expires the rest. Returns 'claimed', 'taken', 'expired' or 'not_found'.
+create or replace function claim_waitlist_offer(p_token uuid)
+returns text
+language plpgsql security definer set search_path = public as $$
+declare
+  v_offer waitlist_offers%rowtype;
+  v_entry waitlist_entries%rowtype;
+  v_appointment_id bigint;
+begin
+  select * into v_offer from waitlist_offers where token = p_token;
+  if not found then
+    return 'not_found';
+  end if;
+
+  perform 1 from waitlist_offers
+    where user_id = v_offer.user_id
+      and cancelled_appointment_id is not distinct from v_offer.cancelled_appointment_id
+      and date = v_offer.date and time = v_offer.time
+    for update;
+
+  select * into v_offer from waitlist_offers where id = v_offer.id;
+  if v_offer.status = 'claimed' then
+    return 'claimed';
+  end if;
+  if v_offer.status <> 'open' or v_offer.expires_at < now() then
+    return 'expired';
+  end if;
+  if exists (
+    select 1 from waitlist_offers
+    where user_id = v_offer.user_id
+      and cancelled_appointment_id is not distinct from v_offer.cancelled_appointment_id
+      and date = v_offer.date and time = v_offer.time
+      and status = 'claimed'
+  ) then
+    update waitlist_offers set status = 'expired' where id = v_offer.id;
+    return 'taken';
+  end if;
+
+  select * into v_entry from waitlist_entries where id = v_offer.entry_id;
+
+  -- google_sync_pending: the clinic's next calendar sync creates the Google event
+  insert into appointments (user_id, pet_id, client_id, date, time, duration, type, status,
+    veterinarian, veterinarian_id, notes, google_sync_pending, created_at, updated_at)
+  values (v_offer.user_id, v_entry.pet_id, v_entry.client_id, v_offer.date, v_offer.time, v_offer.duration,
+    v_offer.type, 'scheduled', coalesce(v_offer.veterinarian, ''), v_offer.veterinarian_id,
+    'Reservada desde la lista de espera', true, now(), now())
+  returning id into v_appointment_id;
+
+  update waitlist_offers set status = 'claimed', claimed_appointment_id = v_appointment_id where id = v_offer.id;
+  update waitlist_offers set status = 'expired'
+    where user_id = v_offer.user_id
+      and cancelled_appointment_id is not distinct from v_offer.cancelled_appointment_id
+      and date = v_offer.date and time = v_offer.time
+      and id <> v_offer.id and status = 'open';
+  update waitlist_entries set status = 'booked', updated_at = now() where id = v_entry.id;
+
+  return 'claimed';
+end;
+$$;
+
+grant execute on function get_waitlist_offer(uuid) to anon, authenticated;
+grant execute on function claim_waitlist_offer(uuid) to anon, authenticated;
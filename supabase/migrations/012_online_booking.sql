@@ -0,0 +1,147 @@
+-- VetSoft - Online self-booking portal for pet owners (public /book page)
+-- Run AFTER 001-011
+-- The portal runs without sign-in (anon role). Anonymous visitors only get free/busy data of clinics
+-- that turned online booking on: appointment times/durations/types (no pets, clients or notes), the
+-- opening-hours settings and the vet roster schedule. Identifying the owner and booking go through the
+-- security definer functions below, which match the client by email or phone.
+
+alter table clinics add column if not exists booking_enabled boolean not null default false;
+alter table clinics add column if not exists booking_slug uuid not null unique default gen_random_uuid();
+
+-- Owner id of a clinic accepting online bookings (null when disabled or unknown)
+create or replace function booking_clinic_owner(p_slug uuid) returns uuid
+language sql stable security definer set search_path = public as $$
+  select owner_id from clinics where booking_slug = p_slug and booking_enabled
+$$;
+
+create or replace function accepts_online_booking(p_owner uuid) returns boolean
+language sql stable security definer set search_path = public as $$
+  select exists (select 1 from clinics where owner_id = p_owner and booking_enabled)
+$$;
+
+-- Free/busy: column grants limit what anon can read, the policies limit which rows
+revoke select on appointments from anon;
+grant select (user_id, date, time, duration, type, status, veterinarian_id) on appointments to anon;
+create policy "Public can read free/busy of booking clinics" on appointments for select to anon
+  using (status not in ('cancelled', 'no-show') and accepts_online_booking(user_id));
+
+revoke select on settings from anon;
+grant select (user_id, key, value) on settings to anon;
+create policy "Public can read opening hours of booking clinics" on settings for select to anon
+  using (key in ('clinic_hours', 'clinic_holidays', 'single_room_types') and accepts_online_booking(user_id));
+
+revoke select on veterinarians from anon;
+grant select (id, user_id, working_hours, days_off, active) on veterinarians to anon;
+create policy "Public can read vet schedules of booking clinics" on veterinarians for select to anon
+  using (active and accepts_online_booking(user_id));
+
+-- Clinic shown on the portal
+create or replace function get_booking_clinic(p_slug uuid)
+returns table (owner_id uuid, name text)
+language sql stable security definer set search_path = public as $$
+  select c.owner_id, c.name from clinics c where c.booking_slug = p_slug and c.booking_enabled
+$$;
+
+-- Client matching an email (case-insensitive) or phone (digits only) and their pets.
+-- No rows = unknown owner; one row with a null pet_id = known owner without pets.
+create or replace function find_booking_client(p_slug uuid, p_contact text)
+returns table (first_name text, pet_id bigint, pet_name text, species text)
+language sql stable security definer set search_path = public as $$
+  with client as (
+    select cl.id, cl.first_name from clients cl
+    where cl.user_id = booking_clinic_owner(p_slug)
+      and (
+        lower(cl.email) = lower(trim(p_contact))
+        or (length(regexp_replace(p_contact, '\D', '', 'g')) >= 6
+          and regexp_replace(cl.phone, '\D', '', 'g') = regexp_replace(p_contact, '\D', '', 'g'))
+      )
+    order by cl.created_at
+    limit 1
+  )
+  select client.first_name, p.id, p.name, p.species
+  from client left join pets p on p.client_id = client.id
+  order by p.name
+$$;
+
+-- Books a slot for the owner's pet (or registers a new pet when p_pet_id is null).
+-- Bookings land as 'scheduled' for staff to confirm. Bookings of the same clinic and day are serialized
+-- and the slot is re-checked: it is 'taken' when the pet already has an appointment then, or when
+-- overlapping appointments already use every active vet (one when the clinic has no roster).
+-- Returns 'booked', 'taken' or 'not_found'.
+create or replace function book_online_appointment(
+  p_slug uuid, p_contact text, p_pet_id bigint, p_pet_name text, p_pet_species text,
+  p_date text, p_time text, p_duration integer, p_type text, p_notes text
+)
+returns text
+language plpgsql security definer set search_path = public as $$
+declare
+  v_owner uuid := booking_clinic_owner(p_slug);
+  v_client_id bigint;
+  v_pet_id bigint := p_pet_id;
+  v_duration integer := least(greatest(coalesce(p_duration, 30), 15), 240);
+  v_start integer := split_part(p_time, ':', 1)::integer * 60 + split_part(p_time, ':', 2)::integer;
+  v_capacity integer;
+  v_overlapping integer;
+begin
+  if v_owner is null or p_type not in ('consultation', 'vaccination', 'grooming', 'follow-up') then
+    return 'not_found';
+  end if;
+
+  select cl.id into v_client_id from clients cl
+  where cl.user_id = v_owner
+    and (
+      lower(cl.email) = lower(trim(p_contact))
+      or (length(regexp_replace(p_contact, '\D', '', 'g')) >= 6
+        and regexp_replace(cl.phone, '\D', '', 'g') = regexp_replace(p_contact, '\D', '', 'g'))
+    )
+  order by cl.created_at
+  limit 1;
+  if v_client_id is null then
+    return 'not_found';
+  end if;
+
+  if v_pet_id is null then
+    if coalesce(trim(p_pet_name), '') = '' then
+      return 'not_found';
+    end if;
+    insert into pets (user_id, client_id, name, species, gender, notes)
+    values (v_owner, v_client_id, trim(p_pet_name),
+      case when p_pet_species in ('dog', 'cat', 'bird', 'rabbit', 'hamster', 'fish', 'reptile') then p_pet_species else 'other' end,
+      'unknown', 'Registrada desde las reservas online')
+    returning id into v_pet_id;
+  elsif not exists (select 1 from pets where id = v_pet_id and client_id = v_client_id) then
+    return 'not_found';
+  end if;
+
+  perform pg_advisory_xact_lock(hashtext(v_owner::text || p_date));
+
+  select greatest(count(*), 1) into v_capacity from veterinarians where user_id = v_owner and active;
+
+  select count(*) into v_overlapping from appointments a
+  where a.user_id = v_owner and a.date = p_date
+    and a.status not in ('cancelled', 'no-show')
+    and split_part(a.time, ':', 1)::integer * 60 + split_part(a.time, ':', 2)::integer < v_start + v_duration
+    and split_part(a.time, ':', 1)::integer * 60 + split_part(a.time, ':', 2)::integer + coalesce(a.duration, 30) > v_start;
+
+  if v_overlapping >= v_capacity or exists (
+    select 1 from appointments a
+    where a.pet_id = v_pet_id and a.date = p_date and a.time = p_time and a.status not in ('cancelled', 'no-show')
+  ) then
+    return 'taken';
+  end if;
+
+  -- google_sync_pending: the clinic's next calendar sync creates the Google event
+  insert into appointments (user_id, pet_id, client_id, date, time, duration, type, status,
+    veterinarian, notes, google_sync_pending, created_at, updated_at)
+  values (v_owner, v_pet_id, v_client_id, p_date, p_time, v_duration, p_type, 'scheduled', '',
+    trim('Reservada online. ' || coalesce(p_notes, '')), true, now(), now());
+
+  return 'booked';
+end;
+$$;
+
+grant execute on function get_booking_clinic(uuid) to anon, authenticated;
+grant execute on function find_booking_client(uuid, text) to anon, authenticated;
+grant execute on function book_online_appointment(uuid, text, bigint, text, text, text, text, integer, text, text) to anon, authenticated;
+
+create index if not exists clients_email_lower_idx on clients(user_id, lower(email));
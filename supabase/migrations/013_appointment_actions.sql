@@ -0,0 +1,188 @@
+-- VetSoft - Confirm / cancel / reschedule links in appointment emails
+-- Run AFTER 001-012
+-- Links carry a signed token "<appointment id>.<expiry epoch>.<hmac>" (HMAC-SHA256 with a per-clinic
+-- secret that only these functions can read), valid until the appointment starts. Owners open them
+-- signed out; their choice is stored as a request and the clinic app applies it through the normal
+-- appointment update (status, Google Calendar event, emails, waitlist).
+
+create extension if not exists pgcrypto with schema extensions;
+
+-- No policies: only the security definer functions below read the secrets
+create table if not exists clinic_secrets (
+  owner_id uuid primary key references auth.users(id) on delete cascade,
+  action_secret text not null default encode(extensions.gen_random_bytes(32), 'hex')
+);
+
+create table if not exists appointment_action_requests (
+  id bigserial primary key,
+  user_id uuid references auth.users(id) on delete cascade not null,
+  appointment_id bigint references appointments(id) on delete cascade not null,
+  action text not null check (action in ('confirm', 'cancel', 'reschedule')),
+  new_date text,
+  new_time text,
+  status text not null default 'pending' check (status in ('pending', 'processing', 'applied', 'failed')),
+  error text default '',
+  created_at timestamptz default now(),
+  processed_at timestamptz
+);
+
+alter table clinic_secrets enable row level security;
+alter table appointment_action_requests enable row level security;
+
+create policy "Clinic staff can manage appointment action requests" on appointment_action_requests for all
+  using (user_id = clinic_owner_id()) with check (user_id = clinic_owner_id());
+
+create index if not exists appointment_action_requests_user_status_idx on appointment_action_requests(user_id, status);
+create index if not exists appointment_action_requests_appointment_id_idx on appointment_action_requests(appointment_id);
+
+-- Staff: token for the links in an appointment email
+create or replace function sign_appointment_action(p_appointment_id bigint, p_expires_at timestamptz)
+returns text
+language plpgsql security definer set search_path = public as $$
+declare
+  v_owner uuid;
+  v_secret text;
+  v_payload text;
+begin
+  select user_id into v_owner from appointments where id = p_appointment_id;
+  if v_owner is null or v_owner <> clinic_owner_id() then
+    raise exception 'Appointment not found';
+  end if;
+
+  insert into clinic_secrets (owner_id) values (v_owner) on conflict (owner_id) do nothing;
+  select action_secret into v_secret from clinic_secrets where owner_id = v_owner;
+
+  v_payload := p_appointment_id || '.' || floor(extract(epoch from least(p_expires_at, now() + interval '1 year')))::bigint;
+  return v_payload || '.' || encode(extensions.hmac(v_payload, v_secret, 'sha256'), 'hex');
+end;
+$$;
+
+-- Appointment id of a valid token; null when the signature is wrong. Sets p_expired when past its expiry.
+create or replace function verify_appointment_action(p_token text, out p_appointment_id bigint, out p_expired boolean)
+language plpgsql stable security definer set search_path = public as $$
+declare
+  v_parts text[] := string_to_array(p_token, '.');
+  v_secret text;
+begin
+  p_expired := false;
+  if array_length(v_parts, 1) <> 3 or v_parts[1] !~ '^\d+$' or v_parts[2] !~ '^\d+$' then
+    return;
+  end if;
+  select s.action_secret into v_secret
+  from appointments a join clinic_secrets s on s.owner_id = a.user_id
+  where a.id = v_parts[1]::bigint;
+  if v_secret is null
+    or encode(extensions.hmac(v_parts[1] || '.' || v_parts[2], v_secret, 'sha256'), 'hex') <> v_parts[3] then
+    return;
+  end if;
+  p_appointment_id := v_parts[1]::bigint;
+  p_expired := to_timestamp(v_parts[2]::bigint) < now();
+end;
+$$;
+
+revoke execute on function verify_appointment_action(text) from public;
+
+-- Public: appointment shown on the action page (no rows = invalid link)
+create or replace function get_appointment_action(p_token text)
+returns table (expired boolean, status text, date text, "time" text, duration integer, type text,
+  veterinarian text, pet_name text, clinic_name text, pending_action text)
+language sql stable security definer set search_path = public as $$
+  select v.p_expired, a.status, a.date, a.time, a.duration, a.type, a.veterinarian, p.name,
+    coalesce((select c.name from clinics c where c.owner_id = a.user_id), 'VetSoft'),
+    (select r.action from appointment_action_requests r
+      where r.appointment_id = a.id and r.status in ('pending', 'processing')
+      order by r.created_at desc limit 1)
+  from verify_appointment_action(p_token) v
+  join appointments a on a.id = v.p_appointment_id
+  join pets p on p.id = a.pet_id
+$$;
+
+-- Public: free/busy of the clinic for picking a new slot (other appointments only, no names)
+create or replace function get_appointment_action_availability(p_token text, p_date_from text, p_date_to text)
+returns json
+language plpgsql stable security definer set search_path = public as $$
+declare
+  v_check record;
+  v_owner uuid;
+begin
+  select * into v_check from verify_appointment_action(p_token);
+  if v_check.p_appointment_id is null or v_check.p_expired then
+    return null;
+  end if;
+  select user_id into v_owner from appointments where id = v_check.p_appointment_id;
+
+  return json_build_object(
+    'busy', coalesce((select json_agg(json_build_object(
+        'date', a.date, 'time', a.time, 'duration', a.duration, 'type', a.type, 'veterinarian_id', a.veterinarian_id))
+      from appointments a
+      where a.user_id = v_owner and a.id <> v_check.p_appointment_id
+        and a.date between p_date_from and p_date_to
+        and a.status not in ('cancelled', 'no-show')), '[]'::json),
+    'veterinarians', coalesce((select json_agg(json_build_object(
+        'id', v.id, 'working_hours', v.working_hours, 'days_off', v.days_off, 'active', v.active))
+      from veterinarians v where v.user_id = v_owner and v.active), '[]'::json),
+    'settings', coalesce((select json_agg(json_build_object('key', s.key, 'value', s.value))
+      from settings s
+      where s.user_id = v_owner and s.key in ('clinic_hours', 'clinic_holidays', 'single_room_types')), '[]'::json)
+  );
+end;
+$$;
+
+-- Public: record the owner's choice for the clinic app to apply. A new choice replaces a pending one.
+-- Reschedules are re-checked like online bookings (every active vet busy = 'taken').
+-- Returns 'requested', 'taken', 'closed' (appointment no longer scheduled/confirmed), 'expired' or 'invalid'.
+create or replace function request_appointment_action(p_token text, p_action text, p_date text, p_time text)
+returns text
+language plpgsql security definer set search_path = public as $$
+declare
+  v_check record;
+  v_apt appointments%rowtype;
+  v_start integer;
+  v_capacity integer;
+  v_overlapping integer;
+begin
+  select * into v_check from verify_appointment_action(p_token);
+  if v_check.p_appointment_id is null or p_action not in ('confirm', 'cancel', 'reschedule') then
+    return 'invalid';
+  end if;
+  if v_check.p_expired then
+    return 'expired';
+  end if;
+
+  select * into v_apt from appointments where id = v_check.p_appointment_id;
+  if v_apt.status not in ('scheduled', 'confirmed') then
+    return 'closed';
+  end if;
+
+  perform pg_advisory_xact_lock(hashtext(v_apt.user_id::text || coalesce(p_date, v_apt.date)));
+
+  if p_action = 'reschedule' then
+    if p_date is null or p_time is null or p_date < to_char(now(), 'YYYY-MM-DD') then
+      return 'invalid';
+    end if;
+    v_start := split_part(p_time, ':', 1)::integer * 60 + split_part(p_time, ':', 2)::integer;
+    select greatest(count(*), 1) into v_capacity from veterinarians where user_id = v_apt.user_id and active;
+    select count(*) into v_overlapping from appointments a
+    where a.user_id = v_apt.user_id and a.date = p_date and a.id <> v_apt.id
+      and a.status not in ('cancelled', 'no-show')
+      and split_part(a.time, ':', 1)::integer * 60 + split_part(a.time, ':', 2)::integer < v_start + coalesce(v_apt.duration, 30)
+      and split_part(a.time, ':', 1)::integer * 60 + split_part(a.time, ':', 2)::integer + coalesce(a.duration, 30) > v_start;
+    if v_overlapping >= v_capacity then
+      return 'taken';
+    end if;
+  end if;
+
+  delete from appointment_action_requests where appointment_id = v_apt.id and status = 'pending';
+  insert into appointment_action_requests (user_id, appointment_id, action, new_date, new_time)
+  values (v_apt.user_id, v_apt.id, p_action,
+    case when p_action = 'reschedule' then p_date end,
+    case when p_action = 'reschedule' then p_time end);
+
+  return 'requested';
+end;
+$$;
+
+grant execute on function sign_appointment_action(bigint, timestamptz) to authenticated;
+grant execute on function get_appointment_action(text) to anon, authenticated;
+grant execute on function get_appointment_action_availability(text, text, text) to anon, authenticated;
+grant execute on function request_appointment_action(text, text, text, text) to anon, authenticated;
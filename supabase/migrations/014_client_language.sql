@@ -0,0 +1,6 @@
+-- VetSoft - Per-client language for appointment emails
+-- Run AFTER 001-013
+-- Empty = use the clinic default (settings key "email_language"). Email templates themselves are
+-- stored in settings ("email_template_<kind>_<language>"), so they need no schema change.
+
+alter table clients add column if not exists language text default '';
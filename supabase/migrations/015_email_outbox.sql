@@ -0,0 +1,20 @@
+-- VetSoft - Local email outbox for the "outbox" mail transport
+-- Run AFTER 001-014
+-- With Settings > Emails > transport "Outbox", emails are stored here (full .eml source) instead of
+-- being delivered, so notifications can be tested without a Google or SMTP account.
+
+create table if not exists email_outbox (
+  id bigserial primary key,
+  user_id uuid references auth.users(id) on delete cascade not null,
+  to_address text not null,
+  subject text default '',
+  raw text not null,
+  created_at timestamptz default now()
+);
+
+alter table email_outbox enable row level security;
+
+create policy "Clinic staff can manage email outbox" on email_outbox for all
+  using (user_id = clinic_owner_id()) with check (user_id = clinic_owner_id());
+
+create index if not exists email_outbox_user_id_created_at_idx on email_outbox(user_id, created_at desc);
@@ -0,0 +1,10 @@
+-- VetSoft - SMS / WhatsApp notification channels per client
+-- Run AFTER 001-015
+-- notification_channels: where appointment confirmations and reminders go ('email', 'sms', 'whatsapp').
+-- channel_consent: current opt-in / opt-out per channel, e.g.
+--   {"sms": {"status": "opted_in", "at": "2026-01-01T10:00:00Z", "source": "staff:ana@clinic.com"}}
+-- SMS and WhatsApp are only used while the channel is opted in. Provider settings live in settings
+-- ("messaging_config").
+
+alter table clients add column if not exists notification_channels text[] default '{email}';
+alter table clients add column if not exists channel_consent jsonb default '{}'::jsonb;
@@ -0,0 +1,27 @@
+-- VetSoft - Staff notification center (bell in the header)
+-- Run AFTER 001-016
+-- One feed per staff member: rows belong to the clinic (user_id) and to the signed-in user who
+-- receives them (recipient_id), so read / unread state is personal. dedupe_key keeps a recurring
+-- check (e.g. low stock of item 12) from notifying the same person twice.
+
+create table if not exists staff_notifications (
+  id bigserial primary key,
+  user_id uuid references auth.users(id) on delete cascade not null,
+  recipient_id uuid references auth.users(id) on delete cascade not null,
+  kind text not null check (kind in ('appointment_soon', 'vaccine_due', 'low_stock', 'online_booking', 'sync_failed', 'email_failed')),
+  dedupe_key text not null,
+  title text not null,
+  body text default '',
+  link text default '',
+  read_at timestamptz,
+  created_at timestamptz default now(),
+  unique (recipient_id, dedupe_key)
+);
+
+alter table staff_notifications enable row level security;
+
+create policy "Staff can manage their own notifications" on staff_notifications for all
+  using (user_id = clinic_owner_id() and recipient_id = auth.uid())
+  with check (user_id = clinic_owner_id() and recipient_id = auth.uid());
+
+create index if not exists staff_notifications_recipient_created_at_idx on staff_notifications(recipient_id, created_at desc);
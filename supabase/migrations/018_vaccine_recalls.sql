@@ -0,0 +1,25 @@
+-- VetSoft - Vaccine recall log
+-- Run AFTER 001-017
+-- One row per recall attempt from the Recalls page: an email sent (or failed) to the owner, a call
+-- logged by staff, or the vaccination appointment booked for the pet.
+
+create table if not exists vaccine_recalls (
+  id bigserial primary key,
+  user_id uuid references auth.users(id) on delete cascade not null,
+  vaccine_id bigint references vaccines(id) on delete cascade not null,
+  pet_id bigint references pets(id) on delete cascade not null,
+  client_id bigint references clients(id) on delete cascade not null,
+  method text not null check (method in ('email', 'phone', 'booking')),
+  outcome text not null check (outcome in ('sent', 'failed', 'booked', 'no_answer', 'declined')),
+  appointment_id bigint references appointments(id) on delete set null,
+  notes text default '',
+  created_at timestamptz default now()
+);
+
+alter table vaccine_recalls enable row level security;
+
+create policy "Clinic staff can manage vaccine recalls" on vaccine_recalls for all
+  using (user_id = clinic_owner_id()) with check (user_id = clinic_owner_id());
+
+create index if not exists vaccine_recalls_user_id_created_at_idx on vaccine_recalls(user_id, created_at desc);
+create index if not exists vaccine_recalls_vaccine_id_idx on vaccine_recalls(vaccine_id);
@@ -0,0 +1,7 @@
+-- VetSoft - Vaccine protocols
+-- Run AFTER 001-018
+-- Protocols themselves are a clinic setting (key 'vaccine_protocols', edited in Settings > Vacunas).
+-- Each vaccine record keeps the protocol it matched and its dose number in that protocol.
+
+alter table vaccines add column if not exists protocol_id text default '';
+alter table vaccines add column if not exists dose_number integer;
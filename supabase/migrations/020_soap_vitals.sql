@@ -0,0 +1,23 @@
+-- VetSoft - SOAP medical records with vitals
+-- Run AFTER 001-019
+-- Medical records become SOAP notes (Subjective, Objective, Assessment, Plan) with typed vitals.
+-- symptoms / diagnosis / treatment are kept for older app versions; existing notes are copied into
+-- subjective / assessment / plan.
+
+alter table medical_records add column if not exists subjective text default '';
+alter table medical_records add column if not exists objective text default '';
+alter table medical_records add column if not exists assessment text default '';
+alter table medical_records add column if not exists plan text default '';
+
+alter table medical_records add column if not exists temperature numeric;          -- °C
+alter table medical_records add column if not exists heart_rate integer;           -- beats/min
+alter table medical_records add column if not exists respiratory_rate integer;     -- breaths/min
+alter table medical_records add column if not exists weight numeric;               -- kg
+alter table medical_records add column if not exists body_condition_score integer
+  check (body_condition_score between 1 and 9);
+alter table medical_records add column if not exists pain_score integer
+  check (pain_score between 0 and 10);
+
+update medical_records set subjective = symptoms where coalesce(subjective, '') = '' and coalesce(symptoms, '') <> '';
+update medical_records set assessment = diagnosis where coalesce(assessment, '') = '' and coalesce(diagnosis, '') <> '';
+update medical_records set plan = treatment where coalesce(plan, '') = '' and coalesce(treatment, '') <> '';
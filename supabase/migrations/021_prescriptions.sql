@@ -0,0 +1,53 @@
+-- VetSoft - Prescriptions
+-- Run AFTER 001-020
+-- A prescription ties a medication from inventory to the appointment where it was prescribed, with
+-- dosage instructions and the number of refills allowed. Each fill (the first one and every refill)
+-- is sold as a sale_items line on that appointment, so stock is deducted through the inventory ledger.
+
+create table if not exists prescriptions (
+  id bigserial primary key,
+  user_id uuid references auth.users(id) on delete cascade not null,
+  appointment_id bigint references appointments(id) on delete cascade not null,
+  pet_id bigint references pets(id) on delete cascade not null,
+  inventory_id bigint references inventory(id) on delete restrict not null,
+  dose text not null,
+  route text not null default 'oral'
+    check (route in ('oral', 'topical', 'ophthalmic', 'otic', 'subcutaneous', 'intramuscular', 'intravenous', 'inhaled', 'other')),
+  frequency text not null,
+  duration_days integer,
+  quantity integer not null default 1 check (quantity > 0),
+  refills_allowed integer not null default 0 check (refills_allowed >= 0),
+  refills_remaining integer not null default 0 check (refills_remaining >= 0),
+  instructions text default '',
+  prescribed_by text default '',
+  status text not null default 'active' check (status in ('active', 'completed', 'cancelled')),
+  created_at timestamptz default now(),
+  updated_at timestamptz default now()
+);
+
+-- Refill requests: dispensed (sold and deducted from stock) or rejected by clinical staff
+create table if not exists prescription_refills (
+  id bigserial primary key,
+  user_id uuid references auth.users(id) on delete cascade not null,
+  prescription_id bigint references prescriptions(id) on delete cascade not null,
+  status text not null default 'requested' check (status in ('requested', 'dispensed', 'rejected')),
+  sale_item_id bigint references sale_items(id) on delete set null,
+  notes text default '',
+  requested_at timestamptz default now(),
+  resolved_at timestamptz
+);
+
+alter table prescriptions enable row level security;
+alter table prescription_refills enable row level security;
+
+-- Clinical data: not for receptionists (same rule as medical_records)
+create policy "Clinical staff can manage prescriptions" on prescriptions for all
+  using (user_id = clinic_owner_id() and clinic_role() <> 'receptionist')
+  with check (user_id = clinic_owner_id() and clinic_role() <> 'receptionist');
+create policy "Clinical staff can manage prescription_refills" on prescription_refills for all
+  using (user_id = clinic_owner_id() and clinic_role() <> 'receptionist')
+  with check (user_id = clinic_owner_id() and clinic_role() <> 'receptionist');
+
+create index if not exists prescriptions_appointment_id_idx on prescriptions(appointment_id);
+create index if not exists prescriptions_pet_id_idx on prescriptions(pet_id);
+create index if not exists prescription_refills_prescription_id_idx on prescription_refills(prescription_id);
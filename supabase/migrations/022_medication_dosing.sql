@@ -0,0 +1,9 @@
+-- VetSoft - Weight-based medication dosing
+-- Run AFTER 001-021
+-- inventory.dosing (medications only): strength per unit, mg/kg dose ranges per species,
+-- contraindicated species and allergy keywords - see src/services/dosing.ts for the shape.
+-- sale_items.dose_override_reason records why a dose was given despite an overdose, species or
+-- allergy warning.
+
+alter table inventory add column if not exists dosing jsonb;
+alter table sale_items add column if not exists dose_override_reason text default '';
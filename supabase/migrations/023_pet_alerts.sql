@@ -0,0 +1,8 @@
+-- VetSoft - Patient alerts
+-- Run AFTER 001-022
+-- pets.alerts: structured flags (drug allergy, aggressive, chronic condition, DNR, other) with a
+-- severity, shown as badges on lists, calendar and appointments - see PetAlert in src/db/types.ts.
+-- A drug allergy alert blocks selling medications whose name or allergy keywords match its label.
+-- The free-text allergies / medical_notes columns are kept as they are.
+
+alter table pets add column if not exists alerts jsonb default '[]'::jsonb;
@@ -0,0 +1,29 @@
+-- VetSoft - Lab results
+-- Run AFTER 001-023
+-- A lab result is one panel (CBC, chemistry, ...) run for a pet at an appointment. values holds the
+-- analytes as jsonb: [{ code, name, value, unit, refMin, refMax }] - the reference range is copied
+-- in when the result is entered, so later changes to the default ranges do not re-flag old results.
+-- attachment_id links the result to the lab report (PDF) or image uploaded to the appointment.
+
+create table if not exists lab_results (
+  id bigserial primary key,
+  user_id uuid references auth.users(id) on delete cascade not null,
+  appointment_id bigint references appointments(id) on delete cascade not null,
+  pet_id bigint references pets(id) on delete cascade not null,
+  panel text not null default 'other' check (panel in ('cbc', 'chemistry', 'urinalysis', 'other')),
+  attachment_id bigint references appointment_attachments(id) on delete set null,
+  collected_at date not null default current_date,
+  "values" jsonb not null default '[]'::jsonb,
+  notes text default '',
+  created_at timestamptz default now()
+);
+
+alter table lab_results enable row level security;
+
+-- Clinical data: not for receptionists (same rule as medical_records)
+create policy "Clinical staff can manage lab_results" on lab_results for all
+  using (user_id = clinic_owner_id() and clinic_role() <> 'receptionist')
+  with check (user_id = clinic_owner_id() and clinic_role() <> 'receptionist');
+
+create index if not exists lab_results_appointment_id_idx on lab_results(appointment_id);
+create index if not exists lab_results_pet_id_idx on lab_results(pet_id);
@@ -0,0 +1,185 @@
+-- VetSoft - Atomic stock movements
+-- Run AFTER 001-024
+-- Stock used to be updated by reading inventory.quantity in the app, adding the movement and writing
+-- the total back, so two sales at the same time lost a deduction and quantity_after drifted from the
+-- real stock. These functions update the quantity in place (quantity = quantity + delta) and write the
+-- ledger row and the sale line in the same transaction. The app calls them online and when replaying
+-- changes queued offline; each returns the rows it wrote keyed by table name.
+
+-- Internal: applies a signed movement to an item of the clinic and records it in the ledger
+create or replace function apply_stock_movement(
+  p_owner uuid,
+  p_inventory_id bigint,
+  p_type text,
+  p_quantity numeric,
+  p_appointment_id bigint default null,
+  p_sale_item_id bigint default null,
+  p_unit_cost numeric default null,
+  p_reference text default '',
+  p_notes text default ''
+) returns inventory_movements
+language plpgsql set search_path = public as $$
+declare
+  v_after numeric;
+  v_movement inventory_movements%rowtype;
+begin
+  update inventory set quantity = quantity + p_quantity, updated_at = now()
+    where id = p_inventory_id and user_id = p_owner
+    returning quantity into v_after;
+  if not found then
+    raise exception 'Inventory item not found';
+  end if;
+
+  insert into inventory_movements (
+    user_id, inventory_id, type, quantity, quantity_after,
+    appointment_id, sale_item_id, unit_cost, reference, notes
+  ) values (
+    p_owner, p_inventory_id, p_type, p_quantity, v_after,
+    p_appointment_id, p_sale_item_id, p_unit_cost, coalesce(p_reference, ''), coalesce(p_notes, '')
+  ) returning * into v_movement;
+  return v_movement;
+end;
+$$;
+
+revoke execute on function apply_stock_movement(uuid, bigint, text, numeric, bigint, bigint, numeric, text, text)
+  from public, anon, authenticated;
+
+-- Restock, adjustment, expiry write-off or return. p_count (stock count) sets the quantity instead:
+-- the movement is the difference from the stock at that moment.
+create or replace function record_inventory_movement(
+  p_inventory_id bigint,
+  p_type text,
+  p_quantity numeric default null,
+  p_count numeric default null,
+  p_appointment_id bigint default null,
+  p_sale_item_id bigint default null,
+  p_unit_cost numeric default null,
+  p_reference text default '',
+  p_notes text default ''
+) returns jsonb
+language plpgsql security definer set search_path = public as $$
+declare
+  v_owner uuid := clinic_owner_id();
+  v_delta numeric := p_quantity;
+begin
+  if auth.uid() is null then
+    raise exception 'Not authenticated';
+  end if;
+
+  if p_count is not null then
+    select p_count - i.quantity into v_delta from inventory i
+      where i.id = p_inventory_id and i.user_id = v_owner
+      for update;
+    if not found then
+      raise exception 'Inventory item not found';
+    end if;
+  end if;
+  if coalesce(v_delta, 0) = 0 then
+    return '{}'::jsonb;
+  end if;
+
+  return jsonb_build_object('inventory_movements', to_jsonb(apply_stock_movement(
+    v_owner, p_inventory_id, p_type, v_delta, p_appointment_id, p_sale_item_id, p_unit_cost, p_reference, p_notes
+  )));
+end;
+$$;
+
+-- Sells an item on an appointment: the sale line and its stock deduction
+create or replace function sell_inventory_item(
+  p_appointment_id bigint,
+  p_inventory_id bigint,
+  p_quantity numeric,
+  p_unit_price numeric,
+  p_dose_override_reason text default ''
+) returns jsonb
+language plpgsql security definer set search_path = public as $$
+declare
+  v_owner uuid := clinic_owner_id();
+  v_sale sale_items%rowtype;
+begin
+  if auth.uid() is null then
+    raise exception 'Not authenticated';
+  end if;
+  if not exists (select 1 from appointments a where a.id = p_appointment_id and a.user_id = v_owner) then
+    raise exception 'Appointment not found';
+  end if;
+
+  insert into sale_items (user_id, appointment_id, inventory_id, quantity, unit_price, dose_override_reason)
+    values (v_owner, p_appointment_id, p_inventory_id, p_quantity, p_unit_price, coalesce(p_dose_override_reason, ''))
+    returning * into v_sale;
+
+  return jsonb_build_object(
+    'sale_items', to_jsonb(v_sale),
+    'inventory_movements', to_jsonb(apply_stock_movement(
+      v_owner, p_inventory_id, 'sale', -p_quantity, p_appointment_id, v_sale.id
+    ))
+  );
+end;
+$$;
+
+-- Edits a sale line; a quantity change moves the difference in or out of stock
+create or replace function update_sale_item(
+  p_sale_item_id bigint,
+  p_quantity numeric default null,
+  p_unit_price numeric default null,
+  p_dose_override_reason text default null
+) returns jsonb
+language plpgsql security definer set search_path = public as $$
+declare
+  v_owner uuid := clinic_owner_id();
+  v_before sale_items%rowtype;
+  v_sale sale_items%rowtype;
+  v_delta numeric;
+  v_result jsonb;
+begin
+  if auth.uid() is null then
+    raise exception 'Not authenticated';
+  end if;
+  select * into v_before from sale_items s
+    where s.id = p_sale_item_id and s.user_id = v_owner
+    for update;
+  if not found then
+    raise exception 'Sale item not found';
+  end if;
+
+  update sale_items set
+    quantity = coalesce(p_quantity, quantity),
+    unit_price = coalesce(p_unit_price, unit_price),
+    dose_override_reason = coalesce(p_dose_override_reason, dose_override_reason)
+    where id = p_sale_item_id
+    returning * into v_sale;
+
+  v_result := jsonb_build_object('sale_items', to_jsonb(v_sale));
+  v_delta := v_sale.quantity - v_before.quantity;
+  if v_delta <> 0 then
+    v_result := v_result || jsonb_build_object('inventory_movements', to_jsonb(apply_stock_movement(
+      v_owner, v_sale.inventory_id, case when v_delta > 0 then 'sale' else 'return' end, -v_delta,
+      v_sale.appointment_id, v_sale.id
+    )));
+  end if;
+  return v_result;
+end;
+$$;
+
+-- Removes a sale line and puts its quantity back in stock
+create or replace function delete_sale_item(p_sale_item_id bigint) returns jsonb
+language plpgsql security definer set search_path = public as $$
+declare
+  v_owner uuid := clinic_owner_id();
+  v_sale sale_items%rowtype;
+begin
+  if auth.uid() is null then
+    raise exception 'Not authenticated';
+  end if;
+  delete from sale_items s
+    where s.id = p_sale_item_id and s.user_id = v_owner
+    returning * into v_sale;
+  if not found then
+    return '{}'::jsonb;
+  end if;
+
+  return jsonb_build_object('inventory_movements', to_jsonb(apply_stock_movement(
+    v_owner, v_sale.inventory_id, 'return', v_sale.quantity, v_sale.appointment_id, null, null, '', 'Sale line removed'
+  )));
+end;
+$$;
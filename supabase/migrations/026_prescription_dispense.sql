@@ -0,0 +1,113 @@
+-- VetSoft - Atomic prescription fills
+-- Run AFTER 001-025
+-- Dispensing used to sell the fill first and then use up the refill from a value read earlier, so two
+-- staff dispensing at once sold twice and counted one refill, and a refill already handled kept its
+-- sale. dispense_prescription claims the refill, uses it up and sells the fill in one transaction,
+-- failing as a whole when any step finds nothing to update.
+-- The first fill is sold on the prescribing appointment (it belongs to that visit). A refill is sold on
+-- an appointment of its own (completed, dated when it is dispensed), so totals of past appointments
+-- that may be invoiced or paid never change.
+
+create or replace function dispense_prescription(
+  p_prescription_id bigint,
+  p_refill_id bigint default null,
+  p_date text default null,
+  p_time text default null
+) returns jsonb
+language plpgsql security definer set search_path = public as $$
+declare
+  v_owner uuid := clinic_owner_id();
+  v_prescription prescriptions%rowtype;
+  v_refill prescription_refills%rowtype;
+  v_item inventory%rowtype;
+  v_appointment appointments%rowtype;
+  v_appointment_id bigint;
+  v_sale sale_items%rowtype;
+begin
+  if auth.uid() is null then
+    raise exception 'Not authenticated';
+  end if;
+  if clinic_role() = 'receptionist' then
+    raise exception 'Only clinical staff can dispense prescriptions';
+  end if;
+
+  select * into v_prescription from prescriptions p
+    where p.id = p_prescription_id and p.user_id = v_owner;
+  if not found then
+    raise exception 'Prescription not found';
+  end if;
+  if v_prescription.status <> 'active' then
+    raise exception 'The prescription is no longer active';
+  end if;
+
+  if p_refill_id is not null then
+    update prescription_refills set status = 'dispensed', resolved_at = now()
+      where id = p_refill_id and prescription_id = p_prescription_id and user_id = v_owner and status = 'requested'
+      returning * into v_refill;
+    if not found then
+      raise exception 'The refill request was already handled';
+    end if;
+
+    update prescriptions set refills_remaining = refills_remaining - 1, updated_at = now()
+      where id = p_prescription_id and refills_remaining > 0
+      returning * into v_prescription;
+    if not found then
+      raise exception 'No refills left on this prescription';
+    end if;
+  end if;
+
+  -- Locked until commit: the stock check holds for the sale below
+  select * into v_item from inventory i
+    where i.id = v_prescription.inventory_id and i.user_id = v_owner
+    for update;
+  if not found then
+    raise exception 'Medication not found in inventory';
+  end if;
+  if v_item.quantity < v_prescription.quantity then
+    raise exception 'Not enough stock of % (% left)', v_item.name, v_item.quantity;
+  end if;
+
+  select * into v_appointment from appointments a
+    where a.id = v_prescription.appointment_id and a.user_id = v_owner;
+  if not found then
+    raise exception 'Appointment not found';
+  end if;
+
+  if p_refill_id is null then
+    update appointments set total_amount = coalesce(total_amount, 0) + v_prescription.quantity * v_item.price,
+      updated_at = now()
+      where id = v_appointment.id;
+    v_appointment_id := v_appointment.id;
+  else
+    insert into appointments (
+      user_id, pet_id, client_id, date, time, duration, type, status,
+      veterinarian, veterinarian_id, notes, total_amount
+    ) values (
+      v_owner, v_appointment.pet_id, v_appointment.client_id,
+      coalesce(p_date, to_char(now(), 'YYYY-MM-DD')), coalesce(p_time, to_char(now(), 'HH24:MI')),
+      15, 'follow-up', 'completed', v_appointment.veterinarian, v_appointment.veterinarian_id,
+      'Prescription refill: ' || v_item.name, v_prescription.quantity * v_item.price
+    ) returning id into v_appointment_id;
+  end if;
+
+  insert into sale_items (user_id, appointment_id, inventory_id, quantity, unit_price)
+    values (v_owner, v_appointment_id, v_item.id, v_prescription.quantity, v_item.price)
+    returning * into v_sale;
+  perform apply_stock_movement(
+    v_owner, v_item.id, 'sale', -v_prescription.quantity, v_appointment_id, v_sale.id,
+    null, '', 'Prescription #' || v_prescription.id
+  );
+
+  if p_refill_id is not null then
+    update prescription_refills set sale_item_id = v_sale.id
+      where id = p_refill_id
+      returning * into v_refill;
+  end if;
+
+  return jsonb_build_object(
+    'prescription', to_jsonb(v_prescription),
+    'refill', case when p_refill_id is null then null else to_jsonb(v_refill) end,
+    'sale_item', to_jsonb(v_sale)
+  );
+end;
+$$;
@@ -0,0 +1,112 @@
+-- VetSoft - Re-check the slot when a waitlist offer is claimed
+-- Run AFTER 001-026
+-- claim_waitlist_offer booked the freed slot without looking at it again, so a slot rebooked by staff,
+-- online or by another action after the offer went out was double-booked, and an offer claimed after
+-- its time had passed still created an appointment. It now takes the same per clinic and day lock as
+-- book_online_appointment and runs the same capacity check (plus the offered vet and the pet being
+-- free); a past or full slot marks the offer (and the other offers for it) as lost instead.
+
+create or replace function claim_waitlist_offer(p_token uuid)
+returns text
+language plpgsql security definer set search_path = public as $$
+declare
+  v_offer waitlist_offers%rowtype;
+  v_entry waitlist_entries%rowtype;
+  v_appointment_id bigint;
+  v_date text;
+  v_time text;
+  v_start integer;
+  v_capacity integer;
+  v_overlapping integer;
+begin
+  select * into v_offer from waitlist_offers where token = p_token;
+  if not found then
+    return 'not_found';
+  end if;
+  v_date := to_char(v_offer.date, 'YYYY-MM-DD');
+  v_time := to_char(v_offer.time, 'HH24:MI');
+  v_start := extract(hour from v_offer.time)::integer * 60 + extract(minute from v_offer.time)::integer;
+
+  -- Same lock as online bookings and owner reschedules of that clinic and day
+  perform pg_advisory_xact_lock(hashtext(v_offer.user_id::text || v_date));
+
+  perform 1 from waitlist_offers
+    where user_id = v_offer.user_id
+      and cancelled_appointment_id is not distinct from v_offer.cancelled_appointment_id
+      and date = v_offer.date and time = v_offer.time
+    for update;
+
+  select * into v_offer from waitlist_offers where id = v_offer.id;
+  if v_offer.status = 'claimed' then
+    return 'claimed';
+  end if;
+  if v_offer.status <> 'open' then
+    return 'expired';
+  end if;
+  if v_offer.expires_at < now() or v_offer.date + v_offer.time <= localtimestamp then
+    update waitlist_offers set status = 'expired' where id = v_offer.id;
+    return 'expired';
+  end if;
+  if exists (
+    select 1 from waitlist_offers
+    where user_id = v_offer.user_id
+      and cancelled_appointment_id is not distinct from v_offer.cancelled_appointment_id
+      and date = v_offer.date and time = v_offer.time
+      and status = 'claimed'
+  ) then
+    update waitlist_offers set status = 'expired' where id = v_offer.id;
+    return 'taken';
+  end if;
+
+  select * into v_entry from waitlist_entries where id = v_offer.entry_id;
+
+  select greatest(count(*), 1) into v_capacity from veterinarians where user_id = v_offer.user_id and active;
+  select count(*) into v_overlapping from appointments a
+  where a.user_id = v_offer.user_id and a.date = v_date
+    and a.status not in ('cancelled', 'no-show')
+    and split_part(a.time, ':', 1)::integer * 60 + split_part(a.time, ':', 2)::integer < v_start + v_offer.duration
+    and split_part(a.time, ':', 1)::integer * 60 + split_part(a.time, ':', 2)::integer + coalesce(a.duration, 30) > v_start;
+
+  if v_overlapping >= v_capacity
+    or exists (
+      select 1 from appointments a
+      where a.user_id = v_offer.user_id and a.date = v_date
+        and a.veterinarian_id = v_offer.veterinarian_id
+        and a.status not in ('cancelled', 'no-show')
+        and split_part(a.time, ':', 1)::integer * 60 + split_part(a.time, ':', 2)::integer < v_start + v_offer.duration
+        and split_part(a.time, ':', 1)::integer * 60 + split_part(a.time, ':', 2)::integer + coalesce(a.duration, 30) > v_start
+    )
+    or exists (
+      select 1 from appointments a
+      where a.pet_id = v_entry.pet_id and a.date = v_date and a.time = v_time
+        and a.status not in ('cancelled', 'no-show')
+    )
+  then
+    -- The slot is gone for every client it was offered to
+    update waitlist_offers set status = 'expired'
+      where user_id = v_offer.user_id
+        and cancelled_appointment_id is not distinct from v_offer.cancelled_appointment_id
+        and date = v_offer.date and time = v_offer.time
+        and status = 'open';
+    return 'taken';
+  end if;
+
+  -- google_sync_pending: the clinic's next calendar sync creates the Google event
+  insert into appointments (user_id, pet_id, client_id, date, time, duration, type, status,
+    veterinarian, veterinarian_id, notes, google_sync_pending, created_at, updated_at)
+  values (v_offer.user_id, v_entry.pet_id, v_entry.client_id, v_date, v_time, v_offer.duration,
+    v_offer.type, 'scheduled', coalesce(v_offer.veterinarian, ''), v_offer.veterinarian_id,
+    'Reservada desde la lista de espera', true, now(), now())
+  returning id into v_appointment_id;
+
+  update waitlist_offers set status = 'claimed', claimed_appointment_id = v_appointment_id where id = v_offer.id;
+  update waitlist_offers set status = 'expired'
+    where user_id = v_offer.user_id
+      and cancelled_appointment_id is not distinct from v_offer.cancelled_appointment_id
+      and date = v_offer.date and time = v_offer.time
+      and id <> v_offer.id and status = 'open';
+  update waitlist_entries set status = 'booked', updated_at = now() where id = v_entry.id;
+
+  return 'claimed';
+end;
+$$;
@@ -0,0 +1,24 @@
+-- VetSoft - Reset the reminder of rescheduled appointments
+-- Run AFTER 001-027
+-- reminder_sent stayed true when an appointment moved, so the new slot never got its reminder.
+-- The trigger clears it whenever date or time change, whoever makes the change (staff edits, series
+-- shifts, Google Calendar sync, owner reschedules). reminder_sent_for records the slot the reminder
+-- was sent for, so the reminder engine also ignores a reminder sent for an older slot.
+
+alter table appointments add column if not exists reminder_sent_for text;
+
+create or replace function reset_reminder_on_reschedule() returns trigger
+language plpgsql as $$
+begin
+  if new.date is distinct from old.date or new.time is distinct from old.time then
+    new.reminder_sent := false;
+    new.reminder_sent_for := null;
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists appointments_reset_reminder on appointments;
+create trigger appointments_reset_reminder
+  before update of date, time on appointments
+  for each row execute function reset_reminder_on_reschedule();
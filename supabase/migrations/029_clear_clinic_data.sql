@@ -0,0 +1,32 @@
+-- VetSoft - Clear clinic data on the server, for admins only
+-- Run AFTER 001-028
+-- clearAllData checked the admin role in the app only: the "Clinic staff can manage ..." policies let
+-- any member delete every row, so a veterinarian or receptionist could wipe the clinic through the API.
+-- Members still delete single records (a client, an appointment), so the reset moves into this function,
+-- which checks the role itself. The other admin-only actions (staff, invitations, clinic name and online
+-- booking) are already limited to admins by the clinic_members, clinic_invitations and clinics policies in 008.
+
+create or replace function clear_clinic_data()
+returns void
+language plpgsql security definer set search_path = public as $$
+declare
+  v_owner uuid := clinic_owner_id();
+begin
+  if auth.uid() is null then
+    raise exception 'Not authenticated';
+  end if;
+  if clinic_role() <> 'admin' then
+    raise exception 'Only clinic admins can delete all clinic data';
+  end if;
+
+  delete from invoices where user_id = v_owner;
+  delete from appointments where user_id = v_owner;
+  delete from waitlist_entries where user_id = v_owner;
+  delete from appointment_series where user_id = v_owner;
+  delete from pets where user_id = v_owner;
+  delete from clients where user_id = v_owner;
+  delete from inventory where user_id = v_owner;
+  delete from veterinarians where user_id = v_owner;
+  delete from settings where user_id = v_owner;
+end;
+$$;
@@ -0,0 +1,8 @@
+-- VetSoft - Planned doses of a vaccine series
+-- Run AFTER 001-029
+-- addVaccine kept only the next due date of the protocol plan; the rest of the series (remaining
+-- juvenile or primary doses and the booster) was only shown while recording the dose.
+-- planned_doses keeps the whole plan: [{ label, dueDate }], next dose first ('[]' when the due date
+-- was entered by hand or no protocol matched).
+
+alter table vaccines add column if not exists planned_doses jsonb default '[]'::jsonb;
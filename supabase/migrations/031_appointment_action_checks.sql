@@ -0,0 +1,160 @@
+-- VetSoft - Check opening hours and the vet when an owner reschedules from an email link
+-- Run AFTER 001-030
+-- request_appointment_action only checked the clinic's capacity. A time outside opening hours, on a
+-- holiday, or when the appointment's vet is off or busy was accepted, and the clinic app then failed to
+-- apply it (validateSlot) with nobody telling the owner. The function now runs the same checks as
+-- validateSlot against the clinic's settings (defaults when not configured) and returns 'unavailable'
+-- (closed or vet not working) or 'taken' (vet, pet, room or every vet busy) so the owner picks again.
+-- The free/busy for the owner's slot picker only lists the appointment's vet when it has one, so the
+-- times offered are the ones the request accepts.
+
+-- Public: free/busy of the clinic for picking a new slot (other appointments only, no names)
+create or replace function get_appointment_action_availability(p_token text, p_date_from text, p_date_to text)
+returns json
+language plpgsql stable security definer set search_path = public as $$
+declare
+  v_check record;
+  v_apt appointments%rowtype;
+begin
+  select * into v_check from verify_appointment_action(p_token);
+  if v_check.p_appointment_id is null or v_check.p_expired then
+    return null;
+  end if;
+  select * into v_apt from appointments where id = v_check.p_appointment_id;
+
+  return json_build_object(
+    'busy', coalesce((select json_agg(json_build_object(
+        'date', a.date, 'time', a.time, 'duration', a.duration, 'type', a.type, 'veterinarian_id', a.veterinarian_id))
+      from appointments a
+      where a.user_id = v_apt.user_id and a.id <> v_apt.id
+        and a.date between p_date_from and p_date_to
+        and a.status not in ('cancelled', 'no-show')), '[]'::json),
+    'veterinarians', coalesce((select json_agg(json_build_object(
+        'id', v.id, 'working_hours', v.working_hours, 'days_off', v.days_off, 'active', v.active))
+      from veterinarians v
+      where v.user_id = v_apt.user_id and v.active
+        and (v.id = v_apt.veterinarian_id or not exists (
+          select 1 from veterinarians own where own.id = v_apt.veterinarian_id and own.user_id = v_apt.user_id))
+      ), '[]'::json),
+    'settings', coalesce((select json_agg(json_build_object('key', s.key, 'value', s.value))
+      from settings s
+      where s.user_id = v_apt.user_id and s.key in ('clinic_hours', 'clinic_holidays', 'single_room_types')), '[]'::json)
+  );
+end;
+$$;
+
+
+create or replace function request_appointment_action(p_token text, p_action text, p_date text, p_time text)
+returns text
+language plpgsql security definer set search_path = public as $$
+declare
+  v_check record;
+  v_apt appointments%rowtype;
+  v_vet veterinarians%rowtype;
+  v_start integer;
+  v_end integer;
+  v_capacity integer;
+  v_overlapping integer;
+  v_weekday text;
+  v_hours jsonb;
+  v_holidays jsonb;
+  v_room_types text[];
+begin
+  select * into v_check from verify_appointment_action(p_token);
+  if v_check.p_appointment_id is null or p_action not in ('confirm', 'cancel', 'reschedule') then
+    return 'invalid';
+  end if;
+  if v_check.p_expired then
+    return 'expired';
+  end if;
+
+  select * into v_apt from appointments where id = v_check.p_appointment_id;
+  if v_apt.status not in ('scheduled', 'confirmed') then
+    return 'closed';
+  end if;
+
+  perform pg_advisory_xact_lock(hashtext(v_apt.user_id::text || coalesce(p_date, v_apt.date)));
+
+  if p_action = 'reschedule' then
+    if p_date is null or p_time is null
+      or p_date !~ '^\d{4}-\d{2}-\d{2}$' or p_time !~ '^\d{1,2}:\d{2}$'
+      or p_date < to_char(now(), 'YYYY-MM-DD') then
+      return 'invalid';
+    end if;
+    v_start := split_part(p_time, ':', 1)::integer * 60 + split_part(p_time, ':', 2)::integer;
+    v_end := v_start + coalesce(v_apt.duration, 30);
+    v_weekday := extract(dow from p_date::date)::integer::text;
+
+    -- Opening hours and holidays (rulesFromSettings: unreadable settings fall back to the defaults)
+    begin
+      select value::jsonb into v_hours from settings where user_id = v_apt.user_id and key = 'clinic_hours';
+    exception when others then
+      v_hours := null;
+    end;
+    v_hours := coalesce(v_hours, '{"1":{"start":"08:00","end":"20:00"},"2":{"start":"08:00","end":"20:00"},
+      "3":{"start":"08:00","end":"20:00"},"4":{"start":"08:00","end":"20:00"},"5":{"start":"08:00","end":"20:00"},
+      "6":{"start":"09:00","end":"14:00"}}'::jsonb);
+    begin
+      select value::jsonb into v_holidays from settings where user_id = v_apt.user_id and key = 'clinic_holidays';
+    exception when others then
+      v_holidays := null;
+    end;
+    if coalesce(v_holidays, '[]'::jsonb) ? p_date
+      or v_hours -> v_weekday is null
+      or v_start < split_part(v_hours -> v_weekday ->> 'start', ':', 1)::integer * 60 + split_part(v_hours -> v_weekday ->> 'start', ':', 2)::integer
+      or v_end > split_part(v_hours -> v_weekday ->> 'end', ':', 1)::integer * 60 + split_part(v_hours -> v_weekday ->> 'end', ':', 2)::integer
+    then
+      return 'unavailable';
+    end if;
+
+    -- The appointment keeps its vet: they must work the whole slot and be free
+    select * into v_vet from veterinarians where id = v_apt.veterinarian_id and user_id = v_apt.user_id;
+    if found then
+      if not v_vet.active or p_date::date = any(v_vet.days_off)
+        or v_vet.working_hours -> v_weekday is null
+        or v_start < split_part(v_vet.working_hours -> v_weekday ->> 'start', ':', 1)::integer * 60 + split_part(v_vet.working_hours -> v_weekday ->> 'start', ':', 2)::integer
+        or v_end > split_part(v_vet.working_hours -> v_weekday ->> 'end', ':', 1)::integer * 60 + split_part(v_vet.working_hours -> v_weekday ->> 'end', ':', 2)::integer
+      then
+        return 'unavailable';
+      end if;
+    end if;
+
+    select coalesce((select string_to_array(replace(value, ' ', ''), ',') from settings
+      where user_id = v_apt.user_id and key = 'single_room_types'), array['surgery']) into v_room_types;
+
+    -- Same vet, same pet or the same single room overlapping the new slot
+    if exists (
+      select 1 from appointments a
+      where a.user_id = v_apt.user_id and a.date = p_date and a.id <> v_apt.id
+        and a.status not in ('cancelled', 'no-show')
+        and split_part(a.time, ':', 1)::integer * 60 + split_part(a.time, ':', 2)::integer < v_end
+        and split_part(a.time, ':', 1)::integer * 60 + split_part(a.time, ':', 2)::integer + coalesce(a.duration, 30) > v_start
+        and (
+          (v_vet.id is not null and (a.veterinarian_id = v_vet.id or (a.veterinarian_id is null and a.veterinarian = v_vet.name)))
+          or a.pet_id = v_apt.pet_id
+          or (a.type = v_apt.type and v_apt.type = any(v_room_types))
+        )
+    ) then
+      return 'taken';
+    end if;
+
+    select greatest(count(*), 1) into v_capacity from veterinarians where user_id = v_apt.user_id and active;
+    select count(*) into v_overlapping from appointments a
+    where a.user_id = v_apt.user_id and a.date = p_date and a.id <> v_apt.id
+      and a.status not in ('cancelled', 'no-show')
+      and split_part(a.time, ':', 1)::integer * 60 + split_part(a.time, ':', 2)::integer < v_end
+      and split_part(a.time, ':', 1)::integer * 60 + split_part(a.time, ':', 2)::integer + coalesce(a.duration, 30) > v_start;
+    if v_overlapping >= v_capacity then
+      return 'taken';
+    end if;
+  end if;
+
+  delete from appointment_action_requests where appointment_id = v_apt.id and status = 'pending';
+  insert into appointment_action_requests (user_id, appointment_id, action, new_date, new_time)
+  values (v_apt.user_id, v_apt.id, p_action,
+    case when p_action = 'reschedule' then p_date end,
+    case when p_action = 'reschedule' then p_time end);
+
+  return 'requested';
+end;
+$$;
@@ -0,0 +1,138 @@
+-- VetSoft - Clinic time zone for the server-side "is this slot in the past" checks
+-- Run AFTER 001-031
+-- Appointment dates and times are the clinic's wall-clock time, but claim_waitlist_offer compared them
+-- with localtimestamp, the database server's time zone (UTC on Supabase), so an offer stayed claimable
+-- for hours after its slot had started (or expired early east of UTC). Clinics now store their IANA time
+-- zone (set by an admin in Settings > Clinic & Staff) and clinic_local_now gives the clinic's current
+-- wall-clock time. Until a zone is set the server's zone is used, as before.
+
+alter table clinics add column if not exists time_zone text;
+
+-- Reject names Postgres does not know, so clinic_local_now cannot fail later
+create or replace function check_clinic_time_zone() returns trigger
+language plpgsql as $$
+begin
+  if new.time_zone is not null then
+    perform now() at time zone new.time_zone;
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists clinics_check_time_zone on clinics;
+create trigger clinics_check_time_zone before insert or update of time_zone on clinics
+  for each row execute function check_clinic_time_zone();
+
+-- Current date and time on the clinic's wall clock (timestamp without time zone)
+create or replace function clinic_local_now(p_owner uuid) returns timestamp
+language sql stable security definer set search_path = public as $$
+  select now() at time zone coalesce(
+    (select time_zone from clinics where owner_id = p_owner),
+    current_setting('TimeZone')
+  )
+$$;
+
+create or replace function claim_waitlist_offer(p_token uuid)
+returns text
+language plpgsql security definer set search_path = public as $$
+declare
+  v_offer waitlist_offers%rowtype;
+  v_entry waitlist_entries%rowtype;
+  v_appointment_id bigint;
+  v_date text;
+  v_time text;
+  v_start integer;
+  v_capacity integer;
+  v_overlapping integer;
+begin
+  select * into v_offer from waitlist_offers where token = p_token;
+  if not found then
+    return 'not_found';
+  end if;
+  v_date := to_char(v_offer.date, 'YYYY-MM-DD');
+  v_time := to_char(v_offer.time, 'HH24:MI');
+  v_start := extract(hour from v_offer.time)::integer * 60 + extract(minute from v_offer.time)::integer;
+
+  -- Same lock as online bookings and owner reschedules of that clinic and day
+  perform pg_advisory_xact_lock(hashtext(v_offer.user_id::text || v_date));
+
+  perform 1 from waitlist_offers
+    where user_id = v_offer.user_id
+      and cancelled_appointment_id is not distinct from v_offer.cancelled_appointment_id
+      and date = v_offer.date and time = v_offer.time
+    for update;
+
+  select * into v_offer from waitlist_offers where id = v_offer.id;
+  if v_offer.status = 'claimed' then
+    return 'claimed';
+  end if;
+  if v_offer.status <> 'open' then
+    return 'expired';
+  end if;
+  if v_offer.expires_at < now() or v_offer.date + v_offer.time <= clinic_local_now(v_offer.user_id) then
+    update waitlist_offers set status = 'expired' where id = v_offer.id;
+    return 'expired';
+  end if;
+  if exists (
+    select 1 from waitlist_offers
+    where user_id = v_offer.user_id
+      and cancelled_appointment_id is not distinct from v_offer.cancelled_appointment_id
+      and date = v_offer.date and time = v_offer.time
+      and status = 'claimed'
+  ) then
+    update waitlist_offers set status = 'expired' where id = v_offer.id;
+    return 'taken';
+  end if;
+
+  select * into v_entry from waitlist_entries where id = v_offer.entry_id;
+
+  select greatest(count(*), 1) into v_capacity from veterinarians where user_id = v_offer.user_id and active;
+  select count(*) into v_overlapping from appointments a
+  where a.user_id = v_offer.user_id and a.date = v_date
+    and a.status not in ('cancelled', 'no-show')
+    and split_part(a.time, ':', 1)::integer * 60 + split_part(a.time, ':', 2)::integer < v_start + v_offer.duration
+    and split_part(a.time, ':', 1)::integer * 60 + split_part(a.time, ':', 2)::integer + coalesce(a.duration, 30) > v_start;
+
+  if v_overlapping >= v_capacity
+    or exists (
+      select 1 from appointments a
+      where a.user_id = v_offer.user_id and a.date = v_date
+        and a.veterinarian_id = v_offer.veterinarian_id
+        and a.status not in ('cancelled', 'no-show')
+        and split_part(a.time, ':', 1)::integer * 60 + split_part(a.time, ':', 2)::integer < v_start + v_offer.duration
+        and split_part(a.time, ':', 1)::integer * 60 + split_part(a.time, ':', 2)::integer + coalesce(a.duration, 30) > v_start
+    )
+    or exists (
+      select 1 from appointments a
+      where a.pet_id = v_entry.pet_id and a.date = v_date and a.time = v_time
+        and a.status not in ('cancelled', 'no-show')
+    )
+  then
+    -- The slot is gone for every client it was offered to
+    update waitlist_offers set status = 'expired'
+      where user_id = v_offer.user_id
+        and cancelled_appointment_id is not distinct from v_offer.cancelled_appointment_id
+        and date = v_offer.date and time = v_offer.time
+        and status = 'open';
+    return 'taken';
+  end if;
+
+  -- google_sync_pending: the clinic's next calendar sync creates the Google event
+  insert into appointments (user_id, pet_id, client_id, date, time, duration, type, status,
+    veterinarian, veterinarian_id, notes, google_sync_pending, created_at, updated_at)
+  values (v_offer.user_id, v_entry.pet_id, v_entry.client_id, v_date, v_time, v_offer.duration,
+    v_offer.type, 'scheduled', coalesce(v_offer.veterinarian, ''), v_offer.veterinarian_id,
+    'Reservada desde la lista de espera', true, now(), now())
+  returning id into v_appointment_id;
+
+  update waitlist_offers set status = 'claimed', claimed_appointment_id = v_appointment_id where id = v_offer.id;
+  update waitlist_offers set status = 'expired'
+    where user_id = v_offer.user_id
+      and cancelled_appointment_id is not distinct from v_offer.cancelled_appointment_id
+      and date = v_offer.date and time = v_offer.time
+      and id <> v_offer.id and status = 'open';
+  update waitlist_entries set status = 'booked', updated_at = now() where id = v_entry.id;
+
+  return 'claimed';
+end;
+$$;
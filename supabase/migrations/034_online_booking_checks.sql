@@ -0,0 +1,217 @@
+-- VetSoft - Check online bookings on the server and stop showing owner data to anonymous visitors
+-- Run AFTER 001-033
+-- find_booking_client returned the client's first name and every pet's name and species to anyone who
+-- typed an email or phone number the clinic has on file. It now returns an opaque match token (valid for
+-- two hours) and nothing else; the owner types the pet's name and book_online_appointment matches it
+-- among the client's pets (case-insensitive) or registers a new pet.
+-- book_online_appointment only checked the clinic's capacity, so a direct call could book outside opening
+-- hours, on a holiday, in the past or when no vet works. It now runs the same checks as getFreeSlots
+-- (services/booking.ts) against the clinic's settings (defaults when not configured) and returns
+-- 'unavailable' (closed, past, too far ahead or no vet working) or 'taken' (room or every working vet busy).
+
+create table if not exists booking_matches (
+  token uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users(id) on delete cascade,
+  client_id bigint not null references clients(id) on delete cascade,
+  expires_at timestamptz not null default now() + interval '2 hours'
+);
+
+-- Only the security definer functions below read or write matches
+alter table booking_matches enable row level security;
+
+drop function if exists find_booking_client(uuid, text);
+drop function if exists book_online_appointment(uuid, text, bigint, text, text, text, text, integer, text, text);
+
+-- Match token for the client with this email (case-insensitive) or phone (digits only), null when unknown
+create or replace function find_booking_client(p_slug uuid, p_contact text)
+returns uuid
+language plpgsql security definer set search_path = public as $$
+declare
+  v_owner uuid := booking_clinic_owner(p_slug);
+  v_client_id bigint;
+  v_token uuid;
+begin
+  if v_owner is null then
+    return null;
+  end if;
+
+  select cl.id into v_client_id from clients cl
+  where cl.user_id = v_owner
+    and (
+      lower(cl.email) = lower(trim(p_contact))
+      or (length(regexp_replace(p_contact, '\D', '', 'g')) >= 6
+        and regexp_replace(cl.phone, '\D', '', 'g') = regexp_replace(p_contact, '\D', '', 'g'))
+    )
+  order by cl.created_at
+  limit 1;
+  if v_client_id is null then
+    return null;
+  end if;
+
+  delete from booking_matches where expires_at < now();
+  insert into booking_matches (user_id, client_id) values (v_owner, v_client_id)
+  returning token into v_token;
+  return v_token;
+end;
+$$;
+
+-- Books a slot for the matched owner's pet (registered when no pet of theirs has that name).
+-- Bookings land as 'scheduled' for staff to confirm. Bookings of the same clinic and day are serialized.
+-- Returns 'booked', 'taken', 'unavailable' or 'not_found' (unknown clinic or expired match).
+create or replace function book_online_appointment(
+  p_slug uuid, p_match uuid, p_pet_name text, p_pet_species text,
+  p_date text, p_time text, p_duration integer, p_type text, p_notes text
+)
+returns text
+language plpgsql security definer set search_path = public as $$
+declare
+  v_owner uuid := booking_clinic_owner(p_slug);
+  v_client_id bigint;
+  v_pet_id bigint;
+  v_duration integer := least(greatest(coalesce(p_duration, 30), 15), 240);
+  v_start integer;
+  v_end integer;
+  v_now timestamp;
+  v_weekday text;
+  v_hours jsonb;
+  v_holidays jsonb;
+  v_room_types text[];
+  v_vets integer;
+  v_working integer;
+  v_free_vets integer;
+  v_unassigned integer;
+  v_overlapping integer;
+begin
+  if v_owner is null or p_type not in ('consultation', 'vaccination', 'grooming', 'follow-up')
+    or coalesce(trim(p_pet_name), '') = '' then
+    return 'not_found';
+  end if;
+
+  select m.client_id into v_client_id from booking_matches m
+  where m.token = p_match and m.user_id = v_owner and m.expires_at > now();
+  if v_client_id is null then
+    return 'not_found';
+  end if;
+
+  if p_date is null or p_time is null
+    or p_date !~ '^\d{4}-\d{2}-\d{2}$' or p_time !~ '^\d{1,2}:\d{2}$' then
+    return 'unavailable';
+  end if;
+  v_start := split_part(p_time, ':', 1)::integer * 60 + split_part(p_time, ':', 2)::integer;
+  v_end := v_start + v_duration;
+  v_weekday := extract(dow from p_date::date)::integer::text;
+
+  -- Past slots and dates beyond the booking window (BOOKING_DAYS) on the clinic's clock
+  v_now := clinic_local_now(v_owner);
+  if p_date < to_char(v_now, 'YYYY-MM-DD')
+    or p_date > to_char(v_now + interval '30 days', 'YYYY-MM-DD')
+    or (p_date = to_char(v_now, 'YYYY-MM-DD')
+      and v_start < extract(hour from v_now)::integer * 60 + extract(minute from v_now)::integer)
+  then
+    return 'unavailable';
+  end if;
+
+  -- Opening hours and holidays (rulesFromSettings: unreadable settings fall back to the defaults)
+  begin
+    select value::jsonb into v_hours from settings where user_id = v_owner and key = 'clinic_hours';
+  exception when others then
+    v_hours := null;
+  end;
+  v_hours := coalesce(v_hours, '{"1":{"start":"08:00","end":"20:00"},"2":{"start":"08:00","end":"20:00"},
+    "3":{"start":"08:00","end":"20:00"},"4":{"start":"08:00","end":"20:00"},"5":{"start":"08:00","end":"20:00"},
+    "6":{"start":"09:00","end":"14:00"}}'::jsonb);
+  begin
+    select value::jsonb into v_holidays from settings where user_id = v_owner and key = 'clinic_holidays';
+  exception when others then
+    v_holidays := null;
+  end;
+  if coalesce(v_holidays, '[]'::jsonb) ? p_date
+    or v_hours -> v_weekday is null
+    or v_start < split_part(v_hours -> v_weekday ->> 'start', ':', 1)::integer * 60 + split_part(v_hours -> v_weekday ->> 'start', ':', 2)::integer
+    or v_end > split_part(v_hours -> v_weekday ->> 'end', ':', 1)::integer * 60 + split_part(v_hours -> v_weekday ->> 'end', ':', 2)::integer
+  then
+    return 'unavailable';
+  end if;
+
+  perform pg_advisory_xact_lock(hashtext(v_owner::text || p_date));
+
+  select coalesce((select string_to_array(replace(value, ' ', ''), ',') from settings
+    where user_id = v_owner and key = 'single_room_types'), array['surgery']) into v_room_types;
+
+  if p_type = any(v_room_types) and exists (
+    select 1 from appointments a
+    where a.user_id = v_owner and a.date = p_date and a.type = p_type
+      and a.status not in ('cancelled', 'no-show')
+      and split_part(a.time, ':', 1)::integer * 60 + split_part(a.time, ':', 2)::integer < v_end
+      and split_part(a.time, ':', 1)::integer * 60 + split_part(a.time, ':', 2)::integer + coalesce(a.duration, 30) > v_start
+  ) then
+    return 'taken';
+  end if;
+
+  -- Without a roster the slot must be empty. With one, some vet must work the whole slot and stay free
+  -- after the appointments without a (known) vet take one each.
+  select count(*) filter (where a.veterinarian_id is null or v.id is null), count(*)
+  into v_unassigned, v_overlapping
+  from appointments a
+  left join veterinarians v on v.id = a.veterinarian_id and v.user_id = v_owner and v.active
+  where a.user_id = v_owner and a.date = p_date
+    and a.status not in ('cancelled', 'no-show')
+    and split_part(a.time, ':', 1)::integer * 60 + split_part(a.time, ':', 2)::integer < v_end
+    and split_part(a.time, ':', 1)::integer * 60 + split_part(a.time, ':', 2)::integer + coalesce(a.duration, 30) > v_start;
+
+  select count(*) into v_vets from veterinarians where user_id = v_owner and active;
+  if v_vets = 0 then
+    if v_overlapping > 0 then
+      return 'taken';
+    end if;
+  else
+    select count(*), count(*) filter (where not exists (
+        select 1 from appointments a
+        where a.veterinarian_id = v.id and a.date = p_date
+          and a.status not in ('cancelled', 'no-show')
+          and split_part(a.time, ':', 1)::integer * 60 + split_part(a.time, ':', 2)::integer < v_end
+          and split_part(a.time, ':', 1)::integer * 60 + split_part(a.time, ':', 2)::integer + coalesce(a.duration, 30) > v_start))
+    into v_working, v_free_vets
+    from veterinarians v
+    where v.user_id = v_owner and v.active
+      and not (p_date::date = any(v.days_off))
+      and v.working_hours -> v_weekday is not null
+      and v_start >= split_part(v.working_hours -> v_weekday ->> 'start', ':', 1)::integer * 60 + split_part(v.working_hours -> v_weekday ->> 'start', ':', 2)::integer
+      and v_end <= split_part(v.working_hours -> v_weekday ->> 'end', ':', 1)::integer * 60 + split_part(v.working_hours -> v_weekday ->> 'end', ':', 2)::integer;
+    if v_working = 0 then
+      return 'unavailable';
+    end if;
+    if v_free_vets <= v_unassigned then
+      return 'taken';
+    end if;
+  end if;
+
+  select p.id into v_pet_id from pets p
+  where p.client_id = v_client_id and lower(trim(p.name)) = lower(trim(p_pet_name))
+  order by p.id
+  limit 1;
+  if v_pet_id is null then
+    insert into pets (user_id, client_id, name, species, gender, notes)
+    values (v_owner, v_client_id, trim(p_pet_name),
+      case when p_pet_species in ('dog', 'cat', 'bird', 'rabbit', 'hamster', 'fish', 'reptile') then p_pet_species else 'other' end,
+      'unknown', 'Registrada desde las reservas online')
+    returning id into v_pet_id;
+  elsif exists (
+    select 1 from appointments a
+    where a.pet_id = v_pet_id and a.date = p_date and a.time = p_time and a.status not in ('cancelled', 'no-show')
+  ) then
+    return 'taken';
+  end if;
+
+  -- google_sync_pending: the clinic's next calendar sync creates the Google event
+  insert into appointments (user_id, pet_id, client_id, date, time, duration, type, status,
+    veterinarian, notes, google_sync_pending, created_at, updated_at)
+  values (v_owner, v_pet_id, v_client_id, p_date, p_time, v_duration, p_type, 'scheduled', '',
+    trim('Reservada online. ' || coalesce(p_notes, '')), true, now(), now());
+
+  return 'booked';
+end;
+$$;
+
+grant execute on function find_booking_client(uuid, text) to anon, authenticated;
+grant execute on function book_online_appointment(uuid, uuid, text, text, text, text, integer, text, text) to anon, authenticated;
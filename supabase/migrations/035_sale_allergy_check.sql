@@ -0,0 +1,87 @@
+-- VetSoft - Block sales that match a drug allergy alert on the server
+-- Run AFTER 001-034
+-- Drug allergy alerts (migration 023) only blocked a sale in the appointment form, so a queued offline
+-- sale or a direct call to sell_inventory_item sold the medication anyway. sell_inventory_item now
+-- refuses the sale when a drug allergy alert of the appointment's pet matches the item, with the same
+-- matching as allergyConflicts (services/dosing.ts): case and accents ignored, and the allergy starts a
+-- word of the item's name or allergy keywords, or one of them starts a word of the allergy.
+
+-- Lowercase without accents (normalize in services/dosing.ts)
+create or replace function normalize_drug_term(p_text text) returns text
+language sql immutable as $$
+  select translate(lower(trim(p_text)), 'áàâäãéèêëíìîïóòôöõúùûüñç', 'aaaaaeeeeiiiiooooouuuunc')
+$$;
+
+-- Whether p_fragment starts a word of p_text (both normalized)
+create or replace function starts_word(p_text text, p_fragment text) returns boolean
+language sql immutable as $$
+  select p_text ~ ('(^|[^a-z0-9])' || regexp_replace(p_fragment, '([.*+?^${}()|\[\]\\])', '\\\1', 'g'))
+$$;
+
+-- Labels of the pet's drug allergy alerts that match the inventory item (runs with the caller's rights)
+create or replace function blocking_allergy_alerts(p_pet_id bigint, p_inventory_id bigint) returns text[]
+language sql stable set search_path = public as $$
+  with terms as (
+    select normalize_drug_term(t) as term
+    from inventory i,
+      unnest(array[i.name] || coalesce(array(select jsonb_array_elements_text(i.dosing -> 'allergyKeywords')), '{}')) t
+    where i.id = p_inventory_id
+  ),
+  alerts as (
+    select a ->> 'label' as label
+    from pets p, jsonb_array_elements(coalesce(p.alerts, '[]'::jsonb)) a
+    where p.id = p_pet_id and a ->> 'kind' = 'drug_allergy'
+  )
+  select coalesce(array_agg(distinct alerts.label), '{}')
+  from alerts
+  where exists (
+    select 1
+    from regexp_split_to_table(alerts.label, '[,;\n/]+|\s+y\s+|\s+and\s+', 'i') part,
+      terms
+    where length(trim(part)) >= 3
+      and normalize_drug_term(part) not in ('ninguna', 'ninguno', 'none', 'no', 'n/a', 'no conocidas', 'desconocidas')
+      and length(terms.term) >= 3
+      and (starts_word(terms.term, normalize_drug_term(part)) or starts_word(normalize_drug_term(part), terms.term))
+  )
+$$;
+
+create or replace function sell_inventory_item(
+  p_appointment_id bigint,
+  p_inventory_id bigint,
+  p_quantity numeric,
+  p_unit_price numeric,
+  p_dose_override_reason text default ''
+) returns jsonb
+language plpgsql security definer set search_path = public as $$
+declare
+  v_owner uuid := clinic_owner_id();
+  v_appointment appointments%rowtype;
+  v_allergies text[];
+  v_sale sale_items%rowtype;
+begin
+  if auth.uid() is null then
+    raise exception 'Not authenticated';
+  end if;
+  select * into v_appointment from appointments a where a.id = p_appointment_id and a.user_id = v_owner;
+  if not found then
+    raise exception 'Appointment not found';
+  end if;
+
+  v_allergies := blocking_allergy_alerts(v_appointment.pet_id, p_inventory_id);
+  if cardinality(v_allergies) > 0 then
+    raise exception '% no se puede vender: alergia registrada a %',
+      (select name from inventory where id = p_inventory_id), array_to_string(v_allergies, ', ');
+  end if;
+
+  insert into sale_items (user_id, appointment_id, inventory_id, quantity, unit_price, dose_override_reason)
+    values (v_owner, p_appointment_id, p_inventory_id, p_quantity, p_unit_price, coalesce(p_dose_override_reason, ''))
+    returning * into v_sale;
+
+  return jsonb_build_object(
+    'sale_items', to_jsonb(v_sale),
+    'inventory_movements', to_jsonb(apply_stock_movement(
+      v_owner, p_inventory_id, 'sale', -p_quantity, p_appointment_id, v_sale.id
+    ))
+  );
+end;
+$$;
@@ -0,0 +1,85 @@
+-- VetSoft - Positive sale quantities and restock when an appointment is deleted
+-- Run AFTER 001-035
+-- sell_inventory_item accepted a zero or negative quantity, which put stock back in through a 'sale'
+-- movement. It now refuses them, and sale_items checks it for new and edited lines (rows already
+-- stored are left as they are).
+-- Deleting an appointment removed its sale lines through the foreign key cascade without the return
+-- movement delete_sale_item writes, so the sold quantities never came back to stock. A trigger now
+-- returns each line of the appointment to stock (as delete_sale_item does) before it is deleted.
+
+alter table sale_items drop constraint if exists sale_items_quantity_positive;
+alter table sale_items add constraint sale_items_quantity_positive check (quantity > 0) not valid;
+
+create or replace function sell_inventory_item(
+  p_appointment_id bigint,
+  p_inventory_id bigint,
+  p_quantity numeric,
+  p_unit_price numeric,
+  p_dose_override_reason text default ''
+) returns jsonb
+language plpgsql security definer set search_path = public as $$
+declare
+  v_owner uuid := clinic_owner_id();
+  v_appointment appointments%rowtype;
+  v_allergies text[];
+  v_sale sale_items%rowtype;
+begin
+  if auth.uid() is null then
+    raise exception 'Not authenticated';
+  end if;
+  if p_quantity is null or p_quantity <= 0 then
+    raise exception 'The quantity sold must be greater than zero';
+  end if;
+  select * into v_appointment from appointments a where a.id = p_appointment_id and a.user_id = v_owner;
+  if not found then
+    raise exception 'Appointment not found';
+  end if;
+
+  v_allergies := blocking_allergy_alerts(v_appointment.pet_id, p_inventory_id);
+  if cardinality(v_allergies) > 0 then
+    raise exception '% no se puede vender: alergia registrada a %',
+      (select name from inventory where id = p_inventory_id), array_to_string(v_allergies, ', ');
+  end if;
+
+  insert into sale_items (user_id, appointment_id, inventory_id, quantity, unit_price, dose_override_reason)
+    values (v_owner, p_appointment_id, p_inventory_id, p_quantity, p_unit_price, coalesce(p_dose_override_reason, ''))
+    returning * into v_sale;
+
+  return jsonb_build_object(
+    'sale_items', to_jsonb(v_sale),
+    'inventory_movements', to_jsonb(apply_stock_movement(
+      v_owner, p_inventory_id, 'sale', -p_quantity, p_appointment_id, v_sale.id
+    ))
+  );
+end;
+$$;
+
+-- Returns the appointment's sale lines to stock before the cascade deletes them. The movement keeps no
+-- appointment_id (the appointment is going away). Nothing is returned when the account is being deleted,
+-- or for lines whose item is already gone.
+create or replace function restock_deleted_appointment() returns trigger
+language plpgsql security definer set search_path = public as $$
+declare
+  v_sale sale_items%rowtype;
+begin
+  if not exists (select 1 from auth.users u where u.id = old.user_id) then
+    return old;
+  end if;
+  for v_sale in
+    select s.* from sale_items s
+    join inventory i on i.id = s.inventory_id and i.user_id = s.user_id
+    where s.appointment_id = old.id
+  loop
+    perform apply_stock_movement(
+      v_sale.user_id, v_sale.inventory_id, 'return', v_sale.quantity, null, null, null, '',
+      'Appointment #' || old.id || ' deleted'
+    );
+  end loop;
+  return old;
+end;
+$$;
+
+drop trigger if exists appointments_restock_sale_items on appointments;
+create trigger appointments_restock_sale_items
+  before delete on appointments
+  for each row execute function restock_deleted_appointment();
@@ -0,0 +1,75 @@
+-- VetSoft - Record payments and refunds in one transaction
+-- Run AFTER 001-036
+-- recordPayment read the invoice, inserted the payment, re-read the payments to update the invoice
+-- and then updated the appointment, in four round trips. Two payments at the same time could leave
+-- amount_paid missing one of them, and two refunds could each pass the "no more than was paid" check.
+-- record_payment locks the invoice, checks the refund against the amount paid, inserts the payment and
+-- recomputes the invoice balance and status and the appointment's amount_paid before it commits.
+
+create or replace function record_payment(
+  p_invoice_id bigint,
+  p_type text,
+  p_method text,
+  p_amount numeric,
+  p_reference text default '',
+  p_notes text default '',
+  p_paid_at timestamptz default null
+) returns jsonb
+language plpgsql security definer set search_path = public as $$
+declare
+  v_owner uuid := clinic_owner_id();
+  v_invoice invoices%rowtype;
+  v_paid numeric;
+  v_has_refunds boolean;
+  v_appointment_paid numeric;
+begin
+  if auth.uid() is null then
+    raise exception 'Not authenticated';
+  end if;
+  if p_amount is null or p_amount <= 0 then
+    raise exception 'Amount must be greater than zero';
+  end if;
+
+  -- Locked until commit: payments of the same invoice wait for each other
+  select * into v_invoice from invoices i
+    where i.id = p_invoice_id and i.user_id = v_owner
+    for update;
+  if not found then
+    raise exception 'Invoice not found';
+  end if;
+  if p_type = 'refund' and p_amount > v_invoice.amount_paid + 0.005 then
+    raise exception 'Refund exceeds the amount paid';
+  end if;
+
+  insert into payments (user_id, invoice_id, appointment_id, client_id, type, method, amount, reference, notes, paid_at)
+    values (v_owner, v_invoice.id, v_invoice.appointment_id, v_invoice.client_id, p_type, p_method, p_amount,
+      coalesce(p_reference, ''), coalesce(p_notes, ''), coalesce(p_paid_at, now()));
+
+  select coalesce(sum(case when p.type = 'refund' then -p.amount else p.amount end), 0), bool_or(p.type = 'refund')
+    into v_paid, v_has_refunds
+    from payments p where p.invoice_id = v_invoice.id;
+
+  -- Paid in full, part paid, refunded to zero, or nothing paid yet
+  update invoices set
+    amount_paid = v_paid,
+    status = case
+      when v_paid >= total and total > 0 then 'paid'
+      when v_paid > 0 then 'partial'
+      when v_has_refunds then 'refunded'
+      else 'issued'
+    end,
+    updated_at = now()
+    where id = v_invoice.id
+    returning * into v_invoice;
+
+  -- Keep the appointment's paid amount in line with its invoices
+  if v_invoice.appointment_id is not null then
+    select coalesce(sum(i.amount_paid), 0) into v_appointment_paid
+      from invoices i where i.appointment_id = v_invoice.appointment_id and i.user_id = v_owner;
+    update appointments set amount_paid = v_appointment_paid, updated_at = now()
+      where id = v_invoice.appointment_id and user_id = v_owner;
+  end if;
+
+  return jsonb_build_object('invoice', to_jsonb(v_invoice), 'appointment_amount_paid', v_appointment_paid);
+end;
+$$;
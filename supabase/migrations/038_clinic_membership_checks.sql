@@ -0,0 +1,68 @@
+-- VetSoft - Staff only join a clinic through an invitation to a confirmed email address
+-- Run AFTER 001-037
+-- The "Admins can manage clinic staff" policy let an admin insert a clinic_members row for any user id
+-- (or point an existing row at another user), giving that account the clinic's data without it ever
+-- being invited. Members are now only added by ensure_clinic_membership; admins can still change roles
+-- and names and remove staff, but not insert rows or change user_id, clinic_id or email.
+-- ensure_clinic_membership accepted an invitation for the email in the JWT even when the address was
+-- never confirmed, so anyone who signed up with an invited staff member's email joined in their place.
+-- Invitations are now only accepted once auth.users.email_confirmed_at is set; until then the user gets
+-- no membership (and no clinic of their own, so the invitation can still be accepted after confirming).
+
+drop policy if exists "Admins can manage clinic staff" on clinic_members;
+drop policy if exists "Admins can update clinic staff" on clinic_members;
+drop policy if exists "Admins can remove clinic staff" on clinic_members;
+
+create policy "Admins can update clinic staff" on clinic_members for update
+  using (clinic_id = clinic_id() and clinic_role() = 'admin')
+  with check (clinic_id = clinic_id() and clinic_role() = 'admin');
+create policy "Admins can remove clinic staff" on clinic_members for delete
+  using (clinic_id = clinic_id() and clinic_role() = 'admin');
+
+revoke insert, update on clinic_members from anon, authenticated;
+grant update (role, name) on clinic_members to authenticated;
+
+create or replace function ensure_clinic_membership()
+returns table (clinic_id bigint, clinic_name text, owner_id uuid, role text)
+language plpgsql security definer set search_path = public as $$
+#variable_conflict use_column
+declare
+  v_email text;
+  v_confirmed boolean;
+  v_invitation clinic_invitations%rowtype;
+  v_clinic_id bigint;
+begin
+  if auth.uid() is null then
+    raise exception 'Not authenticated';
+  end if;
+
+  if not exists (select 1 from clinic_members m where m.user_id = auth.uid()) then
+    select lower(coalesce(u.email, '')), u.email_confirmed_at is not null into v_email, v_confirmed
+      from auth.users u where u.id = auth.uid();
+
+    select * into v_invitation from clinic_invitations i
+      where lower(i.email) = v_email and i.accepted_at is null
+      order by i.created_at desc limit 1;
+
+    if found then
+      if not v_confirmed then
+        return;
+      end if;
+      insert into clinic_members (clinic_id, user_id, email, role)
+        values (v_invitation.clinic_id, auth.uid(), v_email, v_invitation.role);
+      update clinic_invitations set accepted_at = now() where id = v_invitation.id;
+    else
+      insert into clinics (owner_id) values (auth.uid())
+        on conflict on constraint clinics_owner_id_key do nothing;
+      select c.id into v_clinic_id from clinics c where c.owner_id = auth.uid();
+      insert into clinic_members (clinic_id, user_id, email, role)
+        values (v_clinic_id, auth.uid(), v_email, 'admin');
+    end if;
+  end if;
+
+  return query
+    select c.id, c.name, c.owner_id, m.role
+    from clinic_members m join clinics c on c.id = m.clinic_id
+    where m.user_id = auth.uid();
+end;
+$$;